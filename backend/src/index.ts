@@ -8,15 +8,37 @@
 
 import cors from 'cors';
 import express from 'express';
-import helmet from 'helmet';
-import morgan from 'morgan';
+import {
+  errorEnvelopeHandler,
+  notFoundHandler,
+} from './middleware/errorEnvelope';
+import { securityMiddleware } from './middleware/security';
+import { adminRoutes } from './routes/adminRoutes';
 import { analysisRoutes } from './routes/analysisRoutes_fixed';
 import { apiRoutes } from './routes/apiRoutes';
 import healthRouter from './routes/health';
+import { symbolRoutes } from './routes/symbolRoutes';
 
 const app = express();
 const PORT = process.env.PORT || 10000;
 
+// Dietro il proxy di Render req.ip deve essere l'IP del client
+// (X-Forwarded-For), altrimenti blocchi e rate limit colpirebbero il proxy.
+// TRUST_PROXY: numero di proxy davanti al server oppure elenco separato da
+// virgole di indirizzi e sottoreti fidati (es. "loopback, 10.0.0.0/8")
+const trustProxy = (
+  process.env.TRUST_PROXY ?? (process.env.NODE_ENV === 'production' ? '1' : '0')
+).trim();
+app.set(
+  'trust proxy',
+  /^\d+$/.test(trustProxy)
+    ? Number(trustProxy)
+    : trustProxy
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+);
+
 // CORS sicuro: consenti solo le origin Vercel (prod e preview)
 const allowedOrigins = [
   'https://student-analyst.vercel.app',
@@ -59,35 +81,23 @@ app.use(cors(corsOptions));
 // Gestione preflight OPTIONS globale (per sicurezza)
 app.options('*', cors(corsOptions));
 
-// Middleware essenziali
-app.use(helmet()); // Aggiunge header di sicurezza
-app.use(morgan('dev'));
-app.use(express.json()); // Per il parsing del body JSON delle richieste
+// Middleware essenziali: header di sicurezza, log degli accessi, blocco IP
+// sospetti e rate limiting
+app.use(securityMiddleware);
+app.use(express.json({ limit: '10mb' })); // Body JSON (include i CSV dei fattori Fama-French e i file prezzi importati)
 
 // Health check endpoint
 app.use('/', healthRouter);
 
 // Rotte API - ANALYSIS PRIMA DI API ROUTES PER EVITARE CONFLITTI
 app.use('/api/analysis', analysisRoutes);
-app.use('/api', apiRoutes);
-
-// Semplice gestore di errori globale
-app.use(
-  (
-    err: Error,
-    _req: express.Request,
-    res: express.Response,
-    _next: express.NextFunction
-  ) => {
-    console.error('ERRORE GLOBALE:', err.stack);
-    res.status(500).json({ error: 'Internal Server Error' });
-  }
-);
+app.use('/api/symbols', symbolRoutes);
+app.use('/api/v1', apiRoutes);
+app.use('/api/admin', adminRoutes);
 
-// Semplice gestore 404
-app.use((_req, res) => {
-  res.status(404).json({ error: 'Not Found' });
-});
+// Errori e rotte inesistenti nel formato comune delle risposte di errore
+app.use(notFoundHandler);
+app.use(errorEnvelopeHandler);
 
 app.listen(PORT, () => {
   console.log(`✅ Server minimale avviato e in ascolto sulla porta ${PORT}`);
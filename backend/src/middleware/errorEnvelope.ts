@@ -0,0 +1,111 @@
+/**
+ * STUDENT ANALYST - Error Envelope
+ * ================================
+ *
+ * Formato unico delle risposte di errore del backend: ogni errore passa da
+ * ErrorCodeHandler.classifyError, che ne stabilisce tipo, severità, messaggio
+ * per l'utente e strategia di recovery. Il corpo della risposta viene da
+ * services/errorEnvelope; qui si imposta lo status HTTP e l'header
+ * Retry-After.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import {
+  ClassifiedError,
+  ErrorCodeHandler,
+  ErrorContext,
+  SystemError,
+  SystemErrorType,
+} from '../services/errorCodeHandler';
+import { getResponseStatus, toErrorEnvelope } from '../services/errorEnvelope';
+
+/**
+ * Classifica l'errore e invia la risposta con lo status corrispondente
+ */
+export const sendApiError = (
+  res: Response,
+  error: unknown,
+  context: ErrorContext
+): ClassifiedError => {
+  const classified = ErrorCodeHandler.getInstance().classifyError(
+    error instanceof Error ? error : new Error(String(error)),
+    context
+  );
+  const envelope = toErrorEnvelope(classified);
+
+  if (envelope.error.retryAfter !== undefined) {
+    res.set('Retry-After', String(envelope.error.retryAfter));
+  }
+  res.status(getResponseStatus(classified)).json(envelope);
+  return classified;
+};
+
+/**
+ * Risposta 400 per parametri non validi: il messaggio diventa il dettaglio
+ * dell'errore e il codice quello specifico della rotta
+ */
+export const rejectRequest = (
+  res: Response,
+  message: string,
+  code: string
+): void => {
+  sendApiError(
+    res,
+    new SystemError(SystemErrorType.INVALID_REQUEST, message, { code }),
+    {
+      operation: `${res.req.method} ${res.req.path}`,
+      apiService: 'backend',
+    }
+  );
+};
+
+/**
+ * Gestore globale degli errori Express (da montare dopo tutte le rotte)
+ */
+export const errorEnvelopeHandler = (
+  err: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  console.error('ERRORE GLOBALE:', err);
+
+  // Errori del body parser e simili: status 4xx già impostato da Express
+  const status = (err as { status?: unknown })?.status;
+  const error =
+    !(err instanceof SystemError) &&
+    typeof status === 'number' &&
+    status >= 400 &&
+    status < 500
+      ? new SystemError(
+          SystemErrorType.INVALID_REQUEST,
+          err instanceof Error ? err.message : String(err),
+          { status }
+        )
+      : err;
+
+  sendApiError(res, error, {
+    operation: `${req.method} ${req.path}`,
+    apiService: 'backend',
+  });
+};
+
+/**
+ * Rotta inesistente
+ */
+export const notFoundHandler = (req: Request, res: Response): void => {
+  sendApiError(
+    res,
+    new SystemError(
+      SystemErrorType.INVALID_REQUEST,
+      `Route not found: ${req.method} ${req.path}`,
+      { code: 'NOT_FOUND', status: 404 }
+    ),
+    { operation: `${req.method} ${req.path}`, apiService: 'backend' }
+  );
+};
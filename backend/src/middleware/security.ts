@@ -7,16 +7,37 @@
  * - CORS restrittivo per controllo accessi
  * - Security headers con helmet
  * - Logging e monitoraggio degli accessi
+ * - Blocco temporaneo degli IP sospetti
+ * - Autenticazione degli endpoint di amministrazione
  */
 
 import cors from 'cors';
+import { createHash, timingSafeEqual } from 'crypto';
 import { NextFunction, Request, Response } from 'express';
 import rateLimit from 'express-rate-limit';
+import { SystemError, SystemErrorType } from '../services/errorCodeHandler';
+import { suspiciousActivityLogger } from '../services/suspiciousActivityLogger';
+import { sendApiError } from './errorEnvelope';
 import helmet from 'helmet';
 
+// Rotte di sola lettura chiamate di continuo dal frontend (health check,
+// ricerca simboli durante la digitazione, polling e stream SSE dei job):
+// non consumano il limite globale. La validazione dei simboli può leggere le
+// sorgenti remote e ha un limite proprio (symbolValidationLimiter)
+const RATE_LIMIT_EXEMPT_ROUTES = [
+  /^\/health\/?$/,
+  /^\/api\/symbols\/search\/?$/,
+  /^\/api\/analysis\/jobs\/[^/]+(\/events)?\/?$/,
+];
+
+const isRateLimitExempt = (req: Request): boolean =>
+  (req.method === 'GET' || req.method === 'HEAD') &&
+  RATE_LIMIT_EXEMPT_ROUTES.some(route => route.test(req.path));
+
 /**
  * Configurazione Rate Limiting
- * 100 richieste per 15 minuti per IP
+ * 100 richieste per 15 minuti per IP, escluse le rotte di sola lettura
+ * in RATE_LIMIT_EXEMPT_ROUTES
  */
 export const rateLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minuti in millisecondi
@@ -37,21 +58,17 @@ export const rateLimiter = rateLimit({
     console.warn(
       `🚨 Rate limit exceeded for IP: ${req.ip} - ${req.method} ${req.originalUrl}`
     );
-    res.status(429).json({
-      error: 'Too Many Requests',
-      message: 'You have exceeded the maximum number of requests allowed.',
-      details: {
-        limit: 100,
-        window: '15 minutes',
-        retryAfter: '15 minutes',
-        currentTime: new Date().toISOString(),
-      },
-    });
-  },
-  skip: (req: Request) => {
-    // Skip rate limiting per health check endpoint
-    return req.path === '/health';
+    sendApiError(
+      res,
+      new SystemError(
+        SystemErrorType.RATE_LIMIT_EXCEEDED,
+        'You have exceeded the maximum number of requests allowed (100 per 15 minutes).',
+        { code: 'TOO_MANY_REQUESTS', retryAfter: 15 * 60 }
+      ),
+      { operation: `${req.method} ${req.path}`, apiService: 'backend' }
+    );
   },
+  skip: isRateLimitExempt,
 });
 
 /**
@@ -74,18 +91,40 @@ export const strictRateLimiter = rateLimit({
     console.warn(
       `🚨 Strict rate limit exceeded for IP: ${req.ip} - ${req.method} ${req.originalUrl}`
     );
-    res.status(429).json({
-      error: 'API Rate Limit Exceeded',
-      message:
-        'You have made too many API requests. Please wait before trying again.',
-      details: {
-        limit: 50,
-        window: '15 minutes',
-        retryAfter: '15 minutes',
-        endpoint: req.originalUrl,
-        currentTime: new Date().toISOString(),
-      },
-    });
+    sendApiError(
+      res,
+      new SystemError(
+        SystemErrorType.RATE_LIMIT_EXCEEDED,
+        'You have made too many API requests (50 per 15 minutes).',
+        { code: 'API_RATE_LIMIT_EXCEEDED', retryAfter: 15 * 60 }
+      ),
+      { operation: `${req.method} ${req.path}`, apiService: 'backend' }
+    );
+  },
+});
+
+/**
+ * Rate Limiter della validazione simboli: 30 richieste al minuto per IP,
+ * sufficienti per i ticker inseriti a mano ma non per enumerare simboli
+ */
+export const symbolValidationLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minuto
+  max: 30,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req: Request, res: Response) => {
+    console.warn(
+      `🚨 Symbol validation rate limit exceeded for IP: ${req.ip} - ${req.originalUrl}`
+    );
+    sendApiError(
+      res,
+      new SystemError(
+        SystemErrorType.RATE_LIMIT_EXCEEDED,
+        'You have validated too many symbols (30 per minute).',
+        { code: 'SYMBOL_VALIDATION_RATE_LIMIT_EXCEEDED', retryAfter: 60 }
+      ),
+      { operation: `${req.method} ${req.path}`, apiService: 'backend' }
+    );
   },
 });
 
@@ -238,11 +277,15 @@ export const requestValidator = (
   const contentLength = req.get('content-length');
   if (contentLength && parseInt(contentLength) > 10 * 1024 * 1024) {
     // 10MB limit
-    res.status(413).json({
-      error: 'Payload Too Large',
-      message: 'Request payload exceeds maximum size limit',
-      maxSize: '10MB',
-    });
+    sendApiError(
+      res,
+      new SystemError(
+        SystemErrorType.INVALID_REQUEST,
+        'Request payload exceeds maximum size limit (10MB)',
+        { code: 'PAYLOAD_TOO_LARGE', status: 413 }
+      ),
+      { operation: `${req.method} ${req.path}`, apiService: 'backend' }
+    );
     return;
   }
 
@@ -259,15 +302,108 @@ export const requestValidator = (
   next();
 };
 
+/**
+ * Middleware per il blocco degli IP sospetti: rifiuta le richieste degli IP
+ * bloccati e registra l'esito di tutte le altre nel SuspiciousActivityLogger
+ */
+export const suspiciousActivityMonitor = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const ip = req.ip || req.socket.remoteAddress || 'unknown';
+
+  const block = suspiciousActivityLogger.getBlock(ip);
+  if (block) {
+    sendApiError(
+      res,
+      new SystemError(
+        SystemErrorType.INVALID_REQUEST,
+        `IP ${ip} blocked until ${block.expiresAt.toISOString()}: ${block.reason}`,
+        {
+          code: 'IP_BLOCKED',
+          status: 403,
+          retryAfter: Math.ceil(
+            (block.expiresAt.getTime() - Date.now()) / 1000
+          ),
+        }
+      ),
+      { operation: `${req.method} ${req.path}`, apiService: 'backend' }
+    );
+    return;
+  }
+
+  res.on('finish', () => {
+    suspiciousActivityLogger.recordRequest({
+      ip,
+      userAgent: req.get('user-agent') || 'unknown',
+      method: req.method,
+      endpoint: req.originalUrl.split('?')[0] || req.path,
+      statusCode: res.statusCode,
+    });
+  });
+
+  next();
+};
+
+/**
+ * Autenticazione degli endpoint di amministrazione:
+ * header "Authorization: Bearer <ADMIN_TOKEN>".
+ * Senza ADMIN_TOKEN configurato gli endpoint restano disattivati.
+ */
+export const requireAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const context = {
+    operation: `${req.method} ${req.path}`,
+    apiService: 'backend',
+  };
+  const adminToken = process.env.ADMIN_TOKEN;
+
+  if (!adminToken) {
+    sendApiError(
+      res,
+      new SystemError(
+        SystemErrorType.SERVICE_UNAVAILABLE,
+        'Admin endpoints are disabled (ADMIN_TOKEN not configured)',
+        { code: 'ADMIN_DISABLED' }
+      ),
+      context
+    );
+    return;
+  }
+
+  const provided = (req.get('authorization') || '').replace(/^Bearer\s+/i, '');
+  // Confronto a tempo costante sugli hash (lunghezze uguali)
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (!provided || !timingSafeEqual(digest(provided), digest(adminToken))) {
+    sendApiError(
+      res,
+      new SystemError(
+        SystemErrorType.INVALID_REQUEST,
+        'Missing or invalid admin token',
+        { code: 'ADMIN_UNAUTHORIZED', status: 401 }
+      ),
+      context
+    );
+    return;
+  }
+
+  next();
+};
+
 /**
  * Configurazione completa di sicurezza
- * Da applicare nell'ordine corretto
+ * Da applicare nell'ordine corretto. Il CORS è configurato in index.ts
+ * (origin Vercel e preview), prima di questa catena.
  */
 export const securityMiddleware = [
   securityLogger,
   helmetConfig,
-  corsConfig,
   requestValidator,
+  suspiciousActivityMonitor,
   rateLimiter,
 ];
 
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { rejectRequest } from '../middleware/errorEnvelope';
+import { requireAdmin } from '../middleware/security';
+import { apiKeyManager } from '../services/apiProxy';
+import { suspiciousActivityLogger } from '../services/suspiciousActivityLogger';
+
+// Endpoint di amministrazione, montati su /api/admin (token ADMIN_TOKEN)
+export const adminRoutes = Router();
+
+adminRoutes.use(requireAdmin);
+
+// Stato della sicurezza: eventi recenti, IP bloccati e più pericolosi
+adminRoutes.get('/security', (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      ...suspiciousActivityLogger.getSecurityStats(),
+      apiUsage: apiKeyManager.getUsageStats(),
+    },
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Esportazione completa dei log di sicurezza (JSON o CSV)
+adminRoutes.get('/security/logs', (req, res) => {
+  const format = req.query.format ?? 'json';
+  if (format !== 'json' && format !== 'csv') {
+    rejectRequest(res, 'format deve essere json o csv', 'INVALID_FORMAT');
+    return;
+  }
+
+  const date = new Date().toISOString().split('T')[0];
+  res
+    .type(format === 'csv' ? 'text/csv' : 'application/json')
+    .attachment(`security-logs-${date}.${format}`)
+    .send(suspiciousActivityLogger.exportLogs(format));
+});
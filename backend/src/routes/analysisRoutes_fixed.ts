@@ -1,74 +1,322 @@
 import { Request, Response, Router } from 'express';
-import { performAnalysis } from '../services/analysisService';
+import { rejectRequest, sendApiError } from '../middleware/errorEnvelope';
+import { analysisJobManager } from '../services/analysisJobs';
+import { AnalysisParams, performAnalysis } from '../services/analysisService';
+import { sanitizeBenchmarkSymbol } from '../services/benchmarkComparison';
+import { FactorDataset, parseFactorCsv } from '../services/factorData';
+import { ReturnMode } from '../services/historicalAnalysisService';
+import { WEEK_ANCHORS, WeekAnchor } from '../services/ohlcvResampler';
+import {
+  ImportedSeries,
+  parseImportedSeries,
+  parsePriceFile,
+} from '../services/priceImport';
+import {
+  PortfolioAllocationInput,
+  sanitizeAllocationKeys,
+  validatePortfolioAllocation,
+} from '../services/portfolioAllocation';
+import { ProgressEvent } from '../services/apiRateLimiter';
+import { parseClusterConfig } from '../services/clusterAnalysis';
+import { parseCorrelationConfig } from '../services/correlationAnalysis';
+import { SystemError, SystemErrorType } from '../services/errorCodeHandler';
+import { parseRebalancingPolicy } from '../services/portfolioRebalancer';
+import { parseVaRConfig } from '../services/valueAtRisk';
+import { parseVolatilityConfig } from '../services/volatilityModels';
 
 export const analysisRoutes = Router();
 
+// Commento periodico sullo stream SSE per tenere aperta la connessione
+const SSE_HEARTBEAT_MS = 15000;
+
 // GET endpoint per test
 analysisRoutes.get('/', (req, res) => {
   res.json({
     message: 'Analysis API is active',
     endpoints: {
-      'POST /': 'Perform financial analysis',
+      'POST /':
+        'Perform financial analysis (optional weights/shares, returnType price|total, varConfig, volatilityConfig, correlationConfig, clusterConfig, benchmark, factorData CSV, importedSeries)',
+      'POST /jobs':
+        'Queue an analysis (same body as POST /) and return its job id (202)',
+      'GET /jobs/:id': 'Job status, progress and result when completed',
+      'GET /jobs/:id/events':
+        'Server-Sent Events stream of job progress (queue size, completed tickers, ETA)',
+      'DELETE /jobs/:id': 'Cancel a queued or running job',
+      'POST /import':
+        'Parse a CSV/XLSX price history (fileName, content, encoding text|base64, symbol) into importedSeries',
       'GET /': 'API status',
     },
   });
 });
 
-// POST endpoint per l'analisi finanziaria
-analysisRoutes.post('/', async (req: Request, res: Response) => {
-  try {
-    console.log('📊 Richiesta analisi ricevuta:', req.body);
+/**
+ * Riepilogo di una richiesta per i log: il corpo può contenere serie
+ * importate e fattori di migliaia di righe, che non vanno scritti per intero
+ */
+const summarizeRequest = (req: Request) => {
+  const { tickers, startDate, endDate } = req.body ?? {};
+  return {
+    tickers: Array.isArray(tickers) ? tickers.length : 0,
+    period: `${startDate ?? '?'} → ${endDate ?? '?'}`,
+    payloadBytes:
+      Number(req.get('content-length')) ||
+      Buffer.byteLength(JSON.stringify(req.body ?? {})),
+  };
+};
 
-    // Validazione parametri
-    const { tickers, startDate, endDate, frequency } = req.body;
+/**
+ * Valida e normalizza il corpo di una richiesta di analisi; se non è valido
+ * risponde 400 e non restituisce parametri
+ */
+const parseAnalysisRequest = (
+  req: Request,
+  res: Response
+): AnalysisParams | void => {
+  // Validazione parametri
+  const {
+    tickers,
+    startDate,
+    endDate,
+    frequency,
+    weekAnchor,
+    weights,
+    shares,
+    initialCapital,
+    rebalancing,
+    returnType,
+    varConfig,
+    volatilityConfig,
+    correlationConfig,
+    clusterConfig,
+    benchmark,
+    factorData,
+    importedSeries,
+  } = req.body ?? {};
 
-    if (!tickers || !Array.isArray(tickers) || tickers.length === 0) {
-      return res.status(400).json({
-        error: 'Parametro tickers richiesto (array di stringhe)',
-        code: 'MISSING_TICKERS',
-      });
-    }
+  // Serie importate da file (CSV/XLSX), in aggiunta o al posto dei ticker
+  const parsedImport = parseImportedSeries(importedSeries);
 
-    if (!startDate || !endDate) {
-      return res.status(400).json({
-        error: 'Parametri startDate e endDate richiesti',
-        code: 'MISSING_DATES',
-      });
-    }
+  if ('error' in parsedImport) {
+    return rejectRequest(res, parsedImport.error, 'INVALID_IMPORTED_SERIES');
+  }
+
+  const imported: ImportedSeries[] = parsedImport.series;
+
+  if (
+    tickers !== undefined &&
+    (!Array.isArray(tickers) ||
+      tickers.some(ticker => typeof ticker !== 'string'))
+  ) {
+    return rejectRequest(
+      res,
+      'Parametro tickers non valido (array di stringhe)',
+      'MISSING_TICKERS'
+    );
+  }
+
+  if ((!tickers || tickers.length === 0) && imported.length === 0) {
+    return rejectRequest(
+      res,
+      'Parametro tickers richiesto (array di stringhe) o almeno una serie importata',
+      'MISSING_TICKERS'
+    );
+  }
+
+  if (!startDate || !endDate) {
+    return rejectRequest(
+      res,
+      'Parametri startDate e endDate richiesti',
+      'MISSING_DATES'
+    );
+  }
 
-    if (!frequency || !['daily', 'weekly', 'monthly'].includes(frequency)) {
-      return res.status(400).json({
-        error: 'Parametro frequency richiesto (daily, weekly, monthly)',
-        code: 'INVALID_FREQUENCY',
-      });
+  if (!frequency || !['daily', 'weekly', 'monthly'].includes(frequency)) {
+    return rejectRequest(
+      res,
+      'Parametro frequency richiesto (daily, weekly, monthly)',
+      'INVALID_FREQUENCY'
+    );
+  }
+
+  if (
+    weekAnchor !== undefined &&
+    !WEEK_ANCHORS.includes(weekAnchor as WeekAnchor)
+  ) {
+    return rejectRequest(
+      res,
+      `Parametro weekAnchor non valido (${WEEK_ANCHORS.join(', ')})`,
+      'INVALID_WEEK_ANCHOR'
+    );
+  }
+
+  if (
+    returnType !== undefined &&
+    !['price', 'total'].includes(returnType as ReturnMode)
+  ) {
+    return rejectRequest(
+      res,
+      'Parametro returnType non valido (price, total)',
+      'INVALID_RETURN_TYPE'
+    );
+  }
+
+  const benchmarkSymbol = sanitizeBenchmarkSymbol(benchmark);
+
+  if (!benchmarkSymbol) {
+    return rejectRequest(
+      res,
+      'Parametro benchmark non valido (es. ^GSPC, SPY)',
+      'INVALID_BENCHMARK'
+    );
+  }
+
+  // File dei fattori (CSV caricato dall'utente) per i modelli multifattoriali
+  let factors: FactorDataset | undefined;
+
+  if (factorData !== undefined && factorData !== null && factorData !== '') {
+    const parsedFactors = parseFactorCsv(factorData);
+
+    if ('error' in parsedFactors) {
+      return rejectRequest(res, parsedFactors.error, 'INVALID_FACTOR_FILE');
     }
 
-    // Sanitizzazione tickers
-    const sanitizedTickers = tickers
-      .map((ticker: string) => ticker.toString().toUpperCase().trim())
-      .filter((ticker: string) => ticker.length > 0);
+    factors = parsedFactors.dataset;
+  }
+
+  // Sanitizzazione tickers (i simboli importati si aggiungono se assenti)
+  const sanitizedTickers: string[] = (tickers ?? [])
+    .map((ticker: string) => ticker.toString().toUpperCase().trim())
+    .filter((ticker: string) => ticker.length > 0);
 
-    if (sanitizedTickers.length === 0) {
-      return res.status(400).json({
-        error: 'Nessun ticker valido fornito',
-        code: 'NO_VALID_TICKERS',
-      });
+  imported.forEach(series => {
+    if (!sanitizedTickers.includes(series.symbol)) {
+      sanitizedTickers.push(series.symbol);
     }
+  });
 
-    console.log('✅ Parametri validati:', {
-      tickers: sanitizedTickers,
-      startDate,
-      endDate,
-      frequency,
-    });
+  if (sanitizedTickers.length === 0) {
+    return rejectRequest(
+      res,
+      'Nessun ticker valido fornito',
+      'NO_VALID_TICKERS'
+    );
+  }
+
+  // Validazione allocazione del portafoglio (pesi % o numero di azioni)
+  const allocation: PortfolioAllocationInput = {
+    weights: sanitizeAllocationKeys(weights),
+    shares: sanitizeAllocationKeys(shares),
+    initialCapital:
+      initialCapital !== undefined ? Number(initialCapital) : undefined,
+  };
+
+  const allocationError = validatePortfolioAllocation(
+    sanitizedTickers,
+    allocation
+  );
+
+  if (allocationError) {
+    return rejectRequest(res, allocationError, 'INVALID_ALLOCATION');
+  }
+
+  // Validazione politica di ribilanciamento
+  const parsedRebalancing = parseRebalancingPolicy(rebalancing);
+
+  if ('error' in parsedRebalancing) {
+    return rejectRequest(res, parsedRebalancing.error, 'INVALID_REBALANCING');
+  }
+
+  // Validazione configurazione VaR (livelli di confidenza e orizzonti)
+  const parsedVaRConfig = parseVaRConfig(varConfig);
+
+  if ('error' in parsedVaRConfig) {
+    return rejectRequest(res, parsedVaRConfig.error, 'INVALID_VAR_CONFIG');
+  }
+
+  // Validazione configurazione dei modelli di volatilità (orizzonte, λ EWMA)
+  const parsedVolatilityConfig = parseVolatilityConfig(volatilityConfig);
+
+  if ('error' in parsedVolatilityConfig) {
+    return rejectRequest(
+      res,
+      parsedVolatilityConfig.error,
+      'INVALID_VOLATILITY_CONFIG'
+    );
+  }
+
+  // Validazione configurazione delle correlazioni (metodo, finestra, regimi)
+  const parsedCorrelationConfig = parseCorrelationConfig(correlationConfig);
+
+  if ('error' in parsedCorrelationConfig) {
+    return rejectRequest(
+      res,
+      parsedCorrelationConfig.error,
+      'INVALID_CORRELATION_CONFIG'
+    );
+  }
+
+  // Validazione configurazione del clustering (legame)
+  const parsedClusterConfig = parseClusterConfig(clusterConfig);
+
+  if ('error' in parsedClusterConfig) {
+    return rejectRequest(
+      res,
+      parsedClusterConfig.error,
+      'INVALID_CLUSTER_CONFIG'
+    );
+  }
+
+  console.log('✅ Parametri validati:', {
+    tickers: sanitizedTickers,
+    startDate,
+    endDate,
+    frequency,
+    weekAnchor,
+    allocation,
+    rebalancing: parsedRebalancing.policy,
+    returnType,
+    varConfig: parsedVaRConfig.config,
+    volatilityConfig: parsedVolatilityConfig.config,
+    correlationConfig: parsedCorrelationConfig.config,
+    clusterConfig: parsedClusterConfig.config,
+    benchmark: benchmarkSymbol,
+    factors: factors
+      ? `${factors.factors.join(', ')} (${factors.dates.length} righe)`
+      : undefined,
+    importedSeries: imported.map(
+      series => `${series.symbol} (${series.data.length} righe)`
+    ),
+  });
+
+  return {
+    tickers: sanitizedTickers,
+    startDate,
+    endDate,
+    frequency,
+    weekAnchor,
+    allocation,
+    rebalancing: parsedRebalancing.policy,
+    returnType,
+    varConfig: parsedVaRConfig.config,
+    volatilityConfig: parsedVolatilityConfig.config,
+    correlationConfig: parsedCorrelationConfig.config,
+    clusterConfig: parsedClusterConfig.config,
+    benchmark: benchmarkSymbol,
+    factors,
+    importedSeries: imported,
+  };
+};
+
+// POST endpoint per l'analisi finanziaria
+analysisRoutes.post('/', async (req: Request, res: Response) => {
+  try {
+    console.log('📊 Richiesta analisi ricevuta:', summarizeRequest(req));
+
+    const params = parseAnalysisRequest(req, res);
+    if (!params) return;
 
     // Esegui analisi
-    const result = await performAnalysis({
-      tickers: sanitizedTickers,
-      startDate,
-      endDate,
-      frequency,
-    });
+    const result = await performAnalysis(params);
 
     console.log('🎉 Analisi completata con successo');
 
@@ -80,14 +328,147 @@ analysisRoutes.post('/', async (req: Request, res: Response) => {
   } catch (error) {
     console.error('❌ Errore durante analisi:', error);
 
-    const errorMessage =
-      error instanceof Error ? error.message : 'Errore sconosciuto';
+    sendApiError(res, error, {
+      operation: 'performAnalysis',
+      apiService: 'backend',
+    });
+  }
+});
+
+// Job asincroni: stessa analisi di POST /, con progresso consultabile
+analysisRoutes.post('/jobs', (req: Request, res: Response) => {
+  try {
+    const params = parseAnalysisRequest(req, res);
+    if (!params) return;
+
+    const job = analysisJobManager.createJob(params);
+    console.log(`🗂️ Job di analisi ${job.id} accodato:`, params.tickers);
+
+    res.status(202).json({
+      success: true,
+      data: job,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    sendApiError(res, error, {
+      operation: 'createAnalysisJob',
+      apiService: 'backend',
+    });
+  }
+});
+
+const jobNotFound = (req: Request, res: Response) =>
+  sendApiError(
+    res,
+    new SystemError(
+      SystemErrorType.INVALID_REQUEST,
+      `Job di analisi non trovato: ${req.params.id}`,
+      { code: 'JOB_NOT_FOUND', status: 404 }
+    ),
+    { operation: `${req.method} ${req.path}`, apiService: 'backend' }
+  );
+
+analysisRoutes.get('/jobs/:id', (req: Request, res: Response) => {
+  const job = analysisJobManager.getJob(req.params.id);
+  if (!job) return jobNotFound(req, res);
+
+  res.json({
+    success: true,
+    data: job,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Stream SSE: stato attuale, poi un messaggio per ogni ProgressEvent del job
+// fino a completed, error o cancelled
+analysisRoutes.get('/jobs/:id/events', (req: Request, res: Response) => {
+  const job = analysisJobManager.getJob(req.params.id);
+  if (!job) return jobNotFound(req, res);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const send = (event: ProgressEvent) =>
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+  send(analysisJobManager.toProgressEvent(job));
+  if (analysisJobManager.isFinished(job)) {
+    res.end();
+    return;
+  }
+
+  const heartbeat = setInterval(
+    () => res.write(': ping\n\n'),
+    SSE_HEARTBEAT_MS
+  );
+  const unsubscribe = analysisJobManager.subscribe(job.id, event => {
+    send(event);
+    if (['completed', 'error', 'cancelled'].includes(event.type)) {
+      close();
+      res.end();
+    }
+  });
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  };
+
+  req.on('close', close);
+});
+
+analysisRoutes.delete('/jobs/:id', (req: Request, res: Response) => {
+  const job = analysisJobManager.cancelJob(req.params.id);
+  if (!job) return jobNotFound(req, res);
+
+  res.json({
+    success: true,
+    data: job,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// POST endpoint per l'import di uno storico prezzi da file CSV/XLSX
+analysisRoutes.post('/import', (req: Request, res: Response) => {
+  const { fileName, content, encoding, symbol } = req.body ?? {};
 
-    res.status(500).json({
-      success: false,
-      error: errorMessage,
-      code: 'ANALYSIS_ERROR',
+  if (typeof content !== 'string' || content.length === 0) {
+    return rejectRequest(
+      res,
+      'Contenuto del file richiesto (content)',
+      'MISSING_IMPORT_FILE'
+    );
+  }
+
+  if (encoding !== undefined && !['text', 'base64'].includes(encoding)) {
+    return rejectRequest(
+      res,
+      'Parametro encoding non valido (text, base64)',
+      'INVALID_IMPORT_FILE'
+    );
+  }
+
+  try {
+    const parsed = parsePriceFile({ fileName, content, encoding, symbol });
+
+    if ('error' in parsed) {
+      return rejectRequest(res, parsed.error, 'INVALID_IMPORT_FILE');
+    }
+
+    res.json({
+      success: true,
+      data: parsed.result,
       timestamp: new Date().toISOString(),
     });
+  } catch (error) {
+    console.error('❌ Errore durante import file:', error);
+
+    sendApiError(res, error, {
+      operation: 'importPriceFile',
+      apiService: 'backend',
+    });
   }
 });
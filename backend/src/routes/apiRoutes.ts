@@ -1,8 +1,111 @@
-import { Router } from 'express';
+import { NextFunction, Request, Response, Router } from 'express';
+import { sendApiError } from '../middleware/errorEnvelope';
+import { apiSecurityMiddleware } from '../middleware/security';
+import {
+  ApiProxyService,
+  apiKeyManager,
+  parseHistoryQuery,
+} from '../services/apiProxy';
+import { SystemError, SystemErrorType } from '../services/errorCodeHandler';
+import { historicalAnalysisService } from '../services/historicalAnalysisService';
+import { isWellFormedSymbol, normalizeSymbol } from '../services/symbolMaster';
 
+// API REST versionata, montata su /api/v1
 export const apiRoutes = Router();
 
-// Placeholder route
+apiRoutes.use(apiSecurityMiddleware);
+
+// Il simbolo nel path deve essere un ticker ben formato
+const validateSymbolParam = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const symbol = normalizeSymbol(req.params.symbol || '');
+  if (!isWellFormedSymbol(symbol)) {
+    sendApiError(
+      res,
+      new SystemError(
+        SystemErrorType.MALFORMED_SYMBOL,
+        `Malformed symbol: ${req.params.symbol}`
+      ),
+      { operation: req.path, apiService: 'api-v1' }
+    );
+    return;
+  }
+  next();
+};
+
+const validateHistoryQuery = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    parseHistoryQuery(req.query);
+    next();
+  } catch (error) {
+    sendApiError(res, error, {
+      operation: 'getHistoricalData',
+      symbol: normalizeSymbol(req.params.symbol || ''),
+      apiService: 'api-v1',
+    });
+  }
+};
+
+// Elenco degli endpoint disponibili
 apiRoutes.get('/', (req, res) => {
-  res.json({ message: 'API route placeholder' });
+  res.json({
+    message: 'Student Analyst API v1',
+    endpoints: {
+      'GET /quote/:symbol': 'Current quote (Alpha Vantage GLOBAL_QUOTE)',
+      'GET /history/:symbol?start&end&interval':
+        'Historical OHLCV bars (interval: 1min…60min, daily, weekly, monthly)',
+      'GET /stats': 'API proxy usage statistics',
+      'GET /sources/health': 'Data source status',
+    },
+  });
+});
+
+apiRoutes.get('/quote/:symbol', validateSymbolParam, ApiProxyService.getQuote);
+
+apiRoutes.get(
+  '/history/:symbol',
+  validateSymbolParam,
+  validateHistoryQuery,
+  ApiProxyService.getHistoricalData
+);
+
+apiRoutes.get('/stats', ApiProxyService.getApiStats);
+
+// Stato delle sorgenti dati (Yahoo Finance, Alpha Vantage) e della chiave API
+apiRoutes.get('/sources/health', async (req: Request, res: Response) => {
+  try {
+    const health = await historicalAnalysisService.healthCheck();
+    const usage = apiKeyManager.getUsageStats() as {
+      currentKeyUsage: number;
+      maxKeyUsage: number;
+      lastRotated: Date;
+    };
+
+    res.json({
+      success: true,
+      data: {
+        status: health.status,
+        sources: health.dataSourceManager?.sources ?? {},
+        fallbackStats: health.dataSourceManager?.fallbackStats ?? {},
+        alphaVantageKey: {
+          usage: usage.currentKeyUsage,
+          maxUsage: usage.maxKeyUsage,
+          lastRotated: usage.lastRotated,
+        },
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    sendApiError(res, error, {
+      operation: 'getSourcesHealth',
+      apiService: 'api-v1',
+    });
+  }
 });
@@ -0,0 +1,137 @@
+import { Request, Response, Router } from 'express';
+import { rejectRequest, sendApiError } from '../middleware/errorEnvelope';
+import { requireAdmin, symbolValidationLimiter } from '../middleware/security';
+import { SystemError, SystemErrorType } from '../services/errorCodeHandler';
+import { historicalAnalysisService } from '../services/historicalAnalysisService';
+import {
+  loadSymbolMaster,
+  refreshSymbolMaster,
+  searchSymbols,
+  validateSymbol,
+} from '../services/symbolMaster';
+
+export const symbolRoutes = Router();
+
+const MAX_SEARCH_LIMIT = 50;
+
+// File dell'anagrafica mancante o illeggibile: il servizio non è disponibile
+const masterUnavailable = (error: unknown) =>
+  new SystemError(
+    SystemErrorType.SERVICE_UNAVAILABLE,
+    `Anagrafica simboli non disponibile: ${
+      error instanceof Error ? error.message : String(error)
+    }`,
+    { code: 'SYMBOL_MASTER_UNAVAILABLE' }
+  );
+
+// GET endpoint di stato dell'anagrafica
+symbolRoutes.get('/', (req, res) => {
+  try {
+    const master = loadSymbolMaster();
+    res.json({
+      message: 'Symbols API is active',
+      symbols: master.symbols.length,
+      updatedAt: master.updatedAt,
+      loadedAt: master.loadedAt,
+      endpoints: {
+        'GET /validate?symbol=AAPL':
+          'Validate a ticker (master file + last close)',
+        'GET /search?q=apple&limit=10': 'Search symbols by ticker or name',
+        'POST /refresh': 'Reload the symbol master file',
+      },
+    });
+  } catch (error) {
+    sendApiError(res, masterUnavailable(error), {
+      operation: 'loadSymbolMaster',
+      apiService: 'backend',
+    });
+  }
+});
+
+// Validazione di un ticker con ultima chiusura dal data layer (scaricata
+// solo per i simboli dell'anagrafica, limite di richieste proprio)
+symbolRoutes.get(
+  '/validate',
+  symbolValidationLimiter,
+  async (req: Request, res: Response) => {
+    const symbol = typeof req.query.symbol === 'string' ? req.query.symbol : '';
+    if (!symbol.trim()) {
+      return rejectRequest(res, 'Parametro symbol richiesto', 'MISSING_SYMBOL');
+    }
+
+    try {
+      const result = await validateSymbol(symbol, (s, options) =>
+        historicalAnalysisService.getLatestClose(s, options)
+      );
+      res.json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('❌ Errore durante validazione simbolo:', error);
+      sendApiError(res, error, {
+        operation: 'validateSymbol',
+        symbol,
+        apiService: 'backend',
+      });
+    }
+  }
+);
+
+// Ricerca per simbolo o nome
+symbolRoutes.get('/search', (req: Request, res: Response) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  if (!query.trim()) {
+    return rejectRequest(res, 'Parametro q richiesto', 'MISSING_QUERY');
+  }
+
+  const limit =
+    req.query.limit === undefined ? undefined : Number(req.query.limit);
+  if (
+    limit !== undefined &&
+    (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT)
+  ) {
+    return rejectRequest(
+      res,
+      `Parametro limit non valido (intero tra 1 e ${MAX_SEARCH_LIMIT})`,
+      'INVALID_LIMIT'
+    );
+  }
+
+  try {
+    res.json({
+      success: true,
+      data: searchSymbols(query, limit),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('❌ Errore durante ricerca simboli:', error);
+    sendApiError(res, error, {
+      operation: 'searchSymbols',
+      apiService: 'backend',
+    });
+  }
+});
+
+// Rilettura del file dell'anagrafica (dopo un aggiornamento), solo admin
+symbolRoutes.post('/refresh', requireAdmin, (req: Request, res: Response) => {
+  try {
+    const master = refreshSymbolMaster();
+    res.json({
+      success: true,
+      data: {
+        symbols: master.symbols.length,
+        updatedAt: master.updatedAt,
+        loadedAt: master.loadedAt,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('❌ Errore durante rilettura anagrafica:', error);
+    sendApiError(res, masterUnavailable(error), {
+      operation: 'refreshSymbolMaster',
+      apiService: 'backend',
+    });
+  }
+});
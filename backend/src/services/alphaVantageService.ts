@@ -13,6 +13,7 @@ export interface OHLCVData {
   close: number;
   adjustedClose?: number;
   volume: number;
+  dividendAmount?: number; // dividendo con ex-date in questa barra
   timestamp?: string;
 }
 
@@ -678,10 +679,10 @@ export class AlphaVantageService {
           typeof v['4. close'] === 'string'
             ? parseFloat(v['4. close'] as string)
             : NaN;
+        // Le serie adjusted riportano il volume nel campo '6. volume'
+        const rawVolume = v['5. volume'] ?? v['6. volume'];
         const volume =
-          typeof v['5. volume'] === 'string'
-            ? parseInt(v['5. volume'] as string, 10)
-            : NaN;
+          typeof rawVolume === 'string' ? parseInt(rawVolume, 10) : NaN;
         const ohlcv: OHLCVData = {
           date: timestamp,
           open,
@@ -693,6 +694,12 @@ export class AlphaVantageService {
         if (typeof v['5. adjusted close'] === 'string') {
           ohlcv.adjustedClose = parseFloat(v['5. adjusted close'] as string);
         }
+        if (typeof v['7. dividend amount'] === 'string') {
+          const dividend = parseFloat(v['7. dividend amount'] as string);
+          if (dividend > 0) {
+            ohlcv.dividendAmount = dividend;
+          }
+        }
         if (timeframe.includes('min')) {
           ohlcv.timestamp = timestamp;
         }
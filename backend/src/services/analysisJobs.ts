@@ -0,0 +1,332 @@
+/**
+ * STUDENT ANALYST - Analysis Jobs
+ * ===============================
+ *
+ * Analisi asincrone: la richiesta viene accodata e il client riceve subito
+ * l'id del job. Durante l'esecuzione il progresso (ticker scaricati, ticker
+ * ancora in coda, tempo stimato) viene emesso come ProgressEvent, lo stesso
+ * formato di ApiRateLimiter e BatchProcessor, così che le rotte possano
+ * inoltrarlo ai client come Server-Sent Events tramite subscribe(). I job
+ * conclusi restano consultabili per un periodo limitato.
+ */
+
+import { EventEmitter } from 'node:events';
+import { ApiErrorEnvelope, toErrorEnvelope } from './errorEnvelope';
+import {
+  AnalysisApiResponse,
+  AnalysisParams,
+  performAnalysis,
+} from './analysisService';
+import { ProgressEvent, ProgressState } from './apiRateLimiter';
+import { ErrorCodeHandler } from './errorCodeHandler';
+import { AnalysisRunOptions } from './historicalAnalysisService';
+
+// ========== INTERFACCE ==========
+
+export type AnalysisJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  tickers: string[];
+  queuePosition?: number; // job in attesa davanti a questo (solo se queued)
+  progress: ProgressState;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: AnalysisApiResponse;
+  error?: ApiErrorEnvelope['error'];
+}
+
+export interface AnalysisJobManagerConfig {
+  maxRunningJobs: number;
+  jobTtlMs: number; // permanenza in memoria dei job conclusi
+  runAnalysis: (
+    params: AnalysisParams,
+    options: AnalysisRunOptions
+  ) => Promise<AnalysisApiResponse>;
+}
+
+interface JobEntry {
+  job: AnalysisJob;
+  params: AnalysisParams;
+  controller: AbortController;
+  subscribers: Set<ProgressListener>;
+  startTime?: number;
+}
+
+type ProgressListener = (event: ProgressEvent) => void;
+
+// ========== COSTANTI ==========
+
+const FINISHED_STATUSES: AnalysisJobStatus[] = [
+  'completed',
+  'failed',
+  'cancelled',
+];
+
+const EVENT_TYPES: Record<AnalysisJobStatus, ProgressEvent['type']> = {
+  queued: 'progress',
+  running: 'progress',
+  completed: 'completed',
+  failed: 'error',
+  cancelled: 'cancelled',
+};
+
+// ========== CLASSE ==========
+
+export class AnalysisJobManager extends EventEmitter {
+  private config: AnalysisJobManagerConfig;
+  private jobs = new Map<string, JobEntry>();
+  private queue: string[] = [];
+  private running = 0;
+
+  constructor(config: Partial<AnalysisJobManagerConfig> = {}) {
+    super();
+
+    this.config = {
+      maxRunningJobs: 2,
+      jobTtlMs: 30 * 60 * 1000, // 30 minuti
+      runAnalysis: performAnalysis,
+      ...config,
+    };
+  }
+
+  /**
+   * Accoda una nuova analisi e restituisce lo stato iniziale del job
+   */
+  public createJob(params: AnalysisParams): AnalysisJob {
+    this.pruneFinishedJobs();
+
+    const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+    const job: AnalysisJob = {
+      id,
+      status: 'queued',
+      tickers: params.tickers,
+      progress: {
+        queueSize: params.tickers.length,
+        completed: 0,
+        failed: 0,
+        total: params.tickers.length,
+        percentage: 0,
+        estimatedTimeRemainingMs: 0,
+        errors: [],
+        cacheHits: 0,
+        apiCalls: 0,
+      },
+      createdAt: new Date().toISOString(),
+    };
+
+    this.jobs.set(id, {
+      job,
+      params,
+      controller: new AbortController(),
+      subscribers: new Set(),
+    });
+    this.queue.push(id);
+    this.drainQueue();
+
+    return this.getJob(id)!;
+  }
+
+  /**
+   * Stato del job (con il risultato se completato)
+   */
+  public getJob(id: string): AnalysisJob | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) return undefined;
+
+    const queueIndex = this.queue.indexOf(id);
+    return {
+      ...entry.job,
+      ...(queueIndex >= 0 && { queuePosition: queueIndex }),
+      progress: { ...entry.job.progress },
+    };
+  }
+
+  /**
+   * Annulla un job in coda o in esecuzione; i job conclusi restano invariati.
+   * Il job risulta subito annullato, ma il posto di esecuzione si libera solo
+   * quando l'analisi interrotta termina (il download in corso non parte più)
+   */
+  public cancelJob(id: string): AnalysisJob | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) return undefined;
+
+    if (!FINISHED_STATUSES.includes(entry.job.status)) {
+      this.queue = this.queue.filter(queued => queued !== id);
+      entry.controller.abort();
+      this.finish(entry, 'cancelled', 'Analisi annullata');
+    }
+    return this.getJob(id);
+  }
+
+  /**
+   * Registra un listener per i ProgressEvent di un solo job; restituisce la
+   * funzione per rimuoverlo (undefined se il job non esiste). I listener
+   * vengono rimossi dopo l'evento finale.
+   */
+  public subscribe(
+    id: string,
+    listener: ProgressListener
+  ): (() => void) | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) return undefined;
+
+    entry.subscribers.add(listener);
+    return () => {
+      entry.subscribers.delete(listener);
+    };
+  }
+
+  /**
+   * Evento di progresso corrispondente allo stato attuale del job
+   */
+  public toProgressEvent(job: AnalysisJob, message?: string): ProgressEvent {
+    return {
+      type: EVENT_TYPES[job.status],
+      batchId: job.id,
+      progress: { ...job.progress },
+      ...((message ?? job.error?.message) && {
+        message: message ?? job.error?.message,
+      }),
+    };
+  }
+
+  public isFinished(job: AnalysisJob): boolean {
+    return FINISHED_STATUSES.includes(job.status);
+  }
+
+  // ========== FUNZIONI PRIVATE ==========
+
+  private drainQueue(): void {
+    while (this.running < this.config.maxRunningJobs && this.queue.length) {
+      const entry = this.jobs.get(this.queue.shift()!);
+      if (entry) void this.runJob(entry);
+    }
+    // I job ancora in coda avanzano di posizione
+    this.queue.forEach((id, position) =>
+      this.emitProgress(
+        this.jobs.get(id)!,
+        `In coda: ${position} analisi prima di questa`
+      )
+    );
+  }
+
+  private async runJob(entry: JobEntry): Promise<void> {
+    const { job } = entry;
+    this.running++;
+    entry.startTime = Date.now();
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    job.progress.currentRequest = 'Download dei dati storici';
+    this.emitProgress(entry, 'Analisi avviata', 'started');
+
+    try {
+      const result = await this.config.runAnalysis(entry.params, {
+        signal: entry.controller.signal,
+        onTickerSettled: (symbol, error) =>
+          this.recordTicker(entry, symbol, error),
+      });
+
+      if (job.status !== 'running') return;
+      job.result = result;
+      this.finish(entry, 'completed', 'Analisi completata');
+    } catch (error) {
+      if (job.status !== 'running') return;
+      const classified = ErrorCodeHandler.getInstance().classifyError(
+        error instanceof Error ? error : new Error(String(error)),
+        { operation: 'analysisJob', apiService: 'backend' }
+      );
+      job.error = toErrorEnvelope(classified).error;
+      this.finish(entry, 'failed');
+    } finally {
+      // Anche un job annullato occupa il posto finché l'analisi non termina
+      this.running--;
+      this.drainQueue();
+    }
+  }
+
+  // Un ticker scaricato (o fallito): aggiorna conteggi, coda ed ETA
+  private recordTicker(entry: JobEntry, symbol: string, error?: Error): void {
+    const { job } = entry;
+    if (job.status !== 'running') return;
+
+    const progress = job.progress;
+    if (error) {
+      progress.failed++;
+      progress.errors.push({
+        symbol,
+        error: error.message,
+        timestamp: new Date(),
+      });
+    } else {
+      progress.completed++;
+    }
+
+    const settled = progress.completed + progress.failed;
+    const elapsed = Date.now() - (entry.startTime ?? Date.now());
+    progress.queueSize = progress.total - settled;
+    progress.apiCalls = settled;
+    progress.percentage = Math.round((settled / progress.total) * 100);
+    progress.estimatedTimeRemainingMs = Math.round(
+      (elapsed / settled) * progress.queueSize
+    );
+    progress.currentRequest =
+      progress.queueSize > 0
+        ? 'Download dei dati storici'
+        : 'Calcolo delle metriche';
+
+    this.emitProgress(
+      entry,
+      `${symbol} ${error ? 'non disponibile' : 'scaricato'}`
+    );
+  }
+
+  private finish(
+    entry: JobEntry,
+    status: AnalysisJobStatus,
+    message?: string
+  ): void {
+    const { job } = entry;
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    job.progress.queueSize = 0;
+    job.progress.estimatedTimeRemainingMs = 0;
+    delete job.progress.currentRequest;
+    if (status === 'completed') job.progress.percentage = 100;
+
+    this.emitProgress(entry, message);
+    entry.subscribers.clear();
+  }
+
+  private emitProgress(
+    entry: JobEntry,
+    message?: string,
+    type?: ProgressEvent['type']
+  ): void {
+    const base = this.toProgressEvent(this.getJob(entry.job.id)!, message);
+    const event = type ? { ...base, type } : base;
+    entry.subscribers.forEach(listener => listener(event));
+    this.emit('progress', event);
+  }
+
+  // Rimuove i job conclusi da più di jobTtlMs
+  private pruneFinishedJobs(): void {
+    const threshold = Date.now() - this.config.jobTtlMs;
+    this.jobs.forEach((entry, id) => {
+      const finishedAt = entry.job.finishedAt;
+      if (finishedAt && new Date(finishedAt).getTime() < threshold) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
+
+/** Istanza condivisa dalle rotte */
+export const analysisJobManager = new AnalysisJobManager();
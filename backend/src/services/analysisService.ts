@@ -1,17 +1,79 @@
 import {
+  BenchmarkComparisonReport,
+  PriceSeries,
+  calculateBenchmarkComparison,
+} from './benchmarkComparison';
+import {
+  ClusterConfig,
+  ClusterReport,
+  calculateClusterAnalysis,
+} from './clusterAnalysis';
+import {
+  CorrelationConfig,
+  CorrelationInput,
+  CorrelationReport,
+  calculateCorrelationAnalysis,
+} from './correlationAnalysis';
+import { FactorDataset } from './factorData';
+import {
+  AnalysisRunOptions,
   HistoricalAnalysisParams,
   HistoricalAnalysisResponse,
+  ReturnComparison,
+  ReturnMode,
+  TickerDataQuality,
+  TickerStatus,
   historicalAnalysisService,
 } from './historicalAnalysisService';
+import { PortfolioAllocationInput } from './portfolioAllocation';
+import { ImportedSeries } from './priceImport';
+import { WeekAnchor, getPeriodsPerYear } from './ohlcvResampler';
+import { RebalanceEvent, RebalancingPolicy } from './portfolioRebalancer';
+import {
+  DistributionInput,
+  DistributionReport,
+  calculateReturnDistribution,
+} from './returnDistribution';
+import {
+  RegressionReport,
+  calculateRegressionReport,
+} from './regressionAnalysis';
+import {
+  RiskAllocationReport,
+  calculateRiskAllocations,
+} from './riskAllocation';
+import {
+  StationarityReport,
+  calculateStationarityAnalysis,
+} from './stationarityTests';
+import {
+  VaRConfig,
+  ValueAtRiskReport,
+  calculateValueAtRisk,
+} from './valueAtRisk';
+import {
+  VolatilityConfig,
+  VolatilityInput,
+  VolatilityReport,
+  calculateVolatilityModels,
+} from './volatilityModels';
 
 export interface PerformanceMetric {
   label: string;
   value: string;
 }
 
-export interface CorrelationMatrix {
-  symbols: string[];
-  matrix: number[][];
+/** Serie OHLCV di un ticker per la tabella dei dati storici (null = dato mancante) */
+export interface HistoricalTableSeries {
+  symbol: string;
+  dates: string[];
+  open: (number | null)[];
+  high: (number | null)[];
+  low: (number | null)[];
+  close: (number | null)[];
+  adjustedClose: (number | null)[];
+  volume: (number | null)[];
+  returns: (number | null)[]; // rendimento semplice rispetto alla barra precedente
 }
 
 export interface AnalysisApiResponse {
@@ -26,16 +88,37 @@ export interface AnalysisApiResponse {
       yAxisID?: string;
     }[];
   };
+  historicalTable?: HistoricalTableSeries[];
   performanceMetrics: PerformanceMetric[];
+  distribution?: DistributionReport | null;
   volatility: {
     annualizedVolatility: number;
     sharpeRatio: number;
   } | null;
-  correlation: {
-    correlationMatrix: CorrelationMatrix;
-    diversificationIndex: number;
-    averageCorrelation: number;
+  volatilityModels?: VolatilityReport | null;
+  correlation: CorrelationReport | null;
+  clusterAnalysis?: ClusterReport | null;
+  stationarity?: StationarityReport | null;
+  portfolio?: {
+    allocationMethod: 'equal' | 'weights' | 'shares';
+    weights: Record<string, number>;
+    initialCapital: number;
+    finalValue: number;
+    rebalancing: {
+      policy: RebalancingPolicy;
+      dates: string[];
+      rebalanceDates: string[];
+      rebalanceEvents: RebalanceEvent[];
+      weightsOverTime: Record<string, number[]>;
+      drift: number[];
+      totalTurnover: number;
+    };
   } | null;
+  returnComparison?: ReturnComparison[];
+  valueAtRisk?: ValueAtRiskReport | null;
+  benchmark?: BenchmarkComparisonReport | null;
+  regression?: RegressionReport | null;
+  riskAllocation?: RiskAllocationReport | null;
   marketPhases?: {
     bullMarkets: Array<{
       start: string;
@@ -56,23 +139,39 @@ export interface AnalysisApiResponse {
     symbols: string[];
     period: { start: string; end: string };
     frequency: string;
+    returnType: ReturnMode;
+    benchmark?: string;
     dataPoints: number;
     processingTime: number;
+    dataQuality: TickerDataQuality[];
+    tickerStatus: TickerStatus[];
   };
 }
 
-interface AnalysisParams {
+export interface AnalysisParams {
   tickers: string[];
   startDate: string;
   endDate: string;
   frequency: 'daily' | 'weekly' | 'monthly';
+  weekAnchor?: WeekAnchor;
+  allocation?: PortfolioAllocationInput;
+  rebalancing?: RebalancingPolicy;
+  returnType?: ReturnMode;
+  varConfig?: VaRConfig;
+  volatilityConfig?: VolatilityConfig;
+  correlationConfig?: CorrelationConfig;
+  clusterConfig?: ClusterConfig;
+  benchmark?: string;
+  factors?: FactorDataset;
+  importedSeries?: ImportedSeries[];
 }
 
 /**
  * Funzione principale per eseguire l'analisi completa
  */
 export async function performAnalysis(
-  params: AnalysisParams
+  params: AnalysisParams,
+  options: AnalysisRunOptions = {}
 ): Promise<AnalysisApiResponse> {
   console.log('🚀 Avvio analisi completa con parametri:', params);
 
@@ -83,18 +182,28 @@ export async function performAnalysis(
       startDate: params.startDate,
       endDate: params.endDate,
       frequency: params.frequency,
+      weekAnchor: params.weekAnchor,
       includeTechnicalIndicators: true,
       includePerformanceMetrics: true,
+      allocation: params.allocation,
+      rebalancing: params.rebalancing,
+      returnType: params.returnType,
+      benchmark: params.benchmark,
+      importedSeries: params.importedSeries,
     };
 
     const historicalResponse =
       await historicalAnalysisService.performHistoricalAnalysis(
-        historicalParams
+        historicalParams,
+        options
       );
 
     if (!historicalResponse.success) {
-      throw new Error(
-        historicalResponse.error || "Errore durante l'analisi storica"
+      throw (
+        historicalResponse.failure ??
+        new Error(
+          historicalResponse.error || "Errore durante l'analisi storica"
+        )
       );
     }
 
@@ -103,27 +212,92 @@ export async function performAnalysis(
       historicalResponse.data
     );
 
+    const historicalTable = buildHistoricalTable(historicalResponse.data);
+
     // 3. Calcola metriche di performance aggregate
     const performanceMetrics = calculateAggregatePerformanceMetrics(
       historicalResponse.data
     );
 
+    // 3b. Distribuzione dei rendimenti e test di normalità
+    const distribution = calculateDistributionReport(historicalResponse.data);
+
     // 4. Calcola volatilità e Sharpe ratio
     const volatility = calculateVolatilityMetrics(historicalResponse.data);
 
-    // 5. Calcola correlazioni se ci sono più ticker
-    const correlation =
-      params.tickers.length > 1
-        ? calculateCorrelationMatrix(historicalResponse.data)
-        : null;
+    // 4b. Volatilità mobile, EWMA e GARCH(1,1) con previsione
+    const volatilityModels = calculateVolatilityReport(
+      historicalResponse.data,
+      params.frequency,
+      params.volatilityConfig
+    );
+
+    // 5. Correlazioni (statiche, mobili e per regime) se ci sono più ticker
+    const correlation = calculateCorrelationReport(
+      historicalResponse.data,
+      params.frequency,
+      params.correlationConfig
+    );
+
+    // 5b. Cluster gerarchici sulla distanza di correlazione
+    const clusterAnalysis = correlation
+      ? calculateClusterAnalysis(
+          correlation.correlationMatrix.symbols,
+          correlation.correlationMatrix.matrix,
+          params.clusterConfig
+        )
+      : null;
+
+    // 5c. Test di stazionarietà (ADF, KPSS) su prezzi e rendimenti
+    const stationarity = calculateStationarityReport(historicalResponse.data);
+
+    // 6. Riepilogo dell'allocazione del portafoglio
+    const portfolio = summarizePortfolioAllocation(historicalResponse.data);
+
+    // 7. VaR / CVaR per ticker e portafoglio
+    const valueAtRisk = calculateRiskReport(
+      historicalResponse.data,
+      params.frequency,
+      params.varConfig
+    );
+
+    // 8. Confronto con il benchmark
+    const benchmark = calculateBenchmarkReport(
+      historicalResponse.data,
+      params.frequency
+    );
+
+    // 9. Regressioni CAPM e multifattoriali
+    const regression = calculateRegressionAnalysis(
+      historicalResponse.data,
+      params.frequency,
+      params.factors
+    );
+
+    // 10. Allocatori basati sul rischio (ERC, MD, MinCorr, HRP)
+    const riskAllocation = calculateRiskAllocationReport(
+      correlation,
+      params.frequency
+    );
 
     console.log('✅ Analisi completata con successo');
 
     return {
       historicalData: formattedData,
+      historicalTable,
       performanceMetrics,
+      distribution,
       volatility,
+      volatilityModels,
       correlation,
+      clusterAnalysis,
+      stationarity,
+      portfolio,
+      returnComparison: historicalResponse.data.returnComparison,
+      valueAtRisk,
+      benchmark,
+      regression,
+      riskAllocation,
       marketPhases: historicalResponse.data.marketPhases,
       metadata: historicalResponse.metadata,
     };
@@ -133,6 +307,34 @@ export async function performAnalysis(
   }
 }
 
+/**
+ * Colonne OHLCV e rendimenti per ticker, allineate alle date dell'analisi
+ */
+function buildHistoricalTable(
+  data: HistoricalAnalysisResponse['data']
+): HistoricalTableSeries[] {
+  return data.historicalData.map(tickerData => {
+    const { dates, prices, returns } = tickerData;
+    // Senza allineamento i rendimenti partono dalla seconda data
+    const dailyReturns: (number | null)[] =
+      returns.daily.length === dates.length
+        ? returns.daily
+        : [null, ...returns.daily];
+
+    return {
+      symbol: tickerData.symbol,
+      dates,
+      open: prices.open,
+      high: prices.high,
+      low: prices.low,
+      close: prices.close,
+      adjustedClose: prices.adjustedClose,
+      volume: prices.volume,
+      returns: dailyReturns,
+    };
+  });
+}
+
 /**
  * Formatta i dati storici per il frontend
  */
@@ -216,10 +418,19 @@ function formatHistoricalDataForFrontend(
   });
 
   // Aggiungi dataset del portafoglio se disponibile
+  // (la serie è calcolata sulle sole date comuni: va riallineata alle labels)
   if (portfolioData) {
+    const valueByDate = new Map(
+      portfolioData.dates.map((date, i) => [
+        date,
+        portfolioData.portfolioValue[i],
+      ])
+    );
     datasets.push({
       label: 'Portafoglio - Valore',
-      data: portfolioData.portfolioValue,
+      data: labels.map(date =>
+        valueByDate.has(date) ? valueByDate.get(date)! : null
+      ),
       borderColor: '#00FF00',
       backgroundColor: '#00FF0020',
       fill: false,
@@ -306,6 +517,227 @@ function calculateAggregatePerformanceMetrics(
   return metrics;
 }
 
+/**
+ * Riepiloga pesi e ribilanciamenti effettivamente usati per il portafoglio
+ */
+function summarizePortfolioAllocation(
+  data: HistoricalAnalysisResponse['data']
+): AnalysisApiResponse['portfolio'] {
+  const { portfolioData } = data;
+
+  if (!portfolioData) {
+    return null;
+  }
+
+  const { allocation, portfolioValue, rebalancing, dates } = portfolioData;
+
+  return {
+    allocationMethod: allocation.method,
+    weights: allocation.weights,
+    initialCapital: allocation.initialCapital,
+    finalValue: portfolioValue[portfolioValue.length - 1],
+    rebalancing: { ...rebalancing, dates },
+  };
+}
+
+/**
+ * Calcola VaR e CVaR sui rendimenti di ciascun ticker e del portafoglio
+ */
+function calculateRiskReport(
+  data: HistoricalAnalysisResponse['data'],
+  frequency: AnalysisParams['frequency'],
+  varConfig?: VaRConfig
+): ValueAtRiskReport | null {
+  const { historicalData, portfolioData } = data;
+
+  if (historicalData.length === 0) {
+    return null;
+  }
+
+  return calculateValueAtRisk(
+    historicalData.map(tickerData => ({
+      symbol: tickerData.symbol,
+      returns: tickerData.returns.daily,
+    })),
+    portfolioData ? portfolioData.portfolioReturns : null,
+    getPeriodsPerYear(frequency),
+    varConfig
+  );
+}
+
+/**
+ * Statistiche di distribuzione dei rendimenti di ciascun ticker e del portafoglio
+ */
+function calculateDistributionReport(
+  data: HistoricalAnalysisResponse['data']
+): DistributionReport | null {
+  const { historicalData, portfolioData } = data;
+
+  if (historicalData.length === 0) {
+    return null;
+  }
+
+  const toInput = (
+    symbol: string,
+    returns: (number | null)[]
+  ): DistributionInput => ({
+    symbol,
+    returns,
+  });
+
+  return calculateReturnDistribution(
+    historicalData.map(tickerData =>
+      toInput(tickerData.symbol, tickerData.returns.daily)
+    ),
+    portfolioData
+      ? toInput('PORTAFOGLIO', portfolioData.portfolioReturns)
+      : null
+  );
+}
+
+/**
+ * Modelli di volatilità sui rendimenti di ciascun ticker e del portafoglio
+ */
+function calculateVolatilityReport(
+  data: HistoricalAnalysisResponse['data'],
+  frequency: AnalysisParams['frequency'],
+  volatilityConfig?: VolatilityConfig
+): VolatilityReport | null {
+  const { historicalData, portfolioData } = data;
+
+  if (historicalData.length === 0) {
+    return null;
+  }
+
+  // Senza allineamento i rendimenti partono dalla seconda data
+  const toInput = (
+    symbol: string,
+    dates: string[],
+    returns: (number | null)[]
+  ): VolatilityInput => ({
+    symbol,
+    dates: dates.slice(dates.length - returns.length),
+    returns,
+  });
+
+  return calculateVolatilityModels(
+    historicalData.map(tickerData =>
+      toInput(tickerData.symbol, tickerData.dates, tickerData.returns.daily)
+    ),
+    portfolioData
+      ? toInput(
+          'PORTAFOGLIO',
+          portfolioData.dates,
+          portfolioData.portfolioReturns
+        )
+      : null,
+    getPeriodsPerYear(frequency),
+    volatilityConfig
+  );
+}
+
+/**
+ * Confronta ticker e portafoglio con il benchmark scaricato
+ */
+function calculateBenchmarkReport(
+  data: HistoricalAnalysisResponse['data'],
+  frequency: AnalysisParams['frequency']
+): BenchmarkComparisonReport | null {
+  const { benchmarkData } = data;
+
+  if (!benchmarkData || benchmarkData.dates.length === 0) {
+    return null;
+  }
+
+  return calculateBenchmarkComparison(
+    benchmarkData,
+    collectPriceSeries(data),
+    getPeriodsPerYear(frequency)
+  );
+}
+
+/**
+ * CAPM sul benchmark e modelli fattoriali sul file dei fattori caricato
+ */
+function calculateRegressionAnalysis(
+  data: HistoricalAnalysisResponse['data'],
+  frequency: AnalysisParams['frequency'],
+  factors?: FactorDataset
+): RegressionReport | null {
+  const { historicalData, benchmarkData } = data;
+
+  if (historicalData.length === 0) {
+    return null;
+  }
+
+  return calculateRegressionReport(
+    collectPriceSeries(data),
+    benchmarkData && benchmarkData.dates.length > 0 ? benchmarkData : null,
+    factors ?? null,
+    getPeriodsPerYear(frequency)
+  );
+}
+
+/**
+ * Allocazioni ERC, massima diversificazione, minima correlazione e HRP
+ * sulla covarianza già calcolata. Servono tutte le coppie: con date comuni
+ * insufficienti per una coppia le allocazioni non vengono calcolate.
+ */
+function calculateRiskAllocationReport(
+  correlation: AnalysisApiResponse['correlation'],
+  frequency: AnalysisParams['frequency']
+): RiskAllocationReport | null {
+  if (!correlation) {
+    return null;
+  }
+
+  const { covarianceMatrix } = correlation;
+  if (covarianceMatrix.some(row => row.some(value => value === null))) {
+    return null;
+  }
+  const covariance = covarianceMatrix as number[][];
+
+  // Correlazione di Pearson coerente con la covarianza, qualunque sia il
+  // metodo scelto per la matrice mostrata
+  const pearson = covariance.map((row, i) =>
+    row.map((value, j) =>
+      i === j ? 1 : value / Math.sqrt(covariance[i][i] * covariance[j][j])
+    )
+  );
+
+  return calculateRiskAllocations(
+    correlation.correlationMatrix.symbols,
+    covariance,
+    pearson,
+    getPeriodsPerYear(frequency)
+  );
+}
+
+/**
+ * Serie dei prezzi di ticker e portafoglio (valore) per le analisi relative
+ */
+function collectPriceSeries(
+  data: HistoricalAnalysisResponse['data']
+): PriceSeries[] {
+  const { historicalData, portfolioData } = data;
+
+  const series: PriceSeries[] = historicalData.map(tickerData => ({
+    symbol: tickerData.symbol,
+    dates: tickerData.dates,
+    prices: tickerData.prices.adjustedClose,
+  }));
+
+  if (portfolioData) {
+    series.push({
+      symbol: 'PORTAFOGLIO',
+      dates: portfolioData.dates,
+      prices: portfolioData.portfolioValue,
+    });
+  }
+
+  return series;
+}
+
 /**
  * Calcola metriche di volatilità
  */
@@ -333,85 +765,64 @@ function calculateVolatilityMetrics(data: HistoricalAnalysisResponse['data']) {
 }
 
 /**
- * Calcola matrice di correlazione
+ * Correlazioni coppia per coppia sui rendimenti dei ticker; il portafoglio
+ * (se presente) fa da mercato per la separazione dei regimi
  */
-function calculateCorrelationMatrix(data: HistoricalAnalysisResponse['data']) {
-  const { historicalData } = data;
+function calculateCorrelationReport(
+  data: HistoricalAnalysisResponse['data'],
+  frequency: AnalysisParams['frequency'],
+  correlationConfig?: CorrelationConfig
+): CorrelationReport | null {
+  const { historicalData, portfolioData } = data;
 
   if (historicalData.length < 2) {
     return null;
   }
 
-  const symbols = historicalData.map(d => d.symbol);
-  const matrix: number[][] = [];
-
-  // Calcola correlazioni tra tutti i ticker
-  for (let i = 0; i < historicalData.length; i++) {
-    matrix[i] = [];
-    for (let j = 0; j < historicalData.length; j++) {
-      if (i === j) {
-        matrix[i][j] = 1;
-      } else {
-        matrix[i][j] = calculateCorrelation(
-          historicalData[i].returns.daily,
-          historicalData[j].returns.daily
-        );
-      }
-    }
-  }
-
-  // Calcola indice di diversificazione
-  const averageCorrelation = calculateAverageCorrelation(matrix);
-  const diversificationIndex = 1 - averageCorrelation;
+  // Senza allineamento i rendimenti partono dalla seconda data
+  const toInput = (
+    symbol: string,
+    dates: string[],
+    returns: (number | null)[]
+  ): CorrelationInput => ({
+    symbol,
+    dates: dates.slice(dates.length - returns.length),
+    returns,
+  });
 
-  return {
-    correlationMatrix: { symbols, matrix },
-    diversificationIndex,
-    averageCorrelation,
-  };
+  return calculateCorrelationAnalysis(
+    historicalData.map(tickerData =>
+      toInput(tickerData.symbol, tickerData.dates, tickerData.returns.daily)
+    ),
+    portfolioData
+      ? toInput(
+          'PORTAFOGLIO',
+          portfolioData.dates,
+          portfolioData.portfolioReturns
+        )
+      : null,
+    getPeriodsPerYear(frequency),
+    correlationConfig
+  );
 }
 
 /**
- * Calcola correlazione tra due serie di rendimenti
+ * Stazionarietà dei prezzi (con trasformazioni) e dei rendimenti di ogni ticker
  */
-function calculateCorrelation(returns1: number[], returns2: number[]): number {
-  if (returns1.length !== returns2.length || returns1.length === 0) {
-    return 0;
-  }
-
-  const n = returns1.length;
-  const mean1 = returns1.reduce((a, b) => a + b, 0) / n;
-  const mean2 = returns2.reduce((a, b) => a + b, 0) / n;
-
-  let numerator = 0;
-  let denominator1 = 0;
-  let denominator2 = 0;
-
-  for (let i = 0; i < n; i++) {
-    const diff1 = returns1[i] - mean1;
-    const diff2 = returns2[i] - mean2;
-    numerator += diff1 * diff2;
-    denominator1 += diff1 * diff1;
-    denominator2 += diff2 * diff2;
-  }
-
-  const denominator = Math.sqrt(denominator1 * denominator2);
-  return denominator === 0 ? 0 : numerator / denominator;
-}
+function calculateStationarityReport(
+  data: HistoricalAnalysisResponse['data']
+): StationarityReport | null {
+  const { historicalData } = data;
 
-/**
- * Calcola correlazione media dalla matrice
- */
-function calculateAverageCorrelation(matrix: number[][]): number {
-  let sum = 0;
-  let count = 0;
-
-  for (let i = 0; i < matrix.length; i++) {
-    for (let j = i + 1; j < matrix.length; j++) {
-      sum += matrix[i][j];
-      count++;
-    }
+  if (historicalData.length === 0) {
+    return null;
   }
 
-  return count > 0 ? sum / count : 0;
+  return calculateStationarityAnalysis(
+    historicalData.map(tickerData => ({
+      symbol: tickerData.symbol,
+      prices: tickerData.prices.adjustedClose,
+      returns: tickerData.returns.daily,
+    }))
+  );
 }
@@ -11,6 +11,10 @@
  */
 
 import { Request, Response } from 'express';
+import { sendApiError } from '../middleware/errorEnvelope';
+import { SystemError, SystemErrorType } from './errorCodeHandler';
+import { suspiciousActivityLogger } from './suspiciousActivityLogger';
+import { normalizeSymbol } from './symbolMaster';
 
 export interface ApiKeyConfig {
   primary: string;
@@ -43,6 +47,59 @@ export interface ApiUsageLog {
   errorMessage?: string;
 }
 
+export type HistoryInterval =
+  | '1min'
+  | '5min'
+  | '15min'
+  | '30min'
+  | '60min'
+  | 'daily'
+  | 'weekly'
+  | 'monthly';
+
+export interface HistoryQuery {
+  interval: HistoryInterval;
+  start?: string; // YYYY-MM-DD, incluso
+  end?: string; // YYYY-MM-DD, incluso
+}
+
+export interface HistoryBar {
+  date: string; // YYYY-MM-DD, o YYYY-MM-DD HH:mm:ss per l'intraday
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+interface ProxyFetchResult {
+  data: Record<string, any>;
+  source: 'alpha-vantage' | 'cache';
+  responseTime?: number;
+}
+
+const INTRADAY_INTERVALS: HistoryInterval[] = [
+  '1min',
+  '5min',
+  '15min',
+  '30min',
+  '60min',
+];
+
+export const HISTORY_INTERVALS: HistoryInterval[] = [
+  ...INTRADAY_INTERVALS,
+  'daily',
+  'weekly',
+  'monthly',
+];
+
+export const DEFAULT_HISTORY_INTERVAL: HistoryInterval = 'daily';
+
+// outputsize=compact restituisce ~100 sedute: circa 140 giorni di calendario
+const COMPACT_LOOKBACK_DAYS = 140;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 /**
  * Gestione sicura delle API keys con rotazione
  */
@@ -248,6 +305,9 @@ class ApiKeyManager {
     // Esegui chiamata API
     const startTime = Date.now();
     const apiKey = this.getCurrentApiKey();
+    if (!apiKey || apiKey === 'your_alpha_vantage_api_key_here') {
+      throw new Error('Alpha Vantage API key not configured');
+    }
     const fullUrl = url.includes('apikey=') ? url : `${url}&apikey=${apiKey}`;
 
     try {
@@ -259,7 +319,7 @@ class ApiKeyManager {
       this.incrementUsage();
 
       // Salva in cache solo se è una risposta valida
-      if (!data['Error Message'] && !data['Note']) {
+      if (!data['Error Message'] && !data['Note'] && !data['Information']) {
         this._cache.set(cacheKey, {
           data,
           timestamp: new Date(),
@@ -308,7 +368,18 @@ class ApiKeyManager {
       );
       log.suspicious = true;
 
-      // TODO: Implementare blocco IP temporaneo
+      // Il livello di minaccia dell'IP sale: oltre la soglia scatta il blocco
+      suspiciousActivityLogger.logSuspiciousEvent({
+        type: 'repeated_failures',
+        severity: 'medium',
+        details: {
+          ip: log.ip,
+          userAgent: log.userAgent,
+          endpoint: log.endpoint,
+          description: `${sameIpErrors} API proxy errors in 5 minutes`,
+          metadata: { errorMessage: log.errorMessage },
+        },
+      });
     }
 
     // Troppi accessi dallo stesso IP
@@ -318,6 +389,17 @@ class ApiKeyManager {
         `🚨 High request volume from IP ${log.ip}: ${sameIpRequests} requests in 5 minutes`
       );
       log.suspicious = true;
+
+      suspiciousActivityLogger.logSuspiciousEvent({
+        type: 'rate_limit_abuse',
+        severity: 'medium',
+        details: {
+          ip: log.ip,
+          userAgent: log.userAgent,
+          endpoint: log.endpoint,
+          description: `${sameIpRequests} API proxy requests in 5 minutes`,
+        },
+      });
     }
   }
 
@@ -369,6 +451,115 @@ class ApiKeyManager {
 // Istanza globale del manager
 export const apiKeyManager = new ApiKeyManager();
 
+/**
+ * Valida i parametri di /history: interval tra quelli supportati, date in
+ * formato YYYY-MM-DD e start non successivo a end
+ */
+export function parseHistoryQuery(
+  query: Record<string, unknown>
+): HistoryQuery {
+  const interval = query.interval ?? DEFAULT_HISTORY_INTERVAL;
+  if (!HISTORY_INTERVALS.includes(interval as HistoryInterval)) {
+    throw new SystemError(
+      SystemErrorType.UNSUPPORTED_TIMEFRAME,
+      `Unsupported interval: ${String(interval)}`
+    );
+  }
+
+  const result: HistoryQuery = { interval: interval as HistoryInterval };
+  for (const field of ['start', 'end'] as const) {
+    const value = query[field];
+    if (value === undefined || value === '') continue;
+    if (
+      typeof value !== 'string' ||
+      !DATE_PATTERN.test(value) ||
+      Number.isNaN(Date.parse(value))
+    ) {
+      throw new SystemError(
+        SystemErrorType.INVALID_REQUEST,
+        `Invalid ${field} date: ${String(value)} (expected YYYY-MM-DD)`
+      );
+    }
+    result[field] = value;
+  }
+
+  if (result.start && result.end && result.start > result.end) {
+    throw new SystemError(
+      SystemErrorType.INVALID_REQUEST,
+      `Invalid range: start ${result.start} is after end ${result.end}`
+    );
+  }
+  return result;
+}
+
+/**
+ * Barre di una serie Alpha Vantage ('Time Series (Daily)' e simili) nel
+ * periodo richiesto, in ordine cronologico; le righe non numeriche sono
+ * scartate
+ */
+export function parseAlphaVantageSeries(
+  series: Record<string, Record<string, string>> | undefined,
+  range: Pick<HistoryQuery, 'start' | 'end'> = {}
+): HistoryBar[] {
+  if (!series || typeof series !== 'object') return [];
+
+  return Object.entries(series)
+    .filter(([date]) => {
+      const day = date.slice(0, 10);
+      return (
+        (!range.start || day >= range.start) && (!range.end || day <= range.end)
+      );
+    })
+    .map(([date, values]) => ({
+      date,
+      open: parseFloat(values['1. open']),
+      high: parseFloat(values['2. high']),
+      low: parseFloat(values['3. low']),
+      close: parseFloat(values['4. close']),
+      volume: parseInt(values['5. volume'] || '0'),
+    }))
+    .filter(bar =>
+      [bar.open, bar.high, bar.low, bar.close].every(Number.isFinite)
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Le risposte di errore di Alpha Vantage arrivano con status 200: qui
+ * diventano errori classificabili (limiti di chiamate o simbolo non valido)
+ */
+function assertAlphaVantagePayload(
+  data: Record<string, any> | undefined,
+  symbol: string
+): Record<string, any> {
+  if (!data || typeof data !== 'object') {
+    throw new SystemError(
+      SystemErrorType.INVALID_DATA_FORMAT,
+      'Empty response from Alpha Vantage'
+    );
+  }
+  if (data['Error Message']) {
+    throw new SystemError(
+      SystemErrorType.SYMBOL_NOT_FOUND,
+      `Invalid symbol ${symbol}: ${data['Error Message']}`
+    );
+  }
+  // Note e Information contengono il testo del limite superato
+  if (data['Note'] || data['Information']) {
+    throw new Error(String(data['Note'] || data['Information']));
+  }
+  return data;
+}
+
+function needsFullHistory(query: HistoryQuery): boolean {
+  if (!query.start) return false;
+  if (INTRADAY_INTERVALS.includes(query.interval)) return true;
+
+  const lookbackDays =
+    (Date.now() - Date.parse(query.start)) / (24 * 60 * 60 * 1000);
+  return lookbackDays > COMPACT_LOOKBACK_DAYS;
+}
+
 /**
  * Service per gestire le chiamate API con sicurezza
  */
@@ -451,122 +642,75 @@ export class ApiProxyService {
    */
   static async getQuote(req: Request, res: Response): Promise<void> {
     const startTime = Date.now();
-    const { symbol } = req.params;
-    const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
-    const userAgent = req.get('User-Agent') || 'unknown';
+    const symbol = normalizeSymbol(req.params.symbol || '');
+    const endpoint = `/quote/${symbol}`;
 
     try {
-      if (!symbol) {
-        res.status(400).json({
-          error: 'Missing Symbol',
-          message: 'Symbol parameter is required',
-        });
-      }
-
       // Usa Alpha Vantage GLOBAL_QUOTE per quotazioni rapide
-      const cacheKey = `quote_${symbol.toUpperCase()}`;
+      const cacheKey = `quote_${symbol}`;
       const url = `https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${symbol}`;
 
-      const result = await apiKeyManager.fetchWithCache(url, cacheKey, 60000); // 1 minuto cache
-
-      // Log dell'accesso
-      apiKeyManager.logApiUsage({
-        timestamp: new Date(),
-        endpoint: `/quote/${symbol}`,
-        ip: clientIp,
-        userAgent,
-        success: true,
-        responseTime: Date.now() - startTime,
-      });
+      const result = (await apiKeyManager.fetchWithCache(
+        url,
+        cacheKey,
+        60000 // 1 minuto cache
+      )) as ProxyFetchResult;
+      const payload = assertAlphaVantagePayload(result.data, symbol);
 
-      // Verifica se ci sono dati validi
-      const globalQuote =
-        typeof result === 'object' &&
-        result !== null &&
-        'data' in result &&
-        typeof (result as any).data === 'object' &&
-        (result as any).data !== null
-          ? (result as any).data['Global Quote']
-          : null;
+      const globalQuote = payload['Global Quote'];
       if (!globalQuote || Object.keys(globalQuote).length === 0) {
-        res.status(404).json({
-          error: 'Symbol Not Found',
-          message: `No data available for symbol: ${symbol}`,
-          symbol: symbol.toUpperCase(),
-        });
+        throw new SystemError(
+          SystemErrorType.SYMBOL_NOT_FOUND,
+          `Symbol not found: ${symbol}`
+        );
       }
 
-      // Formato risposta standardizzato
-      const formattedData = {
+      ApiProxyService.logAccess(req, endpoint, startTime);
+
+      res.json({
         success: true,
-        symbol: globalQuote['01. symbol'] || symbol.toUpperCase(),
-        price: parseFloat(globalQuote['05. price'] || '0'),
-        change: parseFloat(globalQuote['09. change'] || '0'),
-        changePercent: globalQuote['10. change percent'] || '0%',
-        previousClose: parseFloat(globalQuote['08. previous close'] || '0'),
-        open: parseFloat(globalQuote['02. open'] || '0'),
-        high: parseFloat(globalQuote['03. high'] || '0'),
-        low: parseFloat(globalQuote['04. low'] || '0'),
-        volume: parseInt(globalQuote['06. volume'] || '0'),
-        latestTradingDay: globalQuote['07. latest trading day'] || '',
-        source:
-          typeof result === 'object' && result !== null && 'source' in result
-            ? (result as any).source
-            : 'unknown',
+        data: {
+          symbol: globalQuote['01. symbol'] || symbol,
+          price: parseFloat(globalQuote['05. price'] || '0'),
+          change: parseFloat(globalQuote['09. change'] || '0'),
+          changePercent: globalQuote['10. change percent'] || '0%',
+          previousClose: parseFloat(globalQuote['08. previous close'] || '0'),
+          open: parseFloat(globalQuote['02. open'] || '0'),
+          high: parseFloat(globalQuote['03. high'] || '0'),
+          low: parseFloat(globalQuote['04. low'] || '0'),
+          volume: parseInt(globalQuote['06. volume'] || '0'),
+          latestTradingDay: globalQuote['07. latest trading day'] || '',
+          source: result.source,
+        },
         timestamp: new Date().toISOString(),
-      };
-
-      res.json(formattedData);
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-
-      apiKeyManager.logApiUsage({
-        timestamp: new Date(),
-        endpoint: `/quote/${symbol}`,
-        ip: clientIp,
-        userAgent,
-        success: false,
-        responseTime,
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
       });
-
+    } catch (error) {
+      ApiProxyService.logAccess(req, endpoint, startTime, error);
       console.error(`Quote error for ${symbol}:`, error);
-
-      res.status(500).json({
-        error: 'Quote Fetch Error',
-        message: 'Failed to fetch quote data',
-        symbol: symbol.toUpperCase(),
+      sendApiError(res, error, {
+        operation: 'getQuote',
+        symbol,
+        apiService: 'alpha-vantage',
       });
     }
   }
 
   /**
-   * GET /api/v1/historical/:symbol - Ottiene dati storici
+   * GET /api/v1/history/:symbol?start&end&interval - Dati storici OHLCV
+   * nel periodo richiesto (estremi inclusi), in ordine cronologico
    */
   static async getHistoricalData(req: Request, res: Response): Promise<void> {
     const startTime = Date.now();
-    const { symbol } = req.params;
-    const { interval = 'daily', outputsize = 'compact' } = req.query;
-    const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
-    const userAgent = req.get('User-Agent') || 'unknown';
+    const symbol = normalizeSymbol(req.params.symbol || '');
+    const endpoint = `/history/${symbol}`;
 
     try {
-      if (!symbol) {
-        res.status(400).json({
-          error: 'Missing Symbol',
-          message: 'Symbol parameter is required',
-        });
-      }
+      const query = parseHistoryQuery(req.query);
+      const { interval } = query;
 
       // Mappa interval a funzione Alpha Vantage
       let avFunction = 'TIME_SERIES_DAILY';
-      if (
-        interval === '1min' ||
-        interval === '5min' ||
-        interval === '15min' ||
-        interval === '30min' ||
-        interval === '60min'
-      ) {
+      if (INTRADAY_INTERVALS.includes(interval)) {
         avFunction = 'TIME_SERIES_INTRADAY';
       } else if (interval === 'weekly') {
         avFunction = 'TIME_SERIES_WEEKLY';
@@ -574,7 +718,8 @@ export class ApiProxyService {
         avFunction = 'TIME_SERIES_MONTHLY';
       }
 
-      // Cache key
+      // La serie compatta copre solo le ultime ~100 osservazioni
+      const outputsize = needsFullHistory(query) ? 'full' : 'compact';
       const cacheKey = `hist_${symbol}_${interval}_${outputsize}`;
 
       // Costruisci URL
@@ -587,132 +732,101 @@ export class ApiProxyService {
       let cacheTTL = 300000; // 5 minuti default
       if (interval === '1min' || interval === '5min') {
         cacheTTL = 60000; // 1 minuto per alta frequenza
-      } else if (interval === 'daily') {
-        cacheTTL = 300000; // 5 minuti per daily
-      } else {
+      } else if (interval === 'weekly' || interval === 'monthly') {
         cacheTTL = 3600000; // 1 ora per weekly/monthly
       }
 
-      const result = await apiKeyManager.fetchWithCache(
+      const result = (await apiKeyManager.fetchWithCache(
         url,
         cacheKey,
         cacheTTL
-      );
+      )) as ProxyFetchResult;
+      const payload = assertAlphaVantagePayload(result.data, symbol);
 
-      // Log dell'accesso
-      apiKeyManager.logApiUsage({
-        timestamp: new Date(),
-        endpoint: `/historical/${symbol}`,
-        ip: clientIp,
-        userAgent,
-        success: true,
-        responseTime: Date.now() - startTime,
-      });
-
-      // Verifica dati
-      const keys =
-        typeof result === 'object' &&
-        result !== null &&
-        'data' in result &&
-        typeof (result as any).data === 'object' &&
-        (result as any).data !== null
-          ? Object.keys((result as any).data)
-          : [];
-      const dataKey = keys.find(key => key.includes('Time Series'));
-
-      if (
-        !dataKey ||
-        !(
-          typeof result === 'object' &&
-          result !== null &&
-          'data' in result &&
-          typeof (result as any).data === 'object' &&
-          (result as any).data !== null &&
-          (result as any).data[dataKey]
-        )
-      ) {
-        res.status(404).json({
-          error: 'No Data Available',
-          message: `No historical data available for symbol: ${symbol}`,
-          symbol: symbol.toUpperCase(),
-          interval,
-        });
+      const dataKey = Object.keys(payload).find(key =>
+        key.includes('Time Series')
+      );
+      const bars = parseAlphaVantageSeries(
+        dataKey ? payload[dataKey] : undefined,
+        query
+      );
+      if (bars.length === 0) {
+        throw new SystemError(
+          SystemErrorType.NO_DATA_AVAILABLE,
+          `No data available for ${symbol} (${interval})`
+        );
       }
 
-      // Formato risposta
-      const formattedData = {
+      ApiProxyService.logAccess(req, endpoint, startTime);
+
+      res.json({
         success: true,
-        symbol: symbol.toUpperCase(),
-        interval,
-        outputsize,
-        data:
-          typeof result === 'object' &&
-          result !== null &&
-          'data' in result &&
-          typeof (result as any).data === 'object' &&
-          (result as any).data !== null
-            ? (result as any).data[dataKey]
-            : {},
-        metadata:
-          typeof result === 'object' &&
-          result !== null &&
-          'data' in result &&
-          typeof (result as any).data === 'object' &&
-          (result as any).data !== null
-            ? (result as any).data['Meta Data'] || {}
-            : {},
-        source:
-          typeof result === 'object' && result !== null && 'source' in result
-            ? (result as any).source
-            : 'unknown',
+        data: {
+          symbol,
+          interval,
+          start: query.start ?? bars[0].date,
+          end: query.end ?? bars[bars.length - 1].date,
+          bars,
+          metadata: payload['Meta Data'] || {},
+          source: result.source,
+        },
         timestamp: new Date().toISOString(),
-      };
-
-      res.json(formattedData);
-    } catch (error) {
-      const responseTime = Date.now() - startTime;
-
-      apiKeyManager.logApiUsage({
-        timestamp: new Date(),
-        endpoint: `/historical/${symbol}`,
-        ip: clientIp,
-        userAgent,
-        success: false,
-        responseTime,
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
       });
-
+    } catch (error) {
+      ApiProxyService.logAccess(req, endpoint, startTime, error);
       console.error(`Historical data error for ${symbol}:`, error);
-
-      res.status(500).json({
-        error: 'Historical Data Error',
-        message: 'Failed to fetch historical data',
-        symbol: symbol.toUpperCase(),
-        interval,
+      sendApiError(res, error, {
+        operation: 'getHistoricalData',
+        symbol,
+        timeframe: String(req.query.interval ?? DEFAULT_HISTORY_INTERVAL),
+        apiService: 'alpha-vantage',
       });
     }
   }
 
   /**
-   * GET /api/v1/admin/stats - Statistiche sistema
+   * GET /api/v1/stats - Statistiche di utilizzo del proxy
    */
   static async getApiStats(req: Request, res: Response): Promise<void> {
     try {
-      const stats = apiKeyManager.getUsageStats();
-
       res.json({
         success: true,
-        stats,
+        data: apiKeyManager.getUsageStats(),
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
-      res.status(500).json({
-        error: 'Stats Error',
-        message: 'Failed to get API statistics',
+      sendApiError(res, error, {
+        operation: 'getApiStats',
+        apiService: 'api-proxy',
       });
     }
   }
 
+  /**
+   * Registra l'esito di una chiamata nel log di utilizzo
+   */
+  private static logAccess(
+    req: Request,
+    endpoint: string,
+    startTime: number,
+    error?: unknown
+  ): void {
+    apiKeyManager.logApiUsage({
+      timestamp: new Date(),
+      endpoint,
+      ip: req.ip || req.connection?.remoteAddress || 'unknown',
+      userAgent: req.get('User-Agent') || 'unknown',
+      success: error === undefined,
+      responseTime: Date.now() - startTime,
+      errorMessage:
+        error === undefined
+          ? undefined
+          : error instanceof Error
+            ? error.message
+            : 'Unknown error',
+    });
+  }
+
   /**
    * GET /api/v1/admin/connection-test - Test connettività
    */
@@ -738,10 +852,10 @@ export class ApiProxyService {
   }
 }
 
-// Cleanup automatico della cache ogni 15 minuti
+// Cleanup automatico della cache ogni 15 minuti (non tiene vivo il processo)
 setInterval(
   () => {
     apiKeyManager.cleanupCache();
   },
   15 * 60 * 1000
-);
+).unref();
@@ -0,0 +1,253 @@
+/**
+ * Benchmark Comparison per STUDENT ANALYST
+ *
+ * Metriche relative di ticker e portafoglio rispetto a un indice di
+ * riferimento: extra-rendimento, tracking error, information ratio,
+ * beta, alpha di Jensen, up/down capture e crescita di 100 ribasata.
+ */
+
+import { mean, variance } from './statistics';
+
+// ========== INTERFACCE ==========
+
+export interface PriceSeries {
+  symbol: string;
+  dates: string[];
+  prices: Array<number | null>;
+}
+
+export interface RelativeMetrics {
+  symbol: string;
+  observations: number; // rendimenti sulle date comuni con il benchmark
+  totalReturn: number;
+  benchmarkTotalReturn: number;
+  annualizedReturn: number;
+  benchmarkAnnualizedReturn: number;
+  excessReturn: number; // differenza dei rendimenti annualizzati
+  trackingError: number; // annualizzato
+  informationRatio: number;
+  beta: number;
+  alpha: number; // alpha di Jensen annualizzato
+  correlation: number;
+  upCapture: number;
+  downCapture: number;
+}
+
+export interface BenchmarkComparisonReport {
+  benchmark: string;
+  riskFreeRate: number;
+  metrics: RelativeMetrics[];
+  growth: {
+    dates: string[];
+    benchmark: number[];
+    series: Record<string, Array<number | null>>;
+  };
+}
+
+// ========== COSTANTI ==========
+
+export const DEFAULT_BENCHMARK = '^GSPC';
+
+export const RISK_FREE_RATE = 0.02; // 2% annuo, come per lo Sharpe ratio
+
+/** Rendimenti comuni minimi per stimare beta e tracking error */
+const MIN_COMMON_OBSERVATIONS = 10;
+
+const GROWTH_BASE = 100;
+
+// ========== FUNZIONI PUBBLICHE ==========
+
+/**
+ * Normalizza il simbolo del benchmark ricevuto dal client.
+ * Restituisce null se il simbolo non è valido.
+ */
+export function sanitizeBenchmarkSymbol(raw: unknown): string | null {
+  if (raw === undefined || raw === null || raw === '') {
+    return DEFAULT_BENCHMARK;
+  }
+  if (typeof raw !== 'string') return null;
+
+  const symbol = raw.toUpperCase().trim();
+  return symbol.length <= 10 && /^\^?[A-Z0-9.\-=]+$/.test(symbol)
+    ? symbol
+    : null;
+}
+
+/**
+ * Confronta ciascuna serie con il benchmark sulle date comuni
+ */
+export function calculateBenchmarkComparison(
+  benchmark: PriceSeries,
+  series: PriceSeries[],
+  periodsPerYear: number
+): BenchmarkComparisonReport {
+  const benchmarkPrices = toPriceMap(benchmark);
+
+  const metrics = series
+    .map(item =>
+      calculateRelativeMetrics(item, benchmarkPrices, periodsPerYear)
+    )
+    .filter((item): item is RelativeMetrics => item !== null);
+
+  return {
+    benchmark: benchmark.symbol,
+    riskFreeRate: RISK_FREE_RATE,
+    metrics,
+    growth: buildGrowthSeries(benchmark, series),
+  };
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+function toPriceMap(series: PriceSeries): Map<string, number> {
+  const prices = new Map<string, number>();
+  series.dates.forEach((date, i) => {
+    const price = series.prices[i];
+    if (price !== null && price !== undefined && price > 0) {
+      prices.set(date, price);
+    }
+  });
+  return prices;
+}
+
+function calculateRelativeMetrics(
+  series: PriceSeries,
+  benchmarkPrices: Map<string, number>,
+  periodsPerYear: number
+): RelativeMetrics | null {
+  const seriesPrices = toPriceMap(series);
+
+  // Date in cui entrambe le serie hanno un prezzo
+  const commonDates = [...seriesPrices.keys()]
+    .filter(date => benchmarkPrices.has(date))
+    .sort();
+
+  if (commonDates.length - 1 < MIN_COMMON_OBSERVATIONS) {
+    return null;
+  }
+
+  const returns: number[] = [];
+  const benchmarkReturns: number[] = [];
+  for (let i = 1; i < commonDates.length; i++) {
+    const previous = commonDates[i - 1];
+    const current = commonDates[i];
+    returns.push(seriesPrices.get(current)! / seriesPrices.get(previous)! - 1);
+    benchmarkReturns.push(
+      benchmarkPrices.get(current)! / benchmarkPrices.get(previous)! - 1
+    );
+  }
+
+  const first = commonDates[0];
+  const last = commonDates[commonDates.length - 1];
+  const totalReturn = seriesPrices.get(last)! / seriesPrices.get(first)! - 1;
+  const benchmarkTotalReturn =
+    benchmarkPrices.get(last)! / benchmarkPrices.get(first)! - 1;
+
+  const years = returns.length / periodsPerYear;
+  const annualizedReturn = Math.pow(1 + totalReturn, 1 / years) - 1;
+  const benchmarkAnnualizedReturn =
+    Math.pow(1 + benchmarkTotalReturn, 1 / years) - 1;
+
+  const activeReturns = returns.map((value, i) => value - benchmarkReturns[i]);
+  const trackingError = Math.sqrt(variance(activeReturns) * periodsPerYear);
+  const informationRatio =
+    trackingError > 0
+      ? (mean(activeReturns) * periodsPerYear) / trackingError
+      : 0;
+
+  const benchmarkVariance = variance(benchmarkReturns);
+  const covariance = sampleCovariance(returns, benchmarkReturns);
+  const beta = benchmarkVariance > 0 ? covariance / benchmarkVariance : 0;
+  const seriesVariance = variance(returns);
+  const correlation =
+    benchmarkVariance > 0 && seriesVariance > 0
+      ? covariance / Math.sqrt(benchmarkVariance * seriesVariance)
+      : 0;
+
+  // Alpha di Jensen: rendimento oltre quanto spiegato dal beta (CAPM)
+  const alpha =
+    annualizedReturn -
+    (RISK_FREE_RATE + beta * (benchmarkAnnualizedReturn - RISK_FREE_RATE));
+
+  return {
+    symbol: series.symbol,
+    observations: returns.length,
+    totalReturn,
+    benchmarkTotalReturn,
+    annualizedReturn,
+    benchmarkAnnualizedReturn,
+    excessReturn: annualizedReturn - benchmarkAnnualizedReturn,
+    trackingError,
+    informationRatio,
+    beta,
+    alpha,
+    correlation,
+    upCapture: captureRatio(returns, benchmarkReturns, value => value > 0),
+    downCapture: captureRatio(returns, benchmarkReturns, value => value < 0),
+  };
+}
+
+function sampleCovariance(a: number[], b: number[]): number {
+  if (a.length < 2) return 0;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return (
+    a.reduce((sum, value, i) => sum + (value - meanA) * (b[i] - meanB), 0) /
+    (a.length - 1)
+  );
+}
+
+/**
+ * Capture ratio: rendimento medio della serie nei periodi selezionati
+ * (benchmark in rialzo o in ribasso) diviso quello del benchmark
+ */
+function captureRatio(
+  returns: number[],
+  benchmarkReturns: number[],
+  select: (benchmarkReturn: number) => boolean
+): number {
+  const indexes = benchmarkReturns
+    .map((value, i) => (select(value) ? i : -1))
+    .filter(i => i >= 0);
+
+  if (indexes.length === 0) return 0;
+
+  const benchmarkMean = mean(indexes.map(i => benchmarkReturns[i]));
+  return benchmarkMean !== 0
+    ? mean(indexes.map(i => returns[i])) / benchmarkMean
+    : 0;
+}
+
+/**
+ * Crescita di 100 sulle date del benchmark. Ogni serie parte da 100 alla
+ * prima data comune; null dove la serie non ha prezzo.
+ */
+function buildGrowthSeries(
+  benchmark: PriceSeries,
+  series: PriceSeries[]
+): BenchmarkComparisonReport['growth'] {
+  const benchmarkPrices = toPriceMap(benchmark);
+  const dates = benchmark.dates.filter(date => benchmarkPrices.has(date));
+  const benchmarkBase = benchmarkPrices.get(dates[0]) ?? 1;
+
+  const growthSeries: Record<string, Array<number | null>> = {};
+  for (const item of series) {
+    const prices = toPriceMap(item);
+    const baseDate = dates.find(date => prices.has(date));
+    const base = baseDate ? prices.get(baseDate)! : null;
+
+    growthSeries[item.symbol] = dates.map(date =>
+      base !== null && prices.has(date)
+        ? (prices.get(date)! / base) * GROWTH_BASE
+        : null
+    );
+  }
+
+  return {
+    dates,
+    benchmark: dates.map(
+      date => (benchmarkPrices.get(date)! / benchmarkBase) * GROWTH_BASE
+    ),
+    series: growthSeries,
+  };
+}
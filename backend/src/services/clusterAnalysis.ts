@@ -0,0 +1,384 @@
+/**
+ * Cluster Analysis per STUDENT ANALYST
+ *
+ * Clustering gerarchico agglomerativo dei ticker sulla distanza di
+ * correlazione dᵢⱼ = √(½(1 − ρᵢⱼ)), con legame singolo, completo, medio
+ * e di Ward (aggiornamento di Lance-Williams). Il numero di cluster viene
+ * scelto massimizzando il silhouette score medio; per ogni legame il report
+ * contiene le fusioni del dendrogramma, l'ordine delle foglie e i gruppi
+ * con la correlazione media interna, per individuare i titoli ridondanti.
+ */
+
+// ========== INTERFACCE ==========
+
+export type LinkageMethod = 'single' | 'complete' | 'average' | 'ward';
+
+export interface ClusterConfig {
+  linkage: LinkageMethod; // legame mostrato per primo
+}
+
+export interface ClusterMerge {
+  left: number; // nodi: 0..n-1 foglie, n + k fusione k-esima
+  right: number;
+  height: number; // distanza di fusione
+  size: number; // foglie contenute
+}
+
+export interface SilhouetteScore {
+  clusters: number;
+  score: number;
+}
+
+export interface ClusterMembership {
+  symbol: string;
+  cluster: number; // 1..clusters, nell'ordine del dendrogramma
+  silhouette: number;
+}
+
+export interface ClusterGroup {
+  cluster: number;
+  symbols: string[];
+  averageCorrelation: number | null; // null per i cluster di un solo titolo
+  redundant: boolean; // correlazione media interna oltre la soglia
+}
+
+export interface LinkageClustering {
+  linkage: LinkageMethod;
+  merges: ClusterMerge[];
+  order: number[]; // indici dei simboli nell'ordine delle foglie
+  cutHeight: number; // altezza a metà tra le fusioni che separano i cluster
+  clusters: number;
+  silhouette: number;
+  silhouetteScores: SilhouetteScore[]; // per ogni numero di cluster provato
+  membership: ClusterMembership[];
+  groups: ClusterGroup[];
+}
+
+export interface ClusterReport {
+  symbols: string[];
+  linkage: LinkageMethod;
+  redundancyThreshold: number;
+  correlation: number[][];
+  distance: number[][];
+  results: LinkageClustering[];
+}
+
+// ========== COSTANTI ==========
+
+export const LINKAGE_METHODS: LinkageMethod[] = [
+  'single',
+  'complete',
+  'average',
+  'ward',
+];
+
+export const DEFAULT_CLUSTER_CONFIG: ClusterConfig = { linkage: 'ward' };
+
+/** Titoli minimi: il silhouette richiede almeno 2 cluster e un titolo in più */
+export const MIN_CLUSTER_SYMBOLS = 3;
+
+// Correlazione media interna oltre cui i titoli di un cluster si duplicano
+const REDUNDANCY_THRESHOLD = 0.8;
+
+// ========== VALIDAZIONE ==========
+
+/**
+ * Valida la configurazione ricevuta dal client (legame).
+ * Restituisce la configurazione completa oppure un messaggio d'errore.
+ */
+export function parseClusterConfig(
+  raw: unknown
+): { config: ClusterConfig } | { error: string } {
+  if (raw === undefined || raw === null) {
+    return { config: DEFAULT_CLUSTER_CONFIG };
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Parametro clusterConfig deve essere un oggetto' };
+  }
+
+  const { linkage } = raw as Record<string, unknown>;
+  const config: ClusterConfig = { ...DEFAULT_CLUSTER_CONFIG };
+
+  if (linkage !== undefined) {
+    if (!LINKAGE_METHODS.includes(linkage as LinkageMethod)) {
+      return {
+        error: `clusterConfig.linkage deve essere uno tra: ${LINKAGE_METHODS.join(', ')}`,
+      };
+    }
+    config.linkage = linkage as LinkageMethod;
+  }
+
+  return { config };
+}
+
+// ========== CALCOLO ==========
+
+/**
+ * Clustering con tutti i legami sulla matrice di correlazione.
+ * Null con meno di MIN_CLUSTER_SYMBOLS titoli o correlazioni mancanti.
+ */
+export function calculateClusterAnalysis(
+  symbols: string[],
+  correlation: (number | null)[][],
+  config: ClusterConfig = DEFAULT_CLUSTER_CONFIG
+): ClusterReport | null {
+  if (
+    symbols.length < MIN_CLUSTER_SYMBOLS ||
+    correlation.length !== symbols.length ||
+    correlation.some(row => row.some(value => value === null))
+  ) {
+    return null;
+  }
+
+  const rho = correlation as number[][];
+  const distance = rho.map((row, i) =>
+    row.map((value, j) =>
+      i === j ? 0 : Math.sqrt(Math.max(0, 0.5 * (1 - value)))
+    )
+  );
+
+  return {
+    symbols,
+    linkage: config.linkage,
+    redundancyThreshold: REDUNDANCY_THRESHOLD,
+    correlation: rho,
+    distance,
+    results: LINKAGE_METHODS.map(linkage =>
+      clusterWithLinkage(symbols, rho, distance, linkage)
+    ),
+  };
+}
+
+/**
+ * Fusioni agglomerative: a ogni passo si uniscono i due cluster più vicini
+ * e le distanze verso il nuovo cluster seguono la formula di Lance-Williams
+ */
+export function agglomerate(
+  distance: number[][],
+  linkage: LinkageMethod
+): ClusterMerge[] {
+  const n = distance.length;
+  // Ward lavora sulle distanze al quadrato
+  const squared = linkage === 'ward';
+  const current = new Map<number, Map<number, number>>();
+  const sizes = new Map<number, number>();
+
+  for (let i = 0; i < n; i++) {
+    sizes.set(i, 1);
+    current.set(
+      i,
+      new Map(
+        distance[i]
+          .map((value, j): [number, number] => [
+            j,
+            squared ? value ** 2 : value,
+          ])
+          .filter(([j]) => j !== i)
+      )
+    );
+  }
+
+  const merges: ClusterMerge[] = [];
+  for (let step = 0; step < n - 1; step++) {
+    let best = { a: -1, b: -1, value: Infinity };
+    current.forEach((row, a) =>
+      row.forEach((value, b) => {
+        if (a < b && value < best.value) best = { a, b, value };
+      })
+    );
+
+    const { a, b } = best;
+    const sizeA = sizes.get(a)!;
+    const sizeB = sizes.get(b)!;
+    const node = n + step;
+    const row = new Map<number, number>();
+
+    current.forEach((_, k) => {
+      if (k === a || k === b) return;
+      const dA = current.get(a)!.get(k)!;
+      const dB = current.get(b)!.get(k)!;
+      const sizeK = sizes.get(k)!;
+      const updated = {
+        single: Math.min(dA, dB),
+        complete: Math.max(dA, dB),
+        average: (sizeA * dA + sizeB * dB) / (sizeA + sizeB),
+        ward:
+          ((sizeA + sizeK) * dA + (sizeB + sizeK) * dB - sizeK * best.value) /
+          (sizeA + sizeB + sizeK),
+      }[linkage];
+      row.set(k, updated);
+      current.get(k)!.delete(a);
+      current.get(k)!.delete(b);
+      current.get(k)!.set(node, updated);
+    });
+
+    current.delete(a);
+    current.delete(b);
+    current.set(node, row);
+    sizes.set(node, sizeA + sizeB);
+
+    merges.push({
+      left: a,
+      right: b,
+      height: squared ? Math.sqrt(Math.max(0, best.value)) : best.value,
+      size: sizeA + sizeB,
+    });
+  }
+
+  return merges;
+}
+
+/**
+ * Etichette dei cluster (0..clusters-1) tagliando il dendrogramma prima
+ * delle ultime clusters - 1 fusioni
+ */
+export function cutTree(
+  n: number,
+  merges: ClusterMerge[],
+  clusters: number
+): number[] {
+  const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+  merges.slice(0, n - clusters).forEach((merge, step) => {
+    parent[find(merge.left)] = n + step;
+    parent[find(merge.right)] = n + step;
+  });
+
+  const roots = new Map<number, number>();
+  return Array.from({ length: n }, (_, i) => {
+    const root = find(i);
+    if (!roots.has(root)) roots.set(root, roots.size);
+    return roots.get(root)!;
+  });
+}
+
+/**
+ * Silhouette di ogni titolo: (b − a) / max(a, b), con a distanza media dal
+ * proprio cluster e b dal cluster più vicino; 0 per i cluster di un titolo
+ */
+export function silhouetteValues(
+  distance: number[][],
+  labels: number[]
+): number[] {
+  const clusterCount = Math.max(...labels) + 1;
+
+  return labels.map((label, i) => {
+    const meanTo = (cluster: number) => {
+      const others = labels.flatMap((other, j) =>
+        other === cluster && j !== i ? [distance[i][j]] : []
+      );
+      return others.length > 0
+        ? others.reduce((sum, value) => sum + value, 0) / others.length
+        : null;
+    };
+
+    const a = meanTo(label);
+    if (a === null) return 0;
+
+    let b = Infinity;
+    for (let cluster = 0; cluster < clusterCount; cluster++) {
+      if (cluster !== label) b = Math.min(b, meanTo(cluster) ?? Infinity);
+    }
+    const scale = Math.max(a, b);
+    return scale > 0 ? (b - a) / scale : 0;
+  });
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+function clusterWithLinkage(
+  symbols: string[],
+  correlation: number[][],
+  distance: number[][],
+  linkage: LinkageMethod
+): LinkageClustering {
+  const n = symbols.length;
+  const merges = agglomerate(distance, linkage);
+  const order = leafOrder(n, merges);
+
+  // Numero di cluster con il silhouette medio più alto (a parità, il minore)
+  const candidates = Array.from({ length: n - 2 }, (_, k) => {
+    const clusters = k + 2;
+    const labels = cutTree(n, merges, clusters);
+    const values = silhouetteValues(distance, labels);
+    return {
+      clusters,
+      labels,
+      values,
+      score: values.reduce((sum, value) => sum + value, 0) / n,
+    };
+  });
+  const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+
+  // Cluster numerati nell'ordine in cui compaiono nel dendrogramma
+  const numbering = new Map<number, number>();
+  order.forEach(i => {
+    const label = best.labels[i];
+    if (!numbering.has(label)) numbering.set(label, numbering.size + 1);
+  });
+  const clusterOf = (i: number) => numbering.get(best.labels[i])!;
+
+  const groups: ClusterGroup[] = Array.from(
+    { length: best.clusters },
+    (_, k) => {
+      const members = order.filter(i => clusterOf(i) === k + 1);
+      const pairs = members.flatMap((i, a) =>
+        members.slice(a + 1).map(j => correlation[i][j])
+      );
+      const averageCorrelation =
+        pairs.length > 0
+          ? pairs.reduce((sum, value) => sum + value, 0) / pairs.length
+          : null;
+      return {
+        cluster: k + 1,
+        symbols: members.map(i => symbols[i]),
+        averageCorrelation,
+        redundant:
+          averageCorrelation !== null &&
+          averageCorrelation >= REDUNDANCY_THRESHOLD,
+      };
+    }
+  );
+
+  // Ultima fusione dentro i cluster e prima fusione tra cluster diversi
+  const lastInside = merges[n - best.clusters - 1].height;
+  const firstAcross = merges[n - best.clusters].height;
+
+  return {
+    linkage,
+    merges,
+    order,
+    cutHeight: (lastInside + firstAcross) / 2,
+    clusters: best.clusters,
+    silhouette: best.score,
+    silhouetteScores: candidates.map(({ clusters, score }) => ({
+      clusters,
+      score,
+    })),
+    membership: symbols.map((symbol, i) => ({
+      symbol,
+      cluster: clusterOf(i),
+      silhouette: best.values[i],
+    })),
+    groups,
+  };
+}
+
+// Foglie da sinistra a destra visitando il dendrogramma dalla radice
+function leafOrder(n: number, merges: ClusterMerge[]): number[] {
+  const order: number[] = [];
+  const visit = (node: number) => {
+    if (node < n) {
+      order.push(node);
+      return;
+    }
+    const merge = merges[node - n];
+    visit(merge.left);
+    visit(merge.right);
+  };
+  visit(2 * n - 2);
+  return order;
+}
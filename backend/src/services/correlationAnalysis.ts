@@ -0,0 +1,466 @@
+/**
+ * Correlation Analysis per STUDENT ANALYST
+ *
+ * Correlazioni tra i rendimenti dei ticker calcolate coppia per coppia sulle
+ * sole date comuni (con un numero minimo di osservazioni condivise), con
+ * metodo a scelta tra Pearson, Spearman e Kendall. Per ogni coppia riporta
+ * la correlazione su finestra mobile e le correlazioni separate per regime
+ * di mercato: un periodo è "stressato" quando la volatilità mobile del
+ * mercato (portafoglio o media equipesata dei ticker) supera il quantile
+ * scelto della sua distribuzione, "calmo" altrimenti.
+ */
+
+import {
+  covariance,
+  isFiniteNumber,
+  kendallTau,
+  pearsonCorrelation,
+  quantileSorted,
+  spearmanCorrelation,
+  standardDeviation,
+  variance,
+} from './statistics';
+import { daysToPeriods } from './volatilityModels';
+
+// ========== INTERFACCE ==========
+
+export type CorrelationMethod = 'pearson' | 'spearman' | 'kendall';
+
+export type MarketRegime = 'calm' | 'stressed';
+
+export interface CorrelationConfig {
+  method: CorrelationMethod;
+  minOverlap: number; // rendimenti comuni minimi per stimare una coppia
+  rollingWindowDays: number; // finestra mobile in giorni di borsa
+  stressQuantile: number; // quantile della volatilità oltre cui il mercato è stressato
+}
+
+export interface CorrelationInput {
+  symbol: string;
+  dates: string[]; // date dei rendimenti
+  returns: (number | null)[]; // null dove la serie non ha dati
+}
+
+/** Serie senza valori mancanti, con le sole date osservate */
+interface CleanSeries extends CorrelationInput {
+  returns: number[];
+}
+
+export interface CorrelationMatrix {
+  symbols: string[];
+  matrix: (number | null)[][]; // null: date comuni insufficienti
+  observations: number[][]; // rendimenti comuni per coppia
+}
+
+export interface PairCorrelation {
+  symbols: [string, string];
+  dates: string[]; // date comuni della coppia
+  returns: [number[], number[]];
+  correlation: number | null;
+  rolling: (number | null)[]; // null finché la finestra non è completa
+  regimes: (MarketRegime | null)[]; // null se il regime non è definito
+  calm: number | null;
+  stressed: number | null;
+}
+
+export interface RegimeAnalysis {
+  proxy: string; // serie usata come mercato
+  threshold: number; // volatilità annualizzata che separa i regimi
+  calmPeriods: number;
+  stressedPeriods: number;
+  stressedIntervals: Array<{ start: string; end: string }>;
+  calm: CorrelationMatrix;
+  stressed: CorrelationMatrix;
+}
+
+export interface CorrelationReport {
+  method: CorrelationMethod;
+  minOverlap: number;
+  rollingWindowDays: number;
+  rollingWindowPeriods: number;
+  stressQuantile: number;
+  correlationMatrix: CorrelationMatrix;
+  covarianceMatrix: (number | null)[][]; // Pearson, per periodo
+  diversificationIndex: number;
+  averageCorrelation: number;
+  regimes: RegimeAnalysis | null; // null se la serie di mercato è troppo corta
+  pairs: PairCorrelation[];
+}
+
+// ========== COSTANTI ==========
+
+export const CORRELATION_METHODS: CorrelationMethod[] = [
+  'pearson',
+  'spearman',
+  'kendall',
+];
+
+export const DEFAULT_CORRELATION_CONFIG: CorrelationConfig = {
+  method: 'pearson',
+  minOverlap: 20,
+  rollingWindowDays: 63, // 3 mesi
+  stressQuantile: 0.8,
+};
+
+export const MIN_OVERLAP_LIMIT = 3;
+export const MAX_ROLLING_WINDOW_DAYS = 252;
+
+// Osservazioni minime della finestra mobile alla frequenza dell'analisi
+const MIN_ROLLING_PERIODS = 5;
+
+const EQUAL_WEIGHT_PROXY = 'MEDIA EQUIPESATA';
+
+const CORRELATION_FUNCTIONS: Record<
+  CorrelationMethod,
+  (a: number[], b: number[]) => number
+> = {
+  pearson: pearsonCorrelation,
+  spearman: spearmanCorrelation,
+  kendall: kendallTau,
+};
+
+// ========== VALIDAZIONE ==========
+
+/**
+ * Valida la configurazione ricevuta dal client (metodo, sovrapposizione
+ * minima, finestra mobile e soglia di stress).
+ * Restituisce la configurazione completa oppure un messaggio d'errore.
+ */
+export function parseCorrelationConfig(
+  raw: unknown
+): { config: CorrelationConfig } | { error: string } {
+  if (raw === undefined || raw === null) {
+    return { config: DEFAULT_CORRELATION_CONFIG };
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Parametro correlationConfig deve essere un oggetto' };
+  }
+
+  const { method, minOverlap, rollingWindowDays, stressQuantile } =
+    raw as Record<string, unknown>;
+  const config: CorrelationConfig = { ...DEFAULT_CORRELATION_CONFIG };
+
+  if (method !== undefined) {
+    if (!CORRELATION_METHODS.includes(method as CorrelationMethod)) {
+      return {
+        error: `correlationConfig.method deve essere uno tra: ${CORRELATION_METHODS.join(', ')}`,
+      };
+    }
+    config.method = method as CorrelationMethod;
+  }
+
+  if (minOverlap !== undefined) {
+    const overlap = Number(minOverlap);
+    if (!Number.isInteger(overlap) || overlap < MIN_OVERLAP_LIMIT) {
+      return {
+        error: `correlationConfig.minOverlap deve essere un intero di almeno ${MIN_OVERLAP_LIMIT}`,
+      };
+    }
+    config.minOverlap = overlap;
+  }
+
+  if (rollingWindowDays !== undefined) {
+    const days = Number(rollingWindowDays);
+    if (
+      !Number.isInteger(days) ||
+      days < MIN_ROLLING_PERIODS ||
+      days > MAX_ROLLING_WINDOW_DAYS
+    ) {
+      return {
+        error: `correlationConfig.rollingWindowDays deve essere un intero tra ${MIN_ROLLING_PERIODS} e ${MAX_ROLLING_WINDOW_DAYS}`,
+      };
+    }
+    config.rollingWindowDays = days;
+  }
+
+  if (stressQuantile !== undefined) {
+    const quantile = Number(stressQuantile);
+    if (!Number.isFinite(quantile) || quantile < 0.5 || quantile > 0.99) {
+      return {
+        error: 'correlationConfig.stressQuantile deve essere tra 0.5 e 0.99',
+      };
+    }
+    config.stressQuantile = quantile;
+  }
+
+  return { config };
+}
+
+// ========== CALCOLO ==========
+
+/**
+ * Matrice delle correlazioni, serie mobili e regimi per tutte le coppie di
+ * ticker. Il mercato per i regimi è il portafoglio se presente, altrimenti
+ * la media equipesata dei rendimenti disponibili a ogni data.
+ * Null con meno di due ticker.
+ */
+export function calculateCorrelationAnalysis(
+  series: CorrelationInput[],
+  market: CorrelationInput | null,
+  periodsPerYear: number,
+  config: CorrelationConfig = DEFAULT_CORRELATION_CONFIG
+): CorrelationReport | null {
+  const inputs = series.map(cleanInput);
+  if (inputs.length < 2) {
+    return null;
+  }
+
+  const correlate = CORRELATION_FUNCTIONS[config.method];
+  const windowPeriods = Math.max(
+    MIN_ROLLING_PERIODS,
+    daysToPeriods(config.rollingWindowDays, periodsPerYear)
+  );
+
+  const regimeByDate = classifyRegimes(
+    market ? cleanInput(market) : equalWeightMarket(inputs),
+    windowPeriods,
+    config.stressQuantile,
+    periodsPerYear
+  );
+  const regimeOf = (date: string) => regimeByDate?.states.get(date) ?? null;
+
+  // Correlazione della coppia se le osservazioni bastano
+  const estimate = (a: number[], b: number[]) =>
+    a.length >= config.minOverlap ? correlate(a, b) : null;
+
+  const pairs: PairCorrelation[] = [];
+  for (let i = 0; i < inputs.length; i++) {
+    for (let j = i + 1; j < inputs.length; j++) {
+      const { dates, x, y } = alignPair(inputs[i], inputs[j]);
+      const regimes = dates.map(regimeOf);
+      const inRegime = (regime: MarketRegime) => {
+        const index = regimes.flatMap((state, k) =>
+          state === regime ? [k] : []
+        );
+        return estimate(
+          index.map(k => x[k]),
+          index.map(k => y[k])
+        );
+      };
+
+      pairs.push({
+        symbols: [inputs[i].symbol, inputs[j].symbol],
+        dates,
+        returns: [x, y],
+        correlation: estimate(x, y),
+        rolling: dates.map((_, k) =>
+          k + 1 < windowPeriods
+            ? null
+            : correlate(
+                x.slice(k + 1 - windowPeriods, k + 1),
+                y.slice(k + 1 - windowPeriods, k + 1)
+              )
+        ),
+        regimes,
+        calm: regimeByDate ? inRegime('calm') : null,
+        stressed: regimeByDate ? inRegime('stressed') : null,
+      });
+    }
+  }
+
+  const symbols = inputs.map(input => input.symbol);
+  const pairOf = (i: number, j: number) =>
+    pairs.find(
+      pair =>
+        pair.symbols[0] === symbols[Math.min(i, j)] &&
+        pair.symbols[1] === symbols[Math.max(i, j)]
+    )!;
+
+  // Matrice simmetrica a partire da un valore per coppia
+  const buildMatrix = (
+    diagonal: (i: number) => number | null,
+    value: (pair: PairCorrelation) => number | null
+  ) =>
+    symbols.map((_, i) =>
+      symbols.map((_, j) => (i === j ? diagonal(i) : value(pairOf(i, j))))
+    );
+
+  const regimeMatrix = (regime: MarketRegime): CorrelationMatrix => {
+    const counts = (pair: PairCorrelation) =>
+      pair.regimes.filter(state => state === regime).length;
+    return {
+      symbols,
+      matrix: buildMatrix(
+        () => 1,
+        pair => pair[regime]
+      ),
+      observations: buildMatrix(
+        i => inputs[i].dates.filter(date => regimeOf(date) === regime).length,
+        counts
+      ) as number[][],
+    };
+  };
+
+  const matrix = buildMatrix(
+    () => 1,
+    pair => pair.correlation
+  );
+  const averageCorrelation = averageOffDiagonal(matrix);
+
+  return {
+    method: config.method,
+    minOverlap: config.minOverlap,
+    rollingWindowDays: config.rollingWindowDays,
+    rollingWindowPeriods: windowPeriods,
+    stressQuantile: config.stressQuantile,
+    correlationMatrix: {
+      symbols,
+      matrix,
+      observations: buildMatrix(
+        i => inputs[i].returns.length,
+        pair => pair.dates.length
+      ) as number[][],
+    },
+    covarianceMatrix: buildMatrix(
+      i => variance(inputs[i].returns),
+      pair =>
+        pair.dates.length >= config.minOverlap
+          ? covariance(pair.returns[0], pair.returns[1])
+          : null
+    ),
+    diversificationIndex: 1 - averageCorrelation,
+    averageCorrelation,
+    regimes: regimeByDate
+      ? {
+          proxy: regimeByDate.proxy,
+          threshold: regimeByDate.threshold,
+          calmPeriods: regimeByDate.calmPeriods,
+          stressedPeriods: regimeByDate.stressedPeriods,
+          stressedIntervals: regimeByDate.stressedIntervals,
+          calm: regimeMatrix('calm'),
+          stressed: regimeMatrix('stressed'),
+        }
+      : null,
+    pairs,
+  };
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+// Scarta i rendimenti non finiti insieme alla loro data
+function cleanInput(input: CorrelationInput): CleanSeries {
+  const dates: string[] = [];
+  const returns: number[] = [];
+  input.returns.forEach((value, i) => {
+    if (isFiniteNumber(value) && input.dates[i] !== undefined) {
+      dates.push(input.dates[i]);
+      returns.push(value);
+    }
+  });
+  return { symbol: input.symbol, dates, returns };
+}
+
+// Rendimenti delle due serie sulle sole date comuni
+function alignPair(a: CleanSeries, b: CleanSeries) {
+  const indexB = new Map(b.dates.map((date, i) => [date, i]));
+  const dates: string[] = [];
+  const x: number[] = [];
+  const y: number[] = [];
+
+  a.dates.forEach((date, i) => {
+    const j = indexB.get(date);
+    if (j !== undefined) {
+      dates.push(date);
+      x.push(a.returns[i]);
+      y.push(b.returns[j]);
+    }
+  });
+
+  return { dates, x, y };
+}
+
+// Media dei rendimenti disponibili a ogni data, in ordine cronologico
+function equalWeightMarket(inputs: CleanSeries[]): CleanSeries {
+  const byDate = new Map<string, number[]>();
+  inputs.forEach(input =>
+    input.dates.forEach((date, i) => {
+      const values = byDate.get(date) ?? [];
+      values.push(input.returns[i]);
+      byDate.set(date, values);
+    })
+  );
+
+  const dates = [...byDate.keys()].sort();
+  return {
+    symbol: EQUAL_WEIGHT_PROXY,
+    dates,
+    returns: dates.map(date => {
+      const values = byDate.get(date)!;
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    }),
+  };
+}
+
+/**
+ * Regime di ogni data dalla volatilità mobile del mercato: stressato sopra
+ * il quantile scelto. Null se la finestra non si completa mai.
+ */
+function classifyRegimes(
+  market: CleanSeries,
+  windowPeriods: number,
+  stressQuantile: number,
+  periodsPerYear: number
+) {
+  const { dates, returns } = market;
+  const volatility = returns.map((_, i) =>
+    i + 1 < windowPeriods
+      ? null
+      : standardDeviation(returns.slice(i + 1 - windowPeriods, i + 1))
+  );
+  const defined = volatility
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+
+  if (defined.length === 0) {
+    return null;
+  }
+
+  const threshold = quantileSorted(defined, stressQuantile);
+  const states = new Map<string, MarketRegime>();
+  const stressedIntervals: Array<{ start: string; end: string }> = [];
+  let calmPeriods = 0;
+  let stressedPeriods = 0;
+
+  volatility.forEach((value, i) => {
+    if (value === null) return;
+    const date = dates[i];
+
+    if (value > threshold) {
+      states.set(date, 'stressed');
+      stressedPeriods++;
+      // Estende l'intervallo se anche la data precedente era stressata
+      const last = stressedIntervals[stressedIntervals.length - 1];
+      if (last && last.end === dates[i - 1]) {
+        last.end = date;
+      } else {
+        stressedIntervals.push({ start: date, end: date });
+      }
+    } else {
+      states.set(date, 'calm');
+      calmPeriods++;
+    }
+  });
+
+  return {
+    proxy: market.symbol,
+    threshold: threshold * Math.sqrt(periodsPerYear),
+    calmPeriods,
+    stressedPeriods,
+    stressedIntervals,
+    states,
+  };
+}
+
+// Media delle correlazioni fuori diagonale disponibili
+function averageOffDiagonal(matrix: (number | null)[][]): number {
+  const values: number[] = [];
+  matrix.forEach((row, i) =>
+    row.forEach((value, j) => {
+      if (j > i && value !== null) values.push(value);
+    })
+  );
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
@@ -3,6 +3,16 @@ import {
   AlphaVantageService,
   AlphaVantageTimeframe,
 } from './alphaVantageService';
+import {
+  DateRange,
+  MarketDataStore,
+  StoredBar,
+  addDays,
+  getMarketDataStore,
+  hasWeekdays,
+  missingRanges,
+} from './marketDataStore';
+import { DividendEvent } from './priceAdjuster';
 import {
   YahooFinanceResponse,
   YahooFinanceService,
@@ -26,6 +36,7 @@ export interface DataSourceManagerConfig {
   fallbackDelay: number;
   maxRetries: number;
   logFallbacks: boolean;
+  marketDataStore: MarketDataStore | null; // null = nessuna persistenza
 }
 
 /**
@@ -41,7 +52,10 @@ export interface UnifiedDataResponse {
     close: number;
     adjustedClose?: number;
     volume: number;
+    dividendAmount?: number;
     timestamp?: string;
+    source?: string; // presenti per le barre lette dal market data store
+    fetchedAt?: string;
   }>;
   metadata: {
     symbol: string;
@@ -66,8 +80,24 @@ export interface UnifiedRequestParams {
   startDate?: string;
   endDate?: string;
   useCache?: boolean;
+  signal?: AbortSignal; // annulla le richieste non ancora partite
 }
 
+/** Le sorgenti forniscono barre giornaliere: lo store conserva solo quelle */
+const STORE_INTERVAL = '1d';
+
+// Scarto relativo oltre il quale una barra riscaricata ha rettifiche diverse
+const ADJUSTMENT_TOLERANCE = 1e-4;
+
+// Senza nuovi download le rettifiche salvate vengono ricontrollate ogni giorno
+const ADJUSTMENT_CHECK_MS = 24 * 60 * 60 * 1000;
+
+const adjustmentDiffers = (stored?: number, fresh?: number): boolean =>
+  stored !== undefined &&
+  fresh !== undefined &&
+  Math.abs(stored - fresh) >
+    ADJUSTMENT_TOLERANCE * Math.max(Math.abs(stored), Math.abs(fresh));
+
 /**
  * Classe per la gestione delle sorgenti dati
  * Coordina tra Yahoo Finance (primario) e Alpha Vantage (fallback)
@@ -86,6 +116,10 @@ export class DataSourceManager {
       maxRetries: 3,
       logFallbacks: true,
       ...config,
+      marketDataStore:
+        config?.marketDataStore !== undefined
+          ? config.marketDataStore
+          : getMarketDataStore(),
     };
 
     this.yahooService = new YahooFinanceService();
@@ -102,7 +136,9 @@ export class DataSourceManager {
 
   /**
    * Metodo principale per ottenere dati storici
-   * Gestisce automaticamente il fallback tra sorgenti
+   * Con date di inizio e fine legge prima il market data store e scarica solo
+   * i periodi mancanti; gestisce automaticamente il fallback tra sorgenti.
+   * Con signal annullato non parte nessuna nuova richiesta alle sorgenti
    */
   public async getStockData(
     symbol: string,
@@ -112,6 +148,7 @@ export class DataSourceManager {
       endDate?: string;
       useCache?: boolean;
       forceSource?: DataSource;
+      signal?: AbortSignal;
     }
   ): Promise<UnifiedDataResponse> {
     const requestParams: UnifiedRequestParams = {
@@ -120,6 +157,7 @@ export class DataSourceManager {
       startDate: options?.startDate,
       endDate: options?.endDate,
       useCache: options?.useCache,
+      signal: options?.signal,
     };
 
     // Se viene forzata una sorgente specifica
@@ -127,6 +165,160 @@ export class DataSourceManager {
       return this.fetchFromSource(options.forceSource, requestParams);
     }
 
+    if (this.config.marketDataStore && options?.startDate && options?.endDate) {
+      return this.getStockDataFromStore(this.config.marketDataStore, {
+        ...requestParams,
+        startDate: options.startDate,
+        endDate: options.endDate,
+      });
+    }
+
+    return this.fetchWithFallback(requestParams);
+  }
+
+  /**
+   * Barre giornaliere già salvate nel market data store, senza scaricare
+   * nulla (nessuna barra se lo store è disattivato)
+   */
+  public async getStoredBars(
+    symbol: string,
+    startDate: string,
+    endDate: string
+  ): Promise<StoredBar[]> {
+    const store = this.config.marketDataStore;
+    if (!store) return [];
+    return store.getBars(symbol.toUpperCase(), STORE_INTERVAL, {
+      start: startDate,
+      end: endDate,
+    });
+  }
+
+  /**
+   * Dati dal market data store con gap-filling: vengono scaricati solo gli
+   * intervalli non ancora coperti (useCache=false li riscarica tutti). Se il
+   * download fallisce ma lo store ha barre nel periodo, queste vengono servite
+   * comunque: un periodo già visto resta disponibile anche offline. Se split
+   * o dividendi hanno cambiato le rettifiche delle barre salvate, la serie
+   * viene eliminata e il periodo riscaricato.
+   */
+  private async getStockDataFromStore(
+    store: MarketDataStore,
+    params: UnifiedRequestParams & { startDate: string; endDate: string }
+  ): Promise<UnifiedDataResponse> {
+    const symbol = params.symbol.toUpperCase();
+    const range: DateRange = { start: params.startDate, end: params.endDate };
+    const coverage = await store.getCoverage(symbol, STORE_INTERVAL);
+    let gaps =
+      params.useCache === false ? [range] : missingRanges(coverage, range);
+
+    if (
+      await this.adjustmentsChanged(store, symbol, coverage, gaps.length > 0)
+    ) {
+      console.log(
+        `[INFO] Rettifiche cambiate per ${symbol} (split o dividendi): serie riscaricata`
+      );
+      await store.deleteSeries(symbol, STORE_INTERVAL);
+      gaps = [range];
+    }
+
+    // Oggi (UTC) non è mai coperto: la barra del giorno può ancora cambiare
+    const lastCoverable = addDays(new Date().toISOString().slice(0, 10), -1);
+    let lastResponse: UnifiedDataResponse | null = null;
+    let fetchError: unknown = null;
+
+    for (const gap of gaps) {
+      params.signal?.throwIfAborted();
+      const covered =
+        gap.start <= lastCoverable
+          ? {
+              start: gap.start,
+              end: gap.end < lastCoverable ? gap.end : lastCoverable,
+            }
+          : null;
+
+      // Solo weekend: nessuna barra da scaricare
+      if (!hasWeekdays(gap)) {
+        if (covered) await store.saveBars(symbol, STORE_INTERVAL, [], covered);
+        continue;
+      }
+
+      try {
+        // La data di fine delle sorgenti è esclusiva: si chiede un giorno in più
+        const response = await this.fetchWithFallback({
+          ...params,
+          timeframe: 'daily',
+          startDate: gap.start,
+          endDate: addDays(gap.end, 1),
+        });
+        const fetchedAt = new Date().toISOString();
+        const bars: StoredBar[] = response.data
+          .filter(bar => bar.date >= gap.start && bar.date <= gap.end)
+          .map(bar => ({
+            date: bar.date,
+            open: bar.open,
+            high: bar.high,
+            low: bar.low,
+            close: bar.close,
+            ...(bar.adjustedClose !== undefined && {
+              adjustedClose: bar.adjustedClose,
+            }),
+            volume: bar.volume,
+            ...(bar.dividendAmount !== undefined && {
+              dividendAmount: bar.dividendAmount,
+            }),
+            source: response.source,
+            fetchedAt,
+          }));
+
+        await store.saveBars(symbol, STORE_INTERVAL, bars, covered);
+        lastResponse = response;
+      } catch (error) {
+        fetchError = error;
+      }
+    }
+
+    params.signal?.throwIfAborted();
+    const data = await store.getBars(symbol, STORE_INTERVAL, range);
+    if (fetchError) {
+      if (data.length === 0) throw fetchError;
+      console.warn(
+        `[WARN] Download incompleto per ${symbol}: servite ${data.length} barre dal market data store`,
+        fetchError
+      );
+    }
+
+    const source = (data[data.length - 1]?.source ??
+      lastResponse?.source ??
+      this.config.primarySource) as DataSource;
+    return {
+      data,
+      metadata: {
+        symbol,
+        lastRefreshed: data.reduce(
+          (latest, bar) => (bar.fetchedAt > latest ? bar.fetchedAt : latest),
+          ''
+        ),
+        source,
+        dataPoints: data.length,
+        timeZone: lastResponse?.metadata.timeZone ?? 'UTC',
+      },
+      success: true,
+      source,
+      requestTimestamp: new Date().toISOString(),
+      cacheHit: lastResponse === null,
+      ...(lastResponse?.fallbackUsed && { fallbackUsed: true }),
+    };
+  }
+
+  /**
+   * Richiesta alle sorgenti remote: primaria e, se fallisce, fallback
+   */
+  private async fetchWithFallback(
+    requestParams: UnifiedRequestParams
+  ): Promise<UnifiedDataResponse> {
+    const { symbol, signal } = requestParams;
+    signal?.throwIfAborted();
+
     // Prova prima la sorgente primaria
     try {
       const primaryResponse = await this.fetchFromSource(
@@ -147,6 +339,9 @@ export class DataSourceManager {
         error
       );
 
+      // Analisi annullata: il fallback non viene tentato
+      signal?.throwIfAborted();
+
       // Se il fallback è abilitato, prova la sorgente secondaria
       if (this.config.enableFallback) {
         const fallbackSource = this.getFallbackSource();
@@ -154,6 +349,7 @@ export class DataSourceManager {
         try {
           // Delay prima del fallback per evitare sovraccarico
           await this.delay(this.config.fallbackDelay);
+          signal?.throwIfAborted();
 
           const fallbackResponse = await this.fetchFromSource(
             fallbackSource,
@@ -186,6 +382,139 @@ export class DataSourceManager {
     }
   }
 
+  /**
+   * Vero se split o dividendi successivi al download hanno cambiato i prezzi
+   * rettificati delle barre salvate. Il controllo precede ogni nuovo download,
+   * quindi le barre salvate sono coerenti tra loro e basta riscaricare
+   * l'ultima; senza download viene ripetuto solo ogni ADJUSTMENT_CHECK_MS.
+   */
+  private async adjustmentsChanged(
+    store: MarketDataStore,
+    symbol: string,
+    coverage: DateRange[],
+    downloading: boolean
+  ): Promise<boolean> {
+    const lastCovered = coverage[coverage.length - 1];
+    if (!lastCovered) return false;
+
+    const anchor = (
+      await store.getBars(symbol, STORE_INTERVAL, {
+        start: addDays(lastCovered.end, -14),
+        end: lastCovered.end,
+      })
+    ).pop();
+    if (!anchor) return false;
+    if (
+      !downloading &&
+      Date.now() - Date.parse(anchor.fetchedAt) < ADJUSTMENT_CHECK_MS
+    ) {
+      return false;
+    }
+
+    let fresh: UnifiedDataResponse['data'][number] | undefined;
+    try {
+      const response = await this.fetchWithFallback({
+        symbol,
+        timeframe: 'daily',
+        startDate: anchor.date,
+        endDate: addDays(anchor.date, 1),
+        useCache: false,
+      });
+      fresh = response.data.find(bar => bar.date === anchor.date);
+    } catch {
+      return false; // esito sconosciuto: restano le barre salvate
+    }
+    if (!fresh) return false;
+
+    if (
+      adjustmentDiffers(anchor.close, fresh.close) ||
+      adjustmentDiffers(anchor.adjustedClose, fresh.adjustedClose)
+    ) {
+      return true;
+    }
+
+    // Rettifiche confermate: il prossimo controllo parte da adesso
+    await store.saveBars(
+      symbol,
+      STORE_INTERVAL,
+      [{ ...anchor, fetchedAt: new Date().toISOString() }],
+      null
+    );
+    return false;
+  }
+
+  /**
+   * Storico dividendi per il total return.
+   * Yahoo Finance (eventi 'dividends') è la sorgente primaria; in fallback
+   * usa il campo dividend amount della serie adjusted di Alpha Vantage.
+   */
+  public async getDividendEvents(
+    symbol: string,
+    options?: { startDate?: string; endDate?: string }
+  ): Promise<DividendEvent[]> {
+    try {
+      const dividends = await this.yahooService.getDividends(symbol, options);
+
+      return dividends.map(dividend =>
+        this.toDividendEvent(symbol, dividend, DataSource.YAHOO_FINANCE)
+      );
+    } catch (error) {
+      console.warn(
+        `[WARN] Yahoo Finance dividends failed for ${symbol}:`,
+        error
+      );
+
+      if (!this.config.enableFallback) {
+        throw this.createUnifiedError(error, undefined, symbol);
+      }
+
+      try {
+        const response = await this.fetchFromAlphaVantage({
+          symbol,
+          timeframe: 'daily',
+          startDate: options?.startDate,
+          endDate: options?.endDate,
+        });
+        this.incrementFallbackCount(DataSource.ALPHA_VANTAGE);
+
+        return response.data
+          .filter(
+            item =>
+              Number(item.dividendAmount) > 0 &&
+              (!options?.startDate || item.date >= options.startDate) &&
+              (!options?.endDate || item.date <= options.endDate)
+          )
+          .map(item =>
+            this.toDividendEvent(
+              symbol,
+              { date: item.date, amount: Number(item.dividendAmount) },
+              DataSource.ALPHA_VANTAGE
+            )
+          )
+          .sort((a, b) => a.exDate.localeCompare(b.exDate));
+      } catch (fallbackError) {
+        throw this.createUnifiedError(error, fallbackError, symbol);
+      }
+    }
+  }
+
+  private toDividendEvent(
+    symbol: string,
+    dividend: { date: string; amount: number },
+    source: DataSource
+  ): DividendEvent {
+    return {
+      date: dividend.date,
+      symbol,
+      amount: dividend.amount,
+      currency: 'USD',
+      type: 'CASH',
+      exDate: dividend.date,
+      payDate: dividend.date,
+      source,
+    };
+  }
+
   /**
    * Fetch dati da una sorgente specifica
    */
@@ -249,6 +578,8 @@ export class DataSourceManager {
 
   /**
    * Mappa timeframe string a Yahoo Finance timeframe
+   * Yahoo restituisce sempre barre giornaliere: le frequenze weekly/monthly
+   * vengono aggregate a valle da ohlcvResampler
    */
   private mapTimeframeToYahoo(timeframe: string): YahooFinanceTimeframe {
     switch (timeframe.toLowerCase()) {
@@ -21,6 +21,7 @@ export interface StandardOHLCVData {
   adjustedClose: number; // Sempre presente, aggiustato per splits/dividendi
   volume: number;
   volumeNormalized: number; // Volume in unità standard (non K/M/B)
+  dividendAmount?: number; // Dividendo con ex-date in questa barra, se noto
   source: string; // 'alpha_vantage' | 'yahoo_finance' | etc.
   symbol: string;
   timeframe: string; // '1min' | '5min' | 'daily' | etc.
@@ -51,6 +52,7 @@ export interface StandardMetadata {
 export interface StandardFinancialResponse {
   data: StandardOHLCVData[];
   metadata: StandardMetadata;
+  qualityReport: DataQualityReport;
   success: boolean;
   errors: TransformationError[];
   warnings: string[];
@@ -74,6 +76,42 @@ export interface DataQualityFlags {
   confidence: number; // 0-1
 }
 
+/**
+ * Anomalia di volume riferita alla data della barra
+ */
+export interface VolumeAnomalyFlag {
+  date: string;
+  type: Volu_meanomaly['type'];
+  severity: Volu_meanomaly['severity'];
+  description: string;
+}
+
+/**
+ * Buco temporale tra due barre consecutive
+ */
+export interface DataGap {
+  from: string;
+  to: string;
+  calendarDays: number;
+}
+
+/**
+ * Report di qualità per una serie trasformata
+ */
+export interface DataQualityReport {
+  symbol: string;
+  source: string;
+  qualityScore: number; // 0-100
+  recordsProcessed: number;
+  recordsSkipped: number;
+  firstDate: string;
+  lastDate: string;
+  detectedSplits: SplitEvent[];
+  volumeAnomalies: VolumeAnomalyFlag[];
+  gaps: DataGap[];
+  priceAnomalies: string[]; // date con variazioni di prezzo anomale
+}
+
 /**
  * Configurazione di trasformazione
  */
@@ -86,6 +124,7 @@ export interface TransformationConfig {
   removeAnomalies: boolean;
   timezone: string;
   qualityThreshold: number; // 0-1, sotto questa soglia i dati vengono scartati
+  priceJumpThreshold: number; // variazione close-to-close considerata anomala
 }
 
 /**
@@ -104,6 +143,20 @@ export interface TransformationError {
   severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 }
 
+// ========== COSTANTI ==========
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Giorni di calendario oltre i quali due barre consecutive indicano un buco
+ * (weekend lunghi e festività non vengono segnalati)
+ */
+const MAX_GAP_DAYS: Record<string, number> = {
+  daily: 5,
+  weekly: 10,
+  monthly: 35,
+};
+
 // ========== ENUMS ==========
 
 export enum SupportedDataSource {
@@ -112,6 +165,7 @@ export enum SupportedDataSource {
   IEX_CLOUD = 'iex_cloud',
   POLYGON = 'polygon',
   QUANDL = 'quandl',
+  FILE_IMPORT = 'file_import', // CSV/XLSX caricati dall'utente
 }
 
 export enum StandardTimeframe {
@@ -149,6 +203,7 @@ export class DataTransformer {
       removeAnomalies: true,
       timezone: 'America/New_York',
       qualityThreshold: 0.7,
+      priceJumpThreshold: 0.25,
       ...config,
     };
 
@@ -169,113 +224,334 @@ export class DataTransformer {
     timeframe: string
   ): Promise<StandardFinancialResponse> {
     const startTime = Date.now();
-    const errors: TransformationError[] = [];
-    const warnings: string[] = [];
 
     try {
       // 1. Parsing del formato originale
       const parsedData = this.responseParser.parse(rawData, source);
 
-      // 2. Normalizzazione date
-      const normalizedData = this.dateNormalizer.normalize(parsedData);
-
-      // 3. Aggiustamento prezzi per splits/dividendi
-      let adjustedData = normalizedData;
-      if (this.config.enableSplitAdjustment) {
-        adjustedData =
-          Array.isArray(normalizedData) &&
-          normalizedData.length > 0 &&
-          typeof normalizedData[0] === 'object' &&
-          normalizedData[0] !== null &&
-          'date' in (normalizedData[0] as object)
-            ? await this.priceAdjuster.adjustForSplits(
-                normalizedData as PriceDataRecord[],
-                symbol
-              )
-            : normalizedData;
-      }
-
-      // 4. Gestione volume
-      const volumeProcessedData = this.config.enableVolumeNormalization
-        ? Array.isArray(adjustedData) &&
-          adjustedData.length > 0 &&
-          typeof adjustedData[0] === 'object' &&
-          adjustedData[0] !== null &&
-          'volume' in (adjustedData[0] as object)
-          ? this.volumeHandler.normalizeVolume(adjustedData as VolumeDataItem[])
-          : adjustedData
-        : adjustedData;
-
-      // 5. Validazione qualità dati
-      const validatedData = this.config.enableDataValidation
-        ? this.dataValidator.validate(volumeProcessedData)
-        : volumeProcessedData;
-
-      // 6. Conversione al formato standard
-      const standardData = this.convertToStandardFormat(
-        validatedData,
+      return await this.runPipeline(
+        parsedData,
         source,
         symbol,
-        timeframe
+        timeframe,
+        startTime
       );
+    } catch (error) {
+      return this.createErrorResponse(
+        error,
+        source,
+        symbol,
+        timeframe,
+        startTime
+      );
+    }
+  }
 
-      // 7. Calcolo metriche finali
-      const processingTime = Date.now() - startTime;
-      const qualityScore = this.calculateQualityScore(standardData);
+  /**
+   * Trasforma record OHLCV già estratti dai servizi dati
+   * (es. UnifiedDataResponse.data): salta il parsing del formato originale
+   */
+  public async transformRecords(
+    records: unknown[],
+    source: SupportedDataSource,
+    symbol: string,
+    timeframe: string
+  ): Promise<StandardFinancialResponse> {
+    const startTime = Date.now();
 
-      const metadata: StandardMetadata = {
+    try {
+      return await this.runPipeline(
+        records,
+        source,
         symbol,
+        timeframe,
+        startTime
+      );
+    } catch (error) {
+      return this.createErrorResponse(
+        error,
         source,
+        symbol,
         timeframe,
-        startDate:
-          standardData.length > 0
-            ? standardData[standardData.length - 1].date
-            : '',
-        endDate: standardData.length > 0 ? standardData[0].date : '',
-        timezone: this.config.timezone,
-        lastRefreshed: new Date().toISOString(),
-        dataCount: standardData.length,
-        transformationTimestamp: new Date().toISOString(),
-        splitAdjusted: this.config.enableSplitAdjustment,
-        dividendAdjusted: this.config.enableDividendAdjustment,
+        startTime
+      );
+    }
+  }
+
+  /**
+   * Pipeline comune: date, splits, volume, validazione, flag di qualità
+   */
+  private async runPipeline(
+    parsedData: unknown[],
+    source: SupportedDataSource,
+    symbol: string,
+    timeframe: string,
+    startTime: number
+  ): Promise<StandardFinancialResponse> {
+    const errors: TransformationError[] = [];
+    const warnings: string[] = [];
+
+    // 2. Normalizzazione date
+    const normalizedData = this.dateNormalizer.normalize(parsedData);
+
+    // 3. Aggiustamento prezzi per splits/dividendi
+    let adjustedData = normalizedData;
+    if (this.config.enableSplitAdjustment) {
+      adjustedData =
+        Array.isArray(normalizedData) &&
+        normalizedData.length > 0 &&
+        typeof normalizedData[0] === 'object' &&
+        normalizedData[0] !== null &&
+        'date' in (normalizedData[0] as object)
+          ? await this.priceAdjuster.adjustForSplits(
+              normalizedData as PriceDataRecord[],
+              symbol
+            )
+          : normalizedData;
+    }
+
+    // 4. Gestione volume (con rilevamento anomalie)
+    let volumeProcessedData = adjustedData;
+    const volumeAnomalies: VolumeAnomalyFlag[] = [];
+    if (
+      this.config.enableVolumeNormalization &&
+      adjustedData.length > 0 &&
+      typeof adjustedData[0] === 'object' &&
+      adjustedData[0] !== null &&
+      'volume' in (adjustedData[0] as object)
+    ) {
+      const volumeResult = this.volumeHandler.processVolumeData(
+        adjustedData as VolumeDataItem[]
+      );
+
+      if (volumeResult.success) {
+        volumeProcessedData = volumeResult.normalizedData;
+      }
+
+      for (const anomaly of volumeResult.anomalies) {
+        // Gli indici di formato si riferiscono all'input, gli altri ai dati normalizzati
+        const reference =
+          anomaly.type === 'INCONSISTENT_FORMAT'
+            ? adjustedData[anomaly.record]
+            : volumeResult.normalizedData[anomaly.record];
+        const date = (reference as Record<string, unknown> | undefined)?.date;
+
+        if (typeof date === 'string') {
+          volumeAnomalies.push({
+            date,
+            type: anomaly.type,
+            severity: anomaly.severity,
+            description: anomaly.description,
+          });
+        }
+      }
+    }
+
+    // 5. Validazione qualità dati
+    const validatedData = this.config.enableDataValidation
+      ? this.dataValidator.validate(volumeProcessedData)
+      : volumeProcessedData;
+
+    if (validatedData.length < volumeProcessedData.length) {
+      warnings.push(
+        `${volumeProcessedData.length - validatedData.length} record scartati per OHLC non coerenti`
+      );
+    }
+
+    // 6. Flag di qualità per record e conversione al formato standard
+    const detectedSplits = this.priceAdjuster
+      .getSplitHistory(symbol)
+      .filter(split =>
+        validatedData.some(
+          item => (item as Record<string, unknown>).date === split.date
+        )
+      );
+    const { flaggedData, gaps, priceAnomalies } = this.applyQualityFlags(
+      validatedData,
+      timeframe,
+      new Set(volumeAnomalies.map(anomaly => anomaly.date)),
+      new Set(detectedSplits.map(split => split.date))
+    );
+
+    const standardData = this.convertToStandardFormat(
+      flaggedData,
+      source,
+      symbol,
+      timeframe
+    );
+
+    // 7. Calcolo metriche finali
+    const processingTime = Date.now() - startTime;
+    const qualityScore = this.calculateQualityScore(standardData);
+    const sortedDates = standardData.map(item => item.date).sort();
+
+    const metadata: StandardMetadata = {
+      symbol,
+      source,
+      timeframe,
+      startDate: sortedDates[0] ?? '',
+      endDate: sortedDates[sortedDates.length - 1] ?? '',
+      timezone: this.config.timezone,
+      lastRefreshed: new Date().toISOString(),
+      dataCount: standardData.length,
+      transformationTimestamp: new Date().toISOString(),
+      splitAdjusted: this.config.enableSplitAdjustment,
+      dividendAdjusted: this.config.enableDividendAdjustment,
+      qualityScore,
+    };
+
+    return {
+      data: standardData,
+      metadata,
+      qualityReport: {
+        symbol,
+        source,
         qualityScore,
-      };
+        recordsProcessed: standardData.length,
+        recordsSkipped: parsedData.length - standardData.length,
+        firstDate: metadata.startDate,
+        lastDate: metadata.endDate,
+        detectedSplits,
+        volumeAnomalies,
+        gaps,
+        priceAnomalies,
+      },
+      success: true,
+      errors,
+      warnings,
+      performance: {
+        processingTimeMs: processingTime,
+        recordsProcessed: standardData.length,
+        recordsSkipped: parsedData.length - standardData.length,
+        cacheHit: false,
+      },
+    };
+  }
 
-      return {
-        data: standardData,
-        metadata,
-        success: true,
-        errors,
-        warnings,
-        performance: {
-          processingTimeMs: processingTime,
-          recordsProcessed: standardData.length,
-          recordsSkipped: parsedData.length - standardData.length,
-          cacheHit: false,
-        },
-      };
-    } catch (error) {
-      errors.push({
-        type: 'PARSING_ERROR',
-        message: `Errore durante trasformazione: ${(error as Error).message}`,
-        timestamp: new Date().toISOString(),
-        severity: 'CRITICAL',
-      });
+  /**
+   * Risposta di errore per trasformazioni fallite
+   */
+  private createErrorResponse(
+    error: unknown,
+    source: SupportedDataSource,
+    symbol: string,
+    timeframe: string,
+    startTime: number
+  ): StandardFinancialResponse {
+    const metadata = this.createErrorMetadata(symbol, source, timeframe);
 
-      return {
-        data: [],
-        metadata: this.createErrorMetadata(symbol, source, timeframe),
-        success: false,
-        errors,
-        warnings,
-        performance: {
-          processingTimeMs: Date.now() - startTime,
-          recordsProcessed: 0,
-          recordsSkipped: 0,
-          cacheHit: false,
+    return {
+      data: [],
+      metadata,
+      qualityReport: {
+        symbol,
+        source,
+        qualityScore: 0,
+        recordsProcessed: 0,
+        recordsSkipped: 0,
+        firstDate: '',
+        lastDate: '',
+        detectedSplits: [],
+        volumeAnomalies: [],
+        gaps: [],
+        priceAnomalies: [],
+      },
+      success: false,
+      errors: [
+        {
+          type: 'PARSING_ERROR',
+          message: `Errore durante trasformazione: ${(error as Error).message}`,
+          timestamp: new Date().toISOString(),
+          severity: 'CRITICAL',
         },
+      ],
+      warnings: [],
+      performance: {
+        processingTimeMs: Date.now() - startTime,
+        recordsProcessed: 0,
+        recordsSkipped: 0,
+        cacheHit: false,
+      },
+    };
+  }
+
+  /**
+   * Assegna i DataQualityFlags a ogni record:
+   * buchi temporali rispetto alla barra precedente, volume sospetto,
+   * variazioni di prezzo anomale non spiegate da uno split
+   */
+  private applyQualityFlags(
+    data: unknown[],
+    timeframe: string,
+    volumeAnomalyDates: Set<string>,
+    splitDates: Set<string>
+  ): { flaggedData: unknown[]; gaps: DataGap[]; priceAnomalies: string[] } {
+    const gaps: DataGap[] = [];
+    const priceAnomalies: string[] = [];
+    const maxGapDays = MAX_GAP_DAYS[timeframe] ?? MAX_GAP_DAYS.daily;
+
+    const sorted = [...data].sort((a, b) =>
+      String((a as Record<string, unknown>).date).localeCompare(
+        String((b as Record<string, unknown>).date)
+      )
+    );
+
+    const flaggedData = sorted.map((item, i) => {
+      const record = item as Record<string, unknown>;
+      const date = String(record.date);
+      const previous =
+        i > 0 ? (sorted[i - 1] as Record<string, unknown>) : null;
+
+      let hasGaps = false;
+      let priceAnomaly = false;
+
+      if (previous) {
+        const calendarDays = Math.round(
+          (new Date(date).getTime() -
+            new Date(String(previous.date)).getTime()) /
+            DAY_MS
+        );
+        if (calendarDays > maxGapDays) {
+          hasGaps = true;
+          gaps.push({ from: String(previous.date), to: date, calendarDays });
+        }
+
+        const previousClose = Number(previous.close);
+        const change = Math.abs(Number(record.close) / previousClose - 1);
+        if (
+          previousClose > 0 &&
+          change > this.config.priceJumpThreshold &&
+          !splitDates.has(date)
+        ) {
+          priceAnomaly = true;
+          priceAnomalies.push(date);
+        }
+      }
+
+      const suspiciousVolume = volumeAnomalyDates.has(date);
+      const dateConfidence =
+        typeof record.dateConfidence === 'number' ? record.dateConfidence : 1;
+      const confidence = Math.max(
+        0,
+        dateConfidence -
+          (suspiciousVolume ? 0.1 : 0) -
+          (priceAnomaly ? 0.3 : 0) -
+          (hasGaps ? 0.1 : 0)
+      );
+
+      const dataQuality: DataQualityFlags = {
+        hasGaps,
+        suspiciousVolume,
+        priceAnomalies: priceAnomaly,
+        adjustedForSplits: record.splitAdjusted === true,
+        validated: this.config.enableDataValidation,
+        confidence,
       };
-    }
+
+      return { ...record, dataQuality };
+    });
+
+    return { flaggedData, gaps, priceAnomalies };
   }
 
   /**
@@ -300,6 +576,9 @@ export class DataTransformer {
         volume: obj.volume as number,
         volumeNormalized:
           (obj.volumeNormalized as number) || (obj.volume as number),
+        ...(typeof obj.dividendAmount === 'number' && {
+          dividendAmount: obj.dividendAmount,
+        }),
         source,
         symbol,
         timeframe,
@@ -389,9 +668,9 @@ export class DataTransformer {
 
 // ========== IMPORT COMPONENTI REALI ==========
 import { DateNormalizer } from './dateNormalizer';
-import { PriceAdjuster, PriceDataRecord } from './priceAdjuster';
+import { PriceAdjuster, PriceDataRecord, SplitEvent } from './priceAdjuster';
 import { ResponseParser } from './responseParser';
-import { VolumeDataItem, VolumeHandler } from './volumeHandler';
+import { Volu_meanomaly, VolumeDataItem, VolumeHandler } from './volumeHandler';
 
 class DataValidator {
   constructor(private qualityThreshold: number) {}
@@ -11,6 +11,7 @@ import {
   AlphaVantageError,
   AlphaVantageErrorType,
 } from './alphaVantageService';
+import { suggestSymbols } from './symbolMaster';
 
 /**
  * Enum per i tipi di errore standardizzati del sistema
@@ -136,45 +137,37 @@ export interface ErrorContext {
 }
 
 /**
- * Database di simboli comuni per fuzzy matching
+ * Fallimento di un singolo ticker in un'operazione su più simboli
  */
-const COMMON_SYMBOLS = [
-  'AAPL',
-  'MSFT',
-  'GOOGL',
-  'GOOG',
-  'AMZN',
-  'TSLA',
-  'META',
-  'NVDA',
-  'AMD',
-  'INTC',
-  'JPM',
-  'BAC',
-  'WFC',
-  'GS',
-  'MS',
-  'C',
-  'V',
-  'MA',
-  'PYPL',
-  'SQ',
-  'SPY',
-  'QQQ',
-  'IWM',
-  'DIA',
-  'VTI',
-  'VOO',
-  'BND',
-  'TLT',
-  'GLD',
-  'SLV',
-  'BTC-USD',
-  'ETH-USD',
-  'ADA-USD',
-  'DOT-USD',
-  'SOL-USD',
-];
+export interface TickerFailure {
+  symbol: string;
+  error: Error;
+}
+
+/**
+ * Dettagli opzionali di un SystemError, riportati nella risposta API
+ */
+export interface SystemErrorOptions {
+  code?: string; // codice specifico della rotta (es. MISSING_TICKERS)
+  status?: number; // status HTTP, se diverso da quello del tipo
+  retryAfter?: number; // secondi, se noto a chi lancia l'errore
+  tickers?: TickerFailure[];
+}
+
+/**
+ * Errore con tipo già noto (validazione, risposte vuote): la classificazione
+ * usa il tipo dichiarato invece di dedurlo dal messaggio
+ */
+export class SystemError extends Error {
+  constructor(
+    public readonly type: SystemErrorType,
+    message: string,
+    public readonly options: SystemErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'SystemError';
+  }
+}
 
 /**
  * Classe principale per la gestione intelligente degli errori
@@ -219,10 +212,43 @@ export class ErrorCodeHandler {
     return classifiedError;
   }
 
+  /**
+   * Status HTTP con cui esporre l'errore nelle risposte delle API: 4xx per
+   * problemi della richiesta, 429 per i limiti, 5xx per sorgenti e sistema
+   */
+  public getHttpStatus(errorType: SystemErrorType): number {
+    const statusMap: Record<SystemErrorType, number> = {
+      [SystemErrorType.RATE_LIMIT_EXCEEDED]: 429,
+      [SystemErrorType.DAILY_LIMIT_EXCEEDED]: 429,
+      [SystemErrorType.INVALID_API_KEY]: 502, // credenziali del server, non del client
+      [SystemErrorType.SYMBOL_NOT_FOUND]: 404,
+      [SystemErrorType.MARKET_CLOSED]: 503,
+      [SystemErrorType.CONNECTION_TIMEOUT]: 504,
+      [SystemErrorType.NETWORK_UNAVAILABLE]: 503,
+      [SystemErrorType.DNS_FAILURE]: 503,
+      [SystemErrorType.SERVICE_UNAVAILABLE]: 503,
+      [SystemErrorType.SERVICE_OVERLOADED]: 503,
+      [SystemErrorType.INVALID_DATA_FORMAT]: 502,
+      [SystemErrorType.NO_DATA_AVAILABLE]: 404,
+      [SystemErrorType.DATA_VALIDATION_FAILED]: 422,
+      [SystemErrorType.INVALID_REQUEST]: 400,
+      [SystemErrorType.MALFORMED_SYMBOL]: 400,
+      [SystemErrorType.UNSUPPORTED_TIMEFRAME]: 400,
+      [SystemErrorType.INTERNAL_ERROR]: 500,
+      [SystemErrorType.CACHE_ERROR]: 500,
+      [SystemErrorType.UNKNOWN_ERROR]: 500,
+    };
+
+    return statusMap[errorType] || 500;
+  }
+
   /**
    * Identifica il tipo di errore
    */
   private identifyErrorType(error: Error): SystemErrorType {
+    if (error instanceof SystemError) {
+      return error.type;
+    }
     if (error instanceof AlphaVantageError) {
       return this.mapAlphaVantageError(error.type);
     }
@@ -568,20 +594,18 @@ export class ErrorCodeHandler {
   }
 
   /**
-   * Genera suggerimenti per simboli simili
+   * Genera suggerimenti per simboli simili dall'anagrafica locale
    */
   private generateSymbolSuggestions(invalidSymbol: string): string {
     if (!invalidSymbol)
       return 'Verifica che il simbolo sia scritto correttamente (es: AAPL, MSFT, GOOGL).';
 
-    const upperSymbol = invalidSymbol.toUpperCase();
-    const suggestions = COMMON_SYMBOLS.filter(symbol => {
-      return (
-        symbol.includes(upperSymbol) ||
-        upperSymbol.includes(symbol) ||
-        this.levenshteinDistance(symbol, upperSymbol) <= 2
-      );
-    }).slice(0, 3);
+    let suggestions: string[] = [];
+    try {
+      suggestions = suggestSymbols(invalidSymbol);
+    } catch (error) {
+      console.warn('⚠️ Anagrafica simboli non disponibile:', error);
+    }
 
     if (suggestions.length > 0) {
       return `Forse intendevi: ${suggestions.join(', ')}? Verifica che il simbolo sia scritto correttamente.`;
@@ -590,31 +614,6 @@ export class ErrorCodeHandler {
     return 'Verifica che il simbolo sia scritto correttamente. Usa simboli come AAPL per Apple, MSFT per Microsoft, etc.';
   }
 
-  /**
-   * Calcola la distanza di Levenshtein per fuzzy matching
-   */
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1)
-      .fill(null)
-      .map(() => Array(str1.length + 1).fill(null));
-
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,
-          matrix[j - 1][i] + 1,
-          matrix[j - 1][i - 1] + indicator
-        );
-      }
-    }
-
-    return matrix[str2.length][str1.length];
-  }
-
   /**
    * Determina la strategia di recovery
    */
@@ -0,0 +1,150 @@
+/**
+ * STUDENT ANALYST - Error Envelope
+ * ================================
+ *
+ * Corpo delle risposte di errore del backend, ricavato dalla classificazione
+ * di ErrorCodeHandler: status HTTP, azioni suggerite, attesa consigliata
+ * prima di riprovare e motivo del fallimento di ciascun ticker. Usato sia
+ * dal middleware Express sia dai servizi che conservano gli errori (job
+ * asincroni, stato per ticker dell'analisi).
+ */
+
+import {
+  ClassifiedError,
+  ErrorCodeHandler,
+  ErrorContext,
+  ErrorSeverity,
+  SystemError,
+  SystemErrorType,
+} from './errorCodeHandler';
+
+// ========== INTERFACCE ==========
+
+export interface TickerErrorInfo {
+  symbol: string;
+  type: SystemErrorType;
+  title: string;
+  message: string;
+  detail?: string;
+  retryable: boolean;
+}
+
+export interface ApiErrorEnvelope {
+  success: false;
+  error: {
+    id: string;
+    type: SystemErrorType;
+    code: string;
+    severity: ErrorSeverity;
+    title: string;
+    message: string;
+    detail?: string; // motivo specifico, solo per gli errori della richiesta (4xx)
+    actions: string[];
+    retryable: boolean;
+    retryAfter?: number; // secondi
+    tickers?: TickerErrorInfo[];
+  };
+  timestamp: string;
+}
+
+// ========== CONVERSIONE ==========
+
+/**
+ * Converte un errore già classificato nel corpo della risposta
+ */
+export const toErrorEnvelope = (
+  classified: ClassifiedError,
+  now: number = Date.now()
+): ApiErrorEnvelope => {
+  const options = getOptions(classified);
+  const status = getResponseStatus(classified);
+  const retryAfter = getRetryAfter(classified, now);
+
+  return {
+    success: false,
+    error: {
+      id: classified.errorId,
+      type: classified.type,
+      code: options.code ?? classified.type,
+      severity: classified.severity,
+      title: classified.userMessage.title,
+      message: classified.userMessage.message,
+      ...(status < 500 && { detail: classified.originalError.message }),
+      actions: [
+        classified.recovery.requiredUserAction,
+        classified.userMessage.suggestion,
+      ].filter((action, index, all): action is string =>
+        Boolean(action && all.indexOf(action) === index)
+      ),
+      retryable: classified.retryable,
+      ...(retryAfter !== undefined && { retryAfter }),
+      ...(options.tickers?.length && {
+        tickers: options.tickers.map(({ symbol, error }) =>
+          toTickerErrorInfo(symbol, error, classified.context)
+        ),
+      }),
+    },
+    timestamp: classified.timestamp,
+  };
+};
+
+/**
+ * Errore di un singolo ticker, classificato con il simbolo nel contesto
+ */
+export const toTickerErrorInfo = (
+  symbol: string,
+  error: Error,
+  context: ErrorContext
+): TickerErrorInfo => {
+  const classified = ErrorCodeHandler.getInstance().classifyError(error, {
+    ...context,
+    symbol,
+  });
+  return {
+    symbol,
+    type: classified.type,
+    title: classified.userMessage.title,
+    message: classified.userMessage.message,
+    ...(getResponseStatus(classified) < 500 && { detail: error.message }),
+    retryable: classified.retryable,
+  };
+};
+
+/**
+ * Status HTTP dell'errore: quello dichiarato dal SystemError o quello del tipo
+ */
+export const getResponseStatus = (classified: ClassifiedError): number =>
+  getOptions(classified).status ??
+  ErrorCodeHandler.getInstance().getHttpStatus(classified.type);
+
+// ========== FUNZIONI PRIVATE ==========
+
+const getOptions = (classified: ClassifiedError) =>
+  classified.originalError instanceof SystemError
+    ? classified.originalError.options
+    : {};
+
+/**
+ * Secondi da attendere prima di riprovare: il valore dichiarato dall'errore,
+ * la mezzanotte UTC per il limite giornaliero, altrimenti il primo ritardo
+ * della strategia di retry
+ */
+const getRetryAfter = (
+  classified: ClassifiedError,
+  now: number
+): number | undefined => {
+  const declared = getOptions(classified).retryAfter;
+  if (declared !== undefined) return declared;
+
+  if (classified.type === SystemErrorType.DAILY_LIMIT_EXCEEDED) {
+    const midnight = new Date(now);
+    midnight.setUTCHours(24, 0, 0, 0);
+    return Math.ceil((midnight.getTime() - now) / 1000);
+  }
+  if (!classified.retryable) return undefined;
+
+  const delay =
+    classified.recovery.retryConfig?.baseDelay ??
+    classified.recovery.estimatedRecoveryTime;
+  return delay ? Math.ceil(delay / 1000) : undefined;
+};
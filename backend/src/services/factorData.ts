@@ -0,0 +1,278 @@
+/**
+ * Factor Data per STUDENT ANALYST
+ *
+ * Lettura dei file dei fattori (Fama-French, momentum) caricati dall'utente
+ * in formato CSV. Sono supportati i file della Kenneth French Data Library
+ * (date YYYYMMDD / YYYYMM, valori in percentuale, righe descrittive in testa
+ * e sezione annuale in coda) e CSV semplici con date ISO e valori decimali.
+ */
+
+// ========== INTERFACCE ==========
+
+export type FactorName = 'MKT_RF' | 'SMB' | 'HML' | 'RMW' | 'CMA' | 'MOM';
+
+export type FactorFrequency = 'daily' | 'monthly';
+
+export interface FactorDataset {
+  frequency: FactorFrequency;
+  factors: FactorName[]; // fattori presenti nel file (RF escluso)
+  hasRiskFree: boolean;
+  dates: string[]; // YYYY-MM-DD (giornaliero) o YYYY-MM (mensile)
+  values: Partial<Record<FactorName | 'RF', number[]>>; // decimali
+  unit: 'percent' | 'decimal'; // unità rilevata nel file originale
+}
+
+/** Rendimenti dei fattori su un intervallo (data precedente, data] */
+export type FactorObservation = Partial<Record<FactorName | 'RF', number>>;
+
+// ========== COSTANTI ==========
+
+export const FACTOR_NAMES: FactorName[] = [
+  'MKT_RF',
+  'SMB',
+  'HML',
+  'RMW',
+  'CMA',
+  'MOM',
+];
+
+/** Intestazioni accettate per ciascuna colonna (confronto case-insensitive) */
+const COLUMN_ALIASES: Record<FactorName | 'RF', string[]> = {
+  MKT_RF: ['mkt-rf', 'mkt_rf', 'mktrf', 'market', 'mkt'],
+  SMB: ['smb'],
+  HML: ['hml'],
+  RMW: ['rmw'],
+  CMA: ['cma'],
+  MOM: ['mom', 'umd', 'wml', 'momentum'],
+  RF: ['rf', 'risk-free', 'riskfree'],
+};
+
+/**
+ * Oltre questa media dei valori assoluti i dati sono in percentuale
+ * (1.2 = 1.2%): rendimenti decimali di fattori restano ben sotto 0.2
+ */
+const PERCENT_DETECTION_THRESHOLD = 0.2;
+
+const MIN_FACTOR_ROWS = 12;
+
+// ========== FUNZIONI PUBBLICHE ==========
+
+/**
+ * Legge il CSV dei fattori. Restituisce il dataset oppure un messaggio
+ * d'errore leggibile dall'utente.
+ */
+export function parseFactorCsv(
+  text: unknown
+): { dataset: FactorDataset } | { error: string } {
+  if (typeof text !== 'string' || text.trim().length === 0) {
+    return { error: 'File dei fattori vuoto o non valido' };
+  }
+
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex(line => findColumns(line) !== null);
+
+  if (headerIndex < 0) {
+    return {
+      error:
+        'Intestazione dei fattori non trovata (colonne attese: Mkt-RF, SMB, HML, RMW, CMA, Mom, RF)',
+    };
+  }
+
+  const columns = findColumns(lines[headerIndex])!;
+  const dates: string[] = [];
+  const rawValues: Partial<Record<FactorName | 'RF', number[]>> = {};
+  Object.keys(columns).forEach(name => {
+    rawValues[name as FactorName | 'RF'] = [];
+  });
+
+  let frequency: FactorFrequency | null = null;
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    const cells = splitCsvLine(line);
+    const parsedDate = parseFactorDate(cells[0] ?? '');
+
+    // La tabella finisce alla prima riga non numerica o con un formato di
+    // data diverso (es. sezione "Annual Factors" dei file mensili)
+    if (!parsedDate || (frequency && parsedDate.frequency !== frequency)) {
+      if (dates.length > 0) break;
+      continue;
+    }
+
+    const row: Array<[FactorName | 'RF', number]> = [];
+    for (const [name, index] of Object.entries(columns)) {
+      const value = Number(cells[index]);
+      if (!Number.isFinite(value) || value <= -99.99) {
+        row.length = 0;
+        break;
+      }
+      row.push([name as FactorName | 'RF', value]);
+    }
+    if (row.length === 0) continue;
+
+    frequency = parsedDate.frequency;
+    dates.push(parsedDate.date);
+    row.forEach(([name, value]) => rawValues[name]!.push(value));
+  }
+
+  if (!frequency || dates.length < MIN_FACTOR_ROWS) {
+    return {
+      error: `Il file dei fattori deve contenere almeno ${MIN_FACTOR_ROWS} righe di dati`,
+    };
+  }
+
+  // Ordina per data (alcuni export sono in ordine decrescente)
+  const order = dates
+    .map((date, index) => ({ date, index }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const sample = rawValues.MKT_RF ?? Object.values(rawValues)[0] ?? [];
+  const meanAbs =
+    sample.reduce((sum, value) => sum + Math.abs(value), 0) / sample.length;
+  const unit = meanAbs > PERCENT_DETECTION_THRESHOLD ? 'percent' : 'decimal';
+  const scale = unit === 'percent' ? 0.01 : 1;
+
+  const values: FactorDataset['values'] = {};
+  for (const [name, series] of Object.entries(rawValues)) {
+    values[name as FactorName | 'RF'] = order.map(
+      ({ index }) => series![index] * scale
+    );
+  }
+
+  return {
+    dataset: {
+      frequency,
+      factors: FACTOR_NAMES.filter(name => name in columns),
+      hasRiskFree: 'RF' in columns,
+      dates: order.map(({ date }) => date),
+      values,
+      unit,
+    },
+  };
+}
+
+/**
+ * Rendimenti dei fattori sugli intervalli tra date consecutive delle barre.
+ * Con fattori giornalieri i rendimenti vengono composti su (d[i-1], d[i]];
+ * con fattori mensili l'intervallo deve coprire esattamente un mese.
+ * Restituisce un elemento per ogni intervallo (null se non coperto).
+ */
+export function alignFactorsToIntervals(
+  dataset: FactorDataset,
+  barDates: string[]
+): Array<FactorObservation | null> {
+  const names = Object.keys(dataset.values) as Array<FactorName | 'RF'>;
+  const observations: Array<FactorObservation | null> = [];
+
+  if (dataset.frequency === 'monthly') {
+    const indexByMonth = new Map(dataset.dates.map((date, i) => [date, i]));
+
+    for (let i = 1; i < barDates.length; i++) {
+      const month = barDates[i].slice(0, 7);
+      const index = indexByMonth.get(month);
+      const coversOneMonth =
+        previousMonth(month) === barDates[i - 1].slice(0, 7);
+
+      observations.push(
+        index !== undefined && coversOneMonth
+          ? Object.fromEntries(
+              names.map(name => [name, dataset.values[name]![index]])
+            )
+          : null
+      );
+    }
+    return observations;
+  }
+
+  // Fattori giornalieri: ricerca del primo indice > data precedente
+  let cursor = 0;
+  for (let i = 1; i < barDates.length; i++) {
+    const from = barDates[i - 1];
+    const to = barDates[i];
+
+    while (cursor < dataset.dates.length && dataset.dates[cursor] <= from) {
+      cursor++;
+    }
+
+    const growth = Object.fromEntries(names.map(name => [name, 1])) as Record<
+      FactorName | 'RF',
+      number
+    >;
+    let count = 0;
+    let index = cursor;
+    while (index < dataset.dates.length && dataset.dates[index] <= to) {
+      names.forEach(name => {
+        growth[name] *= 1 + dataset.values[name]![index];
+      });
+      count++;
+      index++;
+    }
+
+    observations.push(
+      count > 0
+        ? Object.fromEntries(names.map(name => [name, growth[name] - 1]))
+        : null
+    );
+  }
+
+  return observations;
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+function splitCsvLine(line: string): string[] {
+  return line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+}
+
+/**
+ * Indici delle colonne dei fattori, oppure null se la riga non è
+ * un'intestazione (serve almeno il mercato o un fattore FF)
+ */
+function findColumns(
+  line: string
+): Partial<Record<FactorName | 'RF', number>> | null {
+  const cells = splitCsvLine(line).map(cell => cell.toLowerCase());
+  const columns: Partial<Record<FactorName | 'RF', number>> = {};
+
+  (Object.keys(COLUMN_ALIASES) as Array<FactorName | 'RF'>).forEach(name => {
+    const index = cells.findIndex(
+      (cell, i) => i > 0 && COLUMN_ALIASES[name].includes(cell)
+    );
+    if (index > 0) columns[name] = index;
+  });
+
+  const factorCount = FACTOR_NAMES.filter(name => name in columns).length;
+  return factorCount > 0 ? columns : null;
+}
+
+function parseFactorDate(
+  raw: string
+): { date: string; frequency: FactorFrequency } | null {
+  const value = raw.trim();
+
+  if (/^\d{8}$/.test(value)) {
+    return {
+      date: `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`,
+      frequency: 'daily',
+    };
+  }
+  if (/^\d{6}$/.test(value)) {
+    return {
+      date: `${value.slice(0, 4)}-${value.slice(4, 6)}`,
+      frequency: 'monthly',
+    };
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return { date: value, frequency: 'daily' };
+  }
+  if (/^\d{4}-\d{2}$/.test(value)) {
+    return { date: value, frequency: 'monthly' };
+  }
+  return null;
+}
+
+function previousMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return monthNumber === 1
+    ? `${year - 1}-12`
+    : `${year}-${String(monthNumber - 1).padStart(2, '0')}`;
+}
@@ -3,6 +3,91 @@ import {
   DataSourceManager,
   UnifiedDataResponse,
 } from './dataSourceManager';
+import {
+  PortfolioAllocationInput,
+  resolvePortfolioAllocation,
+} from './portfolioAllocation';
+import {
+  DEFAULT_REBALANCING_POLICY,
+  RebalanceEvent,
+  RebalancingPolicy,
+  simulatePortfolio,
+} from './portfolioRebalancer';
+import { WeekAnchor, getPeriodsPerYear, resampleOHLCV } from './ohlcvResampler';
+import { PriceAdjuster } from './priceAdjuster';
+import { ImportedSeries } from './priceImport';
+import { PriceSeries } from './benchmarkComparison';
+import {
+  DataQualityReport,
+  DataTransformer,
+  SupportedDataSource,
+} from './dataTransformer';
+import {
+  SystemError,
+  SystemErrorType,
+  TickerFailure,
+} from './errorCodeHandler';
+import { TickerErrorInfo, toTickerErrorInfo } from './errorEnvelope';
+
+/**
+ * Tipo di rendimento:
+ * - price: solo variazione di prezzo (close)
+ * - total: prezzo + dividendi reinvestiti (adjusted close)
+ */
+export type ReturnMode = 'price' | 'total';
+
+export const DEFAULT_RETURN_MODE: ReturnMode = 'total';
+
+/**
+ * Qualità dei dati per ticker: report del DataTransformer più la copertura
+ * rispetto al periodo richiesto
+ */
+export interface TickerDataQuality extends DataQualityReport {
+  incompleteSeries: boolean; // la serie termina prima della fine del periodo
+  lateStart: boolean; // la serie inizia dopo l'inizio del periodo (IPO, cambio simbolo)
+}
+
+/**
+ * Esito dello scaricamento di ciascun ticker richiesto: sorgente e copertura
+ * per quelli riusciti, errore classificato per quelli esclusi dall'analisi
+ */
+export interface TickerStatus {
+  symbol: string;
+  status: 'ok' | 'failed';
+  source?: DataSource | SupportedDataSource.FILE_IMPORT;
+  fallbackUsed: boolean;
+  dataPoints: number;
+  firstDate?: string;
+  lastDate?: string;
+  error?: TickerErrorInfo;
+}
+
+/**
+ * Opzioni di esecuzione per le analisi asincrone: esito di ciascun ticker
+ * appena disponibile e annullamento, passato anche ai download dei ticker
+ */
+export interface AnalysisRunOptions {
+  signal?: AbortSignal;
+  onTickerSettled?: (symbol: string, error?: Error) => void;
+}
+
+/** Giorni di calendario tollerati tra estremi del periodo e prima/ultima barra */
+const COVERAGE_TOLERANCE_DAYS = 7;
+
+/**
+ * Confronto price return vs total return per ticker
+ */
+export interface ReturnComparison {
+  symbol: string;
+  priceReturn: number;
+  totalReturn: number;
+  dividendContribution: number; // totalReturn - priceReturn
+  dividendCount?: number; // noto solo se i dividendi sono stati applicati da noi
+  adjustmentSource: 'provider' | 'dividends' | 'none';
+}
+
+/** Serie allineata alle date dell'analisi: null dove il ticker non ha dati */
+export type AlignedSeries = (number | null)[];
 
 /**
  * Interface per i dati storici processati
@@ -11,32 +96,32 @@ export interface ProcessedHistoricalData {
   symbol: string;
   dates: string[];
   prices: {
-    open: number[];
-    high: number[];
-    low: number[];
-    close: number[];
-    adjustedClose: number[];
-    volume: number[];
+    open: AlignedSeries;
+    high: AlignedSeries;
+    low: AlignedSeries;
+    close: AlignedSeries;
+    adjustedClose: AlignedSeries;
+    volume: AlignedSeries;
   };
   returns: {
-    daily: number[];
-    cumulative: number[];
-    logReturns: number[];
+    daily: AlignedSeries;
+    cumulative: AlignedSeries;
+    logReturns: AlignedSeries;
   };
   technicalIndicators: {
-    sma20: number[];
-    sma50: number[];
-    sma200: number[];
-    rsi: number[];
+    sma20: AlignedSeries;
+    sma50: AlignedSeries;
+    sma200: AlignedSeries;
+    rsi: AlignedSeries;
     bollingerBands: {
-      upper: number[];
-      middle: number[];
-      lower: number[];
+      upper: AlignedSeries;
+      middle: AlignedSeries;
+      lower: AlignedSeries;
     };
     macd: {
-      macd: number[];
-      signal: number[];
-      histogram: number[];
+      macd: AlignedSeries;
+      signal: AlignedSeries;
+      histogram: AlignedSeries;
     };
   };
   performanceMetrics: {
@@ -49,6 +134,26 @@ export interface ProcessedHistoricalData {
   };
 }
 
+/**
+ * Ultima chiusura disponibile di un simbolo (chip dei ticker)
+ */
+export interface LatestClose {
+  date: string;
+  close: number;
+  previousClose: number | null;
+  changePercent: number | null; // variazione % rispetto alla chiusura precedente
+}
+
+/** Serie pronta per l'analisi (periodo, rendimento e frequenza applicati) */
+interface PreparedSeries {
+  data: UnifiedDataResponse['data'];
+  returnComparison: ReturnComparison;
+  dataQuality: TickerDataQuality;
+}
+
+/** Giorni di calendario letti per trovare le ultime due chiusure */
+const LATEST_CLOSE_LOOKBACK_DAYS = 14;
+
 /**
  * Interface per i parametri di analisi storica
  */
@@ -57,8 +162,15 @@ export interface HistoricalAnalysisParams {
   startDate: string;
   endDate: string;
   frequency: 'daily' | 'weekly' | 'monthly';
+  weekAnchor?: WeekAnchor;
   includeTechnicalIndicators?: boolean;
   includePerformanceMetrics?: boolean;
+  allocation?: PortfolioAllocationInput;
+  rebalancing?: RebalancingPolicy;
+  returnType?: ReturnMode;
+  benchmark?: string;
+  // Serie caricate da file: sostituiscono il download per i loro simboli
+  importedSeries?: ImportedSeries[];
 }
 
 /**
@@ -68,10 +180,25 @@ export interface HistoricalAnalysisResponse {
   success: boolean;
   data: {
     historicalData: ProcessedHistoricalData[];
+    returnComparison?: ReturnComparison[];
+    benchmarkData?: PriceSeries;
     portfolioData?: {
       dates: string[];
       portfolioValue: number[];
       portfolioReturns: number[];
+      allocation: {
+        method: 'equal' | 'weights' | 'shares';
+        weights: Record<string, number>;
+        initialCapital: number;
+      };
+      rebalancing: {
+        policy: RebalancingPolicy;
+        rebalanceDates: string[];
+        rebalanceEvents: RebalanceEvent[];
+        weightsOverTime: Record<string, number[]>;
+        drift: number[];
+        totalTurnover: number;
+      };
       portfolioMetrics: {
         totalReturn: number;
         annualizedReturn: number;
@@ -101,22 +228,36 @@ export interface HistoricalAnalysisResponse {
     symbols: string[];
     period: { start: string; end: string };
     frequency: string;
+    returnType: ReturnMode;
+    benchmark?: string;
     dataPoints: number;
     processingTime: number;
+    dataQuality: TickerDataQuality[];
+    tickerStatus: TickerStatus[];
     dataSources: {
       primary: DataSource;
       fallbacks: DataSource[];
     };
   };
   error?: string;
+  failure?: Error; // errore originale, da classificare per la risposta HTTP
 }
 
+/** Ticker scaricato senza barre nel periodo richiesto */
+const noDataError = (symbol: string) =>
+  new SystemError(
+    SystemErrorType.NO_DATA_AVAILABLE,
+    `Nessun dato per ${symbol} nel periodo richiesto`
+  );
+
 /**
  * Classe per l'analisi storica avanzata
  * Aggiornata per usare DataSourceManager invece di AlphaVantageService
  */
 export class HistoricalAnalysisService {
   private dataSourceManager: DataSourceManager;
+  private priceAdjuster: PriceAdjuster;
+  private dataTransformer: DataTransformer;
 
   constructor() {
     this.dataSourceManager = new DataSourceManager({
@@ -124,48 +265,127 @@ export class HistoricalAnalysisService {
       enableFallback: true,
       logFallbacks: true,
     });
+    this.priceAdjuster = new PriceAdjuster({
+      enableSplitAdjustment: false,
+      enableDividendAdjustment: true,
+    });
+    // I dividendi sono gestiti da applyReturnType in base al tipo di rendimento
+    this.dataTransformer = new DataTransformer({
+      enableDividendAdjustment: false,
+    });
   }
 
   /**
    * Funzione principale per eseguire l'analisi storica
    */
   public async performHistoricalAnalysis(
-    params: HistoricalAnalysisParams
+    params: HistoricalAnalysisParams,
+    options: AnalysisRunOptions = {}
   ): Promise<HistoricalAnalysisResponse> {
     const startTime = Date.now();
     const fallbackSources: DataSource[] = [];
+    // Esito dei ticker già scaricati, restituito anche se l'analisi fallisce
+    const tickerStatus: TickerStatus[] = [];
+    const returnType = params.returnType ?? DEFAULT_RETURN_MODE;
 
     try {
       console.log('🚀 Avvio analisi storica per:', params.tickers);
 
-      // 1. Fetch dati storici per ogni ticker
-      const historicalDataPromises = params.tickers.map(ticker =>
-        this.fetchHistoricalData(
-          ticker,
-          params.startDate,
-          params.endDate,
-          params.frequency
-        )
-      );
-
-      const historicalDataResults = await Promise.allSettled(
-        historicalDataPromises
+      // 1. Fetch dati storici per ogni ticker (le serie importate da file
+      //    non vengono scaricate)
+      const historicalDataPromises = params.tickers.map(
+        (ticker): Promise<PreparedSeries & Partial<UnifiedDataResponse>> => {
+          const imported = params.importedSeries?.find(
+            series => series.symbol === ticker
+          );
+          const prepared = imported
+            ? this.loadImportedData(imported, params, returnType)
+            : this.fetchHistoricalData(
+                ticker,
+                params.startDate,
+                params.endDate,
+                params.frequency,
+                params.weekAnchor,
+                returnType,
+                options.signal
+              );
+          return prepared.then(
+            series => {
+              options.onTickerSettled?.(
+                ticker,
+                series.data.length === 0 ? noDataError(ticker) : undefined
+              );
+              return series;
+            },
+            error => {
+              options.onTickerSettled?.(
+                ticker,
+                error instanceof Error ? error : new Error(String(error))
+              );
+              throw error;
+            }
+          );
+        }
       );
 
-      // 2. Filtra i risultati riusciti e raccogli informazioni sui fallback
+      // Il benchmark viene scaricato in parallelo con la stessa pipeline
+      const benchmarkPromise = params.benchmark
+        ? this.fetchBenchmarkData(
+            params.benchmark,
+            params,
+            returnType,
+            options.signal
+          )
+        : Promise.resolve(undefined);
+
+      const [historicalDataResults, benchmarkData] = await Promise.all([
+        Promise.allSettled(historicalDataPromises),
+        benchmarkPromise,
+      ]);
+      options.signal?.throwIfAborted();
+
+      // 2. Filtra i risultati riusciti, raccogli informazioni sui fallback e
+      //    l'esito di ciascun ticker
+      const failures: TickerFailure[] = [];
       const successfulData = historicalDataResults
         .map((result, index) => {
+          const symbol = params.tickers[index];
+          if (result.status === 'fulfilled' && result.value.data.length === 0) {
+            failures.push({ symbol, error: noDataError(symbol) });
+            return null;
+          }
           if (result.status === 'fulfilled') {
             const data = result.value;
             if (data.fallbackUsed) {
               fallbackSources.push(data.source);
             }
-            return { ticker: params.tickers[index], data: data.data };
+            tickerStatus.push({
+              symbol,
+              status: 'ok',
+              source: data.source ?? SupportedDataSource.FILE_IMPORT,
+              fallbackUsed: Boolean(data.fallbackUsed),
+              dataPoints: data.data.length,
+              firstDate: data.data[0].date,
+              lastDate: data.data[data.data.length - 1].date,
+            });
+            return {
+              ticker: symbol,
+              data: data.data,
+              returnComparison: data.returnComparison,
+              dataQuality: data.dataQuality,
+            };
           } else {
             console.error(
-              `❌ Errore nel fetch dati per ${params.tickers[index]}:`,
+              `❌ Errore nel fetch dati per ${symbol}:`,
               result.reason
             );
+            failures.push({
+              symbol,
+              error:
+                result.reason instanceof Error
+                  ? result.reason
+                  : new Error(String(result.reason)),
+            });
             return null;
           }
         })
@@ -181,10 +401,35 @@ export class HistoricalAnalysisService {
           volume: number;
           timestamp?: string;
         }>;
+        returnComparison: ReturnComparison;
+        dataQuality: TickerDataQuality;
       }>;
 
+      const errorContext = {
+        operation: 'performHistoricalAnalysis',
+        apiService: 'historical-analysis',
+      };
+      failures.forEach(({ symbol, error }) =>
+        tickerStatus.push({
+          symbol,
+          status: 'failed',
+          fallbackUsed: false,
+          dataPoints: 0,
+          error: toTickerErrorInfo(symbol, error, errorContext),
+        })
+      );
+      // Stesso ordine dei ticker richiesti
+      tickerStatus.sort(
+        (a, b) =>
+          params.tickers.indexOf(a.symbol) - params.tickers.indexOf(b.symbol)
+      );
+
       if (successfulData.length === 0) {
-        throw new Error('Nessun dato valido ottenuto per i ticker richiesti');
+        throw new SystemError(
+          SystemErrorType.NO_DATA_AVAILABLE,
+          'Nessun dato valido ottenuto per i ticker richiesti',
+          { tickers: failures }
+        );
       }
 
       // 3. Processa i dati storici (prima passata, per raccogliere tutte le date)
@@ -193,6 +438,7 @@ export class HistoricalAnalysisService {
           return this.processHistoricalData(ticker, data, params);
         })
       );
+      options.signal?.throwIfAborted();
 
       // Calcola l'unione di tutte le date presenti in almeno una serie
       const allDatesSet = new Set<string>();
@@ -207,11 +453,17 @@ export class HistoricalAnalysisService {
           return this.processHistoricalData(ticker, data, params, allDates);
         })
       );
+      options.signal?.throwIfAborted();
 
       // 4. Calcola dati del portafoglio se ci sono più ticker
       let portfolioData = undefined;
       if (processedData.length > 1) {
-        portfolioData = this.calculatePortfolioData(processedData);
+        portfolioData = this.calculatePortfolioData(
+          processedData,
+          params.allocation,
+          params.rebalancing,
+          getPeriodsPerYear(params.frequency)
+        );
       }
 
       // 5. Identifica fasi di mercato
@@ -223,6 +475,8 @@ export class HistoricalAnalysisService {
         success: true,
         data: {
           historicalData: processedData,
+          returnComparison: successfulData.map(item => item.returnComparison),
+          benchmarkData,
           portfolioData,
           marketPhases,
         },
@@ -231,11 +485,15 @@ export class HistoricalAnalysisService {
           symbols: params.tickers,
           period: { start: params.startDate, end: params.endDate },
           frequency: params.frequency,
+          returnType,
+          benchmark: params.benchmark,
           dataPoints: processedData.reduce(
             (sum, data) => sum + data.dates.length,
             0
           ),
           processingTime,
+          dataQuality: successfulData.map(item => item.dataQuality),
+          tickerStatus,
           dataSources: {
             primary: DataSource.YAHOO_FINANCE,
             fallbacks: [...new Set(fallbackSources)],
@@ -254,27 +512,42 @@ export class HistoricalAnalysisService {
           symbols: params.tickers,
           period: { start: params.startDate, end: params.endDate },
           frequency: params.frequency,
+          returnType,
           dataPoints: 0,
           processingTime: Date.now() - startTime,
+          dataQuality: [],
+          tickerStatus,
           dataSources: {
             primary: DataSource.YAHOO_FINANCE,
             fallbacks: fallbackSources,
           },
         },
         error: error instanceof Error ? error.message : 'Errore sconosciuto',
+        ...(error instanceof Error && { failure: error }),
       };
     }
   }
 
   /**
    * Fetch dati storici usando DataSourceManager
+   * Le barre giornaliere vengono ricampionate alla frequenza richiesta
+   * prima del calcolo di rendimenti e indicatori; l'adjusted close viene
+   * impostato in base al tipo di rendimento richiesto (price/total)
    */
   private async fetchHistoricalData(
     symbol: string,
     startDate: string,
     endDate: string,
-    frequency: string
-  ): Promise<UnifiedDataResponse> {
+    frequency: HistoricalAnalysisParams['frequency'],
+    weekAnchor?: WeekAnchor,
+    returnType: ReturnMode = DEFAULT_RETURN_MODE,
+    signal?: AbortSignal
+  ): Promise<
+    UnifiedDataResponse & {
+      returnComparison: ReturnComparison;
+      dataQuality: TickerDataQuality;
+    }
+  > {
     try {
       const response = await this.dataSourceManager.getStockData(
         symbol,
@@ -283,27 +556,341 @@ export class HistoricalAnalysisService {
           startDate,
           endDate,
           useCache: true,
+          signal,
         }
       );
+      // Annullata durante il download: niente richiesta dei dividendi
+      signal?.throwIfAborted();
 
-      // Filtra i dati per il periodo richiesto
-      const filteredData = response.data.filter(item => {
-        const itemDate = new Date(item.date);
-        const start = new Date(startDate);
-        const end = new Date(endDate);
-        return itemDate >= start && itemDate <= end;
-      });
+      const prepared = await this.prepareSeries(
+        symbol,
+        response.data,
+        response.source === DataSource.ALPHA_VANTAGE
+          ? SupportedDataSource.ALPHA_VANTAGE
+          : SupportedDataSource.YAHOO_FINANCE,
+        { startDate, endDate, frequency, weekAnchor, returnType }
+      );
 
-      return {
-        ...response,
-        data: filteredData,
-      };
+      return { ...response, ...prepared };
     } catch (error) {
       console.error(`❌ Errore nel fetch dati per ${symbol}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Serie importata da file (CSV/XLSX): stessa pipeline dei dati scaricati,
+   * senza richieste alle sorgenti remote (niente dividendi da Yahoo)
+   */
+  private async loadImportedData(
+    series: ImportedSeries,
+    params: HistoricalAnalysisParams,
+    returnType: ReturnMode
+  ): Promise<PreparedSeries> {
+    const prepared = await this.prepareSeries(
+      series.symbol,
+      series.data,
+      SupportedDataSource.FILE_IMPORT,
+      {
+        startDate: params.startDate,
+        endDate: params.endDate,
+        frequency: params.frequency,
+        weekAnchor: params.weekAnchor,
+        returnType,
+        fetchDividends: false,
+      }
+    );
+
+    if (prepared.data.length === 0) {
+      throw new Error(
+        `La serie importata ${series.symbol} non ha dati nel periodo richiesto`
+      );
+    }
+    return prepared;
+  }
+
+  /**
+   * Filtra il periodo, standardizza, applica il tipo di rendimento e
+   * ricampiona le barre giornaliere alla frequenza richiesta
+   */
+  private async prepareSeries(
+    symbol: string,
+    rawData: UnifiedDataResponse['data'],
+    source: SupportedDataSource,
+    options: {
+      startDate: string;
+      endDate: string;
+      frequency: HistoricalAnalysisParams['frequency'];
+      weekAnchor?: WeekAnchor;
+      returnType: ReturnMode;
+      fetchDividends?: boolean;
+    }
+  ): Promise<PreparedSeries> {
+    const { startDate, endDate } = options;
+
+    // Filtra i dati per il periodo richiesto
+    const filteredData = rawData.filter(item => {
+      const itemDate = new Date(item.date);
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+      return itemDate >= start && itemDate <= end;
+    });
+
+    // Standardizza la serie (date, splits, volume, flag di qualità)
+    const { data: standardData, dataQuality } = await this.standardizeData(
+      symbol,
+      filteredData,
+      source,
+      startDate,
+      endDate
+    );
+
+    // Applica il tipo di rendimento sulle barre giornaliere
+    const { data: adjustedData, returnComparison } = await this.applyReturnType(
+      symbol,
+      standardData,
+      options.returnType,
+      startDate,
+      endDate,
+      options.fetchDividends ?? true
+    );
+
+    // Ricampiona a barre settimanali/mensili (Yahoo restituisce solo daily)
+    const resampledData = resampleOHLCV(adjustedData, options.frequency, {
+      weekAnchor: options.weekAnchor,
+    });
+
+    return { data: resampledData, returnComparison, dataQuality };
+  }
+
+  /**
+   * Serie dei prezzi del benchmark (stessa frequenza e tipo di rendimento dei
+   * ticker). Un errore non interrompe l'analisi: il confronto viene omesso.
+   */
+  private async fetchBenchmarkData(
+    symbol: string,
+    params: HistoricalAnalysisParams,
+    returnType: ReturnMode,
+    signal?: AbortSignal
+  ): Promise<PriceSeries | undefined> {
+    try {
+      const { data } = await this.fetchHistoricalData(
+        symbol,
+        params.startDate,
+        params.endDate,
+        params.frequency,
+        params.weekAnchor,
+        returnType,
+        signal
+      );
+
+      return {
+        symbol,
+        dates: data.map(item => item.date),
+        prices: data.map(item => item.adjustedClose ?? item.close),
+      };
+    } catch (error) {
+      console.warn(`⚠️ Benchmark ${symbol} non disponibile:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Passa la serie nel DataTransformer e calcola la copertura del periodo.
+   * Se la trasformazione fallisce restituisce i dati originali.
+   */
+  private async standardizeData(
+    symbol: string,
+    data: UnifiedDataResponse['data'],
+    source: SupportedDataSource,
+    startDate: string,
+    endDate: string
+  ): Promise<{
+    data: UnifiedDataResponse['data'];
+    dataQuality: TickerDataQuality;
+  }> {
+    const result = await this.dataTransformer.transformRecords(
+      data,
+      source,
+      symbol,
+      'daily'
+    );
+
+    if (result.warnings.length > 0) {
+      console.warn(`⚠️ Qualità dati ${symbol}:`, result.warnings);
+    }
+
+    const standardData =
+      result.success && result.data.length > 0
+        ? result.data.map(item => ({
+            date: item.date,
+            open: item.open,
+            high: item.high,
+            low: item.low,
+            close: item.close,
+            adjustedClose: item.adjustedClose,
+            volume: item.volume,
+            ...(item.dividendAmount !== undefined && {
+              dividendAmount: item.dividendAmount,
+            }),
+          }))
+        : data;
+
+    if (!result.success) {
+      console.warn(
+        `⚠️ Trasformazione fallita per ${symbol}, uso dati originali:`,
+        result.errors
+      );
+    }
+
+    const report = result.qualityReport;
+    const daysBetween = (from: string, to: string) =>
+      (new Date(to).getTime() - new Date(from).getTime()) /
+      (24 * 60 * 60 * 1000);
+    const today = new Date().toISOString().split('T')[0];
+    const periodEnd = endDate < today ? endDate : today;
+
+    return {
+      data: standardData,
+      dataQuality: {
+        ...report,
+        incompleteSeries:
+          report.lastDate !== '' &&
+          daysBetween(report.lastDate, periodEnd) > COVERAGE_TOLERANCE_DAYS,
+        lateStart:
+          report.firstDate !== '' &&
+          daysBetween(startDate, report.firstDate) > COVERAGE_TOLERANCE_DAYS,
+      },
+    };
+  }
+
+  /**
+   * Imposta l'adjusted close secondo il tipo di rendimento.
+   * In modalità total usa l'adjusted close della sorgente se presente,
+   * altrimenti recupera i dividendi e applica l'aggiustamento backward.
+   * In modalità price l'adjusted close coincide con il close.
+   */
+  private async applyReturnType(
+    symbol: string,
+    data: UnifiedDataResponse['data'],
+    returnType: ReturnMode,
+    startDate: string,
+    endDate: string,
+    fetchDividends = true
+  ): Promise<{
+    data: UnifiedDataResponse['data'];
+    returnComparison: ReturnComparison;
+  }> {
+    const sortedData = [...data].sort((a, b) => a.date.localeCompare(b.date));
+
+    if (returnType === 'price') {
+      const priceData = sortedData.map(item => ({
+        ...item,
+        adjustedClose: item.close,
+      }));
+      return {
+        data: priceData,
+        returnComparison: this.compareReturns(symbol, priceData, 'none'),
+      };
+    }
+
+    const hasProviderAdjustment = sortedData.some(
+      item =>
+        item.adjustedClose !== undefined &&
+        Math.abs(item.adjustedClose - item.close) > 1e-9
+    );
+    if (hasProviderAdjustment || sortedData.length === 0) {
+      return {
+        data: sortedData,
+        returnComparison: this.compareReturns(symbol, sortedData, 'provider'),
+      };
+    }
+
+    let dividends = this.priceAdjuster.extractDividendEvents(
+      sortedData,
+      symbol
+    );
+    if (dividends.length === 0 && fetchDividends) {
+      try {
+        dividends = await this.dataSourceManager.getDividendEvents(symbol, {
+          startDate,
+          endDate,
+        });
+      } catch (error) {
+        console.warn(`⚠️ Dividendi non disponibili per ${symbol}:`, error);
+      }
+    }
+
+    if (dividends.length === 0) {
+      return {
+        data: sortedData,
+        returnComparison: this.compareReturns(symbol, sortedData, 'none', 0),
+      };
+    }
+
+    const adjustedData = (await this.priceAdjuster.adjustForDividends(
+      sortedData,
+      symbol,
+      dividends
+    )) as UnifiedDataResponse['data'];
+
+    const validation = this.priceAdjuster.validateAdjustments(
+      sortedData,
+      adjustedData,
+      dividends
+    );
+    if (!validation.isValid) {
+      console.warn(
+        `⚠️ Aggiustamento dividendi incoerente per ${symbol}:`,
+        validation.issues
+      );
+    }
+
+    return {
+      data: adjustedData,
+      returnComparison: this.compareReturns(
+        symbol,
+        adjustedData,
+        'dividends',
+        dividends.filter(
+          d =>
+            d.exDate > sortedData[0].date &&
+            d.exDate <= sortedData[sortedData.length - 1].date
+        ).length
+      ),
+    };
+  }
+
+  /**
+   * Rendimento di prezzo e totale sull'intero periodo
+   */
+  private compareReturns(
+    symbol: string,
+    data: UnifiedDataResponse['data'],
+    adjustmentSource: ReturnComparison['adjustmentSource'],
+    dividendCount?: number
+  ): ReturnComparison {
+    const first = data[0];
+    const last = data[data.length - 1];
+    const periodReturn = (start?: number, end?: number) =>
+      start && end ? end / start - 1 : 0;
+
+    const priceReturn = periodReturn(first?.close, last?.close);
+    const totalReturn = periodReturn(
+      first?.adjustedClose ?? first?.close,
+      last?.adjustedClose ?? last?.close
+    );
+
+    return {
+      symbol,
+      priceReturn,
+      totalReturn,
+      dividendContribution: totalReturn - priceReturn,
+      ...(dividendCount !== undefined && { dividendCount }),
+      adjustmentSource,
+    };
+  }
+
   /**
    * Allinea una serie di dati a tutte le date richieste, riempiendo i buchi con null
    */
@@ -393,15 +980,17 @@ export class HistoricalAnalysisService {
     if (params.includePerformanceMetrics) {
       performanceMetrics = this.calculatePerformanceMetrics(
         returns,
-        prices.adjustedClose
+        prices.adjustedClose,
+        getPeriodsPerYear(params.frequency)
       );
     }
 
     // Se allDates è passato, allinea tutte le serie
     let alignedDates = dates;
-    let alignedPrices = prices;
-    let alignedReturns = returns;
-    let alignedTechnicalIndicators = technicalIndicators;
+    let alignedPrices: ProcessedHistoricalData['prices'] = prices;
+    let alignedReturns: ProcessedHistoricalData['returns'] = returns;
+    let alignedTechnicalIndicators: ProcessedHistoricalData['technicalIndicators'] =
+      technicalIndicators;
     if (allDates && allDates.length > 0) {
       alignedDates = allDates;
       alignedPrices = {
@@ -701,7 +1290,8 @@ export class HistoricalAnalysisService {
    */
   private calculatePerformanceMetrics(
     returns: { daily: number[]; cumulative: number[] },
-    prices: number[]
+    prices: number[],
+    periodsPerYear: number = 252
   ) {
     if (returns.daily.length === 0) {
       return {
@@ -716,7 +1306,7 @@ export class HistoricalAnalysisService {
 
     const totalReturn = returns.cumulative[returns.cumulative.length - 1];
     const annualizedReturn =
-      Math.pow(1 + totalReturn, 252 / returns.daily.length) - 1;
+      Math.pow(1 + totalReturn, periodsPerYear / returns.daily.length) - 1;
 
     const meanReturn =
       returns.daily.reduce((a, b) => a + b, 0) / returns.daily.length;
@@ -725,7 +1315,7 @@ export class HistoricalAnalysisService {
         (sum, ret) => sum + Math.pow(ret - meanReturn, 2),
         0
       ) / returns.daily.length;
-    const volatility = Math.sqrt(variance * 252);
+    const volatility = Math.sqrt(variance * periodsPerYear);
 
     const riskFreeRate = 0.02; // 2% annual risk-free rate
     const sharpeRatio = (annualizedReturn - riskFreeRate) / volatility;
@@ -766,50 +1356,64 @@ export class HistoricalAnalysisService {
 
   /**
    * Calcola dati del portafoglio
+   * Le quote di ciascun ticker sono acquistate alla prima data comune in base
+   * ai pesi risolti e ribilanciate secondo la politica richiesta
    */
-  private calculatePortfolioData(processedData: ProcessedHistoricalData[]) {
-    // Trova date comuni
+  private calculatePortfolioData(
+    processedData: ProcessedHistoricalData[],
+    allocation?: PortfolioAllocationInput,
+    rebalancing: RebalancingPolicy = DEFAULT_REBALANCING_POLICY,
+    periodsPerYear: number = 252
+  ) {
+    // Mappa data -> prezzo valido per ogni ticker (le serie allineate contengono null)
+    const priceMaps = processedData.map(data => {
+      const map = new Map<string, number>();
+      data.dates.forEach((date, index) => {
+        const price = data.prices.adjustedClose[index];
+        if (price !== null && price !== undefined && price > 0) {
+          map.set(date, price);
+        }
+      });
+      return map;
+    });
+
+    // Trova date comuni in cui tutti i ticker hanno un prezzo
     const allDates = processedData.map(data => data.dates);
-    const commonDates = this.findCommonDates(allDates);
+    const commonDates = this.findCommonDates(allDates).filter(date =>
+      priceMaps.every(map => map.has(date))
+    );
 
     if (commonDates.length === 0) {
       return undefined;
     }
 
-    // Calcola valore portafoglio per ogni data
-    const portfolioValue: number[] = [];
-    const portfolioReturns: number[] = [];
-
-    // Assumi pesi uguali per semplicità
-    const weights = processedData.map(() => 1 / processedData.length);
-
-    for (let i = 0; i < commonDates.length; i++) {
-      const date = commonDates[i];
-      let totalValue = 0;
-
-      for (let j = 0; j < processedData.length; j++) {
-        const dataIndex = processedData[j].dates.indexOf(date);
-        if (dataIndex !== -1) {
-          totalValue +=
-            processedData[j].prices.adjustedClose[dataIndex] * weights[j];
-        }
-      }
+    const symbols = processedData.map(data => data.symbol);
+    const initialPrices = priceMaps.map(map => map.get(commonDates[0])!);
+    const resolvedAllocation = resolvePortfolioAllocation(
+      symbols,
+      initialPrices,
+      allocation
+    );
 
-      portfolioValue.push(totalValue);
+    // Simula il portafoglio secondo la politica di ribilanciamento
+    const simulation = simulatePortfolio({
+      dates: commonDates,
+      symbols,
+      prices: priceMaps.map(map => commonDates.map(date => map.get(date)!)),
+      targetWeights: resolvedAllocation.weights,
+      initialCapital: resolvedAllocation.initialCapital,
+      policy: rebalancing,
+    });
 
-      if (i > 0) {
-        const return_ =
-          (totalValue - portfolioValue[i - 1]) / portfolioValue[i - 1];
-        portfolioReturns.push(return_);
-      }
-    }
+    const portfolioValue = simulation.values;
+    const portfolioReturns = simulation.returns;
 
     // Calcola metriche del portafoglio
     const totalReturn =
       (portfolioValue[portfolioValue.length - 1] - portfolioValue[0]) /
       portfolioValue[0];
     const annualizedReturn =
-      Math.pow(1 + totalReturn, 252 / portfolioReturns.length) - 1;
+      Math.pow(1 + totalReturn, periodsPerYear / portfolioReturns.length) - 1;
 
     const meanReturn =
       portfolioReturns.reduce((a, b) => a + b, 0) / portfolioReturns.length;
@@ -818,7 +1422,7 @@ export class HistoricalAnalysisService {
         (sum, ret) => sum + Math.pow(ret - meanReturn, 2),
         0
       ) / portfolioReturns.length;
-    const volatility = Math.sqrt(variance * 252);
+    const volatility = Math.sqrt(variance * periodsPerYear);
 
     const riskFreeRate = 0.02;
     const sharpeRatio = (annualizedReturn - riskFreeRate) / volatility;
@@ -829,6 +1433,15 @@ export class HistoricalAnalysisService {
       dates: commonDates,
       portfolioValue,
       portfolioReturns,
+      allocation: resolvedAllocation,
+      rebalancing: {
+        policy: rebalancing,
+        rebalanceDates: simulation.rebalanceEvents.map(event => event.date),
+        rebalanceEvents: simulation.rebalanceEvents,
+        weightsOverTime: simulation.weightsOverTime,
+        drift: simulation.drift,
+        totalTurnover: simulation.totalTurnover,
+      },
       portfolioMetrics: {
         totalReturn,
         annualizedReturn,
@@ -856,8 +1469,13 @@ export class HistoricalAnalysisService {
    * Identifica fasi di mercato
    */
   private identifyMarketPhases(data: ProcessedHistoricalData) {
-    const prices = data.prices.adjustedClose;
-    const dates = data.dates;
+    // Solo le date in cui il ticker ha un prezzo (la serie è allineata)
+    const observed = data.dates.flatMap((date, i) => {
+      const price = data.prices.adjustedClose[i];
+      return price !== null && Number.isFinite(price) ? [{ date, price }] : [];
+    });
+    const prices = observed.map(point => point.price);
+    const dates = observed.map(point => point.date);
 
     if (prices.length < 20) {
       return {
@@ -942,6 +1560,50 @@ export class HistoricalAnalysisService {
     return { bullMarkets, bearMarkets, consolidation };
   }
 
+  /**
+   * Ultima chiusura giornaliera del simbolo, letta tramite il DataSourceManager
+   * (cache inclusa: la chiave cambia una volta al giorno); con storeOnly solo
+   * dalle barre già salvate, senza download. Restituisce null se non ci sono
+   * barre nel periodo.
+   */
+  public async getLatestClose(
+    symbol: string,
+    options: { storeOnly?: boolean } = {}
+  ): Promise<LatestClose | null> {
+    const end = new Date();
+    const start = new Date(
+      end.getTime() - LATEST_CLOSE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000
+    );
+    const startDate = start.toISOString().split('T')[0];
+    const endDate = end.toISOString().split('T')[0];
+
+    const data = options.storeOnly
+      ? await this.dataSourceManager.getStoredBars(symbol, startDate, endDate)
+      : (
+          await this.dataSourceManager.getStockData(symbol, 'daily', {
+            startDate,
+            endDate,
+            useCache: true,
+          })
+        ).data;
+
+    const bars = data
+      .filter(bar => Number.isFinite(bar.close) && bar.close > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const last = bars[bars.length - 1];
+    if (!last) return null;
+
+    const previous = bars[bars.length - 2];
+    return {
+      date: last.date,
+      close: last.close,
+      previousClose: previous ? previous.close : null,
+      changePercent: previous
+        ? ((last.close - previous.close) / previous.close) * 100
+        : null,
+    };
+  }
+
   /**
    * Health check del servizio
    */
@@ -0,0 +1,586 @@
+/**
+ * Market Data Store per STUDENT ANALYST
+ *
+ * Archivio persistente delle barre OHLCV scaricate, indicizzate per
+ * simbolo/intervallo/data. Oltre alle barre tiene la "copertura": gli
+ * intervalli di date già richiesti alle sorgenti, così weekend e festivi
+ * (che non hanno barre) non vengono riscaricati. Ogni barra conserva la
+ * sorgente e l'ora del download.
+ *
+ * Backend disponibili (MARKET_DATA_STORE):
+ * - file (predefinito): un file JSON per serie in MARKET_DATA_DIR
+ *   (backend/data/market-data); in memoria restano solo le ultime
+ *   MARKET_DATA_CACHE_SERIES serie usate
+ * - postgres: tabelle market_data_bars/market_data_coverage su DATABASE_URL
+ * - memory: solo in memoria, per i test
+ * - none: disattivato, ogni richiesta va alle sorgenti remote
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Pool } from 'pg';
+
+// ========== INTERFACCE ==========
+
+export type MarketDataStoreKind = 'file' | 'postgres' | 'memory';
+
+export interface StoredBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  adjustedClose?: number;
+  volume: number;
+  dividendAmount?: number;
+  source: string; // sorgente che ha fornito la barra
+  fetchedAt: string; // ISO timestamp del download
+}
+
+/** Intervallo di date ISO (YYYY-MM-DD), estremi inclusi */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface MarketDataStore {
+  readonly kind: MarketDataStoreKind;
+  getBars(
+    symbol: string,
+    interval: string,
+    range: DateRange
+  ): Promise<StoredBar[]>;
+  getCoverage(symbol: string, interval: string): Promise<DateRange[]>;
+  /** Salva le barre (sovrascrivendo le date già presenti) e la copertura */
+  saveBars(
+    symbol: string,
+    interval: string,
+    bars: StoredBar[],
+    covered: DateRange | null
+  ): Promise<void>;
+  /** Elimina barre e copertura della serie (es. rettifiche non più valide) */
+  deleteSeries(symbol: string, interval: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface SeriesRecord {
+  symbol: string;
+  interval: string;
+  coverage: DateRange[];
+  bars: StoredBar[]; // ordinate per data
+}
+
+// ========== COSTANTI ==========
+
+const DEFAULT_STORE_DIR = path.resolve(__dirname, '../../data/market-data');
+
+// Serie tenute in memoria dallo store su file (le meno usate di recente
+// vengono rilette da disco)
+const DEFAULT_CACHED_SERIES = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let defaultStore: MarketDataStore | null | undefined;
+
+// ========== FUNZIONI PUBBLICHE ==========
+
+/** Somma (o sottrae) giorni di calendario a una data ISO */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** Unisce intervalli sovrapposti o contigui, ordinati per data di inizio */
+export function mergeRanges(ranges: DateRange[]): DateRange[] {
+  const sorted = ranges
+    .filter(range => range.start <= range.end)
+    .sort((a, b) => a.start.localeCompare(b.start));
+  const merged: DateRange[] = [];
+
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= addDays(last.end, 1)) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  });
+  return merged;
+}
+
+/** Parti dell'intervallo richiesto non ancora coperte dallo store */
+export function missingRanges(
+  coverage: DateRange[],
+  range: DateRange
+): DateRange[] {
+  const missing: DateRange[] = [];
+  let cursor = range.start;
+
+  for (const covered of mergeRanges(coverage)) {
+    if (covered.end < cursor) continue;
+    if (covered.start > range.end) break;
+    if (covered.start > cursor) {
+      missing.push({ start: cursor, end: addDays(covered.start, -1) });
+    }
+    cursor = addDays(covered.end, 1);
+    if (cursor > range.end) return missing;
+  }
+
+  if (cursor <= range.end) missing.push({ start: cursor, end: range.end });
+  return missing;
+}
+
+/** Vero se l'intervallo contiene almeno un giorno feriale */
+export function hasWeekdays(range: DateRange): boolean {
+  for (
+    let date = range.start, i = 0;
+    date <= range.end && i < 7;
+    date = addDays(date, 1), i++
+  ) {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (day !== 0 && day !== 6) return true;
+  }
+  return false;
+}
+
+/**
+ * Crea lo store richiesto. Senza argomento legge MARKET_DATA_STORE; nei test
+ * (NODE_ENV=test) il predefinito è lo store in memoria per non scrivere su disco.
+ * Restituisce null se lo store è disattivato.
+ */
+export function createMarketDataStore(
+  kind: string = process.env.MARKET_DATA_STORE ||
+    (process.env.NODE_ENV === 'test' ? 'memory' : 'file')
+): MarketDataStore | null {
+  switch (kind.toLowerCase()) {
+    case 'file':
+      return new FileMarketDataStore(
+        process.env.MARKET_DATA_DIR || DEFAULT_STORE_DIR,
+        Number(process.env.MARKET_DATA_CACHE_SERIES) || DEFAULT_CACHED_SERIES
+      );
+    case 'postgres':
+      if (!process.env.DATABASE_URL) {
+        throw new Error('MARKET_DATA_STORE=postgres richiede DATABASE_URL');
+      }
+      return new PostgresMarketDataStore(process.env.DATABASE_URL);
+    case 'memory':
+      return new MemoryMarketDataStore();
+    case 'none':
+    case 'off':
+      return null;
+    default:
+      throw new Error(`MARKET_DATA_STORE non valido: ${kind}`);
+  }
+}
+
+/** Store condiviso da tutti i DataSourceManager del processo */
+export function getMarketDataStore(): MarketDataStore | null {
+  if (defaultStore === undefined) {
+    defaultStore = createMarketDataStore();
+    if (defaultStore) {
+      console.log(`💾 Market data store attivo: ${defaultStore.kind}`);
+    }
+  }
+  return defaultStore;
+}
+
+// ========== IMPLEMENTAZIONI ==========
+
+/** Store in memoria: base anche dello store su file */
+export class MemoryMarketDataStore implements MarketDataStore {
+  public readonly kind: MarketDataStoreKind = 'memory';
+  protected readonly series = new Map<string, SeriesRecord>();
+
+  public async getBars(
+    symbol: string,
+    interval: string,
+    range: DateRange
+  ): Promise<StoredBar[]> {
+    const record = await this.load(symbol, interval);
+    return record.bars
+      .filter(bar => bar.date >= range.start && bar.date <= range.end)
+      .map(bar => ({ ...bar }));
+  }
+
+  public async getCoverage(
+    symbol: string,
+    interval: string
+  ): Promise<DateRange[]> {
+    const record = await this.load(symbol, interval);
+    return record.coverage.map(range => ({ ...range }));
+  }
+
+  public async saveBars(
+    symbol: string,
+    interval: string,
+    bars: StoredBar[],
+    covered: DateRange | null
+  ): Promise<void> {
+    const record = await this.load(symbol, interval);
+    const byDate = new Map(record.bars.map(bar => [bar.date, bar]));
+    bars.forEach(bar => byDate.set(bar.date, { ...bar }));
+
+    record.bars = Array.from(byDate.values()).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+    if (covered) record.coverage = mergeRanges([...record.coverage, covered]);
+    await this.persist(record);
+  }
+
+  public async deleteSeries(symbol: string, interval: string): Promise<void> {
+    this.series.delete(seriesKey(symbol, interval));
+    await this.remove(symbol, interval);
+  }
+
+  public async close(): Promise<void> {
+    this.series.clear();
+  }
+
+  protected async load(
+    symbol: string,
+    interval: string
+  ): Promise<SeriesRecord> {
+    const key = seriesKey(symbol, interval);
+    let record = this.series.get(key);
+    if (!record) {
+      record = { symbol, interval, coverage: [], bars: [] };
+      this.series.set(key, record);
+    }
+    return record;
+  }
+
+  protected async persist(_record: SeriesRecord): Promise<void> {
+    // In memoria non c'è nulla da salvare
+  }
+
+  protected async remove(_symbol: string, _interval: string): Promise<void> {
+    // In memoria non c'è nulla da eliminare
+  }
+}
+
+/**
+ * Store su file: un JSON per serie (<dir>/<intervallo>/<simbolo>.json),
+ * scritto su file temporaneo e rinominato per non lasciare file troncati.
+ * Le serie lette restano in memoria fino a maxCachedSeries (LRU).
+ */
+export class FileMarketDataStore extends MemoryMarketDataStore {
+  public readonly kind: MarketDataStoreKind = 'file';
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxCachedSeries = DEFAULT_CACHED_SERIES
+  ) {
+    super();
+  }
+
+  protected async load(
+    symbol: string,
+    interval: string
+  ): Promise<SeriesRecord> {
+    const key = seriesKey(symbol, interval);
+    const cached = this.series.get(key);
+    if (cached) {
+      // La Map è in ordine di inserimento: la serie letta diventa la più recente
+      this.series.delete(key);
+      this.series.set(key, cached);
+      return cached;
+    }
+
+    // Una serie appena rimossa dalla memoria può avere scritture in coda
+    await this.writes.get(key)?.catch(() => undefined);
+
+    let record: SeriesRecord = { symbol, interval, coverage: [], bars: [] };
+    try {
+      const content = await fs.promises.readFile(
+        this.filePath(symbol, interval),
+        'utf8'
+      );
+      const parsed = JSON.parse(content) as Partial<SeriesRecord>;
+      record = {
+        symbol,
+        interval,
+        coverage: Array.isArray(parsed.coverage) ? parsed.coverage : [],
+        bars: Array.isArray(parsed.bars) ? parsed.bars : [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(
+          `[WARN] Market data store: file illeggibile per ${symbol} (${interval}), riparto da vuoto:`,
+          error
+        );
+      }
+    }
+
+    // Due letture concorrenti della stessa serie condividono il primo record
+    const existing = this.series.get(key);
+    if (existing) return existing;
+    this.series.set(key, record);
+
+    for (const oldest of this.series.keys()) {
+      if (this.series.size <= this.maxCachedSeries) break;
+      this.series.delete(oldest);
+    }
+    return record;
+  }
+
+  protected async persist(record: SeriesRecord): Promise<void> {
+    const target = this.filePath(record.symbol, record.interval);
+
+    await this.enqueue(record.symbol, record.interval, async () => {
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.promises.writeFile(
+        temp,
+        JSON.stringify({
+          symbol: record.symbol,
+          interval: record.interval,
+          coverage: record.coverage,
+          bars: record.bars,
+        })
+      );
+      await fs.promises.rename(temp, target);
+    });
+  }
+
+  protected async remove(symbol: string, interval: string): Promise<void> {
+    const target = this.filePath(symbol, interval);
+    await this.enqueue(symbol, interval, () =>
+      fs.promises.rm(target, { force: true })
+    );
+  }
+
+  // Scritture della stessa serie in coda, mai sovrapposte
+  private async enqueue(
+    symbol: string,
+    interval: string,
+    operation: () => Promise<void>
+  ): Promise<void> {
+    const key = seriesKey(symbol, interval);
+    const write = (this.writes.get(key) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(operation);
+    this.writes.set(key, write);
+    await write;
+  }
+
+  public async close(): Promise<void> {
+    await Promise.allSettled(Array.from(this.writes.values()));
+    await super.close();
+  }
+
+  private filePath(symbol: string, interval: string): string {
+    return path.join(
+      this.directory,
+      encodeURIComponent(interval),
+      `${encodeURIComponent(symbol.toUpperCase())}.json`
+    );
+  }
+}
+
+/** Store su Postgres (pg): le tabelle vengono create al primo utilizzo */
+export class PostgresMarketDataStore implements MarketDataStore {
+  public readonly kind: MarketDataStoreKind = 'postgres';
+  private readonly pool: Pool;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString, max: 5 });
+  }
+
+  public async getBars(
+    symbol: string,
+    interval: string,
+    range: DateRange
+  ): Promise<StoredBar[]> {
+    await this.ensureSchema();
+    const result = await this.pool.query(
+      `SELECT to_char(date, 'YYYY-MM-DD') AS date, open, high, low, close,
+              adjusted_close, volume, dividend_amount, source, fetched_at
+         FROM market_data_bars
+        WHERE symbol = $1 AND interval = $2 AND date BETWEEN $3 AND $4
+        ORDER BY date`,
+      [symbol.toUpperCase(), interval, range.start, range.end]
+    );
+
+    return result.rows.map(row => ({
+      date: row.date,
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      ...(row.adjusted_close !== null && { adjustedClose: row.adjusted_close }),
+      volume: row.volume,
+      ...(row.dividend_amount !== null && {
+        dividendAmount: row.dividend_amount,
+      }),
+      source: row.source,
+      fetchedAt: new Date(row.fetched_at).toISOString(),
+    }));
+  }
+
+  public async getCoverage(
+    symbol: string,
+    interval: string
+  ): Promise<DateRange[]> {
+    await this.ensureSchema();
+    const result = await this.pool.query(
+      `SELECT to_char(start_date, 'YYYY-MM-DD') AS start,
+              to_char(end_date, 'YYYY-MM-DD') AS "end"
+         FROM market_data_coverage
+        WHERE symbol = $1 AND interval = $2
+        ORDER BY start_date`,
+      [symbol.toUpperCase(), interval]
+    );
+    return result.rows.map(row => ({ start: row.start, end: row.end }));
+  }
+
+  public async saveBars(
+    symbol: string,
+    interval: string,
+    bars: StoredBar[],
+    covered: DateRange | null
+  ): Promise<void> {
+    await this.ensureSchema();
+    const key = [symbol.toUpperCase(), interval];
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (bars.length > 0) {
+        await client.query(
+          `INSERT INTO market_data_bars (symbol, interval, date, open, high, low,
+                  close, adjusted_close, volume, dividend_amount, source, fetched_at)
+           SELECT $1, $2, * FROM unnest($3::date[], $4::float8[], $5::float8[],
+                  $6::float8[], $7::float8[], $8::float8[], $9::float8[],
+                  $10::float8[], $11::text[], $12::timestamptz[])
+           ON CONFLICT (symbol, interval, date) DO UPDATE SET
+                  open = EXCLUDED.open, high = EXCLUDED.high, low = EXCLUDED.low,
+                  close = EXCLUDED.close, adjusted_close = EXCLUDED.adjusted_close,
+                  volume = EXCLUDED.volume,
+                  dividend_amount = EXCLUDED.dividend_amount,
+                  source = EXCLUDED.source, fetched_at = EXCLUDED.fetched_at`,
+          [
+            ...key,
+            bars.map(bar => bar.date),
+            bars.map(bar => bar.open),
+            bars.map(bar => bar.high),
+            bars.map(bar => bar.low),
+            bars.map(bar => bar.close),
+            bars.map(bar => bar.adjustedClose ?? null),
+            bars.map(bar => bar.volume),
+            bars.map(bar => bar.dividendAmount ?? null),
+            bars.map(bar => bar.source),
+            bars.map(bar => bar.fetchedAt),
+          ]
+        );
+      }
+
+      if (covered) {
+        // La copertura viene riscritta già unita, una riga per intervallo
+        const existing = await client.query(
+          `SELECT to_char(start_date, 'YYYY-MM-DD') AS start,
+                  to_char(end_date, 'YYYY-MM-DD') AS "end"
+             FROM market_data_coverage
+            WHERE symbol = $1 AND interval = $2
+              FOR UPDATE`,
+          key
+        );
+        const merged = mergeRanges([...existing.rows, covered]);
+        await client.query(
+          'DELETE FROM market_data_coverage WHERE symbol = $1 AND interval = $2',
+          key
+        );
+        await client.query(
+          `INSERT INTO market_data_coverage (symbol, interval, start_date, end_date)
+           SELECT $1, $2, * FROM unnest($3::date[], $4::date[])`,
+          [
+            ...key,
+            merged.map(range => range.start),
+            merged.map(range => range.end),
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  public async deleteSeries(symbol: string, interval: string): Promise<void> {
+    await this.ensureSchema();
+    const key = [symbol.toUpperCase(), interval];
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        'DELETE FROM market_data_bars WHERE symbol = $1 AND interval = $2',
+        key
+      );
+      await client.query(
+        'DELETE FROM market_data_coverage WHERE symbol = $1 AND interval = $2',
+        key
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.pool
+        .query(
+          `CREATE TABLE IF NOT EXISTS market_data_bars (
+             symbol TEXT NOT NULL,
+             interval TEXT NOT NULL,
+             date DATE NOT NULL,
+             open DOUBLE PRECISION NOT NULL,
+             high DOUBLE PRECISION NOT NULL,
+             low DOUBLE PRECISION NOT NULL,
+             close DOUBLE PRECISION NOT NULL,
+             adjusted_close DOUBLE PRECISION,
+             volume DOUBLE PRECISION NOT NULL,
+             dividend_amount DOUBLE PRECISION,
+             source TEXT NOT NULL,
+             fetched_at TIMESTAMPTZ NOT NULL,
+             PRIMARY KEY (symbol, interval, date)
+           );
+           CREATE TABLE IF NOT EXISTS market_data_coverage (
+             symbol TEXT NOT NULL,
+             interval TEXT NOT NULL,
+             start_date DATE NOT NULL,
+             end_date DATE NOT NULL,
+             PRIMARY KEY (symbol, interval, start_date)
+           );`
+        )
+        .then(() => undefined)
+        .catch(error => {
+          // Nuovo tentativo alla richiesta successiva
+          this.schemaReady = null;
+          throw error;
+        });
+    }
+    return this.schemaReady;
+  }
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+function seriesKey(symbol: string, interval: string): string {
+  return `${symbol.toUpperCase()}|${interval}`;
+}
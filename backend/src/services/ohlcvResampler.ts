@@ -0,0 +1,162 @@
+/**
+ * OHLCV Resampler per STUDENT ANALYST
+ *
+ * Aggrega barre giornaliere in vere barre settimanali o mensili:
+ * primo open, massimo high, minimo low, ultimo close/adjusted close,
+ * volume sommato. Le barre sono etichettate con la data di fine periodo;
+ * l'ultima, se il periodo non è concluso, con la data dell'ultima barra
+ * giornaliera (mai oltre la fine della serie o la data odierna).
+ */
+
+// ========== INTERFACCE ==========
+
+export type ResampleFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type WeekAnchor =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+export interface OHLCVBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  adjustedClose?: number;
+  volume: number;
+  timestamp?: string;
+}
+
+export interface ResampleOptions {
+  weekAnchor?: WeekAnchor; // giorno di chiusura della settimana
+}
+
+// ========== COSTANTI ==========
+
+export const WEEK_ANCHORS: WeekAnchor[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+export const DEFAULT_WEEK_ANCHOR: WeekAnchor = 'friday';
+
+/**
+ * Numero di periodi per anno usato per annualizzare rendimenti e volatilità
+ */
+export const PERIODS_PER_YEAR: Record<ResampleFrequency, number> = {
+  daily: 252,
+  weekly: 52,
+  monthly: 12,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ========== FUNZIONI PUBBLICHE ==========
+
+/**
+ * Restituisce il fattore di annualizzazione per la frequenza richiesta
+ */
+export function getPeriodsPerYear(frequency: string): number {
+  return PERIODS_PER_YEAR[frequency as ResampleFrequency] ?? 252;
+}
+
+/**
+ * Aggrega barre giornaliere alla frequenza richiesta.
+ * Con frequenza 'daily' restituisce i dati ordinati senza modifiche.
+ */
+export function resampleOHLCV<T extends OHLCVBar>(
+  data: T[],
+  frequency: ResampleFrequency,
+  options: ResampleOptions = {}
+): OHLCVBar[] {
+  const sorted = [...data].sort((a, b) => a.date.localeCompare(b.date));
+
+  if (frequency === 'daily' || sorted.length === 0) {
+    return sorted;
+  }
+
+  const weekAnchor = options.weekAnchor ?? DEFAULT_WEEK_ANCHOR;
+  const buckets = new Map<string, T[]>();
+
+  for (const bar of sorted) {
+    const periodEnd =
+      frequency === 'weekly'
+        ? getWeekEnd(bar.date, weekAnchor)
+        : getMonthEnd(bar.date);
+    const bucket = buckets.get(periodEnd);
+    if (bucket) {
+      bucket.push(bar);
+    } else {
+      buckets.set(periodEnd, [bar]);
+    }
+  }
+
+  // Le settimane e i mesi completi restano allineati tra mercati diversi
+  const lastDate = formatUTCDate(parseUTCDate(sorted[sorted.length - 1].date));
+  return Array.from(buckets.entries()).map(([periodEnd, bars]) =>
+    aggregateBars(periodEnd > lastDate ? lastDate : periodEnd, bars)
+  );
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+/**
+ * Aggrega le barre di un periodo in una singola barra
+ */
+function aggregateBars(label: string, bars: OHLCVBar[]): OHLCVBar {
+  const first = bars[0];
+  const last = bars[bars.length - 1];
+  const hasAdjustedClose = bars.some(bar => bar.adjustedClose !== undefined);
+
+  return {
+    date: label,
+    open: first.open,
+    high: Math.max(...bars.map(bar => bar.high)),
+    low: Math.min(...bars.map(bar => bar.low)),
+    close: last.close,
+    ...(hasAdjustedClose && {
+      adjustedClose: last.adjustedClose ?? last.close,
+    }),
+    volume: bars.reduce((sum, bar) => sum + (bar.volume || 0), 0),
+    ...(last.timestamp && { timestamp: last.timestamp }),
+  };
+}
+
+/**
+ * Data (YYYY-MM-DD) del giorno di chiusura della settimana che contiene la data
+ */
+function getWeekEnd(date: string, weekAnchor: WeekAnchor): string {
+  const day = parseUTCDate(date);
+  const anchorIndex = WEEK_ANCHORS.indexOf(weekAnchor);
+  const offset = (anchorIndex - day.getUTCDay() + 7) % 7;
+  return formatUTCDate(new Date(day.getTime() + offset * DAY_MS));
+}
+
+/**
+ * Ultimo giorno di calendario del mese che contiene la data
+ */
+function getMonthEnd(date: string): string {
+  const day = parseUTCDate(date);
+  return formatUTCDate(
+    new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0))
+  );
+}
+
+function parseUTCDate(date: string): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatUTCDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
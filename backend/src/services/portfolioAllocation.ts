@@ -0,0 +1,181 @@
+/**
+ * Portfolio Allocation per STUDENT ANALYST
+ *
+ * Risoluzione e validazione dei pesi di portafoglio a partire da pesi
+ * percentuali espliciti oppure da numero di azioni detenute
+ */
+
+// ========== INTERFACCE ==========
+
+/**
+ * Allocazione richiesta dal client.
+ * - weights: pesi percentuali per ticker (somma 100)
+ * - shares: numero di azioni per ticker, i pesi derivano dal valore iniziale
+ * - initialCapital: capitale iniziale del portafoglio
+ */
+export interface PortfolioAllocationInput {
+  weights?: Record<string, number>;
+  shares?: Record<string, number>;
+  initialCapital?: number;
+}
+
+/**
+ * Allocazione risolta sui ticker effettivamente disponibili
+ */
+export interface ResolvedPortfolioAllocation {
+  method: 'equal' | 'weights' | 'shares';
+  weights: Record<string, number>; // frazioni, somma 1
+  initialCapital: number;
+}
+
+// ========== COSTANTI ==========
+
+/** Tolleranza (in punti percentuali) sulla somma dei pesi */
+export const WEIGHT_SUM_TOLERANCE = 0.01;
+
+/** Capitale iniziale di default: serie in base 100 */
+export const DEFAULT_INITIAL_CAPITAL = 100;
+
+// ========== VALIDAZIONE ==========
+
+/**
+ * Valida l'allocazione richiesta rispetto ai ticker dell'analisi.
+ * Restituisce un messaggio d'errore oppure null se l'allocazione è valida.
+ */
+export function validatePortfolioAllocation(
+  tickers: string[],
+  allocation: PortfolioAllocationInput
+): string | null {
+  const { weights, shares, initialCapital } = allocation;
+
+  if (weights && shares) {
+    return 'Specificare weights oppure shares, non entrambi';
+  }
+
+  if (initialCapital !== undefined) {
+    if (!isFiniteNumber(initialCapital) || initialCapital <= 0) {
+      return 'initialCapital deve essere un numero positivo';
+    }
+  }
+
+  const values = weights ?? shares;
+  if (!values) {
+    return null;
+  }
+
+  const label = weights ? 'weights' : 'shares';
+
+  if (typeof values !== 'object' || Array.isArray(values)) {
+    return `Parametro ${label} deve essere un oggetto { TICKER: valore }`;
+  }
+
+  const unknownTickers = Object.keys(values).filter(
+    symbol => !tickers.includes(symbol)
+  );
+  if (unknownTickers.length > 0) {
+    return `Ticker non presenti nell'analisi in ${label}: ${unknownTickers.join(', ')}`;
+  }
+
+  const missingTickers = tickers.filter(symbol => !(symbol in values));
+  if (missingTickers.length > 0) {
+    return `Valore mancante in ${label} per: ${missingTickers.join(', ')}`;
+  }
+
+  for (const symbol of tickers) {
+    const value = values[symbol];
+    if (!isFiniteNumber(value) || value < 0) {
+      return `Valore non valido in ${label} per ${symbol}: deve essere >= 0`;
+    }
+  }
+
+  const total = tickers.reduce((sum, symbol) => sum + values[symbol], 0);
+  if (total <= 0) {
+    return `La somma di ${label} deve essere maggiore di zero`;
+  }
+
+  if (weights && Math.abs(total - 100) > WEIGHT_SUM_TOLERANCE) {
+    return `La somma dei pesi deve essere 100% (ricevuto ${total.toFixed(2)}%)`;
+  }
+
+  return null;
+}
+
+/**
+ * Normalizza le chiavi dell'allocazione nello stesso formato dei ticker
+ * sanitizzati dalla route (maiuscolo, senza spazi)
+ */
+export function sanitizeAllocationKeys(
+  values: Record<string, number> | undefined
+): Record<string, number> | undefined {
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    return values;
+  }
+
+  return Object.fromEntries(
+    Object.entries(values).map(([symbol, value]) => [
+      symbol.toString().toUpperCase().trim(),
+      Number(value),
+    ])
+  );
+}
+
+// ========== RISOLUZIONE ==========
+
+/**
+ * Risolve i pesi finali sui ticker disponibili.
+ * I ticker esclusi dall'analisi (es. fetch fallito) vengono rimossi e i pesi
+ * rimanenti rinormalizzati a 1.
+ *
+ * @param symbols ticker con dati disponibili
+ * @param initialPrices prezzo iniziale di ciascun ticker (stesso ordine)
+ */
+export function resolvePortfolioAllocation(
+  symbols: string[],
+  initialPrices: number[],
+  allocation: PortfolioAllocationInput = {}
+): ResolvedPortfolioAllocation {
+  const equalWeights = (): Record<string, number> =>
+    Object.fromEntries(symbols.map(symbol => [symbol, 1 / symbols.length]));
+
+  if (allocation.shares) {
+    const marketValues = symbols.map(
+      (symbol, i) => (allocation.shares![symbol] ?? 0) * initialPrices[i]
+    );
+    const totalValue = marketValues.reduce((a, b) => a + b, 0);
+
+    if (totalValue > 0) {
+      return {
+        method: 'shares',
+        weights: Object.fromEntries(
+          symbols.map((symbol, i) => [symbol, marketValues[i] / totalValue])
+        ),
+        initialCapital: allocation.initialCapital ?? totalValue,
+      };
+    }
+  }
+
+  if (allocation.weights) {
+    const raw = symbols.map(symbol => allocation.weights![symbol] ?? 0);
+    const total = raw.reduce((a, b) => a + b, 0);
+
+    if (total > 0) {
+      return {
+        method: 'weights',
+        weights: Object.fromEntries(
+          symbols.map((symbol, i) => [symbol, raw[i] / total])
+        ),
+        initialCapital: allocation.initialCapital ?? DEFAULT_INITIAL_CAPITAL,
+      };
+    }
+  }
+
+  return {
+    method: 'equal',
+    weights: equalWeights(),
+    initialCapital: allocation.initialCapital ?? DEFAULT_INITIAL_CAPITAL,
+  };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
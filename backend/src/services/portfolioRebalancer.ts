@@ -0,0 +1,250 @@
+/**
+ * Portfolio Rebalancer per STUDENT ANALYST
+ *
+ * Simulazione di un portafoglio reale a quote: tiene traccia delle quote
+ * detenute, del drift dei pesi rispetto al target e del turnover generato
+ * dalla politica di ribilanciamento scelta
+ */
+
+// ========== INTERFACCE ==========
+
+export type CalendarRebalanceFrequency = 'monthly' | 'quarterly' | 'annual';
+
+/**
+ * Politica di ribilanciamento
+ * - buy-and-hold: nessun ribilanciamento dopo l'acquisto iniziale
+ * - calendar: ribilancia al primo giorno di ogni mese/trimestre/anno
+ * - threshold: ribilancia quando un peso esce dalla banda (es. 0.05 = ±5 punti)
+ */
+export type RebalancingPolicy =
+  | { type: 'buy-and-hold' }
+  | { type: 'calendar'; frequency: CalendarRebalanceFrequency }
+  | { type: 'threshold'; threshold: number };
+
+export interface RebalanceEvent {
+  date: string;
+  turnover: number; // turnover one-way: 0.5 * Σ|w_target - w_corrente|
+  maxDrift: number; // drift massimo prima del ribilanciamento
+  weightsBefore: Record<string, number>;
+}
+
+export interface PortfolioSimulationInput {
+  dates: string[];
+  symbols: string[];
+  prices: number[][]; // prices[j][t]: prezzo del ticker j alla data t
+  targetWeights: Record<string, number>; // frazioni, somma 1
+  initialCapital: number;
+  policy: RebalancingPolicy;
+}
+
+export interface PortfolioSimulationResult {
+  values: number[];
+  returns: number[];
+  weightsOverTime: Record<string, number[]>;
+  drift: number[]; // drift massimo dei pesi rispetto al target, per data
+  rebalanceEvents: RebalanceEvent[];
+  totalTurnover: number;
+}
+
+// ========== COSTANTI ==========
+
+export const DEFAULT_REBALANCING_POLICY: RebalancingPolicy = {
+  type: 'buy-and-hold',
+};
+
+const CALENDAR_FREQUENCIES: CalendarRebalanceFrequency[] = [
+  'monthly',
+  'quarterly',
+  'annual',
+];
+
+// ========== VALIDAZIONE ==========
+
+/**
+ * Valida e normalizza la politica ricevuta dal client.
+ * Restituisce la politica oppure un messaggio d'errore.
+ */
+export function parseRebalancingPolicy(
+  raw: unknown
+): { policy: RebalancingPolicy } | { error: string } {
+  if (raw === undefined || raw === null) {
+    return { policy: DEFAULT_REBALANCING_POLICY };
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Parametro rebalancing deve essere un oggetto' };
+  }
+
+  const { type, frequency, threshold } = raw as Record<string, unknown>;
+
+  switch (type) {
+    case 'buy-and-hold':
+      return { policy: { type } };
+    case 'calendar':
+      if (
+        !CALENDAR_FREQUENCIES.includes(frequency as CalendarRebalanceFrequency)
+      ) {
+        return {
+          error: `rebalancing.frequency deve essere uno tra: ${CALENDAR_FREQUENCIES.join(', ')}`,
+        };
+      }
+      return {
+        policy: { type, frequency: frequency as CalendarRebalanceFrequency },
+      };
+    case 'threshold': {
+      const band = Number(threshold);
+      if (!Number.isFinite(band) || band <= 0 || band >= 1) {
+        return {
+          error:
+            'rebalancing.threshold deve essere una frazione tra 0 e 1 (es. 0.05)',
+        };
+      }
+      return { policy: { type, threshold: band } };
+    }
+    default:
+      return {
+        error:
+          'rebalancing.type deve essere uno tra: buy-and-hold, calendar, threshold',
+      };
+  }
+}
+
+// ========== SIMULAZIONE ==========
+
+/**
+ * Simula il portafoglio data per data.
+ * Il ribilanciamento avviene al prezzo di chiusura della data di trigger,
+ * senza costi di transazione.
+ */
+export function simulatePortfolio(
+  input: PortfolioSimulationInput
+): PortfolioSimulationResult {
+  const { dates, symbols, prices, targetWeights, initialCapital, policy } =
+    input;
+
+  const target = symbols.map(symbol => targetWeights[symbol] ?? 0);
+  const values: number[] = [];
+  const returns: number[] = [];
+  const drift: number[] = [];
+  const rebalanceEvents: RebalanceEvent[] = [];
+  const weightsOverTime: Record<string, number[]> = Object.fromEntries(
+    symbols.map(symbol => [symbol, [] as number[]])
+  );
+
+  if (dates.length === 0 || symbols.length === 0) {
+    return {
+      values,
+      returns,
+      weightsOverTime,
+      drift,
+      rebalanceEvents,
+      totalTurnover: 0,
+    };
+  }
+
+  // Acquisto iniziale ai pesi target
+  let units = symbols.map(
+    (_, j) => (target[j] * initialCapital) / prices[j][0]
+  );
+  let totalTurnover = 0;
+
+  for (let t = 0; t < dates.length; t++) {
+    const marketValues = symbols.map((_, j) => units[j] * prices[j][t]);
+    const totalValue = marketValues.reduce((a, b) => a + b, 0);
+    let currentWeights = marketValues.map(value =>
+      totalValue > 0 ? value / totalValue : 0
+    );
+    const currentDrift = maxAbsoluteDeviation(currentWeights, target);
+
+    if (t > 0 && shouldRebalance(policy, dates, t, currentDrift)) {
+      const turnover =
+        0.5 *
+        currentWeights.reduce(
+          (sum, weight, j) => sum + Math.abs(target[j] - weight),
+          0
+        );
+
+      rebalanceEvents.push({
+        date: dates[t],
+        turnover,
+        maxDrift: currentDrift,
+        weightsBefore: Object.fromEntries(
+          symbols.map((symbol, j) => [symbol, currentWeights[j]])
+        ),
+      });
+      totalTurnover += turnover;
+
+      units = symbols.map((_, j) => (target[j] * totalValue) / prices[j][t]);
+      currentWeights = [...target];
+    }
+
+    values.push(totalValue);
+    drift.push(maxAbsoluteDeviation(currentWeights, target));
+    symbols.forEach((symbol, j) => {
+      weightsOverTime[symbol].push(currentWeights[j]);
+    });
+
+    if (t > 0) {
+      returns.push((totalValue - values[t - 1]) / values[t - 1]);
+    }
+  }
+
+  return {
+    values,
+    returns,
+    weightsOverTime,
+    drift,
+    rebalanceEvents,
+    totalTurnover,
+  };
+}
+
+/**
+ * Determina se la politica richiede un ribilanciamento alla data t
+ */
+function shouldRebalance(
+  policy: RebalancingPolicy,
+  dates: string[],
+  t: number,
+  currentDrift: number
+): boolean {
+  switch (policy.type) {
+    case 'calendar':
+      return (
+        getCalendarPeriodKey(dates[t], policy.frequency) !==
+        getCalendarPeriodKey(dates[t - 1], policy.frequency)
+      );
+    case 'threshold':
+      return currentDrift > policy.threshold;
+    case 'buy-and-hold':
+    default:
+      return false;
+  }
+}
+
+/**
+ * Chiave del periodo di calendario (es. "2024-03", "2024-Q1", "2024")
+ */
+function getCalendarPeriodKey(
+  date: string,
+  frequency: CalendarRebalanceFrequency
+): string {
+  const [year, month] = date.split('-').map(Number);
+
+  switch (frequency) {
+    case 'monthly':
+      return `${year}-${month}`;
+    case 'quarterly':
+      return `${year}-Q${Math.floor((month - 1) / 3) + 1}`;
+    case 'annual':
+    default:
+      return `${year}`;
+  }
+}
+
+function maxAbsoluteDeviation(weights: number[], target: number[]): number {
+  return weights.reduce(
+    (max, weight, j) => Math.max(max, Math.abs(weight - target[j])),
+    0
+  );
+}
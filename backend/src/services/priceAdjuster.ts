@@ -458,19 +458,159 @@ export class PriceAdjuster {
   }
 
   /**
-   * Aggiusta per dividendi (implementazione _base)
+   * Aggiusta per dividendi con fattori backward (metodo CRSP/Yahoo).
+   * Per ogni ex-date il fattore è 1 - dividendo / close del giorno precedente;
+   * tutti i prezzi precedenti all'ex-date vengono moltiplicati per il fattore.
+   * Il close originale resta invariato, l'adjustedClose riflette il total return.
    */
   public async adjustForDividends(
     data: PriceDataRecord[],
-    symbol: string
+    symbol: string,
+    dividends?: DividendEvent[]
   ): Promise<PriceDataRecord[]> {
-    if (!this.config.enableDividendAdjustment) {
+    if (!this.config.enableDividendAdjustment || data.length === 0) {
       return data;
     }
 
-    // TODO: Implementazione completa per dividendi
-    // Per ora ritorna dati non modificati
-    return data;
+    try {
+      // 1. Combina dividendi forniti, presenti nei dati e in cache
+      if (dividends && dividends.length > 0) {
+        this.registerDividendEvents(symbol, dividends);
+      }
+      this.registerDividendEvents(
+        symbol,
+        this.extractDividendEvents(data, symbol)
+      );
+      const allDividends = this.getDividendHistory(symbol);
+
+      if (allDividends.length === 0) {
+        return data;
+      }
+
+      // 2. Calcola fattori di aggiustamento per ogni record
+      const factors = this.calculateDividendFactors(data, allDividends);
+
+      // 3. Applica aggiustamenti
+      return data.map(item => {
+        const factor = factors.get(item.date) ?? 1.0;
+        const baseClose = Number(item.close);
+
+        return {
+          ...item,
+          adjustedClose: this.roundToDecimal(
+            baseClose * factor,
+            this.config.adjustmentPrecision
+          ),
+          dividendAdjustmentFactor: factor,
+          dividendAdjusted: Math.abs(factor - 1.0) > 1e-9,
+        };
+      });
+    } catch (_error) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn(
+          `Errore durante aggiustamento dividendi per ${symbol}:`,
+          _error
+        );
+      }
+      return data; // Ritorna dati originali in caso di errore
+    }
+  }
+
+  /**
+   * Calcola il fattore di aggiustamento cumulativo per ogni data.
+   * Dividendi senza un close precedente nel dataset vengono ignorati.
+   */
+  public calculateDividendFactors(
+    data: PriceDataRecord[],
+    dividends: DividendEvent[]
+  ): Map<string, number> {
+    const sortedData = [...data].sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+    const cashDividends = dividends.filter(
+      dividend => dividend.type !== 'STOCK' && dividend.amount > 0
+    );
+
+    // Fattore per singolo evento, indicizzato sulla posizione dell'ex-date
+    const eventFactors = new Array<number>(sortedData.length).fill(1.0);
+
+    for (const dividend of cashDividends) {
+      const exTime = new Date(dividend.exDate || dividend.date).getTime();
+      const exIndex = sortedData.findIndex(
+        item => new Date(item.date).getTime() >= exTime
+      );
+
+      if (exIndex <= 0) continue;
+
+      const prevClose = Number(sortedData[exIndex - 1].close);
+      if (!(prevClose > dividend.amount)) continue;
+
+      eventFactors[exIndex] *= 1 - dividend.amount / prevClose;
+    }
+
+    // Fattore cumulativo backward: prodotto degli eventi successivi alla data
+    const factors = new Map<string, number>();
+    let cumulative = 1.0;
+
+    for (let i = sortedData.length - 1; i >= 0; i--) {
+      factors.set(sortedData[i].date, cumulative);
+      cumulative *= eventFactors[i];
+    }
+
+    return factors;
+  }
+
+  /**
+   * Estrae eventi di dividendo dai record che riportano dividendAmount
+   * (es. serie adjusted di Alpha Vantage)
+   */
+  public extractDividendEvents(
+    data: PriceDataRecord[],
+    symbol: string,
+    source: string = 'PRICE_DATA'
+  ): DividendEvent[] {
+    return data
+      .filter(item => Number(item.dividendAmount) > 0)
+      .map(item => ({
+        date: item.date,
+        symbol,
+        amount: Number(item.dividendAmount),
+        currency: 'USD',
+        type: 'CASH' as const,
+        exDate: item.date,
+        payDate: item.date,
+        source,
+      }));
+  }
+
+  /**
+   * Registra eventi di dividendo per un simbolo (deduplicati per ex-date)
+   */
+  public registerDividendEvents(
+    symbol: string,
+    dividends: DividendEvent[]
+  ): void {
+    const merged = new Map<string, DividendEvent>();
+
+    for (const dividend of [
+      ...(this.dividendCache.get(symbol) || []),
+      ...dividends,
+    ]) {
+      merged.set(dividend.exDate || dividend.date, dividend);
+    }
+
+    this.dividendCache.set(
+      symbol,
+      Array.from(merged.values()).sort(
+        (a, b) =>
+          new Date(a.exDate || a.date).getTime() -
+          new Date(b.exDate || b.date).getTime()
+      )
+    );
+  }
+
+  public getDividendHistory(symbol: string): DividendEvent[] {
+    return this.dividendCache.get(symbol) || [];
   }
 
   /**
@@ -478,7 +618,8 @@ export class PriceAdjuster {
    */
   public validateAdjustments(
     originalData: PriceDataRecord[],
-    adjustedData: PriceDataRecord[]
+    adjustedData: PriceDataRecord[],
+    dividends: DividendEvent[] = []
   ): {
     isValid: boolean;
     issues: string[];
@@ -490,6 +631,8 @@ export class PriceAdjuster {
       issues.push('Lunghezza dati diversa dopo aggiustamento');
     }
 
+    issues.push(...this.validateDividendAdjustments(adjustedData, dividends));
+
     // Calcola score di continuità (quanto sono "smooth" i prezzi adjusted)
     let continuityScore = 1.0;
 
@@ -534,6 +677,57 @@ export class PriceAdjuster {
     };
   }
 
+  /**
+   * Verifica coerenza dei fattori di aggiustamento per dividendi:
+   * fattori in (0, 1], non decrescenti nel tempo, adjustedClose <= close
+   * e nessun dividendo maggiore del close precedente
+   */
+  private validateDividendAdjustments(
+    adjustedData: PriceDataRecord[],
+    dividends: DividendEvent[]
+  ): string[] {
+    const issues: string[] = [];
+    const sortedData = [...adjustedData].sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    );
+
+    let previousFactor = 0;
+    for (const item of sortedData) {
+      const factor = item.dividendAdjustmentFactor;
+      if (typeof factor !== 'number') continue;
+
+      if (factor <= 0 || factor > 1 + 1e-9) {
+        issues.push(
+          `Fattore dividendo fuori range (${factor}) al ${item.date}`
+        );
+      }
+      if (factor + 1e-9 < previousFactor) {
+        issues.push(`Fattore dividendo non monotono al ${item.date}`);
+      }
+      if (
+        item.adjustedClose !== undefined &&
+        Number(item.adjustedClose) > Number(item.close) * (1 + 1e-6)
+      ) {
+        issues.push(`adjustedClose maggiore del close al ${item.date}`);
+      }
+      previousFactor = factor;
+    }
+
+    for (const dividend of dividends) {
+      const exTime = new Date(dividend.exDate || dividend.date).getTime();
+      const prev = sortedData
+        .filter(item => new Date(item.date).getTime() < exTime)
+        .pop();
+      if (prev && dividend.amount >= Number(prev.close)) {
+        issues.push(
+          `Dividendo del ${dividend.exDate} (${dividend.amount}) non inferiore al close precedente`
+        );
+      }
+    }
+
+    return issues;
+  }
+
   /**
    * Ottieni statistiche di aggiustamento
    */
@@ -0,0 +1,783 @@
+/**
+ * Price Import per STUDENT ANALYST
+ *
+ * Import di storici prezzi da file CSV o XLSX caricati dall'utente, per
+ * analizzare dataset privati o offline insieme (o al posto) dei ticker
+ * scaricati. Le colonne vengono riconosciute dalle intestazioni (inglese o
+ * italiano), il formato delle date è rilevato sull'intera colonna e passato a
+ * DateNormalizer.parseDate, i volumi abbreviati ("1.2M") al VolumeHandler.
+ * Oltre a una serie OHLCV per file è accettato il formato "largo"
+ * (Date,AAPL,MSFT,...) con una colonna di chiusure per titolo.
+ */
+
+import { DateNormalizer } from './dateNormalizer';
+import { VolumeHandler } from './volumeHandler';
+import { readXlsxSheet } from './xlsxReader';
+
+// ========== INTERFACCE ==========
+
+export type ImportFileFormat = 'csv' | 'xlsx';
+
+export type PriceColumn =
+  | 'date'
+  | 'open'
+  | 'high'
+  | 'low'
+  | 'close'
+  | 'adjustedClose'
+  | 'volume';
+
+/** ohlcv: una serie con colonne OHLCV; wide: una colonna di chiusure per titolo */
+export type ImportLayout = 'ohlcv' | 'wide';
+
+export interface ImportedBar {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  adjustedClose?: number;
+  volume: number;
+}
+
+export interface ImportedSeries {
+  symbol: string;
+  source: string; // nome del file di origine
+  data: ImportedBar[];
+}
+
+export interface ImportIssue {
+  row: number; // riga del file (1 = prima riga)
+  column?: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface PriceImportRequest {
+  fileName: string;
+  content: string;
+  encoding?: 'text' | 'base64';
+  symbol?: string; // nome della serie (default: nome del file)
+}
+
+export interface PriceImportResult {
+  fileName: string;
+  format: ImportFileFormat;
+  layout: ImportLayout;
+  columns: string[];
+  mapping: Partial<Record<PriceColumn, string>>;
+  dateFormat: string;
+  decimalSeparator: '.' | ',';
+  rowsRead: number;
+  rowsSkipped: number; // righe senza data o chiusura valida
+  series: ImportedSeries[];
+  issues: ImportIssue[]; // primi MAX_REPORTED_ISSUES
+  issueCount: number;
+}
+
+// ========== COSTANTI ==========
+
+/** Intestazioni accettate per ciascuna colonna (dopo normalizeHeader) */
+const COLUMN_ALIASES: Record<PriceColumn, string[]> = {
+  date: ['date', 'data', 'datetime', 'timestamp', 'time', 'giorno', 'day'],
+  open: ['open', 'apertura', 'open price', 'prezzo apertura', 'primo'],
+  high: ['high', 'massimo', 'max', 'high price', 'prezzo massimo'],
+  low: ['low', 'minimo', 'min', 'low price', 'prezzo minimo'],
+  close: [
+    'close',
+    'chiusura',
+    'close price',
+    'closing price',
+    'prezzo chiusura',
+    'prezzo di chiusura',
+    'ultimo',
+    'last',
+    'price',
+    'prezzo',
+  ],
+  adjustedClose: [
+    'adj close',
+    'adjusted close',
+    'adjclose',
+    'adj price',
+    'chiusura rettificata',
+    'chiusura aggiustata',
+    'prezzo rettificato',
+  ],
+  volume: ['volume', 'vol', 'volumi', 'volume scambiato', 'quantita'],
+};
+
+const PRICE_COLUMNS: PriceColumn[] = [
+  'open',
+  'high',
+  'low',
+  'close',
+  'adjustedClose',
+];
+
+/** gg/mm/aaaa, mm/gg/aaaa (anche con "." o "-" e anno a due cifre) */
+const NUMERIC_DATE = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})$/;
+
+/** Numeri seriali delle date Excel (giorni dal 30/12/1899) */
+const EXCEL_SERIAL_DATE = /^\d{5}(\.\d+)?$/;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+const HEADER_SEARCH_ROWS = 10;
+const MIN_IMPORTED_ROWS = 2;
+const MAX_IMPORTED_ROWS = 50000;
+const MAX_IMPORTED_SERIES = 20;
+const MAX_REPORTED_ISSUES = 100;
+const MAX_SYMBOL_LENGTH = 20;
+
+/** Quota minima di celle numeriche per riconoscere una colonna di prezzi */
+const NUMERIC_COLUMN_SHARE = 0.5;
+
+// ========== FUNZIONI PUBBLICHE ==========
+
+/**
+ * Legge un file di storici prezzi e restituisce le serie con il report delle
+ * righe scartate. Errore se manca la colonna data o nessuna serie ha almeno
+ * MIN_IMPORTED_ROWS osservazioni.
+ */
+export function parsePriceFile(
+  request: PriceImportRequest
+): { result: PriceImportResult } | { error: string } {
+  const fileName = String(request.fileName ?? '').trim() || 'import.csv';
+  const extension = fileName.toLowerCase().split('.').pop() ?? '';
+
+  if (extension === 'xls') {
+    return {
+      error:
+        'Il formato XLS (Excel 97-2003) non è supportato: salva il file come XLSX o CSV',
+    };
+  }
+  const format: ImportFileFormat = extension === 'xlsx' ? 'xlsx' : 'csv';
+
+  let table: string[][];
+  try {
+    table = readTable(request, format);
+  } catch (error) {
+    return {
+      error: `File non leggibile: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const headerIndex = findHeaderRow(table);
+  if (headerIndex < 0) {
+    return {
+      error:
+        'Colonna data non trovata: usa un\'intestazione come "Date" o "Data"',
+    };
+  }
+
+  const header = table[headerIndex].map(cell => cell.trim());
+  const rows = table
+    .slice(headerIndex + 1)
+    .map((cells, index) => ({ cells, line: headerIndex + index + 2 }))
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+
+  if (rows.length > MAX_IMPORTED_ROWS) {
+    return {
+      error: `Troppe righe (${rows.length}): il massimo è ${MAX_IMPORTED_ROWS}`,
+    };
+  }
+
+  const mapping = mapColumns(header);
+  const dateColumn = header.indexOf(mapping.date!);
+  const hasCloseColumn = Boolean(mapping.close || mapping.adjustedClose);
+
+  // Colonne delle serie: OHLCV oppure una colonna numerica per titolo
+  const priceIndexes = hasCloseColumn
+    ? PRICE_COLUMNS.filter(column => mapping[column]).map(column =>
+        header.indexOf(mapping[column]!)
+      )
+    : header
+        .map((_, index) => index)
+        .filter(
+          index =>
+            index !== dateColumn &&
+            header[index] !== '' &&
+            isNumericColumn(rows.map(row => row.cells[index] ?? ''))
+        );
+
+  if (priceIndexes.length === 0) {
+    return {
+      error:
+        'Colonna dei prezzi di chiusura non trovata (es. "Close", "Chiusura" o una colonna per titolo)',
+    };
+  }
+
+  const decimalSeparator = detectDecimalSeparator(
+    rows.flatMap(row => priceIndexes.map(index => row.cells[index] ?? ''))
+  );
+
+  const issues: ImportIssue[] = [];
+  const report = (issue: ImportIssue) => issues.push(issue);
+
+  const { dates, dateFormat } = parseDateColumn(
+    rows.map(row => row.cells[dateColumn] ?? ''),
+    format,
+    rows.map(row => row.line),
+    mapping.date!,
+    report
+  );
+
+  const context = { rows, dates, decimalSeparator, report };
+  const rawSeries = hasCloseColumn
+    ? [
+        {
+          symbol:
+            sanitizeImportedSymbol(request.symbol) ??
+            symbolFromFileName(fileName),
+          data: readOhlcvRows(header, mapping, context),
+        },
+      ]
+    : priceIndexes.map(index => ({
+        symbol: sanitizeImportedSymbol(header[index]) ?? `COL${index + 1}`,
+        data: readCloseColumn(index, header[index], context),
+      }));
+
+  const series: ImportedSeries[] = [];
+  rawSeries.forEach(item => {
+    const data = dedupeByDate(item.data, item.symbol, report);
+    if (data.length < MIN_IMPORTED_ROWS) {
+      report({
+        row: headerIndex + 1,
+        severity: 'error',
+        message: `${item.symbol}: meno di ${MIN_IMPORTED_ROWS} osservazioni valide, serie scartata`,
+      });
+      return;
+    }
+    series.push({ symbol: item.symbol, source: fileName, data });
+  });
+
+  if (series.length === 0) {
+    return {
+      error: `Nessuna serie valida nel file (${issues.length} problemi rilevati${
+        issues[0] ? `, es. riga ${issues[0].row}: ${issues[0].message}` : ''
+      })`,
+    };
+  }
+
+  return {
+    result: {
+      fileName,
+      format,
+      layout: hasCloseColumn ? 'ohlcv' : 'wide',
+      columns: header,
+      mapping: hasCloseColumn ? mapping : { date: mapping.date },
+      dateFormat,
+      decimalSeparator,
+      rowsRead: rows.length,
+      rowsSkipped: rows.filter((_, index) => dates[index] === null).length,
+      series,
+      issues: issues.slice(0, MAX_REPORTED_ISSUES),
+      issueCount: issues.length,
+    },
+  };
+}
+
+/**
+ * Valida le serie importate inviate con la richiesta di analisi
+ * (già normalizzate dall'import, ma provenienti dal client)
+ */
+export function parseImportedSeries(
+  raw: unknown
+): { series: ImportedSeries[] } | { error: string } {
+  if (raw === undefined || raw === null) return { series: [] };
+  if (!Array.isArray(raw)) {
+    return { error: 'importedSeries deve essere un array di serie' };
+  }
+  if (raw.length > MAX_IMPORTED_SERIES) {
+    return {
+      error: `Troppe serie importate (massimo ${MAX_IMPORTED_SERIES})`,
+    };
+  }
+
+  const series: ImportedSeries[] = [];
+  for (const item of raw) {
+    const symbol = sanitizeImportedSymbol(item?.symbol);
+    if (!symbol) {
+      return { error: 'Serie importata senza un simbolo valido' };
+    }
+    if (series.some(existing => existing.symbol === symbol)) {
+      return { error: `Serie importata duplicata: ${symbol}` };
+    }
+    if (
+      !Array.isArray(item.data) ||
+      item.data.length < MIN_IMPORTED_ROWS ||
+      item.data.length > MAX_IMPORTED_ROWS
+    ) {
+      return {
+        error: `Serie ${symbol}: servono tra ${MIN_IMPORTED_ROWS} e ${MAX_IMPORTED_ROWS} osservazioni`,
+      };
+    }
+
+    const data: ImportedBar[] = [];
+    for (const bar of item.data) {
+      const close = Number(bar?.close);
+      if (
+        typeof bar?.date !== 'string' ||
+        !/^\d{4}-\d{2}-\d{2}$/.test(bar.date) ||
+        !(close > 0)
+      ) {
+        return {
+          error: `Serie ${symbol}: osservazione non valida (${JSON.stringify(bar)?.slice(0, 80)})`,
+        };
+      }
+      const price = (value: unknown) =>
+        Number(value) > 0 ? Number(value) : close;
+      const adjustedClose = Number(bar.adjustedClose);
+
+      data.push({
+        date: bar.date,
+        open: price(bar.open),
+        high: price(bar.high),
+        low: price(bar.low),
+        close,
+        ...(adjustedClose > 0 && { adjustedClose }),
+        volume: Number(bar.volume) >= 0 ? Number(bar.volume) : 0,
+      });
+    }
+
+    series.push({
+      symbol,
+      source: typeof item.source === 'string' ? item.source : 'import',
+      data: dedupeByDate(data, symbol, () => undefined),
+    });
+  }
+
+  return { series };
+}
+
+/**
+ * Simbolo per una serie importata: maiuscolo, spazi come "_", solo lettere,
+ * numeri e . _ - ^ =
+ */
+export function sanitizeImportedSymbol(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const symbol = value
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, '_')
+    .replace(/[^A-Z0-9._\-^=]/g, '');
+  return symbol.length > 0 && symbol.length <= MAX_SYMBOL_LENGTH
+    ? symbol
+    : null;
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+function readTable(
+  request: PriceImportRequest,
+  format: ImportFileFormat
+): string[][] {
+  const content = String(request.content ?? '');
+  if (!content) throw new Error('file vuoto');
+
+  if (format === 'xlsx') {
+    if (request.encoding !== 'base64') {
+      throw new Error('i file XLSX vanno inviati in base64');
+    }
+    // Intestazione entro le prime HEADER_SEARCH_ROWS righe, poi i dati
+    return readXlsxSheet(Buffer.from(content, 'base64'), {
+      maxRows: HEADER_SEARCH_ROWS + MAX_IMPORTED_ROWS,
+    });
+  }
+
+  const text =
+    request.encoding === 'base64'
+      ? Buffer.from(content, 'base64').toString('utf8')
+      : content;
+  return parseCsv(text.replace(/^\uFEFF/, ''));
+}
+
+/**
+ * CSV con separatore rilevato dalla prima riga (",", ";", tab, "|") e campi
+ * tra virgolette ("" come virgolette letterali)
+ */
+function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) ?? '';
+  const delimiter = [',', ';', '\t', '|'].reduce(
+    (best, candidate) =>
+      countOutsideQuotes(firstLine, candidate) >
+      countOutsideQuotes(firstLine, best)
+        ? candidate
+        : best,
+    ','
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const c of line) {
+    if (c === '"') quoted = !quoted;
+    else if (c === char && !quoted) count++;
+  }
+  return count;
+}
+
+/** "Adj. Close**" → "adj close", "Prezzo_Chiusura" → "prezzo chiusura" */
+function normalizeHeader(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[*"'()[\]]/g, '')
+    .replace(/[_\-.]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function mapColumns(header: string[]): Partial<Record<PriceColumn, string>> {
+  const mapping: Partial<Record<PriceColumn, string>> = {};
+  const normalized = header.map(normalizeHeader);
+
+  (Object.keys(COLUMN_ALIASES) as PriceColumn[]).forEach(column => {
+    const index = normalized.findIndex(
+      (name, i) =>
+        COLUMN_ALIASES[column].includes(name) &&
+        !Object.values(mapping).includes(header[i])
+    );
+    if (index >= 0) mapping[column] = header[index];
+  });
+
+  return mapping;
+}
+
+function findHeaderRow(table: string[][]): number {
+  return table
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex(row =>
+      row.some(cell => COLUMN_ALIASES.date.includes(normalizeHeader(cell)))
+    );
+}
+
+function isNumericColumn(values: string[]): boolean {
+  const filled = values.filter(value => value.trim() !== '');
+  if (filled.length === 0) return false;
+  const numeric = filled.filter(value =>
+    /^[-+]?[\d.,\s]+$/.test(value.replace(/[€$£%]/g, '').trim())
+  );
+  return numeric.length / filled.length >= NUMERIC_COLUMN_SHARE;
+}
+
+/** Virgola decimale se prevalgono valori come "1.234,56" o "12,5" */
+function detectDecimalSeparator(values: string[]): '.' | ',' {
+  let comma = 0;
+  let dot = 0;
+  values.forEach(raw => {
+    const value = raw.replace(/[€$£\s]/g, '');
+    if (/^-?\d{1,3}(\.\d{3})+,\d+$|^-?\d+,\d+$/.test(value)) comma++;
+    else if (/^-?\d{1,3}(,\d{3})+\.\d+$|^-?\d+\.\d+$/.test(value)) dot++;
+  });
+  return comma > dot ? ',' : '.';
+}
+
+function parseNumber(raw: string, decimalSeparator: '.' | ','): number {
+  let value = raw.replace(/[€$£\s]/g, '');
+  if (value === '') return NaN;
+  value =
+    decimalSeparator === ','
+      ? value.replace(/\./g, '').replace(',', '.')
+      : value.replace(/,/g, '');
+  return /^[-+]?\d*\.?\d+(e[-+]?\d+)?$/i.test(value) ? Number(value) : NaN;
+}
+
+/**
+ * Converte la colonna delle date in YYYY-MM-DD. L'ordine giorno/mese delle
+ * date numeriche è deciso sull'intera colonna (un valore > 12 nel primo campo
+ * indica gg/mm); se ambiguo si assume gg/mm/aaaa con un avviso.
+ */
+function parseDateColumn(
+  values: string[],
+  format: ImportFileFormat,
+  lines: number[],
+  columnName: string,
+  report: (issue: ImportIssue) => void
+): { dates: (string | null)[]; dateFormat: string } {
+  const normalizer = new DateNormalizer('UTC', { allowFutureDates: true });
+
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let separator = '/';
+  values.forEach(value => {
+    const match = value.trim().match(NUMERIC_DATE);
+    if (!match) return;
+    separator = match[2];
+    if (Number(match[1]) > 12) dayFirst++;
+    if (Number(match[3]) > 12) monthFirst++;
+  });
+  const numericDates = values.some(value => NUMERIC_DATE.test(value.trim()));
+  const monthFirstOrder = monthFirst > dayFirst;
+
+  if (numericDates && dayFirst === 0 && monthFirst === 0) {
+    report({
+      row: lines[0] ?? 1,
+      column: columnName,
+      severity: 'warning',
+      message: 'Ordine giorno/mese non determinabile: assunto giorno/mese/anno',
+    });
+  }
+
+  const detectedFormats = new Map<string, number>();
+  const dates = values.map((raw, index) => {
+    const value = raw.trim();
+    let candidate = value;
+    let label: string | undefined;
+
+    const match = value.match(NUMERIC_DATE);
+    if (format === 'xlsx' && EXCEL_SERIAL_DATE.test(value)) {
+      candidate = new Date(EXCEL_EPOCH + Math.floor(Number(value)) * 86400000)
+        .toISOString()
+        .slice(0, 10);
+      label = 'EXCEL_SERIAL';
+    } else if (match) {
+      const [, first, sep, second, rawYear] = match;
+      const year =
+        rawYear.length === 2
+          ? `${Number(rawYear) < 70 ? '20' : '19'}${rawYear}`
+          : rawYear;
+      const [day, month] = monthFirstOrder ? [second, first] : [first, second];
+      candidate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+      label = monthFirstOrder ? `MM${sep}DD${sep}YYYY` : `DD${sep}MM${sep}YYYY`;
+    }
+
+    const parsed = normalizer.parseDate(candidate);
+    const valid =
+      parsed.success &&
+      (candidate === value ||
+        // gg/mm fuori intervallo (es. 31/02) producono date diverse
+        parsed.date === candidate);
+    if (!valid) {
+      report({
+        row: lines[index] ?? index + 1,
+        column: columnName,
+        severity: 'error',
+        message: value ? `Data non riconosciuta: "${value}"` : 'Data mancante',
+      });
+      return null;
+    }
+
+    label = label ?? parsed.detectedFormat;
+    detectedFormats.set(label, (detectedFormats.get(label) ?? 0) + 1);
+    return parsed.date;
+  });
+
+  const dateFormat =
+    [...detectedFormats.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ??
+    (numericDates ? `DD${separator}MM${separator}YYYY` : 'UNKNOWN');
+
+  return { dates, dateFormat };
+}
+
+interface RowContext {
+  rows: { cells: string[]; line: number }[];
+  dates: (string | null)[];
+  decimalSeparator: '.' | ',';
+  report: (issue: ImportIssue) => void;
+}
+
+function readOhlcvRows(
+  header: string[],
+  mapping: Partial<Record<PriceColumn, string>>,
+  { rows, dates, decimalSeparator, report }: RowContext
+): ImportedBar[] {
+  const volumeHandler = new VolumeHandler();
+  const indexOf = (column: PriceColumn) =>
+    mapping[column] ? header.indexOf(mapping[column]!) : -1;
+  const closeIndex =
+    indexOf('close') >= 0 ? indexOf('close') : indexOf('adjustedClose');
+
+  const bars: ImportedBar[] = [];
+  rows.forEach(({ cells, line }, index) => {
+    const date = dates[index];
+    if (!date) return;
+
+    const close = parseNumber(cells[closeIndex] ?? '', decimalSeparator);
+    if (!(close > 0)) {
+      report({
+        row: line,
+        column: header[closeIndex],
+        severity: 'error',
+        message: `Prezzo di chiusura non valido: "${cells[closeIndex] ?? ''}"`,
+      });
+      return;
+    }
+
+    const optionalPrice = (column: PriceColumn): number | undefined => {
+      const columnIndex = indexOf(column);
+      const raw = columnIndex >= 0 ? (cells[columnIndex] ?? '') : '';
+      if (raw.trim() === '') return undefined;
+      const value = parseNumber(raw, decimalSeparator);
+      if (value > 0) return value;
+      report({
+        row: line,
+        column: mapping[column],
+        severity: 'warning',
+        message: `Valore non valido "${raw}": usata la chiusura`,
+      });
+      return undefined;
+    };
+
+    const open = optionalPrice('open') ?? close;
+    const high = optionalPrice('high') ?? Math.max(open, close);
+    const low = optionalPrice('low') ?? Math.min(open, close);
+    const adjustedClose =
+      indexOf('close') >= 0 ? optionalPrice('adjustedClose') : undefined;
+
+    if (high < Math.max(open, close) || low > Math.min(open, close)) {
+      report({
+        row: line,
+        severity: 'warning',
+        message: 'Massimo/minimo incoerenti con apertura e chiusura',
+      });
+    }
+
+    bars.push({
+      date,
+      open,
+      high,
+      low,
+      close,
+      ...(adjustedClose !== undefined && { adjustedClose }),
+      volume: readVolume(
+        cells[indexOf('volume')] ?? '',
+        decimalSeparator,
+        volumeHandler,
+        line,
+        mapping.volume,
+        report
+      ),
+    });
+  });
+
+  return bars;
+}
+
+function readCloseColumn(
+  columnIndex: number,
+  columnName: string,
+  { rows, dates, decimalSeparator, report }: RowContext
+): ImportedBar[] {
+  const bars: ImportedBar[] = [];
+
+  rows.forEach(({ cells, line }, index) => {
+    const date = dates[index];
+    const raw = cells[columnIndex] ?? '';
+    // Celle vuote: il titolo non quotava ancora (o non più) in quella data
+    if (!date || raw.trim() === '') return;
+
+    const close = parseNumber(raw, decimalSeparator);
+    if (!(close > 0)) {
+      report({
+        row: line,
+        column: columnName,
+        severity: 'warning',
+        message: `Prezzo non valido: "${raw}"`,
+      });
+      return;
+    }
+    bars.push({ date, open: close, high: close, low: close, close, volume: 0 });
+  });
+
+  return bars;
+}
+
+/** Volumi con unità (K, M, B) o separatori delle migliaia */
+function readVolume(
+  raw: string,
+  decimalSeparator: '.' | ',',
+  volumeHandler: VolumeHandler,
+  line: number,
+  columnName: string | undefined,
+  report: (issue: ImportIssue) => void
+): number {
+  const value = raw.replace(/\s/g, '');
+  if (value === '' || value === '-') return 0;
+
+  // "1.2M" e "1,2M" sono abbreviazioni; senza unità si tolgono le migliaia
+  const cleaned = /[a-z]$/i.test(value)
+    ? value.replace(',', '.')
+    : decimalSeparator === ','
+      ? value.replace(/\./g, '').replace(',', '.')
+      : value.replace(/,/g, '');
+  const normalized = volumeHandler.testNormalization(cleaned);
+  if (normalized.canNormalize && normalized.result) {
+    return normalized.result.normalizedValue;
+  }
+
+  report({
+    row: line,
+    column: columnName,
+    severity: 'warning',
+    message: `Volume non valido "${raw}": impostato a 0`,
+  });
+  return 0;
+}
+
+/** Ordina per data; a parità di data vale l'ultima riga del file */
+function dedupeByDate(
+  bars: ImportedBar[],
+  symbol: string,
+  report: (issue: ImportIssue) => void
+): ImportedBar[] {
+  const byDate = new Map<string, ImportedBar>();
+  bars.forEach(bar => {
+    if (byDate.has(bar.date)) {
+      report({
+        row: 0,
+        severity: 'warning',
+        message: `${symbol}: data duplicata ${bar.date}, mantenuta l'ultima riga`,
+      });
+    }
+    byDate.set(bar.date, bar);
+  });
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function symbolFromFileName(fileName: string): string {
+  const baseName = fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+  return (
+    sanitizeImportedSymbol(baseName.slice(0, MAX_SYMBOL_LENGTH)) ?? 'IMPORT'
+  );
+}
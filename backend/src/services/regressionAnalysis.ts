@@ -0,0 +1,378 @@
+/**
+ * Regression Analysis per STUDENT ANALYST
+ *
+ * Regressioni OLS dei rendimenti in eccesso: CAPM sul benchmark di mercato
+ * (alpha, beta, R², t-stat, p-value, errore standard dei residui, beta
+ * rolling) e modelli multifattoriali Fama-French a 3/5 fattori con momentum
+ * sui file dei fattori caricati dall'utente.
+ */
+
+import { PriceSeries, RISK_FREE_RATE } from './benchmarkComparison';
+import {
+  FactorDataset,
+  FactorName,
+  FactorObservation,
+  alignFactorsToIntervals,
+} from './factorData';
+import { invertMatrix, mean, twoSidedPValue } from './statistics';
+
+// ========== INTERFACCE ==========
+
+export type FactorModel = 'ff3' | 'carhart' | 'ff5' | 'ff5-mom';
+
+export interface RegressionCoefficient {
+  name: 'ALPHA' | 'MKT' | FactorName;
+  estimate: number;
+  standardError: number;
+  tStat: number;
+  pValue: number;
+}
+
+export interface OlsResult {
+  coefficients: RegressionCoefficient[];
+  observations: number;
+  degreesOfFreedom: number;
+  rSquared: number;
+  adjustedRSquared: number;
+  residualStandardError: number; // per periodo
+}
+
+export interface RegressionResult extends OlsResult {
+  symbol: string;
+  model: 'capm' | FactorModel;
+  annualizedAlpha: number;
+}
+
+export interface CapmResult extends RegressionResult {
+  beta: number;
+  rollingBeta: {
+    window: number;
+    dates: string[];
+    values: Array<number | null>;
+  };
+}
+
+export interface RegressionReport {
+  market: string | null;
+  riskFreeSource: 'factor-file' | 'constant';
+  periodsPerYear: number;
+  capm: CapmResult[];
+  factorModels: RegressionResult[];
+  factorFile: {
+    frequency: FactorDataset['frequency'];
+    factors: FactorName[];
+    hasRiskFree: boolean;
+    unit: FactorDataset['unit'];
+    firstDate: string;
+    lastDate: string;
+    rows: number;
+  } | null;
+  warnings: string[];
+}
+
+// ========== COSTANTI ==========
+
+/** Fattori di ciascun modello (oltre all'intercetta) */
+export const FACTOR_MODELS: Record<FactorModel, FactorName[]> = {
+  ff3: ['MKT_RF', 'SMB', 'HML'],
+  carhart: ['MKT_RF', 'SMB', 'HML', 'MOM'],
+  ff5: ['MKT_RF', 'SMB', 'HML', 'RMW', 'CMA'],
+  'ff5-mom': ['MKT_RF', 'SMB', 'HML', 'RMW', 'CMA', 'MOM'],
+};
+
+/** Osservazioni minime oltre al numero di coefficienti stimati */
+const MIN_RESIDUAL_DEGREES = 10;
+
+/** Finestra minima della beta rolling */
+const MIN_ROLLING_WINDOW = 12;
+
+// ========== OLS ==========
+
+/**
+ * Regressione OLS con intercetta. `regressors` contiene una colonna per
+ * ciascuna variabile esplicativa; restituisce null se la matrice X'X è
+ * singolare o le osservazioni sono insufficienti.
+ */
+export function olsRegression(
+  y: number[],
+  regressors: number[][],
+  names: Array<RegressionCoefficient['name']>
+): OlsResult | null {
+  const n = y.length;
+  const k = regressors.length + 1;
+
+  if (n < k + MIN_RESIDUAL_DEGREES) return null;
+
+  // Matrice del disegno con colonna di 1 per l'intercetta
+  const rows = y.map((_, i) => [1, ...regressors.map(column => column[i])]);
+
+  const xtx = Array.from({ length: k }, (_, a) =>
+    Array.from({ length: k }, (_, b) =>
+      rows.reduce((sum, row) => sum + row[a] * row[b], 0)
+    )
+  );
+  const xty = Array.from({ length: k }, (_, a) =>
+    rows.reduce((sum, row, i) => sum + row[a] * y[i], 0)
+  );
+
+  const inverse = invertMatrix(xtx);
+  if (!inverse) return null;
+
+  const beta = inverse.map(row =>
+    row.reduce((sum, value, j) => sum + value * xty[j], 0)
+  );
+
+  const residuals = rows.map(
+    (row, i) => y[i] - row.reduce((sum, value, j) => sum + value * beta[j], 0)
+  );
+  const sse = residuals.reduce((sum, value) => sum + value * value, 0);
+  const yMean = mean(y);
+  const sst = y.reduce((sum, value) => sum + (value - yMean) ** 2, 0);
+
+  const degreesOfFreedom = n - k;
+  const sigma2 = sse / degreesOfFreedom;
+  const rSquared = sst > 0 ? 1 - sse / sst : 0;
+
+  return {
+    coefficients: beta.map((estimate, j) => {
+      const standardError = Math.sqrt(Math.max(sigma2 * inverse[j][j], 0));
+      const tStat = standardError > 0 ? estimate / standardError : 0;
+      return {
+        name: j === 0 ? 'ALPHA' : names[j - 1],
+        estimate,
+        standardError,
+        tStat,
+        pValue: twoSidedPValue(tStat, degreesOfFreedom),
+      };
+    }),
+    observations: n,
+    degreesOfFreedom,
+    rSquared,
+    adjustedRSquared: 1 - ((1 - rSquared) * (n - 1)) / degreesOfFreedom,
+    residualStandardError: Math.sqrt(sigma2),
+  };
+}
+
+// ========== MODELLI ==========
+
+/**
+ * CAPM e modelli fattoriali per ciascuna serie di prezzi
+ */
+export function calculateRegressionReport(
+  series: PriceSeries[],
+  market: PriceSeries | null,
+  factors: FactorDataset | null,
+  periodsPerYear: number
+): RegressionReport {
+  const warnings: string[] = [];
+  const riskFreePerPeriod =
+    Math.pow(1 + RISK_FREE_RATE, 1 / periodsPerYear) - 1;
+  const rollingWindow = Math.max(
+    MIN_ROLLING_WINDOW,
+    Math.round(periodsPerYear / 4)
+  );
+
+  const availableModels = factors
+    ? (Object.keys(FACTOR_MODELS) as FactorModel[]).filter(model =>
+        FACTOR_MODELS[model].every(name => factors.factors.includes(name))
+      )
+    : [];
+
+  if (!market) {
+    warnings.push('Benchmark di mercato non disponibile: CAPM non calcolato');
+  }
+  if (factors && availableModels.length === 0) {
+    warnings.push(
+      'Il file dei fattori non contiene Mkt-RF, SMB e HML: modelli fattoriali non calcolati'
+    );
+  }
+  if (factors && !factors.hasRiskFree) {
+    warnings.push(
+      `Colonna RF assente nel file: tasso risk-free costante al ${(RISK_FREE_RATE * 100).toFixed(1)}% annuo`
+    );
+  }
+
+  const capm: CapmResult[] = [];
+  const factorModels: RegressionResult[] = [];
+
+  for (const item of series) {
+    const intervals = toIntervalReturns(item);
+    if (intervals.returns.length === 0) continue;
+
+    const factorRows = factors
+      ? alignFactorsToIntervals(factors, intervals.dates)
+      : intervals.returns.map(() => null);
+    const riskFree = factorRows.map(row => row?.RF ?? riskFreePerPeriod);
+
+    if (market) {
+      const result = runCapm(
+        item.symbol,
+        intervals,
+        market,
+        riskFree,
+        periodsPerYear,
+        rollingWindow
+      );
+      if (result) capm.push(result);
+    }
+
+    for (const model of availableModels) {
+      const result = runFactorModel(
+        item.symbol,
+        model,
+        intervals.returns,
+        factorRows,
+        riskFree,
+        periodsPerYear
+      );
+      if (result) factorModels.push(result);
+    }
+  }
+
+  if (factors && availableModels.length > 0 && factorModels.length === 0) {
+    warnings.push(
+      'Nessuna sovrapposizione sufficiente tra il periodo analizzato e il file dei fattori'
+    );
+  }
+
+  return {
+    market: market?.symbol ?? null,
+    riskFreeSource: factors?.hasRiskFree ? 'factor-file' : 'constant',
+    periodsPerYear,
+    capm,
+    factorModels,
+    factorFile: factors
+      ? {
+          frequency: factors.frequency,
+          factors: factors.factors,
+          hasRiskFree: factors.hasRiskFree,
+          unit: factors.unit,
+          firstDate: factors.dates[0],
+          lastDate: factors.dates[factors.dates.length - 1],
+          rows: factors.dates.length,
+        }
+      : null,
+    warnings,
+  };
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+/**
+ * Rendimenti tra date consecutive con prezzo disponibile.
+ * `dates` ha un elemento in più di `returns` (la data iniziale).
+ */
+function toIntervalReturns(series: PriceSeries): {
+  dates: string[];
+  returns: number[];
+} {
+  const dates: string[] = [];
+  const prices: number[] = [];
+  series.dates.forEach((date, i) => {
+    const price = series.prices[i];
+    if (price !== null && price !== undefined && price > 0) {
+      dates.push(date);
+      prices.push(price);
+    }
+  });
+
+  return {
+    dates,
+    returns: prices.slice(1).map((price, i) => price / prices[i] - 1),
+  };
+}
+
+function runCapm(
+  symbol: string,
+  intervals: { dates: string[]; returns: number[] },
+  market: PriceSeries,
+  riskFree: number[],
+  periodsPerYear: number,
+  rollingWindow: number
+): CapmResult | null {
+  const marketPrices = new Map<string, number>();
+  market.dates.forEach((date, i) => {
+    const price = market.prices[i];
+    if (price !== null && price !== undefined && price > 0) {
+      marketPrices.set(date, price);
+    }
+  });
+
+  const y: number[] = [];
+  const x: number[] = [];
+  const dates: string[] = [];
+
+  intervals.returns.forEach((value, i) => {
+    const from = marketPrices.get(intervals.dates[i]);
+    const to = marketPrices.get(intervals.dates[i + 1]);
+    if (from === undefined || to === undefined) return;
+
+    y.push(value - riskFree[i]);
+    x.push(to / from - 1 - riskFree[i]);
+    dates.push(intervals.dates[i + 1]);
+  });
+
+  const ols = olsRegression(y, [x], ['MKT']);
+  if (!ols) return null;
+
+  const rollingValues = dates.map((_, end) => {
+    if (end + 1 < rollingWindow) return null;
+    const start = end + 1 - rollingWindow;
+    return slopeOf(x.slice(start, end + 1), y.slice(start, end + 1));
+  });
+
+  return {
+    symbol,
+    model: 'capm',
+    ...ols,
+    annualizedAlpha: ols.coefficients[0].estimate * periodsPerYear,
+    beta: ols.coefficients[1].estimate,
+    rollingBeta: { window: rollingWindow, dates, values: rollingValues },
+  };
+}
+
+function runFactorModel(
+  symbol: string,
+  model: FactorModel,
+  returns: number[],
+  factorRows: Array<FactorObservation | null>,
+  riskFree: number[],
+  periodsPerYear: number
+): RegressionResult | null {
+  const names = FACTOR_MODELS[model];
+  const y: number[] = [];
+  const columns: number[][] = names.map(() => []);
+
+  returns.forEach((value, i) => {
+    const row = factorRows[i];
+    if (!row || names.some(name => row[name] === undefined)) return;
+
+    y.push(value - riskFree[i]);
+    names.forEach((name, j) => columns[j].push(row[name]!));
+  });
+
+  const ols = olsRegression(y, columns, names);
+  if (!ols) return null;
+
+  return {
+    symbol,
+    model,
+    ...ols,
+    annualizedAlpha: ols.coefficients[0].estimate * periodsPerYear,
+  };
+}
+
+/**
+ * Pendenza della regressione semplice di y su x (beta della finestra)
+ */
+function slopeOf(x: number[], y: number[]): number | null {
+  const xMean = mean(x);
+  const yMean = mean(y);
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - xMean) * (y[i] - yMean);
+    varianceX += (x[i] - xMean) ** 2;
+  }
+  return varianceX > 0 ? covariance / varianceX : null;
+}
@@ -0,0 +1,339 @@
+/**
+ * Return Distribution per STUDENT ANALYST
+ *
+ * Statistiche della distribuzione dei rendimenti di ciascun ticker e del
+ * portafoglio: media, mediana, momenti di ordine superiore, percentili,
+ * scarto interquartile e coefficiente di variazione; test di normalità di
+ * Jarque-Bera e Shapiro-Wilk (approssimazione di Royston), frequenza delle
+ * code oltre ±2σ e ±3σ rispetto alla normale, istogramma con la normale
+ * adattata e punti del grafico Q-Q. Le statistiche sono per periodo alla
+ * frequenza dell'analisi.
+ */
+
+import {
+  buildHistogram,
+  excessKurtosis,
+  Histogram,
+  inverseNormalCdf,
+  isFiniteNumber,
+  mean,
+  normalCdf,
+  quantileSorted,
+  skewness,
+  standardDeviation,
+} from './statistics';
+
+// ========== INTERFACCE ==========
+
+export interface DistributionInput {
+  symbol: string;
+  returns: (number | null)[]; // null dove la serie non ha dati
+}
+
+export interface Percentile {
+  level: number; // 0.05 = 5° percentile
+  value: number;
+}
+
+export interface NormalityTest {
+  statistic: number;
+  pValue: number;
+  rejectNormality: boolean; // al livello di significatività del report
+}
+
+export interface TailFrequency {
+  sigmas: number; // soglia in deviazioni standard dalla media
+  below: number; // osservazioni sotto μ − kσ
+  above: number; // osservazioni sopra μ + kσ
+  frequency: number; // quota osservata oltre ±kσ
+  normalFrequency: number; // quota attesa con una normale
+  ratio: number; // osservata / attesa
+}
+
+export interface DistributionHistogram extends Histogram {
+  normalCounts: number[]; // osservazioni attese con la normale adattata
+}
+
+export interface QQPoint {
+  theoretical: number; // quantile della normale standard
+  sample: number; // rendimento standardizzato corrispondente
+}
+
+export interface SeriesDistribution {
+  symbol: string;
+  observations: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+  skewness: number;
+  excessKurtosis: number;
+  percentiles: Percentile[];
+  interquartileRange: number;
+  coefficientOfVariation: number | null; // null con media nulla
+  jarqueBera: NormalityTest;
+  shapiroWilk: NormalityTest | null; // null oltre MAX_SHAPIRO_OBSERVATIONS
+  tails: TailFrequency[];
+  histogram: DistributionHistogram;
+  qqPlot: QQPoint[];
+}
+
+export interface DistributionReport {
+  significance: number;
+  tickers: SeriesDistribution[];
+  portfolio: SeriesDistribution | null;
+}
+
+// ========== COSTANTI ==========
+
+export const NORMALITY_SIGNIFICANCE = 0.05;
+
+/** Osservazioni minime per le statistiche di distribuzione */
+export const MIN_DISTRIBUTION_OBSERVATIONS = 20;
+
+/** Campo di validità dell'approssimazione di Royston */
+export const MAX_SHAPIRO_OBSERVATIONS = 5000;
+
+export const PERCENTILE_LEVELS = [
+  0.01, 0.05, 0.1, 0.25, 0.5, 0.75, 0.9, 0.95, 0.99,
+];
+
+const TAIL_SIGMAS = [2, 3];
+
+const HISTOGRAM_BINS = 30;
+
+// Punti del grafico Q-Q (ordine dei ranghi, estremi sempre inclusi)
+const MAX_QQ_POINTS = 200;
+
+// ========== CALCOLO ==========
+
+/**
+ * Statistiche di distribuzione di ticker e portafoglio.
+ * Le serie con meno di MIN_DISTRIBUTION_OBSERVATIONS rendimenti sono escluse.
+ */
+export function calculateReturnDistribution(
+  series: DistributionInput[],
+  portfolio: DistributionInput | null
+): DistributionReport {
+  return {
+    significance: NORMALITY_SIGNIFICANCE,
+    tickers: series
+      .map(input => describeDistribution(input))
+      .filter((report): report is SeriesDistribution => report !== null),
+    portfolio: portfolio ? describeDistribution(portfolio) : null,
+  };
+}
+
+/**
+ * Statistiche di distribuzione di una serie di rendimenti
+ */
+export function describeDistribution(
+  input: DistributionInput
+): SeriesDistribution | null {
+  const returns = input.returns.filter(isFiniteNumber);
+  const n = returns.length;
+  if (n < MIN_DISTRIBUTION_OBSERVATIONS) return null;
+
+  const sorted = [...returns].sort((a, b) => a - b);
+  const average = mean(returns);
+  const sigma = standardDeviation(returns);
+  const quantile = (level: number) => quantileSorted(sorted, level);
+
+  return {
+    symbol: input.symbol,
+    observations: n,
+    mean: average,
+    median: quantile(0.5),
+    standardDeviation: sigma,
+    skewness: skewness(returns),
+    excessKurtosis: excessKurtosis(returns),
+    percentiles: PERCENTILE_LEVELS.map(level => ({
+      level,
+      value: quantile(level),
+    })),
+    interquartileRange: quantile(0.75) - quantile(0.25),
+    coefficientOfVariation:
+      Math.abs(average) > 1e-12 ? sigma / Math.abs(average) : null,
+    jarqueBera: jarqueBeraTest(returns),
+    shapiroWilk: shapiroWilkTest(sorted),
+    tails: TAIL_SIGMAS.map(sigmas => tailFrequency(returns, sigmas)),
+    histogram: buildDistributionHistogram(sorted, average, sigma),
+    qqPlot: buildQQPlot(sorted, average, sigma),
+  };
+}
+
+// ========== TEST DI NORMALITÀ ==========
+
+/**
+ * Jarque-Bera: JB = n/6 · (S² + K²/4), con S asimmetria e K curtosi in
+ * eccesso; sotto normalità JB ~ χ²(2), quindi p = e^(−JB/2)
+ */
+export function jarqueBeraTest(
+  values: number[],
+  significance = NORMALITY_SIGNIFICANCE
+): NormalityTest {
+  const n = values.length;
+  const s = skewness(values);
+  const k = excessKurtosis(values);
+  const statistic = (n / 6) * (s * s + (k * k) / 4);
+  const pValue = Math.exp(-statistic / 2);
+
+  return { statistic, pValue, rejectNormality: pValue < significance };
+}
+
+/**
+ * Shapiro-Wilk con coefficienti e p-value dell'algoritmo di Royston (1995),
+ * valido per 3 ≤ n ≤ 5000. Null fuori da questo intervallo o con varianza
+ * nulla.
+ */
+export function shapiroWilkTest(
+  values: number[],
+  significance = NORMALITY_SIGNIFICANCE
+): NormalityTest | null {
+  const n = values.length;
+  if (n < 3 || n > MAX_SHAPIRO_OBSERVATIONS) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const average = mean(sorted);
+  const squares = sorted.reduce(
+    (sum, value) => sum + (value - average) ** 2,
+    0
+  );
+  if (!(squares > 0)) return null;
+
+  const weights = shapiroWilkWeights(n);
+  const numerator = sorted.reduce(
+    (sum, value, i) => sum + weights[i] * value,
+    0
+  );
+  const statistic = Math.min(1, (numerator * numerator) / squares);
+  const pValue = shapiroWilkPValue(statistic, n);
+
+  return { statistic, pValue, rejectNormality: pValue < significance };
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+// Coefficienti aᵢ di Royston: quantili normali attesi corretti agli estremi
+function shapiroWilkWeights(n: number): number[] {
+  if (n === 3) return [-Math.SQRT1_2, 0, Math.SQRT1_2];
+
+  const m = Array.from({ length: n }, (_, i) =>
+    inverseNormalCdf((i + 1 - 0.375) / (n + 0.25))
+  );
+  const mm = m.reduce((sum, value) => sum + value * value, 0);
+  const u = 1 / Math.sqrt(n);
+  const polynomial = (coefficients: number[]) =>
+    coefficients.reduce((sum, c, power) => sum + c * u ** (power + 1), 0);
+
+  const last = m[n - 1] / Math.sqrt(mm);
+  const aN =
+    last + polynomial([0.221157, -0.147981, -2.07119, 4.434685, -2.706056]);
+  const weights = new Array<number>(n).fill(0);
+  weights[n - 1] = aN;
+  weights[0] = -aN;
+
+  if (n > 5) {
+    const aN1 =
+      m[n - 2] / Math.sqrt(mm) +
+      polynomial([0.042981, -0.293762, -1.752461, 5.682633, -3.582633]);
+    const phi =
+      (mm - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) /
+      (1 - 2 * aN ** 2 - 2 * aN1 ** 2);
+    weights[n - 2] = aN1;
+    weights[1] = -aN1;
+    for (let i = 2; i < n - 2; i++) weights[i] = m[i] / Math.sqrt(phi);
+  } else {
+    const phi = (mm - 2 * m[n - 1] ** 2) / (1 - 2 * aN ** 2);
+    for (let i = 1; i < n - 1; i++) weights[i] = m[i] / Math.sqrt(phi);
+  }
+
+  return weights;
+}
+
+// P-value di Royston: trasformazione normalizzante di W
+function shapiroWilkPValue(statistic: number, n: number): number {
+  if (n === 3) {
+    const p =
+      (6 / Math.PI) *
+      (Math.asin(Math.sqrt(statistic)) - Math.asin(Math.sqrt(0.75)));
+    return Math.min(1, Math.max(0, p));
+  }
+  if (statistic >= 1) return 1;
+
+  let z: number;
+  if (n <= 11) {
+    const gamma = 0.459 * n - 2.273;
+    const mu = 0.544 - 0.39978 * n + 0.025054 * n ** 2 - 0.0006714 * n ** 3;
+    const sigma = Math.exp(
+      1.3822 - 0.77857 * n + 0.062767 * n ** 2 - 0.0020322 * n ** 3
+    );
+    const transformed = gamma - Math.log(1 - statistic);
+    if (!(transformed > 0)) return 0;
+    z = (-Math.log(transformed) - mu) / sigma;
+  } else {
+    const logN = Math.log(n);
+    const mu =
+      0.0038915 * logN ** 3 - 0.083751 * logN ** 2 - 0.31082 * logN - 1.5861;
+    const sigma = Math.exp(0.0030302 * logN ** 2 - 0.082676 * logN - 0.4803);
+    z = (Math.log(1 - statistic) - mu) / sigma;
+  }
+
+  return 1 - normalCdf(z);
+}
+
+function tailFrequency(returns: number[], sigmas: number): TailFrequency {
+  const average = mean(returns);
+  const sigma = standardDeviation(returns);
+  const below = returns.filter(
+    value => value < average - sigmas * sigma
+  ).length;
+  const above = returns.filter(
+    value => value > average + sigmas * sigma
+  ).length;
+  const frequency = (below + above) / returns.length;
+  const normalFrequency = 2 * (1 - normalCdf(sigmas));
+
+  return {
+    sigmas,
+    below,
+    above,
+    frequency,
+    normalFrequency,
+    ratio: frequency / normalFrequency,
+  };
+}
+
+// Istogramma a intervalli uguali con le osservazioni attese sotto N(μ, σ²)
+function buildDistributionHistogram(
+  sorted: number[],
+  average: number,
+  sigma: number
+): DistributionHistogram {
+  const { binEdges, counts } = buildHistogram(sorted, HISTOGRAM_BINS);
+
+  const cdf = (value: number) =>
+    sigma > 0 ? normalCdf((value - average) / sigma) : value >= average ? 1 : 0;
+  const normalCounts = counts.map(
+    (_, i) => sorted.length * (cdf(binEdges[i + 1]) - cdf(binEdges[i]))
+  );
+
+  return { binEdges, counts, normalCounts };
+}
+
+// Quantili campionari standardizzati contro le posizioni di Blom
+function buildQQPlot(
+  sorted: number[],
+  average: number,
+  sigma: number
+): QQPoint[] {
+  const n = sorted.length;
+  const count = Math.min(n, MAX_QQ_POINTS);
+  const indices = Array.from({ length: count }, (_, k) =>
+    count > 1 ? Math.round((k * (n - 1)) / (count - 1)) : 0
+  );
+
+  return indices.map(i => ({
+    theoretical: inverseNormalCdf((i + 1 - 0.375) / (n + 0.25)),
+    sample: sigma > 0 ? (sorted[i] - average) / sigma : 0,
+  }));
+}
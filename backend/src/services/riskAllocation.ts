@@ -0,0 +1,427 @@
+/**
+ * Risk Allocation per STUDENT ANALYST
+ *
+ * Allocatori basati sul rischio che usano solo covarianze e correlazioni
+ * (nessuna stima dei rendimenti attesi): equal risk contribution (risk
+ * parity), massima diversificazione, minima correlazione e hierarchical
+ * risk parity. Per ogni allocazione riporta il contributo di ciascun titolo
+ * al rischio totale.
+ */
+
+import { invertMatrix, normalCdf } from './statistics';
+
+// ========== INTERFACCE ==========
+
+export type AllocationMethod =
+  | 'equal-risk-contribution'
+  | 'maximum-diversification'
+  | 'minimum-correlation'
+  | 'hierarchical-risk-parity';
+
+export interface AllocationResult {
+  method: AllocationMethod;
+  weights: Record<string, number>; // frazioni, somma 1
+  riskContributions: Record<string, number>; // quota del rischio totale, somma 1
+  volatility: number; // annualizzata
+  diversificationRatio: number; // Σ wᵢσᵢ / σ_p
+}
+
+export interface RiskAllocationReport {
+  symbols: string[];
+  periodsPerYear: number;
+  allocations: AllocationResult[];
+  hierarchicalOrder: string[]; // ordine quasi-diagonale dei titoli (HRP)
+}
+
+interface ClusterNode {
+  items: number[];
+  children?: [ClusterNode, ClusterNode];
+}
+
+// ========== COSTANTI ==========
+
+export const ALLOCATION_METHODS: AllocationMethod[] = [
+  'equal-risk-contribution',
+  'maximum-diversification',
+  'minimum-correlation',
+  'hierarchical-risk-parity',
+];
+
+const MAX_ITERATIONS = 1000;
+const CONVERGENCE_TOLERANCE = 1e-12;
+
+// ========== FUNZIONI PUBBLICHE ==========
+
+/**
+ * Tutte le allocazioni a partire dalle matrici di covarianza (per periodo)
+ * e correlazione calcolate nell'analisi. Null se meno di due titoli o se
+ * un titolo ha varianza nulla.
+ */
+export function calculateRiskAllocations(
+  symbols: string[],
+  covariance: number[][],
+  correlation: number[][],
+  periodsPerYear: number
+): RiskAllocationReport | null {
+  if (symbols.length < 2 || covariance.length !== symbols.length) {
+    return null;
+  }
+  if (covariance.some((row, i) => !(row[i] > 0))) {
+    return null;
+  }
+
+  const hrp = hierarchicalRiskParity(covariance, correlation);
+  const weightsByMethod: Record<AllocationMethod, number[]> = {
+    'equal-risk-contribution': equalRiskContribution(covariance),
+    'maximum-diversification': maximumDiversification(covariance),
+    'minimum-correlation': minimumCorrelation(covariance, correlation),
+    'hierarchical-risk-parity': hrp.weights,
+  };
+
+  return {
+    symbols,
+    periodsPerYear,
+    allocations: ALLOCATION_METHODS.map(method =>
+      describeAllocation(
+        method,
+        symbols,
+        weightsByMethod[method],
+        covariance,
+        periodsPerYear
+      )
+    ),
+    hierarchicalOrder: hrp.order.map(i => symbols[i]),
+  };
+}
+
+/**
+ * Contributo percentuale al rischio: RCᵢ = wᵢ (Σw)ᵢ / w'Σw
+ */
+export function riskContributions(
+  weights: number[],
+  covariance: number[][]
+): number[] {
+  const marginal = multiply(covariance, weights);
+  const total = weights.reduce((sum, w, i) => sum + w * marginal[i], 0);
+  return weights.map((w, i) => (total > 0 ? (w * marginal[i]) / total : 0));
+}
+
+/**
+ * Equal risk contribution (risk parity): ogni titolo contribuisce in egual
+ * misura al rischio. Discesa ciclica per coordinate: xᵢ risolve
+ * xᵢ (Σx)ᵢ = 1/n, poi i pesi vengono normalizzati.
+ */
+export function equalRiskContribution(covariance: number[][]): number[] {
+  const n = covariance.length;
+  const budget = 1 / n;
+  const x = covariance.map((row, i) => 1 / Math.sqrt(row[i]));
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      const a = covariance[i][i];
+      const c = covariance[i].reduce(
+        (sum, value, j) => (j === i ? sum : sum + value * x[j]),
+        0
+      );
+      const next = (-c + Math.sqrt(c * c + 4 * a * budget)) / (2 * a);
+      change = Math.max(change, Math.abs(next - x[i]) / x[i]);
+      x[i] = next;
+    }
+    if (change < CONVERGENCE_TOLERANCE) break;
+  }
+
+  return normalize(x);
+}
+
+/**
+ * Massima diversificazione (Choueifaty): massimizza Σ wᵢσᵢ / σ_p.
+ * Equivale alla varianza minima long-only sulla matrice di correlazione,
+ * riscalata per le volatilità.
+ */
+export function maximumDiversification(covariance: number[][]): number[] {
+  const volatilities = covariance.map((row, i) => Math.sqrt(row[i]));
+  const correlation = covariance.map((row, i) =>
+    row.map((value, j) => value / (volatilities[i] * volatilities[j]))
+  );
+
+  const y = minimumVarianceLongOnly(correlation);
+  return normalize(y.map((value, i) => value / volatilities[i]));
+}
+
+/**
+ * Minimum correlation algorithm (Varadi-Kapler): correlazioni convertite
+ * in punteggi 1 − Φ(z), pesi per rango delle medie dei punteggi
+ * moltiplicati per la matrice dei punteggi, infine scalati per l'inverso
+ * della volatilità.
+ */
+export function minimumCorrelation(
+  covariance: number[][],
+  correlation: number[][]
+): number[] {
+  const n = correlation.length;
+  const pairs: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) pairs.push(correlation[i][j]);
+  }
+  const average = pairs.reduce((sum, value) => sum + value, 0) / pairs.length;
+  const deviation = Math.sqrt(
+    pairs.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+      Math.max(pairs.length - 1, 1)
+  );
+
+  // Punteggio alto = correlazione bassa rispetto alla media delle coppie
+  const adjusted = correlation.map((row, i) =>
+    row.map((value, j) =>
+      i === j
+        ? 0
+        : deviation > 0
+          ? 1 - normalCdf((value - average) / deviation)
+          : 0.5
+    )
+  );
+
+  const rowAverages = adjusted.map(
+    row => row.reduce((sum, value) => sum + value, 0) / (n - 1)
+  );
+  // Rango 1 al titolo meno correlato: il suo peso deriva dai punteggi verso
+  // gli altri titoli, pesati dai loro ranghi
+  const rankWeights = normalize(averageRanks(rowAverages.map(value => -value)));
+  const combined = normalize(multiply(adjusted, rankWeights));
+
+  return normalize(
+    combined.map((value, i) => value / Math.sqrt(covariance[i][i]))
+  );
+}
+
+/**
+ * Hierarchical risk parity (López de Prado): clustering single-linkage sulle
+ * distanze di correlazione, ordinamento quasi-diagonale e bisezione
+ * ricorsiva con varianze dei cluster a pesi inversi della varianza.
+ */
+export function hierarchicalRiskParity(
+  covariance: number[][],
+  correlation: number[][]
+): { weights: number[]; order: number[] } {
+  const order = quasiDiagonalOrder(correlation);
+  const weights = new Array<number>(order.length).fill(1);
+
+  const queue: number[][] = [order];
+  while (queue.length > 0) {
+    const cluster = queue.shift()!;
+    if (cluster.length < 2) continue;
+
+    const half = Math.floor(cluster.length / 2);
+    const left = cluster.slice(0, half);
+    const right = cluster.slice(half);
+    const leftVariance = clusterVariance(covariance, left);
+    const rightVariance = clusterVariance(covariance, right);
+    const alpha = 1 - leftVariance / (leftVariance + rightVariance);
+
+    left.forEach(i => (weights[i] *= alpha));
+    right.forEach(i => (weights[i] *= 1 - alpha));
+    queue.push(left, right);
+  }
+
+  return { weights: normalize(weights), order };
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+function describeAllocation(
+  method: AllocationMethod,
+  symbols: string[],
+  weights: number[],
+  covariance: number[][],
+  periodsPerYear: number
+): AllocationResult {
+  const contributions = riskContributions(weights, covariance);
+  const marginal = multiply(covariance, weights);
+  const variance = weights.reduce((sum, w, i) => sum + w * marginal[i], 0);
+  const volatility = Math.sqrt(Math.max(variance, 0));
+  const weightedVolatility = weights.reduce(
+    (sum, w, i) => sum + w * Math.sqrt(covariance[i][i]),
+    0
+  );
+
+  return {
+    method,
+    weights: Object.fromEntries(symbols.map((s, i) => [s, weights[i]])),
+    riskContributions: Object.fromEntries(
+      symbols.map((s, i) => [s, contributions[i]])
+    ),
+    volatility: volatility * Math.sqrt(periodsPerYear),
+    diversificationRatio: volatility > 0 ? weightedVolatility / volatility : 1,
+  };
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map(row =>
+    row.reduce((sum, value, j) => sum + value * vector[j], 0)
+  );
+}
+
+function normalize(values: number[]): number[] {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return values.map(value => (total > 0 ? value / total : 1 / values.length));
+}
+
+/**
+ * Ranghi crescenti (1 = valore più basso), media dei ranghi in caso di parità
+ */
+function averageRanks(values: number[]): number[] {
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (
+      end + 1 < order.length &&
+      order[end + 1].value === order[start].value
+    ) {
+      end++;
+    }
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k].index] = rank;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Varianza minima con pesi ≥ 0 e somma 1 (insieme attivo: i titoli a peso
+ * nullo restano esclusi finché il loro moltiplicatore è positivo)
+ */
+function minimumVarianceLongOnly(matrix: number[][]): number[] {
+  const n = matrix.length;
+  const weights = new Array<number>(n).fill(1 / n);
+  const active = new Array<boolean>(n).fill(false); // true = fissato a zero
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const free = weights.map((_, i) => i).filter(i => !active[i]);
+    const inverse = invertMatrix(free.map(i => free.map(j => matrix[i][j])));
+    if (!inverse) break;
+
+    // Varianza minima sui soli titoli liberi: w ∝ Σ⁻¹1
+    const raw = inverse.map(row => row.reduce((sum, value) => sum + value, 0));
+    const total = raw.reduce((sum, value) => sum + value, 0);
+    const candidate = raw.map(value => value / total);
+
+    let step = 1;
+    let blocking = -1;
+    free.forEach((i, k) => {
+      if (candidate[k] < 0) {
+        const limit = weights[i] / (weights[i] - candidate[k]);
+        if (limit < step) {
+          step = limit;
+          blocking = i;
+        }
+      }
+    });
+    free.forEach((i, k) => {
+      weights[i] += step * (candidate[k] - weights[i]);
+    });
+
+    if (blocking >= 0) {
+      active[blocking] = true;
+      weights[blocking] = 0;
+      continue;
+    }
+
+    // Rilascia il titolo escluso con gradiente inferiore a quello dei liberi
+    const gradient = multiply(matrix, weights);
+    const freeGradient = gradient[free[0]];
+    let release = -1;
+    let worst = -CONVERGENCE_TOLERANCE;
+    active.forEach((isActive, i) => {
+      if (!isActive) return;
+      const multiplier = gradient[i] - freeGradient;
+      if (multiplier < worst) {
+        worst = multiplier;
+        release = i;
+      }
+    });
+
+    if (release < 0) break;
+    active[release] = false;
+  }
+
+  return weights;
+}
+
+/**
+ * Ordine delle foglie del dendrogramma single-linkage costruito sulla
+ * distanza euclidea tra i vettori di distanza dᵢⱼ = √(½(1 − ρᵢⱼ))
+ */
+function quasiDiagonalOrder(correlation: number[][]): number[] {
+  const n = correlation.length;
+  const distance = correlation.map(row =>
+    row.map(value => Math.sqrt(Math.max(0, 0.5 * (1 - value))))
+  );
+  const pairDistance = distance.map((rowI, i) =>
+    distance.map((rowJ, j) =>
+      i === j
+        ? 0
+        : Math.sqrt(
+            rowI.reduce((sum, value, k) => sum + (value - rowJ[k]) ** 2, 0)
+          )
+    )
+  );
+
+  let clusters: ClusterNode[] = correlation.map((_, i) => ({ items: [i] }));
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, distance: Infinity };
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        let linkage = Infinity;
+        for (const i of clusters[a].items) {
+          for (const j of clusters[b].items) {
+            linkage = Math.min(linkage, pairDistance[i][j]);
+          }
+        }
+        if (linkage < best.distance) best = { a, b, distance: linkage };
+      }
+    }
+
+    const merged: ClusterNode = {
+      items: [...clusters[best.a].items, ...clusters[best.b].items],
+      children: [clusters[best.a], clusters[best.b]],
+    };
+    clusters = [
+      ...clusters.filter((_, k) => k !== best.a && k !== best.b),
+      merged,
+    ];
+  }
+
+  const order: number[] = [];
+  const visit = (node: ClusterNode) => {
+    if (node.children) {
+      visit(node.children[0]);
+      visit(node.children[1]);
+    } else {
+      order.push(...node.items);
+    }
+  };
+  if (n > 0) visit(clusters[0]);
+  return order;
+}
+
+/**
+ * Varianza di un cluster con pesi inversamente proporzionali alla varianza
+ */
+function clusterVariance(covariance: number[][], items: number[]): number {
+  const inverseVariance = normalize(items.map(i => 1 / covariance[i][i]));
+  return items.reduce(
+    (sum, i, a) =>
+      sum +
+      items.reduce(
+        (inner, j, b) =>
+          inner + inverseVariance[a] * inverseVariance[b] * covariance[i][j],
+        0
+      ),
+    0
+  );
+}
@@ -0,0 +1,536 @@
+/**
+ * Stationarity Tests per STUDENT ANALYST
+ *
+ * Fondamenta di stazionarietà del workflow quantitativo: test ADF
+ * (Augmented Dickey-Fuller, H0 radice unitaria, ritardi scelti per AIC) e
+ * KPSS (H0 stazionarietà in livello) su prezzi e rendimenti di ciascun
+ * ticker. Se i prezzi non sono stazionari si applicano in sequenza le
+ * trasformazioni raccomandate (logaritmo, differenza prima, differenza
+ * seconda) ripetendo i test dopo ognuna; la serie finale viene validata
+ * confrontando media e varianza delle due metà del campione.
+ */
+
+import {
+  invertMatrix,
+  isFiniteNumber,
+  mean,
+  normalCdf,
+  variance,
+} from './statistics';
+
+// ========== INTERFACCE ==========
+
+export type StationarityVerdict =
+  | 'stationary'
+  | 'non-stationary'
+  | 'inconclusive';
+
+export type Transformation =
+  | 'level'
+  | 'log'
+  | 'difference'
+  | 'log-difference'
+  | 'second-difference';
+
+export interface CriticalValue {
+  level: number; // livello di significatività (0.01 = 1%)
+  value: number;
+}
+
+export interface UnitRootTest {
+  statistic: number;
+  pValue: number;
+  // 'lower': il p-value reale è maggiore, 'upper': è minore (tabella KPSS)
+  pValueBound: 'lower' | 'upper' | null;
+  criticalValues: CriticalValue[];
+  lags: number;
+  observations: number; // osservazioni usate nella regressione / nel test
+  rejectNull: boolean; // al livello di significatività del report
+}
+
+export interface AdfResult extends UnitRootTest {
+  maxLag: number; // ritardo massimo provato nella selezione per AIC
+  aic: number;
+}
+
+export type KpssResult = UnitRootTest;
+
+export interface HalfSampleValidation {
+  firstMean: number;
+  secondMean: number;
+  firstVariance: number;
+  secondVariance: number;
+  meanTStat: number; // differenza delle medie / errore standard
+  varianceRatio: number; // seconda metà / prima metà
+  stable: boolean;
+}
+
+export interface SeriesStationarity {
+  observations: number;
+  adf: AdfResult;
+  kpss: KpssResult;
+  verdict: StationarityVerdict;
+  validation: HalfSampleValidation;
+}
+
+export interface TransformationStep extends SeriesStationarity {
+  transformation: Transformation;
+}
+
+export interface StationarityInput {
+  symbol: string;
+  prices: (number | null)[]; // null dove la serie non ha dati
+  returns: (number | null)[];
+}
+
+export interface TickerStationarity {
+  symbol: string;
+  logPreferred: boolean; // crescita esponenziale: trend log-lineare migliore
+  steps: TransformationStep[]; // il primo passo è il livello dei prezzi
+  recommended: Transformation | null; // null se nessun passo è stazionario
+  returns: SeriesStationarity | null;
+}
+
+export interface StationarityReport {
+  significance: number;
+  minObservations: number;
+  tickers: TickerStationarity[];
+}
+
+// ========== COSTANTI ==========
+
+export const STATIONARITY_SIGNIFICANCE = 0.05;
+
+/** Osservazioni minime per eseguire i test */
+export const MIN_STATIONARITY_OBSERVATIONS = 30;
+
+/** Osservazioni minime oltre al numero di coefficienti della regressione ADF */
+const MIN_RESIDUAL_DEGREES = 10;
+
+// MacKinnon (2010), regressione con costante: β∞ + β1/T + β2/T² + β3/T³
+const ADF_CRITICAL_COEFFICIENTS: Array<{ level: number; beta: number[] }> = [
+  { level: 0.01, beta: [-3.43035, -6.5393, -16.786, -79.433] },
+  { level: 0.05, beta: [-2.86154, -2.8903, -4.234, -40.04] },
+  { level: 0.1, beta: [-2.56677, -1.5384, -2.809, 0] },
+];
+
+// MacKinnon (1994), superficie di risposta del p-value con costante
+const ADF_TAU_MAX = 2.74;
+const ADF_TAU_MIN = -18.83;
+const ADF_TAU_STAR = -1.61;
+const ADF_SMALL_P = [2.1659, 1.4412, 0.038269];
+const ADF_LARGE_P = [1.7339, 0.93202, -0.12745, -0.010368];
+
+// Kwiatkowski et al. (1992), stazionarietà in livello
+const KPSS_CRITICAL_VALUES: CriticalValue[] = [
+  { level: 0.1, value: 0.347 },
+  { level: 0.05, value: 0.463 },
+  { level: 0.025, value: 0.574 },
+  { level: 0.01, value: 0.739 },
+];
+
+// Soglie della validazione sulle due metà del campione
+const MAX_MEAN_T_STAT = 1.96;
+const MAX_VARIANCE_RATIO = 2;
+
+// ========== TEST ==========
+
+/**
+ * Test ADF con costante: Δyₜ = α + γ·yₜ₋₁ + Σ δᵢ·Δyₜ₋ᵢ + εₜ.
+ * Il numero di ritardi minimizza l'AIC su un campione comune fino a
+ * maxLag (default ⌊12·(n/100)^¼⌋); la regressione finale usa tutto il
+ * campione disponibile. Null se le osservazioni sono insufficienti o la
+ * matrice X'X è singolare.
+ */
+export function adfTest(
+  series: number[],
+  maxLag?: number,
+  significance = STATIONARITY_SIGNIFICANCE
+): AdfResult | null {
+  const n = series.length;
+  const diffs = difference(series);
+
+  // Ritardo massimo compatibile con i gradi di libertà residui
+  const feasible = Math.floor((n - 1 - 2 - MIN_RESIDUAL_DEGREES) / 2);
+  const upper = Math.min(
+    maxLag ?? Math.floor(12 * Math.pow(n / 100, 1 / 4)),
+    feasible
+  );
+  if (upper < 0) return null;
+
+  // Selezione per AIC su un campione comune (stessa variabile dipendente)
+  const common = adfDesign(series, diffs, upper, upper);
+  let best = { lag: -1, aic: Infinity };
+  for (let lag = 0; lag <= upper; lag++) {
+    const k = lag + 2;
+    const fit = solveNormalEquations(
+      common.xtx.slice(0, k).map(row => row.slice(0, k)),
+      common.xty.slice(0, k),
+      common.yty
+    );
+    if (!fit) continue;
+    const aic =
+      common.observations * Math.log(fit.rss / common.observations) + 2 * k;
+    if (aic < best.aic) best = { lag, aic };
+  }
+  if (best.lag < 0) return null;
+
+  const design = adfDesign(series, diffs, best.lag, best.lag);
+  const fit = solveNormalEquations(design.xtx, design.xty, design.yty);
+  if (!fit) return null;
+
+  const k = best.lag + 2;
+  const sigma2 = fit.rss / (design.observations - k);
+  const standardError = Math.sqrt(Math.max(sigma2 * fit.inverse[1][1], 0));
+  const statistic = standardError > 0 ? fit.beta[1] / standardError : 0;
+  const criticalValues = adfCriticalValues(design.observations);
+
+  return {
+    statistic,
+    pValue: adfPValue(statistic),
+    pValueBound: null,
+    criticalValues,
+    lags: best.lag,
+    observations: design.observations,
+    rejectNull: statistic < criticalValueAt(criticalValues, significance),
+    maxLag: upper,
+    aic: best.aic,
+  };
+}
+
+/**
+ * Test KPSS di stazionarietà in livello: η = Σ Sₜ² / (n²·σ²ₗᵣ), con Sₜ
+ * somme parziali degli scarti dalla media e varianza di lungo periodo di
+ * Newey-West (kernel di Bartlett, ⌈12·(n/100)^¼⌉ ritardi)
+ */
+export function kpssTest(
+  series: number[],
+  lags?: number,
+  significance = STATIONARITY_SIGNIFICANCE
+): KpssResult | null {
+  const n = series.length;
+  if (n < 3) return null;
+
+  const average = mean(series);
+  const residuals = series.map(value => value - average);
+  const bandwidth = Math.min(
+    lags ?? Math.ceil(12 * Math.pow(n / 100, 1 / 4)),
+    n - 1
+  );
+
+  let longRun = residuals.reduce((sum, value) => sum + value * value, 0);
+  for (let lag = 1; lag <= bandwidth; lag++) {
+    let autocovariance = 0;
+    for (let t = lag; t < n; t++) {
+      autocovariance += residuals[t] * residuals[t - lag];
+    }
+    longRun += 2 * (1 - lag / (bandwidth + 1)) * autocovariance;
+  }
+  longRun /= n;
+  if (!(longRun > 0)) return null;
+
+  let partial = 0;
+  let squares = 0;
+  residuals.forEach(value => {
+    partial += value;
+    squares += partial * partial;
+  });
+
+  const statistic = squares / (n * n * longRun);
+  const { pValue, bound } = kpssPValue(statistic);
+
+  return {
+    statistic,
+    pValue,
+    pValueBound: bound,
+    criticalValues: KPSS_CRITICAL_VALUES,
+    lags: bandwidth,
+    observations: n,
+    rejectNull: statistic > criticalValueAt(KPSS_CRITICAL_VALUES, significance),
+  };
+}
+
+/**
+ * Valori critici ADF all'1%, 5% e 10% per un campione di T osservazioni
+ */
+export function adfCriticalValues(observations: number): CriticalValue[] {
+  return ADF_CRITICAL_COEFFICIENTS.map(({ level, beta }) => ({
+    level,
+    value: beta.reduce(
+      (sum, coefficient, power) =>
+        sum + coefficient / Math.pow(observations, power),
+      0
+    ),
+  }));
+}
+
+/**
+ * P-value asintotico della statistica ADF (superficie di MacKinnon)
+ */
+export function adfPValue(statistic: number): number {
+  if (statistic > ADF_TAU_MAX) return 1;
+  if (statistic < ADF_TAU_MIN) return 0;
+
+  const coefficients = statistic <= ADF_TAU_STAR ? ADF_SMALL_P : ADF_LARGE_P;
+  const polynomial = coefficients.reduce(
+    (sum, coefficient, power) => sum + coefficient * statistic ** power,
+    0
+  );
+  return normalCdf(polynomial);
+}
+
+/**
+ * P-value KPSS interpolato linearmente nella tabella dei valori critici;
+ * fuori tabella viene limitato a [1%, 10%] e segnalato come estremo
+ */
+export function kpssPValue(statistic: number): {
+  pValue: number;
+  bound: 'lower' | 'upper' | null;
+} {
+  const first = KPSS_CRITICAL_VALUES[0];
+  const last = KPSS_CRITICAL_VALUES[KPSS_CRITICAL_VALUES.length - 1];
+
+  if (statistic <= first.value) return { pValue: first.level, bound: 'lower' };
+  if (statistic >= last.value) return { pValue: last.level, bound: 'upper' };
+
+  for (let i = 1; i < KPSS_CRITICAL_VALUES.length; i++) {
+    const left = KPSS_CRITICAL_VALUES[i - 1];
+    const right = KPSS_CRITICAL_VALUES[i];
+    if (statistic <= right.value) {
+      const weight = (statistic - left.value) / (right.value - left.value);
+      return {
+        pValue: left.level + weight * (right.level - left.level),
+        bound: null,
+      };
+    }
+  }
+  return { pValue: last.level, bound: 'upper' };
+}
+
+/**
+ * Esito combinato: stazionaria se ADF rifiuta la radice unitaria e KPSS non
+ * rifiuta la stazionarietà, non stazionaria nel caso opposto, altrimenti
+ * i due test sono in conflitto
+ */
+export function combineVerdict(
+  adf: UnitRootTest,
+  kpss: UnitRootTest
+): StationarityVerdict {
+  if (adf.rejectNull && !kpss.rejectNull) return 'stationary';
+  if (!adf.rejectNull && kpss.rejectNull) return 'non-stationary';
+  return 'inconclusive';
+}
+
+/**
+ * Confronto di media e varianza tra prima e seconda metà della serie
+ */
+export function validateHalves(series: number[]): HalfSampleValidation {
+  const half = Math.floor(series.length / 2);
+  const first = series.slice(0, half);
+  const second = series.slice(half);
+  const firstMean = mean(first);
+  const secondMean = mean(second);
+  const firstVariance = variance(first);
+  const secondVariance = variance(second);
+
+  const standardError = Math.sqrt(
+    firstVariance / first.length + secondVariance / second.length
+  );
+  const meanTStat =
+    standardError > 0 ? (secondMean - firstMean) / standardError : 0;
+  const varianceRatio =
+    firstVariance > 0 ? secondVariance / firstVariance : Infinity;
+
+  return {
+    firstMean,
+    secondMean,
+    firstVariance,
+    secondVariance,
+    meanTStat,
+    varianceRatio,
+    stable:
+      Math.abs(meanTStat) <= MAX_MEAN_T_STAT &&
+      varianceRatio <= MAX_VARIANCE_RATIO &&
+      varianceRatio >= 1 / MAX_VARIANCE_RATIO,
+  };
+}
+
+/**
+ * ADF, KPSS, esito e validazione di una serie.
+ * Null con meno di MIN_STATIONARITY_OBSERVATIONS osservazioni.
+ */
+export function testStationarity(series: number[]): SeriesStationarity | null {
+  if (series.length < MIN_STATIONARITY_OBSERVATIONS) return null;
+
+  const adf = adfTest(series);
+  const kpss = kpssTest(series);
+  if (!adf || !kpss) return null;
+
+  return {
+    observations: series.length,
+    adf,
+    kpss,
+    verdict: combineVerdict(adf, kpss),
+    validation: validateHalves(series),
+  };
+}
+
+// ========== ANALISI ==========
+
+/**
+ * Test su prezzi e rendimenti di ogni ticker con le trasformazioni
+ * raccomandate. Null se nessun ticker ha osservazioni sufficienti.
+ */
+export function calculateStationarityAnalysis(
+  series: StationarityInput[]
+): StationarityReport | null {
+  const tickers = series
+    .map(input => analyzeTicker(input))
+    .filter((ticker): ticker is TickerStationarity => ticker !== null);
+
+  if (tickers.length === 0) return null;
+
+  return {
+    significance: STATIONARITY_SIGNIFICANCE,
+    minObservations: MIN_STATIONARITY_OBSERVATIONS,
+    tickers,
+  };
+}
+
+/**
+ * Livello dei prezzi, poi logaritmo (se la crescita è esponenziale),
+ * differenza prima e differenza seconda: ci si ferma alla prima serie
+ * stazionaria
+ */
+export function analyzeTicker(
+  input: StationarityInput
+): TickerStationarity | null {
+  const prices = input.prices.filter(isFiniteNumber);
+  const level = testStationarity(prices);
+  const returns = testStationarity(input.returns.filter(isFiniteNumber));
+  if (!level && !returns) return null;
+
+  const positive = prices.every(value => value > 0);
+  const logPreferred =
+    positive && trendRSquared(prices.map(Math.log)) > trendRSquared(prices);
+
+  const candidates: Array<{
+    transformation: Transformation;
+    values: () => number[];
+  }> = logPreferred
+    ? [
+        { transformation: 'log', values: () => prices.map(Math.log) },
+        {
+          transformation: 'log-difference',
+          values: () => difference(prices.map(Math.log)),
+        },
+      ]
+    : [{ transformation: 'difference', values: () => difference(prices) }];
+  candidates.push({
+    transformation: 'second-difference',
+    values: () => difference(difference(prices)),
+  });
+
+  const steps: TransformationStep[] = level
+    ? [{ transformation: 'level', ...level }]
+    : [];
+
+  for (const candidate of candidates) {
+    if (steps.some(step => step.verdict === 'stationary')) break;
+    const result = testStationarity(candidate.values());
+    if (result) {
+      steps.push({ transformation: candidate.transformation, ...result });
+    }
+  }
+
+  return {
+    symbol: input.symbol,
+    logPreferred,
+    steps,
+    recommended:
+      steps.find(step => step.verdict === 'stationary')?.transformation ?? null,
+    returns,
+  };
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+function difference(values: number[]): number[] {
+  return values.slice(1).map((value, i) => value - values[i]);
+}
+
+// Matrici normali della regressione ADF con `lag` ritardi; le righe partono
+// da `start` (indice in diffs) così da poter usare un campione comune
+function adfDesign(
+  levels: number[],
+  diffs: number[],
+  lag: number,
+  start: number
+): { xtx: number[][]; xty: number[]; yty: number; observations: number } {
+  const k = lag + 2;
+  const xtx = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  const xty = new Array<number>(k).fill(0);
+  let yty = 0;
+
+  for (let j = start; j < diffs.length; j++) {
+    const row = [1, levels[j]];
+    for (let i = 1; i <= lag; i++) row.push(diffs[j - i]);
+    const y = diffs[j];
+
+    for (let a = 0; a < k; a++) {
+      xty[a] += row[a] * y;
+      for (let b = a; b < k; b++) xtx[a][b] += row[a] * row[b];
+    }
+    yty += y * y;
+  }
+
+  for (let a = 0; a < k; a++) {
+    for (let b = 0; b < a; b++) xtx[a][b] = xtx[b][a];
+  }
+
+  return { xtx, xty, yty, observations: diffs.length - start };
+}
+
+function solveNormalEquations(
+  xtx: number[][],
+  xty: number[],
+  yty: number
+): { beta: number[]; inverse: number[][]; rss: number } | null {
+  const inverse = invertMatrix(xtx);
+  if (!inverse) return null;
+
+  const beta = inverse.map(row =>
+    row.reduce((sum, value, j) => sum + value * xty[j], 0)
+  );
+  const rss = Math.max(
+    yty - beta.reduce((sum, value, j) => sum + value * xty[j], 0),
+    1e-300
+  );
+  return { beta, inverse, rss };
+}
+
+function criticalValueAt(
+  criticalValues: CriticalValue[],
+  significance: number
+): number {
+  return (
+    criticalValues.find(item => item.level === significance) ??
+    criticalValues[0]
+  ).value;
+}
+
+// R² del trend lineare nel tempo
+function trendRSquared(values: number[]): number {
+  const n = values.length;
+  const timeMean = (n - 1) / 2;
+  const valueMean = mean(values);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  values.forEach((value, t) => {
+    sxy += (t - timeMean) * (value - valueMean);
+    sxx += (t - timeMean) ** 2;
+    syy += (value - valueMean) ** 2;
+  });
+  return sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 0;
+}
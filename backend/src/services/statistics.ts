@@ -0,0 +1,569 @@
+/**
+ * Statistics per STUDENT ANALYST
+ *
+ * Funzioni statistiche di base condivise dai moduli di rischio e analisi:
+ * momenti campionari, quantili, istogrammi, correlazioni (Pearson, Spearman, Kendall),
+ * distribuzione normale, t di Student e chi-quadro, algebra lineare di
+ * base, ottimizzazione senza derivate e
+ * generatore casuale deterministico per le simulazioni Monte Carlo
+ */
+
+// ========== MOMENTI ==========
+
+/**
+ * Valore osservato: scarta null (date senza dati nelle serie allineate),
+ * NaN e infiniti
+ */
+export function isFiniteNumber(
+  value: number | null | undefined
+): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Varianza campionaria (denominatore n - 1)
+ */
+export function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return (
+    values.reduce((sum, value) => sum + (value - avg) ** 2, 0) /
+    (values.length - 1)
+  );
+}
+
+export function standardDeviation(values: number[]): number {
+  return Math.sqrt(variance(values));
+}
+
+/**
+ * Covarianza campionaria (denominatore n - 1) sul tratto comune delle serie
+ */
+export function covariance(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / (n - 1);
+}
+
+/**
+ * Asimmetria campionaria (momento centrale di ordine 3 / σ³)
+ */
+export function skewness(values: number[]): number {
+  const n = values.length;
+  if (n < 3) return 0;
+  const avg = mean(values);
+  const m2 = values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / n;
+  const m3 = values.reduce((sum, value) => sum + (value - avg) ** 3, 0) / n;
+  return m2 > 0 ? m3 / Math.pow(m2, 1.5) : 0;
+}
+
+/**
+ * Curtosi in eccesso rispetto alla normale (momento di ordine 4 / σ⁴ - 3)
+ */
+export function excessKurtosis(values: number[]): number {
+  const n = values.length;
+  if (n < 4) return 0;
+  const avg = mean(values);
+  const m2 = values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / n;
+  const m4 = values.reduce((sum, value) => sum + (value - avg) ** 4, 0) / n;
+  return m2 > 0 ? m4 / (m2 * m2) - 3 : 0;
+}
+
+// ========== QUANTILI ==========
+
+/**
+ * Quantile con interpolazione lineare su un array già ordinato in modo crescente
+ */
+export function quantileSorted(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  if (p <= 0) return sorted[0];
+  if (p >= 1) return sorted[sorted.length - 1];
+
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const weight = position - lower;
+
+  return sorted[lower] * (1 - weight) + sorted[upper] * weight;
+}
+
+// ========== ISTOGRAMMI ==========
+
+export interface Histogram {
+  binEdges: number[]; // binEdges.length = counts.length + 1
+  counts: number[];
+}
+
+/**
+ * Istogramma a intervalli uguali di un campione ordinato; il massimo cade
+ * nell'ultimo intervallo
+ */
+export function buildHistogram(sorted: number[], bins: number): Histogram {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / bins || 1e-6;
+
+  const binEdges = Array.from({ length: bins + 1 }, (_, i) => min + i * width);
+  const counts = new Array<number>(bins).fill(0);
+
+  for (const value of sorted) {
+    const bin = Math.min(bins - 1, Math.floor((value - min) / width));
+    counts[bin]++;
+  }
+
+  return { binEdges, counts };
+}
+
+// ========== CORRELAZIONE ==========
+
+/**
+ * Correlazione di Pearson su serie della stessa lunghezza (0 se una serie è costante)
+ */
+export function pearsonCorrelation(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+  let sumAB = 0;
+  let sumAA = 0;
+  let sumBB = 0;
+  for (let i = 0; i < n; i++) {
+    sumAB += (a[i] - meanA) * (b[i] - meanB);
+    sumAA += (a[i] - meanA) ** 2;
+    sumBB += (b[i] - meanB) ** 2;
+  }
+  const denominator = Math.sqrt(sumAA * sumBB);
+  return denominator > 0 ? sumAB / denominator : 0;
+}
+
+/**
+ * Ranghi a partire da 1; i valori uguali ricevono il rango medio
+ */
+export function averageRanks(values: number[]): number[] {
+  const order = values.map((_, i) => i).sort((i, j) => values[i] - values[j]);
+  const ranks = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (
+      end + 1 < order.length &&
+      values[order[end + 1]] === values[order[start]]
+    ) {
+      end++;
+    }
+    for (let k = start; k <= end; k++) ranks[order[k]] = (start + end) / 2 + 1;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Correlazione di Spearman: Pearson sui ranghi
+ */
+export function spearmanCorrelation(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  return pearsonCorrelation(
+    averageRanks(a.slice(0, n)),
+    averageRanks(b.slice(0, n))
+  );
+}
+
+/**
+ * Tau-b di Kendall (corretto per i valori uguali), confrontando tutte le coppie
+ */
+export function kendallTau(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  let score = 0;
+  let tiesA = 0;
+  let tiesB = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const signA = Math.sign(a[i] - a[j]);
+      const signB = Math.sign(b[i] - b[j]);
+      score += signA * signB;
+      if (signA === 0) tiesA++;
+      if (signB === 0) tiesB++;
+    }
+  }
+  const pairs = (n * (n - 1)) / 2;
+  const denominator = Math.sqrt((pairs - tiesA) * (pairs - tiesB));
+  return denominator > 0 ? score / denominator : 0;
+}
+
+// ========== DISTRIBUZIONE NORMALE ==========
+
+export function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Funzione di ripartizione normale standard (approssimazione di Zelen-Severo,
+ * errore assoluto < 7.5e-8)
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const polynomial =
+    t *
+    (0.31938153 +
+      t *
+        (-0.356563782 +
+          t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normalPdf(x) * polynomial;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Inversa della normale standard (algoritmo di Acklam, errore relativo < 1.2e-9)
+ */
+export function inverseNormalCdf(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+
+  if (p > 1 - pLow) {
+    return -inverseNormalCdf(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+// ========== DISTRIBUZIONE T DI STUDENT ==========
+
+/**
+ * Logaritmo della funzione Gamma (approssimazione di Lanczos)
+ */
+export function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+  return -tmp + Math.log((2.5066282746310007 * series) / x);
+}
+
+/**
+ * Funzione beta incompleta regolarizzata I_x(a, b) (frazione continua di Lentz)
+ */
+export function regularizedIncompleteBeta(
+  x: number,
+  a: number,
+  b: number
+): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) -
+      logGamma(a) -
+      logGamma(b) +
+      a * Math.log(x) +
+      b * Math.log(1 - x)
+  );
+
+  // La frazione continua converge rapidamente per x < (a + 1) / (a + b + 2)
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - regularizedIncompleteBeta(1 - x, b, a);
+  }
+
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let numerator = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    numerator = -((a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+
+  return (front * result) / a;
+}
+
+/**
+ * Funzione di ripartizione della t di Student con ν gradi di libertà
+ */
+export function studentTCdf(t: number, dof: number): number {
+  const x = dof / (dof + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, dof / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * p-value bilaterale di una statistica t
+ */
+export function twoSidedPValue(t: number, dof: number): number {
+  if (!Number.isFinite(t)) return 0;
+  if (dof <= 0) return 1;
+  return 2 * (1 - studentTCdf(Math.abs(t), dof));
+}
+
+// ========== DISTRIBUZIONE CHI-QUADRO ==========
+
+/**
+ * Quantile della chi-quadro con k gradi di libertà (approssimazione di
+ * Wilson-Hilferty, accurata per k ≥ 2; troncata a 0)
+ */
+export function chiSquareQuantile(p: number, dof: number): number {
+  const z = inverseNormalCdf(p);
+  const c = 2 / (9 * dof);
+  return dof * Math.max(0, 1 - c + z * Math.sqrt(c)) ** 3;
+}
+
+// ========== ALGEBRA LINEARE ==========
+
+/**
+ * Inversa di una matrice quadrata (Gauss-Jordan con pivot parziale)
+ */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const scale = Math.max(...matrix.flat().map(Math.abs), 1e-300);
+  const augmented = matrix.map((row, i) => [
+    ...row,
+    ...Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)),
+  ]);
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (
+        Math.abs(augmented[row][column]) > Math.abs(augmented[pivot][column])
+      ) {
+        pivot = row;
+      }
+    }
+
+    if (Math.abs(augmented[pivot][column]) < 1e-12 * scale) return null;
+    [augmented[column], augmented[pivot]] = [
+      augmented[pivot],
+      augmented[column],
+    ];
+
+    const pivotValue = augmented[column][column];
+    for (let j = 0; j < 2 * size; j++) {
+      augmented[column][j] /= pivotValue;
+    }
+
+    for (let row = 0; row < size; row++) {
+      if (row === column) continue;
+      const factor = augmented[row][column];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * size; j++) {
+        augmented[row][j] -= factor * augmented[column][j];
+      }
+    }
+  }
+
+  return augmented.map(row => row.slice(size));
+}
+
+// ========== OTTIMIZZAZIONE ==========
+
+export interface MinimizationResult {
+  point: number[];
+  value: number;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Minimo di una funzione senza derivate (simplesso di Nelder-Mead).
+ * I valori non finiti sono trattati come +∞, così la funzione può
+ * rifiutare i punti fuori dal dominio ammesso.
+ */
+export function nelderMead(
+  objective: (point: number[]) => number,
+  start: number[],
+  options: { step?: number; tolerance?: number; maxIterations?: number } = {}
+): MinimizationResult {
+  const { step = 0.1, tolerance = 1e-9, maxIterations = 1000 } = options;
+  const size = start.length;
+
+  const evaluate = (point: number[]) => {
+    const value = objective(point);
+    return { point, value: Number.isFinite(value) ? value : Infinity };
+  };
+
+  let simplex = [
+    evaluate(start),
+    ...start.map((_, i) =>
+      evaluate(start.map((value, j) => (j === i ? value + step : value)))
+    ),
+  ];
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[size];
+
+    if (
+      Number.isFinite(worst.value) &&
+      worst.value - best.value <= tolerance * (Math.abs(best.value) + tolerance)
+    ) {
+      return { ...best, iterations: iteration, converged: true };
+    }
+
+    // Baricentro dei vertici escluso il peggiore
+    const centroid = start.map(
+      (_, j) =>
+        simplex
+          .slice(0, size)
+          .reduce((sum, vertex) => sum + vertex.point[j], 0) / size
+    );
+    const along = (t: number) =>
+      centroid.map((value, j) => value + t * (worst.point[j] - value));
+
+    const reflected = evaluate(along(-1));
+    if (reflected.value < best.value) {
+      const expanded = evaluate(along(-2));
+      simplex[size] = expanded.value < reflected.value ? expanded : reflected;
+    } else if (reflected.value < simplex[size - 1].value) {
+      simplex[size] = reflected;
+    } else {
+      const contracted =
+        reflected.value < worst.value
+          ? evaluate(along(-0.5))
+          : evaluate(along(0.5));
+      if (contracted.value < Math.min(worst.value, reflected.value)) {
+        simplex[size] = contracted;
+      } else {
+        // Contrazione verso il vertice migliore
+        simplex = simplex.map((vertex, i) =>
+          i === 0
+            ? vertex
+            : evaluate(
+                vertex.point.map(
+                  (value, j) => best.point[j] + 0.5 * (value - best.point[j])
+                )
+              )
+        );
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { ...simplex[0], iterations: maxIterations, converged: false };
+}
+
+// ========== NUMERI CASUALI ==========
+
+/**
+ * Generatore pseudo-casuale deterministico (mulberry32): stesse simulazioni
+ * a parità di seed, utile per risultati riproducibili
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Estrazione da normale standard (Box-Muller)
+ */
+export function randomNormal(random: () => number): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Estrazione da Gamma(shape, 1) (Marsaglia-Tsang)
+ */
+export function randomGamma(random: () => number, shape: number): number {
+  if (shape < 1) {
+    return randomGamma(random, shape + 1) * Math.pow(random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = randomNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+/**
+ * Estrazione da t di Student con ν gradi di libertà
+ */
+export function randomStudentT(random: () => number, dof: number): number {
+  const chiSquare = 2 * randomGamma(random, dof / 2);
+  return randomNormal(random) / Math.sqrt(chiSquare / dof);
+}
@@ -4,8 +4,17 @@
  *
  * Sistema avanzato per rilevare, loggare e monitorare attività sospette
  * nell'accesso alle API protette
+ *
+ * Gli IP con livello di minaccia alto vengono bloccati temporaneamente, con
+ * durata crescente a ogni nuovo blocco dello stesso IP. Il livello di minaccia
+ * si dimezza a ogni threatHalfLifeMs senza nuovi eventi. Eventi, livelli di
+ * minaccia e blocchi sono salvati su file (SECURITY_STATE_FILE,
+ * predefinito backend/data/security/state.json) e ricaricati all'avvio.
  */
 
+import fs from 'fs';
+import path from 'path';
+
 export interface SuspiciousEventMetadata {
   action?: string;
   reason?: string;
@@ -43,12 +52,39 @@ export interface ThreatLevel {
   whitelist: boolean;
 }
 
+export interface IpBlock {
+  ip: string;
+  reason: string;
+  blockedAt: Date;
+  expiresAt: Date;
+  offence: number; // blocchi subiti dall'IP, incluso questo
+}
+
+/** Esito di una richiesta HTTP, registrato dal middleware di sicurezza */
+export interface RequestOutcome {
+  ip: string;
+  userAgent: string;
+  method: string;
+  endpoint: string;
+  statusCode: number;
+}
+
+export interface SuspiciousActivityConfig {
+  stateFile: string | null; // null = nessuna persistenza
+  blockDurationsMs: number[]; // durata dei blocchi successivi dello stesso IP
+  failureThreshold: number; // errori 4xx nella finestra prima di repeated_failures
+  expectedFailureThreshold: number; // soglia per 400, 404 e 429
+  failureWindowMs: number;
+  threatHalfLifeMs: number; // tempo di dimezzamento del livello di minaccia
+}
+
 export interface SecurityStats {
   totalEvents: number;
   last24Hours: number;
   lastHour: number;
   criticalEvents24h: number;
   blockedIPs: string[];
+  blocks: IpBlock[];
   whitelistedIPs: string[];
   activeTreats: number;
   highThreatIPs: Array<{ ip: string; level: number; lastSeen: Date }>;
@@ -60,25 +96,80 @@ export interface EventsByType {
   [key: string]: number;
 }
 
+interface PersistedState {
+  events: SuspiciousEvent[];
+  threatLevels: Array<Omit<ThreatLevel, 'events'>>;
+  blocks: IpBlock[];
+  offences: Array<[string, number]>;
+  whitelistedIPs: string[];
+}
+
+const DEFAULT_STATE_FILE = path.resolve(
+  __dirname,
+  '../../data/security/state.json'
+);
+
+// Ritardo del salvataggio su file: più modifiche ravvicinate, una scrittura
+const SAVE_DELAY_MS = 1000;
+
+// Errori del client frequenti anche nell'uso normale (richiesta non valida,
+// ticker o job inesistente, limite di richieste raggiunto): contano verso
+// repeated_failures solo oltre expectedFailureThreshold
+const EXPECTED_CLIENT_ERRORS = new Set([400, 404, 429]);
+
+/**
+ * File di stato predefinito: SECURITY_STATE_FILE ('none' lo disattiva);
+ * nei test (NODE_ENV=test) nessuna persistenza per non scrivere su disco
+ */
+export function getSecurityStateFile(): string | null {
+  const configured = process.env.SECURITY_STATE_FILE;
+  if (configured) return configured === 'none' ? null : configured;
+  return process.env.NODE_ENV === 'test' ? null : DEFAULT_STATE_FILE;
+}
+
 /**
  * Sistema di rilevamento e logging attività sospette
  */
 export class SuspiciousActivityLogger {
+  private config: SuspiciousActivityConfig;
   private events: SuspiciousEvent[] = [];
   private threatLevels: Map<string, ThreatLevel> = new Map();
-  private blockedIPs: Set<string> = new Set();
+  private blockedIPs: Map<string, IpBlock> = new Map();
+  private offences: Map<string, number> = new Map();
+  private recentFailures: Map<string, number[]> = new Map();
+  private recentExpectedFailures: Map<string, number[]> = new Map();
   private whitelistedIPs: Set<string> = new Set([
     '127.0.0.1',
+    '::ffff:127.0.0.1',
     'localhost',
     '::1',
   ]);
   private eventId = 0;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: Partial<SuspiciousActivityConfig> = {}) {
+    this.config = {
+      stateFile: getSecurityStateFile(),
+      // 15 minuti, 1 ora, 24 ore, poi 7 giorni per ogni blocco successivo
+      blockDurationsMs: [
+        15 * 60 * 1000,
+        60 * 60 * 1000,
+        24 * 60 * 60 * 1000,
+        7 * 24 * 60 * 60 * 1000,
+      ],
+      failureThreshold: 10,
+      expectedFailureThreshold: 30,
+      failureWindowMs: 5 * 60 * 1000,
+      threatHalfLifeMs: 60 * 60 * 1000,
+      ...config,
+    };
+
+    this.loadState();
 
-  constructor() {
-    // Auto-cleanup ogni ora
+    // Auto-cleanup ogni ora (non tiene vivo il processo)
     setInterval(() => {
       this.cleanupOldEvents();
-    }, 3600000);
+    }, 3600000).unref();
 
     console.log('🛡️  Suspicious Activity Logger initialized');
   }
@@ -116,6 +207,89 @@ export class SuspiciousActivityLogger {
     if (this.events.length > 5000) {
       this.events = this.events.slice(-5000);
     }
+
+    this.scheduleSave();
+  }
+
+  /**
+   * Registra l'esito di una richiesta: 429 e 401/403 diventano subito eventi,
+   * gli altri errori del client solo se si ripetono nella finestra. 400, 404
+   * e 429 hanno una soglia più alta (scansioni di endpoint, limiti ignorati)
+   */
+  recordRequest(outcome: RequestOutcome): void {
+    const { ip, userAgent, method, endpoint, statusCode } = outcome;
+    if (statusCode < 400 || statusCode >= 500 || this.whitelistedIPs.has(ip)) {
+      return;
+    }
+
+    const details = {
+      ip,
+      userAgent,
+      endpoint: `${method} ${endpoint}`,
+      metadata: { statusCode },
+    };
+
+    if (statusCode === 429) {
+      this.logSuspiciousEvent({
+        type: 'rate_limit_abuse',
+        severity: 'low',
+        details: { ...details, description: 'Rate limit exceeded' },
+      });
+    }
+
+    if (statusCode === 401 || statusCode === 403) {
+      this.logSuspiciousEvent({
+        type: 'invalid_api_key',
+        severity: 'medium',
+        details: { ...details, description: 'Unauthorized access attempt' },
+      });
+      return;
+    }
+
+    const expected = EXPECTED_CLIENT_ERRORS.has(statusCode);
+    const failures = this.countFailure(
+      expected ? this.recentExpectedFailures : this.recentFailures,
+      ip,
+      expected
+        ? this.config.expectedFailureThreshold
+        : this.config.failureThreshold
+    );
+    if (failures === 0) return;
+
+    this.logSuspiciousEvent({
+      type: 'repeated_failures',
+      severity: 'high',
+      details: {
+        ...details,
+        description: `${failures} failed requests in ${Math.round(
+          this.config.failureWindowMs / 60000
+        )} minutes`,
+      },
+    });
+  }
+
+  /**
+   * Aggiunge un errore alla finestra dell'IP: restituisce il numero di errori
+   * quando raggiunge la soglia (e azzera la finestra), altrimenti 0
+   */
+  private countFailure(
+    recent: Map<string, number[]>,
+    ip: string,
+    threshold: number
+  ): number {
+    const now = Date.now();
+    const failures = (recent.get(ip) ?? []).filter(
+      time => now - time < this.config.failureWindowMs
+    );
+    failures.push(now);
+
+    if (failures.length < threshold) {
+      recent.set(ip, failures);
+      return 0;
+    }
+
+    recent.delete(ip);
+    return failures.length;
   }
 
   /**
@@ -140,9 +314,6 @@ export class SuspiciousActivityLogger {
       };
     }
 
-    threat.events.push(event);
-    threat.lastSeen = new Date();
-
     // Calcola nuovo livello di minaccia
     const severityWeights = {
       low: 5,
@@ -151,15 +322,13 @@ export class SuspiciousActivityLogger {
       critical: 50,
     };
 
-    threat.level += severityWeights[event.severity];
-    threat.level = Math.min(threat.level, 100); // Cap a 100
-
-    // Decay nel tempo - riduci il livello di minaccia
-    const hoursSinceFirst =
-      (Date.now() - threat.firstSeen.getTime()) / (1000 * 60 * 60);
-    if (hoursSinceFirst > 24) {
-      threat.level *= 0.9; // 10% decay dopo 24 ore
-    }
+    // Il decadimento dall'ultimo evento si applica prima del nuovo peso
+    threat.level = Math.min(
+      this.currentLevel(threat) + severityWeights[event.severity],
+      100
+    );
+    threat.events.push(event);
+    threat.lastSeen = new Date();
 
     this.threatLevels.set(ip, threat);
 
@@ -170,21 +339,50 @@ export class SuspiciousActivityLogger {
   }
 
   /**
-   * Blocca un IP
+   * Livello di minaccia attuale: si dimezza a ogni threatHalfLifeMs
+   * trascorso dall'ultimo evento
+   */
+  private currentLevel(threat: ThreatLevel): number {
+    const elapsed = Math.max(0, Date.now() - threat.lastSeen.getTime());
+    return threat.level * Math.pow(0.5, elapsed / this.config.threatHalfLifeMs);
+  }
+
+  /**
+   * Blocca temporaneamente un IP. Senza durata esplicita il blocco dura
+   * di più a ogni recidiva (blockDurationsMs)
    */
-  blockIP(ip: string, reason: string): void {
+  blockIP(ip: string, reason: string, durationMs?: number): void {
     if (this.whitelistedIPs.has(ip)) {
       console.warn(`⚠️  Attempted to block whitelisted IP: ${ip}`);
       return;
     }
+    if (this.getBlock(ip)) {
+      return; // già bloccato, il blocco in corso non viene prolungato
+    }
 
-    this.blockedIPs.add(ip);
+    const offence = (this.offences.get(ip) ?? 0) + 1;
+    const durations = this.config.blockDurationsMs;
+    const duration =
+      durationMs ?? durations[Math.min(offence, durations.length) - 1]!;
+    const blockedAt = new Date();
+    const block: IpBlock = {
+      ip,
+      reason,
+      blockedAt,
+      expiresAt: new Date(blockedAt.getTime() + duration),
+      offence,
+    };
+
+    this.offences.set(ip, offence);
+    this.blockedIPs.set(ip, block);
     const threat = this.threatLevels.get(ip);
     if (threat) {
       threat.blocked = true;
     }
 
-    console.warn(`🚫 IP blocked: ${ip} - Reason: ${reason}`);
+    console.warn(
+      `🚫 IP blocked: ${ip} until ${block.expiresAt.toISOString()} (offence #${offence}) - Reason: ${reason}`
+    );
 
     this.logSuspiciousEvent({
       type: 'unusual_pattern',
@@ -194,31 +392,52 @@ export class SuspiciousActivityLogger {
         userAgent: 'system',
         endpoint: 'security-system',
         description: `IP auto-blocked: ${reason}`,
-        metadata: { action: 'ip_blocked', reason },
+        metadata: {
+          action: 'ip_blocked',
+          reason,
+          offence,
+          expiresAt: block.expiresAt.toISOString(),
+        },
       },
-      actionTaken: `IP ${ip} blocked automatically`,
+      actionTaken: `IP ${ip} blocked until ${block.expiresAt.toISOString()}`,
     });
   }
 
   /**
-   * Sblocca un IP
+   * Sblocca un IP. Il livello di minaccia riparte da zero: le recidive
+   * restano comunque nel conteggio dei blocchi (offences)
    */
   unblockIP(ip: string, reason: string): void {
     this.blockedIPs.delete(ip);
     const threat = this.threatLevels.get(ip);
     if (threat) {
       threat.blocked = false;
-      threat.level = Math.max(0, threat.level - 50); // Riduci threat level
+      threat.level = 0;
     }
 
     console.log(`✅ IP unblocked: ${ip} - Reason: ${reason}`);
+    this.scheduleSave();
+  }
+
+  /**
+   * Blocco in corso per un IP (i blocchi scaduti vengono rimossi)
+   */
+  getBlock(ip: string): IpBlock | null {
+    const block = this.blockedIPs.get(ip);
+    if (!block) return null;
+
+    if (block.expiresAt.getTime() <= Date.now()) {
+      this.unblockIP(ip, 'Block expired');
+      return null;
+    }
+    return block;
   }
 
   /**
    * Controlla se un IP è bloccato
    */
   isIPBlocked(ip: string): boolean {
-    return this.blockedIPs.has(ip);
+    return this.getBlock(ip) !== null;
   }
 
   /**
@@ -226,7 +445,7 @@ export class SuspiciousActivityLogger {
    */
   isIPSuspicious(ip: string): boolean {
     const threat = this.threatLevels.get(ip);
-    return threat ? threat.level > 50 : false;
+    return threat ? this.currentLevel(threat) > 50 : false;
   }
 
   /**
@@ -290,14 +509,22 @@ export class SuspiciousActivityLogger {
       event => event.timestamp.getTime() > oneWeekAgo
     );
 
-    // Cleanup threat levels inattivi
+    // Cleanup threat levels inattivi: dopo una settimana senza eventi
+    // anche le recidive dell'IP vengono dimenticate
     for (const [ip, threat] of this.threatLevels.entries()) {
       if (threat.lastSeen.getTime() < oneWeekAgo) {
         this.threatLevels.delete(ip);
+        this.offences.delete(ip);
       }
     }
 
+    // Blocchi scaduti e contatori di errori fuori finestra
+    this.getActiveBlocks();
+    this.recentFailures.clear();
+    this.recentExpectedFailures.clear();
+
     console.log('🧹 Suspicious activity logs cleaned up');
+    this.scheduleSave();
   }
 
   /**
@@ -321,16 +548,17 @@ export class SuspiciousActivityLogger {
       last24Hours: recentEvents.length,
       lastHour: hourlyEvents.length,
       criticalEvents24h: recentCritical.length,
-      blockedIPs: Array.from(this.blockedIPs),
+      blockedIPs: this.getActiveBlocks().map(block => block.ip),
+      blocks: this.getActiveBlocks(),
       whitelistedIPs: Array.from(this.whitelistedIPs),
       activeTreats: this.threatLevels.size,
       highThreatIPs: Array.from(this.threatLevels.entries())
-        .filter(([_, threat]) => threat.level > 60)
         .map(([ip, threat]) => ({
           ip,
-          level: threat.level,
+          level: this.currentLevel(threat),
           lastSeen: threat.lastSeen,
-        })),
+        }))
+        .filter(threat => threat.level > 60),
       eventsByType: this.getEventsByType(recentEvents),
       timestamp: new Date().toISOString(),
     };
@@ -349,6 +577,15 @@ export class SuspiciousActivityLogger {
     return byType;
   }
 
+  /**
+   * Blocchi ancora in corso
+   */
+  getActiveBlocks(): IpBlock[] {
+    return Array.from(this.blockedIPs.keys())
+      .map(ip => this.getBlock(ip))
+      .filter((block): block is IpBlock => block !== null);
+  }
+
   /**
    * Ottieni eventi per IP specifico
    */
@@ -360,7 +597,8 @@ export class SuspiciousActivityLogger {
    * Ottieni threat level per IP
    */
   getThreatLevel(ip: string): ThreatLevel | null {
-    return this.threatLevels.get(ip) || null;
+    const threat = this.threatLevels.get(ip);
+    return threat ? { ...threat, level: this.currentLevel(threat) } : null;
   }
 
   /**
@@ -375,6 +613,7 @@ export class SuspiciousActivityLogger {
     }
 
     console.log(`✅ IP added to whitelist: ${ip} - Reason: ${reason}`);
+    this.scheduleSave();
   }
 
   /**
@@ -383,6 +622,7 @@ export class SuspiciousActivityLogger {
   removeFromWhitelist(ip: string): void {
     this.whitelistedIPs.delete(ip);
     console.log(`❌ IP removed from whitelist: ${ip}`);
+    this.scheduleSave();
   }
 
   /**
@@ -395,7 +635,7 @@ export class SuspiciousActivityLogger {
           exportTimestamp: new Date().toISOString(),
           events: this.events,
           threatLevels: Array.from(this.threatLevels.entries()),
-          blockedIPs: Array.from(this.blockedIPs),
+          blockedIPs: this.getActiveBlocks(),
           stats: this.getSecurityStats(),
         },
         null,
@@ -408,12 +648,103 @@ export class SuspiciousActivityLogger {
     const rows = this.events
       .map(
         event =>
-          `${event.timestamp.toISOString()},${event.type},${event.severity},${event.details.ip},${event.details.endpoint},"${event.details.description}"`
+          `${event.timestamp.toISOString()},${event.type},${event.severity},${event.details.ip},${event.details.endpoint},"${event.details.description.replace(/"/g, '""')}"`
       )
       .join('\n');
 
     return headers + rows;
   }
+
+  /**
+   * Scrive lo stato sul file configurato (file temporaneo + rename)
+   */
+  async saveState(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    const target = this.config.stateFile;
+    if (!target) return;
+
+    const state: PersistedState = {
+      events: this.events,
+      threatLevels: Array.from(this.threatLevels.values()).map(
+        ({ events: _events, ...threat }) => threat
+      ),
+      blocks: Array.from(this.blockedIPs.values()),
+      offences: Array.from(this.offences.entries()),
+      whitelistedIPs: Array.from(this.whitelistedIPs),
+    };
+
+    try {
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temp, JSON.stringify(state));
+      await fs.promises.rename(temp, target);
+    } catch (error) {
+      console.warn('⚠️  Failed to save security state:', error);
+    }
+  }
+
+  /**
+   * Salvataggio differito: le modifiche ravvicinate producono una sola scrittura
+   */
+  private scheduleSave(): void {
+    if (!this.config.stateFile || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.saveState();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Ricarica lo stato salvato (file assente = si parte da vuoto)
+   */
+  private loadState(): void {
+    const source = this.config.stateFile;
+    if (!source) return;
+
+    let state: Partial<PersistedState>;
+    try {
+      state = JSON.parse(fs.readFileSync(source, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(
+          '⚠️  Unreadable security state file, starting empty:',
+          error
+        );
+      }
+      return;
+    }
+
+    this.events = (state.events ?? []).map(event => ({
+      ...event,
+      timestamp: new Date(event.timestamp),
+    }));
+    (state.threatLevels ?? []).forEach(threat => {
+      this.threatLevels.set(threat.ip, {
+        ...threat,
+        events: this.events.filter(event => event.details.ip === threat.ip),
+        firstSeen: new Date(threat.firstSeen),
+        lastSeen: new Date(threat.lastSeen),
+      });
+    });
+    (state.blocks ?? []).forEach(block => {
+      this.blockedIPs.set(block.ip, {
+        ...block,
+        blockedAt: new Date(block.blockedAt),
+        expiresAt: new Date(block.expiresAt),
+      });
+    });
+    this.offences = new Map(state.offences ?? []);
+    (state.whitelistedIPs ?? []).forEach(ip => this.whitelistedIPs.add(ip));
+
+    console.log(
+      `🛡️  Security state restored: ${this.events.length} events, ${this.getActiveBlocks().length} blocked IPs`
+    );
+  }
 }
 
 // Istanza singleton
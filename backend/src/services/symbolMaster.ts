@@ -0,0 +1,359 @@
+/**
+ * Symbol Master per STUDENT ANALYST
+ *
+ * Anagrafica locale dei simboli (backend/data/symbols.json, sovrascrivibile
+ * con SYMBOL_MASTER_PATH): nome, borsa, valuta e tipo di strumento. Il file
+ * viene riletto quando cambia su disco o su richiesta esplicita, quindi può
+ * essere aggiornato senza riavviare il server. Fornisce ricerca, validazione
+ * dei ticker e suggerimenti "forse intendevi".
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { LatestClose } from './historicalAnalysisService';
+
+// ========== INTERFACCE ==========
+
+export type AssetType =
+  | 'equity'
+  | 'etf'
+  | 'fund'
+  | 'index'
+  | 'crypto'
+  | 'currency';
+
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  exchange: string;
+  currency: string;
+  assetType: AssetType;
+}
+
+export interface SymbolMaster {
+  version: number;
+  updatedAt: string; // data di aggiornamento dichiarata nel file
+  loadedAt: string;
+  source: string; // percorso del file letto
+  symbols: SymbolInfo[];
+}
+
+export type SymbolValidationStatus = 'valid' | 'invalid';
+
+export interface SymbolValidation {
+  symbol: string;
+  status: SymbolValidationStatus;
+  info: SymbolInfo | null; // null se il simbolo non è in anagrafica
+  inMaster: boolean;
+  lastClose: LatestClose | null;
+  suggestions: string[];
+  message?: string;
+}
+
+/**
+ * Lettura dell'ultima chiusura dal data layer; con storeOnly solo dai dati già
+ * salvati, senza richieste alle sorgenti remote
+ */
+export type LatestCloseLookup = (
+  symbol: string,
+  options: { storeOnly: boolean }
+) => Promise<LatestClose | null>;
+
+// ========== COSTANTI ==========
+
+export const ASSET_TYPES: AssetType[] = [
+  'equity',
+  'etf',
+  'fund',
+  'index',
+  'crypto',
+  'currency',
+];
+
+const DEFAULT_MASTER_PATH = path.resolve(__dirname, '../../data/symbols.json');
+
+/** Stesso formato accettato da YahooFinanceService.validateSymbol */
+const SYMBOL_PATTERN = /^\^?[A-Z0-9.\-=]+$/;
+const MAX_SYMBOL_LENGTH = 10;
+
+const MAX_SUGGESTION_DISTANCE = 2;
+const DEFAULT_SEARCH_LIMIT = 10;
+const DEFAULT_SUGGESTION_LIMIT = 3;
+
+let loaded: { master: SymbolMaster; mtimeMs: number } | null = null;
+
+// ========== FUNZIONI PUBBLICHE ==========
+
+export function getSymbolMasterPath(): string {
+  return process.env.SYMBOL_MASTER_PATH || DEFAULT_MASTER_PATH;
+}
+
+/**
+ * Carica l'anagrafica, riusando la copia in memoria finché il file non cambia.
+ * Se la rilettura fallisce resta valida l'ultima copia caricata dallo stesso
+ * percorso; senza una copia precedente l'errore viene propagato.
+ */
+export function loadSymbolMaster(
+  filePath: string = getSymbolMasterPath(),
+  force = false
+): SymbolMaster {
+  const source = path.resolve(filePath);
+
+  try {
+    const { mtimeMs } = fs.statSync(source);
+    if (
+      !force &&
+      loaded &&
+      loaded.master.source === source &&
+      loaded.mtimeMs === mtimeMs
+    ) {
+      return loaded.master;
+    }
+
+    const master = parseSymbolMaster(fs.readFileSync(source, 'utf8'), source);
+    loaded = { master, mtimeMs };
+    console.log(
+      `📇 Anagrafica simboli caricata: ${master.symbols.length} simboli (${master.updatedAt})`
+    );
+    return master;
+  } catch (error) {
+    if (loaded && loaded.master.source === source) {
+      console.warn('⚠️ Rilettura anagrafica simboli fallita:', error);
+      return loaded.master;
+    }
+    throw error;
+  }
+}
+
+/** Forza la rilettura del file dell'anagrafica */
+export function refreshSymbolMaster(
+  filePath: string = getSymbolMasterPath()
+): SymbolMaster {
+  return loadSymbolMaster(filePath, true);
+}
+
+/**
+ * Legge il contenuto JSON dell'anagrafica: { version, updatedAt, symbols }.
+ * Le voci incomplete o con formato non valido vengono scartate; i duplicati
+ * mantengono la prima occorrenza.
+ */
+export function parseSymbolMaster(content: string, source = ''): SymbolMaster {
+  const raw = JSON.parse(content);
+  if (!raw || !Array.isArray(raw.symbols)) {
+    throw new Error('Anagrafica simboli non valida: manca la lista "symbols"');
+  }
+
+  const seen = new Set<string>();
+  const symbols: SymbolInfo[] = [];
+
+  raw.symbols.forEach(entry => {
+    const symbol = normalizeSymbol(String(entry?.symbol ?? ''));
+    if (!isWellFormedSymbol(symbol) || seen.has(symbol)) return;
+    if (!ASSET_TYPES.includes(entry.assetType)) return;
+    if (typeof entry.name !== 'string' || !entry.name.trim()) return;
+
+    seen.add(symbol);
+    symbols.push({
+      symbol,
+      name: entry.name.trim(),
+      exchange: String(entry.exchange ?? ''),
+      currency: String(entry.currency ?? '').toUpperCase(),
+      assetType: entry.assetType,
+    });
+  });
+
+  return {
+    version: Number(raw.version) || 1,
+    updatedAt: String(raw.updatedAt ?? ''),
+    loadedAt: new Date().toISOString(),
+    source,
+    symbols,
+  };
+}
+
+export function normalizeSymbol(input: string): string {
+  return input.trim().toUpperCase();
+}
+
+export function isWellFormedSymbol(symbol: string): boolean {
+  return (
+    symbol.length > 0 &&
+    symbol.length <= MAX_SYMBOL_LENGTH &&
+    SYMBOL_PATTERN.test(symbol)
+  );
+}
+
+export function getSymbolInfo(
+  symbol: string,
+  master: SymbolMaster = loadSymbolMaster()
+): SymbolInfo | null {
+  const normalized = normalizeSymbol(symbol);
+  return master.symbols.find(item => item.symbol === normalized) ?? null;
+}
+
+/**
+ * Ricerca per simbolo o nome. Ordine: simbolo esatto, simbolo che inizia con
+ * la query, parola del nome che inizia con la query, sottostringa.
+ */
+export function searchSymbols(
+  query: string,
+  limit = DEFAULT_SEARCH_LIMIT,
+  master: SymbolMaster = loadSymbolMaster()
+): SymbolInfo[] {
+  const upper = normalizeSymbol(query);
+  if (!upper) return [];
+
+  const rank = (item: SymbolInfo): number => {
+    const name = item.name.toUpperCase();
+    if (item.symbol === upper) return 0;
+    if (item.symbol.startsWith(upper)) return 1;
+    if (name.split(/[\s.,&()/-]+/).some(word => word.startsWith(upper)))
+      return 2;
+    if (item.symbol.includes(upper)) return 3;
+    if (name.includes(upper)) return 4;
+    return -1;
+  };
+
+  return master.symbols
+    .map(item => ({ item, score: rank(item) }))
+    .filter(entry => entry.score >= 0)
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        a.item.symbol.length - b.item.symbol.length ||
+        a.item.symbol.localeCompare(b.item.symbol)
+    )
+    .slice(0, Math.max(0, limit))
+    .map(entry => entry.item);
+}
+
+/**
+ * Simboli dell'anagrafica simili a quello inserito: stesso ticker su un'altra
+ * borsa (ENI → ENI.MI), contenimento o distanza di Levenshtein ≤ 2
+ */
+export function suggestSymbols(
+  input: string,
+  limit = DEFAULT_SUGGESTION_LIMIT,
+  master: SymbolMaster = loadSymbolMaster()
+): string[] {
+  const upper = normalizeSymbol(input);
+  if (!upper) return [];
+
+  return master.symbols
+    .filter(item => item.symbol !== upper)
+    .map(item => {
+      const base = item.symbol.split('.')[0] ?? item.symbol;
+      const distance = levenshteinDistance(item.symbol, upper);
+      const score =
+        base === upper
+          ? 0
+          : distance <= MAX_SUGGESTION_DISTANCE
+            ? distance
+            : item.symbol.includes(upper) || upper.includes(item.symbol)
+              ? MAX_SUGGESTION_DISTANCE + 1
+              : Infinity;
+      return { symbol: item.symbol, score };
+    })
+    .filter(entry => Number.isFinite(entry.score))
+    .sort((a, b) => a.score - b.score || a.symbol.localeCompare(b.symbol))
+    .slice(0, Math.max(0, limit))
+    .map(entry => entry.symbol);
+}
+
+/**
+ * Valida un ticker: i simboli in anagrafica sono validi (l'ultima chiusura è
+ * facoltativa), gli altri lo sono solo se il market data store ne ha già
+ * le quotazioni.
+ */
+export async function validateSymbol(
+  input: string,
+  lookupLatestClose: LatestCloseLookup,
+  master: SymbolMaster = loadSymbolMaster()
+): Promise<SymbolValidation> {
+  const symbol = normalizeSymbol(input);
+  const suggestions = () => suggestSymbols(symbol, undefined, master);
+
+  if (!isWellFormedSymbol(symbol)) {
+    return {
+      symbol,
+      status: 'invalid',
+      info: null,
+      inMaster: false,
+      lastClose: null,
+      suggestions: suggestions(),
+      message: `Formato del simbolo non valido (max ${MAX_SYMBOL_LENGTH} caratteri: lettere, numeri, ".", "-", "=", "^" iniziale)`,
+    };
+  }
+
+  const info = getSymbolInfo(symbol, master);
+  let lastClose: LatestClose | null = null;
+  let lookupError: string | undefined;
+
+  try {
+    // Fuori anagrafica niente download: ogni simbolo inventato costerebbe
+    // una richiesta alle sorgenti remote
+    lastClose = await lookupLatestClose(symbol, { storeOnly: !info });
+  } catch (error) {
+    lookupError = error instanceof Error ? error.message : String(error);
+  }
+
+  if (info) {
+    return {
+      symbol,
+      status: 'valid',
+      info,
+      inMaster: true,
+      lastClose,
+      suggestions: [],
+      ...(lookupError && {
+        message: 'Ultima chiusura non disponibile al momento',
+      }),
+    };
+  }
+
+  if (lastClose) {
+    return {
+      symbol,
+      status: 'valid',
+      info: null,
+      inMaster: false,
+      lastClose,
+      suggestions: [],
+      message: "Simbolo non presente nell'anagrafica locale",
+    };
+  }
+
+  return {
+    symbol,
+    status: 'invalid',
+    info: null,
+    inMaster: false,
+    lastClose: null,
+    suggestions: suggestions(),
+    message: lookupError
+      ? `Nessun dato disponibile per ${symbol}`
+      : `Nessuna quotazione recente per ${symbol}`,
+  };
+}
+
+/**
+ * Distanza di Levenshtein per il fuzzy matching dei simboli
+ */
+export function levenshteinDistance(str1: string, str2: string): number {
+  let previous = Array.from({ length: str2.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= str1.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= str2.length; j++) {
+      const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[str2.length];
+}
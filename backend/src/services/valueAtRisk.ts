@@ -0,0 +1,461 @@
+/**
+ * Value at Risk per STUDENT ANALYST
+ *
+ * Stima di VaR e CVaR (Expected Shortfall) con quattro metodi:
+ * storico, parametrico normale, parametrico Cornish-Fisher e Monte Carlo.
+ * VaR e CVaR sono espressi come perdita positiva in frazione del valore
+ * (0.023 = perdita del 2.3%) sull'orizzonte richiesto.
+ */
+
+import {
+  buildHistogram,
+  createRandom,
+  excessKurtosis,
+  Histogram,
+  inverseNormalCdf,
+  isFiniteNumber,
+  mean,
+  normalPdf,
+  quantileSorted,
+  randomNormal,
+  randomStudentT,
+  skewness,
+  standardDeviation,
+} from './statistics';
+
+// ========== INTERFACCE ==========
+
+export type VaRMethod =
+  | 'historical'
+  | 'parametric-normal'
+  | 'cornish-fisher'
+  | 'monte-carlo';
+
+export type VaRHorizon = '1d' | '10d' | '1m';
+
+export interface VaRConfig {
+  confidenceLevels: number[]; // es. [0.9, 0.95, 0.99]
+  horizons: VaRHorizon[];
+  simulations: number; // numero di scenari Monte Carlo
+  seed: number; // combinato con il simbolo: ogni serie ha i propri scenari
+}
+
+export interface VaREstimate {
+  method: VaRMethod;
+  confidence: number;
+  horizon: VaRHorizon;
+  var: number;
+  cvar: number;
+  scaled: boolean; // true se ricavato dall'orizzonte di un periodo con la regola √h
+}
+
+export type ReturnHistogram = Histogram;
+
+export interface SeriesRiskReport {
+  symbol: string;
+  observations: number;
+  moments: {
+    mean: number;
+    standardDeviation: number;
+    skewness: number;
+    excessKurtosis: number;
+  };
+  estimates: VaREstimate[];
+  histograms: Partial<Record<VaRHorizon, ReturnHistogram>>;
+}
+
+export interface ValueAtRiskReport {
+  confidenceLevels: number[];
+  horizons: VaRHorizon[];
+  horizonPeriods: Partial<Record<VaRHorizon, number>>; // periodi di campionamento per orizzonte
+  simulations: number;
+  tickers: SeriesRiskReport[];
+  portfolio: SeriesRiskReport | null;
+}
+
+// ========== COSTANTI ==========
+
+export const VAR_CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+
+export const VAR_HORIZONS: VaRHorizon[] = ['1d', '10d', '1m'];
+
+/** Giorni di borsa per orizzonte */
+export const HORIZON_TRADING_DAYS: Record<VaRHorizon, number> = {
+  '1d': 1,
+  '10d': 10,
+  '1m': 21,
+};
+
+export const DEFAULT_VAR_CONFIG: VaRConfig = {
+  confidenceLevels: VAR_CONFIDENCE_LEVELS,
+  horizons: VAR_HORIZONS,
+  simulations: 5000,
+  seed: 42,
+};
+
+/** Osservazioni minime per stimare il rischio di una serie */
+export const MIN_VAR_OBSERVATIONS = 20;
+
+const HISTOGRAM_BINS = 30;
+const CVAR_INTEGRATION_STEPS = 100;
+
+// ========== VALIDAZIONE ==========
+
+/**
+ * Valida la configurazione ricevuta dal client (livelli e orizzonti).
+ * Restituisce la configurazione completa oppure un messaggio d'errore.
+ */
+export function parseVaRConfig(
+  raw: unknown
+): { config: VaRConfig } | { error: string } {
+  if (raw === undefined || raw === null) {
+    return { config: DEFAULT_VAR_CONFIG };
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Parametro varConfig deve essere un oggetto' };
+  }
+
+  const { confidenceLevels, horizons } = raw as Record<string, unknown>;
+  const config: VaRConfig = { ...DEFAULT_VAR_CONFIG };
+
+  if (confidenceLevels !== undefined) {
+    if (
+      !Array.isArray(confidenceLevels) ||
+      confidenceLevels.length === 0 ||
+      !confidenceLevels.every(level =>
+        VAR_CONFIDENCE_LEVELS.includes(Number(level))
+      )
+    ) {
+      return {
+        error: `varConfig.confidenceLevels deve contenere valori tra: ${VAR_CONFIDENCE_LEVELS.join(', ')}`,
+      };
+    }
+    config.confidenceLevels = [...new Set(confidenceLevels.map(Number))].sort(
+      (a, b) => a - b
+    );
+  }
+
+  if (horizons !== undefined) {
+    if (
+      !Array.isArray(horizons) ||
+      horizons.length === 0 ||
+      !horizons.every(horizon => VAR_HORIZONS.includes(horizon as VaRHorizon))
+    ) {
+      return {
+        error: `varConfig.horizons deve contenere valori tra: ${VAR_HORIZONS.join(', ')}`,
+      };
+    }
+    config.horizons = VAR_HORIZONS.filter(horizon =>
+      horizons.includes(horizon)
+    );
+  }
+
+  return { config };
+}
+
+// ========== CALCOLO ==========
+
+/**
+ * Numero di periodi di campionamento corrispondenti all'orizzonte
+ * (es. 10 giorni = 2 periodi su dati settimanali)
+ */
+export function getHorizonPeriods(
+  horizon: VaRHorizon,
+  periodsPerYear: number
+): number {
+  return (HORIZON_TRADING_DAYS[horizon] * periodsPerYear) / 252;
+}
+
+/**
+ * Calcola VaR e CVaR per una serie di rendimenti semplici.
+ * Restituisce null se le osservazioni sono insufficienti.
+ */
+export function calculateSeriesRisk(
+  symbol: string,
+  returns: (number | null)[],
+  periodsPerYear: number,
+  config: VaRConfig = DEFAULT_VAR_CONFIG
+): SeriesRiskReport | null {
+  const cleanReturns = returns.filter(isFiniteNumber);
+
+  if (cleanReturns.length < MIN_VAR_OBSERVATIONS) {
+    return null;
+  }
+
+  const moments = {
+    mean: mean(cleanReturns),
+    standardDeviation: standardDeviation(cleanReturns),
+    skewness: skewness(cleanReturns),
+    excessKurtosis: excessKurtosis(cleanReturns),
+  };
+
+  const estimates: VaREstimate[] = [];
+  const histograms: SeriesRiskReport['histograms'] = {};
+
+  for (const horizon of config.horizons) {
+    const periods = getHorizonPeriods(horizon, periodsPerYear);
+
+    // Rendimenti storici sull'orizzonte (finestre sovrapposte) se possibile
+    const horizonReturns = aggregateReturns(cleanReturns, periods);
+    const historicalScaled = horizonReturns === null;
+    const historicalSample = [...(horizonReturns ?? cleanReturns)].sort(
+      (a, b) => a - b
+    );
+    histograms[horizon] = buildHistogram(historicalSample, HISTOGRAM_BINS);
+
+    // Scenari Monte Carlo sull'orizzonte
+    const simulated = simulateHorizonReturns(
+      moments,
+      periods,
+      config.simulations,
+      symbolSeed(symbol, config.seed)
+    );
+
+    for (const confidence of config.confidenceLevels) {
+      const alpha = 1 - confidence;
+
+      const historical = tailRisk(historicalSample, alpha);
+      const historicalFactor = historicalScaled ? Math.sqrt(periods) : 1;
+      estimates.push({
+        method: 'historical',
+        confidence,
+        horizon,
+        var: historical.var * historicalFactor,
+        cvar: historical.cvar * historicalFactor,
+        scaled: historicalScaled,
+      });
+
+      estimates.push({
+        method: 'parametric-normal',
+        confidence,
+        horizon,
+        ...parametricNormalRisk(moments, periods, alpha),
+        scaled: false,
+      });
+
+      estimates.push({
+        method: 'cornish-fisher',
+        confidence,
+        horizon,
+        ...cornishFisherRisk(moments, periods, alpha),
+        scaled: false,
+      });
+
+      const monteCarlo = tailRisk(simulated.returns, alpha);
+      estimates.push({
+        method: 'monte-carlo',
+        confidence,
+        horizon,
+        var: monteCarlo.var * simulated.scale,
+        cvar: monteCarlo.cvar * simulated.scale,
+        scaled: simulated.scale !== 1,
+      });
+    }
+  }
+
+  return {
+    symbol,
+    observations: cleanReturns.length,
+    moments,
+    estimates,
+    histograms,
+  };
+}
+
+/**
+ * Report completo per ticker e portafoglio
+ */
+export function calculateValueAtRisk(
+  series: Array<{ symbol: string; returns: (number | null)[] }>,
+  portfolioReturns: number[] | null,
+  periodsPerYear: number,
+  config: VaRConfig = DEFAULT_VAR_CONFIG
+): ValueAtRiskReport {
+  const tickers = series
+    .map(({ symbol, returns }) =>
+      calculateSeriesRisk(symbol, returns, periodsPerYear, config)
+    )
+    .filter((report): report is SeriesRiskReport => report !== null);
+
+  return {
+    confidenceLevels: config.confidenceLevels,
+    horizons: config.horizons,
+    horizonPeriods: Object.fromEntries(
+      config.horizons.map(horizon => [
+        horizon,
+        getHorizonPeriods(horizon, periodsPerYear),
+      ])
+    ),
+    simulations: config.simulations,
+    tickers,
+    portfolio: portfolioReturns
+      ? calculateSeriesRisk(
+          'PORTAFOGLIO',
+          portfolioReturns,
+          periodsPerYear,
+          config
+        )
+      : null,
+  };
+}
+
+// ========== METODI ==========
+
+/**
+ * VaR e CVaR empirici su un campione ordinato in modo crescente
+ */
+function tailRisk(
+  sorted: number[],
+  alpha: number
+): { var: number; cvar: number } {
+  const cutoff = quantileSorted(sorted, alpha);
+  const tail = sorted.filter(value => value <= cutoff);
+
+  return {
+    var: -cutoff,
+    cvar: -(tail.length > 0 ? mean(tail) : cutoff),
+  };
+}
+
+/**
+ * VaR/CVaR normali con scaling di media (h) e deviazione standard (√h)
+ */
+function parametricNormalRisk(
+  moments: SeriesRiskReport['moments'],
+  periods: number,
+  alpha: number
+): { var: number; cvar: number } {
+  const mu = moments.mean * periods;
+  const sigma = moments.standardDeviation * Math.sqrt(periods);
+  const z = inverseNormalCdf(alpha);
+
+  return {
+    var: -(mu + z * sigma),
+    cvar: -(mu - (sigma * normalPdf(z)) / alpha),
+  };
+}
+
+/**
+ * Espansione di Cornish-Fisher: corregge il quantile normale per asimmetria
+ * e curtosi. Per rendimenti i.i.d. sull'orizzonte h l'asimmetria scala con
+ * 1/√h e la curtosi in eccesso con 1/h; sotto il periodo di campionamento si
+ * mantiene la forma della distribuzione di un periodo. Il CVaR è la media dei
+ * quantili corretti nella coda (integrazione numerica).
+ */
+function cornishFisherRisk(
+  moments: SeriesRiskReport['moments'],
+  periods: number,
+  alpha: number
+): { var: number; cvar: number } {
+  const mu = moments.mean * periods;
+  const sigma = moments.standardDeviation * Math.sqrt(periods);
+  const shapePeriods = Math.max(periods, 1);
+  const s = moments.skewness / Math.sqrt(shapePeriods);
+  const k = moments.excessKurtosis / shapePeriods;
+
+  const cornishFisherZ = (p: number) => {
+    const z = inverseNormalCdf(p);
+    return (
+      z +
+      ((z * z - 1) * s) / 6 +
+      ((z ** 3 - 3 * z) * k) / 24 -
+      ((2 * z ** 3 - 5 * z) * s * s) / 36
+    );
+  };
+
+  let tailSum = 0;
+  for (let i = 0; i < CVAR_INTEGRATION_STEPS; i++) {
+    tailSum += cornishFisherZ((alpha * (i + 0.5)) / CVAR_INTEGRATION_STEPS);
+  }
+
+  return {
+    var: -(mu + cornishFisherZ(alpha) * sigma),
+    cvar: -(mu + (tailSum / CVAR_INTEGRATION_STEPS) * sigma),
+  };
+}
+
+/**
+ * Scenari Monte Carlo: innovazioni t di Student con gradi di libertà stimati
+ * dalla curtosi (normali se la curtosi in eccesso è nulla), riscalate alla
+ * varianza campionaria e composte su floor(h) periodi, più una frazione di
+ * periodo con media riscalata e shock riscalato di √frazione. Per orizzonti
+ * inferiori a un periodo si simula un periodo e si applica lo scaling √h.
+ */
+function simulateHorizonReturns(
+  moments: SeriesRiskReport['moments'],
+  periods: number,
+  simulations: number,
+  seed: number
+): { returns: number[]; scale: number } {
+  const random = createRandom(seed);
+  const steps = Math.max(1, Math.floor(periods));
+  const fraction = periods < 1 ? 0 : periods - steps;
+  const scale = periods < 1 ? Math.sqrt(periods) : 1;
+
+  // ν = 6 / k + 4 per una t con curtosi in eccesso k
+  const dof =
+    moments.excessKurtosis > 0.05 ? 6 / moments.excessKurtosis + 4 : null;
+  const tScale = dof !== null ? Math.sqrt((dof - 2) / dof) : 1;
+
+  // Rendimento log di un passo lungo length periodi (1 o la frazione finale)
+  const stepLogReturn = (length: number) => {
+    const shock =
+      dof !== null
+        ? randomStudentT(random, dof) * tScale
+        : randomNormal(random);
+    const stepReturn =
+      moments.mean * length +
+      moments.standardDeviation * Math.sqrt(length) * shock;
+    return Math.log(Math.max(1 + stepReturn, 1e-9));
+  };
+
+  const simulated: number[] = [];
+  for (let i = 0; i < simulations; i++) {
+    let logGrowth = 0;
+    for (let step = 0; step < steps; step++) {
+      logGrowth += stepLogReturn(1);
+    }
+    if (fraction > 0) logGrowth += stepLogReturn(fraction);
+    simulated.push(Math.exp(logGrowth) - 1);
+  }
+
+  return { returns: simulated.sort((a, b) => a - b), scale };
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+// Seed Monte Carlo del ticker: hash FNV-1a del simbolo a partire dal seed
+// configurato, stabile tra le esecuzioni ma diverso tra le serie
+function symbolSeed(symbol: string, seed: number): number {
+  let hash = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < symbol.length; i++) {
+    hash = Math.imul(hash ^ symbol.charCodeAt(i), 16777619) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Rendimenti composti su finestre sovrapposte di h periodi.
+ * Restituisce null se h non è un numero intero di periodi >= 1 o se le
+ * finestre disponibili sono troppo poche.
+ */
+function aggregateReturns(returns: number[], periods: number): number[] | null {
+  const steps = Math.round(periods);
+
+  if (steps < 1 || Math.abs(periods - steps) > 1e-9) return null;
+  if (steps === 1) return [...returns];
+  if (returns.length - steps + 1 < MIN_VAR_OBSERVATIONS) return null;
+
+  const logReturns = returns.map(value => Math.log(1 + value));
+  const aggregated: number[] = [];
+  let windowSum = logReturns.slice(0, steps).reduce((a, b) => a + b, 0);
+  aggregated.push(Math.exp(windowSum) - 1);
+
+  for (let i = steps; i < logReturns.length; i++) {
+    windowSum += logReturns[i] - logReturns[i - steps];
+    aggregated.push(Math.exp(windowSum) - 1);
+  }
+
+  return aggregated;
+}
@@ -0,0 +1,516 @@
+/**
+ * Volatility Models per STUDENT ANALYST
+ *
+ * Volatilità nel tempo di ticker e portafoglio con tre modelli:
+ * volatilità realizzata su finestre mobili (21/63/252 giorni di borsa),
+ * EWMA RiskMetrics e GARCH(1,1) stimato per massima verosimiglianza
+ * (innovazioni normali) con previsione a N giorni e struttura a termine.
+ * Ogni serie riporta la stima disponibile alla chiusura di ciascuna data;
+ * le volatilità sono annualizzate (σ per periodo × √periodi per anno).
+ */
+
+import {
+  chiSquareQuantile,
+  invertMatrix,
+  isFiniteNumber,
+  mean,
+  nelderMead,
+  standardDeviation,
+} from './statistics';
+
+// ========== INTERFACCE ==========
+
+export interface VolatilityConfig {
+  forecastDays: number; // orizzonte della previsione GARCH in giorni di borsa
+  ewmaLambda: number; // fattore di decadimento EWMA
+}
+
+export interface VolatilityInput {
+  symbol: string;
+  dates: string[]; // date dei rendimenti
+  returns: (number | null)[]; // null dove la serie non ha dati
+}
+
+export interface RollingVolatility {
+  window: number; // giorni di borsa
+  periods: number; // osservazioni della finestra alla frequenza dell'analisi
+  values: (number | null)[]; // null finché la finestra non è completa
+}
+
+export interface EwmaVolatility {
+  lambda: number;
+  values: number[];
+  current: number;
+}
+
+export interface GarchParameters {
+  omega: number;
+  alpha: number;
+  beta: number;
+}
+
+export interface GarchForecastStep {
+  step: number; // periodi dopo l'ultima data
+  volatility: number; // volatilità condizionale attesa nel periodo
+  termVolatility: number; // volatilità media dal periodo 1 a step
+  lower: number; // cono: intervallo della volatilità realizzata da 1 a step
+  upper: number;
+}
+
+export interface GarchFit {
+  mean: number; // media dei rendimenti (per periodo)
+  parameters: GarchParameters;
+  standardErrors: GarchParameters | null; // dall'hessiana numerica
+  persistence: number; // α + β
+  longRunVolatility: number;
+  halfLife: number | null; // periodi per dimezzare lo scarto dal lungo periodo
+  logLikelihood: number;
+  aic: number;
+  bic: number;
+  iterations: number;
+  converged: boolean;
+  conditionalVolatility: number[];
+  forecast: GarchForecastStep[];
+}
+
+export interface SeriesVolatilityReport {
+  symbol: string;
+  observations: number;
+  dates: string[];
+  realizedVolatility: number;
+  rolling: RollingVolatility[];
+  ewma: EwmaVolatility;
+  garch: GarchFit | null; // null con osservazioni insufficienti
+}
+
+export interface VolatilityReport {
+  periodsPerYear: number;
+  forecastDays: number;
+  forecastPeriods: number;
+  ewmaLambda: number;
+  coneConfidence: number;
+  tickers: SeriesVolatilityReport[];
+  portfolio: SeriesVolatilityReport | null;
+}
+
+// ========== COSTANTI ==========
+
+/** Finestre della volatilità mobile in giorni di borsa (1 mese, 3 mesi, 1 anno) */
+export const ROLLING_WINDOWS = [21, 63, 252];
+
+export const DEFAULT_VOLATILITY_CONFIG: VolatilityConfig = {
+  forecastDays: 21,
+  ewmaLambda: 0.94, // RiskMetrics per dati giornalieri
+};
+
+export const MAX_FORECAST_DAYS = 252;
+
+/** Osservazioni minime per le stime di volatilità e per il GARCH */
+export const MIN_VOLATILITY_OBSERVATIONS = 20;
+export const MIN_GARCH_OBSERVATIONS = 100;
+
+const CONE_CONFIDENCE = 0.95;
+
+// Rendimenti usati per la varianza iniziale dell'EWMA
+const EWMA_SEED_PERIODS = 20;
+
+// α + β resta sotto 1: processo stazionario con varianza di lungo periodo finita
+const MAX_PERSISTENCE = 0.9999;
+
+// Punti di partenza (α, β) della massima verosimiglianza
+const GARCH_STARTS: Array<[number, number]> = [
+  [0.05, 0.9],
+  [0.1, 0.8],
+];
+
+// ========== VALIDAZIONE ==========
+
+/**
+ * Valida la configurazione ricevuta dal client (orizzonte e λ).
+ * Restituisce la configurazione completa oppure un messaggio d'errore.
+ */
+export function parseVolatilityConfig(
+  raw: unknown
+): { config: VolatilityConfig } | { error: string } {
+  if (raw === undefined || raw === null) {
+    return { config: DEFAULT_VOLATILITY_CONFIG };
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Parametro volatilityConfig deve essere un oggetto' };
+  }
+
+  const { forecastDays, ewmaLambda } = raw as Record<string, unknown>;
+  const config: VolatilityConfig = { ...DEFAULT_VOLATILITY_CONFIG };
+
+  if (forecastDays !== undefined) {
+    const days = Number(forecastDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_FORECAST_DAYS) {
+      return {
+        error: `volatilityConfig.forecastDays deve essere un intero tra 1 e ${MAX_FORECAST_DAYS}`,
+      };
+    }
+    config.forecastDays = days;
+  }
+
+  if (ewmaLambda !== undefined) {
+    const lambda = Number(ewmaLambda);
+    if (!Number.isFinite(lambda) || lambda <= 0 || lambda >= 1) {
+      return {
+        error: 'volatilityConfig.ewmaLambda deve essere compreso tra 0 e 1',
+      };
+    }
+    config.ewmaLambda = lambda;
+  }
+
+  return { config };
+}
+
+// ========== CALCOLO ==========
+
+/**
+ * Periodi di campionamento corrispondenti a un numero di giorni di borsa
+ * (almeno uno)
+ */
+export function daysToPeriods(days: number, periodsPerYear: number): number {
+  return Math.max(1, Math.round((days * periodsPerYear) / 252));
+}
+
+/**
+ * Volatilità mobili, EWMA e GARCH di una serie di rendimenti.
+ * Restituisce null se le osservazioni sono insufficienti.
+ */
+export function calculateSeriesVolatility(
+  input: VolatilityInput,
+  periodsPerYear: number,
+  config: VolatilityConfig = DEFAULT_VOLATILITY_CONFIG
+): SeriesVolatilityReport | null {
+  // Rendimenti non finiti scartati insieme alla loro data
+  const dates: string[] = [];
+  const returns: number[] = [];
+  input.returns.forEach((value, i) => {
+    if (isFiniteNumber(value) && input.dates[i] !== undefined) {
+      dates.push(input.dates[i]);
+      returns.push(value);
+    }
+  });
+
+  if (returns.length < MIN_VOLATILITY_OBSERVATIONS) {
+    return null;
+  }
+
+  const annualize = Math.sqrt(periodsPerYear);
+
+  return {
+    symbol: input.symbol,
+    observations: returns.length,
+    dates,
+    realizedVolatility: standardDeviation(returns) * annualize,
+    rolling: ROLLING_WINDOWS.map(window => ({
+      window,
+      periods: daysToPeriods(window, periodsPerYear),
+    }))
+      .filter(({ periods }) => periods >= 3 && periods <= returns.length)
+      .map(({ window, periods }) => ({
+        window,
+        periods,
+        values: rollingVolatility(returns, periods).map(value =>
+          value === null ? null : value * annualize
+        ),
+      })),
+    ewma: ewmaVolatility(returns, config.ewmaLambda, annualize),
+    garch:
+      returns.length >= MIN_GARCH_OBSERVATIONS
+        ? fitGarch(
+            returns,
+            periodsPerYear,
+            daysToPeriods(config.forecastDays, periodsPerYear)
+          )
+        : null,
+  };
+}
+
+/**
+ * Report completo per ticker e portafoglio
+ */
+export function calculateVolatilityModels(
+  series: VolatilityInput[],
+  portfolio: VolatilityInput | null,
+  periodsPerYear: number,
+  config: VolatilityConfig = DEFAULT_VOLATILITY_CONFIG
+): VolatilityReport {
+  return {
+    periodsPerYear,
+    forecastDays: config.forecastDays,
+    forecastPeriods: daysToPeriods(config.forecastDays, periodsPerYear),
+    ewmaLambda: config.ewmaLambda,
+    coneConfidence: CONE_CONFIDENCE,
+    tickers: series
+      .map(input => calculateSeriesVolatility(input, periodsPerYear, config))
+      .filter((report): report is SeriesVolatilityReport => report !== null),
+    portfolio: portfolio
+      ? calculateSeriesVolatility(portfolio, periodsPerYear, config)
+      : null,
+  };
+}
+
+// ========== MODELLI ==========
+
+/**
+ * Deviazione standard campionaria sulle ultime `periods` osservazioni
+ * (per periodo, non annualizzata)
+ */
+export function rollingVolatility(
+  returns: number[],
+  periods: number
+): (number | null)[] {
+  return returns.map((_, i) =>
+    i + 1 < periods
+      ? null
+      : standardDeviation(returns.slice(i + 1 - periods, i + 1))
+  );
+}
+
+/**
+ * EWMA RiskMetrics a media nulla: σ²(t) = λ·σ²(t-1) + (1 - λ)·r²(t),
+ * con varianza iniziale pari alla media dei quadrati dei primi rendimenti
+ */
+export function ewmaVolatility(
+  returns: number[],
+  lambda: number,
+  annualize = 1
+): EwmaVolatility {
+  const seed = returns.slice(0, EWMA_SEED_PERIODS);
+  let variance = mean(seed.map(value => value * value));
+
+  const values = returns.map(value => {
+    variance = lambda * variance + (1 - lambda) * value * value;
+    return Math.sqrt(variance) * annualize;
+  });
+
+  return { lambda, values, current: values[values.length - 1] ?? 0 };
+}
+
+/**
+ * GARCH(1,1) sui rendimenti scartati dalla media:
+ * σ²(t+1) = ω + α·ε²(t) + β·σ²(t), stimato massimizzando la
+ * log-verosimiglianza normale con il simplesso di Nelder-Mead.
+ * La previsione copre `forecastPeriods` periodi dopo l'ultima data.
+ */
+export function fitGarch(
+  returns: number[],
+  periodsPerYear: number,
+  forecastPeriods: number
+): GarchFit {
+  const mu = mean(returns);
+  const residuals = returns.map(value => value - mu);
+  const sampleVariance = mean(residuals.map(value => value * value));
+  const annualize = Math.sqrt(periodsPerYear);
+
+  // Parametri liberi: ω = e^x0, α + β = MAX_PERSISTENCE·logistica(x1),
+  // quota di α nella persistenza = logistica(x2)
+  const toParameters = ([x0, x1, x2]: number[]): GarchParameters => {
+    const persistence = MAX_PERSISTENCE * logistic(x1);
+    const share = logistic(x2);
+    return {
+      omega: Math.exp(x0),
+      alpha: persistence * share,
+      beta: persistence * (1 - share),
+    };
+  };
+  const fromParameters = ({ omega, alpha, beta }: GarchParameters) => [
+    Math.log(omega),
+    logit((alpha + beta) / MAX_PERSISTENCE),
+    logit(alpha / (alpha + beta)),
+  ];
+
+  const best = GARCH_STARTS.map(([alpha, beta]) =>
+    nelderMead(
+      point =>
+        -garchLogLikelihood(residuals, toParameters(point), sampleVariance),
+      fromParameters({
+        omega: sampleVariance * (1 - alpha - beta),
+        alpha,
+        beta,
+      }),
+      { step: 0.5, maxIterations: 2000 }
+    )
+  ).reduce((a, b) => (b.value < a.value ? b : a));
+
+  const parameters = toParameters(best.point);
+  const { omega, alpha, beta } = parameters;
+  const persistence = alpha + beta;
+  const longRunVariance = omega / (1 - persistence);
+  const variances = garchVariances(residuals, parameters, sampleVariance);
+  const logLikelihood = -best.value;
+  const n = returns.length;
+  const estimated = 4; // μ, ω, α, β
+
+  return {
+    mean: mu,
+    parameters,
+    standardErrors: garchStandardErrors(residuals, parameters, sampleVariance),
+    persistence,
+    longRunVolatility: Math.sqrt(longRunVariance) * annualize,
+    halfLife: persistence > 0 ? Math.log(0.5) / Math.log(persistence) : null,
+    logLikelihood,
+    aic: 2 * estimated - 2 * logLikelihood,
+    bic: estimated * Math.log(n) - 2 * logLikelihood,
+    iterations: best.iterations,
+    converged: best.converged,
+    // Stima alla chiusura di ogni data: varianza prevista per il periodo dopo
+    conditionalVolatility: variances
+      .slice(1)
+      .map(value => Math.sqrt(value) * annualize),
+    forecast: garchForecast(
+      parameters,
+      variances[variances.length - 1],
+      forecastPeriods,
+      periodsPerYear
+    ),
+  };
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+const logit = (p: number) => Math.log(p / (1 - p));
+
+/**
+ * Varianze condizionali σ²(0..n): σ²(0) è la varianza campionaria,
+ * σ²(n) la previsione per il periodo successivo all'ultima osservazione
+ */
+function garchVariances(
+  residuals: number[],
+  { omega, alpha, beta }: GarchParameters,
+  initialVariance: number
+): number[] {
+  const variances = [initialVariance];
+  residuals.forEach((residual, t) => {
+    variances.push(omega + alpha * residual * residual + beta * variances[t]);
+  });
+  return variances;
+}
+
+/**
+ * Log-verosimiglianza normale dei residui dato il GARCH
+ */
+function garchLogLikelihood(
+  residuals: number[],
+  parameters: GarchParameters,
+  initialVariance: number
+): number {
+  const variances = garchVariances(residuals, parameters, initialVariance);
+  let total = 0;
+  for (let t = 0; t < residuals.length; t++) {
+    const variance = variances[t];
+    if (!(variance > 0)) return -Infinity;
+    total +=
+      -0.5 *
+      (Math.log(2 * Math.PI) +
+        Math.log(variance) +
+        (residuals[t] * residuals[t]) / variance);
+  }
+  return total;
+}
+
+/**
+ * Errori standard di ω, α, β dall'inversa dell'hessiana della
+ * log-verosimiglianza (differenze centrali). Null se la matrice
+ * d'informazione non è definita positiva, es. con α vicino a zero.
+ */
+function garchStandardErrors(
+  residuals: number[],
+  parameters: GarchParameters,
+  initialVariance: number
+): GarchParameters | null {
+  const theta = [parameters.omega, parameters.alpha, parameters.beta];
+  const steps = theta.map(value => Math.max(Math.abs(value) * 1e-4, 1e-10));
+  const logLikelihood = (point: number[]) =>
+    garchLogLikelihood(
+      residuals,
+      { omega: point[0], alpha: point[1], beta: point[2] },
+      initialVariance
+    );
+  const shifted = (shifts: Array<[number, number]>) =>
+    logLikelihood(
+      theta.map(
+        (value, k) =>
+          value +
+          shifts
+            .filter(([index]) => index === k)
+            .reduce((sum, [, sign]) => sum + sign * steps[k], 0)
+      )
+    );
+
+  const hessian = theta.map((_, i) =>
+    theta.map(
+      (__, j) =>
+        (shifted([
+          [i, 1],
+          [j, 1],
+        ]) -
+          shifted([
+            [i, 1],
+            [j, -1],
+          ]) -
+          shifted([
+            [i, -1],
+            [j, 1],
+          ]) +
+          shifted([
+            [i, -1],
+            [j, -1],
+          ])) /
+        (4 * steps[i] * steps[j])
+    )
+  );
+
+  const covariance = invertMatrix(hessian.map(row => row.map(value => -value)));
+  const errors = covariance?.map((row, i) => Math.sqrt(row[i]));
+  if (!errors || !errors.every(value => Number.isFinite(value))) {
+    return null;
+  }
+
+  return { omega: errors[0], alpha: errors[1], beta: errors[2] };
+}
+
+/**
+ * Previsione della varianza σ²(h+1) = ω + (α + β)·σ²(h), struttura a
+ * termine (volatilità media sui primi h periodi) e cono della volatilità
+ * realizzata: Σσ²·z² approssimata da c·χ²(k) (Satterthwaite)
+ */
+function garchForecast(
+  { omega, alpha, beta }: GarchParameters,
+  nextVariance: number,
+  periods: number,
+  periodsPerYear: number
+): GarchForecastStep[] {
+  const tail = (1 - CONE_CONFIDENCE) / 2;
+  const steps: GarchForecastStep[] = [];
+  let variance = nextVariance;
+  let sumVariance = 0;
+  let sumSquared = 0;
+
+  for (let step = 1; step <= periods; step++) {
+    sumVariance += variance;
+    sumSquared += variance * variance;
+
+    const scale = sumSquared / sumVariance;
+    const dof = (sumVariance * sumVariance) / sumSquared;
+    const band = (p: number) =>
+      Math.sqrt(((scale * chiSquareQuantile(p, dof)) / step) * periodsPerYear);
+
+    steps.push({
+      step,
+      volatility: Math.sqrt(variance * periodsPerYear),
+      termVolatility: Math.sqrt((sumVariance / step) * periodsPerYear),
+      lower: band(tail),
+      upper: band(1 - tail),
+    });
+
+    variance = omega + (alpha + beta) * variance;
+  }
+
+  return steps;
+}
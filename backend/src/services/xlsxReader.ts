@@ -0,0 +1,271 @@
+/**
+ * XLSX Reader per STUDENT ANALYST
+ *
+ * Lettore minimale dei file Excel (Office Open XML) per l'import degli storici
+ * prezzi: estrae dall'archivio ZIP il primo foglio e le stringhe condivise e
+ * restituisce le celle come testo. Formule, stili e fogli multipli non sono
+ * interpretati (per le formule viene letto il valore calcolato salvato).
+ * Dimensione decompressa, righe e colonne sono limitate durante la lettura,
+ * così che un archivio malformato non esaurisca la memoria.
+ */
+
+import zlib from 'zlib';
+
+// ========== INTERFACCE ==========
+
+export interface XlsxReadOptions {
+  maxRows?: number; // numero di riga massimo accettato nel foglio
+  maxUncompressedBytes?: number; // totale decompresso dall'archivio
+}
+
+// ========== COSTANTI ==========
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** Il record di fine directory può essere seguito da un commento di 64 KB */
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+/** Colonne di un foglio Excel (A…XFD) */
+const MAX_COLUMNS = 16384;
+
+const DEFAULT_MAX_ROWS = 1048576; // righe di un foglio Excel
+const DEFAULT_MAX_UNCOMPRESSED_BYTES = 64 * 1024 * 1024;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+// ========== FUNZIONI PUBBLICHE ==========
+
+/**
+ * Righe del primo foglio di lavoro (celle vuote come stringa vuota)
+ */
+export function readXlsxSheet(
+  buffer: Buffer,
+  options: XlsxReadOptions = {}
+): string[][] {
+  const entries = readZipEntries(
+    buffer,
+    options.maxUncompressedBytes ?? DEFAULT_MAX_UNCOMPRESSED_BYTES
+  );
+  const readText = (name: string): string | null => {
+    const entry = entries.get(name);
+    return entry ? entry().toString('utf8') : null;
+  };
+
+  const sheetXml = readText(resolveFirstSheetPath(readText));
+  if (sheetXml === null) {
+    throw new Error('Foglio di lavoro non trovato nel file XLSX');
+  }
+
+  const sharedStrings = parseSharedStrings(
+    readText('xl/sharedStrings.xml') ?? ''
+  );
+  return parseSheetRows(
+    sheetXml,
+    sharedStrings,
+    options.maxRows ?? DEFAULT_MAX_ROWS
+  );
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+/**
+ * Indice dell'archivio ZIP: nome file → funzione che decomprime il contenuto.
+ * Le voci lette condividono il limite di byte decompressi.
+ */
+function readZipEntries(
+  buffer: Buffer,
+  maxUncompressedBytes: number
+): Map<string, () => Buffer> {
+  const searchStart = Math.max(0, buffer.length - MAX_EOCD_SEARCH);
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= searchStart; i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('File XLSX non valido (archivio ZIP non riconosciuto)');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, () => Buffer>();
+  let remainingBytes = maxUncompressedBytes;
+  const tooLarge = () =>
+    new Error('File XLSX troppo grande una volta decompresso');
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_ENTRY_SIGNATURE) {
+      throw new Error('File XLSX non valido (directory ZIP corrotta)');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString('utf8');
+
+    entries.set(name, () => {
+      if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`File XLSX non valido (voce ${name} corrotta)`);
+      }
+      const dataStart =
+        localOffset +
+        30 +
+        buffer.readUInt16LE(localOffset + 26) +
+        buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      let content: Buffer;
+      if (method === METHOD_STORED) {
+        content = data;
+      } else if (method === METHOD_DEFLATE) {
+        if (remainingBytes <= 0) throw tooLarge();
+        try {
+          content = zlib.inflateRawSync(data, {
+            maxOutputLength: remainingBytes,
+          });
+        } catch (error) {
+          if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw tooLarge();
+          }
+          throw error;
+        }
+      } else {
+        throw new Error(`Compressione ZIP non supportata (metodo ${method})`);
+      }
+
+      if (content.length > remainingBytes) throw tooLarge();
+      remainingBytes -= content.length;
+      return content;
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Percorso del primo foglio dichiarato in workbook.xml (fallback: sheet1.xml)
+ */
+function resolveFirstSheetPath(readText: (name: string) => string | null) {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbook = readText('xl/workbook.xml');
+  const rels = readText('xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) return fallback;
+
+  const sheetTag = workbook.match(/<sheet\b[^>]*>/);
+  const relId = sheetTag?.[0].match(/\br:id="([^"]+)"/)?.[1];
+  if (!relId) return fallback;
+
+  const relationship = rels
+    .match(/<Relationship\b[^>]*>/g)
+    ?.find(tag => tag.includes(`Id="${relId}"`));
+  const target = relationship?.match(/\bTarget="([^"]+)"/)?.[1];
+  if (!target) return fallback;
+
+  return target.startsWith('/')
+    ? target.slice(1)
+    : `xl/${target.replace(/^\.\//, '')}`;
+}
+
+function parseSharedStrings(xml: string): string[] {
+  return (xml.match(/<si\b[^>]*>[\s\S]*?<\/si>/g) ?? []).map(item =>
+    readTextRuns(item)
+  );
+}
+
+function parseSheetRows(
+  xml: string,
+  sharedStrings: string[],
+  maxRows: number
+): string[][] {
+  const rows: string[][] = [];
+  const rowMatches = xml.match(/<row\b[^>]*>[\s\S]*?<\/row>|<row\b[^>]*\/>/g);
+
+  (rowMatches ?? []).forEach(rowXml => {
+    const rowNumber =
+      Number(rowXml.match(/\br="(\d+)"/)?.[1]) || rows.length + 1;
+    if (rowNumber > maxRows) {
+      throw new Error(
+        `Troppe righe nel foglio (riga ${rowNumber}): il massimo è ${maxRows}`
+      );
+    }
+    const cells: string[] = [];
+
+    const cellMatches = rowXml.match(/<c\b[^>]*\/>|<c\b[^>]*>[\s\S]*?<\/c>/g);
+    (cellMatches ?? []).forEach(cellXml => {
+      const openTag = cellXml.match(/<c\b[^>]*>/)?.[0] ?? cellXml;
+      const reference = openTag.match(/\br="([A-Z]+)\d+"/)?.[1];
+      const column = reference ? columnIndex(reference) : cells.length;
+      if (column >= MAX_COLUMNS) {
+        throw new Error(
+          `Colonna oltre il limite di Excel (XFD) nella riga ${rowNumber}`
+        );
+      }
+      const type = openTag.match(/\bt="([^"]+)"/)?.[1];
+      const rawValue = cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readTextRuns(cellXml);
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+
+      while (cells.length < column) cells.push('');
+      cells[column] = value.trim();
+    });
+
+    rows[rowNumber - 1] = cells;
+  });
+
+  // Righe mancanti nel foglio (vuote) come array vuoti
+  return Array.from(rows, row => row ?? []);
+}
+
+/** Concatena i frammenti <t> di una stringa (testo con formattazione) */
+function readTextRuns(xml: string): string {
+  return (xml.match(/<t\b[^>]*>([\s\S]*?)<\/t>/g) ?? [])
+    .map(run => decodeXml(run.replace(/<\/?t\b[^>]*>/g, '')))
+    .join('');
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/** "A" → 0, "Z" → 25, "AA" → 26 */
+function columnIndex(letters: string): number {
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
@@ -13,9 +13,18 @@ export interface OHLCVData {
   close: number;
   adjustedClose?: number;
   volume: number;
+  dividendAmount?: number; // dividendo con ex-date in questa barra
   timestamp?: string;
 }
 
+/**
+ * Dividendo per azione con ex-date
+ */
+export interface DividendData {
+  date: string; // ex-date
+  amount: number;
+}
+
 /**
  * Interface per i metadati della risposta Yahoo Finance
  * Mantiene compatibilità con AlphaVantageService
@@ -190,6 +199,41 @@ export class YahooFinanceService {
     }
   }
 
+  /**
+   * Storico dei dividendi (eventi 'dividends' di Yahoo Finance)
+   */
+  public async getDividends(
+    symbol: string,
+    options?: { startDate?: string; endDate?: string }
+  ): Promise<DividendData[]> {
+    try {
+      this.validateSymbol(symbol);
+
+      const queryOptions: any = {
+        period1: options?.startDate ? new Date(options.startDate) : new Date(0),
+        events: 'dividends',
+      };
+      if (options?.endDate) {
+        queryOptions.period2 = new Date(options.endDate);
+      }
+
+      const result = (await yahooFinance.historical(
+        symbol,
+        queryOptions
+      )) as unknown as Array<{ date: Date | string; dividends?: number }>;
+
+      return (result || [])
+        .filter(row => Number(row.dividends) > 0)
+        .map(row => ({
+          date: new Date(row.date).toISOString().split('T')[0],
+          amount: Number(row.dividends),
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    } catch (error) {
+      throw this.handleError(error, symbol, YahooFinanceTimeframe['1d']);
+    }
+  }
+
   /**
    * Validazione del simbolo ticker
    */
@@ -208,8 +252,9 @@ export class YahooFinanceService {
       );
     }
 
-    // Validazione formato simbolo (lettere, numeri, punti)
-    if (!/^[A-Z0-9.]+$/.test(symbol.toUpperCase())) {
+    // Validazione formato simbolo (lettere, numeri, punti, trattini e "="
+    // per valute/futures; "^" iniziale per gli indici come ^GSPC)
+    if (!/^\^?[A-Z0-9.\-=]+$/.test(symbol.toUpperCase())) {
       throw new YahooFinanceError(
         YahooFinanceErrorType.INVALID_SYMBOL,
         'Symbol contains invalid characters'
@@ -30,16 +30,8 @@ module.exports = {
     '/backend/dist/', // Escludi i file compilati del backend
     '/tests/unit/services/dataSourceManager.test.ts', // Missing service files
     '/tests/unit/services/historicalAnalysisService.test.ts', // Missing service files
-    '/tests/unit/storage-monitoring-service.test.ts', // Missing service files
     '/tests/unit/notification-manager.test.ts', // Missing service files
-    '/tests/unit/memory-cache-l1.test.ts', // Missing service files
-    '/tests/unit/local-storage-cache-l2.test.ts', // Missing service files
-    '/tests/unit/cache-analytics-engine.test.ts', // Missing service files
-    '/tests/unit/automatic-cleanup-simple.test.ts', // Missing service files
-    '/tests/unit/automatic-cleanup-service.test.ts', // Missing service files
-    '/tests/unit/algorithm-optimization-engine.test.ts', // Missing service files
     '/tests/unit/components/HistoricalChart.test.tsx', // Chart.js plugin issues
-    '/tests/unit/components/HistoricalTable.test.tsx', // Component not implemented (empty file)
     '/src/components/charts/__tests__/NewTradingViewWidget.test.tsx', // Memory leak issues with TradingView widget mocking
   ],
 
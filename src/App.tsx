@@ -4,6 +4,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { useEffect } from 'react';
 import { BrowserRouter, Route, Routes } from 'react-router-dom';
 import { AnalysisProvider } from './context/AnalysisContext';
+import { cacheService } from './features/cache/services/CacheService';
 import Index from './pages/Index';
 import NotFound from './pages/NotFound';
 
@@ -13,9 +14,12 @@ const App = () => {
   useEffect(() => {
     const now = new Date().toISOString();
     console.log(`[App][DEBUG][${now}] MOUNT`);
+    // Monitoraggio quota e pulizia giornaliera della cache client
+    cacheService.start();
     return () => {
       const now = new Date().toISOString();
       console.log(`[App][DEBUG][${now}] UNMOUNT`);
+      cacheService.stop();
     };
   }, []);
 
@@ -1,17 +1,30 @@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import {
+  Activity,
   BarChart3,
   Calculator,
   Info,
   PieChart,
+  Sigma,
   Table,
   TrendingUp,
 } from 'lucide-react';
 import React, { useEffect } from 'react';
+import AllocatorComparison from './charts/AllocatorComparison';
+import BenchmarkComparison from './charts/BenchmarkComparison';
+import CapmAnalysis from './charts/CapmAnalysis';
+import ClusterAnalysis from './charts/ClusterAnalysis';
 import CorrelationMatrix from './charts/CorrelationMatrix';
+import EfficientFrontierChart from './charts/EfficientFrontierChart';
+import FactorAnalysis from './charts/FactorAnalysis';
+import HistoricalTable from './charts/HistoricalTable';
+import OptimalWeights from './charts/OptimalWeights';
 import PerformanceMetrics from './charts/PerformanceMetrics';
+import ReturnDistribution from './charts/ReturnDistribution';
+import StationarityPanel from './charts/StationarityPanel';
 import { TradingViewChart } from './charts/TradingViewChart';
+import VaRAnalysis from './charts/VaRAnalysis';
 import VolatilityChart from './charts/VolatilityChart';
 import UnifiedInputSection from './input/UnifiedInputSection';
 
@@ -36,26 +49,6 @@ export default function MainTabs({
   // Funzioni per gestire i click sui bottoni
   const handleTheoryClick = (step: string) => {
     const theoryInfo = {
-      confronto: {
-        title: 'Teoria del Confronto Performance',
-        description:
-          'Il confronto con benchmark di mercato permette di valutare la performance relativa del portafoglio rispetto a indici di riferimento come S&P 500, NASDAQ, o altri indici settoriali.',
-      },
-      var: {
-        title: 'Teoria del Value at Risk (VaR)',
-        description:
-          'Il VaR misura la perdita massima attesa in un determinato intervallo di confidenza. Il CVaR (Conditional VaR) misura la perdita media oltre il VaR, fornendo una misura più conservativa del rischio.',
-      },
-      cluster: {
-        title: 'Teoria del Clustering',
-        description:
-          "L'analisi dei cluster raggruppa i titoli per similarità di comportamento. Questo aiuta a identificare gruppi di titoli che si muovono insieme e migliorare la diversificazione.",
-      },
-      tabella: {
-        title: 'Informazioni sui Dati Storici',
-        description:
-          'Questa tabella mostra i dati storici dei prezzi in formato tabulare. Include prezzi di apertura, chiusura, massimi, minimi e volumi per ogni periodo.',
-      },
       default: {
         title: 'Informazioni',
         description:
@@ -76,11 +69,13 @@ export default function MainTabs({
         return [
           { key: 'grafici', label: 'Grafici', icon: BarChart3 },
           { key: 'tabella', label: 'Dati', icon: Table },
+          { key: 'stazionarieta', label: 'Stazionarietà', icon: Activity },
         ];
       case 'performance':
         return [
           { key: 'metriche', label: 'Metriche', icon: TrendingUp },
           { key: 'confronto', label: 'Confronto', icon: BarChart3 },
+          { key: 'distribuzione', label: 'Distribuzione', icon: Sigma },
         ];
       case 'rischio':
         return [
@@ -165,37 +160,11 @@ export default function MainTabs({
             </TabsContent>
 
             <TabsContent value="confronto" className="mt-6">
-              <div className="dark-card rounded-xl p-8">
-                <div className="flex items-center justify-between mb-6">
-                  <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
-                    <BarChart3 size={24} />
-                    Confronto Performance
-                  </h3>
-                  <button
-                    onClick={() => handleTheoryClick('confronto')}
-                    className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
-                  >
-                    <Info size={14} />
-                    Teoria
-                  </button>
-                </div>
-                <div className="w-full h-96 rounded-xl bg-gradient-to-br from-blue-950/50 to-slate-900/50 border border-blue-500/20 flex items-center justify-center">
-                  <div className="text-center space-y-4">
-                    <BarChart3
-                      size={64}
-                      className="mx-auto text-blue-400 animate-pulse"
-                    />
-                    <div>
-                      <p className="text-xl font-bold text-blue-300">
-                        Benchmark Comparison
-                      </p>
-                      <p className="text-slate-400">
-                        Performance vs indici di mercato
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              </div>
+              <BenchmarkComparison />
+            </TabsContent>
+
+            <TabsContent value="distribuzione" className="mt-6">
+              <ReturnDistribution />
             </TabsContent>
           </>
         )}
@@ -208,47 +177,7 @@ export default function MainTabs({
             </TabsContent>
 
             <TabsContent value="var" className="mt-6">
-              <div className="dark-card rounded-xl p-8">
-                <div className="flex items-center justify-between mb-6">
-                  <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
-                    <Calculator size={24} />
-                    Value at Risk & CVaR
-                  </h3>
-                  <button
-                    onClick={() => handleTheoryClick('var')}
-                    className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
-                  >
-                    <Info size={14} />
-                    Teoria
-                  </button>
-                </div>
-
-                <div className="grid md:grid-cols-2 gap-6">
-                  <div className="bg-gradient-to-br from-red-950/30 to-orange-950/30 border border-red-500/30 rounded-xl p-6">
-                    <h4 className="font-semibold text-red-300 mb-4">
-                      VaR (95%)
-                    </h4>
-                    <div className="text-3xl font-bold text-red-400 mb-2">
-                      Calcolo in corso...
-                    </div>
-                    <p className="text-sm text-red-200">
-                      Perdita massima attesa in 5% dei casi
-                    </p>
-                  </div>
-
-                  <div className="bg-gradient-to-br from-purple-950/30 to-pink-950/30 border border-purple-500/30 rounded-xl p-6">
-                    <h4 className="font-semibold text-purple-300 mb-4">
-                      CVaR (95%)
-                    </h4>
-                    <div className="text-3xl font-bold text-purple-400 mb-2">
-                      Calcolo in corso...
-                    </div>
-                    <p className="text-sm text-purple-200">
-                      Perdita media oltre il VaR
-                    </p>
-                  </div>
-                </div>
-              </div>
+              <VaRAnalysis />
             </TabsContent>
           </>
         )}
@@ -261,37 +190,7 @@ export default function MainTabs({
             </TabsContent>
 
             <TabsContent value="cluster" className="mt-6">
-              <div className="dark-card rounded-xl p-8">
-                <div className="flex items-center justify-between mb-6">
-                  <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
-                    <PieChart size={24} />
-                    Cluster Analysis
-                  </h3>
-                  <button
-                    onClick={() => handleTheoryClick('cluster')}
-                    className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
-                  >
-                    <Info size={14} />
-                    Teoria
-                  </button>
-                </div>
-                <div className="w-full h-96 rounded-xl bg-gradient-to-br from-blue-950/50 to-slate-900/50 border border-blue-500/20 flex items-center justify-center">
-                  <div className="text-center space-y-4">
-                    <PieChart
-                      size={64}
-                      className="mx-auto text-blue-400 animate-pulse"
-                    />
-                    <div>
-                      <p className="text-xl font-bold text-blue-300">
-                        Dendrogramma Clustering
-                      </p>
-                      <p className="text-slate-400">
-                        Raggruppamento per similarità
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              </div>
+              <ClusterAnalysis />
             </TabsContent>
           </>
         )}
@@ -304,45 +203,51 @@ export default function MainTabs({
             </TabsContent>
 
             <TabsContent value="tabella" className="mt-6">
-              <div className="dark-card rounded-xl p-8">
-                <div className="flex items-center justify-between mb-6">
-                  <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
-                    <Table size={24} />
-                    Dati Storici
-                  </h3>
-                  <button
-                    onClick={() => handleTheoryClick('tabella')}
-                    className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
-                  >
-                    <Info size={14} />
-                    Info
-                  </button>
-                </div>
-                <div className="w-full h-96 rounded-xl bg-gradient-to-br from-blue-950/50 to-slate-900/50 border border-blue-500/20 flex items-center justify-center">
-                  <div className="text-center space-y-4">
-                    <Table
-                      size={64}
-                      className="mx-auto text-blue-400 animate-pulse"
-                    />
-                    <div>
-                      <p className="text-xl font-bold text-blue-300">
-                        Tabella Dati
-                      </p>
-                      <p className="text-slate-400">
-                        Visualizzazione tabulare dei prezzi storici
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              </div>
+              <HistoricalTable />
+            </TabsContent>
+
+            <TabsContent value="stazionarieta" className="mt-6">
+              <StationarityPanel />
+            </TabsContent>
+          </>
+        )}
+
+        {/* Regression Step */}
+        {activeStep === 'regressiva' && (
+          <>
+            <TabsContent value="capm" className="mt-6">
+              <CapmAnalysis />
+            </TabsContent>
+
+            <TabsContent value="fattori" className="mt-6">
+              <FactorAnalysis />
+            </TabsContent>
+          </>
+        )}
+
+        {/* Optimization Step */}
+        {activeStep === 'ottimizzazione' && (
+          <>
+            <TabsContent value="frontiera" className="mt-6">
+              <EfficientFrontierChart />
+            </TabsContent>
+
+            <TabsContent value="pesi" className="mt-6 space-y-6">
+              <OptimalWeights />
+              <AllocatorComparison />
             </TabsContent>
           </>
         )}
 
         {/* Default content for other steps */}
-        {!['performance', 'rischio', 'diversificazione', 'storica'].includes(
-          activeStep
-        ) && (
+        {![
+          'performance',
+          'rischio',
+          'diversificazione',
+          'storica',
+          'regressiva',
+          'ottimizzazione',
+        ].includes(activeStep) && (
           <>
             <TabsContent value={tabs[0]?.key ?? ''} className="mt-6">
               <div className="dark-card rounded-xl p-8">
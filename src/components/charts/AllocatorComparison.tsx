@@ -0,0 +1,278 @@
+import { useAnalysis } from '@/context/AnalysisContext';
+import { useToast } from '@/hooks/use-toast';
+import type { AllocationMethod } from '@/services/analysisAPI';
+import {
+  BarElement,
+  CategoryScale,
+  Chart as ChartJS,
+  ChartOptions,
+  Legend,
+  LinearScale,
+  Title,
+  Tooltip,
+} from 'chart.js';
+import { AlertTriangle, Info, Layers, Loader } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Bar } from 'react-chartjs-2';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+
+// Registra i componenti necessari di Chart.js
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const METHOD_LABELS: Record<AllocationMethod, string> = {
+  'equal-risk-contribution': 'Risk Parity (ERC)',
+  'maximum-diversification': 'Massima Diversificazione',
+  'minimum-correlation': 'Minima Correlazione',
+  'hierarchical-risk-parity': 'HRP',
+};
+
+const SERIES_COLORS = [
+  '#FF6384',
+  '#36A2EB',
+  '#FFCE56',
+  '#4BC0C0',
+  '#9966FF',
+  '#FF9F40',
+  '#C9CBCF',
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+type View = 'weights' | 'risk';
+
+const options: ChartOptions<'bar'> = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: { color: 'rgb(203, 213, 225)' },
+    },
+    tooltip: {
+      callbacks: {
+        label: context =>
+          `${context.dataset.label}: ${Number(context.raw).toFixed(1)}%`,
+      },
+    },
+  },
+  scales: {
+    x: {
+      stacked: true,
+      ticks: { color: 'rgb(203, 213, 225)' },
+      grid: { display: false },
+    },
+    y: {
+      stacked: true,
+      max: 100,
+      ticks: { color: 'rgb(148, 163, 184)', callback: value => `${value}%` },
+      grid: { color: 'rgba(51, 65, 85, 0.3)' },
+    },
+  },
+};
+
+export default function AllocatorComparison() {
+  const { analysisState } = useAnalysis();
+  const { analysisResults, isLoading, error } = analysisState;
+  const { toast } = useToast();
+  const [view, setView] = useState<View>('risk');
+
+  const report = analysisResults?.riskAllocation ?? null;
+
+  // Barre impilate: una colonna per allocatore, un segmento per titolo
+  const chartData = useMemo(() => {
+    if (!report) return null;
+    return {
+      labels: report.allocations.map(item => METHOD_LABELS[item.method]),
+      datasets: report.hierarchicalOrder.map((symbol, index) => ({
+        label: symbol,
+        data: report.allocations.map(
+          item =>
+            ((view === 'risk' ? item.riskContributions : item.weights)[
+              symbol
+            ] ?? 0) * 100
+        ),
+        backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] ?? '',
+      })),
+    };
+  }, [report, view]);
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria degli Allocatori basati sul Rischio',
+      description:
+        'Questi allocatori usano solo volatilità e correlazioni, senza stimare i rendimenti attesi. Risk Parity (ERC) fa contribuire ogni titolo in egual misura al rischio; la Massima Diversificazione massimizza il rapporto tra volatilità media pesata e volatilità del portafoglio; la Minima Correlazione privilegia i titoli meno correlati; l’HRP raggruppa i titoli simili in un albero e divide il rischio tra i gruppi.',
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">Calcolo degli allocatori...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertTriangle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
+          </div>
+        </div>
+      );
+    }
+
+    if (!report || !chartData) {
+      return (
+        <div className="w-full h-48 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Layers size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Allocatori non Disponibili
+            </h4>
+            <p className="text-slate-400">
+              Avvia un'analisi con almeno due titoli per confrontare gli
+              allocatori basati sul rischio.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-semibold text-blue-300">
+              {view === 'risk' ? 'Contributi al rischio' : 'Pesi'}
+            </h4>
+            <div className="flex gap-2">
+              {(['risk', 'weights'] as View[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`text-xs px-3 py-1 rounded-lg border transition-colors ${
+                    view === option
+                      ? 'border-blue-500/50 bg-blue-500/20 text-blue-300'
+                      : 'border-slate-700/50 text-slate-400 hover:text-slate-300'
+                  }`}
+                >
+                  {option === 'risk' ? 'Rischio' : 'Pesi'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="h-72">
+            <Bar data={chartData} options={options} />
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-700/50">
+                <th className="text-left py-2 font-medium">Titolo</th>
+                {report.allocations.map(item => (
+                  <th
+                    key={item.method}
+                    className="text-right py-2 font-medium"
+                    colSpan={2}
+                  >
+                    {METHOD_LABELS[item.method]}
+                  </th>
+                ))}
+              </tr>
+              <tr className="text-xs text-slate-500 border-b border-slate-700/50">
+                <th />
+                {report.allocations.map(item => (
+                  <th key={item.method} colSpan={2} className="py-1">
+                    <div className="flex justify-end gap-4 font-normal">
+                      <span>Peso</span>
+                      <span>Rischio</span>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.hierarchicalOrder.map(symbol => (
+                <tr
+                  key={symbol}
+                  className="border-b border-slate-800/50 text-slate-200"
+                >
+                  <td className="py-2 font-medium">{symbol}</td>
+                  {report.allocations.map(item => (
+                    <td key={item.method} colSpan={2} className="py-2">
+                      <div className="flex justify-end gap-4">
+                        <span>{formatPercent(item.weights[symbol] ?? 0)}</span>
+                        <span className="text-slate-400">
+                          {formatPercent(item.riskContributions[symbol] ?? 0)}
+                        </span>
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="text-slate-300">
+                <td className="pt-3 text-xs text-slate-400">Volatilità</td>
+                {report.allocations.map(item => (
+                  <td key={item.method} colSpan={2} className="pt-3 text-right">
+                    {formatPercent(item.volatility)}
+                  </td>
+                ))}
+              </tr>
+              <tr className="text-slate-300">
+                <td className="py-1 text-xs text-slate-400">
+                  Rapporto di diversificazione
+                </td>
+                {report.allocations.map(item => (
+                  <td key={item.method} colSpan={2} className="py-1 text-right">
+                    {item.diversificationRatio.toFixed(2)}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-slate-500 mt-3">
+            Titoli in ordine di clustering gerarchico (HRP) · rischio = quota
+            della varianza del portafoglio
+          </p>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <Layers size={24} />
+          Allocatori basati sul Rischio
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+      {renderContent()}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useAnalysis } from '@/context/AnalysisContext';
+
+// Tempo di attesa leggibile (secondi → s/min/h)
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) return `${seconds} s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  return `${Math.ceil(seconds / 3600)} h`;
+};
+
+/**
+ * Dettagli dell'ultimo errore di analisi restituito dal backend: azioni
+ * suggerite, attesa prima di riprovare e motivo per ciascun ticker fallito
+ */
+export default function AnalysisErrorDetails() {
+  const { analysisState } = useAnalysis();
+  const details = analysisState.errorDetails;
+
+  if (!details) return null;
+
+  return (
+    <div className="max-w-sm mx-auto space-y-2 text-left text-sm">
+      {details.tickers && details.tickers.length > 0 && (
+        <ul className="space-y-1">
+          {details.tickers.map(ticker => (
+            <li key={ticker.symbol} className="text-red-300">
+              <span className="font-semibold">{ticker.symbol}</span>:{' '}
+              {ticker.detail ?? ticker.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {details.actions.length > 0 && (
+        <ul className="list-disc list-inside text-gray-400">
+          {details.actions.map(action => (
+            <li key={action}>{action}</li>
+          ))}
+        </ul>
+      )}
+      {details.retryAfter !== undefined && (
+        <p className="text-yellow-400">
+          Riprova tra {formatWait(details.retryAfter)}
+        </p>
+      )}
+    </div>
+  );
+}
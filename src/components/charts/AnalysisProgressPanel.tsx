@@ -0,0 +1,51 @@
+import { Progress } from '@/components/ui/progress';
+import { useAnalysis } from '@/context/AnalysisContext';
+
+// Tempo rimanente leggibile (millisecondi → s/min)
+const formatRemaining = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  return `${Math.ceil(seconds / 60)} min`;
+};
+
+/**
+ * Avanzamento del job di analisi in corso: fase attuale, ticker scaricati,
+ * ticker ancora in coda, tempo stimato e annullamento
+ */
+export default function AnalysisProgressPanel() {
+  const { analysisState, cancelAnalysis } = useAnalysis();
+  const { isLoading, progress: event } = analysisState;
+
+  if (!isLoading) return null;
+
+  const progress = event?.progress;
+  const status =
+    progress?.currentRequest ?? event?.message ?? 'Invio della richiesta...';
+
+  return (
+    <div className="w-full max-w-sm mx-auto space-y-3 text-left">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-blue-300">{status}</span>
+        <span className="text-slate-400">{progress?.percentage ?? 0}%</span>
+      </div>
+      <Progress value={progress?.percentage ?? 0} className="h-2" />
+      {progress && (
+        <p className="text-xs text-slate-400">
+          Ticker scaricati {progress.completed}/{progress.total}
+          {progress.failed > 0 && ` · ${progress.failed} non disponibili`}
+          {progress.queueSize > 0 && ` · in coda ${progress.queueSize}`}
+          {progress.estimatedTimeRemainingMs > 0 &&
+            ` · circa ${formatRemaining(progress.estimatedTimeRemainingMs)} rimanenti`}
+        </p>
+      )}
+      <div className="text-center">
+        <button
+          onClick={cancelAnalysis}
+          className="text-sm px-3 py-1 bg-red-500/10 text-red-300 rounded-lg hover:bg-red-500/20 transition-colors"
+        >
+          Annulla
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import { useAnalysis } from '@/context/AnalysisContext';
+import { useToast } from '@/hooks/use-toast';
+import type { RelativeMetrics } from '@/services/analysisAPI';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  ChartOptions,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+} from 'chart.js';
+import { AlertTriangle, BarChart3, Info, Loader } from 'lucide-react';
+import { useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+
+// Registra i componenti necessari di Chart.js
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const SERIES_COLORS = [
+  '#FF6384',
+  '#36A2EB',
+  '#FFCE56',
+  '#4BC0C0',
+  '#9966FF',
+  '#FF9F40',
+];
+
+const PORTFOLIO_SYMBOL = 'PORTAFOGLIO';
+
+const formatPercent = (value: number) =>
+  `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+const formatRatio = (value: number) => value.toFixed(2);
+
+// Colonne della tabella delle metriche relative
+const METRIC_COLUMNS: {
+  key: keyof RelativeMetrics;
+  label: string;
+  format: (value: number) => string;
+  title: string;
+}[] = [
+  {
+    key: 'excessReturn',
+    label: 'Extra-rend.',
+    format: formatPercent,
+    title: 'Rendimento annualizzato meno quello del benchmark',
+  },
+  {
+    key: 'trackingError',
+    label: 'Tracking Error',
+    format: value => `${(value * 100).toFixed(2)}%`,
+    title: 'Deviazione standard annualizzata dei rendimenti attivi',
+  },
+  {
+    key: 'informationRatio',
+    label: 'Info Ratio',
+    format: formatRatio,
+    title: 'Rendimento attivo annualizzato / tracking error',
+  },
+  {
+    key: 'beta',
+    label: 'Beta',
+    format: formatRatio,
+    title: 'Sensibilità ai movimenti del benchmark',
+  },
+  {
+    key: 'alpha',
+    label: 'Alpha',
+    format: formatPercent,
+    title: 'Alpha di Jensen annualizzato (CAPM)',
+  },
+  {
+    key: 'upCapture',
+    label: 'Up Capture',
+    format: value => `${(value * 100).toFixed(0)}%`,
+    title: 'Quota dei rialzi del benchmark catturata',
+  },
+  {
+    key: 'downCapture',
+    label: 'Down Capture',
+    format: value => `${(value * 100).toFixed(0)}%`,
+    title: 'Quota dei ribassi del benchmark subita',
+  },
+];
+
+const options: ChartOptions<'line'> = {
+  responsive: true,
+  maintainAspectRatio: false,
+  interaction: {
+    mode: 'index' as const,
+    intersect: false,
+  },
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: { color: 'rgb(203, 213, 225)' },
+    },
+    tooltip: {
+      callbacks: {
+        label: context =>
+          `${context.dataset.label}: ${Number(context.parsed.y).toFixed(1)}`,
+      },
+    },
+  },
+  scales: {
+    x: {
+      ticks: { color: 'rgb(148, 163, 184)', maxTicksLimit: 8 },
+      grid: { color: 'rgba(51, 65, 85, 0.3)' },
+    },
+    y: {
+      ticks: { color: 'rgb(148, 163, 184)' },
+      grid: { color: 'rgba(51, 65, 85, 0.3)' },
+      title: {
+        display: true,
+        text: 'Crescita di 100',
+        color: 'rgb(148, 163, 184)',
+      },
+    },
+  },
+};
+
+export default function BenchmarkComparison() {
+  const { analysisState } = useAnalysis();
+  const { analysisResults, isLoading, error } = analysisState;
+  const { toast } = useToast();
+
+  const report = analysisResults?.benchmark ?? null;
+
+  const chartData = useMemo(() => {
+    if (!report) return null;
+
+    const seriesSymbols = Object.keys(report.growth.series);
+
+    return {
+      labels: report.growth.dates,
+      datasets: [
+        {
+          label: report.benchmark,
+          data: report.growth.benchmark,
+          borderColor: '#94A3B8',
+          borderDash: [6, 4],
+          borderWidth: 2,
+          pointRadius: 0,
+        },
+        ...seriesSymbols.map((symbol, index) => ({
+          label: symbol === PORTFOLIO_SYMBOL ? 'Portafoglio' : symbol,
+          data: report.growth.series[symbol] ?? [],
+          borderColor:
+            symbol === PORTFOLIO_SYMBOL
+              ? '#00FF00'
+              : (SERIES_COLORS[index % SERIES_COLORS.length] ?? '#36A2EB'),
+          borderWidth: symbol === PORTFOLIO_SYMBOL ? 3 : 1.5,
+          pointRadius: 0,
+          spanGaps: true,
+        })),
+      ],
+    };
+  }, [report]);
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria del Confronto Performance',
+      description:
+        'Il confronto con un benchmark valuta la performance relativa. Il tracking error misura quanto i rendimenti si discostano dall’indice, l’information ratio rapporta l’extra-rendimento a questo scostamento, il beta misura la sensibilità al mercato e l’alpha il rendimento non spiegato dal beta. Up/down capture indicano quanta parte dei rialzi e dei ribassi dell’indice viene catturata.',
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="w-full h-96 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">Confronto con il benchmark...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="w-full h-96 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertTriangle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
+          </div>
+        </div>
+      );
+    }
+
+    if (!report || !chartData) {
+      const requested = analysisResults?.metadata?.benchmark;
+      return (
+        <div className="w-full h-96 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <BarChart3 size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Benchmark non Disponibile
+            </h4>
+            <p className="text-slate-400">
+              {analysisResults && requested
+                ? `Impossibile scaricare i dati di ${requested} per il periodo selezionato.`
+                : "Avvia un'analisi per confrontare la performance con un indice di mercato."}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {/* Crescita di 100 ribasata */}
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 mb-6">
+          <h4 className="font-semibold text-blue-300 mb-4">
+            Crescita di 100 vs {report.benchmark}
+          </h4>
+          <div className="h-80">
+            <Line data={chartData} options={options} />
+          </div>
+        </div>
+
+        {/* Metriche relative */}
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-semibold text-blue-300">Metriche relative</h4>
+            <span className="text-xs text-slate-400">
+              Tasso risk-free {(report.riskFreeRate * 100).toFixed(1)}%
+            </span>
+          </div>
+          {report.metrics.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 border-b border-slate-700/50">
+                    <th className="text-left py-2 font-medium">Serie</th>
+                    {METRIC_COLUMNS.map(column => (
+                      <th
+                        key={column.key}
+                        className="text-right py-2 font-medium"
+                        title={column.title}
+                      >
+                        {column.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.metrics.map(item => (
+                    <tr
+                      key={item.symbol}
+                      className="border-b border-slate-800/50 text-slate-200"
+                    >
+                      <td className="py-2 font-medium">
+                        {item.symbol === PORTFOLIO_SYMBOL
+                          ? 'Portafoglio'
+                          : item.symbol}
+                      </td>
+                      {METRIC_COLUMNS.map(column => (
+                        <td key={column.key} className="py-2 text-right">
+                          {column.format(item[column.key] as number)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-slate-400 text-sm">
+              Date in comune con il benchmark insufficienti per calcolare le
+              metriche relative.
+            </p>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <BarChart3 size={24} />
+          Confronto Performance
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+      {renderContent()}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useAnalysis } from '@/context/AnalysisContext';
+import { useToast } from '@/hooks/use-toast';
+import type { CapmResult } from '@/services/analysisAPI';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  ChartOptions,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+} from 'chart.js';
+import annotationPlugin from 'chartjs-plugin-annotation';
+import { AlertTriangle, Info, Loader, TrendingUp } from 'lucide-react';
+import { useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+
+// Registra i componenti necessari di Chart.js
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  annotationPlugin
+);
+
+const SERIES_COLORS = [
+  '#FF6384',
+  '#36A2EB',
+  '#FFCE56',
+  '#4BC0C0',
+  '#9966FF',
+  '#FF9F40',
+];
+
+const PORTFOLIO_SYMBOL = 'PORTAFOGLIO';
+
+const displaySymbol = (symbol: string) =>
+  symbol === PORTFOLIO_SYMBOL ? 'Portafoglio' : symbol;
+
+const formatPValue = (value: number) =>
+  value < 0.001 ? '<0.001' : value.toFixed(3);
+
+// Stelle di significatività (10%, 5%, 1%)
+const significance = (pValue: number) =>
+  pValue < 0.01 ? '***' : pValue < 0.05 ? '**' : pValue < 0.1 ? '*' : '';
+
+const options: ChartOptions<'line'> = {
+  responsive: true,
+  maintainAspectRatio: false,
+  interaction: {
+    mode: 'index' as const,
+    intersect: false,
+  },
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: { color: 'rgb(203, 213, 225)' },
+    },
+    annotation: {
+      annotations: {
+        marketBeta: {
+          type: 'line',
+          yMin: 1,
+          yMax: 1,
+          borderColor: 'rgba(148, 163, 184, 0.5)',
+          borderWidth: 1,
+          borderDash: [4, 4],
+        },
+      },
+    } as any,
+  },
+  scales: {
+    x: {
+      ticks: { color: 'rgb(148, 163, 184)', maxTicksLimit: 8 },
+      grid: { color: 'rgba(51, 65, 85, 0.3)' },
+    },
+    y: {
+      ticks: { color: 'rgb(148, 163, 184)' },
+      grid: { color: 'rgba(51, 65, 85, 0.3)' },
+      title: { display: true, text: 'Beta', color: 'rgb(148, 163, 184)' },
+    },
+  },
+};
+
+export default function CapmAnalysis() {
+  const { analysisState } = useAnalysis();
+  const { analysisResults, isLoading, error } = analysisState;
+  const { toast } = useToast();
+
+  const regression = analysisResults?.regression ?? null;
+  const capm = useMemo<CapmResult[]>(
+    () => regression?.capm ?? [],
+    [regression]
+  );
+
+  // Beta rolling di tutte le serie sull'unione delle date
+  const chartData = useMemo(() => {
+    if (capm.length === 0) return null;
+
+    const labels = [
+      ...new Set(capm.flatMap(result => result.rollingBeta.dates)),
+    ].sort();
+
+    return {
+      labels,
+      datasets: capm.map((result, index) => {
+        const valueByDate = new Map(
+          result.rollingBeta.dates.map((date, i) => [
+            date,
+            result.rollingBeta.values[i] ?? null,
+          ])
+        );
+        return {
+          label: displaySymbol(result.symbol),
+          data: labels.map(date => valueByDate.get(date) ?? null),
+          borderColor:
+            result.symbol === PORTFOLIO_SYMBOL
+              ? '#00FF00'
+              : (SERIES_COLORS[index % SERIES_COLORS.length] ?? '#36A2EB'),
+          borderWidth: result.symbol === PORTFOLIO_SYMBOL ? 3 : 1.5,
+          pointRadius: 0,
+          spanGaps: true,
+        };
+      }),
+    };
+  }, [capm]);
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria del CAPM',
+      description:
+        'Il CAPM stima la relazione tra i rendimenti in eccesso del titolo e quelli del mercato: R − Rf = α + β (Rm − Rf) + ε. Il beta misura il rischio sistematico, l’alpha il rendimento non spiegato dal mercato. t-stat e p-value indicano se i coefficienti sono statisticamente diversi da zero; l’R² la quota di varianza spiegata dal mercato.',
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">Stima del modello CAPM...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertTriangle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
+          </div>
+        </div>
+      );
+    }
+
+    if (!regression || capm.length === 0) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <TrendingUp size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              CAPM non Disponibile
+            </h4>
+            <p className="text-slate-400 max-w-md">
+              {regression?.warnings[0] ??
+                "Avvia un'analisi con un benchmark per stimare alpha e beta."}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {/* Stime CAPM */}
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-semibold text-blue-300">
+              Regressione sul mercato ({regression.market})
+            </h4>
+            <span className="text-xs text-slate-400">
+              Risk-free:{' '}
+              {regression.riskFreeSource === 'factor-file'
+                ? 'colonna RF del file fattori'
+                : 'costante 2% annuo'}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-slate-400 border-b border-slate-700/50">
+                  <th className="text-left py-2 font-medium">Serie</th>
+                  <th className="text-right py-2 font-medium">Alpha ann.</th>
+                  <th className="text-right py-2 font-medium">t (α)</th>
+                  <th className="text-right py-2 font-medium">p (α)</th>
+                  <th className="text-right py-2 font-medium">Beta</th>
+                  <th className="text-right py-2 font-medium">t (β)</th>
+                  <th className="text-right py-2 font-medium">p (β)</th>
+                  <th className="text-right py-2 font-medium">R²</th>
+                  <th
+                    className="text-right py-2 font-medium"
+                    title="Errore standard dei residui per periodo"
+                  >
+                    Err. std
+                  </th>
+                  <th className="text-right py-2 font-medium">N</th>
+                </tr>
+              </thead>
+              <tbody>
+                {capm.map(result => {
+                  const [alpha, beta] = result.coefficients;
+                  return (
+                    <tr
+                      key={result.symbol}
+                      className="border-b border-slate-800/50 text-slate-200"
+                    >
+                      <td className="py-2 font-medium">
+                        {displaySymbol(result.symbol)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {(result.annualizedAlpha * 100).toFixed(2)}%
+                        <span className="text-amber-400">
+                          {alpha ? significance(alpha.pValue) : ''}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {alpha?.tStat.toFixed(2) ?? '—'}
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {alpha ? formatPValue(alpha.pValue) : '—'}
+                      </td>
+                      <td className="py-2 text-right">
+                        {result.beta.toFixed(2)}
+                        <span className="text-amber-400">
+                          {beta ? significance(beta.pValue) : ''}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {beta?.tStat.toFixed(2) ?? '—'}
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {beta ? formatPValue(beta.pValue) : '—'}
+                      </td>
+                      <td className="py-2 text-right">
+                        {result.rSquared.toFixed(2)}
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {(result.residualStandardError * 100).toFixed(2)}%
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {result.observations}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500 mt-3">
+            * p &lt; 0.10 · ** p &lt; 0.05 · *** p &lt; 0.01
+          </p>
+        </div>
+
+        {/* Beta rolling */}
+        {chartData && (
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+            <h4 className="font-semibold text-blue-300 mb-4">
+              Beta rolling (finestra di {capm[0]?.rollingBeta.window} periodi)
+            </h4>
+            <div className="h-72">
+              <Line data={chartData} options={options} />
+            </div>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <TrendingUp size={24} />
+          CAPM
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+      {renderContent()}
+    </div>
+  );
+}
@@ -0,0 +1,507 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAnalysis } from '@/context/AnalysisContext';
+import { useToast } from '@/hooks/use-toast';
+import type { LinkageMethod } from '@/services/analysisAPI';
+import {
+  AlertCircle,
+  AlertTriangle,
+  Info,
+  Loader,
+  PieChart,
+} from 'lucide-react';
+import { useMemo, useState } from 'react';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+
+const LINKAGE_LABELS: Record<LinkageMethod, string> = {
+  single: 'Legame singolo',
+  complete: 'Legame completo',
+  average: 'Legame medio',
+  ward: 'Ward',
+};
+
+const CLUSTER_COLORS = [
+  '#36A2EB',
+  '#FF6384',
+  '#FFCE56',
+  '#4BC0C0',
+  '#9966FF',
+  '#FF9F40',
+  '#C9CBCF',
+];
+
+const NEUTRAL_COLOR = 'rgb(100, 116, 139)';
+
+// Dimensioni del dendrogramma (coordinate SVG)
+const WIDTH = 640;
+const HEIGHT = 280;
+const MARGIN = { top: 12, right: 12, bottom: 36, left: 44 };
+
+const selectTriggerClass =
+  'w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 text-sm';
+
+const clusterColor = (cluster: number) =>
+  CLUSTER_COLORS[(cluster - 1) % CLUSTER_COLORS.length] ?? NEUTRAL_COLOR;
+
+const getCorrelationColor = (value: number) => {
+  const absValue = Math.abs(value);
+  if (absValue >= 0.7) return 'bg-red-500';
+  if (absValue >= 0.5) return 'bg-orange-500';
+  if (absValue >= 0.3) return 'bg-yellow-500';
+  if (absValue >= 0.1) return 'bg-green-500';
+  return 'bg-blue-500';
+};
+
+export default function ClusterAnalysis() {
+  const { analysisState } = useAnalysis();
+  const { analysisResults, isLoading, error } = analysisState;
+  const { toast } = useToast();
+
+  const report = analysisResults?.clusterAnalysis ?? null;
+
+  const [linkage, setLinkage] = useState<LinkageMethod | null>(null);
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [hoveredNode, setHoveredNode] = useState<number | null>(null);
+
+  const result =
+    report?.results.find(
+      item => item.linkage === (linkage ?? report.linkage)
+    ) ?? report?.results[0];
+
+  // Coordinate di foglie e fusioni; ogni nodo conosce le foglie che contiene
+  const layout = useMemo(() => {
+    if (!report || !result) return null;
+
+    const n = report.symbols.length;
+    const clusterOf = new Map(
+      result.membership.map((item, i) => [i, item.cluster])
+    );
+    const maxHeight = Math.max(
+      ...result.merges.map(merge => merge.height),
+      1e-9
+    );
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const step = plotWidth / n;
+    const toY = (height: number) =>
+      MARGIN.top + plotHeight * (1 - height / (maxHeight * 1.05));
+
+    const nodes: { x: number; y: number; leaves: number[] }[] = [];
+    result.order.forEach((leaf, position) => {
+      nodes[leaf] = {
+        x: MARGIN.left + step * (position + 0.5),
+        y: toY(0),
+        leaves: [leaf],
+      };
+    });
+
+    const links = result.merges.map((merge, k) => {
+      const left = nodes[merge.left]!;
+      const right = nodes[merge.right]!;
+      const leaves = [...left.leaves, ...right.leaves];
+      const node = { x: (left.x + right.x) / 2, y: toY(merge.height), leaves };
+      nodes[n + k] = node;
+
+      // Fusione interna a un cluster: prende il suo colore
+      const clusters = new Set(leaves.map(leaf => clusterOf.get(leaf)));
+      const cluster =
+        clusters.size === 1 ? (clusterOf.get(leaves[0]!) ?? null) : null;
+
+      return {
+        id: n + k,
+        merge,
+        node,
+        path: `M${left.x},${left.y} V${node.y} H${right.x} V${right.y}`,
+        cluster,
+      };
+    });
+
+    return {
+      links,
+      nodes,
+      clusterOf,
+      cutY: toY(result.cutHeight),
+      toY,
+      maxHeight,
+    };
+  }, [report, result]);
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria del Clustering',
+      description:
+        "L'analisi dei cluster raggruppa i titoli per similarità di comportamento usando la distanza di correlazione √(½(1 − ρ)). Il dendrogramma mostra a quale distanza i gruppi si uniscono: il legame singolo usa la coppia più vicina, il completo la più lontana, il medio la media delle distanze, Ward minimizza la varianza interna. Il numero di cluster è quello con il silhouette medio più alto. Titoli nello stesso cluster con correlazione elevata sono ridondanti: aggiungono poca diversificazione.",
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">Raggruppando i titoli...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertCircle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
+          </div>
+        </div>
+      );
+    }
+
+    if (!report || !result || !layout) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <PieChart size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Cluster non Disponibili
+            </h4>
+            <p className="text-slate-400 max-w-sm">
+              Avvia un'analisi con almeno 3 ticker con date comuni sufficienti
+              per raggruppare i titoli.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const { symbols } = report;
+    const hoveredLeaves = new Set(
+      hoveredNode !== null ? (layout.nodes[hoveredNode]?.leaves ?? []) : []
+    );
+    const hoveredMerge =
+      hoveredNode !== null
+        ? layout.links.find(link => link.id === hoveredNode)
+        : undefined;
+    const isDimmed = (leaf: number) =>
+      (highlighted !== null && layout.clusterOf.get(leaf) !== highlighted) ||
+      (hoveredLeaves.size > 0 && !hoveredLeaves.has(leaf));
+    const redundantGroups = result.groups.filter(group => group.redundant);
+    const maxScore = Math.max(
+      ...result.silhouetteScores.map(item => item.score),
+      1e-9
+    );
+
+    return (
+      <>
+        {/* Legame e riepilogo */}
+        <div className="grid md:grid-cols-3 gap-4 mb-6">
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400">Legame</span>
+            <Select
+              value={result.linkage}
+              onValueChange={value => {
+                setLinkage(value as LinkageMethod);
+                setHighlighted(null);
+              }}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                {report.results.map(item => (
+                  <SelectItem key={item.linkage} value={item.linkage}>
+                    {LINKAGE_LABELS[item.linkage]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="bg-gradient-to-br from-blue-950/30 to-cyan-950/30 border border-blue-500/30 rounded-lg p-4">
+            <p className="text-xs text-blue-200 mb-1">Cluster individuati</p>
+            <p className="text-2xl font-bold text-blue-400">
+              {result.clusters}
+            </p>
+          </div>
+          <div className="bg-gradient-to-br from-green-950/30 to-emerald-950/30 border border-green-500/30 rounded-lg p-4">
+            <p className="text-xs text-green-200 mb-1">Silhouette medio</p>
+            <p className="text-2xl font-bold text-green-400">
+              {result.silhouette.toFixed(2)}
+            </p>
+          </div>
+        </div>
+
+        {/* Dendrogramma */}
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-semibold text-blue-300">Dendrogramma</h4>
+            <span className="text-xs text-slate-400">
+              {hoveredMerge
+                ? `Fusione a distanza ${hoveredMerge.merge.height.toFixed(3)}: ${hoveredMerge.node.leaves.map(leaf => symbols[leaf]).join(', ')}`
+                : 'Passa sopra una fusione per vederne i titoli'}
+            </span>
+          </div>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto"
+            role="img"
+            aria-label="Dendrogramma dei ticker"
+          >
+            {/* Asse delle distanze */}
+            {[0, 0.25, 0.5, 0.75, 1].map(fraction => {
+              const value = layout.maxHeight * fraction;
+              const y = layout.toY(value);
+              return (
+                <g key={fraction}>
+                  <line
+                    x1={MARGIN.left}
+                    x2={WIDTH - MARGIN.right}
+                    y1={y}
+                    y2={y}
+                    stroke="rgba(51, 65, 85, 0.4)"
+                  />
+                  <text
+                    x={MARGIN.left - 6}
+                    y={y + 4}
+                    textAnchor="end"
+                    fontSize={10}
+                    fill="rgb(148, 163, 184)"
+                  >
+                    {value.toFixed(2)}
+                  </text>
+                </g>
+              );
+            })}
+
+            {/* Taglio che separa i cluster */}
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={layout.cutY}
+              y2={layout.cutY}
+              stroke="rgb(244, 63, 94)"
+              strokeDasharray="6 4"
+            />
+
+            {layout.links.map(link => {
+              const active =
+                hoveredNode === link.id ||
+                (highlighted !== null && link.cluster === highlighted);
+              return (
+                <path
+                  key={link.id}
+                  d={link.path}
+                  fill="none"
+                  stroke={
+                    link.cluster !== null
+                      ? clusterColor(link.cluster)
+                      : NEUTRAL_COLOR
+                  }
+                  strokeWidth={active ? 3 : 1.5}
+                  onMouseEnter={() => setHoveredNode(link.id)}
+                  onMouseLeave={() => setHoveredNode(null)}
+                  className="cursor-pointer"
+                >
+                  <title>
+                    {`Distanza ${link.merge.height.toFixed(3)} · ${link.merge.size} titoli`}
+                  </title>
+                </path>
+              );
+            })}
+
+            {/* Etichette delle foglie: clic per evidenziare il cluster */}
+            {result.order.map(leaf => {
+              const node = layout.nodes[leaf]!;
+              const cluster = layout.clusterOf.get(leaf) ?? 1;
+              return (
+                <text
+                  key={leaf}
+                  x={node.x}
+                  y={HEIGHT - MARGIN.bottom + 16}
+                  textAnchor="middle"
+                  fontSize={11}
+                  fontWeight={600}
+                  fill={clusterColor(cluster)}
+                  opacity={isDimmed(leaf) ? 0.35 : 1}
+                  className="cursor-pointer"
+                  onClick={() =>
+                    setHighlighted(prev => (prev === cluster ? null : cluster))
+                  }
+                >
+                  {symbols[leaf]}
+                </text>
+              );
+            })}
+          </svg>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* Correlazioni riordinate per cluster */}
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+            <h4 className="font-semibold text-blue-300 mb-4">
+              Correlazioni ordinate per cluster
+            </h4>
+            <div className="overflow-x-auto">
+              <table>
+                <thead>
+                  <tr>
+                    <th className="p-1"></th>
+                    {result.order.map(j => (
+                      <th
+                        key={j}
+                        className="p-1 text-xs font-semibold"
+                        style={{
+                          color: clusterColor(layout.clusterOf.get(j) ?? 1),
+                        }}
+                      >
+                        {symbols[j]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.order.map(i => (
+                    <tr key={i}>
+                      <td
+                        className="p-1 text-xs font-semibold"
+                        style={{
+                          color: clusterColor(layout.clusterOf.get(i) ?? 1),
+                        }}
+                      >
+                        {symbols[i]}
+                      </td>
+                      {result.order.map(j => {
+                        const value = report.correlation[i]?.[j] ?? 0;
+                        const sameCluster =
+                          layout.clusterOf.get(i) === layout.clusterOf.get(j);
+                        return (
+                          <td key={j} className="p-0.5">
+                            <div
+                              className={`w-9 h-7 rounded flex items-center justify-center text-[10px] font-bold text-white ${getCorrelationColor(value)} ${sameCluster && i !== j ? 'ring-1 ring-white/60' : ''}`}
+                              style={{
+                                opacity:
+                                  isDimmed(i) || isDimmed(j)
+                                    ? 0.25
+                                    : Math.abs(value) * 0.7 + 0.3,
+                              }}
+                              title={`${symbols[i]} / ${symbols[j]}: ${value.toFixed(2)}`}
+                            >
+                              {value.toFixed(2)}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Gruppi e silhouette */}
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 space-y-4">
+            <h4 className="font-semibold text-blue-300">Composizione</h4>
+            <div className="space-y-2">
+              {result.groups.map(group => (
+                <button
+                  key={group.cluster}
+                  type="button"
+                  onClick={() =>
+                    setHighlighted(prev =>
+                      prev === group.cluster ? null : group.cluster
+                    )
+                  }
+                  className={`w-full flex items-center justify-between rounded-lg px-3 py-2 text-sm border transition-colors ${highlighted === group.cluster ? 'border-blue-400 bg-blue-500/10' : 'border-slate-700/50 hover:bg-slate-800/50'}`}
+                >
+                  <span className="flex items-center gap-2 text-slate-200">
+                    <span
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: clusterColor(group.cluster) }}
+                    />
+                    {group.symbols.join(', ')}
+                  </span>
+                  <span
+                    className={
+                      group.redundant ? 'text-red-400' : 'text-slate-400'
+                    }
+                  >
+                    {group.averageCorrelation !== null
+                      ? `ρ medio ${group.averageCorrelation.toFixed(2)}`
+                      : 'isolato'}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {redundantGroups.length > 0 && (
+              <div className="flex gap-2 rounded-lg border border-red-500/30 bg-red-950/30 p-3 text-xs text-red-200">
+                <AlertTriangle size={16} className="shrink-0 text-red-400" />
+                <span>
+                  Titoli ridondanti (correlazione media ≥{' '}
+                  {report.redundancyThreshold.toFixed(1)}):{' '}
+                  {redundantGroups
+                    .map(group => group.symbols.join(' / '))
+                    .join('; ')}
+                  . Detenerli insieme aggiunge poca diversificazione.
+                </span>
+              </div>
+            )}
+
+            <div>
+              <p className="text-xs text-slate-400 mb-2">
+                Silhouette medio per numero di cluster
+              </p>
+              <div className="space-y-1">
+                {result.silhouetteScores.map(item => (
+                  <div
+                    key={item.clusters}
+                    className="flex items-center gap-2 text-xs"
+                  >
+                    <span className="w-6 text-slate-400">{item.clusters}</span>
+                    <div className="flex-1 h-2 rounded bg-slate-800">
+                      <div
+                        className={`h-2 rounded ${item.clusters === result.clusters ? 'bg-green-400' : 'bg-slate-500'}`}
+                        style={{
+                          width: `${Math.max(0, (item.score / maxScore) * 100)}%`,
+                        }}
+                      />
+                    </div>
+                    <span className="w-10 text-right text-slate-300">
+                      {item.score.toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <PieChart size={24} />
+          Cluster Analysis
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+      {renderContent()}
+    </div>
+  );
+}
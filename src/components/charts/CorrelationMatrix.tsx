@@ -1,39 +1,101 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useAnalysis } from '@/context/AnalysisContext';
 import { useToast } from '@/hooks/use-toast';
-import { Activity, AlertCircle, GitBranch, Info, Loader } from 'lucide-react';
+import type {
+  CorrelationMatrixData,
+  CorrelationMethod,
+  PairCorrelation,
+} from '@/services/analysisAPI';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  ChartOptions,
+  Filler,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+} from 'chart.js';
+import {
+  Activity,
+  AlertCircle,
+  GitBranch,
+  Info,
+  Loader,
+  X,
+} from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Line, Scatter } from 'react-chartjs-2';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
 
-// Interfacce TypeScript per type safety
-interface CorrelationMatrix {
-  symbols: string[];
-  matrix: number[][];
-}
+// Registra i componenti necessari di Chart.js
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Title,
+  Tooltip,
+  Legend
+);
 
-interface CorrelationData {
-  correlationMatrix: CorrelationMatrix;
-  diversificationIndex?: number;
-  averageCorrelation?: number;
-}
+type MatrixView = 'full' | 'calm' | 'stressed';
 
-interface CorrelationResults {
-  correlation?: CorrelationData;
-}
+const METHOD_LABELS: Record<CorrelationMethod, string> = {
+  pearson: 'Pearson',
+  spearman: 'Spearman',
+  kendall: 'Kendall (tau-b)',
+};
+
+const VIEW_LABELS: Record<MatrixView, string> = {
+  full: 'Intero periodo',
+  calm: 'Mercato calmo',
+  stressed: 'Mercato stressato',
+};
+
+const selectTriggerClass =
+  'w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 text-sm';
+
+const axisColor = 'rgb(148, 163, 184)';
+
+const formatCorrelation = (value: number | null | undefined) =>
+  value === null || value === undefined ? 'n.d.' : value.toFixed(2);
 
 export default function CorrelationMatrix() {
   const { analysisState } = useAnalysis();
   const { analysisResults, isLoading, error } = analysisState;
   const { toast } = useToast();
 
+  const correlation = analysisResults?.correlation ?? null;
+  const pairs = useMemo(() => correlation?.pairs ?? [], [correlation]);
+  const regimes = correlation?.regimes ?? null;
+
+  const [view, setView] = useState<MatrixView>('full');
+  const [selectedPair, setSelectedPair] = useState<[string, string] | null>(
+    null
+  );
+
   // Funzione per gestire il click su "Teoria"
   const handleTheoryClick = () => {
     toast({
       title: 'Teoria della Correlazione e Diversificazione',
       description:
-        "La correlazione misura quanto due titoli si muovono insieme. Correlazioni basse (<0.3) indicano buona diversificazione. L'indice di diversificazione misura l'efficacia della diversificazione del portafoglio.",
+        "La correlazione misura quanto due titoli si muovono insieme. Correlazioni basse (<0.3) indicano buona diversificazione. Pearson misura la relazione lineare, Spearman e Kendall usano i ranghi e sono meno sensibili agli estremi. Nelle fasi di stress le correlazioni tendono a salire, riducendo la diversificazione proprio quando serve di più. L'indice di diversificazione misura l'efficacia della diversificazione del portafoglio.",
     });
   };
 
-  const getCorrelationColor = (value: number) => {
-    const absValue = Math.abs(value || 0);
+  const getCorrelationColor = (value: number | null) => {
+    if (value === null) return 'bg-slate-700';
+    const absValue = Math.abs(value);
     if (absValue >= 0.7) return 'bg-red-500';
     if (absValue >= 0.5) return 'bg-orange-500';
     if (absValue >= 0.3) return 'bg-yellow-500';
@@ -41,12 +103,169 @@ export default function CorrelationMatrix() {
     return 'bg-blue-500';
   };
 
-  const getCorrelationOpacity = (value: number) => {
-    const safeValue = value || 0;
-    if (safeValue === 1) return 1;
-    return Math.abs(safeValue) * 0.7 + 0.3;
+  const getCorrelationOpacity = (value: number | null) => {
+    if (value === null) return 0.6;
+    if (value === 1) return 1;
+    return Math.abs(value) * 0.7 + 0.3;
   };
 
+  const findPair = (a: string, b: string): PairCorrelation | undefined =>
+    pairs.find(
+      pair =>
+        (pair.symbols[0] === a && pair.symbols[1] === b) ||
+        (pair.symbols[0] === b && pair.symbols[1] === a)
+    );
+
+  const activePair = selectedPair
+    ? findPair(selectedPair[0], selectedPair[1])
+    : undefined;
+
+  // Correlazione mobile con le fasi di stress evidenziate
+  const rollingData = useMemo(() => {
+    if (!activePair) return null;
+
+    const constant = (value: number | null) =>
+      activePair.dates.map(() => value);
+
+    return {
+      labels: activePair.dates,
+      datasets: [
+        {
+          label: `Correlazione mobile (${correlation?.rollingWindowDays ?? ''} giorni)`,
+          data: activePair.rolling,
+          borderColor: '#38bdf8',
+          backgroundColor: '#38bdf8',
+          borderWidth: 1.5,
+          pointRadius: 0,
+          spanGaps: false,
+        },
+        {
+          label: 'Intero periodo',
+          data: constant(activePair.correlation),
+          borderColor: 'rgba(203, 213, 225, 0.6)',
+          borderDash: [6, 4],
+          borderWidth: 1,
+          pointRadius: 0,
+        },
+        {
+          label: 'Mercato stressato',
+          data: activePair.regimes.map(state =>
+            state === 'stressed' ? 1 : null
+          ),
+          borderColor: 'transparent',
+          backgroundColor: 'rgba(244, 63, 94, 0.15)',
+          pointRadius: 0,
+          fill: { value: -1 },
+          spanGaps: false,
+        },
+      ],
+    };
+  }, [activePair, correlation?.rollingWindowDays]);
+
+  const rollingOptions = useMemo<ChartOptions<'line'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: { mode: 'index', intersect: false },
+      plugins: {
+        legend: { labels: { color: 'rgb(203, 213, 225)', boxWidth: 12 } },
+        tooltip: {
+          filter: item => item.dataset.label !== 'Mercato stressato',
+          callbacks: {
+            label: item =>
+              `${item.dataset.label}: ${formatCorrelation(item.parsed.y)}`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          ticks: { color: axisColor, maxTicksLimit: 8 },
+          grid: { display: false },
+        },
+        y: {
+          min: -1,
+          max: 1,
+          ticks: { color: axisColor },
+          grid: { color: 'rgba(51, 65, 85, 0.4)' },
+        },
+      },
+    }),
+    []
+  );
+
+  // Rendimenti della coppia, colorati per regime di mercato
+  const scatterData = useMemo(() => {
+    if (!activePair) return null;
+
+    const [xReturns, yReturns] = activePair.returns;
+    const points = (regime: 'calm' | 'stressed' | null) =>
+      activePair.dates.flatMap((_, i) =>
+        activePair.regimes[i] === regime
+          ? [{ x: (xReturns[i] ?? 0) * 100, y: (yReturns[i] ?? 0) * 100 }]
+          : []
+      );
+
+    return {
+      datasets: [
+        {
+          label: 'Mercato calmo',
+          data: points('calm'),
+          backgroundColor: 'rgba(56, 189, 248, 0.5)',
+          pointRadius: 2,
+        },
+        {
+          label: 'Mercato stressato',
+          data: points('stressed'),
+          backgroundColor: 'rgba(244, 63, 94, 0.7)',
+          pointRadius: 2,
+        },
+        {
+          label: 'Regime non definito',
+          data: points(null),
+          backgroundColor: 'rgba(148, 163, 184, 0.4)',
+          pointRadius: 2,
+        },
+      ].filter(dataset => dataset.data.length > 0),
+    };
+  }, [activePair]);
+
+  const scatterOptions = useMemo<ChartOptions<'scatter'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { labels: { color: 'rgb(203, 213, 225)', boxWidth: 12 } },
+        tooltip: {
+          callbacks: {
+            label: item =>
+              `${item.parsed.x.toFixed(2)}% / ${item.parsed.y.toFixed(2)}%`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          title: {
+            display: true,
+            text: `Rendimento ${activePair?.symbols[0] ?? ''} (%)`,
+            color: axisColor,
+          },
+          ticks: { color: axisColor },
+          grid: { color: 'rgba(51, 65, 85, 0.4)' },
+        },
+        y: {
+          title: {
+            display: true,
+            text: `Rendimento ${activePair?.symbols[1] ?? ''} (%)`,
+            color: axisColor,
+          },
+          ticks: { color: axisColor },
+          grid: { color: 'rgba(51, 65, 85, 0.4)' },
+        },
+      },
+    }),
+    [activePair]
+  );
+
   const renderContent = () => {
     if (isLoading) {
       return (
@@ -66,12 +285,13 @@ export default function CorrelationMatrix() {
             <AlertCircle size={48} className="text-red-500 mx-auto" />
             <h4 className="text-xl font-bold text-red-300">Errore</h4>
             <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
           </div>
         </div>
       );
     }
 
-    if (!analysisResults || !analysisResults.correlation) {
+    if (!correlation) {
       return (
         <div className="w-full h-64 flex items-center justify-center">
           <div className="text-center space-y-4">
@@ -87,15 +307,14 @@ export default function CorrelationMatrix() {
       );
     }
 
-    const correlationData: CorrelationData = analysisResults.correlation;
-    const {
-      correlationMatrix,
-      diversificationIndex = 0,
-      averageCorrelation = 0,
-    } = correlationData;
+    const { diversificationIndex = 0, averageCorrelation = 0 } = correlation;
+    const shownMatrix: CorrelationMatrixData =
+      view !== 'full' && regimes
+        ? regimes[view]
+        : correlation.correlationMatrix;
 
     // Fallback robusti per array e oggetti
-    const { symbols = [], matrix = [] } = correlationMatrix || {};
+    const { symbols = [], matrix = [], observations } = shownMatrix || {};
 
     if (symbols.length === 0 || matrix.length === 0) {
       return (
@@ -113,6 +332,41 @@ export default function CorrelationMatrix() {
 
     return (
       <>
+        {/* Metodo e vista della matrice */}
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+          <p className="text-xs text-slate-400">
+            {[
+              // Metodo usato dal backend, scelto nei parametri dell'analisi
+              correlation.method &&
+                `Metodo ${METHOD_LABELS[correlation.method]}`,
+              correlation.minOverlap !== undefined &&
+                `almeno ${correlation.minOverlap} rendimenti comuni per coppia`,
+              pairs.length > 0 && 'clicca una cella per la correlazione mobile',
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+          {regimes && (
+            <div className="w-48">
+              <Select
+                value={view}
+                onValueChange={value => setView(value as MatrixView)}
+              >
+                <SelectTrigger className={selectTriggerClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                  {(Object.keys(VIEW_LABELS) as MatrixView[]).map(option => (
+                    <SelectItem key={option} value={option}>
+                      {VIEW_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
         {/* Correlation Matrix */}
         <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
           <div className="overflow-x-auto">
@@ -131,29 +385,84 @@ export default function CorrelationMatrix() {
                 </tr>
               </thead>
               <tbody>
-                {matrix.map((row: number[], i: number) => (
+                {matrix.map((row, i: number) => (
                   <tr key={symbols[i] || `row-${i}`}>
                     <td className="p-2 text-xs font-semibold text-blue-300">
                       {symbols[i] || 'N/A'}
                     </td>
-                    {row.map((value: number, j: number) => (
-                      <td key={j} className="p-1">
-                        <div
-                          className={`w-8 h-8 rounded-md flex items-center justify-center text-xs font-bold text-white ${getCorrelationColor(value)}`}
-                          style={{ opacity: getCorrelationOpacity(value) }}
-                          title={`${symbols[i] || 'N/A'} / ${symbols[j] || 'N/A'}: ${(value || 0).toFixed(2)}`}
-                        >
-                          {(value || 0).toFixed(2)}
-                        </div>
-                      </td>
-                    ))}
+                    {row.map((value, j: number) => {
+                      const rowSymbol = symbols[i] ?? '';
+                      const columnSymbol = symbols[j] ?? '';
+                      const pair =
+                        i !== j ? findPair(rowSymbol, columnSymbol) : undefined;
+                      const selected = !!activePair && pair === activePair;
+                      const count = observations?.[i]?.[j];
+
+                      return (
+                        <td key={j} className="p-1">
+                          <button
+                            type="button"
+                            disabled={!pair}
+                            onClick={() =>
+                              setSelectedPair([rowSymbol, columnSymbol])
+                            }
+                            className={`w-10 h-8 rounded-md flex items-center justify-center text-xs font-bold text-white ${getCorrelationColor(value)} ${pair ? 'cursor-pointer hover:ring-2 hover:ring-blue-300' : 'cursor-default'} ${selected ? 'ring-2 ring-white' : ''}`}
+                            style={{ opacity: getCorrelationOpacity(value) }}
+                            title={`${rowSymbol || 'N/A'} / ${columnSymbol || 'N/A'}: ${formatCorrelation(value)}${count !== undefined ? ` (${count} osservazioni)` : ''}`}
+                          >
+                            {formatCorrelation(value)}
+                          </button>
+                        </td>
+                      );
+                    })}
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
+          {regimes && (
+            <p className="text-xs text-slate-400 mt-4">
+              Mercato stressato quando la volatilità mobile di{' '}
+              {regimes.proxy === 'PORTAFOGLIO' ? 'portafoglio' : 'mercato'}{' '}
+              supera {(regimes.threshold * 100).toFixed(1)}% (
+              {regimes.stressedPeriods} periodi stressati, {regimes.calmPeriods}{' '}
+              calmi)
+            </p>
+          )}
         </div>
 
+        {/* Coppia selezionata: correlazione mobile e dispersione */}
+        {activePair && rollingData && scatterData && (
+          <div className="mt-6 bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="font-semibold text-blue-300">
+                {activePair.symbols[0]} / {activePair.symbols[1]}
+              </h4>
+              <div className="flex items-center gap-4 text-xs text-slate-400">
+                <span>Intero: {formatCorrelation(activePair.correlation)}</span>
+                <span>Calmo: {formatCorrelation(activePair.calm)}</span>
+                <span>Stressato: {formatCorrelation(activePair.stressed)}</span>
+                <button
+                  type="button"
+                  onClick={() => setSelectedPair(null)}
+                  className="text-slate-400 hover:text-slate-200"
+                  aria-label="Chiudi dettaglio coppia"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+            <div className="grid lg:grid-cols-2 gap-6">
+              <div className="h-72">
+                <Line data={rollingData as any} options={rollingOptions} />
+              </div>
+              <div className="h-72">
+                <Scatter data={scatterData} options={scatterOptions} />
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Diversification Metrics */}
         <div className="mt-6 grid md:grid-cols-2 gap-4">
           <div className="bg-gradient-to-br from-green-950/30 to-emerald-950/30 border border-green-500/30 rounded-lg p-4">
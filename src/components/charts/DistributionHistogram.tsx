@@ -0,0 +1,111 @@
+import {
+  BarController,
+  BarElement,
+  CategoryScale,
+  Chart as ChartJS,
+  ChartData,
+  ChartOptions,
+  Legend,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  Tooltip,
+} from 'chart.js';
+import { useMemo } from 'react';
+import { Chart } from 'react-chartjs-2';
+
+// Registra i componenti necessari di Chart.js (barre e linea sovrapposte)
+ChartJS.register(
+  BarController,
+  LineController,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend
+);
+
+const axisColor = 'rgb(148, 163, 184)';
+
+interface DistributionHistogramProps {
+  histogram: {
+    binEdges: number[];
+    counts: number[];
+    normalCounts: number[];
+  };
+}
+
+/**
+ * Istogramma dei rendimenti con le frequenze attese dalla normale adattata
+ * (stessa media e deviazione standard del campione)
+ */
+export default function DistributionHistogram({
+  histogram,
+}: DistributionHistogramProps) {
+  const data = useMemo<ChartData<'bar' | 'line'>>(() => {
+    const midpoints = histogram.counts.map(
+      (_, i) =>
+        ((histogram.binEdges[i] ?? 0) + (histogram.binEdges[i + 1] ?? 0)) / 2
+    );
+
+    return {
+      labels: midpoints.map(value => `${(value * 100).toFixed(2)}%`),
+      datasets: [
+        {
+          type: 'line' as const,
+          label: 'Normale adattata',
+          data: histogram.normalCounts,
+          borderColor: 'rgb(248, 113, 113)',
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0.4,
+        },
+        {
+          type: 'bar' as const,
+          label: 'Rendimenti osservati',
+          data: histogram.counts,
+          backgroundColor: 'rgba(59, 130, 246, 0.6)',
+          borderWidth: 0,
+        },
+      ],
+    };
+  }, [histogram]);
+
+  const options = useMemo<ChartOptions<'bar' | 'line'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { labels: { color: 'rgb(203, 213, 225)', boxWidth: 12 } },
+        tooltip: {
+          callbacks: {
+            title: items => `Rendimento ≈ ${items[0]?.label ?? ''}`,
+            label: item =>
+              `${item.dataset.label}: ${Number(item.raw).toFixed(1)}`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          ticks: { color: axisColor, maxTicksLimit: 10 },
+          grid: { display: false },
+        },
+        y: {
+          ticks: { color: axisColor },
+          grid: { color: 'rgba(51, 65, 85, 0.4)' },
+          title: {
+            display: true,
+            text: 'Osservazioni',
+            color: axisColor,
+          },
+        },
+      },
+    }),
+    []
+  );
+
+  return <Chart type="bar" data={data} options={options} />;
+}
@@ -0,0 +1,331 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAnalysis } from '@/context/AnalysisContext';
+import { usePortfolioOptimization } from '@/hooks/use-portfolio-optimization';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Chart as ChartJS,
+  ChartOptions,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+} from 'chart.js';
+import { AlertTriangle, Info, Loader, TrendingUp } from 'lucide-react';
+import { useMemo } from 'react';
+import { Scatter } from 'react-chartjs-2';
+
+// Registra i componenti necessari di Chart.js
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const MIN_WEIGHT_OPTIONS = [0, 0.05, 0.1];
+const MAX_WEIGHT_OPTIONS = [1, 0.5, 0.4, 0.3, 0.25, 0.2];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const selectTriggerClass =
+  'w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 text-sm';
+
+const toPoint = (item: { volatility: number; expectedReturn: number }) => ({
+  x: item.volatility * 100,
+  y: item.expectedReturn * 100,
+});
+
+const options: ChartOptions<'scatter'> = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: { color: 'rgb(203, 213, 225)' },
+    },
+    tooltip: {
+      callbacks: {
+        label: context => {
+          const point = context.raw as { x: number; y: number; label?: string };
+          const name = point.label ?? context.dataset.label ?? '';
+          return `${name}: rendimento ${point.y.toFixed(2)}%, volatilità ${point.x.toFixed(2)}%`;
+        },
+      },
+    },
+  },
+  scales: {
+    x: {
+      type: 'linear',
+      ticks: { color: 'rgb(148, 163, 184)', callback: value => `${value}%` },
+      grid: { color: 'rgba(51, 65, 85, 0.3)' },
+      title: {
+        display: true,
+        text: 'Volatilità annua',
+        color: 'rgb(148, 163, 184)',
+      },
+    },
+    y: {
+      ticks: { color: 'rgb(148, 163, 184)', callback: value => `${value}%` },
+      grid: { color: 'rgba(51, 65, 85, 0.3)' },
+      title: {
+        display: true,
+        text: 'Rendimento atteso annuo',
+        color: 'rgb(148, 163, 184)',
+      },
+    },
+  },
+};
+
+export default function EfficientFrontierChart() {
+  const { analysisState, setAnalysisState } = useAnalysis();
+  const { isLoading, error: analysisError, optimization } = analysisState;
+  const { result, error, isComputing, hasData } = usePortfolioOptimization();
+  const { toast } = useToast();
+
+  const updateConstraint = (key: 'minWeight' | 'maxWeight', value: number) => {
+    setAnalysisState(prev => ({
+      ...prev,
+      optimization: { ...prev.optimization, [key]: value },
+    }));
+  };
+
+  const chartData = useMemo(() => {
+    if (!result) return null;
+    const { frontier, current } = result;
+
+    return {
+      datasets: [
+        {
+          label: 'Frontiera efficiente',
+          data: frontier.points.map(toPoint),
+          borderColor: '#36A2EB',
+          backgroundColor: '#36A2EB',
+          showLine: true,
+          pointRadius: 2,
+          borderWidth: 2,
+        },
+        {
+          label: 'Titoli',
+          data: frontier.assets.map(asset => ({
+            ...toPoint(asset),
+            label: asset.symbol,
+          })),
+          backgroundColor: '#FFCE56',
+          pointRadius: 5,
+        },
+        {
+          label: 'Varianza minima',
+          data: [toPoint(frontier.minimumVariance)],
+          backgroundColor: '#4BC0C0',
+          pointStyle: 'rectRot' as const,
+          pointRadius: 8,
+        },
+        {
+          label: 'Sharpe massimo',
+          data: [toPoint(frontier.maximumSharpe)],
+          backgroundColor: '#FF6384',
+          pointStyle: 'star' as const,
+          borderColor: '#FF6384',
+          pointRadius: 10,
+        },
+        ...(current
+          ? [
+              {
+                label: 'Portafoglio attuale',
+                data: [toPoint(current)],
+                backgroundColor: '#00FF00',
+                pointStyle: 'triangle' as const,
+                pointRadius: 8,
+              },
+            ]
+          : []),
+      ],
+    };
+  }, [result]);
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria della Frontiera Efficiente',
+      description:
+        'La frontiera efficiente di Markowitz raccoglie i portafogli con la minima volatilità per ogni livello di rendimento atteso. Il portafoglio a varianza minima è il punto più a sinistra; quello a Sharpe massimo (tangente) offre il miglior rendimento in eccesso per unità di rischio rispetto al tasso risk-free. I vincoli sui pesi (long-only, minimo e massimo per titolo) restringono la frontiera.',
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading || (isComputing && !result)) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">
+              Calcolo della frontiera efficiente...
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    if (analysisError || error) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertTriangle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{analysisError ?? error}</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (!hasData || !result || !chartData) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <TrendingUp size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Frontiera non Disponibile
+            </h4>
+            <p className="text-slate-400">
+              Avvia un'analisi con almeno due titoli per costruire la frontiera
+              efficiente.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const { frontier } = result;
+
+    return (
+      <>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
+            <p className="text-xs text-slate-400">Varianza minima</p>
+            <p className="text-lg font-semibold text-teal-300">
+              {formatPercent(frontier.minimumVariance.expectedReturn)} ·{' '}
+              {formatPercent(frontier.minimumVariance.volatility)}
+            </p>
+            <p className="text-xs text-slate-500">rendimento · volatilità</p>
+          </div>
+          <div className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
+            <p className="text-xs text-slate-400">Sharpe massimo</p>
+            <p className="text-lg font-semibold text-pink-300">
+              {frontier.maximumSharpe.sharpeRatio.toFixed(2)}
+            </p>
+            <p className="text-xs text-slate-500">
+              {formatPercent(frontier.maximumSharpe.expectedReturn)} ·{' '}
+              {formatPercent(frontier.maximumSharpe.volatility)}
+            </p>
+          </div>
+          <div className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
+            <p className="text-xs text-slate-400">Portafoglio attuale</p>
+            <p className="text-lg font-semibold text-green-300">
+              {result.current ? result.current.sharpeRatio.toFixed(2) : '—'}
+            </p>
+            <p className="text-xs text-slate-500">
+              {result.current
+                ? `${formatPercent(result.current.expectedReturn)} · ${formatPercent(result.current.volatility)}`
+                : 'nessuna allocazione'}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+          <div className="h-96">
+            <Scatter data={chartData} options={options} />
+          </div>
+          <p className="text-xs text-slate-500 mt-3">
+            {frontier.points.length} portafogli campionati · risk-free{' '}
+            {formatPercent(frontier.riskFreeRate)} · stime annualizzate da
+            rendimenti storici
+          </p>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <TrendingUp size={24} />
+          Frontiera Efficiente
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+
+      {/* Vincoli sui pesi */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400">Peso minimo per titolo</span>
+          <Select
+            value={String(optimization.minWeight)}
+            onValueChange={value =>
+              updateConstraint('minWeight', Number(value))
+            }
+          >
+            <SelectTrigger className={selectTriggerClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+              {MIN_WEIGHT_OPTIONS.map(value => (
+                <SelectItem key={value} value={String(value)}>
+                  {value === 0
+                    ? '0% (long-only)'
+                    : `${(value * 100).toFixed(0)}%`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400">
+            Peso massimo per titolo
+          </span>
+          <Select
+            value={String(optimization.maxWeight)}
+            onValueChange={value =>
+              updateConstraint('maxWeight', Number(value))
+            }
+          >
+            <SelectTrigger className={selectTriggerClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+              {MAX_WEIGHT_OPTIONS.map(value => (
+                <SelectItem key={value} value={String(value)}>
+                  {(value * 100).toFixed(0)}%
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {isComputing && result && (
+          <div className="flex items-end pb-2 text-xs text-blue-300 gap-2">
+            <Loader size={14} className="animate-spin" />
+            Ricalcolo...
+          </div>
+        )}
+      </div>
+
+      {renderContent()}
+    </div>
+  );
+}
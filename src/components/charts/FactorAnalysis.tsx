@@ -0,0 +1,335 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAnalysis } from '@/context/AnalysisContext';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  FactorModel,
+  RegressionCoefficient,
+} from '@/services/analysisAPI';
+import {
+  AlertTriangle,
+  BarChart3,
+  Info,
+  Loader,
+  RefreshCw,
+  Upload,
+  X,
+} from 'lucide-react';
+import { useRef, useState, type ChangeEvent } from 'react';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+
+const MODEL_LABELS: Record<FactorModel, string> = {
+  ff3: 'Fama-French 3 fattori',
+  carhart: 'Carhart 4 fattori (FF3 + Momentum)',
+  ff5: 'Fama-French 5 fattori',
+  'ff5-mom': 'FF5 + Momentum',
+};
+
+const COEFFICIENT_LABELS: Record<RegressionCoefficient['name'], string> = {
+  ALPHA: 'Alpha',
+  MKT: 'Mercato',
+  MKT_RF: 'Mkt-RF',
+  SMB: 'SMB',
+  HML: 'HML',
+  RMW: 'RMW',
+  CMA: 'CMA',
+  MOM: 'MOM',
+};
+
+// Limite di dimensione del CSV dei fattori (i file giornalieri completi ~2 MB)
+const MAX_FACTOR_FILE_BYTES = 8 * 1024 * 1024;
+
+const significance = (pValue: number) =>
+  pValue < 0.01 ? '***' : pValue < 0.05 ? '**' : pValue < 0.1 ? '*' : '';
+
+export default function FactorAnalysis() {
+  const { analysisState, setAnalysisState, startAnalysis } = useAnalysis();
+  const { analysisResults, isLoading, error, factorFile } = analysisState;
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedModel, setSelectedModel] = useState<FactorModel | null>(null);
+
+  const regression = analysisResults?.regression ?? null;
+  const factorModels = regression?.factorModels ?? [];
+  const availableModels = [
+    ...new Set(factorModels.map(result => result.model)),
+  ].filter((model): model is FactorModel => model !== 'capm');
+  const activeModel =
+    selectedModel && availableModels.includes(selectedModel)
+      ? selectedModel
+      : availableModels[0];
+  const modelResults = factorModels.filter(
+    result => result.model === activeModel
+  );
+  const coefficientNames = modelResults[0]?.coefficients.map(c => c.name) ?? [];
+
+  // Il file resta nel contesto e viene inviato alla prossima analisi
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_FACTOR_FILE_BYTES) {
+      toast({
+        title: 'File troppo grande',
+        description: 'Il CSV dei fattori non può superare 8 MB.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const content = await file.text();
+    setAnalysisState(prev => ({
+      ...prev,
+      factorFile: { name: file.name, content },
+    }));
+    toast({
+      title: 'File dei fattori caricato',
+      description: `${file.name}: avvia di nuovo l'analisi per stimare i modelli.`,
+    });
+  };
+
+  const removeFactorFile = () => {
+    setAnalysisState(prev => ({ ...prev, factorFile: undefined }));
+  };
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria dei Modelli Multifattoriali',
+      description:
+        'I modelli di Fama-French spiegano i rendimenti in eccesso con più fattori: mercato (Mkt-RF), dimensione (SMB), valore (HML), redditività (RMW), investimenti (CMA) e momentum (MOM). I coefficienti indicano l’esposizione a ciascun fattore; un alpha significativo suggerisce un rendimento non spiegato dai fattori. Scarica i file dalla Kenneth French Data Library e caricali in formato CSV.',
+    });
+  };
+
+  const renderUpload = () => (
+    <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 mb-6">
+      <input
+        ref={fileInputRef}
+        id="factor-file-input"
+        name="factor-file"
+        type="file"
+        accept=".csv,.txt,text/csv"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h4 className="font-semibold text-blue-300">File dei fattori</h4>
+          <p className="text-xs text-slate-400 mt-1">
+            CSV Fama-French (3 o 5 fattori, momentum) giornaliero o mensile, con
+            colonne Mkt-RF, SMB, HML, RMW, CMA, Mom, RF
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {factorFile ? (
+            <span className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-xs border border-blue-500/30 bg-blue-500/5 text-blue-300">
+              {factorFile.name}
+              <button
+                onClick={removeFactorFile}
+                className="text-slate-400 hover:text-red-400"
+                aria-label="Rimuovi file dei fattori"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ) : null}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 text-sm px-3 py-1.5 border border-dashed border-slate-700/50 rounded-lg text-slate-400 hover:border-blue-500/50 hover:text-blue-400 transition-colors"
+          >
+            <Upload size={14} />
+            {factorFile ? 'Sostituisci' : 'Carica CSV'}
+          </button>
+          {factorFile && (
+            <button
+              onClick={startAnalysis}
+              disabled={isLoading}
+              className="flex items-center gap-2 text-sm px-3 py-1.5 bg-blue-600/80 hover:bg-blue-600 disabled:opacity-40 text-white rounded-lg transition-colors"
+            >
+              <RefreshCw size={14} />
+              Ricalcola
+            </button>
+          )}
+        </div>
+      </div>
+      {regression?.factorFile && (
+        <p className="text-xs text-slate-500 mt-3">
+          Analisi corrente: {regression.factorFile.rows} righe{' '}
+          {regression.factorFile.frequency === 'daily'
+            ? 'giornaliere'
+            : 'mensili'}{' '}
+          dal {regression.factorFile.firstDate} al{' '}
+          {regression.factorFile.lastDate} · fattori{' '}
+          {regression.factorFile.factors.join(', ')} · valori in{' '}
+          {regression.factorFile.unit === 'percent'
+            ? 'percentuale'
+            : 'decimali'}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">Stima dei modelli fattoriali...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertTriangle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
+          </div>
+        </div>
+      );
+    }
+
+    if (!activeModel || modelResults.length === 0) {
+      return (
+        <div className="w-full h-48 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <BarChart3 size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Modelli Fattoriali non Disponibili
+            </h4>
+            <p className="text-slate-400 max-w-md">
+              {regression?.factorFile
+                ? (regression.warnings[0] ??
+                  'Nessun modello stimabile con il file caricato.')
+                : 'Carica un file dei fattori e avvia l’analisi per stimare le esposizioni.'}
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h4 className="font-semibold text-blue-300">
+            Esposizioni ai fattori
+          </h4>
+          <div className="w-72">
+            <Select
+              value={activeModel}
+              onValueChange={value => setSelectedModel(value as FactorModel)}
+            >
+              <SelectTrigger className="w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg text-slate-200 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                {availableModels.map(model => (
+                  <SelectItem key={model} value={model}>
+                    {MODEL_LABELS[model]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-700/50">
+                <th className="text-left py-2 font-medium">Serie</th>
+                {coefficientNames.map(name => (
+                  <th key={name} className="text-right py-2 font-medium">
+                    {COEFFICIENT_LABELS[name]}
+                  </th>
+                ))}
+                <th className="text-right py-2 font-medium">R²</th>
+                <th className="text-right py-2 font-medium">R² adj.</th>
+                <th className="text-right py-2 font-medium">N</th>
+              </tr>
+            </thead>
+            <tbody>
+              {modelResults.map(result => (
+                <tr
+                  key={result.symbol}
+                  className="border-b border-slate-800/50 text-slate-200 align-top"
+                >
+                  <td className="py-2 font-medium">
+                    {result.symbol === 'PORTAFOGLIO'
+                      ? 'Portafoglio'
+                      : result.symbol}
+                  </td>
+                  {result.coefficients.map(coefficient => (
+                    <td key={coefficient.name} className="py-2 text-right">
+                      <div>
+                        {coefficient.name === 'ALPHA'
+                          ? `${(result.annualizedAlpha * 100).toFixed(2)}%`
+                          : coefficient.estimate.toFixed(2)}
+                        <span className="text-amber-400">
+                          {significance(coefficient.pValue)}
+                        </span>
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        t {coefficient.tStat.toFixed(2)}
+                      </div>
+                    </td>
+                  ))}
+                  <td className="py-2 text-right">
+                    {result.rSquared.toFixed(2)}
+                  </td>
+                  <td className="py-2 text-right">
+                    {result.adjustedRSquared.toFixed(2)}
+                  </td>
+                  <td className="py-2 text-right text-slate-400">
+                    {result.observations}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-slate-500 mt-3">
+          Alpha annualizzato · * p &lt; 0.10 · ** p &lt; 0.05 · *** p &lt; 0.01
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <BarChart3 size={24} />
+          Modelli Multifattoriali
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+      {renderUpload()}
+      {regression && regression.warnings.length > 0 && (
+        <div className="mb-6 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-200 text-sm space-y-1">
+          {regression.warnings.map(warning => (
+            <p key={warning}>{warning}</p>
+          ))}
+        </div>
+      )}
+      {renderContent()}
+    </div>
+  );
+}
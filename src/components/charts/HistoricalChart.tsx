@@ -20,6 +20,8 @@ import annotationPlugin from 'chartjs-plugin-annotation';
 import zoomPlugin from 'chartjs-plugin-zoom';
 import { useMemo, useState } from 'react';
 import { Line } from 'react-chartjs-2';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+import AnalysisProgressPanel from './AnalysisProgressPanel';
 
 // Registra i componenti necessari di Chart.js
 ChartJS.register(
@@ -276,6 +278,7 @@ const HistoricalChart = () => {
   const [showMACD, setShowMACD] = useState(false);
   const [rsiSmoothing, setRsiSmoothing] = useState(false);
   const [rsiSmoothingWindow, setRsiSmoothingWindow] = useState(5);
+  const [showRebalances, setShowRebalances] = useState(true);
 
   // Funzioni per gestire i click sui bottoni
   const handleRefreshClick = async () => {
@@ -285,7 +288,8 @@ const HistoricalChart = () => {
         description: 'Aggiornamento dei dati storici in corso...',
       });
 
-      await startAnalysis();
+      // L'errore dell'analisi viene già mostrato nel pannello
+      if (!(await startAnalysis())) return;
 
       toast({
         title: 'Aggiornamento completato',
@@ -425,10 +429,19 @@ const HistoricalChart = () => {
     rsiSmoothingWindow,
   ]);
 
-  // Calcola ticker con dati interrotti (es. ultimi punti null)
-  // FALLBACK: Se una serie ha null negli ultimi 5 punti, viene considerata incompleta
+  // Report di qualità dati calcolato dal backend (DataTransformer)
+  const dataQuality = analysisResults?.metadata?.dataQuality;
+
+  // Calcola ticker con dati interrotti (serie che termina prima della fine del periodo)
+  // Usa il flag del backend; in assenza del report ricade sull'euristica:
+  // se una serie ha null negli ultimi 5 punti viene considerata incompleta
   // EDGE CASE: Gestisce ticker che si fermano prima della fine del periodo (es. META al 2013)
   const incompleteSeries = useMemo(() => {
+    if (dataQuality) {
+      return dataQuality
+        .filter(quality => quality.incompleteSeries)
+        .map(quality => `${quality.symbol} (fino al ${quality.lastDate})`);
+    }
     if (!filteredDatasets || filteredDatasets.length === 0) return [];
     return filteredDatasets
       .filter(ds => {
@@ -438,12 +451,27 @@ const HistoricalChart = () => {
         return lastPoints.some(v => v === null);
       })
       .map(ds => ds.label || '');
-  }, [filteredDatasets]);
+  }, [dataQuality, filteredDatasets]);
 
-  // Calcola ticker richiesti ma non presenti nei risultati
-  // FALLBACK: Confronta ticker richiesti con quelli effettivamente disponibili
+  // Calcola ticker richiesti ma non presenti nei risultati, con il motivo
+  // Usa l'esito per ticker del backend; in assenza ricade sul confronto tra
+  // ticker richiesti e serie effettivamente disponibili (motivo sconosciuto)
   // EDGE CASE: Gestisce ticker non trovati, simboli errati, o periodi senza dati
-  const missingTickers = useMemo(() => {
+  const tickerStatus = analysisResults?.metadata?.tickerStatus;
+  const missingTickers = useMemo((): {
+    symbol: string;
+    reason?: string;
+  }[] => {
+    if (tickerStatus) {
+      return tickerStatus
+        .filter(status => status.status === 'failed')
+        .map(status => ({
+          symbol: status.symbol,
+          ...(status.error && {
+            reason: status.error.detail ?? status.error.message,
+          }),
+        }));
+    }
     if (
       !analysisResults?.metadata?.symbols ||
       !filteredDatasets ||
@@ -453,23 +481,98 @@ const HistoricalChart = () => {
     const availableTickers = filteredDatasets
       .filter(ds => ds.label?.includes(' - Prezzo'))
       .map(ds => ds.label?.split(' - ')[0] || '');
-    return analysisResults.metadata.symbols.filter(
-      ticker => !availableTickers.includes(ticker)
-    );
-  }, [analysisResults?.metadata?.symbols, filteredDatasets]);
+    return analysisResults.metadata.symbols
+      .filter(ticker => !availableTickers.includes(ticker))
+      .map(symbol => ({ symbol }));
+  }, [tickerStatus, analysisResults?.metadata?.symbols, filteredDatasets]);
 
-  // Calcola se ci sono buchi temporali significativi (IPO, merge, ecc.)
-  // FALLBACK: Se più del 20% dei punti sono null, considera buchi significativi
+  // Ticker con buchi temporali significativi (IPO, merge, ecc.)
+  // Usa i gap rilevati dal backend; in assenza del report ricade sull'euristica:
+  // se più del 20% dei punti sono null considera buchi significativi
   // EDGE CASE: Gestisce IPO recenti, merge aziendali, cambi di simbolo
-  const hasTemporalGaps = useMemo(() => {
-    if (!filteredDatasets || filteredDatasets.length === 0) return false;
-    return filteredDatasets.some(ds => {
-      if (!ds.data || ds.data.length === 0) return false;
-      // Se più del 20% dei punti sono null, consideriamo buchi significativi
-      const nullCount = ds.data.filter(v => v === null).length;
-      return nullCount > ds.data.length * 0.2;
-    });
-  }, [filteredDatasets]);
+  const temporalGapTickers = useMemo(() => {
+    if (dataQuality) {
+      return dataQuality
+        .filter(quality => quality.gaps.length > 0 || quality.lateStart)
+        .map(quality =>
+          quality.lateStart
+            ? `${quality.symbol} (dal ${quality.firstDate})`
+            : `${quality.symbol} (${quality.gaps.length} buchi)`
+        );
+    }
+    if (!filteredDatasets || filteredDatasets.length === 0) return [];
+    return filteredDatasets
+      .filter(ds => {
+        if (!ds.data || ds.data.length === 0) return false;
+        const nullCount = ds.data.filter(v => v === null).length;
+        return nullCount > ds.data.length * 0.2;
+      })
+      .map(ds => ds.label?.split(' - ')[0] || '');
+  }, [dataQuality, filteredDatasets]);
+  const hasTemporalGaps = temporalGapTickers.length > 0;
+
+  // Split rilevati e anomalie di volume/prezzo segnalati dal backend
+  const dataAnomalies = useMemo(
+    () =>
+      (dataQuality ?? [])
+        .filter(
+          quality =>
+            quality.detectedSplits.length > 0 ||
+            quality.volumeAnomalies.length > 0 ||
+            quality.priceAnomalies.length > 0
+        )
+        .map(quality => {
+          const details = [
+            quality.detectedSplits.length > 0 &&
+              `split ${quality.detectedSplits
+                .map(
+                  split =>
+                    `${split.splitTo}:${split.splitFrom} il ${split.date}`
+                )
+                .join(', ')}`,
+            quality.volumeAnomalies.length > 0 &&
+              `${quality.volumeAnomalies.length} anomalie di volume`,
+            quality.priceAnomalies.length > 0 &&
+              `${quality.priceAnomalies.length} variazioni di prezzo anomale`,
+          ].filter(Boolean);
+          return `${quality.symbol}: ${details.join(', ')}`;
+        }),
+    [dataQuality]
+  );
+
+  // Eventi di ribilanciamento del portafoglio (overlay verticale sul grafico)
+  const rebalancing = analysisResults?.portfolio?.rebalancing;
+  const rebalanceEvents = useMemo(
+    () => rebalancing?.rebalanceEvents ?? [],
+    [rebalancing]
+  );
+
+  const chartOptions = useMemo<ChartOptions<'line'>>(() => {
+    if (!showRebalances || rebalanceEvents.length === 0) return options;
+    const baseAnnotations = (options.plugins?.annotation as any)?.annotations;
+    const rebalanceAnnotations = Object.fromEntries(
+      rebalanceEvents.map((event, index) => [
+        `rebalance${index}`,
+        {
+          type: 'line',
+          xMin: event.date,
+          xMax: event.date,
+          borderColor: 'rgba(34,197,94,0.35)',
+          borderWidth: 1,
+          borderDash: [2, 3],
+        },
+      ])
+    );
+    return {
+      ...options,
+      plugins: {
+        ...options.plugins,
+        annotation: {
+          annotations: { ...baseAnnotations, ...rebalanceAnnotations },
+        } as any,
+      },
+    };
+  }, [showRebalances, rebalanceEvents]);
 
   const chartData = {
     labels: rawChartData.labels,
@@ -596,7 +699,8 @@ const HistoricalChart = () => {
       {/* SEZIONE 2: Messaggi e Warning Raggruppati */}
       {(incompleteSeries.length > 0 ||
         missingTickers.length > 0 ||
-        hasTemporalGaps) && (
+        hasTemporalGaps ||
+        dataAnomalies.length > 0) && (
         <div className="space-y-3">
           <h4 className="text-sm font-semibold text-slate-300 flex items-center gap-2">
             <svg
@@ -648,7 +752,7 @@ const HistoricalChart = () => {
 
           {/* Messaggio per ticker mancanti */}
           {missingTickers.length > 0 && (
-            <div className="p-3 bg-orange-900/60 text-orange-200 rounded-lg text-sm flex items-center gap-2">
+            <div className="p-3 bg-orange-900/60 text-orange-200 rounded-lg text-sm flex items-start gap-2">
               <svg
                 xmlns="http://www.w3.org/2000/svg"
                 width="18"
@@ -666,11 +770,21 @@ const HistoricalChart = () => {
                   d="M12 9v2m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
                 />
               </svg>
-              <span>
-                Ticker <strong>{missingTickers.join(', ')}</strong> non ha dati
-                disponibili per il periodo selezionato. Verifica il simbolo o
-                prova un periodo diverso.
-              </span>
+              <div>
+                <p>
+                  Esclusi dall'analisi: nessun dato disponibile per il periodo
+                  selezionato.
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {missingTickers.map(({ symbol, reason }) => (
+                    <li key={symbol}>
+                      <strong>{symbol}</strong>:{' '}
+                      {reason ??
+                        'verifica il simbolo o prova un periodo diverso.'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
             </div>
           )}
 
@@ -695,11 +809,49 @@ const HistoricalChart = () => {
                 />
               </svg>
               <span>
-                Rilevati buchi temporali significativi nei dati. Potrebbe essere
-                dovuto a IPO recente, merge aziendale o cambio di simbolo.
+                Rilevati buchi temporali significativi nei dati
+                {temporalGapTickers.some(Boolean) && (
+                  <>
+                    {' '}
+                    per <strong>{temporalGapTickers.join(', ')}</strong>
+                  </>
+                )}
+                . Potrebbe essere dovuto a IPO recente, merge aziendale o cambio
+                di simbolo.
               </span>
             </div>
           )}
+
+          {/* Split e anomalie rilevati dal controllo qualità dati */}
+          {dataAnomalies.length > 0 && (
+            <div className="p-3 bg-slate-800/60 text-slate-200 rounded-lg text-sm flex items-start gap-2">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="18"
+                height="18"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth="2"
+                className="text-slate-300 mt-0.5 shrink-0"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                />
+              </svg>
+              <div>
+                <span>Controllo qualità dati:</span>
+                <ul className="mt-1 list-disc list-inside text-slate-300">
+                  {dataAnomalies.map(anomaly => (
+                    <li key={anomaly}>{anomaly}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -747,6 +899,46 @@ const HistoricalChart = () => {
               <span className="font-medium text-slate-300">Punti Dati:</span>
               <div className="mt-1">{analysisResults.metadata.dataPoints}</div>
             </div>
+            {dataQuality && dataQuality.length > 0 && (
+              <div>
+                <span className="font-medium text-slate-300">
+                  Qualità Dati:
+                </span>
+                <div className="mt-1">
+                  {dataQuality
+                    .map(
+                      quality =>
+                        `${quality.symbol} ${quality.qualityScore.toFixed(0)}/100`
+                    )
+                    .join(', ')}
+                </div>
+              </div>
+            )}
+            {rebalancing && (
+              <>
+                <div>
+                  <span className="font-medium text-slate-300">
+                    Ribilanciamento:
+                  </span>
+                  <div className="mt-1">
+                    {rebalancing.policy.type === 'calendar'
+                      ? `Calendario (${rebalancing.policy.frequency})`
+                      : rebalancing.policy.type === 'threshold'
+                        ? `Soglia ±${(rebalancing.policy.threshold * 100).toFixed(1)}%`
+                        : 'Buy and hold'}
+                  </div>
+                </div>
+                <div>
+                  <span className="font-medium text-slate-300">
+                    Eventi / Turnover:
+                  </span>
+                  <div className="mt-1">
+                    {rebalancing.rebalanceDates.length} /{' '}
+                    {(rebalancing.totalTurnover * 100).toFixed(2)}%
+                  </div>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
@@ -962,6 +1154,19 @@ const HistoricalChart = () => {
               MACD
             </Label>
           </div>
+          {rebalanceEvents.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="rebalances"
+                checked={showRebalances}
+                onCheckedChange={setShowRebalances}
+                aria-label="Mostra/nascondi ribilanciamenti del portafoglio"
+              />
+              <Label htmlFor="rebalances" className="text-sm text-slate-300">
+                Ribilanciamenti
+              </Label>
+            </div>
+          )}
         </div>
       </div>
 
@@ -969,14 +1174,7 @@ const HistoricalChart = () => {
       <div className="w-full h-96 bg-slate-800/20 rounded-lg border border-slate-700/50 p-4">
         {isLoading ? (
           <div className="w-full h-full flex items-center justify-center">
-            <div className="text-center space-y-4">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
-              <p className="text-blue-300">Caricamento dati in corso...</p>
-              {/* FALLBACK: Messaggio aggiornato per riflettere la fonte dati attuale */}
-              <p className="text-sm text-slate-400">
-                Recupero dati storici da Yahoo Finance
-              </p>
-            </div>
+            <AnalysisProgressPanel />
           </div>
         ) : error ? (
           <div className="w-full h-full flex items-center justify-center">
@@ -1000,6 +1198,7 @@ const HistoricalChart = () => {
               </svg>
               {/* FALLBACK: Mostra errore specifico + azione di recovery */}
               <p className="text-red-300">{error}</p>
+              <AnalysisErrorDetails />
               <button
                 onClick={handleRefreshClick}
                 className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
@@ -1070,7 +1269,7 @@ const HistoricalChart = () => {
             </div>
           </div>
         ) : (
-          <Line data={chartData} options={options} />
+          <Line data={chartData} options={chartOptions} />
         )}
       </div>
     </div>
@@ -0,0 +1,630 @@
+import { useAnalysis } from '@/context/AnalysisContext';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  HistoricalDataRow,
+  HistoricalTableSeries,
+} from '@/services/analysisAPI';
+import { downloadFile, toXlsx } from '@/utils/tableExport';
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  Download,
+  Info,
+  Loader,
+  RefreshCw,
+  Table,
+} from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { CSVLink } from 'react-csv';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+
+type SortKey = keyof Omit<HistoricalRow, 'missing' | 'gapDays'>;
+
+interface HistoricalRow {
+  date: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  adjustedClose: number | null;
+  volume: number | null;
+  return: number | null;
+  missing: boolean; // almeno un prezzo mancante nella barra
+  gapDays: number | null; // giorni di calendario dalla barra precedente
+}
+
+// Prezzi in dollari come nelle fonti dati (Alpha Vantage, Yahoo Finance)
+const formatPrice = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatPercent = (value: number) =>
+  `${value >= 0 ? '+' : ''}${(value * 100).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}%`;
+
+const COLUMNS: {
+  key: SortKey;
+  label: string;
+  format: (value: number) => string;
+}[] = [
+  { key: 'open', label: 'Apertura', format: formatPrice },
+  { key: 'high', label: 'Massimo', format: formatPrice },
+  { key: 'low', label: 'Minimo', format: formatPrice },
+  { key: 'close', label: 'Chiusura', format: formatPrice },
+  { key: 'adjustedClose', label: 'Chiusura adj.', format: formatPrice },
+  {
+    key: 'volume',
+    label: 'Volume',
+    format: value => Math.round(value).toLocaleString('en-US'),
+  },
+  { key: 'return', label: 'Rendimento', format: formatPercent },
+];
+
+const PAGE_SIZES = [10, 50, 250, 1000];
+const CSV_FILE_NAME = 'dati-storici.csv';
+const XLSX_FILE_NAME = 'dati-storici.xlsx';
+
+// Virtualizzazione: solo le righe visibili (più un margine) sono nel DOM
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 8;
+
+// Righe piatte raggruppate per ticker, in ordine di data
+const groupBySymbol = (rows: HistoricalDataRow[]): HistoricalTableSeries[] => {
+  const bySymbol = new Map<string, HistoricalDataRow[]>();
+  rows.forEach(row => {
+    const items = bySymbol.get(row.symbol) ?? [];
+    items.push(row);
+    bySymbol.set(row.symbol, items);
+  });
+
+  return Array.from(bySymbol, ([symbol, items]) => {
+    const sorted = [...items].sort((a, b) => a.date.localeCompare(b.date));
+    const close = sorted.map(row => row.close);
+    return {
+      symbol,
+      dates: sorted.map(row => row.date),
+      open: sorted.map(row => row.open),
+      high: sorted.map(row => row.high),
+      low: sorted.map(row => row.low),
+      close,
+      adjustedClose: sorted.map(() => null),
+      volume: sorted.map(row => row.volume),
+      returns: close.map((value, i) => {
+        const previous = i > 0 ? close[i - 1] : null;
+        return value !== null && previous ? value / previous - 1 : null;
+      }),
+    };
+  });
+};
+
+const toRows = (
+  series: HistoricalTableSeries,
+  gaps: { to: string; calendarDays: number }[]
+): HistoricalRow[] => {
+  const gapByDate = new Map(gaps.map(gap => [gap.to, gap.calendarDays]));
+  return series.dates.map((date, i) => {
+    const row = {
+      date,
+      open: series.open[i] ?? null,
+      high: series.high[i] ?? null,
+      low: series.low[i] ?? null,
+      close: series.close[i] ?? null,
+      adjustedClose: series.adjustedClose[i] ?? null,
+      volume: series.volume[i] ?? null,
+      return: series.returns[i] ?? null,
+    };
+    return {
+      ...row,
+      missing: [row.open, row.high, row.low, row.close].some(
+        value => value === null || !Number.isFinite(value)
+      ),
+      gapDays: gapByDate.get(date) ?? null,
+    };
+  });
+};
+
+export default function HistoricalTable() {
+  const { analysisState, startAnalysis } = useAnalysis();
+  const { analysisResults, isLoading, error } = analysisState;
+  const { toast } = useToast();
+
+  const series = useMemo(
+    () =>
+      analysisResults?.historicalTable ??
+      groupBySymbol(analysisResults?.historicalData?.data ?? []),
+    [analysisResults]
+  );
+
+  const [symbol, setSymbol] = useState<string | null>(null);
+  const [symbolQuery, setSymbolQuery] = useState('');
+  const [dateQuery, setDateQuery] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({
+    key: 'date',
+    ascending: false,
+  });
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [onlyIssues, setOnlyIssues] = useState(false);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0] ?? 50);
+  const [page, setPage] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const visibleSeries = series.filter(item =>
+    item.symbol.toUpperCase().includes(symbolQuery.trim().toUpperCase())
+  );
+  const selected =
+    visibleSeries.find(item => item.symbol === symbol) ??
+    visibleSeries[0] ??
+    null;
+
+  const rows = useMemo(() => {
+    if (!selected) return [];
+    const gaps =
+      analysisResults?.metadata?.dataQuality?.find(
+        quality => quality.symbol === selected.symbol
+      )?.gaps ?? [];
+    return toRows(selected, gaps);
+  }, [selected, analysisResults]);
+
+  // Vista filtrata e ordinata: è anche il contenuto esportato
+  const view = useMemo(() => {
+    const filtered = rows.filter(
+      row =>
+        row.date.includes(dateQuery.trim()) &&
+        (!fromDate || row.date >= fromDate) &&
+        (!toDate || row.date <= toDate) &&
+        (!onlyIssues || row.missing || row.gapDays !== null)
+    );
+    const direction = sort.ascending ? 1 : -1;
+    return filtered.sort((a, b) => {
+      const x = a[sort.key];
+      const y = b[sort.key];
+      // I valori mancanti restano in fondo in entrambi gli ordinamenti
+      if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+      return (x < y ? -1 : x > y ? 1 : 0) * direction;
+    });
+  }, [rows, dateQuery, fromDate, toDate, onlyIssues, sort]);
+
+  // Ogni cambio di vista riparte dalla prima pagina
+  useEffect(() => {
+    setPage(0);
+    setScrollTop(0);
+  }, [view, pageSize]);
+
+  const pageCount = Math.max(1, Math.ceil(view.length / pageSize));
+  const pageRows = view.slice(page * pageSize, (page + 1) * pageSize);
+  const firstVisible = Math.max(
+    0,
+    Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN
+  );
+  const lastVisible = Math.min(
+    pageRows.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  const issueCount = rows.filter(
+    row => row.missing || row.gapDays !== null
+  ).length;
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev =>
+      prev.key === key
+        ? { key, ascending: !prev.ascending }
+        : { key, ascending: true }
+    );
+  };
+
+  const clearFilters = () => {
+    setSymbolQuery('');
+    setDateQuery('');
+    setFromDate('');
+    setToDate('');
+    setOnlyIssues(false);
+  };
+
+  const changePage = (next: number) => {
+    setPage(next);
+    setScrollTop(0);
+  };
+
+  const exportHeader = ['Data', ...COLUMNS.map(column => column.label)];
+  const exportCells = view.map(row => [
+    row.date,
+    ...COLUMNS.map(column => row[column.key] as number | null),
+  ]);
+
+  const notifyExport = () => {
+    toast({
+      title: 'Esportazione completata',
+      description: 'I dati storici sono stati esportati con successo',
+    });
+  };
+
+  const exportXlsx = () => {
+    if (!selected) return;
+    downloadFile(
+      toXlsx(exportHeader, exportCells, selected.symbol),
+      XLSX_FILE_NAME,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+    notifyExport();
+  };
+
+  const handleRefreshClick = async () => {
+    try {
+      toast({
+        title: 'Aggiornamento dati',
+        description: 'Aggiornamento dei dati storici in corso...',
+      });
+
+      // L'errore dell'analisi viene già mostrato nel pannello
+      if (!(await startAnalysis())) return;
+
+      toast({
+        title: 'Aggiornamento completato',
+        description: 'I dati storici sono stati aggiornati con successo.',
+      });
+    } catch (error) {
+      toast({
+        title: "Errore nell'aggiornamento",
+        description:
+          'Impossibile aggiornare i dati storici. Riprova più tardi.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleInfoClick = () => {
+    toast({
+      title: 'Informazioni sulla tabella',
+      description:
+        'Questa tabella mostra i dati storici OHLCV di ogni ticker. Ogni riga è una barra: apertura, massimo, minimo e chiusura del periodo, la chiusura rettificata per dividendi e split, il volume scambiato e il rendimento semplice rispetto alla barra precedente. Le righe evidenziate hanno prezzi mancanti (il titolo non quotava in quella data) o seguono un buco nella serie più lungo del normale.',
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="w-full h-96 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">Caricamento dati in corso...</p>
+            <p className="text-slate-400 text-sm">
+              Recupero dati storici da Alpha Vantage
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="w-full h-96 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertTriangle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
+            <button
+              onClick={() => void startAnalysis()}
+              className="px-4 py-2 bg-red-500/10 text-red-300 rounded-lg hover:bg-red-500/20 transition-colors"
+            >
+              Riprova
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!analysisResults) {
+      return (
+        <div className="w-full h-96 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Table size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Nessuna Analisi Eseguita
+            </h4>
+            <p className="text-slate-400">
+              Vai alla sezione 'Input & Validazione' per avviare una nuova
+              analisi.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    if (series.every(item => item.dates.length === 0)) {
+      return (
+        <div className="w-full h-96 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Table size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Nessun Dato Storico Disponibile
+            </h4>
+            <p className="text-slate-400">
+              Avvia un'analisi per visualizzare i dati storici in tabella.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {/* Ticker */}
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Ticker">
+          {visibleSeries.map(item => (
+            <button
+              key={item.symbol}
+              onClick={() => setSymbol(item.symbol)}
+              aria-pressed={item.symbol === selected?.symbol}
+              className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                item.symbol === selected?.symbol
+                  ? 'border-blue-400 bg-blue-500/20 text-blue-200'
+                  : 'border-slate-700/50 text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {item.symbol}
+            </button>
+          ))}
+        </div>
+
+        {/* Filtri ed esportazione */}
+        <div className="flex flex-wrap items-end gap-3 text-xs">
+          <input
+            type="text"
+            value={symbolQuery}
+            onChange={e => setSymbolQuery(e.target.value)}
+            placeholder="Filtra per simbolo..."
+            aria-label="Filtra per simbolo"
+            className="px-2 py-1 bg-transparent border border-slate-700/50 rounded text-slate-200"
+          />
+          <input
+            type="text"
+            value={dateQuery}
+            onChange={e => setDateQuery(e.target.value)}
+            placeholder="Filtra per data..."
+            aria-label="Filtra per data"
+            className="px-2 py-1 bg-transparent border border-slate-700/50 rounded text-slate-200"
+          />
+          <label className="flex flex-col gap-1 text-slate-400">
+            Da
+            <input
+              type="date"
+              value={fromDate}
+              onChange={e => setFromDate(e.target.value)}
+              className="px-2 py-1 bg-transparent border border-slate-700/50 rounded text-slate-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-slate-400">
+            A
+            <input
+              type="date"
+              value={toDate}
+              onChange={e => setToDate(e.target.value)}
+              className="px-2 py-1 bg-transparent border border-slate-700/50 rounded text-slate-200"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-slate-400 pb-1">
+            <input
+              type="checkbox"
+              checked={onlyIssues}
+              onChange={e => setOnlyIssues(e.target.checked)}
+            />
+            Solo dati mancanti/buchi ({issueCount})
+          </label>
+          <button
+            onClick={clearFilters}
+            className="px-3 py-1.5 text-slate-400 hover:text-slate-200 rounded-lg transition-colors"
+          >
+            Pulisci filtri
+          </button>
+          <div className="ml-auto flex gap-2">
+            <span onClick={notifyExport}>
+              <CSVLink
+                data={exportCells}
+                headers={exportHeader}
+                filename={CSV_FILE_NAME}
+                className="flex items-center gap-1 px-3 py-1.5 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+              >
+                <Download size={12} />
+                CSV
+              </CSVLink>
+            </span>
+            <button
+              onClick={exportXlsx}
+              disabled={view.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 disabled:opacity-40 transition-colors"
+            >
+              <Download size={12} />
+              XLSX
+            </button>
+          </div>
+        </div>
+
+        {/* Tabella virtualizzata */}
+        <div
+          className="overflow-auto rounded-xl border border-blue-500/20"
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+          onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+          data-testid="historical-table-viewport"
+        >
+          <table className="w-full text-sm tabular-nums">
+            <thead className="sticky top-0 bg-slate-900">
+              <tr className="text-slate-400 border-b border-slate-700/50">
+                {[{ key: 'date' as SortKey, label: 'Data' }, ...COLUMNS].map(
+                  column => (
+                    <th
+                      key={column.key}
+                      className={`py-2 px-3 font-medium ${
+                        column.key === 'date' ? 'text-left' : 'text-right'
+                      }`}
+                      aria-sort={
+                        sort.key === column.key
+                          ? sort.ascending
+                            ? 'ascending'
+                            : 'descending'
+                          : 'none'
+                      }
+                    >
+                      <button
+                        onClick={() => toggleSort(column.key)}
+                        className="inline-flex items-center gap-1 hover:text-slate-200"
+                      >
+                        {column.label}
+                        {sort.key === column.key &&
+                          (sort.ascending ? (
+                            <ArrowUp size={12} />
+                          ) : (
+                            <ArrowDown size={12} />
+                          ))}
+                      </button>
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {firstVisible > 0 && (
+                <tr style={{ height: firstVisible * ROW_HEIGHT }} />
+              )}
+              {pageRows.slice(firstVisible, lastVisible).map(row => (
+                <tr
+                  key={row.date}
+                  style={{ height: ROW_HEIGHT }}
+                  className={`border-b border-slate-800/50 ${
+                    row.missing
+                      ? 'bg-red-500/10 text-slate-400'
+                      : row.gapDays !== null
+                        ? 'bg-yellow-500/10 text-slate-200'
+                        : 'text-slate-200'
+                  }`}
+                  title={
+                    row.missing
+                      ? 'Prezzi mancanti per questa data'
+                      : row.gapDays !== null
+                        ? `Buco di ${row.gapDays} giorni dalla barra precedente`
+                        : undefined
+                  }
+                >
+                  <td className="px-3 text-left">
+                    {row.date}
+                    {row.gapDays !== null && (
+                      <AlertTriangle
+                        size={12}
+                        className="inline ml-1 text-yellow-400"
+                      />
+                    )}
+                  </td>
+                  {COLUMNS.map(column => {
+                    const value = row[column.key] as number | null;
+                    return (
+                      <td
+                        key={column.key}
+                        className={`px-3 text-right ${
+                          column.key === 'return' && value !== null
+                            ? value >= 0
+                              ? 'text-green-400'
+                              : 'text-red-400'
+                            : ''
+                        }`}
+                      >
+                        {value === null ? '—' : column.format(value)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              {lastVisible < pageRows.length && (
+                <tr
+                  style={{
+                    height: (pageRows.length - lastVisible) * ROW_HEIGHT,
+                  }}
+                />
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Paginazione */}
+        <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+          <span>
+            {view.length === 0
+              ? 'Nessuna riga nel periodo selezionato'
+              : `${page * pageSize + 1}-${page * pageSize + pageRows.length} di ${view.length.toLocaleString('en-US')}`}
+          </span>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1">
+              Righe per pagina
+              <select
+                value={pageSize}
+                onChange={e => setPageSize(Number(e.target.value))}
+                className="px-1 py-0.5 bg-slate-900 border border-slate-700/50 rounded text-slate-200"
+              >
+                {PAGE_SIZES.map(size => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => changePage(page - 1)}
+              disabled={page === 0}
+              className="px-2 py-1 rounded hover:text-slate-200 disabled:opacity-40"
+            >
+              Precedente
+            </button>
+            <span>
+              Pagina {page + 1} di {pageCount}
+            </span>
+            <button
+              onClick={() => changePage(page + 1)}
+              disabled={page >= pageCount - 1}
+              className="px-2 py-1 rounded hover:text-slate-200 disabled:opacity-40"
+            >
+              Successiva
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <Table size={24} />
+          Dati Storici
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={handleRefreshClick}
+            disabled={isLoading}
+            aria-label="Aggiorna dati storici"
+            className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw
+              size={14}
+              className={isLoading ? 'animate-spin' : ''}
+              aria-hidden="true"
+            />
+            Aggiorna
+          </button>
+          <button
+            onClick={handleInfoClick}
+            aria-label="Informazioni sulla tabella"
+            className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+          >
+            <Info size={14} aria-hidden="true" />
+            Info
+          </button>
+        </div>
+      </div>
+      {renderContent()}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAnalysis } from '@/context/AnalysisContext';
+import { usePortfolioOptimization } from '@/hooks/use-portfolio-optimization';
+import { useToast } from '@/hooks/use-toast';
+import type { OptimizationObjective } from '@/services/AlgorithmOptimizationEngine';
+import {
+  BarElement,
+  CategoryScale,
+  Chart as ChartJS,
+  ChartOptions,
+  Legend,
+  LinearScale,
+  Title,
+  Tooltip,
+} from 'chart.js';
+import { AlertTriangle, Info, Loader, PieChart } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Bar } from 'react-chartjs-2';
+
+// Registra i componenti necessari di Chart.js
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const OBJECTIVE_LABELS: Record<OptimizationObjective, string> = {
+  'min-variance': 'Varianza minima',
+  'max-sharpe': 'Sharpe massimo',
+  'target-return': 'Rendimento obiettivo',
+};
+
+const OBJECTIVES = Object.keys(OBJECTIVE_LABELS) as OptimizationObjective[];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const selectTriggerClass =
+  'w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 text-sm';
+
+const options: ChartOptions<'bar'> = {
+  indexAxis: 'y' as const,
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      position: 'top' as const,
+      labels: { color: 'rgb(203, 213, 225)' },
+    },
+    tooltip: {
+      callbacks: {
+        label: context =>
+          `${context.dataset.label}: ${Number(context.raw).toFixed(2)}%`,
+      },
+    },
+  },
+  scales: {
+    x: {
+      ticks: { color: 'rgb(148, 163, 184)', callback: value => `${value}%` },
+      grid: { color: 'rgba(51, 65, 85, 0.3)' },
+    },
+    y: {
+      ticks: { color: 'rgb(203, 213, 225)' },
+      grid: { display: false },
+    },
+  },
+};
+
+export default function OptimalWeights() {
+  const { analysisState, setAnalysisState } = useAnalysis();
+  const { isLoading, error: analysisError, optimization } = analysisState;
+  const { result, error, isComputing, hasData } = usePortfolioOptimization();
+  const { toast } = useToast();
+
+  // Bozza del rendimento obiettivo (in %), applicata su blur o Invio
+  const [targetDraft, setTargetDraft] = useState(
+    String(optimization.targetReturn * 100)
+  );
+  useEffect(() => {
+    setTargetDraft(String(optimization.targetReturn * 100));
+  }, [optimization.targetReturn]);
+
+  const setObjective = (objective: OptimizationObjective) => {
+    setAnalysisState(prev => ({
+      ...prev,
+      optimization: { ...prev.optimization, objective },
+    }));
+  };
+
+  const commitTarget = () => {
+    const value = Number(targetDraft.replace(',', '.'));
+    if (!Number.isFinite(value)) {
+      setTargetDraft(String(optimization.targetReturn * 100));
+      return;
+    }
+    setAnalysisState(prev => ({
+      ...prev,
+      optimization: { ...prev.optimization, targetReturn: value / 100 },
+    }));
+  };
+
+  const currentWeights = result?.current?.weights ?? null;
+
+  // Titoli ordinati per peso ottimale decrescente
+  const rows = useMemo(() => {
+    if (!result) return [];
+    return Object.entries(result.selected.weights)
+      .map(([symbol, weight]) => ({
+        symbol,
+        weight,
+        current: currentWeights?.[symbol] ?? null,
+      }))
+      .sort((a, b) => b.weight - a.weight);
+  }, [result, currentWeights]);
+
+  const chartData = useMemo(() => {
+    if (rows.length === 0) return null;
+    return {
+      labels: rows.map(row => row.symbol),
+      datasets: [
+        {
+          label: 'Peso ottimale',
+          data: rows.map(row => row.weight * 100),
+          backgroundColor: 'rgba(59, 130, 246, 0.7)',
+        },
+        ...(currentWeights
+          ? [
+              {
+                label: 'Peso attuale',
+                data: rows.map(row => (row.current ?? 0) * 100),
+                backgroundColor: 'rgba(34, 197, 94, 0.5)',
+              },
+            ]
+          : []),
+      ],
+    };
+  }, [rows, currentWeights]);
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria dei Pesi Ottimali',
+      description:
+        "L'ottimizzazione media-varianza sceglie i pesi che minimizzano la volatilità del portafoglio (varianza minima), massimizzano lo Sharpe ratio oppure raggiungono un rendimento obiettivo con il minimo rischio. Le stime di rendimenti attesi e covarianze sono storiche: piccoli cambiamenti nei dati possono spostare molto i pesi, per questo i vincoli di peso massimo aiutano a diversificare.",
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading || (isComputing && !result)) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">Ottimizzazione del portafoglio...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (analysisError || error) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertTriangle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{analysisError ?? error}</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (!hasData || !result || !chartData) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <PieChart size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Pesi Ottimali non Disponibili
+            </h4>
+            <p className="text-slate-400">
+              Avvia un'analisi con almeno due titoli per ottimizzare il
+              portafoglio.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const { selected } = result;
+
+    return (
+      <>
+        {result.targetClamped && (
+          <div className="mb-6 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-200 text-sm">
+            Rendimento obiettivo oltre il massimo raggiungibile con i vincoli:
+            mostrato il portafoglio a rendimento massimo (
+            {formatPercent(result.frontier.returnRange.max)}).
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
+            <p className="text-xs text-slate-400">Rendimento atteso</p>
+            <p className="text-lg font-semibold text-blue-300">
+              {formatPercent(selected.expectedReturn)}
+            </p>
+          </div>
+          <div className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
+            <p className="text-xs text-slate-400">Volatilità</p>
+            <p className="text-lg font-semibold text-blue-300">
+              {formatPercent(selected.volatility)}
+            </p>
+          </div>
+          <div className="p-4 rounded-lg bg-slate-800/50 border border-slate-700/50">
+            <p className="text-xs text-slate-400">Sharpe ratio</p>
+            <p className="text-lg font-semibold text-blue-300">
+              {selected.sharpeRatio.toFixed(2)}
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+            <div style={{ height: Math.max(200, rows.length * 48) }}>
+              <Bar data={chartData} options={options} />
+            </div>
+          </div>
+
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-slate-400 border-b border-slate-700/50">
+                  <th className="text-left py-2 font-medium">Titolo</th>
+                  <th className="text-right py-2 font-medium">Ottimale</th>
+                  <th className="text-right py-2 font-medium">Attuale</th>
+                  <th className="text-right py-2 font-medium">Differenza</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const difference =
+                    row.current === null ? null : row.weight - row.current;
+                  return (
+                    <tr
+                      key={row.symbol}
+                      className="border-b border-slate-800/50 text-slate-200"
+                    >
+                      <td className="py-2 font-medium">{row.symbol}</td>
+                      <td className="py-2 text-right">
+                        {formatPercent(row.weight)}
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {row.current === null
+                          ? '—'
+                          : formatPercent(row.current)}
+                      </td>
+                      <td
+                        className={`py-2 text-right ${
+                          difference === null
+                            ? 'text-slate-500'
+                            : difference >= 0
+                              ? 'text-green-400'
+                              : 'text-red-400'
+                        }`}
+                      >
+                        {difference === null
+                          ? '—'
+                          : `${difference >= 0 ? '+' : ''}${formatPercent(difference)}`}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <PieChart size={24} />
+          Pesi Ottimali
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+
+      {/* Obiettivo dell'ottimizzazione */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="space-y-1">
+          <span className="text-xs text-slate-400">Obiettivo</span>
+          <Select
+            value={optimization.objective}
+            onValueChange={value =>
+              setObjective(value as OptimizationObjective)
+            }
+          >
+            <SelectTrigger className={selectTriggerClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+              {OBJECTIVES.map(objective => (
+                <SelectItem key={objective} value={objective}>
+                  {OBJECTIVE_LABELS[objective]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {optimization.objective === 'target-return' && (
+          <div className="space-y-1">
+            <label
+              htmlFor="target-return-input"
+              className="text-xs text-slate-400"
+            >
+              Rendimento obiettivo annuo (%)
+            </label>
+            <input
+              id="target-return-input"
+              name="target-return"
+              type="number"
+              step="0.5"
+              value={targetDraft}
+              onChange={event => setTargetDraft(event.target.value)}
+              onBlur={commitTarget}
+              onKeyDown={event => {
+                if (event.key === 'Enter') commitTarget();
+              }}
+              className="w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 text-sm"
+            />
+          </div>
+        )}
+        <div className="flex items-end pb-2 text-xs text-slate-500">
+          Vincoli: {formatPercent(optimization.minWeight)} –{' '}
+          {formatPercent(optimization.maxWeight)} per titolo (tab Frontiera)
+        </div>
+        {isComputing && result && (
+          <div className="flex items-end pb-2 text-xs text-blue-300 gap-2">
+            <Loader size={14} className="animate-spin" />
+            Ricalcolo...
+          </div>
+        )}
+      </div>
+
+      {renderContent()}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import {
   Loader,
   Zap,
 } from 'lucide-react';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
 
 // Interfacce TypeScript per type safety
 interface PerformanceMetric {
@@ -15,15 +16,6 @@ interface PerformanceMetric {
   value: string;
 }
 
-interface PerformanceResults {
-  performanceMetrics?: PerformanceMetric[];
-  benchmarkComparison?: {
-    portfolio: number;
-    benchmark: number;
-    dates: string[];
-  };
-}
-
 export default function PerformanceMetrics() {
   const { analysisState } = useAnalysis();
   const { analysisResults, isLoading, error } = analysisState;
@@ -57,6 +49,7 @@ export default function PerformanceMetrics() {
             <AlertTriangle size={48} className="text-red-500 mx-auto" />
             <h4 className="text-xl font-bold text-red-300">Errore</h4>
             <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
           </div>
         </div>
       );
@@ -81,7 +74,14 @@ export default function PerformanceMetrics() {
     // Fallback robusto per array vuoto o undefined
     const metrics: PerformanceMetric[] =
       analysisResults.performanceMetrics || [];
-    const benchmarkData = analysisResults.benchmarkComparison;
+    // Confronto sintetico: portafoglio (o primo ticker) vs benchmark
+    const benchmarkReport = analysisResults.benchmark;
+    const benchmarkData =
+      benchmarkReport?.metrics.find(item => item.symbol === 'PORTAFOGLIO') ??
+      benchmarkReport?.metrics[0];
+    const returnComparison = analysisResults.returnComparison ?? [];
+    const formatPercent = (value: number) =>
+      `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
 
     const colors = [
       {
@@ -142,6 +142,58 @@ export default function PerformanceMetrics() {
           )}
         </div>
 
+        {/* Price Return vs Total Return */}
+        {returnComparison.length > 0 && (
+          <div className="bg-gradient-to-br from-slate-900/50 to-emerald-950/20 border border-emerald-500/20 rounded-xl p-6 mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="font-semibold text-emerald-300">
+                Rendimento di prezzo vs rendimento totale
+              </h4>
+              <span className="text-xs text-slate-400">
+                Analisi su base{' '}
+                {analysisResults.metadata?.returnType === 'price'
+                  ? 'solo prezzo'
+                  : 'total return'}
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 border-b border-slate-700/50">
+                    <th className="text-left py-2 font-medium">Ticker</th>
+                    <th className="text-right py-2 font-medium">Prezzo</th>
+                    <th className="text-right py-2 font-medium">Totale</th>
+                    <th className="text-right py-2 font-medium">Dividendi</th>
+                    <th className="text-right py-2 font-medium">N. stacchi</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {returnComparison.map(item => (
+                    <tr
+                      key={item.symbol}
+                      className="border-b border-slate-800/50 text-slate-200"
+                    >
+                      <td className="py-2 font-medium">{item.symbol}</td>
+                      <td className="py-2 text-right">
+                        {formatPercent(item.priceReturn)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatPercent(item.totalReturn)}
+                      </td>
+                      <td className="py-2 text-right text-emerald-300">
+                        {formatPercent(item.dividendContribution)}
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {item.dividendCount ?? '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Performance Comparison Chart */}
         <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
           <div className="flex items-center justify-between mb-4">
@@ -151,11 +203,17 @@ export default function PerformanceMetrics() {
             <div className="flex gap-3">
               <div className="flex items-center gap-2">
                 <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-                <span className="text-xs text-slate-400">Portafoglio</span>
+                <span className="text-xs text-slate-400">
+                  {benchmarkData && benchmarkData.symbol !== 'PORTAFOGLIO'
+                    ? benchmarkData.symbol
+                    : 'Portafoglio'}
+                </span>
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-3 h-3 bg-slate-500 rounded-full"></div>
-                <span className="text-xs text-slate-400">S&P 500</span>
+                <span className="text-xs text-slate-400">
+                  {benchmarkReport?.benchmark ?? 'Benchmark'}
+                </span>
               </div>
             </div>
           </div>
@@ -169,8 +227,13 @@ export default function PerformanceMetrics() {
                     Dati benchmark disponibili
                   </p>
                   <p className="text-slate-400">
-                    Portafoglio: {benchmarkData.portfolio?.toFixed(2) || '0'}% |
-                    Benchmark: {benchmarkData.benchmark?.toFixed(2) || '0'}%
+                    Rendimento: {formatPercent(benchmarkData.totalReturn)} |
+                    Benchmark:{' '}
+                    {formatPercent(benchmarkData.benchmarkTotalReturn)} | Beta:{' '}
+                    {benchmarkData.beta.toFixed(2)}
+                  </p>
+                  <p className="text-xs text-slate-500 mt-1">
+                    Dettagli nella scheda Confronto
                   </p>
                 </div>
               </div>
@@ -181,11 +244,10 @@ export default function PerformanceMetrics() {
                 <LineChart size={48} className="mx-auto text-blue-400" />
                 <div>
                   <p className="text-lg font-bold text-blue-300">
-                    Grafico in arrivo
+                    Benchmark non disponibile
                   </p>
                   <p className="text-slate-400">
-                    La visualizzazione della performance comparativa è in fase
-                    di sviluppo.
+                    Nessun dato del benchmark per il periodo analizzato.
                   </p>
                 </div>
               </div>
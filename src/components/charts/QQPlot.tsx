@@ -0,0 +1,98 @@
+import {
+  Chart as ChartJS,
+  ChartOptions,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+} from 'chart.js';
+import { useMemo } from 'react';
+import { Scatter } from 'react-chartjs-2';
+
+// Registra i componenti necessari di Chart.js
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+const axisColor = 'rgb(148, 163, 184)';
+
+interface QQPlotProps {
+  symbol: string;
+  points: { theoretical: number; sample: number }[];
+}
+
+/**
+ * Quantili dei rendimenti standardizzati contro quelli della normale: con
+ * una distribuzione normale i punti stanno sulla bisettrice
+ */
+export default function QQPlot({ symbol, points }: QQPlotProps) {
+  const data = useMemo(() => {
+    const values = points.flatMap(point => [point.theoretical, point.sample]);
+    const low = Math.floor(Math.min(...values, -3));
+    const high = Math.ceil(Math.max(...values, 3));
+
+    return {
+      datasets: [
+        {
+          label: symbol,
+          data: points.map(point => ({
+            x: point.theoretical,
+            y: point.sample,
+          })),
+          backgroundColor: 'rgba(59, 130, 246, 0.6)',
+          pointRadius: 2.5,
+        },
+        {
+          label: 'Normale',
+          data: [
+            { x: low, y: low },
+            { x: high, y: high },
+          ],
+          showLine: true,
+          borderColor: 'rgb(248, 113, 113)',
+          borderDash: [6, 4],
+          borderWidth: 2,
+          pointRadius: 0,
+        },
+      ],
+    };
+  }, [points, symbol]);
+
+  const options = useMemo<ChartOptions<'scatter'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { labels: { color: 'rgb(203, 213, 225)', boxWidth: 12 } },
+        tooltip: {
+          callbacks: {
+            label: item =>
+              `Teorico ${item.parsed.x.toFixed(2)}σ / osservato ${item.parsed.y.toFixed(2)}σ`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          title: {
+            display: true,
+            text: 'Quantili della normale standard',
+            color: axisColor,
+          },
+          ticks: { color: axisColor },
+          grid: { color: 'rgba(51, 65, 85, 0.4)' },
+        },
+        y: {
+          title: {
+            display: true,
+            text: 'Rendimenti standardizzati',
+            color: axisColor,
+          },
+          ticks: { color: axisColor },
+          grid: { color: 'rgba(51, 65, 85, 0.4)' },
+        },
+      },
+    }),
+    []
+  );
+
+  return <Scatter data={data} options={options} />;
+}
@@ -0,0 +1,329 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAnalysis } from '@/context/AnalysisContext';
+import { useToast } from '@/hooks/use-toast';
+import type { NormalityTest, SeriesDistribution } from '@/services/analysisAPI';
+import { AlertCircle, Info, Loader, Sigma } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+import DistributionHistogram from './DistributionHistogram';
+import QQPlot from './QQPlot';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const formatPValue = (value: number) =>
+  value < 0.001 ? '< 0.001' : value.toFixed(3);
+
+const selectTriggerClass =
+  'w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 text-sm';
+
+const seriesLabel = (symbol: string) =>
+  symbol === 'PORTAFOGLIO' ? 'Portafoglio' : symbol;
+
+function NormalityRow({
+  name,
+  test,
+}: {
+  name: string;
+  test: NormalityTest | null;
+}) {
+  if (!test) {
+    return (
+      <tr className="border-t border-slate-700/50">
+        <td className="py-2 text-slate-300">{name}</td>
+        <td className="py-2 text-right text-slate-500" colSpan={3}>
+          n.d. (oltre 5000 osservazioni)
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <tr className="border-t border-slate-700/50">
+      <td className="py-2 text-slate-300">{name}</td>
+      <td className="py-2 text-right font-mono text-slate-200">
+        {test.statistic.toFixed(3)}
+      </td>
+      <td className="py-2 text-right font-mono text-slate-200">
+        {formatPValue(test.pValue)}
+      </td>
+      <td
+        className={`py-2 text-right ${test.rejectNormality ? 'text-red-300' : 'text-green-300'}`}
+      >
+        {test.rejectNormality ? 'Normalità rifiutata' : 'Compatibile'}
+      </td>
+    </tr>
+  );
+}
+
+export default function ReturnDistribution() {
+  const { analysisState } = useAnalysis();
+  const { analysisResults, isLoading, error } = analysisState;
+  const { toast } = useToast();
+
+  const report = analysisResults?.distribution ?? null;
+
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
+
+  // Il portafoglio (se presente) precede i singoli ticker
+  const series = useMemo<SeriesDistribution[]>(
+    () =>
+      report
+        ? [...(report.portfolio ? [report.portfolio] : []), ...report.tickers]
+        : [],
+    [report]
+  );
+
+  const activeSeries =
+    series.find(item => item.symbol === selectedSymbol) ?? series[0];
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria della Distribuzione dei Rendimenti',
+      description:
+        'Molti modelli assumono rendimenti normali, ma i rendimenti reali hanno spesso asimmetria negativa e code spesse (curtosi in eccesso positiva): gli eventi oltre 2σ o 3σ sono più frequenti di quanto la normale preveda. Jarque-Bera misura lo scostamento di asimmetria e curtosi dalla normale, Shapiro-Wilk confronta i quantili ordinati con quelli attesi. Nel grafico Q-Q i punti lontani dalla bisettrice agli estremi indicano code spesse.',
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">Analizzando la distribuzione...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertCircle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
+          </div>
+        </div>
+      );
+    }
+
+    if (!report || !activeSeries) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Sigma size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Distribuzione non Disponibile
+            </h4>
+            <p className="text-slate-400 max-w-sm">
+              Avvia un'analisi con almeno 20 rendimenti per ticker per studiarne
+              la distribuzione.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const summary = [
+      { label: 'Media', value: formatPercent(activeSeries.mean) },
+      { label: 'Mediana', value: formatPercent(activeSeries.median) },
+      {
+        label: 'Deviazione standard',
+        value: formatPercent(activeSeries.standardDeviation),
+      },
+      { label: 'Asimmetria', value: activeSeries.skewness.toFixed(3) },
+      {
+        label: 'Curtosi in eccesso',
+        value: activeSeries.excessKurtosis.toFixed(3),
+      },
+      {
+        label: 'Scarto interquartile',
+        value: formatPercent(activeSeries.interquartileRange),
+      },
+      {
+        label: 'Coefficiente di variazione',
+        value:
+          activeSeries.coefficientOfVariation !== null
+            ? activeSeries.coefficientOfVariation.toFixed(2)
+            : 'n.d.',
+      },
+      { label: 'Osservazioni', value: String(activeSeries.observations) },
+    ];
+
+    return (
+      <>
+        {/* Serie e statistiche descrittive */}
+        <div className="mb-6 md:w-64">
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400">Serie</span>
+            <Select
+              value={activeSeries.symbol}
+              onValueChange={setSelectedSymbol}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                {series.map(item => (
+                  <SelectItem key={item.symbol} value={item.symbol}>
+                    {seriesLabel(item.symbol)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          {summary.map(item => (
+            <div
+              key={item.label}
+              className="bg-gradient-to-br from-blue-950/30 to-cyan-950/30 border border-blue-500/30 rounded-lg p-4"
+            >
+              <p className="text-xs text-blue-200 mb-1">{item.label}</p>
+              <p className="text-xl font-bold text-blue-400">{item.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Istogramma e grafico Q-Q */}
+        <div className="grid lg:grid-cols-2 gap-6 mb-6">
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+            <h4 className="font-semibold text-blue-300 mb-4">
+              Istogramma e normale adattata
+            </h4>
+            <div className="h-72">
+              <DistributionHistogram histogram={activeSeries.histogram} />
+            </div>
+          </div>
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+            <h4 className="font-semibold text-blue-300 mb-4">Grafico Q-Q</h4>
+            <div className="h-72">
+              <QQPlot
+                symbol={seriesLabel(activeSeries.symbol)}
+                points={activeSeries.qqPlot}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* Test di normalità e code */}
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 space-y-4">
+            <h4 className="font-semibold text-blue-300">
+              Test di normalità (α = {(report.significance * 100).toFixed(0)}%)
+            </h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-400">
+                  <th className="py-1 text-left font-normal">Test</th>
+                  <th className="py-1 text-right font-normal">Statistica</th>
+                  <th className="py-1 text-right font-normal">p-value</th>
+                  <th className="py-1 text-right font-normal">Esito</th>
+                </tr>
+              </thead>
+              <tbody>
+                <NormalityRow
+                  name="Jarque-Bera"
+                  test={activeSeries.jarqueBera}
+                />
+                <NormalityRow
+                  name="Shapiro-Wilk"
+                  test={activeSeries.shapiroWilk}
+                />
+              </tbody>
+            </table>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-400">
+                  <th className="py-1 text-left font-normal">Coda</th>
+                  <th className="py-1 text-right font-normal">Sotto / sopra</th>
+                  <th className="py-1 text-right font-normal">Osservata</th>
+                  <th className="py-1 text-right font-normal">Normale</th>
+                  <th className="py-1 text-right font-normal">Rapporto</th>
+                </tr>
+              </thead>
+              <tbody>
+                {activeSeries.tails.map(tail => (
+                  <tr
+                    key={tail.sigmas}
+                    className="border-t border-slate-700/50 text-slate-200"
+                  >
+                    <td className="py-2 text-slate-300">±{tail.sigmas}σ</td>
+                    <td className="py-2 text-right font-mono">
+                      {tail.below} / {tail.above}
+                    </td>
+                    <td className="py-2 text-right font-mono">
+                      {formatPercent(tail.frequency)}
+                    </td>
+                    <td className="py-2 text-right font-mono">
+                      {formatPercent(tail.normalFrequency)}
+                    </td>
+                    <td
+                      className={`py-2 text-right font-mono ${tail.ratio > 1.5 ? 'text-red-300' : ''}`}
+                    >
+                      {tail.ratio.toFixed(2)}×
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Percentili */}
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+            <h4 className="font-semibold text-blue-300 mb-4">Percentili</h4>
+            <table className="w-full text-sm">
+              <tbody>
+                {activeSeries.percentiles.map(item => (
+                  <tr
+                    key={item.level}
+                    className="border-t border-slate-700/50 first:border-t-0"
+                  >
+                    <td className="py-1.5 text-slate-400">
+                      {(item.level * 100).toFixed(0)}° percentile
+                    </td>
+                    <td
+                      className={`py-1.5 text-right font-mono ${item.value < 0 ? 'text-red-300' : 'text-green-300'}`}
+                    >
+                      {formatPercent(item.value)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <Sigma size={24} />
+          Distribuzione dei Rendimenti
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+      {renderContent()}
+    </div>
+  );
+}
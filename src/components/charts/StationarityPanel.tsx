@@ -0,0 +1,419 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAnalysis } from '@/context/AnalysisContext';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  SeriesStationarity,
+  StationarityTransformation,
+  StationarityVerdict,
+  TickerStationarity,
+  UnitRootTest,
+} from '@/services/analysisAPI';
+import { Activity, AlertCircle, ArrowRight, Info, Loader } from 'lucide-react';
+import { useState } from 'react';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+
+const TRANSFORMATION_LABELS: Record<StationarityTransformation, string> = {
+  level: 'Livello dei prezzi',
+  log: 'Logaritmo dei prezzi',
+  difference: 'Differenza prima',
+  'log-difference': 'Differenza prima del logaritmo',
+  'second-difference': 'Differenza seconda',
+};
+
+const VERDICT_STYLES: Record<
+  StationarityVerdict,
+  { label: string; className: string }
+> = {
+  stationary: {
+    label: 'Stazionaria',
+    className: 'bg-green-500/15 text-green-300 border-green-500/40',
+  },
+  'non-stationary': {
+    label: 'Non stazionaria',
+    className: 'bg-red-500/15 text-red-300 border-red-500/40',
+  },
+  inconclusive: {
+    label: 'Inconcludente',
+    className: 'bg-yellow-500/15 text-yellow-300 border-yellow-500/40',
+  },
+};
+
+const selectTriggerClass =
+  'w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 text-sm';
+
+const formatPercent = (value: number) =>
+  `${(value * 100).toLocaleString('it-IT', { maximumFractionDigits: 1 })}%`;
+
+const formatPValue = (test: UnitRootTest) => {
+  const prefix =
+    test.pValueBound === 'lower'
+      ? '> '
+      : test.pValueBound === 'upper'
+        ? '< '
+        : '';
+  return `${prefix}${test.pValue.toFixed(3)}`;
+};
+
+// Spiegazione dell'esito combinato ADF + KPSS
+const explainVerdict = (series: SeriesStationarity, significance: number) => {
+  const level = formatPercent(significance);
+  const adf = series.adf.rejectNull
+    ? `l'ADF rifiuta la radice unitaria al ${level}`
+    : `l'ADF non rifiuta la radice unitaria al ${level}`;
+  const kpss = series.kpss.rejectNull
+    ? 'il KPSS rifiuta la stazionarietà'
+    : 'il KPSS non rifiuta la stazionarietà';
+
+  switch (series.verdict) {
+    case 'stationary':
+      return `${adf} e ${kpss}: i due test concordano sulla stazionarietà, media e varianza non dipendono dal tempo.`;
+    case 'non-stationary':
+      return `${adf} e ${kpss}: i due test concordano su una radice unitaria, la serie va trasformata prima di stimare modelli.`;
+    default:
+      return `${adf} e ${kpss}: i test sono in conflitto (serie vicina alla radice unitaria, cambi di regime o campione breve). Conviene trattare la serie con cautela.`;
+  }
+};
+
+function VerdictBadge({ verdict }: { verdict: StationarityVerdict }) {
+  const style = VERDICT_STYLES[verdict];
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full border text-xs font-semibold ${style.className}`}
+    >
+      {style.label}
+    </span>
+  );
+}
+
+function TestTable({
+  title,
+  hypothesis,
+  test,
+}: {
+  title: string;
+  hypothesis: string;
+  test: UnitRootTest;
+}) {
+  return (
+    <div className="rounded-lg border border-slate-700/50 p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h5 className="font-semibold text-slate-200">{title}</h5>
+        <span
+          className={`text-xs ${test.rejectNull ? 'text-orange-300' : 'text-slate-400'}`}
+        >
+          {test.rejectNull ? 'H0 rifiutata' : 'H0 non rifiutata'}
+        </span>
+      </div>
+      <p className="text-xs text-slate-400">{hypothesis}</p>
+      <table className="w-full text-sm">
+        <tbody className="text-slate-300">
+          <tr>
+            <td className="py-1 text-slate-400">Statistica</td>
+            <td className="py-1 text-right font-mono">
+              {test.statistic.toFixed(3)}
+            </td>
+          </tr>
+          <tr>
+            <td className="py-1 text-slate-400">p-value</td>
+            <td className="py-1 text-right font-mono">{formatPValue(test)}</td>
+          </tr>
+          {test.criticalValues.map(item => (
+            <tr key={item.level}>
+              <td className="py-1 text-slate-400">
+                Valore critico {formatPercent(item.level)}
+              </td>
+              <td className="py-1 text-right font-mono">
+                {item.value.toFixed(3)}
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td className="py-1 text-slate-400">Ritardi</td>
+            <td className="py-1 text-right font-mono">
+              {test.lags}
+              {test.maxLag !== undefined && ` (max ${test.maxLag}, AIC)`}
+            </td>
+          </tr>
+          <tr>
+            <td className="py-1 text-slate-400">Osservazioni</td>
+            <td className="py-1 text-right font-mono">{test.observations}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function SeriesDetails({
+  series,
+  significance,
+}: {
+  series: SeriesStationarity;
+  significance: number;
+}) {
+  const { validation } = series;
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-300">
+        {explainVerdict(series, significance)}
+      </p>
+      <div className="grid md:grid-cols-2 gap-4">
+        <TestTable
+          title="ADF (Augmented Dickey-Fuller)"
+          hypothesis="H0: radice unitaria (non stazionaria). Statistica sotto il valore critico → rifiuto."
+          test={series.adf}
+        />
+        <TestTable
+          title="KPSS"
+          hypothesis="H0: stazionaria in livello. Statistica sopra il valore critico → rifiuto."
+          test={series.kpss}
+        />
+      </div>
+      <div className="rounded-lg border border-slate-700/50 p-4 text-sm">
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="font-semibold text-slate-200">
+            Validazione su due metà del campione
+          </h5>
+          <span
+            className={
+              validation.stable
+                ? 'text-green-300 text-xs'
+                : 'text-red-300 text-xs'
+            }
+          >
+            {validation.stable ? 'Media e varianza stabili' : 'Instabile'}
+          </span>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-slate-300">
+          <div>
+            <p className="text-xs text-slate-400">Media (1ª / 2ª metà)</p>
+            <p className="font-mono">
+              {validation.firstMean.toPrecision(3)} /{' '}
+              {validation.secondMean.toPrecision(3)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">t differenza medie</p>
+            <p className="font-mono">{validation.meanTStat.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Varianza (1ª / 2ª metà)</p>
+            <p className="font-mono">
+              {validation.firstVariance.toPrecision(3)} /{' '}
+              {validation.secondVariance.toPrecision(3)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Rapporto varianze</p>
+            <p className="font-mono">{validation.varianceRatio.toFixed(2)}</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function StationarityPanel() {
+  const { analysisState } = useAnalysis();
+  const { analysisResults, isLoading, error } = analysisState;
+  const { toast } = useToast();
+
+  const report = analysisResults?.stationarity ?? null;
+
+  const [symbol, setSymbol] = useState<string | null>(null);
+  const [stepIndex, setStepIndex] = useState<number | null>(null);
+
+  const ticker: TickerStationarity | undefined =
+    report?.tickers.find(item => item.symbol === symbol) ?? report?.tickers[0];
+
+  // Passo mostrato: scelto dall'utente, altrimenti l'ultimo eseguito
+  const step = ticker
+    ? (ticker.steps[stepIndex ?? ticker.steps.length - 1] ??
+      ticker.steps[ticker.steps.length - 1])
+    : undefined;
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria della Stazionarietà',
+      description:
+        'Una serie è stazionaria se media, varianza e autocorrelazioni non cambiano nel tempo: è il presupposto di quasi tutti i modelli statistici. Il test ADF ha come ipotesi nulla la radice unitaria, il KPSS la stazionarietà: usarli insieme distingue le serie stazionarie da quelle integrate. I prezzi di solito non sono stazionari; il logaritmo stabilizza la crescita esponenziale e la differenza prima (i rendimenti) elimina la radice unitaria. Dopo ogni trasformazione i test vengono ripetuti.',
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">
+              Eseguendo i test di stazionarietà...
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertCircle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
+          </div>
+        </div>
+      );
+    }
+
+    if (!report || !ticker) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Activity size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              Test non Disponibili
+            </h4>
+            <p className="text-slate-400 max-w-sm">
+              Avvia un'analisi con almeno {report?.minObservations ?? 30}{' '}
+              osservazioni per ticker per eseguire i test ADF e KPSS.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        {/* Ticker e trasformazione raccomandata */}
+        <div className="grid md:grid-cols-3 gap-4 mb-6">
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400">Ticker</span>
+            <Select
+              value={ticker.symbol}
+              onValueChange={value => {
+                setSymbol(value);
+                setStepIndex(null);
+              }}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                {report.tickers.map(item => (
+                  <SelectItem key={item.symbol} value={item.symbol}>
+                    {item.symbol}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="bg-gradient-to-br from-blue-950/30 to-cyan-950/30 border border-blue-500/30 rounded-lg p-4">
+            <p className="text-xs text-blue-200 mb-1">
+              Trasformazione raccomandata
+            </p>
+            <p className="text-lg font-bold text-blue-400">
+              {ticker.recommended
+                ? TRANSFORMATION_LABELS[ticker.recommended]
+                : 'Nessuna risolutiva'}
+            </p>
+          </div>
+          <div className="bg-gradient-to-br from-green-950/30 to-emerald-950/30 border border-green-500/30 rounded-lg p-4">
+            <p className="text-xs text-green-200 mb-1">Rendimenti</p>
+            <div className="mt-1">
+              {ticker.returns ? (
+                <VerdictBadge verdict={ticker.returns.verdict} />
+              ) : (
+                <span className="text-slate-400 text-sm">n.d.</span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Sequenza delle trasformazioni */}
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 mb-6">
+          <h4 className="font-semibold text-blue-300 mb-1">
+            Prezzi: trasformazioni e nuovi test
+          </h4>
+          <p className="text-xs text-slate-400 mb-4">
+            {ticker.logPreferred
+              ? 'La crescita è esponenziale (trend log-lineare migliore di quello lineare): si passa dal logaritmo.'
+              : 'La crescita non è esponenziale: si differenziano direttamente i prezzi.'}{' '}
+            Ci si ferma alla prima serie stazionaria. Clicca un passo per i
+            dettagli.
+          </p>
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            {ticker.steps.map((item, index) => (
+              <div
+                key={item.transformation}
+                className="flex items-center gap-2"
+              >
+                {index > 0 && (
+                  <ArrowRight size={14} className="text-slate-500" />
+                )}
+                <button
+                  type="button"
+                  onClick={() => setStepIndex(index)}
+                  className={`rounded-lg border px-3 py-2 text-left text-sm transition-colors ${item === step ? 'border-blue-400 bg-blue-500/10' : 'border-slate-700/50 hover:bg-slate-800/50'}`}
+                >
+                  <span className="block text-slate-200">
+                    {TRANSFORMATION_LABELS[item.transformation]}
+                  </span>
+                  <span className="mt-1 block">
+                    <VerdictBadge verdict={item.verdict} />
+                  </span>
+                </button>
+              </div>
+            ))}
+          </div>
+          {step && (
+            <SeriesDetails series={step} significance={report.significance} />
+          )}
+        </div>
+
+        {/* Rendimenti dell'analisi */}
+        {ticker.returns && (
+          <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h4 className="font-semibold text-blue-300">
+                Rendimenti dell'analisi
+              </h4>
+              <VerdictBadge verdict={ticker.returns.verdict} />
+            </div>
+            <SeriesDetails
+              series={ticker.returns}
+              significance={report.significance}
+            />
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <Activity size={24} />
+          Test di Stazionarietà
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+      {renderContent()}
+    </div>
+  );
+}
@@ -0,0 +1,485 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAnalysis } from '@/context/AnalysisContext';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  SeriesRiskReport,
+  VaRHorizon,
+  VaRMethod,
+} from '@/services/analysisAPI';
+import {
+  BarElement,
+  CategoryScale,
+  Chart as ChartJS,
+  ChartOptions,
+  Legend,
+  LinearScale,
+  Title,
+  Tooltip,
+} from 'chart.js';
+import annotationPlugin from 'chartjs-plugin-annotation';
+import { AlertTriangle, Calculator, Info, Loader } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Bar } from 'react-chartjs-2';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
+
+// Registra i componenti necessari di Chart.js
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+  annotationPlugin
+);
+
+const METHOD_LABELS: Record<VaRMethod, string> = {
+  historical: 'Storico',
+  'parametric-normal': 'Parametrico (normale)',
+  'cornish-fisher': 'Cornish-Fisher',
+  'monte-carlo': 'Monte Carlo',
+};
+
+const HORIZON_LABELS: Record<VaRHorizon, string> = {
+  '1d': '1 giorno',
+  '10d': '10 giorni',
+  '1m': '1 mese',
+};
+
+const METHODS = Object.keys(METHOD_LABELS) as VaRMethod[];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const selectTriggerClass =
+  'w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 text-sm';
+
+export default function VaRAnalysis() {
+  const { analysisState } = useAnalysis();
+  const { analysisResults, isLoading, error } = analysisState;
+  const { toast } = useToast();
+
+  const report = analysisResults?.valueAtRisk ?? null;
+
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
+  const [confidence, setConfidence] = useState(0.95);
+  const [horizon, setHorizon] = useState<VaRHorizon>('1d');
+  const [method, setMethod] = useState<VaRMethod>('historical');
+
+  // Il portafoglio (se presente) precede i singoli ticker
+  const series = useMemo<SeriesRiskReport[]>(
+    () =>
+      report
+        ? [...(report.portfolio ? [report.portfolio] : []), ...report.tickers]
+        : [],
+    [report]
+  );
+
+  const activeSeries =
+    series.find(item => item.symbol === selectedSymbol) ?? series[0];
+  const activeConfidence = report?.confidenceLevels.includes(confidence)
+    ? confidence
+    : (report?.confidenceLevels[0] ?? confidence);
+  const activeHorizon = report?.horizons.includes(horizon)
+    ? horizon
+    : (report?.horizons[0] ?? horizon);
+
+  const findEstimate = (
+    target: SeriesRiskReport | undefined,
+    estimateMethod: VaRMethod,
+    level: number
+  ) =>
+    target?.estimates.find(
+      estimate =>
+        estimate.method === estimateMethod &&
+        estimate.confidence === level &&
+        estimate.horizon === activeHorizon
+    );
+
+  const selectedEstimate = findEstimate(activeSeries, method, activeConfidence);
+  const histogram = activeSeries?.histograms[activeHorizon];
+
+  const chartData = useMemo(() => {
+    if (!histogram) return null;
+
+    const midpoints = histogram.counts.map(
+      (_, i) =>
+        ((histogram.binEdges[i] ?? 0) + (histogram.binEdges[i + 1] ?? 0)) / 2
+    );
+    const varCutoff = selectedEstimate ? -selectedEstimate.var : -Infinity;
+
+    return {
+      labels: midpoints.map(value => `${(value * 100).toFixed(1)}%`),
+      datasets: [
+        {
+          label: 'Frequenza rendimenti',
+          data: histogram.counts,
+          backgroundColor: midpoints.map(value =>
+            value <= varCutoff
+              ? 'rgba(239, 68, 68, 0.7)'
+              : 'rgba(59, 130, 246, 0.6)'
+          ),
+          borderWidth: 0,
+        },
+      ],
+    };
+  }, [histogram, selectedEstimate]);
+
+  const chartOptions = useMemo<ChartOptions<'bar'>>(() => {
+    // Posizione frazionaria sull'asse a categorie (una barra per intervallo)
+    const toBinIndex = (value: number) => {
+      if (!histogram || histogram.binEdges.length < 2) return 0;
+      const first = histogram.binEdges[0] ?? 0;
+      const width = (histogram.binEdges[1] ?? first) - first || 1;
+      return (value - first) / width - 0.5;
+    };
+
+    const cutoffLine = (value: number, color: string, label: string) => ({
+      type: 'line',
+      xMin: toBinIndex(value),
+      xMax: toBinIndex(value),
+      borderColor: color,
+      borderWidth: 2,
+      borderDash: [6, 4],
+      label: {
+        display: true,
+        content: label,
+        position: 'start',
+        backgroundColor: 'rgba(15, 23, 42, 0.85)',
+        color,
+        font: { size: 11 },
+      },
+    });
+
+    return {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          callbacks: {
+            title: items => `Rendimento ≈ ${items[0]?.label ?? ''}`,
+          },
+        },
+        annotation: {
+          annotations: selectedEstimate
+            ? {
+                varLine: cutoffLine(
+                  -selectedEstimate.var,
+                  'rgb(248, 113, 113)',
+                  `VaR ${formatPercent(selectedEstimate.var)}`
+                ),
+                cvarLine: cutoffLine(
+                  -selectedEstimate.cvar,
+                  'rgb(192, 132, 252)',
+                  `CVaR ${formatPercent(selectedEstimate.cvar)}`
+                ),
+              }
+            : {},
+        } as any,
+      },
+      scales: {
+        x: {
+          ticks: { color: 'rgb(148, 163, 184)', maxTicksLimit: 10 },
+          grid: { display: false },
+        },
+        y: {
+          ticks: { color: 'rgb(148, 163, 184)' },
+          grid: { color: 'rgba(51, 65, 85, 0.4)' },
+          title: {
+            display: true,
+            text: 'Osservazioni',
+            color: 'rgb(148, 163, 184)',
+          },
+        },
+      },
+    };
+  }, [histogram, selectedEstimate]);
+
+  // Funzione per gestire il click su "Teoria"
+  const handleTheoryClick = () => {
+    toast({
+      title: 'Teoria del Value at Risk (VaR)',
+      description:
+        'Il VaR è la perdita che non viene superata con la confidenza scelta sull’orizzonte indicato; il CVaR è la perdita media nei casi peggiori oltre il VaR. Il metodo storico usa i rendimenti osservati, il parametrico assume una normale, Cornish-Fisher corregge per asimmetria e code spesse, il Monte Carlo simula scenari con code di tipo t di Student.',
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Loader className="animate-spin rounded-full h-12 w-12 mx-auto text-blue-500" />
+            <p className="text-blue-300">Calcolo del Value at Risk...</p>
+          </div>
+        </div>
+      );
+    }
+
+    if (error) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <AlertTriangle size={48} className="text-red-500 mx-auto" />
+            <h4 className="text-xl font-bold text-red-300">Errore</h4>
+            <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
+          </div>
+        </div>
+      );
+    }
+
+    if (!report || !activeSeries) {
+      return (
+        <div className="w-full h-64 flex items-center justify-center">
+          <div className="text-center space-y-4">
+            <Calculator size={48} className="text-blue-400 mx-auto" />
+            <h4 className="text-xl font-bold text-slate-200">
+              VaR non Disponibile
+            </h4>
+            <p className="text-slate-400">
+              Avvia un'analisi con almeno 20 osservazioni per calcolare VaR e
+              CVaR.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    const tailPercent = ((1 - activeConfidence) * 100).toFixed(0);
+
+    return (
+      <>
+        {/* Selettori */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400">Serie</span>
+            <Select
+              value={activeSeries.symbol}
+              onValueChange={setSelectedSymbol}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                {series.map(item => (
+                  <SelectItem key={item.symbol} value={item.symbol}>
+                    {item.symbol === 'PORTAFOGLIO'
+                      ? 'Portafoglio'
+                      : item.symbol}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400">Confidenza</span>
+            <Select
+              value={String(activeConfidence)}
+              onValueChange={value => setConfidence(Number(value))}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                {report.confidenceLevels.map(level => (
+                  <SelectItem key={level} value={String(level)}>
+                    {(level * 100).toFixed(0)}%
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400">Orizzonte</span>
+            <Select
+              value={activeHorizon}
+              onValueChange={value => setHorizon(value as VaRHorizon)}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                {report.horizons.map(item => (
+                  <SelectItem key={item} value={item}>
+                    {HORIZON_LABELS[item]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400">Metodo</span>
+            <Select
+              value={method}
+              onValueChange={value => setMethod(value as VaRMethod)}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                {METHODS.map(item => (
+                  <SelectItem key={item} value={item}>
+                    {METHOD_LABELS[item]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* VaR / CVaR del metodo selezionato */}
+        <div className="grid md:grid-cols-2 gap-6 mb-6">
+          <div className="bg-gradient-to-br from-red-950/30 to-orange-950/30 border border-red-500/30 rounded-xl p-6">
+            <h4 className="font-semibold text-red-300 mb-4">
+              VaR ({(activeConfidence * 100).toFixed(0)}%,{' '}
+              {HORIZON_LABELS[activeHorizon]})
+            </h4>
+            <div className="text-3xl font-bold text-red-400 mb-2">
+              {selectedEstimate ? formatPercent(selectedEstimate.var) : '—'}
+            </div>
+            <p className="text-sm text-red-200">
+              Perdita massima attesa nel {tailPercent}% dei casi peggiori
+            </p>
+          </div>
+
+          <div className="bg-gradient-to-br from-purple-950/30 to-pink-950/30 border border-purple-500/30 rounded-xl p-6">
+            <h4 className="font-semibold text-purple-300 mb-4">
+              CVaR ({(activeConfidence * 100).toFixed(0)}%,{' '}
+              {HORIZON_LABELS[activeHorizon]})
+            </h4>
+            <div className="text-3xl font-bold text-purple-400 mb-2">
+              {selectedEstimate ? formatPercent(selectedEstimate.cvar) : '—'}
+            </div>
+            <p className="text-sm text-purple-200">
+              Perdita media oltre il VaR
+            </p>
+          </div>
+        </div>
+
+        {/* Confronto tra metodi */}
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-semibold text-blue-300">
+              Confronto metodi ({HORIZON_LABELS[activeHorizon]})
+            </h4>
+            <span className="text-xs text-slate-400">
+              {activeSeries.observations} osservazioni ·{' '}
+              {report.simulations.toLocaleString('it-IT')} scenari Monte Carlo
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-slate-400 border-b border-slate-700/50">
+                  <th className="text-left py-2 font-medium">Metodo</th>
+                  {report.confidenceLevels.map(level => (
+                    <th key={level} className="text-right py-2 font-medium">
+                      VaR / CVaR {(level * 100).toFixed(0)}%
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {METHODS.map(item => {
+                  const scaled = report.confidenceLevels.some(
+                    level => findEstimate(activeSeries, item, level)?.scaled
+                  );
+                  return (
+                    <tr
+                      key={item}
+                      className={`border-b border-slate-800/50 text-slate-200 ${
+                        item === method ? 'bg-blue-500/10' : ''
+                      }`}
+                    >
+                      <td className="py-2 font-medium">
+                        {METHOD_LABELS[item]}
+                        {scaled && (
+                          <span
+                            className="ml-1 text-xs text-amber-400"
+                            title="Scalato con la regola della radice del tempo"
+                          >
+                            √h
+                          </span>
+                        )}
+                      </td>
+                      {report.confidenceLevels.map(level => {
+                        const estimate = findEstimate(
+                          activeSeries,
+                          item,
+                          level
+                        );
+                        return (
+                          <td key={level} className="py-2 text-right">
+                            {estimate ? (
+                              <>
+                                <span className="text-red-300">
+                                  {formatPercent(estimate.var)}
+                                </span>
+                                <span className="text-slate-500"> / </span>
+                                <span className="text-purple-300">
+                                  {formatPercent(estimate.cvar)}
+                                </span>
+                              </>
+                            ) : (
+                              '—'
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500 mt-3">
+            Asimmetria {activeSeries.moments.skewness.toFixed(2)} · Curtosi in
+            eccesso {activeSeries.moments.excessKurtosis.toFixed(2)}
+          </p>
+        </div>
+
+        {/* Istogramma dei rendimenti con soglie VaR/CVaR */}
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+          <h4 className="font-semibold text-blue-300 mb-4">
+            Distribuzione dei rendimenti ({HORIZON_LABELS[activeHorizon]})
+          </h4>
+          {chartData ? (
+            <div className="h-72">
+              <Bar data={chartData} options={chartOptions} />
+            </div>
+          ) : (
+            <p className="text-slate-400 text-sm">
+              Istogramma non disponibile per questo orizzonte.
+            </p>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="dark-card rounded-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-blue-300 flex items-center gap-3">
+          <Calculator size={24} />
+          Value at Risk & CVaR
+        </h3>
+        <button
+          onClick={handleTheoryClick}
+          className="flex items-center gap-2 text-sm px-3 py-1 bg-blue-500/10 text-blue-300 rounded-lg hover:bg-blue-500/20 transition-colors"
+        >
+          <Info size={14} />
+          Teoria
+        </button>
+      </div>
+      {renderContent()}
+    </div>
+  );
+}
@@ -1,5 +1,30 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { useAnalysis } from '@/context/AnalysisContext';
 import { useToast } from '@/hooks/use-toast';
+import type {
+  GarchForecastStep,
+  SeriesVolatilityReport,
+} from '@/services/analysisAPI';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  ChartOptions,
+  Filler,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+} from 'chart.js';
 import {
   Activity,
   AlertTriangle,
@@ -7,31 +32,203 @@ import {
   Loader,
   TrendingUp,
 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import AnalysisErrorDetails from './AnalysisErrorDetails';
 
-// Interfacce TypeScript per type safety
-interface VolatilityData {
-  annualizedVolatility: number;
-  sharpeRatio?: number;
-  maxDrawdown?: number;
-  var95?: number;
-  cvar95?: number;
-}
+// Registra i componenti necessari di Chart.js
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Title,
+  Tooltip,
+  Legend
+);
 
-interface VolatilityResults {
-  volatility?: VolatilityData;
-}
+type Overlay = 'rolling' | 'ewma' | 'garch' | 'forecast';
+
+const OVERLAY_LABELS: Record<Overlay, string> = {
+  rolling: 'Volatilità mobile',
+  ewma: 'EWMA',
+  garch: 'GARCH(1,1)',
+  forecast: 'Previsione e cono',
+};
+
+const ROLLING_COLORS = ['#38bdf8', '#818cf8', '#94a3b8'];
+
+// Passi della struttura a termine mostrati in tabella
+const TERM_STEPS = [1, 5, 10, 21, 63, 126, 252];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const toPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? null : value * 100;
+
+const selectTriggerClass =
+  'w-full px-3 py-2 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 text-sm';
 
 export default function VolatilityChart() {
   const { analysisState } = useAnalysis();
   const { analysisResults, isLoading, error } = analysisState;
   const { toast } = useToast();
 
+  const report = analysisResults?.volatilityModels ?? null;
+
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
+  const [overlays, setOverlays] = useState<Record<Overlay, boolean>>({
+    rolling: true,
+    ewma: true,
+    garch: true,
+    forecast: true,
+  });
+
+  // Il portafoglio (se presente) precede i singoli ticker
+  const series = useMemo<SeriesVolatilityReport[]>(
+    () =>
+      report
+        ? [...(report.portfolio ? [report.portfolio] : []), ...report.tickers]
+        : [],
+    [report]
+  );
+
+  const activeSeries =
+    series.find(item => item.symbol === selectedSymbol) ?? series[0];
+
+  const chartData = useMemo(() => {
+    if (!activeSeries) return null;
+
+    const { dates, rolling, ewma, garch } = activeSeries;
+    const forecast: GarchForecastStep[] =
+      overlays.forecast && garch ? garch.forecast : [];
+    const history = dates.length;
+    // Le serie storiche lasciano vuoti i periodi della previsione
+    const padded = (values: (number | null)[]) => [
+      ...values.map(toPercent),
+      ...forecast.map(() => null),
+    ];
+    // La previsione parte dall'ultima stima GARCH
+    const lastConditional = garch?.conditionalVolatility[history - 1] ?? null;
+    const projected = (pick: (step: GarchForecastStep) => number) => [
+      ...Array.from({ length: history - 1 }, () => null),
+      toPercent(lastConditional),
+      ...forecast.map(step => toPercent(pick(step))),
+    ];
+
+    const line = (color: string, dashed = false) => ({
+      borderColor: color,
+      backgroundColor: color,
+      borderWidth: 1.5,
+      pointRadius: 0,
+      borderDash: dashed ? [6, 4] : [],
+      fill: false,
+    });
+
+    return {
+      labels: [...dates, ...forecast.map(step => `T+${step.step}`)],
+      datasets: [
+        ...(overlays.rolling
+          ? rolling.map((item, index) => ({
+              label: `Mobile ${item.window}g`,
+              data: padded(item.values),
+              ...line(ROLLING_COLORS[index % ROLLING_COLORS.length] ?? ''),
+            }))
+          : []),
+        ...(overlays.ewma
+          ? [
+              {
+                label: `EWMA (λ ${ewma.lambda})`,
+                data: padded(ewma.values),
+                ...line('#f59e0b'),
+              },
+            ]
+          : []),
+        ...(overlays.garch && garch
+          ? [
+              {
+                label: 'GARCH(1,1)',
+                data: padded(garch.conditionalVolatility),
+                ...line('#f43f5e'),
+              },
+            ]
+          : []),
+        ...(forecast.length > 0
+          ? [
+              {
+                label: 'Previsione GARCH',
+                data: projected(step => step.volatility),
+                ...line('#f43f5e', true),
+              },
+              {
+                label: `Cono ${((report?.coneConfidence ?? 0.95) * 100).toFixed(0)}% (sup.)`,
+                data: projected(step => step.upper),
+                ...line('rgba(244, 63, 94, 0.4)'),
+                fill: '+1',
+                backgroundColor: 'rgba(244, 63, 94, 0.12)',
+              },
+              {
+                label: 'Cono (inf.)',
+                data: projected(step => step.lower),
+                ...line('rgba(244, 63, 94, 0.4)'),
+              },
+            ]
+          : []),
+      ],
+    };
+  }, [activeSeries, overlays, report?.coneConfidence]);
+
+  const chartOptions = useMemo<ChartOptions<'line'>>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: { mode: 'index', intersect: false },
+      plugins: {
+        legend: {
+          labels: {
+            color: 'rgb(203, 213, 225)',
+            boxWidth: 12,
+            filter: item => item.text !== 'Cono (inf.)',
+          },
+        },
+        tooltip: {
+          callbacks: {
+            label: item =>
+              item.parsed.y === null
+                ? ''
+                : `${item.dataset.label}: ${item.parsed.y.toFixed(2)}%`,
+          },
+        },
+      },
+      scales: {
+        x: {
+          ticks: { color: 'rgb(148, 163, 184)', maxTicksLimit: 10 },
+          grid: { display: false },
+        },
+        y: {
+          ticks: {
+            color: 'rgb(148, 163, 184)',
+            callback: value => `${value}%`,
+          },
+          grid: { color: 'rgba(51, 65, 85, 0.4)' },
+          title: {
+            display: true,
+            text: 'Volatilità annualizzata',
+            color: 'rgb(148, 163, 184)',
+          },
+        },
+      },
+    }),
+    []
+  );
+
   // Funzione per gestire il click su "Teoria"
   const handleTheoryClick = () => {
     toast({
-      title: 'Teoria della Volatilità e del Rischio',
+      title: 'Teoria dei Modelli di Volatilità',
       description:
-        'La volatilità misura la variabilità dei rendimenti nel tempo. Il Sharpe Ratio confronta rendimenti con rischio. Valori più bassi di volatilità e più alti di Sharpe indicano un portafoglio più stabile e efficiente.',
+        'La volatilità mobile è la deviazione standard dei rendimenti sulle ultime 21, 63 o 252 sedute. L’EWMA (RiskMetrics) pesa di più i rendimenti recenti con decadimento λ. Il GARCH(1,1) modella la varianza come ω + α·ε² + β·σ²: α misura la reazione agli shock, α + β la persistenza, e la previsione converge verso la volatilità di lungo periodo. Il cono indica l’intervallo atteso della volatilità realizzata.',
     });
   };
 
@@ -54,12 +251,13 @@ export default function VolatilityChart() {
             <AlertTriangle size={48} className="text-red-500 mx-auto" />
             <h4 className="text-xl font-bold text-red-300">Errore</h4>
             <p className="text-red-400 max-w-sm">{error}</p>
+            <AnalysisErrorDetails />
           </div>
         </div>
       );
     }
 
-    if (!analysisResults || !analysisResults.volatility) {
+    if (!report || !activeSeries || !chartData) {
       return (
         <div className="w-full h-64 flex items-center justify-center">
           <div className="text-center space-y-4">
@@ -68,119 +266,211 @@ export default function VolatilityChart() {
               Dati di Volatilità non Disponibili
             </h4>
             <p className="text-slate-400">
-              Avvia un'analisi per calcolare la volatilità e il rischio.
+              Avvia un'analisi con almeno 20 osservazioni per calcolare la
+              volatilità e il rischio.
             </p>
           </div>
         </div>
       );
     }
 
-    const volatilityData: VolatilityData = analysisResults.volatility;
-    const { annualizedVolatility = 0, sharpeRatio = 0 } = volatilityData;
-
-    // Fallback robusti per calcoli e stili
-    const volatilityPercentage = ((annualizedVolatility || 0) * 100).toFixed(1);
-    const volatilityBarWidth = Math.min(
-      100,
-      Math.max(0, ((annualizedVolatility || 0) / 0.3) * 100)
-    );
-    const sharpeBarWidth = Math.min(
-      100,
-      Math.max(0, ((sharpeRatio || 0) / 2) * 100)
-    );
+    const { garch } = activeSeries;
+    const termSteps =
+      garch?.forecast.filter(
+        step =>
+          TERM_STEPS.includes(step.step) || step.step === garch.forecast.length
+      ) ?? [];
 
     return (
       <>
-        {/* Volatility Visualization */}
-        <div className="grid md:grid-cols-2 gap-6 mb-6">
-          <div className="bg-gradient-to-br from-red-950/30 to-orange-950/30 border border-red-500/30 rounded-xl p-6">
-            <div className="flex items-center gap-3 mb-4">
-              <AlertTriangle size={20} className="text-red-400" />
-              <h4 className="font-semibold text-red-300">
-                Volatilità Annualizzata
-              </h4>
-            </div>
-            <div className="text-3xl font-bold text-red-400 mb-2">
-              {volatilityPercentage}%
-            </div>
-            <div className="w-full bg-red-950/50 rounded-full h-2 mb-3">
-              <div
-                className="bg-gradient-to-r from-red-500 to-orange-400 h-2 rounded-full transition-all duration-300"
-                style={{
-                  width: `${volatilityBarWidth}%`,
-                }}
-              ></div>
-            </div>
-            <p className="text-sm text-red-200">
-              Misura del rischio del portafoglio (vs 15% benchmark)
-            </p>
+        {/* Selettori */}
+        <div className="grid md:grid-cols-2 gap-4 mb-6">
+          <div className="space-y-1">
+            <span className="text-xs text-slate-400">Serie</span>
+            <Select
+              value={activeSeries.symbol}
+              onValueChange={setSelectedSymbol}
+            >
+              <SelectTrigger className={selectTriggerClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+                {series.map(item => (
+                  <SelectItem key={item.symbol} value={item.symbol}>
+                    {item.symbol === 'PORTAFOGLIO'
+                      ? 'Portafoglio'
+                      : item.symbol}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+          <div className="grid grid-cols-2 gap-3 content-end">
+            {(Object.keys(OVERLAY_LABELS) as Overlay[]).map(overlay => (
+              <div key={overlay} className="flex items-center space-x-2">
+                <Switch
+                  id={`volatility-${overlay}`}
+                  checked={overlays[overlay]}
+                  onCheckedChange={checked =>
+                    setOverlays(prev => ({ ...prev, [overlay]: checked }))
+                  }
+                  aria-label={`Mostra/nascondi ${OVERLAY_LABELS[overlay]}`}
+                />
+                <Label
+                  htmlFor={`volatility-${overlay}`}
+                  className="text-sm text-slate-300"
+                >
+                  {OVERLAY_LABELS[overlay]}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
 
-          <div className="bg-gradient-to-br from-blue-950/30 to-cyan-950/30 border border-blue-500/30 rounded-xl p-6">
-            <div className="flex items-center gap-3 mb-4">
-              <TrendingUp size={20} className="text-blue-400" />
-              <h4 className="font-semibold text-blue-300">Sharpe Ratio</h4>
-            </div>
-            <div className="text-3xl font-bold text-blue-400 mb-2">
-              {(sharpeRatio || 0).toFixed(2)}
-            </div>
-            <div className="w-full bg-blue-950/50 rounded-full h-2 mb-3">
-              <div
-                className="bg-gradient-to-r from-blue-500 to-cyan-400 h-2 rounded-full transition-all duration-300"
-                style={{
-                  width: `${sharpeBarWidth}%`,
-                }}
-              ></div>
-            </div>
-            <p className="text-sm text-blue-200">
-              Rendimento per unità di rischio
+        {/* Riepilogo */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-gradient-to-br from-red-950/30 to-orange-950/30 border border-red-500/30 rounded-xl p-4">
+            <p className="text-xs text-red-200 mb-1">Volatilità realizzata</p>
+            <p className="text-2xl font-bold text-red-400">
+              {formatPercent(activeSeries.realizedVolatility)}
+            </p>
+          </div>
+          <div className="bg-gradient-to-br from-amber-950/30 to-orange-950/30 border border-amber-500/30 rounded-xl p-4">
+            <p className="text-xs text-amber-200 mb-1">EWMA attuale</p>
+            <p className="text-2xl font-bold text-amber-400">
+              {formatPercent(activeSeries.ewma.current)}
+            </p>
+          </div>
+          <div className="bg-gradient-to-br from-rose-950/30 to-pink-950/30 border border-rose-500/30 rounded-xl p-4">
+            <p className="text-xs text-rose-200 mb-1">
+              GARCH a {report.forecastDays} giorni
+            </p>
+            <p className="text-2xl font-bold text-rose-400">
+              {garch
+                ? formatPercent(
+                    garch.forecast[garch.forecast.length - 1]?.termVolatility ??
+                      0
+                  )
+                : '—'}
+            </p>
+          </div>
+          <div className="bg-gradient-to-br from-blue-950/30 to-cyan-950/30 border border-blue-500/30 rounded-xl p-4">
+            <p className="text-xs text-blue-200 mb-1">Lungo periodo (GARCH)</p>
+            <p className="text-2xl font-bold text-blue-400">
+              {garch ? formatPercent(garch.longRunVolatility) : '—'}
             </p>
           </div>
         </div>
 
-        {/* Interactive Chart Area */}
-        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
-          {volatilityData.maxDrawdown !== undefined ||
-          volatilityData.var95 !== undefined ? (
-            <div className="h-64 flex items-center justify-center">
-              <div className="text-center space-y-4">
-                <div className="w-16 h-16 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-full flex items-center justify-center mx-auto border border-blue-500/30">
-                  <TrendingUp size={32} className="text-blue-400" />
-                </div>
-                <div>
-                  <p className="text-lg font-bold text-blue-300">
-                    Dati di rischio avanzati disponibili
-                  </p>
-                  <p className="text-slate-400">
-                    {volatilityData.maxDrawdown !== undefined &&
-                      `Max Drawdown: ${(volatilityData.maxDrawdown * 100).toFixed(2)}%`}
-                    {volatilityData.var95 !== undefined &&
-                      ` | VaR 95%: ${(volatilityData.var95 * 100).toFixed(2)}%`}
-                  </p>
-                </div>
+        {/* Serie storica con sovrapposizioni e cono di previsione */}
+        <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6 mb-6">
+          <div className="h-80">
+            <Line data={chartData as any} options={chartOptions} />
+          </div>
+        </div>
+
+        {garch ? (
+          <div className="grid md:grid-cols-2 gap-6">
+            {/* Parametri GARCH */}
+            <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="font-semibold text-blue-300">
+                  Stima GARCH(1,1)
+                </h4>
+                <span className="text-xs text-slate-400">
+                  {activeSeries.observations} osservazioni
+                  {!garch.converged && ' · non convergente'}
+                </span>
               </div>
-            </div>
-          ) : (
-            <div className="h-64 flex items-center justify-center">
-              <div className="text-center space-y-4">
-                <div className="w-16 h-16 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-full flex items-center justify-center mx-auto border border-blue-500/30">
-                  <TrendingUp
-                    size={32}
-                    className="text-blue-400 animate-pulse"
-                  />
-                </div>
-                <div>
-                  <p className="text-lg font-bold text-blue-300">
-                    Grafico Volatilità Interattivo
-                  </p>
-                  <p className="text-slate-400">
-                    Questa visualizzazione è in fase di sviluppo.
-                  </p>
-                </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 border-b border-slate-700/50">
+                    <th className="text-left py-2 font-medium">Parametro</th>
+                    <th className="text-right py-2 font-medium">Stima</th>
+                    <th className="text-right py-2 font-medium">Err. std.</th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-200">
+                  {(['omega', 'alpha', 'beta'] as const).map(name => (
+                    <tr key={name} className="border-b border-slate-800/50">
+                      <td className="py-2">
+                        {{ omega: 'ω', alpha: 'α', beta: 'β' }[name]}
+                      </td>
+                      <td className="py-2 text-right">
+                        {garch.parameters[name].toPrecision(4)}
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {garch.standardErrors
+                          ? garch.standardErrors[name].toPrecision(3)
+                          : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="grid grid-cols-2 gap-2 mt-4 text-xs text-slate-400">
+                <span>Persistenza α + β: {garch.persistence.toFixed(4)}</span>
+                <span>
+                  Emivita:{' '}
+                  {garch.halfLife !== null
+                    ? `${garch.halfLife.toFixed(1)} periodi`
+                    : '—'}
+                </span>
+                <span>
+                  Log-verosimiglianza: {garch.logLikelihood.toFixed(1)}
+                </span>
+                <span>
+                  AIC {garch.aic.toFixed(1)} · BIC {garch.bic.toFixed(1)}
+                </span>
               </div>
             </div>
-          )}
-        </div>
+
+            {/* Struttura a termine */}
+            <div className="bg-gradient-to-br from-slate-900/50 to-blue-950/30 border border-blue-500/20 rounded-xl p-6">
+              <h4 className="font-semibold text-blue-300 mb-4">
+                Struttura a termine
+              </h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 border-b border-slate-700/50">
+                    <th className="text-left py-2 font-medium">Orizzonte</th>
+                    <th className="text-right py-2 font-medium">
+                      Volatilità media
+                    </th>
+                    <th className="text-right py-2 font-medium">
+                      Cono {(report.coneConfidence * 100).toFixed(0)}%
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="text-slate-200">
+                  {termSteps.map(step => (
+                    <tr
+                      key={step.step}
+                      className="border-b border-slate-800/50"
+                    >
+                      <td className="py-2">
+                        {step.step} {step.step === 1 ? 'periodo' : 'periodi'}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatPercent(step.termVolatility)}
+                      </td>
+                      <td className="py-2 text-right text-slate-400">
+                        {formatPercent(step.lower)} –{' '}
+                        {formatPercent(step.upper)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-400 flex items-center gap-2">
+            <Info size={14} />
+            Il GARCH(1,1) richiede almeno 100 osservazioni: allunga il periodo o
+            usa una frequenza più alta.
+          </p>
+        )}
       </>
     );
   };
@@ -1,23 +1,74 @@
+import { useAnalysis } from '@/context/AnalysisContext';
 import {
-  AlertCircle,
-  CheckCircle,
-  FileText,
-  Info,
-  Upload,
-  X,
-} from 'lucide-react';
+  ImportedSeries,
+  PriceColumn,
+  PriceImportResult,
+  importPriceFile,
+} from '@/services/analysisAPI';
+import { AlertCircle, CheckCircle, FileText, Upload, X } from 'lucide-react';
 import React, { useState } from 'react';
 
+// Etichette delle colonne riconosciute nel file
+const COLUMN_LABELS: Record<PriceColumn, string> = {
+  date: 'Data',
+  open: 'Apertura',
+  high: 'Massimo',
+  low: 'Minimo',
+  close: 'Chiusura',
+  adjustedClose: 'Chiusura rettificata',
+  volume: 'Volume',
+};
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_ISSUES = 8;
+
+type UploadStatus =
+  | { status: 'idle' }
+  | { status: 'uploading'; name: string; size: string }
+  | { status: 'error'; name: string; size: string; error: string }
+  | { status: 'success'; name: string; size: string };
+
+// Stesse regole del backend (sanitizeImportedSymbol)
+const sanitizeSymbol = (value: string) =>
+  value
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, '_')
+    .replace(/[^A-Z0-9._\-^=]/g, '')
+    .slice(0, 20);
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
 export default function DataUploadSection() {
+  const { analysisState, setAnalysisState } = useAnalysis();
   const [dragActive, setDragActive] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<
-    Array<{
-      id: string;
-      name: string;
-      size: string;
-      status: 'uploading' | 'success' | 'error';
-    }>
-  >([]);
+  const [upload, setUpload] = useState<UploadStatus>({ status: 'idle' });
+  const [preview, setPreview] = useState<PriceImportResult | null>(null);
+  const [symbolInput, setSymbolInput] = useState('');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const info = { name: file.name, size: formatSize(file.size) };
+
+    setUpload({ status: 'uploading', ...info });
+    setPreview(null);
+
+    try {
+      const result = await importPriceFile(file);
+      setPreview(result);
+      setSymbolInput(result.series[0]?.symbol ?? '');
+      setUpload({ status: 'success', ...info });
+    } catch (error) {
+      setUpload({
+        status: 'error',
+        ...info,
+        error: error instanceof Error ? error.message : 'Import non riuscito',
+      });
+    }
+  };
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -33,207 +84,277 @@ export default function DataUploadSection() {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
 
-    const files = Array.from(e.dataTransfer.files);
-    files.forEach((file, index) => {
-      const newFile = {
-        id: Date.now() + index + '',
-        name: file.name,
-        size: (file.size / 1024 / 1024).toFixed(2) + ' MB',
-        status: 'uploading' as const,
-      };
-
-      setUploadedFiles(prev => [...prev, newFile]);
-
-      // Simulate upload process
-      setTimeout(() => {
-        setUploadedFiles(prev =>
-          prev.map(f => (f.id === newFile.id ? { ...f, status: 'success' } : f))
-        );
-      }, 2000);
-    });
+  const reset = () => {
+    setUpload({ status: 'idle' });
+    setPreview(null);
+    setSymbolInput('');
   };
 
-  const removeFile = (id: string) => {
-    setUploadedFiles(prev => prev.filter(f => f.id !== id));
+  // Nel formato OHLCV la serie prende il simbolo scelto dall'utente
+  const seriesToImport: ImportedSeries[] = preview
+    ? preview.layout === 'ohlcv'
+      ? preview.series.map(series => ({
+          ...series,
+          symbol: sanitizeSymbol(symbolInput) || series.symbol,
+        }))
+      : preview.series
+    : [];
+
+  const confirmImport = () => {
+    const symbols = seriesToImport.map(series => series.symbol);
+    setAnalysisState(prev => ({
+      ...prev,
+      importedSeries: [
+        ...prev.importedSeries.filter(
+          series => !symbols.includes(series.symbol)
+        ),
+        ...seriesToImport,
+      ],
+      tickers: [
+        ...prev.tickers,
+        ...symbols.filter(symbol => !prev.tickers.includes(symbol)),
+      ],
+    }));
+    reset();
   };
 
-  return (
-    <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <div>
-          <h3 className="text-2xl font-bold text-blue-300 flex items-center gap-3 mb-2">
-            <Upload size={28} className="text-blue-400" />
-            Caricamento Dati Portfolio
-          </h3>
-          <p className="text-slate-400">
-            Carica i tuoi dati storici per iniziare l'analisi
-          </p>
-        </div>
-        <button
-          id="format-guide-button"
-          name="format-guide"
-          className="flex items-center gap-2 text-sm px-4 py-2 bg-blue-500/10 text-blue-300 rounded-xl hover:bg-blue-500/20 transition-all duration-200 border border-blue-500/30"
-          aria-label="Guida ai formati supportati"
-        >
-          <Info size={16} />
-          Guida Formati
-        </button>
-      </div>
+  const firstSeries = preview?.series[0];
+  const mappedColumns = preview
+    ? (Object.keys(COLUMN_LABELS) as PriceColumn[]).filter(
+        column => preview.mapping[column]
+      )
+    : [];
 
-      {/* Main Upload Area */}
+  return (
+    <div className="space-y-3">
+      {/* Drop zone */}
       <div
         id="file-drop-zone"
-        className={`
-          relative border-2 border-dashed rounded-2xl p-12 text-center transition-all duration-300 cursor-pointer group
-          ${
-            dragActive
-              ? 'border-blue-400 bg-blue-500/10 scale-[1.02]'
-              : 'border-blue-500/30 bg-gradient-to-br from-blue-500/5 to-slate-800/20 hover:border-blue-400/50 hover:bg-blue-500/8'
-          }
-        `}
+        className={`relative w-full py-4 px-4 border border-dashed rounded-lg transition-all duration-200 flex flex-col items-center justify-center gap-2 group ${
+          dragActive
+            ? 'border-blue-400 bg-blue-500/10'
+            : 'border-slate-700/50 hover:border-blue-500/50'
+        }`}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
         onDrop={handleDrop}
-        role="button"
-        tabIndex={0}
-        aria-label="Area di caricamento file"
         aria-describedby="upload-instructions"
       >
-        <Upload className="text-slate-500 w-10 h-10 mb-3" />
-        <p className="text-slate-400 text-sm font-medium">
-          Drag and drop file here
-        </p>
-        <p id="upload-instructions" className="text-slate-500 text-xs mt-1">
-          Limit 200MB per file • CSV, XLS, XLSX
-        </p>
+        <div className="w-6 h-6 rounded-full border border-slate-700 group-hover:border-blue-500/50 flex items-center justify-center transition-colors">
+          <Upload
+            size={14}
+            className="text-slate-500 group-hover:text-blue-400"
+          />
+        </div>
+        <div className="text-center">
+          <div className="text-sm text-slate-500 group-hover:text-blue-400">
+            Trascina qui un file o clicca per selezionarlo
+          </div>
+          <div id="upload-instructions" className="text-xs text-slate-600 mt-1">
+            CSV o XLSX • colonne Data + Chiusura (OHLCV) oppure Data + una
+            colonna di prezzi per titolo
+          </div>
+        </div>
         <input
           id="file-input"
           name="file-input"
           type="file"
-          multiple
-          accept=".csv,.xls,.xlsx"
+          accept=".csv,.txt,.xlsx"
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          aria-label="Seleziona file da caricare"
+          aria-label="Seleziona file di prezzi da importare"
           onChange={e => {
-            if (e.target.files) {
-              const files = Array.from(e.target.files);
-              files.forEach((file, index) => {
-                const newFile = {
-                  id: Date.now() + index + '',
-                  name: file.name,
-                  size: (file.size / 1024 / 1024).toFixed(2) + ' MB',
-                  status: 'uploading' as const,
-                };
-
-                setUploadedFiles(prev => [...prev, newFile]);
-
-                // Simulate upload process
-                setTimeout(() => {
-                  setUploadedFiles(prev =>
-                    prev.map(f =>
-                      f.id === newFile.id ? { ...f, status: 'success' } : f
-                    )
-                  );
-                }, 2000);
-              });
-            }
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
           }}
         />
       </div>
 
-      {/* Uploaded Files List */}
-      {uploadedFiles.length > 0 && (
-        <div className="bg-slate-800/30 rounded-xl p-6 border border-slate-700/50">
-          <h4 className="font-semibold text-slate-300 mb-4 flex items-center gap-2">
-            <FileText size={18} />
-            File Caricati ({uploadedFiles.length})
-          </h4>
-
-          <div className="space-y-3">
-            {uploadedFiles.map(file => (
-              <div
-                key={file.id}
-                className="flex items-center justify-between p-4 bg-slate-700/30 rounded-lg border border-slate-600/30"
-              >
-                <div className="flex items-center gap-3">
-                  <div
-                    className={`w-8 h-8 rounded-lg flex items-center justify-center ${
-                      file.status === 'uploading'
-                        ? 'bg-blue-500/20'
-                        : file.status === 'success'
-                          ? 'bg-green-500/20'
-                          : 'bg-red-500/20'
-                    }`}
-                  >
-                    {file.status === 'uploading' && (
-                      <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
-                    )}
-                    {file.status === 'success' && (
-                      <CheckCircle size={16} className="text-green-400" />
-                    )}
-                    {file.status === 'error' && (
-                      <AlertCircle size={16} className="text-red-400" />
-                    )}
-                  </div>
-
-                  <div>
-                    <p className="font-medium text-slate-200">{file.name}</p>
-                    <p className="text-sm text-slate-400">{file.size}</p>
-                  </div>
-                </div>
-
-                <button
-                  id={`remove-file-${file.id}-button`}
-                  name={`remove-file-${file.id}`}
-                  onClick={() => removeFile(file.id)}
-                  className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
-                  aria-label={`Rimuovi file ${file.name}`}
-                >
-                  <X size={16} />
-                </button>
-              </div>
-            ))}
+      {/* Stato del caricamento */}
+      {upload.status !== 'idle' && (
+        <div className="flex items-center justify-between p-3 bg-slate-800/30 rounded-lg border border-slate-700/50">
+          <div className="flex items-center gap-3 min-w-0">
+            {upload.status === 'uploading' && (
+              <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
+            )}
+            {upload.status === 'success' && (
+              <CheckCircle size={16} className="text-green-400" />
+            )}
+            {upload.status === 'error' && (
+              <AlertCircle size={16} className="text-red-400" />
+            )}
+            <div className="min-w-0">
+              <p className="text-sm text-slate-200 truncate">{upload.name}</p>
+              <p className="text-xs text-slate-500">
+                {upload.size}
+                {upload.status === 'uploading' && ' • lettura in corso...'}
+              </p>
+              {upload.status === 'error' && (
+                <p className="text-xs text-red-400">{upload.error}</p>
+              )}
+            </div>
           </div>
+          <button
+            onClick={reset}
+            className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+            aria-label={`Rimuovi file ${upload.name}`}
+          >
+            <X size={14} />
+          </button>
         </div>
       )}
 
-      {/* Format Examples */}
-      <div className="grid md:grid-cols-2 gap-6">
-        <div className="bg-gradient-to-br from-slate-800/50 to-blue-900/20 rounded-xl p-6 border border-slate-700/50">
-          <h4 className="font-semibold text-blue-300 mb-3">
-            Formato CSV Esempio
-          </h4>
-          <div className="bg-slate-900/50 rounded-lg p-4 font-mono text-sm">
-            <div className="text-slate-300">Date,AAPL,MSFT,GOOGL</div>
-            <div className="text-slate-400">
-              2024-01-01,150.25,380.50,2800.75
-            </div>
-            <div className="text-slate-400">
-              2024-01-02,151.30,382.10,2805.20
+      {/* Anteprima dell'import */}
+      {preview && firstSeries && (
+        <div className="p-3 bg-slate-800/30 rounded-lg border border-slate-700/50 space-y-3 text-xs">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-slate-400">
+            <span>
+              Formato:{' '}
+              <span className="text-slate-200">
+                {preview.layout === 'ohlcv'
+                  ? 'OHLCV'
+                  : `una colonna per titolo (${preview.series.length})`}
+              </span>
+            </span>
+            <span>
+              Date: <span className="text-slate-200">{preview.dateFormat}</span>
+            </span>
+            <span>
+              Decimali:{' '}
+              <span className="text-slate-200">
+                {preview.decimalSeparator === ',' ? 'virgola' : 'punto'}
+              </span>
+            </span>
+            <span>
+              Righe:{' '}
+              <span className="text-slate-200">
+                {preview.rowsRead - preview.rowsSkipped}/{preview.rowsRead}
+              </span>
+            </span>
+          </div>
+
+          {preview.layout === 'ohlcv' ? (
+            <>
+              <div className="flex flex-wrap gap-1.5">
+                {mappedColumns.map(column => (
+                  <span
+                    key={column}
+                    className="px-2 py-0.5 rounded-full border border-blue-500/30 bg-blue-500/5 text-blue-300"
+                  >
+                    {COLUMN_LABELS[column]} ← {preview.mapping[column]}
+                  </span>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="import-symbol-input" className="text-slate-400">
+                  Simbolo della serie
+                </label>
+                <input
+                  id="import-symbol-input"
+                  type="text"
+                  value={symbolInput}
+                  onChange={e => setSymbolInput(e.target.value)}
+                  className="flex-1 px-2 py-1 bg-transparent border border-slate-700/50 rounded text-slate-200 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </>
+          ) : (
+            <p className="text-slate-400">
+              Serie:{' '}
+              <span className="text-slate-200">
+                {preview.series
+                  .map(series => `${series.symbol} (${series.data.length})`)
+                  .join(', ')}
+              </span>
+            </p>
+          )}
+
+          <table className="w-full text-left tabular-nums">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="font-normal">Data</th>
+                <th className="font-normal text-right">Apertura</th>
+                <th className="font-normal text-right">Massimo</th>
+                <th className="font-normal text-right">Minimo</th>
+                <th className="font-normal text-right">Chiusura</th>
+                <th className="font-normal text-right">Volume</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-300">
+              {firstSeries.data.slice(0, PREVIEW_ROWS).map(bar => (
+                <tr key={bar.date}>
+                  <td>{bar.date}</td>
+                  <td className="text-right">{bar.open.toFixed(2)}</td>
+                  <td className="text-right">{bar.high.toFixed(2)}</td>
+                  <td className="text-right">{bar.low.toFixed(2)}</td>
+                  <td className="text-right">{bar.close.toFixed(2)}</td>
+                  <td className="text-right">
+                    {bar.volume.toLocaleString('it-IT')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-slate-500">
+            {firstSeries.symbol}: {firstSeries.data.length} osservazioni dal{' '}
+            {firstSeries.data[0]?.date} al{' '}
+            {firstSeries.data[firstSeries.data.length - 1]?.date}
+          </p>
+
+          {preview.issueCount > 0 && (
+            <div className="space-y-1">
+              <p className="text-yellow-400">
+                {preview.issueCount} problemi rilevati
+                {preview.issueCount > PREVIEW_ISSUES &&
+                  ` (primi ${PREVIEW_ISSUES})`}
+              </p>
+              <ul className="space-y-0.5">
+                {preview.issues.slice(0, PREVIEW_ISSUES).map((issue, index) => (
+                  <li
+                    key={index}
+                    className={
+                      issue.severity === 'error'
+                        ? 'text-red-400'
+                        : 'text-yellow-300'
+                    }
+                  >
+                    {issue.row > 0 && `Riga ${issue.row}: `}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
             </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={reset}
+              className="px-3 py-1.5 text-slate-400 hover:text-slate-200 rounded-lg transition-colors"
+            >
+              Annulla
+            </button>
+            <button
+              onClick={confirmImport}
+              className="px-3 py-1.5 bg-blue-600/80 hover:bg-blue-600 text-white rounded-lg transition-colors font-medium"
+            >
+              <FileText size={12} className="inline mr-1" />
+              Usa nell'analisi
+            </button>
           </div>
         </div>
+      )}
 
-        <div className="bg-gradient-to-br from-slate-800/50 to-green-900/20 rounded-xl p-6 border border-slate-700/50">
-          <h4 className="font-semibold text-green-300 mb-3">Requisiti Dati</h4>
-          <ul className="space-y-2 text-sm text-slate-300">
-            <li className="flex items-center gap-2">
-              <CheckCircle size={14} className="text-green-400" />
-              Colonna Date (formato YYYY-MM-DD)
-            </li>
-            <li className="flex items-center gap-2">
-              <CheckCircle size={14} className="text-green-400" />
-              Prezzi di chiusura per asset
-            </li>
-            <li className="flex items-center gap-2">
-              <CheckCircle size={14} className="text-green-400" />
-              Minimo 252 osservazioni
-            </li>
-          </ul>
-        </div>
-      </div>
+      {analysisState.importedSeries.length > 0 && (
+        <p className="text-slate-500 text-xs">
+          Serie importate:{' '}
+          {analysisState.importedSeries
+            .map(series => `${series.symbol} (${series.source})`)
+            .join(', ')}
+        </p>
+      )}
     </div>
   );
 }
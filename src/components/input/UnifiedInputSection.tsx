@@ -1,3 +1,4 @@
+import AnalysisProgressPanel from '@/components/charts/AnalysisProgressPanel';
 import { Button } from '@/components/ui/button';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import {
@@ -13,32 +14,188 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useAnalysis } from '@/context/AnalysisContext';
+import {
+  CorrelationMethod,
+  ImportedSeries,
+  RebalancingPolicy,
+  ReturnMode,
+  SymbolInfo,
+  SymbolValidation,
+  TickerErrorInfo,
+  searchSymbols,
+  validateSymbol,
+} from '@/services/analysisAPI';
 import { cn } from '@/lib/utils';
+import {
+  AllocationMode,
+  normalizeWeights,
+  sumWeights,
+} from '@/utils/portfolioWeights';
 import { format, parseISO } from 'date-fns';
-import { AlertTriangle, Calendar, CheckCircle, Upload, X } from 'lucide-react';
-import { useState } from 'react';
+import {
+  AlertTriangle,
+  Calendar,
+  CheckCircle,
+  FileText,
+  X,
+} from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import DataUploadSection from './DataUploadSection';
+
+// Indici di riferimento disponibili per il confronto performance
+const BENCHMARK_OPTIONS = [
+  { symbol: '^GSPC', label: 'S&P 500' },
+  { symbol: '^NDX', label: 'Nasdaq 100' },
+  { symbol: '^DJI', label: 'Dow Jones' },
+  { symbol: '^STOXX50E', label: 'Euro Stoxx 50' },
+  { symbol: 'FTSEMIB.MI', label: 'FTSE MIB' },
+  { symbol: 'URTH', label: 'MSCI World (ETF)' },
+];
+
+// Coefficienti di correlazione calcolati dal backend
+const CORRELATION_OPTIONS: { method: CorrelationMethod; label: string }[] = [
+  { method: 'pearson', label: 'Pearson (lineare)' },
+  { method: 'spearman', label: 'Spearman (ranghi)' },
+  { method: 'kendall', label: 'Kendall (tau-b)' },
+];
+
+// Stato del chip: 'loading' finché il backend non risponde alla validazione
+type TickerChip = Partial<Omit<SymbolValidation, 'status'>> & {
+  symbol: string;
+  status: SymbolValidation['status'] | 'loading';
+  imported?: boolean; // serie caricata da file, non validata sul backend
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const formatChange = (value: number) =>
+  `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+// Chip di una serie importata: ultima chiusura presa dal file
+const importedChip = (series: ImportedSeries): TickerChip => {
+  const last = series.data[series.data.length - 1];
+  const previous = series.data[series.data.length - 2];
+  return {
+    symbol: series.symbol,
+    status: 'valid',
+    imported: true,
+    lastClose: last
+      ? {
+          date: last.date,
+          close: last.close,
+          previousClose: previous?.close ?? null,
+          changePercent: previous
+            ? ((last.close - previous.close) / previous.close) * 100
+            : null,
+        }
+      : null,
+    message: `Serie importata da ${series.source} (${series.data.length} osservazioni)`,
+  };
+};
+
+const describeChip = (
+  ticker: TickerChip,
+  failure: TickerErrorInfo | undefined
+): string => {
+  if (ticker.status === 'loading') return 'Validazione in corso...';
+  const parts = [
+    ticker.info
+      ? `${ticker.info.name} · ${ticker.info.exchange} · ${ticker.info.currency}`
+      : '',
+    ticker.lastClose
+      ? `Ultima chiusura ${ticker.lastClose.close.toFixed(2)} (${ticker.lastClose.date})`
+      : '',
+    ticker.message ?? '',
+    failure
+      ? `Escluso dall'ultima analisi: ${failure.detail ?? failure.message}`
+      : '',
+  ];
+  return parts.filter(Boolean).join('\n');
+};
 
 export default function UnifiedInputSection() {
   const { analysisState, setAnalysisState, startAnalysis } = useAnalysis();
 
   const [tickerInput, setTickerInput] = useState('');
-  const [validatedTickers, setValidatedTickers] = useState<
-    Array<{
-      symbol: string;
-      name: string;
-      status: 'valid' | 'invalid' | 'loading';
-      price?: number;
-      change?: number;
-    }>
-  >(
-    analysisState.tickers.map(t => ({
-      symbol: t,
-      name: `${t} Name`,
-      status: 'valid',
-      price: 150,
-      change: 2.5,
-    }))
+  const [validatedTickers, setValidatedTickers] = useState<TickerChip[]>(
+    analysisState.tickers.map(symbol => ({ symbol, status: 'loading' }))
+  );
+  const [symbolMatches, setSymbolMatches] = useState<SymbolInfo[]>([]);
+  const pendingValidations = useRef(new Set<string>());
+
+  // Ticker esclusi dall'ultima analisi, con il motivo classificato dal backend
+  const { analysisResults, errorDetails } = analysisState;
+  const analysisFailures = useMemo(() => {
+    const failures = new Map<string, TickerErrorInfo>();
+    analysisResults?.metadata?.tickerStatus?.forEach(status => {
+      if (status.error) failures.set(status.symbol, status.error);
+    });
+    errorDetails?.tickers?.forEach(error => failures.set(error.symbol, error));
+    return failures;
+  }, [analysisResults, errorDetails]);
+
+  // Allinea i chip ai ticker del contesto (anche quelli aggiunti dall'import)
+  useEffect(() => {
+    setValidatedTickers(prev =>
+      analysisState.tickers.map(symbol => {
+        const series = analysisState.importedSeries.find(
+          s => s.symbol === symbol
+        );
+        if (series) return importedChip(series);
+        const chip = prev.find(t => t.symbol === symbol);
+        return chip && !chip.imported
+          ? chip
+          : { symbol, status: 'loading' as const };
+      })
+    );
+  }, [analysisState.tickers, analysisState.importedSeries]);
+
+  // Valida sul backend (anagrafica + ultima chiusura) i chip ancora in attesa
+  useEffect(() => {
+    validatedTickers
+      .filter(
+        t => t.status === 'loading' && !pendingValidations.current.has(t.symbol)
+      )
+      .forEach(({ symbol }) => {
+        pendingValidations.current.add(symbol);
+        validateSymbol(symbol)
+          .catch(
+            (error: Error): TickerChip => ({
+              symbol,
+              status: 'invalid',
+              message: `Validazione non riuscita: ${error.message}`,
+            })
+          )
+          .then(result => {
+            pendingValidations.current.delete(symbol);
+            setValidatedTickers(prev =>
+              prev.map(t =>
+                t.symbol === symbol && !t.imported ? { ...result, symbol } : t
+              )
+            );
+          });
+      });
+  }, [validatedTickers]);
+
+  // Suggerimenti dall'anagrafica per l'ultimo ticker che si sta digitando
+  const typedSymbol = tickerInput.split(/[,\s]+/).pop() ?? '';
+  const typedPrefix = tickerInput.slice(
+    0,
+    tickerInput.length - typedSymbol.length
   );
+  useEffect(() => {
+    const query = typedSymbol.trim();
+    if (!query) {
+      setSymbolMatches([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchSymbols(query, 8)
+        .then(setSymbolMatches)
+        .catch(() => setSymbolMatches([]));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [typedSymbol]);
 
   const setGlobalTickers = (tickers: string[]) => {
     setAnalysisState(prev => ({ ...prev, tickers }));
@@ -58,6 +215,74 @@ export default function UnifiedInputSection() {
   const setFrequency = (frequency: 'daily' | 'weekly' | 'monthly') => {
     setAnalysisState(prev => ({ ...prev, frequency }));
   };
+  const setReturnType = (returnType: ReturnMode) => {
+    setAnalysisState(prev => ({ ...prev, returnType }));
+  };
+  const setBenchmark = (benchmark: string) => {
+    setAnalysisState(prev => ({ ...prev, benchmark }));
+  };
+  const setCorrelationMethod = (correlationMethod: CorrelationMethod) => {
+    setAnalysisState(prev => ({ ...prev, correlationMethod }));
+  };
+
+  const setAllocationMode = (allocationMode: AllocationMode) => {
+    setAnalysisState(prev => ({ ...prev, allocationMode }));
+  };
+  const setAllocationValue = (symbol: string, rawValue: string) => {
+    const value = rawValue === '' ? 0 : Number(rawValue);
+    if (!Number.isFinite(value) || value < 0) return;
+    setAnalysisState(prev =>
+      prev.allocationMode === 'shares'
+        ? { ...prev, shares: { ...prev.shares, [symbol]: value } }
+        : { ...prev, weights: { ...prev.weights, [symbol]: value } }
+    );
+  };
+  const setInitialCapital = (rawValue: string) => {
+    const value = Number(rawValue);
+    setAnalysisState(prev => ({
+      ...prev,
+      initialCapital:
+        rawValue === '' || !Number.isFinite(value) || value <= 0
+          ? undefined
+          : value,
+    }));
+  };
+
+  const rebalancingValue =
+    analysisState.rebalancing.type === 'calendar'
+      ? `calendar:${analysisState.rebalancing.frequency}`
+      : analysisState.rebalancing.type;
+  const setRebalancing = (value: string) => {
+    const [type, frequency] = value.split(':');
+    const rebalancing: RebalancingPolicy =
+      type === 'calendar'
+        ? {
+            type: 'calendar',
+            frequency: frequency as 'monthly' | 'quarterly' | 'annual',
+          }
+        : type === 'threshold'
+          ? { type: 'threshold', threshold: 0.05 }
+          : { type: 'buy-and-hold' };
+    setAnalysisState(prev => ({ ...prev, rebalancing }));
+  };
+  const setRebalancingThreshold = (rawValue: string) => {
+    const value = Number(rawValue);
+    if (!Number.isFinite(value) || value <= 0 || value >= 100) return;
+    setAnalysisState(prev => ({
+      ...prev,
+      rebalancing: { type: 'threshold', threshold: value / 100 },
+    }));
+  };
+
+  // Pesi normalizzati live: la somma inviata al backend è sempre 100%
+  const normalizedWeights = useMemo(
+    () => normalizeWeights(analysisState.tickers, analysisState.weights),
+    [analysisState.tickers, analysisState.weights]
+  );
+  const rawWeightsTotal = sumWeights(
+    analysisState.tickers,
+    analysisState.weights
+  );
 
   const addTicker = () => {
     if (!tickerInput.trim()) return;
@@ -67,50 +292,31 @@ export default function UnifiedInputSection() {
       .split(/[,\s]+/)
       .filter(s => s);
     const newSymbols = symbols.filter(
-      s => !validatedTickers.find(t => t.symbol === s)
+      (s, index) =>
+        !analysisState.tickers.includes(s) && symbols.indexOf(s) === index
     );
 
     if (newSymbols.length > 0) {
       setGlobalTickers([...analysisState.tickers, ...newSymbols]);
-
-      newSymbols.forEach(symbol => {
-        setValidatedTickers(prev => [
-          ...prev,
-          {
-            symbol,
-            name: 'Loading...',
-            status: 'loading',
-          },
-        ]);
-
-        setTimeout(() => {
-          setValidatedTickers(prev =>
-            prev.map(t =>
-              t.symbol === symbol
-                ? {
-                    symbol,
-                    name: `${symbol} Company`,
-                    status: Math.random() > 0.2 ? 'valid' : 'invalid',
-                    price: Math.random() * 500 + 50,
-                    change: (Math.random() - 0.5) * 10,
-                  }
-                : t
-            )
-          );
-        }, 1500);
-      });
     }
 
     setTickerInput('');
   };
 
   const removeTicker = (symbolToRemove: string) => {
-    setGlobalTickers(analysisState.tickers.filter(t => t !== symbolToRemove));
-    setValidatedTickers(prev => prev.filter(t => t.symbol !== symbolToRemove));
-  };
-
-  const handleFileUpload = () => {
-    console.log('File upload triggered');
+    setAnalysisState(prev => {
+      const { [symbolToRemove]: _removedWeight, ...weights } = prev.weights;
+      const { [symbolToRemove]: _removedShares, ...shares } = prev.shares;
+      return {
+        ...prev,
+        tickers: prev.tickers.filter(t => t !== symbolToRemove),
+        importedSeries: prev.importedSeries.filter(
+          series => series.symbol !== symbolToRemove
+        ),
+        weights,
+        shares,
+      };
+    });
   };
 
   const isAnalysisDisabled =
@@ -144,19 +350,86 @@ export default function UnifiedInputSection() {
                   <div
                     key={ticker.symbol}
                     className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-xs border ${
-                      ticker.status === 'valid'
-                        ? 'border-blue-500/30 bg-blue-500/5 text-blue-300'
-                        : ticker.status === 'invalid'
-                          ? 'border-red-500/30 bg-red-500/5 text-red-300'
-                          : 'border-yellow-500/30 bg-yellow-500/5 text-yellow-300'
+                      ticker.status === 'valid' &&
+                      analysisFailures.has(ticker.symbol)
+                        ? 'border-orange-500/30 bg-orange-500/5 text-orange-300'
+                        : ticker.status === 'valid'
+                          ? 'border-blue-500/30 bg-blue-500/5 text-blue-300'
+                          : ticker.status === 'invalid'
+                            ? 'border-red-500/30 bg-red-500/5 text-red-300'
+                            : 'border-yellow-500/30 bg-yellow-500/5 text-yellow-300'
                     }`}
                   >
-                    <span className="font-medium">{ticker.symbol}</span>
+                    <span
+                      className="font-medium"
+                      title={describeChip(
+                        ticker,
+                        analysisFailures.get(ticker.symbol)
+                      )}
+                    >
+                      {ticker.symbol}
+                    </span>
+                    {ticker.lastClose && (
+                      <span className="text-slate-400 tabular-nums">
+                        {ticker.lastClose.close.toFixed(2)}
+                        {ticker.info ? ` ${ticker.info.currency}` : ''}
+                        {ticker.lastClose.changePercent !== null && (
+                          <span
+                            className={cn(
+                              'ml-1',
+                              ticker.lastClose.changePercent >= 0
+                                ? 'text-green-400'
+                                : 'text-red-400'
+                            )}
+                          >
+                            {formatChange(ticker.lastClose.changePercent)}
+                          </span>
+                        )}
+                      </span>
+                    )}
                     {ticker.status === 'loading' && (
                       <div className="w-3 h-3 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />
                     )}
-                    {ticker.status === 'valid' && <CheckCircle size={12} />}
+                    {ticker.status === 'valid' &&
+                      (analysisFailures.has(ticker.symbol) ? (
+                        <AlertTriangle size={12} />
+                      ) : ticker.imported ? (
+                        <FileText size={12} />
+                      ) : (
+                        <CheckCircle size={12} />
+                      ))}
                     {ticker.status === 'invalid' && <AlertTriangle size={12} />}
+                    {analysisState.allocationMode !== 'equal' && (
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={
+                          (analysisState.allocationMode === 'shares'
+                            ? analysisState.shares[ticker.symbol]
+                            : analysisState.weights[ticker.symbol]) ?? ''
+                        }
+                        onChange={e =>
+                          setAllocationValue(ticker.symbol, e.target.value)
+                        }
+                        placeholder={
+                          analysisState.allocationMode === 'shares'
+                            ? 'Azioni'
+                            : '%'
+                        }
+                        aria-label={
+                          analysisState.allocationMode === 'shares'
+                            ? `Numero azioni ${ticker.symbol}`
+                            : `Peso ${ticker.symbol}`
+                        }
+                        className="w-16 px-1.5 py-0.5 bg-transparent border border-slate-700/50 rounded text-slate-200 text-xs focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    )}
+                    {analysisState.allocationMode === 'weights' && (
+                      <span className="text-slate-400 tabular-nums">
+                        {(normalizedWeights[ticker.symbol] ?? 0).toFixed(1)}%
+                      </span>
+                    )}
                     <button
                       onClick={() => removeTicker(ticker.symbol)}
                       className="hover:bg-white/10 rounded-full p-0.5 transition-colors"
@@ -167,6 +440,32 @@ export default function UnifiedInputSection() {
                   </div>
                 ))}
               </div>
+              {validatedTickers
+                .filter(t => t.status === 'invalid')
+                .map(ticker => (
+                  <p key={ticker.symbol} className="text-red-400 text-xs mt-2">
+                    {ticker.symbol}: {ticker.message ?? 'simbolo non valido'}
+                    {ticker.suggestions && ticker.suggestions.length > 0 && (
+                      <> — forse intendevi {ticker.suggestions.join(', ')}?</>
+                    )}
+                  </p>
+                ))}
+              {validatedTickers
+                .filter(
+                  t => t.status === 'valid' && analysisFailures.has(t.symbol)
+                )
+                .map(ticker => {
+                  const failure = analysisFailures.get(ticker.symbol);
+                  return (
+                    <p
+                      key={ticker.symbol}
+                      className="text-orange-400 text-xs mt-2"
+                    >
+                      {ticker.symbol} escluso dall'analisi:{' '}
+                      {failure?.detail ?? failure?.message}
+                    </p>
+                  );
+                })}
             </div>
           )}
 
@@ -180,9 +479,20 @@ export default function UnifiedInputSection() {
               onChange={e => setTickerInput(e.target.value)}
               onKeyPress={e => e.key === 'Enter' && addTicker()}
               placeholder="AAPL, MSFT, TSLA"
+              list="ticker-suggestions"
               className="flex-1 px-3 py-2.5 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 placeholder-slate-500 transition-all duration-200 text-sm"
               aria-describedby="ticker-help"
             />
+            <datalist id="ticker-suggestions">
+              {symbolMatches.map(match => (
+                <option
+                  key={match.symbol}
+                  value={`${typedPrefix}${match.symbol}`}
+                >
+                  {match.name} · {match.exchange}
+                </option>
+              ))}
+            </datalist>
             <button
               onClick={addTicker}
               disabled={!tickerInput.trim()}
@@ -196,6 +506,118 @@ export default function UnifiedInputSection() {
           </p>
         </div>
 
+        {/* Portfolio Allocation */}
+        <div className="space-y-3">
+          <label
+            htmlFor="allocation-mode-select"
+            className="text-slate-300 text-sm font-medium block"
+          >
+            Allocazione portafoglio
+          </label>
+          <Select
+            value={analysisState.allocationMode}
+            onValueChange={value => setAllocationMode(value as AllocationMode)}
+          >
+            <SelectTrigger
+              id="allocation-mode-select"
+              name="allocation-mode"
+              className="w-full px-3 py-2.5 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 transition-all duration-200 text-sm"
+            >
+              <SelectValue placeholder="Seleziona allocazione" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+              <SelectItem value="equal">Pesi uguali</SelectItem>
+              <SelectItem value="weights">Pesi personalizzati (%)</SelectItem>
+              <SelectItem value="shares">Numero di azioni</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {analysisState.allocationMode === 'weights' && (
+            <p
+              className={cn(
+                'text-xs',
+                Math.abs(rawWeightsTotal - 100) < 0.01
+                  ? 'text-slate-500'
+                  : 'text-yellow-400'
+              )}
+            >
+              Somma pesi inseriti: {rawWeightsTotal.toFixed(2)}% — i pesi
+              vengono normalizzati automaticamente a 100%
+            </p>
+          )}
+
+          {analysisState.allocationMode !== 'equal' && (
+            <div className="space-y-1.5">
+              <label
+                htmlFor="initial-capital-input"
+                className="text-slate-400 text-xs"
+              >
+                Capitale iniziale (opzionale)
+              </label>
+              <input
+                id="initial-capital-input"
+                name="initial-capital"
+                type="number"
+                min={0}
+                step="any"
+                value={analysisState.initialCapital ?? ''}
+                onChange={e => setInitialCapital(e.target.value)}
+                placeholder={
+                  analysisState.allocationMode === 'shares'
+                    ? 'Valore di mercato delle azioni'
+                    : '100'
+                }
+                className="w-full px-3 py-2.5 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 placeholder-slate-500 transition-all duration-200 text-sm"
+              />
+            </div>
+          )}
+
+          <label
+            htmlFor="rebalancing-select"
+            className="text-slate-400 text-xs block"
+          >
+            Ribilanciamento
+          </label>
+          <Select value={rebalancingValue} onValueChange={setRebalancing}>
+            <SelectTrigger
+              id="rebalancing-select"
+              name="rebalancing"
+              className="w-full px-3 py-2.5 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 transition-all duration-200 text-sm"
+            >
+              <SelectValue placeholder="Seleziona ribilanciamento" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+              <SelectItem value="buy-and-hold">Buy and hold</SelectItem>
+              <SelectItem value="calendar:monthly">Mensile</SelectItem>
+              <SelectItem value="calendar:quarterly">Trimestrale</SelectItem>
+              <SelectItem value="calendar:annual">Annuale</SelectItem>
+              <SelectItem value="threshold">Soglia di drift</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {analysisState.rebalancing.type === 'threshold' && (
+            <div className="space-y-1.5">
+              <label
+                htmlFor="rebalancing-threshold-input"
+                className="text-slate-400 text-xs"
+              >
+                Banda di drift (± punti percentuali)
+              </label>
+              <input
+                id="rebalancing-threshold-input"
+                name="rebalancing-threshold"
+                type="number"
+                min={0.1}
+                max={99}
+                step={0.5}
+                value={analysisState.rebalancing.threshold * 100}
+                onChange={e => setRebalancingThreshold(e.target.value)}
+                className="w-full px-3 py-2.5 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 placeholder-slate-500 transition-all duration-200 text-sm"
+              />
+            </div>
+          )}
+        </div>
+
         {/* Date Selection */}
         <div className="space-y-3">
           <label className="text-slate-300 text-sm font-medium block">
@@ -326,33 +748,104 @@ export default function UnifiedInputSection() {
           </Select>
         </div>
 
-        {/* File Upload */}
+        {/* Return Type Selection */}
         <div className="space-y-3">
           <label
-            htmlFor="file-upload-button"
+            htmlFor="return-type-select"
             className="text-slate-300 text-sm font-medium block"
           >
-            File CSV opzionale
+            Rendimento
           </label>
-          <button
-            id="file-upload-button"
-            name="file-upload"
-            onClick={handleFileUpload}
-            className="w-full py-4 px-4 border border-dashed border-slate-700/50 rounded-lg text-slate-500 hover:border-blue-500/50 hover:text-blue-400 transition-all duration-200 flex flex-col items-center justify-center gap-2 group bg-transparent"
+          <Select
+            value={analysisState.returnType}
+            onValueChange={value => setReturnType(value as ReturnMode)}
           >
-            <div className="w-6 h-6 rounded-full border border-slate-700 group-hover:border-blue-500/50 flex items-center justify-center transition-colors">
-              <Upload
-                size={14}
-                className="text-slate-500 group-hover:text-blue-400"
-              />
-            </div>
-            <div className="text-center">
-              <div className="text-sm">Drag and drop file here</div>
-              <div className="text-xs text-slate-600 mt-1">
-                Limit 200MB per file • CSV, XLS, XLSX
-              </div>
-            </div>
-          </button>
+            <SelectTrigger
+              id="return-type-select"
+              name="return-type"
+              className="w-full px-3 py-2.5 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 transition-all duration-200 text-sm"
+            >
+              <SelectValue placeholder="Seleziona tipo di rendimento" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+              <SelectItem value="total">
+                Totale (dividendi reinvestiti)
+              </SelectItem>
+              <SelectItem value="price">Solo prezzo</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Benchmark Selection */}
+        <div className="space-y-3">
+          <label
+            htmlFor="benchmark-select"
+            className="text-slate-300 text-sm font-medium block"
+          >
+            Benchmark
+          </label>
+          <Select value={analysisState.benchmark} onValueChange={setBenchmark}>
+            <SelectTrigger
+              id="benchmark-select"
+              name="benchmark"
+              className="w-full px-3 py-2.5 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 transition-all duration-200 text-sm"
+            >
+              <SelectValue placeholder="Seleziona benchmark" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+              {BENCHMARK_OPTIONS.map(option => (
+                <SelectItem key={option.symbol} value={option.symbol}>
+                  {option.label} ({option.symbol})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Correlation Method Selection */}
+        <div className="space-y-3">
+          <label
+            htmlFor="correlation-method-select"
+            className="text-slate-300 text-sm font-medium block"
+          >
+            Correlazione
+          </label>
+          <Select
+            value={analysisState.correlationMethod}
+            onValueChange={value =>
+              setCorrelationMethod(value as CorrelationMethod)
+            }
+          >
+            <SelectTrigger
+              id="correlation-method-select"
+              name="correlation-method"
+              className="w-full px-3 py-2.5 bg-transparent border border-slate-700/50 rounded-lg focus:ring-1 focus:ring-blue-500 focus:border-blue-500 text-slate-200 transition-all duration-200 text-sm"
+            >
+              <SelectValue placeholder="Seleziona metodo di correlazione" />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-900 border-slate-700 text-slate-200">
+              {CORRELATION_OPTIONS.map(option => (
+                <SelectItem key={option.method} value={option.method}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* File Upload */}
+        <div className="space-y-3">
+          <label
+            htmlFor="file-input"
+            className="text-slate-300 text-sm font-medium block"
+          >
+            Storico prezzi da file (opzionale)
+          </label>
+          <p className="text-slate-500 text-xs">
+            Le serie importate vengono analizzate insieme ai ticker (o al loro
+            posto)
+          </p>
+          <DataUploadSection />
         </div>
 
         {/* Action Button */}
@@ -366,6 +859,9 @@ export default function UnifiedInputSection() {
           >
             {analysisState.isLoading ? 'Analisi in corso...' : 'Avvia Analisi'}
           </button>
+          <div className="mt-3">
+            <AnalysisProgressPanel />
+          </div>
         </div>
       </div>
     </div>
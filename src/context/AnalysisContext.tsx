@@ -8,8 +8,17 @@ import {
 } from 'react';
 import {
   AnalysisApiResponse,
+  AnalysisProgressEvent,
+  ApiError,
+  ApiErrorInfo,
+  CorrelationMethod,
+  ImportedSeries,
+  RebalancingPolicy,
+  ReturnMode,
   fetchAnalysisData,
 } from '../services/analysisAPI';
+import type { OptimizationObjective } from '../services/AlgorithmOptimizationEngine';
+import { AllocationMode, normalizeWeights } from '../utils/portfolioWeights';
 
 // Definizione dei tipi
 interface AnalysisInputState {
@@ -17,7 +26,31 @@ interface AnalysisInputState {
   startDate: string;
   endDate: string;
   frequency: 'daily' | 'weekly' | 'monthly';
-  csvFile?: File | undefined;
+  // Storici prezzi importati da CSV/XLSX (i simboli sono anche in tickers)
+  importedSeries: ImportedSeries[];
+  // Allocazione del portafoglio: pesi uguali, pesi % o numero di azioni
+  allocationMode: AllocationMode;
+  weights: Record<string, number>;
+  shares: Record<string, number>;
+  initialCapital?: number | undefined;
+  rebalancing: RebalancingPolicy;
+  // Rendimento di prezzo o totale (con dividendi)
+  returnType: ReturnMode;
+  // Indice di riferimento per il confronto performance
+  benchmark: string;
+  // Coefficiente delle correlazioni (Pearson, Spearman o Kendall)
+  correlationMethod: CorrelationMethod;
+  // File CSV dei fattori per le regressioni multifattoriali
+  factorFile?: { name: string; content: string } | undefined;
+  // Obiettivo e vincoli dell'ottimizzazione media-varianza (calcolata lato client)
+  optimization: OptimizationSettings;
+}
+
+export interface OptimizationSettings {
+  objective: OptimizationObjective;
+  targetReturn: number; // annuo, decimale
+  minWeight: number; // decimale, 0 = long-only
+  maxWeight: number;
 }
 
 // Espandiamo lo stato per includere i risultati, lo stato di caricamento e gli errori
@@ -25,6 +58,10 @@ interface AnalysisState extends AnalysisInputState {
   analysisResults: AnalysisApiResponse | null;
   isLoading: boolean;
   error: string | null;
+  // Classificazione dell'errore del backend (azioni, attesa, ticker falliti)
+  errorDetails: ApiErrorInfo | null;
+  // Ultimo evento di progresso del job di analisi in corso
+  progress: AnalysisProgressEvent | null;
 }
 
 // Helper per formattare le date
@@ -40,17 +77,36 @@ const initialState: AnalysisState = {
   ), // Un mese fa
   endDate: formatDate(new Date()), // Oggi
   frequency: 'daily',
-  csvFile: undefined,
+  importedSeries: [],
+  allocationMode: 'equal',
+  weights: {},
+  shares: {},
+  initialCapital: undefined,
+  rebalancing: { type: 'buy-and-hold' },
+  returnType: 'total',
+  benchmark: '^GSPC',
+  correlationMethod: 'pearson',
+  factorFile: undefined,
+  optimization: {
+    objective: 'max-sharpe',
+    targetReturn: 0.1,
+    minWeight: 0,
+    maxWeight: 1,
+  },
   analysisResults: null,
   isLoading: false,
   error: null,
+  errorDetails: null,
+  progress: null,
 };
 
 // Tipo per il valore del contesto
 interface AnalysisContextType {
   analysisState: AnalysisState;
   setAnalysisState: React.Dispatch<React.SetStateAction<AnalysisState>>;
-  startAnalysis: () => void;
+  // Risolve a true se l'analisi è stata completata
+  startAnalysis: () => Promise<boolean>;
+  cancelAnalysis: () => void;
   setTickers: (tickers: string[]) => void;
   setStartDate: (date: Date | undefined) => void;
   setEndDate: (date: Date | undefined) => void;
@@ -69,6 +125,8 @@ export const AnalysisProvider = ({ children }: { children: ReactNode }) => {
 
   // Ref per prevenire chiamate multiple
   const isAnalysisRunning = useRef(false);
+  // Annullamento del job in corso
+  const analysisAbort = useRef<AbortController | null>(null);
 
   useEffect(() => {
     const now = new Date().toISOString();
@@ -101,15 +159,30 @@ export const AnalysisProvider = ({ children }: { children: ReactNode }) => {
     setAnalysisState(prev => ({ ...prev, frequency }));
   };
 
-  const startAnalysis = async () => {
+  const startAnalysis = async (): Promise<boolean> => {
     // Prevenire chiamate multiple
     if (isAnalysisRunning.current) {
       console.log('🚫 Analisi già in corso, ignoro chiamata multipla');
-      return;
+      return false;
     }
 
     // Validazione parametri
-    const { tickers, startDate, endDate, frequency } = analysisState;
+    const {
+      tickers,
+      startDate,
+      endDate,
+      frequency,
+      allocationMode,
+      weights,
+      shares,
+      initialCapital,
+      rebalancing,
+      returnType,
+      benchmark,
+      correlationMethod,
+      factorFile,
+      importedSeries,
+    } = analysisState;
 
     // Validazione base
     if (!tickers?.length) {
@@ -117,8 +190,9 @@ export const AnalysisProvider = ({ children }: { children: ReactNode }) => {
         ...prev,
         error: 'Seleziona almeno un ticker',
         isLoading: false,
+        errorDetails: null,
       }));
-      return;
+      return false;
     }
 
     // Validazione date
@@ -136,8 +210,9 @@ export const AnalysisProvider = ({ children }: { children: ReactNode }) => {
         endDate: currentEndDate,
         error: 'Date mancanti, impostate automaticamente',
         isLoading: false,
+        errorDetails: null,
       }));
-      return;
+      return false;
     }
 
     const start = new Date(currentStartDate);
@@ -151,8 +226,9 @@ export const AnalysisProvider = ({ children }: { children: ReactNode }) => {
         endDate: todayStr,
         error: 'La data di fine è stata impostata a oggi',
         isLoading: false,
+        errorDetails: null,
       }));
-      return;
+      return false;
     }
 
     if (start > end) {
@@ -165,33 +241,80 @@ export const AnalysisProvider = ({ children }: { children: ReactNode }) => {
         startDate: startStr,
         error: 'La data di inizio è stata corretta',
         isLoading: false,
+        errorDetails: null,
       }));
-      return;
+      return false;
     }
 
     isAnalysisRunning.current = true;
+    const controller = new AbortController();
+    analysisAbort.current = controller;
 
     setAnalysisState(prevState => ({
       ...prevState,
       isLoading: true,
       error: null,
+      errorDetails: null,
+      progress: null,
       analysisResults: null, // Pulisce i risultati precedenti
     }));
 
     try {
+      // I pesi vengono normalizzati a 100% prima dell'invio
+      const allocation = {
+        ...(allocationMode === 'weights' && {
+          weights: normalizeWeights(tickers, weights),
+        }),
+        ...(allocationMode === 'shares' && {
+          shares: Object.fromEntries(
+            tickers.map(ticker => [ticker, Number(shares[ticker]) || 0])
+          ),
+        }),
+        ...(allocationMode !== 'equal' &&
+          initialCapital !== undefined && { initialCapital }),
+      };
+
       console.log('🚀 Avvio analisi con parametri:', {
         tickers,
         startDate: currentStartDate,
         endDate: currentEndDate,
         frequency,
+        ...allocation,
+        rebalancing,
+        returnType,
+        benchmark,
+        correlationMethod,
+        factorFile: factorFile?.name,
+        importedSeries: importedSeries.map(series => series.symbol),
       });
 
-      const results = await fetchAnalysisData({
-        tickers,
-        startDate: currentStartDate,
-        endDate: currentEndDate,
-        frequency,
-      });
+      // Solo le serie dei ticker ancora selezionati
+      const selectedImports = importedSeries.filter(series =>
+        tickers.includes(series.symbol)
+      );
+
+      const results = await fetchAnalysisData(
+        {
+          tickers,
+          startDate: currentStartDate,
+          endDate: currentEndDate,
+          frequency,
+          ...allocation,
+          rebalancing,
+          returnType,
+          benchmark,
+          correlationConfig: { method: correlationMethod },
+          ...(factorFile && { factorData: factorFile.content }),
+          ...(selectedImports.length > 0 && {
+            importedSeries: selectedImports,
+          }),
+        },
+        {
+          signal: controller.signal,
+          onProgress: progress =>
+            setAnalysisState(prevState => ({ ...prevState, progress })),
+        }
+      );
 
       // Validazione risultati prima di salvarli
       if (!results || typeof results !== 'object') {
@@ -217,6 +340,7 @@ export const AnalysisProvider = ({ children }: { children: ReactNode }) => {
         correlation:
           results.correlation && typeof results.correlation === 'object'
             ? {
+                ...results.correlation,
                 correlationMatrix: results.correlation.correlationMatrix || {
                   symbols: [],
                   matrix: [],
@@ -233,10 +357,25 @@ export const AnalysisProvider = ({ children }: { children: ReactNode }) => {
         ...prevState,
         analysisResults: validatedResults,
         isLoading: false,
+        progress: null,
       }));
 
       console.log('✅ Analisi completata con successo');
+      return true;
     } catch (err) {
+      if (controller.signal.aborted) {
+        console.log('⏹️ Analisi annullata');
+        setAnalysisState(prevState => ({
+          ...prevState,
+          isLoading: false,
+          error:
+            "Analisi annullata. Avvia di nuovo l'analisi per vedere i risultati.",
+          errorDetails: null,
+          progress: null,
+        }));
+        return false;
+      }
+
       const errorMessage =
         err instanceof Error ? err.message : 'Si è verificato un errore';
       console.error("❌ Errore durante l'analisi:", errorMessage);
@@ -245,18 +384,27 @@ export const AnalysisProvider = ({ children }: { children: ReactNode }) => {
         ...prevState,
         isLoading: false,
         error: errorMessage,
+        errorDetails: err instanceof ApiError ? err.info : null,
+        progress: null,
       }));
+      return false;
     } finally {
       isAnalysisRunning.current = false;
+      analysisAbort.current = null;
     }
   };
 
+  const cancelAnalysis = () => {
+    analysisAbort.current?.abort();
+  };
+
   return (
     <AnalysisContext.Provider
       value={{
         analysisState,
         setAnalysisState,
         startAnalysis,
+        cancelAnalysis,
         setTickers,
         setStartDate,
         setEndDate,
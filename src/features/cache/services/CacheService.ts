@@ -1,2 +1,205 @@
-// ATTENZIONE: Stub temporaneo per far passare i test. Implementare la logica reale!
-export class CacheService {}
+/**
+ * Cache Service per STUDENT ANALYST
+ *
+ * Cache client a tre livelli davanti alle chiamate al backend:
+ * L1 memoria → L2 localStorage → L3 IndexedDB. Una lettura scende i livelli
+ * finché trova la voce e la ricopia in quelli superiori; una scrittura va in
+ * tutti i livelli che la possono contenere. Le richieste concorrenti per la
+ * stessa chiave condividono un solo fetch. Il monitoraggio della quota libera
+ * spazio quando lo storage si riempie e la pulizia giornaliera rimuove le voci
+ * scadute; le metriche di hit rate sono nel CacheAnalyticsEngine.
+ */
+
+import AutomaticCleanupService, {
+  type CleanupResult,
+} from '@/services/AutomaticCleanupService';
+import CacheAnalyticsEngine, {
+  type CacheMetrics,
+} from '@/services/CacheAnalyticsEngine';
+import IndexedDBCacheL3 from '@/services/IndexedDBCacheL3';
+import LocalStorageCacheL2, {
+  type LocalStorageCacheStats,
+} from '@/services/LocalStorageCacheL2';
+import MemoryCacheL1, { type MemoryCacheStats } from '@/services/MemoryCacheL1';
+import StorageMonitoringService, {
+  type StorageHealth,
+} from '@/services/StorageMonitoringService';
+import type { CacheTierStats } from '@/services/interfaces/ICacheTier';
+
+// ========== INTERFACCE ==========
+
+export interface CacheSetOptions {
+  ttl?: number; // ms, uguale per tutti i livelli
+}
+
+export interface CacheServiceStats {
+  metrics: CacheMetrics;
+  l1: MemoryCacheStats;
+  l2: LocalStorageCacheStats;
+  l3: CacheTierStats;
+  health: StorageHealth;
+  lastCleanup: CleanupResult | null;
+}
+
+export interface CacheServiceDependencies {
+  l1?: MemoryCacheL1;
+  l2?: LocalStorageCacheL2;
+  l3?: IndexedDBCacheL3;
+  analytics?: CacheAnalyticsEngine;
+  monitoring?: StorageMonitoringService;
+  cleanup?: AutomaticCleanupService;
+}
+
+// ========== CLASSE ==========
+
+export class CacheService {
+  public readonly l1: MemoryCacheL1;
+  public readonly l2: LocalStorageCacheL2;
+  public readonly l3: IndexedDBCacheL3;
+  public readonly analytics: CacheAnalyticsEngine;
+  public readonly monitoring: StorageMonitoringService;
+  public readonly cleanup: AutomaticCleanupService;
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private unsubscribeHealth: (() => void) | null = null;
+
+  constructor(dependencies: CacheServiceDependencies = {}) {
+    this.l1 = dependencies.l1 ?? new MemoryCacheL1();
+    this.l2 = dependencies.l2 ?? new LocalStorageCacheL2();
+    this.l3 = dependencies.l3 ?? new IndexedDBCacheL3();
+    this.analytics = dependencies.analytics ?? new CacheAnalyticsEngine();
+    this.monitoring = dependencies.monitoring ?? new StorageMonitoringService();
+    this.cleanup =
+      dependencies.cleanup ??
+      new AutomaticCleanupService(this.l1, this.l2, this.l3);
+  }
+
+  /** Avvia monitoraggio della quota e pulizia giornaliera */
+  public start(): void {
+    if (this.unsubscribeHealth) return;
+
+    this.unsubscribeHealth = this.monitoring.onHealthChange(health => {
+      if (health.overall === 'critical') void this.freeSpace();
+    });
+    this.monitoring.startMonitoring();
+    void this.monitoring.forceHealthCheck();
+    // L'errore è già registrato dal servizio: la cache funziona anche senza
+    this.cleanup.initialize().catch(() => undefined);
+  }
+
+  public stop(): void {
+    this.unsubscribeHealth?.();
+    this.unsubscribeHealth = null;
+    this.monitoring.stopMonitoring();
+    this.cleanup.shutdown();
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    const fromL1 = this.l1.get<T>(key);
+    if (fromL1 !== null) {
+      this.analytics.trackCacheHit(key, 'l1');
+      this.cleanup.trackDataAccess(key, 'L1');
+      return fromL1;
+    }
+
+    const fromL2 = this.l2.get<T>(key);
+    if (fromL2 !== null) {
+      this.analytics.trackCacheHit(key, 'l2');
+      this.cleanup.trackDataAccess(key, 'L2');
+      this.l1.set(key, fromL2);
+      return fromL2;
+    }
+
+    const fromL3 = await this.l3.get<T>(key);
+    if (fromL3 !== null) {
+      this.analytics.trackCacheHit(key, 'l3');
+      this.cleanup.trackDataAccess(key, 'L3');
+      this.l1.set(key, fromL3);
+      this.l2.set(key, fromL3);
+      return fromL3;
+    }
+
+    this.analytics.trackCacheMiss(key);
+    return null;
+  }
+
+  public async set(
+    key: string,
+    value: unknown,
+    options: CacheSetOptions = {}
+  ): Promise<void> {
+    this.l1.set(key, value, options.ttl);
+    // Le voci troppo grandi per localStorage restano solo in L1/L3
+    this.l2.set(key, value, options.ttl);
+    await this.l3.set(key, value, options.ttl);
+    (['L1', 'L2', 'L3'] as const).forEach(layer =>
+      this.cleanup.trackDataAccess(key, layer)
+    );
+  }
+
+  /**
+   * Valore dalla cache o, se assente, dal fetcher (poi salvato). Le chiamate
+   * concorrenti con la stessa chiave attendono lo stesso fetch; gli errori non
+   * vengono messi in cache.
+   */
+  public async getOrFetch<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    options: CacheSetOptions = {}
+  ): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = (async () => {
+      const cached = await this.get<T>(key);
+      if (cached !== null) return cached;
+
+      const value = await fetcher();
+      await this.set(key, value, options);
+      return value;
+    })().finally(() => {
+      this.inFlight.delete(key);
+    });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  public async delete(key: string): Promise<void> {
+    this.l1.remove(key);
+    this.l2.delete(key);
+    await this.l3.delete(key);
+  }
+
+  public async clear(): Promise<void> {
+    this.l1.clear();
+    this.l2.clear();
+    await this.l3.clear();
+    this.analytics.reset();
+  }
+
+  public async getStats(): Promise<CacheServiceStats> {
+    const history = this.cleanup.getCleanupHistory();
+    return {
+      metrics: this.analytics.getMetrics(),
+      l1: this.l1.getStats(),
+      l2: this.l2.getStats(),
+      l3: await this.l3.getStats(),
+      health: this.monitoring.getStorageHealth(),
+      lastCleanup: history[history.length - 1] ?? null,
+    };
+  }
+
+  // Quota quasi esaurita: via le voci scadute, poi metà dei livelli persistenti
+  private async freeSpace(): Promise<void> {
+    this.l2.cleanup();
+    await this.l3.cleanup();
+    await this.cleanup.performLRUCleanup('L2', 0.5);
+    await this.cleanup.performLRUCleanup('L3', 0.5);
+    await this.monitoring.forceHealthCheck();
+  }
+}
+
+/** Istanza condivisa dall'applicazione */
+export const cacheService = new CacheService();
+
+export default CacheService;
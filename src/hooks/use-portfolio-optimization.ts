@@ -0,0 +1,150 @@
+import { useAnalysis } from '@/context/AnalysisContext';
+import AlgorithmOptimizationEngine, {
+  type EfficientFrontier,
+  type FrontierPoint,
+  type OptimizationInput,
+  type OptimizedPortfolio,
+} from '@/services/AlgorithmOptimizationEngine';
+import type { AnalysisApiResponse } from '@/services/analysisAPI';
+import { useEffect, useMemo, useState } from 'react';
+
+// Istanza condivisa: frontiera e pesi ottimali riusano la stessa covarianza in cache
+const engine = new AlgorithmOptimizationEngine();
+
+const PERIODS_PER_YEAR: Record<string, number> = {
+  daily: 252,
+  weekly: 52,
+  monthly: 12,
+};
+
+const PRICE_LABEL_SUFFIX = ' - Prezzo';
+
+export interface PortfolioOptimizationResult {
+  frontier: EfficientFrontier;
+  selected: OptimizedPortfolio;
+  current: FrontierPoint | null; // allocazione usata nell'analisi
+  targetClamped: boolean; // obiettivo oltre il massimo raggiungibile
+}
+
+/**
+ * Rendimenti periodali dei titoli sulle date in cui tutti hanno un prezzo
+ */
+function buildOptimizationInput(
+  results: AnalysisApiResponse | null
+): Omit<OptimizationInput, 'constraints'> | null {
+  if (!results) return null;
+
+  const priceSets = results.historicalData.datasets.filter(dataset =>
+    dataset.label.endsWith(PRICE_LABEL_SUFFIX)
+  );
+  if (priceSets.length < 2) return null;
+
+  const symbols = priceSets.map(dataset =>
+    dataset.label.slice(0, -PRICE_LABEL_SUFFIX.length)
+  );
+  const rows = results.historicalData.labels
+    .map((_, i) => priceSets.map(dataset => dataset.data[i]))
+    .filter((row): row is number[] =>
+      row.every(price => typeof price === 'number' && price > 0)
+    );
+
+  const returns = symbols.map((_, k) =>
+    rows.slice(1).map((row, i) => row[k]! / rows[i]![k]! - 1)
+  );
+
+  return {
+    symbols,
+    returns,
+    periodsPerYear: PERIODS_PER_YEAR[results.metadata?.frequency ?? ''] ?? 252,
+  };
+}
+
+/**
+ * Frontiera efficiente e portafoglio ottimale secondo obiettivo e vincoli
+ * scelti nel contesto; ricalcolati lato client a ogni modifica
+ */
+export function usePortfolioOptimization() {
+  const { analysisState } = useAnalysis();
+  const { analysisResults, optimization } = analysisState;
+  const [result, setResult] = useState<PortfolioOptimizationResult | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+
+  const baseInput = useMemo(
+    () => buildOptimizationInput(analysisResults),
+    [analysisResults]
+  );
+  const currentWeights = analysisResults?.portfolio?.weights ?? null;
+
+  useEffect(() => {
+    if (!baseInput) {
+      setResult(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const input: OptimizationInput = {
+      ...baseInput,
+      constraints: {
+        minWeight: optimization.minWeight,
+        maxWeight: optimization.maxWeight,
+      },
+    };
+
+    const run = async () => {
+      setIsComputing(true);
+      try {
+        const frontier = await engine.efficientFrontier(input);
+        const target = Math.min(
+          optimization.targetReturn,
+          frontier.returnRange.max
+        );
+        const selected =
+          optimization.objective === 'min-variance'
+            ? frontier.minimumVariance
+            : optimization.objective === 'max-sharpe'
+              ? frontier.maximumSharpe
+              : await engine.targetReturn(input, target);
+        const current = currentWeights
+          ? await engine.evaluateWeights(input, currentWeights)
+          : null;
+
+        if (!cancelled) {
+          setResult({
+            frontier,
+            selected,
+            current,
+            targetClamped:
+              optimization.objective === 'target-return' &&
+              target < optimization.targetReturn,
+          });
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setResult(null);
+          setError(
+            err instanceof Error ? err.message : 'Errore di ottimizzazione'
+          );
+        }
+      } finally {
+        if (!cancelled) setIsComputing(false);
+      }
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [baseInput, currentWeights, optimization]);
+
+  return {
+    result,
+    error,
+    isComputing,
+    hasData: baseInput !== null,
+  };
+}
@@ -0,0 +1,763 @@
+/**
+ * Algorithm Optimization Engine per STUDENT ANALYST
+ *
+ * Ottimizzazione media-varianza lato client: matrice di covarianza con cache
+ * (TTL e metriche), portafogli a varianza minima, a Sharpe massimo e a
+ * rendimento obiettivo con vincoli long-only e di box sui pesi, frontiera
+ * efficiente campionata.
+ */
+
+// ========== INTERFACCE ==========
+
+export interface EngineMetrics {
+  cacheHitRate: number; // hit / (hit + miss)
+  averageComputeTime: number; // ms per calcolo eseguito
+  totalOperations: number; // calcoli eseguiti (cache miss)
+  memoryUsage: number; // byte stimati delle matrici in cache
+}
+
+export type OptimizationObjective =
+  | 'min-variance'
+  | 'max-sharpe'
+  | 'target-return';
+
+export interface WeightConstraints {
+  minWeight?: number; // default 0 (long-only)
+  maxWeight?: number; // default 1
+  bounds?: Record<string, { min?: number; max?: number }>; // per singolo titolo
+}
+
+export interface OptimizationInput {
+  symbols: string[];
+  returns: number[][]; // rendimenti periodali, una serie per titolo
+  periodsPerYear: number;
+  riskFreeRate?: number;
+  constraints?: WeightConstraints;
+}
+
+export interface OptimizedPortfolio {
+  objective: OptimizationObjective;
+  weights: Record<string, number>;
+  expectedReturn: number; // annualizzato
+  volatility: number; // annualizzata
+  sharpeRatio: number;
+}
+
+export interface FrontierPoint {
+  expectedReturn: number;
+  volatility: number;
+  sharpeRatio: number;
+  weights: Record<string, number>;
+}
+
+export interface EfficientFrontier {
+  points: FrontierPoint[];
+  minimumVariance: OptimizedPortfolio;
+  maximumSharpe: OptimizedPortfolio;
+  assets: Array<{ symbol: string; expectedReturn: number; volatility: number }>;
+  returnRange: { min: number; max: number }; // rendimenti obiettivo raggiungibili
+  riskFreeRate: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  timestamp: number;
+}
+
+/** Modello annualizzato su cui lavora l'ottimizzatore */
+interface MeanVarianceModel {
+  symbols: string[];
+  mu: number[];
+  covariance: number[][];
+  lower: number[];
+  upper: number[];
+  riskFreeRate: number;
+}
+
+// ========== COSTANTI ==========
+
+export const DEFAULT_RISK_FREE_RATE = 0.02; // 2% annuo, come nel backend
+
+export const DEFAULT_FRONTIER_POINTS = 25;
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const MAX_ACTIVE_SET_ITERATIONS = 200;
+const BOUND_TOLERANCE = 1e-12;
+const MULTIPLIER_TOLERANCE = 1e-12;
+const TARGET_TOLERANCE = 1e-6;
+const MAX_LAMBDA = 1e6;
+
+// ========== ENGINE ==========
+
+export class AlgorithmOptimizationEngine {
+  private covarianceCache = new Map<string, CacheEntry<number[][]>>();
+  private memoCache = new Map<
+    (...args: never[]) => unknown,
+    Map<string, CacheEntry<unknown>>
+  >();
+  private cacheHits = 0;
+  private cacheMisses = 0;
+  private totalOperations = 0;
+  private totalComputeTime = 0;
+
+  /**
+   * Metriche correnti (nuovo oggetto a ogni chiamata)
+   */
+  getMetrics(): EngineMetrics {
+    const lookups = this.cacheHits + this.cacheMisses;
+    let memoryUsage = 0;
+    this.covarianceCache.forEach(({ value }) => {
+      memoryUsage += value.length * value.length * 8;
+    });
+
+    return {
+      cacheHitRate: lookups > 0 ? this.cacheHits / lookups : 0,
+      averageComputeTime:
+        this.totalOperations > 0
+          ? this.totalComputeTime / this.totalOperations
+          : 0,
+      totalOperations: this.totalOperations,
+      memoryUsage,
+    };
+  }
+
+  /**
+   * Svuota le cache (le metriche cumulative restano)
+   */
+  clearCaches(): void {
+    this.covarianceCache.clear();
+    this.memoCache.clear();
+  }
+
+  /**
+   * Esegue `fn(...args)` memorizzando il risultato per funzione e argomenti
+   */
+  memoize<TArgs extends unknown[], TResult>(
+    fn: (...args: TArgs) => TResult,
+    ...args: TArgs
+  ): TResult {
+    const key = JSON.stringify(args);
+    let cache = this.memoCache.get(fn as (...args: never[]) => unknown);
+    if (!cache) {
+      cache = new Map();
+      this.memoCache.set(fn as (...args: never[]) => unknown, cache);
+    }
+
+    const cached = this.readCache(cache, key);
+    if (cached) return cached.value as TResult;
+
+    const start = performance.now();
+    const value = fn(...args);
+    this.recordComputation(performance.now() - start);
+    cache.set(key, { value, timestamp: Date.now() });
+    return value;
+  }
+
+  /**
+   * Matrice di covarianza campionaria (non annualizzata) tra le serie.
+   * Serie di lunghezza diversa vengono confrontate sul tratto finale comune.
+   */
+  async calculateOptimizedCovariance(returns: number[][]): Promise<number[][]> {
+    if (returns.length === 0) return [];
+
+    const key = JSON.stringify(returns);
+    const cached = this.readCache(this.covarianceCache, key);
+    if (cached) return cached.value;
+
+    const start = performance.now();
+    const matrix = returns.map(() => new Array<number>(returns.length).fill(0));
+    returns.forEach((series, i) => {
+      for (let j = i; j < returns.length; j++) {
+        const value = sampleCovariance(series, returns[j]!);
+        matrix[i]![j] = i === j ? Math.max(value, 0) : value;
+        matrix[j]![i] = matrix[i]![j]!;
+      }
+    });
+    this.recordComputation(performance.now() - start);
+
+    this.covarianceCache.set(key, { value: matrix, timestamp: Date.now() });
+    return matrix;
+  }
+
+  /**
+   * Portafoglio a varianza minima
+   */
+  async minimumVariance(input: OptimizationInput): Promise<OptimizedPortfolio> {
+    const model = await this.buildModel(input);
+    const weights = solveMeanVariance(model, 0);
+    return toPortfolio(model, 'min-variance', weights);
+  }
+
+  /**
+   * Portafoglio a Sharpe massimo (tangente) rispetto al tasso risk-free
+   */
+  async maximumSharpe(input: OptimizationInput): Promise<OptimizedPortfolio> {
+    const model = await this.buildModel(input);
+    const weights = findMaximumSharpe(model, DEFAULT_FRONTIER_POINTS);
+    return toPortfolio(model, 'max-sharpe', weights);
+  }
+
+  /**
+   * Portafoglio a varianza minima con rendimento annuo pari a `targetReturn`
+   */
+  async targetReturn(
+    input: OptimizationInput,
+    targetReturn: number
+  ): Promise<OptimizedPortfolio> {
+    const model = await this.buildModel(input);
+    const range = achievableReturns(model);
+
+    if (targetReturn > range.max + TARGET_TOLERANCE) {
+      throw new Error(
+        `Rendimento obiettivo non raggiungibile con i vincoli: massimo ${(range.max * 100).toFixed(2)}%`
+      );
+    }
+
+    const weights = solveForTarget(model, Math.max(targetReturn, range.min));
+    return toPortfolio(model, 'target-return', weights);
+  }
+
+  /**
+   * Frontiera efficiente campionata tra il portafoglio a varianza minima e
+   * quello a rendimento massimo
+   */
+  async efficientFrontier(
+    input: OptimizationInput,
+    pointCount: number = DEFAULT_FRONTIER_POINTS
+  ): Promise<EfficientFrontier> {
+    const model = await this.buildModel(input);
+    const range = achievableReturns(model);
+    const count = Math.max(2, Math.round(pointCount));
+
+    let warmStart: number[] | undefined;
+    const points: FrontierPoint[] = [];
+    for (let i = 0; i < count; i++) {
+      const target = range.min + ((range.max - range.min) * i) / (count - 1);
+      warmStart = solveForTarget(model, target, warmStart);
+      const { objective: _objective, ...point } = toPortfolio(
+        model,
+        'target-return',
+        warmStart
+      );
+      points.push(point);
+    }
+
+    return {
+      points,
+      minimumVariance: toPortfolio(
+        model,
+        'min-variance',
+        solveMeanVariance(model, 0)
+      ),
+      maximumSharpe: toPortfolio(
+        model,
+        'max-sharpe',
+        findMaximumSharpe(model, count)
+      ),
+      assets: model.symbols.map((symbol, i) => ({
+        symbol,
+        expectedReturn: model.mu[i]!,
+        volatility: Math.sqrt(model.covariance[i]![i]!),
+      })),
+      returnRange: range,
+      riskFreeRate: model.riskFreeRate,
+    };
+  }
+
+  /**
+   * Rendimento, volatilità e Sharpe annualizzati di pesi assegnati
+   * (es. l'allocazione corrente del portafoglio)
+   */
+  async evaluateWeights(
+    input: OptimizationInput,
+    weights: Record<string, number>
+  ): Promise<FrontierPoint> {
+    const model = await this.buildModel({ ...input, constraints: {} });
+    const vector = model.symbols.map(symbol => weights[symbol] ?? 0);
+    const { objective: _objective, ...point } = toPortfolio(
+      model,
+      'target-return',
+      vector
+    );
+    return point;
+  }
+
+  // ========== FUNZIONI PRIVATE ==========
+
+  private readCache<T>(
+    cache: Map<string, CacheEntry<T>>,
+    key: string
+  ): CacheEntry<T> | null {
+    const entry = cache.get(key);
+    if (entry && Date.now() - entry.timestamp <= CACHE_TTL_MS) {
+      this.cacheHits++;
+      return entry;
+    }
+    if (entry) cache.delete(key);
+    this.cacheMisses++;
+    return null;
+  }
+
+  private recordComputation(elapsed: number): void {
+    this.totalOperations++;
+    this.totalComputeTime += elapsed;
+  }
+
+  private async buildModel(
+    input: OptimizationInput
+  ): Promise<MeanVarianceModel> {
+    const { symbols, returns, periodsPerYear } = input;
+
+    if (symbols.length < 2 || returns.length !== symbols.length) {
+      throw new Error("Servono almeno due titoli per l'ottimizzazione");
+    }
+    if (returns.some(series => series.length < 2)) {
+      throw new Error('Dati insufficienti per stimare medie e covarianze');
+    }
+
+    const covariance = (await this.calculateOptimizedCovariance(returns)).map(
+      row => row.map(value => value * periodsPerYear)
+    );
+    const mu = returns.map(
+      series =>
+        (series.reduce((sum, value) => sum + value, 0) / series.length) *
+        periodsPerYear
+    );
+    const { lower, upper } = resolveBounds(symbols, input.constraints);
+
+    return {
+      symbols,
+      mu,
+      covariance,
+      lower,
+      upper,
+      riskFreeRate: input.riskFreeRate ?? DEFAULT_RISK_FREE_RATE,
+    };
+  }
+}
+
+// ========== FUNZIONI DI SUPPORTO ==========
+
+function sampleCovariance(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length < 2) return 0;
+
+  // Traslazione sul primo valore: serie costanti danno esattamente 0
+  const offsetA = a.length - length;
+  const offsetB = b.length - length;
+  const shiftA = a[offsetA]!;
+  const shiftB = b[offsetB]!;
+
+  let sumA = 0;
+  let sumB = 0;
+  let sumAB = 0;
+  for (let k = 0; k < length; k++) {
+    const x = a[offsetA + k]! - shiftA;
+    const y = b[offsetB + k]! - shiftB;
+    sumA += x;
+    sumB += y;
+    sumAB += x * y;
+  }
+  return (sumAB - (sumA * sumB) / length) / (length - 1);
+}
+
+function resolveBounds(
+  symbols: string[],
+  constraints: WeightConstraints = {}
+): { lower: number[]; upper: number[] } {
+  const minWeight = constraints.minWeight ?? 0;
+  const maxWeight = constraints.maxWeight ?? 1;
+
+  const lower = symbols.map(
+    symbol => constraints.bounds?.[symbol]?.min ?? minWeight
+  );
+  const upper = symbols.map(
+    symbol => constraints.bounds?.[symbol]?.max ?? maxWeight
+  );
+
+  symbols.forEach((symbol, i) => {
+    const min = lower[i]!;
+    const max = upper[i]!;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) {
+      throw new Error(`Vincoli non validi per ${symbol}: minimo > massimo`);
+    }
+    if (min < -1 || max > 1) {
+      throw new Error(
+        `Vincoli per ${symbol} fuori dall'intervallo [-100%, 100%]`
+      );
+    }
+  });
+
+  const sumLower = lower.reduce((sum, value) => sum + value, 0);
+  const sumUpper = upper.reduce((sum, value) => sum + value, 0);
+  if (sumLower > 1 + 1e-9 || sumUpper < 1 - 1e-9) {
+    throw new Error(
+      'Vincoli incompatibili: la somma dei minimi deve essere ≤ 100% e quella dei massimi ≥ 100%'
+    );
+  }
+
+  return { lower, upper };
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map(row =>
+    row.reduce((sum, value, j) => sum + value * vector[j]!, 0)
+  );
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i]!, 0);
+}
+
+/**
+ * Proiezione euclidea su { somma = 1, lower ≤ w ≤ upper }:
+ * w = clip(v − τ) con τ trovato per bisezione
+ */
+function projectToBudget(
+  vector: number[],
+  lower: number[],
+  upper: number[]
+): number[] {
+  const clip = (tau: number) =>
+    vector.map((value, i) =>
+      Math.min(Math.max(value - tau, lower[i]!), upper[i]!)
+    );
+  const total = (weights: number[]) =>
+    weights.reduce((sum, value) => sum + value, 0);
+
+  let low = Math.min(...vector.map((value, i) => value - upper[i]!));
+  let high = Math.max(...vector.map((value, i) => value - lower[i]!));
+  for (let iteration = 0; iteration < 100 && high - low > 1e-14; iteration++) {
+    const mid = (low + high) / 2;
+    if (total(clip(mid)) > 1) low = mid;
+    else high = mid;
+  }
+  return clip((low + high) / 2);
+}
+
+/**
+ * min ½ w'Σw − λ μ'w con vincoli di budget e di box (metodo ad insieme
+ * attivo: le variabili ai limiti restano fisse, sulle altre si risolve il
+ * sistema KKT del solo vincolo di budget)
+ */
+function solveMeanVariance(
+  model: MeanVarianceModel,
+  lambda: number,
+  warmStart?: number[]
+): number[] {
+  const { covariance, mu, lower, upper } = model;
+  const size = mu.length;
+
+  // Piccola regolarizzazione: titoli a varianza nulla non rendono singolare il sistema
+  const ridge =
+    (covariance.reduce((sum, row, i) => sum + row[i]!, 0) / size) * 1e-10 ||
+    1e-12;
+  const sigma = covariance.map((row, i) =>
+    row.map((value, j) => (i === j ? value + ridge : value))
+  );
+
+  const weights = projectToBudget(
+    warmStart ?? mu.map(() => 1 / size),
+    lower,
+    upper
+  );
+  // Stato di ciascun titolo: libero o fissato al limite inferiore/superiore
+  const fixed: Array<'lower' | 'upper' | null> = weights.map((value, i) =>
+    value <= lower[i]! + BOUND_TOLERANCE
+      ? 'lower'
+      : value >= upper[i]! - BOUND_TOLERANCE
+        ? 'upper'
+        : null
+  );
+
+  for (let iteration = 0; iteration < MAX_ACTIVE_SET_ITERATIONS; iteration++) {
+    const free = fixed.flatMap((state, i) => (state === null ? [i] : []));
+    const fixedBudget = weights.reduce(
+      (sum, value, i) => (fixed[i] === null ? sum : sum + value),
+      0
+    );
+
+    // Sistema KKT sulle variabili libere: Σ_FF x + ν 1 = λ μ_F − Σ_FW w_W, 1'x = 1 − Σ w_W
+    let candidate: number[] = [];
+    let nu = 0;
+    if (free.length > 0) {
+      const system = free.map(i => [...free.map(j => sigma[i]![j]!), 1]);
+      system.push([...free.map(() => 1), 0]);
+      const rhs = free.map(
+        i =>
+          lambda * mu[i]! -
+          weights.reduce(
+            (sum, value, j) =>
+              fixed[j] === null ? sum : sum + sigma[i]![j]! * value,
+            0
+          )
+      );
+      rhs.push(1 - fixedBudget);
+
+      const solution = solveLinearSystem(system, rhs);
+      if (!solution) break;
+      candidate = solution.slice(0, free.length);
+      nu = solution[free.length]!;
+    }
+
+    // Passo verso la soluzione: il primo limite violato diventa attivo
+    let step = 1;
+    let blocking = -1;
+    let blockingSide: 'lower' | 'upper' = 'lower';
+    free.forEach((i, k) => {
+      const direction = candidate[k]! - weights[i]!;
+      if (direction < -1e-15) {
+        const limit = (lower[i]! - weights[i]!) / direction;
+        if (limit < step) {
+          step = limit;
+          blocking = i;
+          blockingSide = 'lower';
+        }
+      } else if (direction > 1e-15) {
+        const limit = (upper[i]! - weights[i]!) / direction;
+        if (limit < step) {
+          step = limit;
+          blocking = i;
+          blockingSide = 'upper';
+        }
+      }
+    });
+
+    free.forEach((i, k) => {
+      weights[i] = weights[i]! + step * (candidate[k]! - weights[i]!);
+    });
+
+    if (blocking >= 0) {
+      fixed[blocking] = blockingSide;
+      weights[blocking] =
+        blockingSide === 'lower' ? lower[blocking]! : upper[blocking]!;
+      continue;
+    }
+
+    // Ottimo sulle variabili libere: verifica dei moltiplicatori dei limiti
+    if (free.length === 0) {
+      // Tutte fissate: ν che minimizza le violazioni (media dei gradienti)
+      nu = -mean(
+        weights.map((_, i) => dot(sigma[i]!, weights) - lambda * mu[i]!)
+      );
+    }
+
+    let release = -1;
+    let worst = MULTIPLIER_TOLERANCE;
+    fixed.forEach((state, i) => {
+      if (state === null) return;
+      const multiplier = dot(sigma[i]!, weights) - lambda * mu[i]! + nu;
+      const violation = state === 'lower' ? -multiplier : multiplier;
+      if (violation > worst) {
+        worst = violation;
+        release = i;
+      }
+    });
+
+    if (release < 0) break;
+    fixed[release] = null;
+  }
+
+  return weights;
+}
+
+/**
+ * Eliminazione di Gauss con pivot parziale; null se il sistema è singolare
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const size = rhs.length;
+  const augmented = matrix.map((row, i) => [...row, rhs[i]!]);
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (
+        Math.abs(augmented[row]![column]!) >
+        Math.abs(augmented[pivot]![column]!)
+      ) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(augmented[pivot]![column]!) < 1e-300) return null;
+    [augmented[column], augmented[pivot]] = [
+      augmented[pivot]!,
+      augmented[column]!,
+    ];
+
+    const pivotRow = augmented[column]!;
+    for (let row = column + 1; row < size; row++) {
+      const current = augmented[row]!;
+      const factor = current[column]! / pivotRow[column]!;
+      if (factor === 0) continue;
+      for (let j = column; j <= size; j++) {
+        current[j] = current[j]! - factor * pivotRow[j]!;
+      }
+    }
+  }
+
+  const solution = new Array<number>(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    const current = augmented[row]!;
+    let value = current[size]!;
+    for (let j = row + 1; j < size; j++) {
+      value -= current[j]! * solution[j]!;
+    }
+    solution[row] = value / current[row]!;
+  }
+  return solution;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Rendimenti raggiungibili sulla frontiera: dal portafoglio a varianza minima
+ * al massimo rendimento compatibile con i vincoli (riempimento greedy)
+ */
+function achievableReturns(model: MeanVarianceModel): {
+  min: number;
+  max: number;
+} {
+  const { mu, lower, upper } = model;
+  const weights = [...lower];
+  let remaining = 1 - lower.reduce((sum, value) => sum + value, 0);
+
+  mu.map((value, i) => ({ value, i }))
+    .sort((a, b) => b.value - a.value)
+    .forEach(({ i }) => {
+      const extra = Math.min(upper[i]! - lower[i]!, remaining);
+      weights[i] = weights[i]! + extra;
+      remaining -= extra;
+    });
+
+  const minimum = dot(solveMeanVariance(model, 0), mu);
+  const maximum = dot(weights, mu);
+  return { min: Math.min(minimum, maximum), max: maximum };
+}
+
+/**
+ * Varianza minima a rendimento dato: bisezione su λ (il rendimento della
+ * soluzione cresce con λ)
+ */
+function solveForTarget(
+  model: MeanVarianceModel,
+  target: number,
+  warmStart?: number[]
+): number[] {
+  let weights = solveMeanVariance(model, 0, warmStart);
+  if (dot(weights, model.mu) >= target - TARGET_TOLERANCE) return weights;
+
+  let low = 0;
+  let high = 1;
+  let highWeights = solveMeanVariance(model, high, weights);
+  while (dot(highWeights, model.mu) < target && high < MAX_LAMBDA) {
+    low = high;
+    high *= 4;
+    highWeights = solveMeanVariance(model, high, highWeights);
+  }
+  weights = highWeights;
+
+  for (let iteration = 0; iteration < 60; iteration++) {
+    const mid = (low + high) / 2;
+    const candidate = solveMeanVariance(model, mid, weights);
+    const gap = dot(candidate, model.mu) - target;
+    if (Math.abs(gap) < TARGET_TOLERANCE) return candidate;
+    if (gap < 0) low = mid;
+    else {
+      high = mid;
+      weights = candidate;
+    }
+  }
+  return weights;
+}
+
+/**
+ * Sharpe massimo lungo la frontiera: campionamento e raffinamento a sezione
+ * aurea tra i campioni adiacenti al migliore
+ */
+function findMaximumSharpe(
+  model: MeanVarianceModel,
+  sampleCount: number
+): number[] {
+  const range = achievableReturns(model);
+  const sharpeAt = (weights: number[]) => {
+    const volatility = Math.sqrt(
+      Math.max(dot(weights, multiply(model.covariance, weights)), 0)
+    );
+    return volatility > 0
+      ? (dot(weights, model.mu) - model.riskFreeRate) / volatility
+      : -Infinity;
+  };
+
+  const targets = Array.from(
+    { length: sampleCount },
+    (_, i) => range.min + ((range.max - range.min) * i) / (sampleCount - 1)
+  );
+  let warmStart: number[] | undefined;
+  const samples = targets.map(target => {
+    warmStart = solveForTarget(model, target, warmStart);
+    return { target, weights: warmStart, sharpe: sharpeAt(warmStart) };
+  });
+
+  const bestIndex = samples.reduce(
+    (best, sample, i) => (sample.sharpe > samples[best]!.sharpe ? i : best),
+    0
+  );
+  let best = samples[bestIndex]!;
+  let low = targets[Math.max(bestIndex - 1, 0)]!;
+  let high = targets[Math.min(bestIndex + 1, targets.length - 1)]!;
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let iteration = 0; iteration < 30 && high - low > 1e-6; iteration++) {
+    const left = high - ratio * (high - low);
+    const right = low + ratio * (high - low);
+    const leftWeights = solveForTarget(model, left, best.weights);
+    const rightWeights = solveForTarget(model, right, best.weights);
+    const leftSharpe = sharpeAt(leftWeights);
+    const rightSharpe = sharpeAt(rightWeights);
+
+    if (leftSharpe >= rightSharpe) {
+      high = right;
+      if (leftSharpe > best.sharpe) {
+        best = { target: left, weights: leftWeights, sharpe: leftSharpe };
+      }
+    } else {
+      low = left;
+      if (rightSharpe > best.sharpe) {
+        best = { target: right, weights: rightWeights, sharpe: rightSharpe };
+      }
+    }
+  }
+
+  return best.weights;
+}
+
+function toPortfolio(
+  model: MeanVarianceModel,
+  objective: OptimizationObjective,
+  weights: number[]
+): OptimizedPortfolio {
+  const expectedReturn = dot(weights, model.mu);
+  const volatility = Math.sqrt(
+    Math.max(dot(weights, multiply(model.covariance, weights)), 0)
+  );
+
+  return {
+    objective,
+    weights: Object.fromEntries(
+      model.symbols.map((symbol, i) => [
+        symbol,
+        // Azzera i residui numerici del solutore
+        Math.abs(weights[i]!) < 1e-8 ? 0 : weights[i]!,
+      ])
+    ),
+    expectedReturn,
+    volatility,
+    sharpeRatio:
+      volatility > 0 ? (expectedReturn - model.riskFreeRate) / volatility : 0,
+  };
+}
+
+export default AlgorithmOptimizationEngine;
@@ -0,0 +1,616 @@
+/**
+ * Automatic Cleanup Service per STUDENT ANALYST
+ *
+ * Manutenzione dei tre livelli della cache client. Ogni giorno all'ora
+ * configurata rimuove le voci scadute e quelle non lette da più di
+ * maxDataAge; se un livello supera la sua soglia di occupazione libera
+ * anche le voci meno recenti (LRU). Gli accessi registrati con
+ * trackDataAccess() alimentano l'ordine LRU e sono salvati in localStorage
+ * insieme a configurazione e cronologia, così sopravvivono alle ricariche.
+ * Pulizie manuali e forzate usano lo stesso flusso e avvisano gli stessi
+ * ascoltatori di avanzamento e completamento.
+ */
+
+import type {
+  CacheLayer,
+  IIndexedDBCache,
+  ILocalStorageCache,
+  IMemoryCache,
+} from './interfaces/ICache';
+import { indexedDBCacheL3 } from './IndexedDBCacheL3';
+import { localStorageCacheL2 } from './LocalStorageCacheL2';
+import { DEFAULT_L1_CONFIG, memoryCacheL1 } from './MemoryCacheL1';
+
+// ========== INTERFACCE ==========
+
+export interface CleanupConfig {
+  dailyCleanupTime: string; // 'HH:mm', ora locale
+  enableDailyCleanup: boolean;
+  maxDataAge: Record<CacheLayer, number>; // ms senza accessi
+  lruThresholds: Record<CacheLayer, number>; // occupazione che avvia l'LRU
+  lruCleanupRatio: number; // quota di voci rimosse da una pulizia LRU
+}
+
+export type CleanupOperationType = 'DAILY' | 'LRU' | 'MANUAL' | 'FORCE';
+
+/** Voce proposta all'utente per la pulizia manuale */
+export interface CleanupItem {
+  key: string;
+  layer: CacheLayer;
+  size: number; // byte
+  lastAccessed: number;
+  type: string;
+  priority: 'low' | 'medium' | 'high';
+  description: string;
+}
+
+export interface CleanupOperation {
+  id: string;
+  type: CleanupOperationType;
+  layer: CacheLayer | 'ALL';
+  startTime: number;
+  processed: number;
+  total: number;
+}
+
+export interface CleanupResult {
+  timestamp: number;
+  operationType: CleanupOperationType;
+  layer: CacheLayer | 'ALL';
+  itemsRemoved: number;
+  spaceFreed: number; // byte
+  duration: number; // ms
+  success: boolean;
+  errors: string[];
+}
+
+export type CleanupProgressListener = (operation: CleanupOperation) => void;
+export type CleanupCompletionListener = (result: CleanupResult) => void;
+
+interface StorageUsage {
+  currentUsage: number; // byte
+  quota: number;
+}
+
+type CleanupOutcome = Pick<
+  CleanupResult,
+  'itemsRemoved' | 'spaceFreed' | 'errors'
+>;
+
+// ========== COSTANTI ==========
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CLEANUP_CONFIG: CleanupConfig = {
+  dailyCleanupTime: '02:00',
+  enableDailyCleanup: true,
+  maxDataAge: { L1: DAY, L2: 7 * DAY, L3: 30 * DAY },
+  lruThresholds: { L1: 0.9, L2: 0.85, L3: 0.8 },
+  lruCleanupRatio: 0.25,
+};
+
+const LAYERS: CacheLayer[] = ['L1', 'L2', 'L3'];
+
+const LRU_TRACKER_KEY = 'lru-tracker';
+const HISTORY_KEY = 'cleanup-history';
+const CONFIG_KEY = 'cleanup-config';
+
+const HISTORY_SIZE = 50;
+const TRACKER_SAVE_EVERY = 50; // accessi tra due salvataggi del tracker
+const CONFIRMATION_THRESHOLD = 100; // voci oltre cui chiedere conferma
+
+// Quota prudenziale quando navigator.storage.estimate() non è disponibile
+const FALLBACK_QUOTA = 100000;
+
+// ========== CLASSE ==========
+
+export class AutomaticCleanupService {
+  private static instance: AutomaticCleanupService | undefined;
+
+  private config: CleanupConfig = cloneConfig(DEFAULT_CLEANUP_CONFIG);
+  // Ultimo accesso per chiave, per livello
+  private lruTracker: Record<CacheLayer, Map<string, number>> = emptyTracker();
+  private history: CleanupResult[] = [];
+  private readonly operations = new Map<string, CleanupOperation>();
+  private readonly progressListeners = new Set<CleanupProgressListener>();
+  private readonly completionListeners = new Set<CleanupCompletionListener>();
+  private dailyTimer: ReturnType<typeof setTimeout> | null = null;
+  private accessCount = 0;
+  private operationCount = 0;
+  private isInitialized = false;
+
+  constructor(
+    private readonly memoryCache: IMemoryCache = memoryCacheL1,
+    private readonly localStorageCache: ILocalStorageCache = localStorageCacheL2,
+    private readonly indexedDBCache: IIndexedDBCache = indexedDBCacheL3
+  ) {}
+
+  public static getInstance(): AutomaticCleanupService {
+    AutomaticCleanupService.instance ??= new AutomaticCleanupService();
+    return AutomaticCleanupService.instance;
+  }
+
+  /**
+   * Carica tracker, cronologia e configurazione salvati e programma la
+   * pulizia giornaliera. Dati salvati illeggibili vengono ignorati; uno
+   * storage che non risponde fa fallire l'inizializzazione.
+   */
+  public async initialize(): Promise<void> {
+    console.log('🧹 Inizializzazione AutomaticCleanupService...');
+
+    try {
+      this.loadLRUTracker();
+      this.loadCleanupHistory();
+      this.loadConfig();
+      this.scheduleDailyCleanup();
+      this.isInitialized = true;
+      console.log('✅ AutomaticCleanupService inizializzato con successo');
+    } catch (error) {
+      console.error(
+        '❌ Errore inizializzazione AutomaticCleanupService:',
+        error
+      );
+      throw error;
+    }
+  }
+
+  /** Registra un accesso: la chiave diventa la più recente del livello */
+  public trackDataAccess(key: string, layer: CacheLayer): void {
+    this.lruTracker[layer]?.set(key, Date.now());
+    this.accessCount++;
+    if (this.accessCount % TRACKER_SAVE_EVERY === 0) this.saveLRUTracker();
+  }
+
+  /**
+   * Rimuove la quota `ratio` di voci del livello, dalle meno recenti.
+   * Restituisce false se la pulizia non è riuscita.
+   */
+  public async performLRUCleanup(
+    layer: CacheLayer,
+    ratio: number = this.config.lruCleanupRatio
+  ): Promise<boolean> {
+    if (!LAYERS.includes(layer)) {
+      console.error(`❌ Livello cache non valido: ${layer}`);
+      return false;
+    }
+
+    const result = await this.execute('LRU', layer, async operation => {
+      const before = await this.checkStorageHealth(layer);
+      const keys = this.sortByLastAccess(layer, await this.getLayerKeys(layer));
+      const victims = keys.slice(0, Math.ceil(keys.length * ratio));
+      const { removed, errors } = await this.removeKeys(
+        victims.map(key => ({ key, layer })),
+        operation
+      );
+      const after = await this.checkStorageHealth(layer);
+
+      return {
+        itemsRemoved: removed.length,
+        spaceFreed: Math.max(0, before.currentUsage - after.currentUsage),
+        errors,
+      };
+    });
+    return result.success;
+  }
+
+  /**
+   * Rimuove le voci scelte dall'utente; oltre CONFIRMATION_THRESHOLD voci
+   * chiede conferma. Restituisce false se annullata o non riuscita.
+   */
+  public async performManualCleanup(
+    items: CleanupItem[],
+    requireConfirmation = true
+  ): Promise<boolean> {
+    if (
+      requireConfirmation &&
+      items.length > CONFIRMATION_THRESHOLD &&
+      !window.confirm(
+        `Stai per eliminare ${items.length} elementi dalla cache. Continuare?`
+      )
+    ) {
+      return false;
+    }
+
+    const result = await this.execute('MANUAL', 'ALL', async operation => {
+      const { removed, errors } = await this.removeKeys(items, operation);
+      return {
+        itemsRemoved: removed.length,
+        spaceFreed: removed.reduce((sum, item) => sum + item.size, 0),
+        errors,
+      };
+    });
+    return result.success;
+  }
+
+  /** Svuota un livello, o tutti se non indicato */
+  public async forceCleanup(layer?: CacheLayer): Promise<boolean> {
+    const result = await this.execute('FORCE', layer ?? 'ALL', async () => {
+      let itemsRemoved = 0;
+      let spaceFreed = 0;
+      for (const target of layer ? [layer] : LAYERS) {
+        const before = await this.checkStorageHealth(target);
+        await this.clearLayer(target);
+        const after = await this.checkStorageHealth(target);
+
+        // Conteggio delle sole voci note al tracker degli accessi
+        itemsRemoved += this.lruTracker[target].size;
+        spaceFreed += Math.max(0, before.currentUsage - after.currentUsage);
+        this.lruTracker[target].clear();
+      }
+      this.saveLRUTracker();
+      return { itemsRemoved, spaceFreed, errors: [] };
+    });
+    return result.success;
+  }
+
+  public getConfig(): CleanupConfig {
+    return cloneConfig(this.config);
+  }
+
+  /** Salva la configurazione e, se attivo, riprogramma la pulizia giornaliera */
+  public updateConfig(config: Partial<CleanupConfig>): void {
+    this.config = mergeConfig(this.config, config);
+    try {
+      localStorage.setItem(CONFIG_KEY, JSON.stringify(this.config));
+    } catch (error) {
+      console.warn('⚠️ Impossibile salvare configurazione cleanup:', error);
+    }
+    if (this.isInitialized) this.scheduleDailyCleanup();
+  }
+
+  /** Dalla più vecchia alla più recente */
+  public getCleanupHistory(): CleanupResult[] {
+    return this.history.map(result => ({ ...result }));
+  }
+
+  public getCurrentOperations(): CleanupOperation[] {
+    return Array.from(this.operations.values()).map(operation => ({
+      ...operation,
+    }));
+  }
+
+  /** Restituisce la funzione per rimuovere l'ascoltatore */
+  public onProgress(listener: CleanupProgressListener): () => void {
+    this.progressListeners.add(listener);
+    return () => {
+      this.progressListeners.delete(listener);
+    };
+  }
+
+  /** Restituisce la funzione per rimuovere l'ascoltatore */
+  public onCompletion(listener: CleanupCompletionListener): () => void {
+    this.completionListeners.add(listener);
+    return () => {
+      this.completionListeners.delete(listener);
+    };
+  }
+
+  /** Annulla la pulizia giornaliera programmata */
+  public cancelCleanup(): void {
+    clearTimeout(this.dailyTimer ?? undefined);
+    this.dailyTimer = null;
+  }
+
+  /** Ferma la programmazione e salva il tracker degli accessi */
+  public shutdown(): void {
+    this.cancelCleanup();
+    this.saveLRUTracker();
+    this.isInitialized = false;
+    console.log('🔥 AutomaticCleanupService shutdown completato');
+  }
+
+  // Prossima esecuzione all'ora configurata, oggi o domani
+  private scheduleDailyCleanup(): void {
+    this.cancelCleanup();
+    if (!this.config.enableDailyCleanup) {
+      console.log('📅 Daily cleanup disabilitato');
+      return;
+    }
+
+    const [hours = 2, minutes = 0] = this.config.dailyCleanupTime
+      .split(':')
+      .map(Number);
+    const now = new Date();
+    const nowTime = now.getTime();
+    const next = new Date(nowTime);
+    next.setHours(hours, minutes, 0, 0);
+    if (next.getTime() <= nowTime) next.setDate(next.getDate() + 1);
+
+    this.dailyTimer = setTimeout(() => {
+      void this.runDailyCleanup().finally(() => this.scheduleDailyCleanup());
+    }, next.getTime() - nowTime);
+  }
+
+  private async runDailyCleanup(): Promise<void> {
+    for (const layer of LAYERS) {
+      await this.execute('DAILY', layer, async operation => {
+        const expired = await this.removeExpired(layer);
+        const cutoff = Date.now() - this.config.maxDataAge[layer];
+        // Le chiavi mai lette da quando esiste il tracker non sono "vecchie"
+        const stale = (await this.getLayerKeys(layer)).filter(
+          key => (this.lruTracker[layer].get(key) ?? Infinity) < cutoff
+        );
+        const { removed, errors } = await this.removeKeys(
+          stale.map(key => ({ key, layer })),
+          operation
+        );
+        return {
+          itemsRemoved: expired + removed.length,
+          spaceFreed: 0,
+          errors,
+        };
+      });
+
+      const { currentUsage, quota } = await this.checkStorageHealth(layer);
+      if (
+        quota > 0 &&
+        currentUsage / quota >= this.config.lruThresholds[layer]
+      ) {
+        await this.performLRUCleanup(layer);
+      }
+    }
+    this.saveLRUTracker();
+  }
+
+  // Esegue una pulizia registrandola tra le operazioni e nella cronologia
+  private async execute(
+    type: CleanupOperationType,
+    layer: CacheLayer | 'ALL',
+    work: (operation: CleanupOperation) => Promise<CleanupOutcome>
+  ): Promise<CleanupResult> {
+    const operation: CleanupOperation = {
+      id: `${type}-${++this.operationCount}`,
+      type,
+      layer,
+      startTime: Date.now(),
+      processed: 0,
+      total: 0,
+    };
+    this.operations.set(operation.id, operation);
+
+    let outcome: CleanupOutcome;
+    try {
+      outcome = await work(operation);
+    } catch (error) {
+      console.error(`❌ Errore cleanup ${type} (${layer}):`, error);
+      outcome = {
+        itemsRemoved: 0,
+        spaceFreed: 0,
+        errors: [errorMessage(error)],
+      };
+    } finally {
+      this.operations.delete(operation.id);
+    }
+
+    const result: CleanupResult = {
+      timestamp: operation.startTime,
+      operationType: type,
+      layer,
+      ...outcome,
+      duration: Date.now() - operation.startTime,
+      success: outcome.errors.length === 0,
+    };
+    this.recordResult(result);
+    return result;
+  }
+
+  // Rimuove le voci una a una: un errore non interrompe le altre
+  private async removeKeys<T extends { key: string; layer: CacheLayer }>(
+    items: T[],
+    operation: CleanupOperation
+  ): Promise<{ removed: T[]; errors: string[] }> {
+    const removed: T[] = [];
+    const errors: string[] = [];
+    operation.total = items.length;
+
+    for (const item of items) {
+      try {
+        await this.removeFromLayer(item.layer, item.key);
+        this.lruTracker[item.layer]?.delete(item.key);
+        removed.push(item);
+      } catch (error) {
+        console.error(`❌ Errore rimozione ${item.layer}:${item.key}:`, error);
+        errors.push(`${item.layer}:${item.key}: ${errorMessage(error)}`);
+      }
+      operation.processed++;
+      this.notifyProgress(operation);
+    }
+    return { removed, errors };
+  }
+
+  private async getLayerKeys(layer: CacheLayer): Promise<string[]> {
+    switch (layer) {
+      case 'L1':
+        return this.memoryCache.keys();
+      case 'L2':
+        return this.localStorageCache.keys();
+      case 'L3':
+        return this.indexedDBCache.getAllKeys();
+    }
+  }
+
+  private async removeFromLayer(layer: CacheLayer, key: string): Promise<void> {
+    switch (layer) {
+      case 'L1':
+        this.memoryCache.remove(key);
+        return;
+      case 'L2':
+        this.localStorageCache.delete(key);
+        return;
+      case 'L3':
+        await this.indexedDBCache.delete(key);
+        return;
+    }
+  }
+
+  private async clearLayer(layer: CacheLayer): Promise<void> {
+    switch (layer) {
+      case 'L1':
+        return this.memoryCache.clear();
+      case 'L2':
+        return this.localStorageCache.clear();
+      case 'L3':
+        return this.indexedDBCache.clear();
+    }
+  }
+
+  private async removeExpired(layer: CacheLayer): Promise<number> {
+    switch (layer) {
+      case 'L1':
+        return this.memoryCache.cleanup();
+      case 'L2':
+        return this.localStorageCache.cleanup();
+      case 'L3':
+        return this.indexedDBCache.cleanup();
+    }
+  }
+
+  // Occupazione del livello: memoria stimata per L1, quota dell'origine per L2/L3
+  private async checkStorageHealth(layer: CacheLayer): Promise<StorageUsage> {
+    if (layer === 'L1') {
+      return {
+        currentUsage: this.memoryCache.getStats()?.memoryUsage ?? 0,
+        quota:
+          this.memoryCache.getConfig?.()?.maxMemoryUsage ??
+          DEFAULT_L1_CONFIG.maxMemoryUsage,
+      };
+    }
+
+    const storage = typeof navigator !== 'undefined' ? navigator.storage : null;
+    if (!storage?.estimate) return { currentUsage: 0, quota: FALLBACK_QUOTA };
+
+    const { usage = 0, quota = FALLBACK_QUOTA } = await storage.estimate();
+    return { currentUsage: usage, quota };
+  }
+
+  // Chiavi dalla meno recente; quelle mai tracciate per prime
+  private sortByLastAccess(layer: CacheLayer, keys: string[]): string[] {
+    const lastAccess = (key: string) => this.lruTracker[layer].get(key) ?? 0;
+    return [...keys].sort((a, b) => lastAccess(a) - lastAccess(b));
+  }
+
+  private recordResult(result: CleanupResult): void {
+    this.history.push(result);
+    this.history = this.history.slice(-HISTORY_SIZE);
+    try {
+      localStorage.setItem(HISTORY_KEY, JSON.stringify(this.history));
+    } catch (error) {
+      console.warn('⚠️ Impossibile salvare cronologia cleanup:', error);
+    }
+
+    this.completionListeners.forEach(listener => {
+      try {
+        listener({ ...result });
+      } catch (error) {
+        console.error(
+          '[ERROR] Cleanup: listener di completamento fallito',
+          error
+        );
+      }
+    });
+  }
+
+  private notifyProgress(operation: CleanupOperation): void {
+    this.progressListeners.forEach(listener => {
+      try {
+        listener({ ...operation });
+      } catch (error) {
+        console.error(
+          '[ERROR] Cleanup: listener di avanzamento fallito',
+          error
+        );
+      }
+    });
+  }
+
+  // Formato salvato: { L1: { chiave: ultimoAccesso }, L2: {...}, L3: {...} }
+  private loadLRUTracker(): void {
+    const raw = localStorage.getItem(LRU_TRACKER_KEY);
+    if (!raw) return;
+
+    try {
+      const saved = JSON.parse(raw) as Partial<
+        Record<CacheLayer, Record<string, number>>
+      >;
+      this.lruTracker = emptyTracker();
+      LAYERS.forEach(layer => {
+        Object.entries(saved?.[layer] ?? {}).forEach(([key, timestamp]) => {
+          if (typeof timestamp === 'number') {
+            this.lruTracker[layer].set(key, timestamp);
+          }
+        });
+      });
+    } catch (error) {
+      console.warn('⚠️ Impossibile caricare LRU tracker:', error);
+    }
+  }
+
+  private saveLRUTracker(): void {
+    const saved = Object.fromEntries(
+      LAYERS.map(layer => [layer, Object.fromEntries(this.lruTracker[layer])])
+    );
+    try {
+      localStorage.setItem(LRU_TRACKER_KEY, JSON.stringify(saved));
+    } catch (error) {
+      console.warn('⚠️ Impossibile salvare LRU tracker:', error);
+    }
+  }
+
+  private loadCleanupHistory(): void {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    if (!raw) return;
+
+    try {
+      const saved = JSON.parse(raw) as unknown;
+      if (Array.isArray(saved)) {
+        this.history = (saved as CleanupResult[]).slice(-HISTORY_SIZE);
+      }
+    } catch (error) {
+      console.warn('⚠️ Impossibile caricare cronologia cleanup:', error);
+    }
+  }
+
+  private loadConfig(): void {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    if (!raw) return;
+
+    try {
+      this.config = mergeConfig(
+        this.config,
+        JSON.parse(raw) as Partial<CleanupConfig>
+      );
+    } catch (error) {
+      console.warn('⚠️ Impossibile caricare configurazione cleanup:', error);
+    }
+  }
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+const emptyTracker = (): Record<CacheLayer, Map<string, number>> => ({
+  L1: new Map(),
+  L2: new Map(),
+  L3: new Map(),
+});
+
+const cloneConfig = (config: CleanupConfig): CleanupConfig => ({
+  ...config,
+  maxDataAge: { ...config.maxDataAge },
+  lruThresholds: { ...config.lruThresholds },
+});
+
+// Le soglie per livello si aggiornano anche parzialmente
+const mergeConfig = (
+  config: CleanupConfig,
+  update: Partial<CleanupConfig>
+): CleanupConfig => ({
+  ...config,
+  ...update,
+  maxDataAge: { ...config.maxDataAge, ...update.maxDataAge },
+  lruThresholds: { ...config.lruThresholds, ...update.lruThresholds },
+});
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+export default AutomaticCleanupService;
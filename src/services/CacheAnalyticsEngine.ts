@@ -0,0 +1,73 @@
+/**
+ * Cache Analytics Engine per STUDENT ANALYST
+ *
+ * Metriche della cache client a livelli: hit, miss, hit rate complessivo e per
+ * livello (L1 memoria, L2 localStorage, L3 IndexedDB) e ultimo accesso di ogni
+ * chiave letta con successo.
+ */
+
+// ========== INTERFACCE ==========
+
+export type CacheTierName = 'l1' | 'l2' | 'l3';
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  totalRequests: number;
+  hitRate: number; // hit / richieste, tra 0 e 1
+  hitsByTier: Record<CacheTierName, number>;
+  lastAccessed: Record<string, number>; // chiave → timestamp (ms) dell'ultimo hit
+}
+
+// ========== COSTANTI ==========
+
+// Oltre questa soglia si dimenticano le chiavi lette meno di recente
+const MAX_TRACKED_KEYS = 1000;
+
+// ========== CLASSE ==========
+
+export class CacheAnalyticsEngine {
+  private hits = 0;
+  private misses = 0;
+  private hitsByTier: Record<CacheTierName, number> = { l1: 0, l2: 0, l3: 0 };
+  private lastAccessed = new Map<string, number>();
+
+  public trackCacheHit(key: string, tier: CacheTierName = 'l1'): void {
+    this.hits++;
+    this.hitsByTier[tier]++;
+
+    // Reinserita in coda: la Map resta ordinata per accesso
+    this.lastAccessed.delete(key);
+    this.lastAccessed.set(key, Date.now());
+    if (this.lastAccessed.size > MAX_TRACKED_KEYS) {
+      const oldest = this.lastAccessed.keys().next().value;
+      if (oldest !== undefined) this.lastAccessed.delete(oldest);
+    }
+  }
+
+  public trackCacheMiss(_key: string): void {
+    this.misses++;
+  }
+
+  /** Copia delle metriche: modificarla non altera lo stato del motore */
+  public getMetrics(): CacheMetrics {
+    const totalRequests = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      totalRequests,
+      hitRate: totalRequests > 0 ? this.hits / totalRequests : 0,
+      hitsByTier: { ...this.hitsByTier },
+      lastAccessed: Object.fromEntries(this.lastAccessed),
+    };
+  }
+
+  public reset(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.hitsByTier = { l1: 0, l2: 0, l3: 0 };
+    this.lastAccessed.clear();
+  }
+}
+
+export default CacheAnalyticsEngine;
@@ -0,0 +1,260 @@
+/**
+ * IndexedDB Cache L3 per STUDENT ANALYST
+ *
+ * Terzo livello della cache client: database IndexedDB con spazio ben più
+ * ampio di localStorage, adatto ai risultati di analisi più pesanti. I valori
+ * e i metadati (dimensione, scadenza, ultimo accesso) stanno in due object
+ * store separati, così eviction e pulizia non leggono i valori. Senza
+ * IndexedDB (browser privati, test) ogni operazione è un no-op.
+ */
+
+import type { CacheTierConfig, CacheTierStats } from './interfaces/ICacheTier';
+import { estimateSize } from './MemoryCacheL1';
+
+// ========== INTERFACCE ==========
+
+interface EntryMeta {
+  key: string;
+  size: number;
+  expiresAt: number;
+  lastAccess: number;
+}
+
+// ========== COSTANTI ==========
+
+const DB_NAME = 'student-analyst-cache';
+const DB_VERSION = 1;
+const VALUES_STORE = 'values';
+const META_STORE = 'meta';
+
+export const DEFAULT_L3_CONFIG: CacheTierConfig = {
+  maxEntries: 200,
+  maxBytes: 200 * 1024 * 1024, // 200 MB
+  defaultTTL: 7 * 24 * 60 * 60 * 1000, // 7 giorni
+};
+
+// ========== CLASSE ==========
+
+export class IndexedDBCacheL3 {
+  private readonly config: CacheTierConfig;
+  private database: Promise<IDBDatabase | null> | null = null;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor(
+    private readonly factory: IDBFactory | null = typeof indexedDB !==
+    'undefined'
+      ? indexedDB
+      : null,
+    config: Partial<CacheTierConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_L3_CONFIG, ...config };
+  }
+
+  public async set(
+    key: string,
+    value: unknown,
+    ttl: number = this.config.defaultTTL
+  ): Promise<boolean> {
+    const db = await this.open();
+    const size = estimateSize(value);
+    if (!db || size > this.config.maxBytes) return false;
+
+    const now = Date.now();
+    try {
+      await this.evictLeastRecent(
+        this.config.maxEntries - 1,
+        this.config.maxBytes - size,
+        key
+      );
+      const tx = db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+      tx.objectStore(VALUES_STORE).put(value, key);
+      tx.objectStore(META_STORE).put({
+        key,
+        size,
+        expiresAt: now + ttl,
+        lastAccess: now,
+      } satisfies EntryMeta);
+      await transactionDone(tx);
+      return true;
+    } catch (error) {
+      // Valori non clonabili o quota del browser esaurita
+      console.warn(`[WARN] Cache L3: scrittura fallita per ${key}`, error);
+      return false;
+    }
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    const db = await this.open();
+    if (!db) return null;
+
+    try {
+      const tx = db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+      const meta = await request<EntryMeta | undefined>(
+        tx.objectStore(META_STORE).get(key)
+      );
+      if (!meta) return null;
+
+      if (meta.expiresAt <= Date.now()) {
+        tx.objectStore(VALUES_STORE).delete(key);
+        tx.objectStore(META_STORE).delete(key);
+        await transactionDone(tx);
+        this.expirations++;
+        return null;
+      }
+
+      const value = await request<T | undefined>(
+        tx.objectStore(VALUES_STORE).get(key)
+      );
+      tx.objectStore(META_STORE).put({ ...meta, lastAccess: Date.now() });
+      await transactionDone(tx);
+      return value ?? null;
+    } catch (error) {
+      console.warn(`[WARN] Cache L3: lettura fallita per ${key}`, error);
+      return null;
+    }
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    const db = await this.open();
+    if (!db) return false;
+
+    const tx = db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+    const exists = (await request(tx.objectStore(META_STORE).count(key))) > 0;
+    tx.objectStore(VALUES_STORE).delete(key);
+    tx.objectStore(META_STORE).delete(key);
+    await transactionDone(tx);
+    return exists;
+  }
+
+  public async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+
+    const tx = db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+    tx.objectStore(VALUES_STORE).clear();
+    tx.objectStore(META_STORE).clear();
+    await transactionDone(tx);
+  }
+
+  /** Rimuove le voci scadute; restituisce quante ne ha rimosse */
+  public async cleanup(now: number = Date.now()): Promise<number> {
+    const expired = (await this.readMeta()).filter(
+      meta => meta.expiresAt <= now
+    );
+    await this.deleteKeys(expired.map(meta => meta.key));
+    this.expirations += expired.length;
+    return expired.length;
+  }
+
+  /** Chiavi presenti, scadute comprese */
+  public async getAllKeys(): Promise<string[]> {
+    return (await this.readMeta()).map(meta => meta.key);
+  }
+
+  public async getStats(): Promise<CacheTierStats> {
+    const metas = await this.readMeta();
+    return {
+      entries: metas.length,
+      bytes: metas.reduce((sum, meta) => sum + meta.size, 0),
+      maxEntries: this.config.maxEntries,
+      maxBytes: this.config.maxBytes,
+      evictions: this.evictions,
+      expirations: this.expirations,
+    };
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      const factory = this.factory;
+      this.database = factory
+        ? new Promise<IDBDatabase | null>(resolve => {
+            const openRequest = factory.open(DB_NAME, DB_VERSION);
+            openRequest.onupgradeneeded = () => {
+              const db = openRequest.result;
+              if (!db.objectStoreNames.contains(VALUES_STORE)) {
+                db.createObjectStore(VALUES_STORE);
+              }
+              if (!db.objectStoreNames.contains(META_STORE)) {
+                db.createObjectStore(META_STORE, { keyPath: 'key' });
+              }
+            };
+            openRequest.onsuccess = () => resolve(openRequest.result);
+            openRequest.onerror = () => {
+              console.warn(
+                '[WARN] Cache L3: IndexedDB non disponibile',
+                openRequest.error
+              );
+              resolve(null);
+            };
+          })
+        : Promise.resolve(null);
+    }
+    return this.database;
+  }
+
+  private async readMeta(): Promise<EntryMeta[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    const tx = db.transaction(META_STORE, 'readonly');
+    return request<EntryMeta[]>(tx.objectStore(META_STORE).getAll());
+  }
+
+  private async deleteKeys(keys: string[]): Promise<void> {
+    const db = await this.open();
+    if (!db || keys.length === 0) return;
+
+    const tx = db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+    keys.forEach(key => {
+      tx.objectStore(VALUES_STORE).delete(key);
+      tx.objectStore(META_STORE).delete(key);
+    });
+    await transactionDone(tx);
+  }
+
+  private async evictLeastRecent(
+    maxEntries: number,
+    maxBytes: number,
+    replacing?: string
+  ): Promise<number> {
+    // La voce che sta per essere sovrascritta non conta nei limiti
+    const metas = (await this.readMeta()).filter(
+      meta => meta.key !== replacing
+    );
+    let count = metas.length;
+    let bytes = metas.reduce((sum, meta) => sum + meta.size, 0);
+    const victims: string[] = [];
+
+    for (const meta of metas.sort((a, b) => a.lastAccess - b.lastAccess)) {
+      if (count <= maxEntries && bytes <= maxBytes) break;
+      victims.push(meta.key);
+      count--;
+      bytes -= meta.size;
+    }
+
+    await this.deleteKeys(victims);
+    this.evictions += victims.length;
+    return victims.length;
+  }
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+const request = <T>(idbRequest: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    idbRequest.onsuccess = () => resolve(idbRequest.result);
+    idbRequest.onerror = () => reject(idbRequest.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/** Istanza condivisa dall'applicazione */
+export const indexedDBCacheL3 = new IndexedDBCacheL3();
+
+export default IndexedDBCacheL3;
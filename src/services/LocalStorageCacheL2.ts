@@ -0,0 +1,453 @@
+/**
+ * LocalStorage Cache L2 per STUDENT ANALYST
+ *
+ * Secondo livello della cache client: voci JSON in localStorage con prefisso
+ * dedicato, TTL ed eviction LRU per numero di voci e spazio occupato. Le voci
+ * oltre la soglia configurata sono compresse con lz-string. Resiste alle
+ * ricariche della pagina: all'avvio l'indice delle voci viene ricostruito
+ * dallo storage (scartando quelle scadute o illeggibili) e le statistiche
+ * sono ricaricate dalla voce di metadati. Se il browser segnala quota
+ * esaurita libera le voci meno recenti e riprova una volta.
+ */
+
+import { compressToUTF16, decompressFromUTF16 } from 'lz-string';
+import type { IStorage } from './interfaces/IStorage';
+
+// ========== INTERFACCE ==========
+
+export interface LocalStorageCacheConfig {
+  maxEntries: number;
+  maxMemoryUsage: number; // byte (UTF-16) occupati in localStorage
+  defaultTTL: number; // ms
+  enableCompression: boolean;
+  compressionThreshold: number; // caratteri del JSON oltre cui comprimere
+}
+
+export interface LocalStorageCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number; // percentuale, 0-100
+  currentEntries: number;
+  totalStorageUsed: number; // byte
+  storageUsagePercentage: number; // rispetto a maxMemoryUsage
+  maxEntries: number;
+  maxStorageSize: number;
+  evictionCount: number;
+  lastEviction: number; // timestamp, 0 se mai
+  lastCleanup: number;
+  lastAccess: number;
+}
+
+interface StoredEntry {
+  data: unknown; // valore, o JSON compresso se `compressed`
+  compressed: boolean;
+  dataType: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+interface IndexEntry {
+  size: number; // byte della voce serializzata
+  expiresAt: number;
+}
+
+// Statistiche che sopravvivono alle ricariche
+type PersistedStats = Pick<
+  LocalStorageCacheStats,
+  'hits' | 'misses' | 'evictionCount' | 'lastEviction' | 'lastCleanup'
+>;
+
+// ========== COSTANTI ==========
+
+export const L2_PREFIX = 'student-analyst-l2:';
+const META_KEY = `${L2_PREFIX}meta`;
+
+export const DEFAULT_L2_CONFIG: LocalStorageCacheConfig = {
+  maxEntries: 1000,
+  maxMemoryUsage: 4 * 1024 * 1024, // 4 MB: localStorage ha in genere 5 MB per origine
+  defaultTTL: 24 * 60 * 60 * 1000, // 24 ore
+  enableCompression: true,
+  compressionThreshold: 1024,
+};
+
+// ========== CLASSE ==========
+
+export class LocalStorageCacheL2 {
+  private config: LocalStorageCacheConfig = { ...DEFAULT_L2_CONFIG };
+  // L'ordine di inserimento è l'ordine LRU: in testa la voce meno recente
+  private readonly index = new Map<string, IndexEntry>();
+  private stats: PersistedStats = {
+    hits: 0,
+    misses: 0,
+    evictionCount: 0,
+    lastEviction: 0,
+    lastCleanup: 0,
+  };
+  private lastAccess = Date.now();
+
+  constructor(
+    private readonly storage: IStorage | null = typeof window !== 'undefined'
+      ? (window.localStorage ?? null)
+      : null,
+    config: Partial<LocalStorageCacheConfig> = {}
+  ) {
+    this.config = { ...this.config, ...config };
+    this.loadStats();
+    this.rebuildIndex();
+  }
+
+  /**
+   * Restituisce false se il valore non è serializzabile o se lo storage lo
+   * rifiuta anche dopo l'eviction. Un TTL assente o nullo usa quello di
+   * default.
+   */
+  public set(
+    key: string,
+    value: unknown,
+    ttl?: number,
+    dataType: string = typeof value
+  ): boolean {
+    if (!this.storage) return false;
+
+    const now = Date.now();
+    let serialized: string;
+    try {
+      serialized = this.serialize(value, {
+        dataType,
+        createdAt: now,
+        expiresAt: now + (ttl || this.config.defaultTTL),
+      });
+    } catch (error) {
+      console.error(
+        `[ERROR] Cache L2: valore non serializzabile (${key})`,
+        error
+      );
+      return false;
+    }
+
+    const size = serialized.length * 2;
+    this.index.delete(key);
+    this.evictToFit(size);
+
+    if (!this.write(L2_PREFIX + key, serialized)) return false;
+    this.index.set(key, {
+      size,
+      expiresAt: now + (ttl || this.config.defaultTTL),
+    });
+    return true;
+  }
+
+  /** Null se la chiave manca, è scaduta o illeggibile */
+  public get<T>(key: string): T | null {
+    this.lastAccess = Date.now();
+
+    let raw: string | null;
+    try {
+      raw = this.storage?.getItem(L2_PREFIX + key) ?? null;
+    } catch (error) {
+      console.error(`[ERROR] Cache L2: lettura fallita (${key})`, error);
+      this.recordAccess(false);
+      return null;
+    }
+
+    const value = raw === null ? undefined : this.deserialize(key, raw);
+    if (value === undefined) {
+      this.recordAccess(false);
+      return null;
+    }
+
+    // Accesso: la voce passa in coda (più recente)
+    const entry = this.index.get(key);
+    if (entry) {
+      this.index.delete(key);
+      this.index.set(key, entry);
+    }
+    this.recordAccess(true);
+    return value as T;
+  }
+
+  public has(key: string): boolean {
+    try {
+      const raw = this.storage?.getItem(L2_PREFIX + key) ?? null;
+      return raw !== null && this.deserialize(key, raw) !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  public delete(key: string): boolean {
+    const existed = this.index.delete(key);
+    this.removeItem(L2_PREFIX + key);
+    return existed;
+  }
+
+  /** Rimuove tutte le voci della cache (non le altre chiavi di localStorage) */
+  public clear(): void {
+    new Set([...this.index.keys(), ...this.storedKeys()]).forEach(key =>
+      this.delete(key)
+    );
+    this.stats.lastCleanup = Date.now();
+    this.saveStats();
+  }
+
+  public keys(): string[] {
+    return Array.from(this.index.keys());
+  }
+
+  /** Rimuove le voci scadute; restituisce quante ne ha rimosse */
+  public cleanup(now: number = Date.now()): number {
+    const removed = this.removeExpired(now);
+    this.stats.lastCleanup = now;
+    this.saveStats();
+    return removed;
+  }
+
+  /** Applica i nuovi limiti subito, liberando spazio se necessario */
+  public configure(config: Partial<LocalStorageCacheConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.evictToFit(0);
+    this.saveStats();
+  }
+
+  public getStats(): LocalStorageCacheStats {
+    const totalRequests = this.stats.hits + this.stats.misses;
+    const totalStorageUsed = Array.from(this.index.values()).reduce(
+      (sum, entry) => sum + entry.size,
+      0
+    );
+
+    return {
+      ...this.stats,
+      hitRate: totalRequests > 0 ? (this.stats.hits / totalRequests) * 100 : 0,
+      currentEntries: this.index.size,
+      totalStorageUsed,
+      storageUsagePercentage:
+        this.config.maxMemoryUsage > 0
+          ? (totalStorageUsed / this.config.maxMemoryUsage) * 100
+          : 0,
+      maxEntries: this.config.maxEntries,
+      maxStorageSize: this.config.maxMemoryUsage,
+      lastAccess: this.lastAccess,
+    };
+  }
+
+  private serialize(
+    value: unknown,
+    meta: Omit<StoredEntry, 'data' | 'compressed'>
+  ): string {
+    const json = JSON.stringify(value) ?? 'null';
+    const compressed =
+      this.config.enableCompression &&
+      json.length >= this.config.compressionThreshold;
+
+    return JSON.stringify({
+      ...meta,
+      data: compressed ? compressToUTF16(json) : value,
+      compressed,
+    } satisfies StoredEntry);
+  }
+
+  // Undefined (e voce rimossa) se la voce è scaduta o illeggibile
+  private deserialize(key: string, raw: string): unknown {
+    const entry = parseEntry(raw);
+    if (entry && entry.expiresAt > Date.now()) {
+      try {
+        return entry.compressed
+          ? JSON.parse(decompressFromUTF16(String(entry.data)))
+          : entry.data;
+      } catch {
+        // Dati compressi corrotti: la voce viene scartata
+      }
+    }
+    this.delete(key);
+    return undefined;
+  }
+
+  private removeExpired(now: number = Date.now()): number {
+    const expired = Array.from(this.index.entries())
+      .filter(([, entry]) => entry.expiresAt <= now)
+      .map(([key]) => key);
+    expired.forEach(key => this.delete(key));
+    return expired.length;
+  }
+
+  private write(storageKey: string, serialized: string): boolean {
+    try {
+      this.storage?.setItem(storageKey, serialized);
+      return true;
+    } catch (error) {
+      if (!isQuotaError(error)) {
+        console.error('[ERROR] Cache L2: scrittura fallita', error);
+        return false;
+      }
+    }
+
+    // Quota del browser esaurita: via le scadute e metà delle voci, poi si
+    // riprova una sola volta (senza altre scritture nel frattempo)
+    this.removeExpired();
+    this.evictLeastRecent(Math.ceil(this.index.size / 2));
+    try {
+      this.storage?.setItem(storageKey, serialized);
+      return true;
+    } catch (error) {
+      console.error(
+        "[ERROR] Cache L2: quota esaurita anche dopo l'eviction",
+        error
+      );
+      return false;
+    }
+  }
+
+  // Libera le voci meno recenti finché entra una nuova voce di `size` byte
+  private evictToFit(size: number): void {
+    const incoming = size > 0 ? 1 : 0;
+    let used = Array.from(this.index.values()).reduce(
+      (sum, entry) => sum + entry.size,
+      0
+    );
+
+    for (const [key, entry] of Array.from(this.index.entries())) {
+      if (
+        this.index.size + incoming <= this.config.maxEntries &&
+        used + size <= this.config.maxMemoryUsage
+      ) {
+        break;
+      }
+      used -= entry.size;
+      this.evict(key);
+    }
+  }
+
+  private evictLeastRecent(count: number): void {
+    Array.from(this.index.keys())
+      .slice(0, count)
+      .forEach(key => this.evict(key));
+  }
+
+  private evict(key: string): void {
+    this.delete(key);
+    this.stats.evictionCount++;
+    this.stats.lastEviction = Date.now();
+  }
+
+  private recordAccess(hit: boolean): void {
+    if (hit) this.stats.hits++;
+    else this.stats.misses++;
+    this.saveStats();
+  }
+
+  // Indice dalle voci già presenti; quelle scadute o illeggibili sono rimosse
+  private rebuildIndex(): void {
+    const now = Date.now();
+    const found: Array<[string, IndexEntry & { createdAt: number }]> = [];
+
+    this.storedKeys().forEach(key => {
+      const raw = this.readItem(L2_PREFIX + key);
+      const entry = raw === null ? null : parseEntry(raw);
+      if (!raw || !entry || entry.expiresAt <= now) {
+        this.removeItem(L2_PREFIX + key);
+        return;
+      }
+      found.push([
+        key,
+        {
+          size: raw.length * 2,
+          expiresAt: entry.expiresAt,
+          createdAt: entry.createdAt,
+        },
+      ]);
+    });
+
+    // Dopo una ricarica l'ordine LRU segue la data di scrittura
+    found
+      .sort(([, a], [, b]) => a.createdAt - b.createdAt)
+      .forEach(([key, { size, expiresAt }]) =>
+        this.index.set(key, { size, expiresAt })
+      );
+    this.stats.lastCleanup = now;
+  }
+
+  // Chiavi della cache (senza prefisso) presenti nello storage
+  private storedKeys(): string[] {
+    const keys: string[] = [];
+    try {
+      const length = this.storage?.length ?? 0;
+      for (let i = 0; i < length; i++) {
+        const storageKey = this.storage?.key(i);
+        if (storageKey?.startsWith(L2_PREFIX) && storageKey !== META_KEY) {
+          keys.push(storageKey.slice(L2_PREFIX.length));
+        }
+      }
+    } catch {
+      // Storage non enumerabile: resta solo l'indice in memoria
+    }
+    return keys;
+  }
+
+  private readItem(storageKey: string): string | null {
+    try {
+      return this.storage?.getItem(storageKey) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private removeItem(storageKey: string): void {
+    try {
+      this.storage?.removeItem(storageKey);
+    } catch {
+      // La voce resterà fino alla prossima ricostruzione dell'indice
+    }
+  }
+
+  private loadStats(): void {
+    const raw = this.readItem(META_KEY);
+    if (!raw) return;
+    try {
+      this.stats = { ...this.stats, ...(JSON.parse(raw) as PersistedStats) };
+    } catch {
+      // Metadati corrotti: si riparte da zero
+    }
+  }
+
+  private saveStats(): void {
+    try {
+      this.storage?.setItem(META_KEY, JSON.stringify(this.stats));
+    } catch {
+      // Statistiche non essenziali: si perdono solo alla ricarica
+    }
+  }
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+const parseEntry = (raw: string): StoredEntry | null => {
+  try {
+    const entry = JSON.parse(raw) as Partial<StoredEntry>;
+    return typeof entry.expiresAt === 'number' &&
+      typeof entry.createdAt === 'number' &&
+      'data' in entry
+      ? (entry as StoredEntry)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// DOMException non sempre eredita da Error: si controlla solo il nome
+const isQuotaError = (error: unknown): boolean => {
+  const { name = '', message = '' } = (error ?? {}) as {
+    name?: string;
+    message?: string;
+  };
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    /quota/i.test(message)
+  );
+};
+
+/** Istanza condivisa dall'applicazione */
+export const localStorageCacheL2 = new LocalStorageCacheL2();
+
+export default LocalStorageCacheL2;
@@ -0,0 +1,362 @@
+/**
+ * Memory Cache L1 per STUDENT ANALYST
+ *
+ * Primo livello della cache client: Map in memoria con TTL ed eviction LRU
+ * per numero di voci e per memoria stimata. I valori restano oggetti vivi
+ * (nessuna serializzazione), quindi è il livello più veloce ma si perde a
+ * ogni ricarica della pagina. Un timer rimuove periodicamente le voci
+ * scadute; gli ascoltatori ricevono un evento per ogni voce eliminata.
+ */
+
+// ========== INTERFACCE ==========
+
+export interface MemoryCacheConfig {
+  maxSize: number; // numero massimo di voci
+  maxMemoryUsage: number; // byte stimati
+  defaultTTL: number; // ms
+  cleanupInterval: number; // ms tra due pulizie automatiche
+  enableStats: boolean;
+  enableLogging: boolean;
+}
+
+export interface MemoryCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  totalRequests: number;
+  hitRate: number; // percentuale, 0-100
+  currentSize: number; // voci presenti
+  currentEntries: number;
+  memoryUsage: number; // byte stimati
+  averageAccessTime: number; // ms per lettura
+  oldestEntry: number; // timestamp di creazione, 0 se vuota
+  newestEntry: number;
+}
+
+export interface MemoryCacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  size: number; // byte stimati
+  createdAt: number;
+  expiresAt: number;
+  lastAccess: number;
+  accessCount: number;
+}
+
+export interface EvictionEvent {
+  type: 'eviction' | 'expiration';
+  reason: string;
+  entry: MemoryCacheEntry;
+  timestamp: number;
+}
+
+export type EvictionHandler = (event: EvictionEvent) => void;
+
+export interface MemoryBreakdown {
+  [dataType: string]: { count: number; size: number };
+}
+
+// ========== COSTANTI ==========
+
+export const DEFAULT_L1_CONFIG: MemoryCacheConfig = {
+  maxSize: 1000,
+  maxMemoryUsage: 50 * 1024 * 1024, // 50 MB
+  defaultTTL: 60 * 60 * 1000, // 1 ora
+  cleanupInterval: 5 * 60 * 1000, // 5 minuti
+  enableStats: true,
+  enableLogging: false,
+};
+
+// ========== FUNZIONI PUBBLICHE ==========
+
+/** Byte stimati di un valore: lunghezza del JSON (1 byte per carattere) */
+export const estimateSize = (value: unknown): number => {
+  try {
+    return (JSON.stringify(value) ?? '').length;
+  } catch {
+    return 0; // valori non serializzabili (es. cicli) non pesano sul limite
+  }
+};
+
+// ========== CLASSE ==========
+
+export class MemoryCacheL1 {
+  private config: MemoryCacheConfig;
+  // L'ordine di inserimento è l'ordine LRU: in testa la voce meno recente
+  private readonly entries = new Map<string, MemoryCacheEntry>();
+  private readonly evictionHandlers = new Set<EvictionHandler>();
+  private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+  private memoryUsage = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private totalAccessTime = 0;
+
+  constructor(config: Partial<MemoryCacheConfig> = {}) {
+    this.config = { ...DEFAULT_L1_CONFIG, ...config };
+    this.startCleanupTimer();
+
+    if (this.config.enableLogging) {
+      console.log('MemoryCacheL1 initialized:', this.config);
+    }
+  }
+
+  /** Restituisce false se il valore da solo supera il limite di memoria */
+  public set<T>(key: string, value: T, ttl?: number): boolean {
+    const size = estimateSize(value) + key.length;
+    if (size > this.config.maxMemoryUsage) {
+      if (this.config.enableLogging) {
+        console.warn(`Cannot cache ${key}: would exceed memory limit`);
+      }
+      return false;
+    }
+
+    this.deleteEntry(key);
+    this.evictToFit(size);
+
+    const now = Date.now();
+    const lifetime = ttl ?? this.config.defaultTTL;
+    this.entries.set(key, {
+      key,
+      value,
+      size,
+      createdAt: now,
+      expiresAt: now + lifetime,
+      lastAccess: now,
+      accessCount: 0,
+    });
+    this.memoryUsage += size;
+
+    if (this.config.enableLogging) {
+      console.log(`Cache SET: ${key} (${size} bytes, TTL ${lifetime}ms)`, {
+        entries: this.entries.size,
+        memoryUsage: this.memoryUsage,
+      });
+    }
+    return true;
+  }
+
+  /** Null se la chiave manca o è scaduta */
+  public get<T>(key: string): T | null {
+    const start = performance.now();
+    const entry = this.entries.get(key);
+
+    if (!entry || this.isExpired(entry)) {
+      if (entry) this.expire(entry);
+      this.recordAccess(false, start);
+      return null;
+    }
+
+    // Accesso: la voce passa in coda (più recente)
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    entry.lastAccess = Date.now();
+    entry.accessCount++;
+    const elapsed = this.recordAccess(true, start);
+
+    if (this.config.enableLogging) {
+      console.log(`Cache HIT: ${key} (${elapsed.toFixed(2)}ms)`, {
+        accessCount: entry.accessCount,
+      });
+    }
+    return entry.value as T;
+  }
+
+  public has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return entry !== undefined && !this.isExpired(entry);
+  }
+
+  public remove(key: string): boolean {
+    const removed = this.deleteEntry(key);
+    if (removed && this.config.enableLogging) {
+      console.log(`Cache REMOVE: ${key}`);
+    }
+    return removed;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.memoryUsage = 0;
+  }
+
+  public size(): number {
+    return this.entries.size;
+  }
+
+  public keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /** Rimuove le voci scadute; restituisce quante ne ha rimosse */
+  public cleanup(): number {
+    const expired = Array.from(this.entries.values()).filter(entry =>
+      this.isExpired(entry)
+    );
+    expired.forEach(entry => this.expire(entry));
+
+    if (expired.length > 0 && this.config.enableLogging) {
+      console.log(`Cache CLEANUP: ${expired.length} voci scadute rimosse`);
+    }
+    return expired.length;
+  }
+
+  public getStats(): MemoryCacheStats {
+    const totalRequests = this.hits + this.misses;
+    const createdAt = Array.from(this.entries.values()).map(
+      entry => entry.createdAt
+    );
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      totalRequests,
+      hitRate: totalRequests > 0 ? (this.hits / totalRequests) * 100 : 0,
+      currentSize: this.entries.size,
+      currentEntries: this.entries.size,
+      memoryUsage: this.memoryUsage,
+      averageAccessTime:
+        totalRequests > 0 ? this.totalAccessTime / totalRequests : 0,
+      oldestEntry: createdAt.length > 0 ? Math.min(...createdAt) : 0,
+      newestEntry: createdAt.length > 0 ? Math.max(...createdAt) : 0,
+    };
+  }
+
+  public getConfig(): MemoryCacheConfig {
+    return { ...this.config };
+  }
+
+  /** Applica i nuovi limiti subito; il timer riparte solo se cambia l'intervallo */
+  public updateConfig(config: Partial<MemoryCacheConfig>): void {
+    const previousInterval = this.config.cleanupInterval;
+    this.config = { ...this.config, ...config };
+
+    this.evictToFit(0);
+    if (this.config.cleanupInterval !== previousInterval) {
+      this.stopCleanupTimer();
+      this.startCleanupTimer();
+    }
+  }
+
+  /** Voci dalla più recente alla meno recente */
+  public getEntriesByAccessPattern(): MemoryCacheEntry[] {
+    return Array.from(this.entries.values())
+      .reverse()
+      .map(entry => ({ ...entry }));
+  }
+
+  /** Numero di voci e byte stimati per tipo di valore (typeof) */
+  public getMemoryBreakdown(): MemoryBreakdown {
+    const breakdown: MemoryBreakdown = {};
+    this.entries.forEach(entry => {
+      const dataType = typeof entry.value;
+      const item = (breakdown[dataType] ??= { count: 0, size: 0 });
+      item.count++;
+      item.size += entry.size;
+    });
+    return breakdown;
+  }
+
+  public onEviction(handler: EvictionHandler): void {
+    this.evictionHandlers.add(handler);
+  }
+
+  public offEviction(handler: EvictionHandler): void {
+    this.evictionHandlers.delete(handler);
+  }
+
+  /** Ferma il timer di pulizia e svuota la cache */
+  public destroy(): void {
+    this.stopCleanupTimer();
+    this.clear();
+    this.evictionHandlers.clear();
+  }
+
+  private isExpired(entry: MemoryCacheEntry): boolean {
+    return entry.expiresAt <= Date.now();
+  }
+
+  private deleteEntry(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    this.memoryUsage -= entry.size;
+    return true;
+  }
+
+  private expire(entry: MemoryCacheEntry): void {
+    this.deleteEntry(entry.key);
+    this.emit({
+      type: 'expiration',
+      reason: 'TTL expired',
+      entry,
+      timestamp: Date.now(),
+    });
+  }
+
+  // Libera le voci meno recenti finché entra una nuova voce di `size` byte
+  private evictToFit(size: number): void {
+    for (const entry of Array.from(this.entries.values())) {
+      const overSize =
+        this.entries.size + (size > 0 ? 1 : 0) > this.config.maxSize;
+      const overMemory = this.memoryUsage + size > this.config.maxMemoryUsage;
+      if (!overSize && !overMemory) break;
+
+      this.deleteEntry(entry.key);
+      this.evictions++;
+      if (this.config.enableLogging) {
+        console.log(
+          overSize
+            ? `Cache EVICT LRU: ${entry.key}`
+            : `Cache EVICT MEMORY: ${entry.key}`
+        );
+      }
+      this.emit({
+        type: 'eviction',
+        reason: overSize ? 'LRU eviction' : 'Memory limit exceeded',
+        entry,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  private recordAccess(hit: boolean, start: number): number {
+    const elapsed = performance.now() - start;
+    if (this.config.enableStats) {
+      if (hit) this.hits++;
+      else this.misses++;
+      this.totalAccessTime += elapsed;
+    }
+    return elapsed;
+  }
+
+  private emit(event: EvictionEvent): void {
+    this.evictionHandlers.forEach(handler => {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error('[ERROR] Cache L1: listener di eviction fallito', error);
+      }
+    });
+  }
+
+  private startCleanupTimer(): void {
+    this.cleanupTimer = setInterval(
+      () => this.cleanup(),
+      this.config.cleanupInterval
+    );
+    // In Node il timer non deve tenere in vita il processo
+    (this.cleanupTimer as { unref?: () => void } | null)?.unref?.();
+  }
+
+  private stopCleanupTimer(): void {
+    clearInterval(this.cleanupTimer ?? undefined);
+    this.cleanupTimer = null;
+  }
+}
+
+/** Istanza condivisa dall'applicazione */
+export const memoryCacheL1 = new MemoryCacheL1();
+
+export default MemoryCacheL1;
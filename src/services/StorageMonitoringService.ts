@@ -0,0 +1,437 @@
+/**
+ * Storage Monitoring Service per STUDENT ANALYST
+ *
+ * Controlla periodicamente lo stato degli storage del browser usati dalla
+ * cache client: localStorage e sessionStorage (prova di scrittura/lettura e
+ * spazio occupato), IndexedDB (apertura di un database di prova) e la quota
+ * dell'origine via navigator.storage.estimate(). Ogni storage è classificato
+ * healthy/warning/critical rispetto alle soglie configurate, o error se non
+ * risponde; quando lo stato complessivo cambia gli ascoltatori vengono
+ * avvisati e possono liberare spazio.
+ */
+
+import type { IStorage } from './interfaces/IStorage';
+
+// ========== INTERFACCE ==========
+
+export type StorageStatus =
+  | 'unknown'
+  | 'healthy'
+  | 'warning'
+  | 'critical'
+  | 'error';
+
+export interface StorageAreaHealth {
+  status: StorageStatus;
+  usage: number; // byte
+  error?: string;
+}
+
+export interface StorageHealth {
+  localStorage: StorageAreaHealth;
+  sessionStorage: StorageAreaHealth;
+  indexedDB: StorageAreaHealth;
+  overall: Exclude<StorageStatus, 'unknown'>;
+  lastCheck: number; // timestamp, 0 se mai controllato
+  totalUsage: number;
+  estimatedQuota: number;
+}
+
+export interface StorageQuotas {
+  localStorage: number; // byte
+  sessionStorage: number;
+  indexedDB: number;
+  total: number;
+}
+
+export interface StorageMonitoringConfig {
+  checkInterval: number; // ms
+  warningThreshold: number; // rapporto usage/quota
+  criticalThreshold: number;
+  enableAutoCheck: boolean; // monitoraggio avviato da initialize()
+}
+
+/** Storage del browser iniettabili (i test passano dei mock) */
+export interface StorageMonitoringDependencies {
+  localStorage?: IStorage;
+  sessionStorage?: IStorage;
+  indexedDB?: Pick<IDBFactory, 'open' | 'deleteDatabase'>;
+  navigator?: Partial<Pick<StorageManager, 'estimate'>>; // navigator.storage
+}
+
+export type StorageHealthListener = (health: StorageHealth) => void;
+
+// ========== COSTANTI ==========
+
+export const DEFAULT_MONITORING_CONFIG: StorageMonitoringConfig = {
+  checkInterval: 30 * 1000,
+  warningThreshold: 0.8,
+  criticalThreshold: 0.95,
+  enableAutoCheck: true,
+};
+
+// Limite tipico di localStorage/sessionStorage: il browser non lo espone
+const WEB_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+// Usate quando navigator.storage.estimate() manca o fallisce
+const FALLBACK_QUOTAS: StorageQuotas = {
+  localStorage: 1024 * 1024,
+  sessionStorage: 1024 * 1024,
+  indexedDB: 10 * 1024 * 1024,
+  total: 12 * 1024 * 1024,
+};
+
+const QUOTA_CACHE_TTL = 60 * 1000;
+const INDEXED_DB_TIMEOUT = 5000;
+const MIN_CHECK_INTERVAL = 1000;
+const TEST_DATABASE = '__student_analyst_storage_test__';
+const TEST_VALUE = 'test';
+
+// Dal più grave al meno grave
+const SEVERITY: StorageStatus[] = ['error', 'critical', 'warning', 'healthy'];
+
+const INITIAL_HEALTH: StorageHealth = {
+  localStorage: { status: 'unknown', usage: 0 },
+  sessionStorage: { status: 'unknown', usage: 0 },
+  indexedDB: { status: 'unknown', usage: 0 },
+  overall: 'healthy',
+  lastCheck: 0,
+  totalUsage: 0,
+  estimatedQuota: 0,
+};
+
+// ========== CLASSE ==========
+
+export class StorageMonitoringService {
+  private static instance: StorageMonitoringService | null = null;
+
+  private config: StorageMonitoringConfig = { ...DEFAULT_MONITORING_CONFIG };
+  private health: StorageHealth = cloneHealth(INITIAL_HEALTH);
+  private readonly listeners = new Set<StorageHealthListener>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private quotaCache: StorageQuotas | null = null;
+  private quotaCacheTime = 0;
+  private originUsage = 0; // byte usati dall'origine secondo estimate()
+  private isInitialized = false;
+  private isDisposed = false;
+
+  private readonly localStorage: IStorage | null;
+  private readonly sessionStorage: IStorage | null;
+  private readonly indexedDB: StorageMonitoringDependencies['indexedDB'] | null;
+  private readonly storageManager:
+    | StorageMonitoringDependencies['navigator']
+    | null;
+
+  constructor(dependencies: StorageMonitoringDependencies = {}) {
+    const browser = typeof window !== 'undefined' ? window : undefined;
+    this.localStorage =
+      dependencies.localStorage ?? browser?.localStorage ?? null;
+    this.sessionStorage =
+      dependencies.sessionStorage ?? browser?.sessionStorage ?? null;
+    this.indexedDB =
+      dependencies.indexedDB ??
+      (typeof indexedDB !== 'undefined' ? indexedDB : null);
+    this.storageManager =
+      dependencies.navigator ??
+      (typeof navigator !== 'undefined' ? navigator.storage : null) ??
+      null;
+  }
+
+  public static getInstance(
+    dependencies?: StorageMonitoringDependencies
+  ): StorageMonitoringService {
+    StorageMonitoringService.instance ??= new StorageMonitoringService(
+      dependencies
+    );
+    return StorageMonitoringService.instance;
+  }
+
+  /** Primo controllo; avvia il monitoraggio se enableAutoCheck */
+  public async initialize(): Promise<void> {
+    if (this.isInitialized || this.isDisposed) return;
+
+    await this.performHealthCheck();
+    if (this.isDisposed) return;
+
+    this.isInitialized = true;
+    if (this.config.enableAutoCheck) this.startMonitoring();
+  }
+
+  public startMonitoring(): void {
+    if (this.timer || this.isDisposed) return;
+
+    const interval = Number(this.config.checkInterval);
+    this.timer = setInterval(
+      () => {
+        void this.performHealthCheck();
+      },
+      Number.isFinite(interval)
+        ? Math.max(MIN_CHECK_INTERVAL, interval)
+        : DEFAULT_MONITORING_CONFIG.checkInterval
+    );
+  }
+
+  public stopMonitoring(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Controllo immediato, senza attendere il prossimo intervallo */
+  public forceHealthCheck(): Promise<StorageHealth> {
+    return this.performHealthCheck();
+  }
+
+  /** Ultimo stato rilevato (copia) */
+  public getStorageHealth(): StorageHealth {
+    return cloneHealth(this.health);
+  }
+
+  /**
+   * Quote stimate per storage, in cache per un minuto. Senza
+   * navigator.storage.estimate() (o se fallisce) valgono quote prudenziali.
+   */
+  public async getStorageQuotas(): Promise<StorageQuotas> {
+    if (this.quotaCache && Date.now() - this.quotaCacheTime < QUOTA_CACHE_TTL) {
+      return { ...this.quotaCache };
+    }
+    return { ...(await this.detectStorageQuotas()) };
+  }
+
+  /** Restituisce la funzione per rimuovere l'ascoltatore */
+  public onHealthChange(listener: StorageHealthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public getConfig(): StorageMonitoringConfig {
+    return { ...this.config };
+  }
+
+  /** Avvia o ferma il monitoraggio secondo enableAutoCheck e checkInterval */
+  public updateConfig(config: Partial<StorageMonitoringConfig>): void {
+    const previousInterval = this.config.checkInterval;
+    this.config = { ...this.config, ...config };
+
+    if (config.enableAutoCheck === false) {
+      this.stopMonitoring();
+    } else if (config.enableAutoCheck === true && !this.timer) {
+      this.startMonitoring();
+    } else if (this.timer && this.config.checkInterval !== previousInterval) {
+      this.stopMonitoring();
+      this.startMonitoring();
+    }
+  }
+
+  public isServiceInitialized(): boolean {
+    return this.isInitialized;
+  }
+
+  public isServiceMonitoring(): boolean {
+    return this.timer !== null;
+  }
+
+  /** Ferma il monitoraggio; l'istanza non può più essere riavviata */
+  public dispose(): void {
+    this.stopMonitoring();
+    this.listeners.clear();
+    this.isInitialized = false;
+    this.isDisposed = true;
+  }
+
+  private async detectStorageQuotas(): Promise<StorageQuotas> {
+    let quotas: StorageQuotas;
+    try {
+      const estimate = await this.storageManager?.estimate?.();
+      if (!estimate?.quota) {
+        throw new Error('navigator.storage.estimate() non disponibile');
+      }
+      this.originUsage = estimate.usage ?? 0;
+      quotas = {
+        localStorage: WEB_STORAGE_QUOTA,
+        sessionStorage: WEB_STORAGE_QUOTA,
+        indexedDB: estimate.quota,
+        total: 2 * WEB_STORAGE_QUOTA + estimate.quota,
+      };
+    } catch (error) {
+      console.error('❌ Errore rilevamento quote storage:', error);
+      quotas = { ...FALLBACK_QUOTAS };
+    }
+
+    this.quotaCache = quotas;
+    this.quotaCacheTime = Date.now();
+    return quotas;
+  }
+
+  private async performHealthCheck(): Promise<StorageHealth> {
+    try {
+      const quotas = await this.getStorageQuotas();
+      const indexedDBHealth = await this.checkIndexedDB();
+      const areas = {
+        localStorage: this.checkWebStorage(
+          this.localStorage,
+          '__storage_test__',
+          quotas.localStorage
+        ),
+        sessionStorage: this.checkWebStorage(
+          this.sessionStorage,
+          '__session_test__',
+          quotas.sessionStorage
+        ),
+        indexedDB:
+          indexedDBHealth.status === 'healthy'
+            ? {
+                status: this.classify(this.originUsage, quotas.indexedDB),
+                usage: this.originUsage,
+              }
+            : indexedDBHealth,
+      };
+      const totalUsage =
+        areas.localStorage.usage +
+        areas.sessionStorage.usage +
+        areas.indexedDB.usage;
+
+      this.updateHealth({
+        ...areas,
+        overall: worstStatus([
+          ...Object.values(areas).map(area => area.status),
+          this.classify(totalUsage, quotas.total),
+        ]),
+        lastCheck: Date.now(),
+        totalUsage,
+        estimatedQuota: quotas.total,
+      });
+    } catch (error) {
+      console.error('❌ Errore controllo stato storage:', error);
+      this.updateHealth({
+        ...this.health,
+        overall: 'error',
+        lastCheck: Date.now(),
+      });
+    }
+    return this.getStorageHealth();
+  }
+
+  // Prova di scrittura/lettura e byte UTF-16 di chiavi e valori presenti
+  private checkWebStorage(
+    storage: IStorage | null,
+    testKey: string,
+    quota: number
+  ): StorageAreaHealth {
+    if (!storage) {
+      return { status: 'error', usage: 0, error: 'Storage non disponibile' };
+    }
+
+    try {
+      storage.setItem(testKey, TEST_VALUE);
+      const retrieved = storage.getItem(testKey);
+      storage.removeItem(testKey);
+      if (retrieved !== TEST_VALUE) {
+        return { status: 'error', usage: 0, error: 'Read/write test failed' };
+      }
+
+      let characters = 0;
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key === null) continue;
+        characters += key.length + (storage.getItem(key)?.length ?? 0);
+      }
+      const usage = characters * 2;
+      return { status: this.classify(usage, quota), usage };
+    } catch (error) {
+      return {
+        status: 'error',
+        usage: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Apertura e cancellazione di un database di prova
+  private checkIndexedDB(): Promise<StorageAreaHealth> {
+    const factory = this.indexedDB;
+    if (!factory) {
+      return Promise.resolve({
+        status: 'error',
+        usage: 0,
+        error: 'IndexedDB non disponibile',
+      });
+    }
+
+    return new Promise(resolve => {
+      const timeout = setTimeout(
+        () =>
+          resolve({
+            status: 'warning',
+            usage: 0,
+            error: 'IndexedDB response timeout',
+          }),
+        INDEXED_DB_TIMEOUT
+      );
+      const settle = (result: StorageAreaHealth) => {
+        clearTimeout(timeout);
+        resolve(result);
+      };
+
+      try {
+        const request = factory.open(TEST_DATABASE, 1);
+        request.onerror = () =>
+          settle({
+            status: 'error',
+            usage: 0,
+            error: 'Failed to open test database',
+          });
+        request.onsuccess = () => {
+          request.result.close();
+          const deletion = factory.deleteDatabase(TEST_DATABASE);
+          // Un database di prova rimasto non compromette lo stato
+          deletion.onsuccess = deletion.onerror = () =>
+            settle({ status: 'healthy', usage: 0 });
+        };
+      } catch (error) {
+        settle({
+          status: 'error',
+          usage: 0,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+  }
+
+  private classify(usage: number, quota: number): StorageStatus {
+    const ratio = quota > 0 ? usage / quota : 0;
+    if (ratio >= this.config.criticalThreshold) return 'critical';
+    if (ratio >= this.config.warningThreshold) return 'warning';
+    return 'healthy';
+  }
+
+  private updateHealth(health: StorageHealth): void {
+    const previous = this.health.overall;
+    this.health = health;
+    if (health.overall === previous) return;
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.getStorageHealth());
+      } catch (error) {
+        console.error('[ERROR] Storage monitoring: listener fallito', error);
+      }
+    });
+  }
+}
+
+// ========== FUNZIONI PRIVATE ==========
+
+const cloneHealth = (health: StorageHealth): StorageHealth => ({
+  ...health,
+  localStorage: { ...health.localStorage },
+  sessionStorage: { ...health.sessionStorage },
+  indexedDB: { ...health.indexedDB },
+});
+
+const worstStatus = (statuses: StorageStatus[]): StorageHealth['overall'] =>
+  (SEVERITY.find(status => statuses.includes(status)) ??
+    'healthy') as StorageHealth['overall'];
+
+export default StorageMonitoringService;
@@ -1,5 +1,463 @@
 // src/services/analysisAPI.ts
 
+import { cacheService } from '@/features/cache/services/CacheService';
+
+export type RebalancingPolicy =
+  | { type: 'buy-and-hold' }
+  | { type: 'calendar'; frequency: 'monthly' | 'quarterly' | 'annual' }
+  | { type: 'threshold'; threshold: number };
+
+export interface RebalanceEvent {
+  date: string;
+  turnover: number;
+  maxDrift: number;
+  weightsBefore: Record<string, number>;
+}
+
+// Rendimento di solo prezzo oppure totale (dividendi reinvestiti)
+export type ReturnMode = 'price' | 'total';
+
+export interface ReturnComparison {
+  symbol: string;
+  priceReturn: number;
+  totalReturn: number;
+  dividendContribution: number;
+  dividendCount?: number;
+  adjustmentSource: 'provider' | 'dividends' | 'none';
+}
+
+// Report di qualità dati per ticker (DataTransformer lato backend)
+export interface TickerDataQuality {
+  symbol: string;
+  source: string;
+  qualityScore: number;
+  recordsProcessed: number;
+  recordsSkipped: number;
+  firstDate: string;
+  lastDate: string;
+  detectedSplits: {
+    date: string;
+    splitRatio: number;
+    splitFrom: number;
+    splitTo: number;
+    confidence: number;
+  }[];
+  volumeAnomalies: {
+    date: string;
+    type: string;
+    severity: 'LOW' | 'MEDIUM' | 'HIGH';
+    description: string;
+  }[];
+  gaps: { from: string; to: string; calendarDays: number }[];
+  priceAnomalies: string[];
+  incompleteSeries: boolean;
+  lateStart: boolean;
+}
+
+// Esito dello scaricamento di ciascun ticker richiesto
+export interface TickerStatus {
+  symbol: string;
+  status: 'ok' | 'failed';
+  source?: string;
+  fallbackUsed: boolean;
+  dataPoints: number;
+  firstDate?: string;
+  lastDate?: string;
+  error?: TickerErrorInfo;
+}
+
+// Distribuzione dei rendimenti per periodo e test di normalità
+export interface NormalityTest {
+  statistic: number;
+  pValue: number;
+  rejectNormality: boolean;
+}
+
+export interface TailFrequency {
+  sigmas: number;
+  below: number;
+  above: number;
+  frequency: number;
+  normalFrequency: number;
+  ratio: number;
+}
+
+export interface SeriesDistribution {
+  symbol: string;
+  observations: number;
+  mean: number;
+  median: number;
+  standardDeviation: number;
+  skewness: number;
+  excessKurtosis: number;
+  percentiles: { level: number; value: number }[];
+  interquartileRange: number;
+  coefficientOfVariation: number | null;
+  jarqueBera: NormalityTest;
+  shapiroWilk: NormalityTest | null;
+  tails: TailFrequency[];
+  histogram: { binEdges: number[]; counts: number[]; normalCounts: number[] };
+  qqPlot: { theoretical: number; sample: number }[];
+}
+
+export interface DistributionReport {
+  significance: number;
+  tickers: SeriesDistribution[];
+  portfolio: SeriesDistribution | null;
+}
+
+// Value at Risk / CVaR (perdite positive in frazione del valore)
+export type VaRMethod =
+  | 'historical'
+  | 'parametric-normal'
+  | 'cornish-fisher'
+  | 'monte-carlo';
+
+export type VaRHorizon = '1d' | '10d' | '1m';
+
+export interface VaREstimate {
+  method: VaRMethod;
+  confidence: number;
+  horizon: VaRHorizon;
+  var: number;
+  cvar: number;
+  scaled: boolean;
+}
+
+export interface SeriesRiskReport {
+  symbol: string;
+  observations: number;
+  moments: {
+    mean: number;
+    standardDeviation: number;
+    skewness: number;
+    excessKurtosis: number;
+  };
+  estimates: VaREstimate[];
+  histograms: Partial<
+    Record<VaRHorizon, { binEdges: number[]; counts: number[] }>
+  >;
+}
+
+export interface ValueAtRiskReport {
+  confidenceLevels: number[];
+  horizons: VaRHorizon[];
+  horizonPeriods: Partial<Record<VaRHorizon, number>>;
+  simulations: number;
+  tickers: SeriesRiskReport[];
+  portfolio: SeriesRiskReport | null;
+}
+
+// Modelli di volatilità (valori annualizzati, stima alla chiusura di ogni data)
+export interface RollingVolatility {
+  window: number; // giorni di borsa
+  periods: number;
+  values: (number | null)[];
+}
+
+export interface GarchParameters {
+  omega: number;
+  alpha: number;
+  beta: number;
+}
+
+export interface GarchForecastStep {
+  step: number;
+  volatility: number;
+  termVolatility: number;
+  lower: number;
+  upper: number;
+}
+
+export interface GarchFit {
+  mean: number;
+  parameters: GarchParameters;
+  standardErrors: GarchParameters | null;
+  persistence: number;
+  longRunVolatility: number;
+  halfLife: number | null;
+  logLikelihood: number;
+  aic: number;
+  bic: number;
+  iterations: number;
+  converged: boolean;
+  conditionalVolatility: number[];
+  forecast: GarchForecastStep[];
+}
+
+export interface SeriesVolatilityReport {
+  symbol: string;
+  observations: number;
+  dates: string[];
+  realizedVolatility: number;
+  rolling: RollingVolatility[];
+  ewma: { lambda: number; values: number[]; current: number };
+  garch: GarchFit | null;
+}
+
+export interface VolatilityReport {
+  periodsPerYear: number;
+  forecastDays: number;
+  forecastPeriods: number;
+  ewmaLambda: number;
+  coneConfidence: number;
+  tickers: SeriesVolatilityReport[];
+  portfolio: SeriesVolatilityReport | null;
+}
+
+// Correlazioni coppia per coppia sulle date comuni, mobili e per regime
+export type CorrelationMethod = 'pearson' | 'spearman' | 'kendall';
+
+export type MarketRegime = 'calm' | 'stressed';
+
+export interface CorrelationMatrixData {
+  symbols: string[];
+  matrix: (number | null)[][]; // null: date comuni insufficienti
+  observations?: number[][];
+}
+
+export interface PairCorrelation {
+  symbols: [string, string];
+  dates: string[];
+  returns: [number[], number[]];
+  correlation: number | null;
+  rolling: (number | null)[];
+  regimes: (MarketRegime | null)[];
+  calm: number | null;
+  stressed: number | null;
+}
+
+export interface RegimeAnalysis {
+  proxy: string;
+  threshold: number; // volatilità annualizzata del mercato
+  calmPeriods: number;
+  stressedPeriods: number;
+  stressedIntervals: Array<{ start: string; end: string }>;
+  calm: CorrelationMatrixData;
+  stressed: CorrelationMatrixData;
+}
+
+// Clustering gerarchico sulla distanza di correlazione
+export type LinkageMethod = 'single' | 'complete' | 'average' | 'ward';
+
+export interface ClusterMerge {
+  left: number; // 0..n-1 foglie, n + k fusione k-esima
+  right: number;
+  height: number;
+  size: number;
+}
+
+export interface ClusterGroup {
+  cluster: number;
+  symbols: string[];
+  averageCorrelation: number | null;
+  redundant: boolean;
+}
+
+export interface LinkageClustering {
+  linkage: LinkageMethod;
+  merges: ClusterMerge[];
+  order: number[];
+  cutHeight: number;
+  clusters: number;
+  silhouette: number;
+  silhouetteScores: { clusters: number; score: number }[];
+  membership: { symbol: string; cluster: number; silhouette: number }[];
+  groups: ClusterGroup[];
+}
+
+export interface ClusterReport {
+  symbols: string[];
+  linkage: LinkageMethod;
+  redundancyThreshold: number;
+  correlation: number[][];
+  distance: number[][];
+  results: LinkageClustering[];
+}
+
+// Test di stazionarietà ADF / KPSS con trasformazioni raccomandate
+export type StationarityVerdict =
+  | 'stationary'
+  | 'non-stationary'
+  | 'inconclusive';
+
+export type StationarityTransformation =
+  | 'level'
+  | 'log'
+  | 'difference'
+  | 'log-difference'
+  | 'second-difference';
+
+export interface UnitRootTest {
+  statistic: number;
+  pValue: number;
+  pValueBound: 'lower' | 'upper' | null; // p-value fuori tabella
+  criticalValues: { level: number; value: number }[];
+  lags: number;
+  observations: number;
+  rejectNull: boolean;
+  maxLag?: number; // solo ADF
+  aic?: number;
+}
+
+export interface SeriesStationarity {
+  observations: number;
+  adf: UnitRootTest;
+  kpss: UnitRootTest;
+  verdict: StationarityVerdict;
+  validation: {
+    firstMean: number;
+    secondMean: number;
+    firstVariance: number;
+    secondVariance: number;
+    meanTStat: number;
+    varianceRatio: number;
+    stable: boolean;
+  };
+}
+
+export interface TickerStationarity {
+  symbol: string;
+  logPreferred: boolean;
+  steps: (SeriesStationarity & {
+    transformation: StationarityTransformation;
+  })[];
+  recommended: StationarityTransformation | null;
+  returns: SeriesStationarity | null;
+}
+
+export interface StationarityReport {
+  significance: number;
+  minObservations: number;
+  tickers: TickerStationarity[];
+}
+
+// Confronto con il benchmark (metriche relative e crescita di 100)
+export interface RelativeMetrics {
+  symbol: string;
+  observations: number;
+  totalReturn: number;
+  benchmarkTotalReturn: number;
+  annualizedReturn: number;
+  benchmarkAnnualizedReturn: number;
+  excessReturn: number;
+  trackingError: number;
+  informationRatio: number;
+  beta: number;
+  alpha: number;
+  correlation: number;
+  upCapture: number;
+  downCapture: number;
+}
+
+export interface BenchmarkComparisonReport {
+  benchmark: string;
+  riskFreeRate: number;
+  metrics: RelativeMetrics[];
+  growth: {
+    dates: string[];
+    benchmark: number[];
+    series: Record<string, Array<number | null>>;
+  };
+}
+
+// Regressioni CAPM e multifattoriali (Fama-French, momentum)
+export type FactorName = 'MKT_RF' | 'SMB' | 'HML' | 'RMW' | 'CMA' | 'MOM';
+
+export type FactorModel = 'ff3' | 'carhart' | 'ff5' | 'ff5-mom';
+
+export interface RegressionCoefficient {
+  name: 'ALPHA' | 'MKT' | FactorName;
+  estimate: number;
+  standardError: number;
+  tStat: number;
+  pValue: number;
+}
+
+export interface RegressionResult {
+  symbol: string;
+  model: 'capm' | FactorModel;
+  coefficients: RegressionCoefficient[];
+  observations: number;
+  degreesOfFreedom: number;
+  rSquared: number;
+  adjustedRSquared: number;
+  residualStandardError: number;
+  annualizedAlpha: number;
+}
+
+export interface CapmResult extends RegressionResult {
+  beta: number;
+  rollingBeta: {
+    window: number;
+    dates: string[];
+    values: Array<number | null>;
+  };
+}
+
+export interface RegressionReport {
+  market: string | null;
+  riskFreeSource: 'factor-file' | 'constant';
+  periodsPerYear: number;
+  capm: CapmResult[];
+  factorModels: RegressionResult[];
+  factorFile: {
+    frequency: 'daily' | 'monthly';
+    factors: FactorName[];
+    hasRiskFree: boolean;
+    unit: 'percent' | 'decimal';
+    firstDate: string;
+    lastDate: string;
+    rows: number;
+  } | null;
+  warnings: string[];
+}
+
+export type AllocationMethod =
+  | 'equal-risk-contribution'
+  | 'maximum-diversification'
+  | 'minimum-correlation'
+  | 'hierarchical-risk-parity';
+
+export interface AllocationResult {
+  method: AllocationMethod;
+  weights: Record<string, number>;
+  riskContributions: Record<string, number>;
+  volatility: number;
+  diversificationRatio: number;
+}
+
+export interface RiskAllocationReport {
+  symbols: string[];
+  periodsPerYear: number;
+  allocations: AllocationResult[];
+  hierarchicalOrder: string[];
+}
+
+// Colonne OHLCV per ticker della tabella dei dati storici (null = mancante)
+export interface HistoricalTableSeries {
+  symbol: string;
+  dates: string[];
+  open: (number | null)[];
+  high: (number | null)[];
+  low: (number | null)[];
+  close: (number | null)[];
+  adjustedClose: (number | null)[];
+  volume: (number | null)[];
+  returns: (number | null)[];
+}
+
+// Riga OHLCV piatta (una per data e ticker), alternativa a historicalTable
+export interface HistoricalDataRow {
+  date: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  volume: number | null;
+  symbol: string;
+}
+
 export interface AnalysisApiResponse {
   historicalData: {
     labels: string[];
@@ -8,23 +466,54 @@ export interface AnalysisApiResponse {
       data: number[];
       borderColor: string;
     }[];
+    data?: HistoricalDataRow[] | null;
   };
+  historicalTable?: HistoricalTableSeries[];
   performanceMetrics: {
     label: string;
     value: string;
   }[];
+  distribution?: DistributionReport | null;
   volatility: {
     annualizedVolatility: number;
     sharpeRatio: number;
   } | null;
+  volatilityModels?: VolatilityReport | null;
   correlation: {
-    correlationMatrix: {
-      symbols: string[];
-      matrix: number[][];
-    };
+    correlationMatrix: CorrelationMatrixData;
+    covarianceMatrix?: (number | null)[][];
     diversificationIndex: number;
     averageCorrelation: number;
+    method?: CorrelationMethod;
+    minOverlap?: number;
+    rollingWindowDays?: number;
+    rollingWindowPeriods?: number;
+    stressQuantile?: number;
+    regimes?: RegimeAnalysis | null;
+    pairs?: PairCorrelation[];
+  } | null;
+  clusterAnalysis?: ClusterReport | null;
+  stationarity?: StationarityReport | null;
+  portfolio?: {
+    allocationMethod: 'equal' | 'weights' | 'shares';
+    weights: Record<string, number>;
+    initialCapital: number;
+    finalValue: number;
+    rebalancing?: {
+      policy: RebalancingPolicy;
+      dates: string[];
+      rebalanceDates: string[];
+      rebalanceEvents: RebalanceEvent[];
+      weightsOverTime: Record<string, number[]>;
+      drift: number[];
+      totalTurnover: number;
+    };
   } | null;
+  returnComparison?: ReturnComparison[];
+  valueAtRisk?: ValueAtRiskReport | null;
+  benchmark?: BenchmarkComparisonReport | null;
+  regression?: RegressionReport | null;
+  riskAllocation?: RiskAllocationReport | null;
   marketPhases?: {
     bullMarkets: Array<{
       start: string;
@@ -45,8 +534,12 @@ export interface AnalysisApiResponse {
     symbols: string[];
     period: { start: string; end: string };
     frequency: string;
+    returnType?: ReturnMode;
+    benchmark?: string;
     dataPoints: number;
     processingTime: number;
+    dataQuality?: TickerDataQuality[];
+    tickerStatus?: TickerStatus[];
     dataSources?: {
       primary: string;
       fallbacks: string[];
@@ -59,6 +552,226 @@ interface AnalysisParams {
   startDate: string;
   endDate: string;
   frequency: 'daily' | 'weekly' | 'monthly';
+  // Giorno di chiusura delle barre settimanali (default: friday)
+  weekAnchor?:
+    | 'monday'
+    | 'tuesday'
+    | 'wednesday'
+    | 'thursday'
+    | 'friday'
+    | 'saturday'
+    | 'sunday';
+  // Pesi percentuali per ticker (somma 100) oppure numero di azioni
+  weights?: Record<string, number>;
+  shares?: Record<string, number>;
+  initialCapital?: number;
+  rebalancing?: RebalancingPolicy;
+  returnType?: ReturnMode;
+  // Livelli di confidenza e orizzonti del VaR (default: tutti)
+  varConfig?: { confidenceLevels?: number[]; horizons?: VaRHorizon[] };
+  // Orizzonte della previsione GARCH (giorni, default 21) e λ EWMA (0.94)
+  volatilityConfig?: { forecastDays?: number; ewmaLambda?: number };
+  correlationConfig?: {
+    method?: CorrelationMethod;
+    minOverlap?: number;
+    rollingWindowDays?: number;
+    stressQuantile?: number;
+  };
+  clusterConfig?: { linkage?: LinkageMethod };
+  // Simbolo del benchmark (default ^GSPC)
+  benchmark?: string;
+  // Contenuto del CSV dei fattori (Fama-French / momentum)
+  factorData?: string;
+  // Storici prezzi importati da file (al posto del download per quei simboli)
+  importedSeries?: ImportedSeries[];
+}
+
+// Import di storici prezzi da CSV/XLSX (POST /api/analysis/import)
+export interface ImportedBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  adjustedClose?: number;
+  volume: number;
+}
+
+export interface ImportedSeries {
+  symbol: string;
+  source: string;
+  data: ImportedBar[];
+}
+
+export interface ImportIssue {
+  row: number;
+  column?: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export type PriceColumn =
+  | 'date'
+  | 'open'
+  | 'high'
+  | 'low'
+  | 'close'
+  | 'adjustedClose'
+  | 'volume';
+
+export interface PriceImportResult {
+  fileName: string;
+  format: 'csv' | 'xlsx';
+  layout: 'ohlcv' | 'wide';
+  columns: string[];
+  mapping: Partial<Record<PriceColumn, string>>;
+  dateFormat: string;
+  decimalSeparator: '.' | ',';
+  rowsRead: number;
+  rowsSkipped: number;
+  series: ImportedSeries[];
+  issues: ImportIssue[];
+  issueCount: number;
+}
+
+// Anagrafica simboli e validazione dei ticker (GET /api/symbols)
+export type AssetType =
+  | 'equity'
+  | 'etf'
+  | 'fund'
+  | 'index'
+  | 'crypto'
+  | 'currency';
+
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  exchange: string;
+  currency: string;
+  assetType: AssetType;
+}
+
+export interface LatestClose {
+  date: string;
+  close: number;
+  previousClose: number | null;
+  changePercent: number | null;
+}
+
+export interface SymbolValidation {
+  symbol: string;
+  status: 'valid' | 'invalid';
+  info: SymbolInfo | null;
+  inMaster: boolean;
+  lastClose: LatestClose | null;
+  suggestions: string[];
+  message?: string;
+}
+
+// Errore classificato restituito dal backend ({ success: false, error })
+export interface TickerErrorInfo {
+  symbol: string;
+  type: string;
+  title: string;
+  message: string;
+  detail?: string;
+  retryable: boolean;
+}
+
+export interface ApiErrorInfo {
+  id: string;
+  type: string;
+  code: string;
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  title: string;
+  message: string;
+  detail?: string;
+  actions: string[];
+  retryable: boolean;
+  retryAfter?: number; // secondi
+  tickers?: TickerErrorInfo[];
+}
+
+/**
+ * Errore di una chiamata al backend: il messaggio è il motivo specifico
+ * quando disponibile, i dettagli completi restano in info
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly info: ApiErrorInfo,
+    public readonly status?: number
+  ) {
+    super(info.detail ?? info.message);
+    this.name = 'ApiError';
+  }
+
+  static fromResponse(status: number, body: unknown): ApiError {
+    const error = (body as { error?: unknown } | null)?.error;
+    if (error && typeof error === 'object') {
+      return new ApiError(error as ApiErrorInfo, status);
+    }
+
+    // Risposte non JSON o nel vecchio formato { error: string }
+    const message =
+      typeof error === 'string' ? error : `Errore del server: ${status}`;
+    return new ApiError(
+      {
+        id: '',
+        type: 'UNKNOWN_ERROR',
+        code: `HTTP_${status}`,
+        severity: 'HIGH',
+        title: 'Errore del server',
+        message,
+        actions: [],
+        retryable: status >= 500,
+      },
+      status
+    );
+  }
+}
+
+// Analisi asincrona (POST /api/analysis/jobs) e relativo progresso
+export type AnalysisJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface AnalysisProgress {
+  queueSize: number; // ticker ancora da scaricare
+  completed: number;
+  failed: number;
+  total: number;
+  percentage: number;
+  estimatedTimeRemainingMs: number;
+  currentRequest?: string;
+  errors: { symbol: string; error: string; timestamp: string }[];
+}
+
+export interface AnalysisProgressEvent {
+  type: 'started' | 'progress' | 'completed' | 'error' | 'cancelled';
+  batchId: string; // id del job
+  progress: AnalysisProgress;
+  message?: string;
+}
+
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  tickers: string[];
+  queuePosition?: number;
+  progress: AnalysisProgress;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: AnalysisApiResponse;
+  error?: ApiErrorInfo;
+}
+
+export interface AnalysisRunOptions {
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  signal?: AbortSignal;
 }
 
 // Configurazione API URL - Uso import.meta.env per Vite
@@ -66,36 +779,193 @@ const API_BASE_URL =
   import.meta.env.VITE_BACKEND_URL || 'http://localhost:10000';
 console.log('[DEBUG] API_BASE_URL:', API_BASE_URL);
 
-export const fetchAnalysisData = async (
-  params: AnalysisParams
+// Analisi già eseguite con gli stessi parametri: servite dalla cache client
+const ANALYSIS_CACHE_TTL = 30 * 60 * 1000; // 30 minuti
+
+// Polling dello stato del job quando lo stream SSE non è disponibile
+const JOB_POLL_INTERVAL_MS = 2000;
+
+const JOB_EVENT_TYPES: Record<
+  AnalysisJobStatus,
+  AnalysisProgressEvent['type']
+> = {
+  queued: 'progress',
+  running: 'progress',
+  completed: 'completed',
+  failed: 'error',
+  cancelled: 'cancelled',
+};
+
+// Chiave compatta: i parametri possono includere interi file importati
+const analysisCacheKey = (params: AnalysisParams): string => {
+  const text = JSON.stringify(params);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 =
+    Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+    Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 =
+    Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+    Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `analysis:${(h2 >>> 0).toString(36)}${(h1 >>> 0).toString(36)}:${text.length}`;
+};
+
+export const fetchAnalysisData = (
+  params: AnalysisParams,
+  options: AnalysisRunOptions = {}
+): Promise<AnalysisApiResponse> =>
+  cacheService.getOrFetch(
+    analysisCacheKey(params),
+    () => runAnalysisJob(params, options),
+    { ttl: ANALYSIS_CACHE_TTL }
+  );
+
+/**
+ * Esegue l'analisi come job asincrono: il progresso arriva dallo stream SSE
+ * del job, l'esito (risultato o errore classificato) da GET /jobs/:id.
+ * L'abort del segnale annulla il job anche sul backend.
+ */
+const runAnalysisJob = async (
+  params: AnalysisParams,
+  { onProgress, signal }: AnalysisRunOptions
 ): Promise<AnalysisApiResponse> => {
-  const API_URL = `${API_BASE_URL}/api/analysis`;
+  const job = await fetchBackendData<AnalysisJob>(
+    `${API_BASE_URL}/api/analysis/jobs`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+    }
+  );
+  const jobUrl = `${API_BASE_URL}/api/analysis/jobs/${job.id}`;
 
-  const response = await fetch(API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(params),
+  await new Promise<void>((resolve, reject) => {
+    const source = new EventSource(`${jobUrl}/events`);
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const stop = () => {
+      source.close();
+      clearTimeout(pollTimer);
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      stop();
+      void fetch(jobUrl, { method: 'DELETE' }).catch(() => undefined);
+      reject(new DOMException('Analisi annullata', 'AbortError'));
+    };
+    const handleEvent = (event: AnalysisProgressEvent) => {
+      onProgress?.(event);
+      if (['completed', 'error', 'cancelled'].includes(event.type)) {
+        stop();
+        resolve();
+      }
+    };
+    const poll = () => {
+      fetchBackendData<AnalysisJob>(jobUrl)
+        .then(current => {
+          if (signal?.aborted) return;
+          const type = JOB_EVENT_TYPES[current.status];
+          handleEvent({
+            type,
+            batchId: current.id,
+            progress: current.progress,
+          });
+          if (type === 'progress') {
+            pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+          }
+        })
+        .catch(error => {
+          stop();
+          reject(error);
+        });
+    };
+
+    if (signal?.aborted) {
+      cancel();
+      return;
+    }
+    signal?.addEventListener('abort', cancel);
+    source.onmessage = message =>
+      handleEvent(JSON.parse(message.data) as AnalysisProgressEvent);
+    source.onerror = () => {
+      source.close();
+      if (pollTimer === undefined) poll();
+    };
   });
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({
-      error: 'La risposta del server non è un JSON valido.',
-    }));
-    throw new Error(errorData.error || `Errore del server: ${response.status}`);
+  const finished = await fetchBackendData<AnalysisJob>(jobUrl);
+  if (finished.status === 'completed' && finished.result) {
+    console.log('✅ Dati ricevuti dal backend:', finished.result);
+    return finished.result;
   }
+  if (finished.status === 'cancelled') {
+    throw new DOMException('Analisi annullata', 'AbortError');
+  }
+  throw finished.error
+    ? new ApiError(finished.error)
+    : ApiError.fromResponse(500, {
+        error: 'Formato response non valido dal backend',
+      });
+};
 
-  const responseData = await response.json();
+// Estrae il campo 'data' dalle risposte { success, data } del backend
+const fetchBackendData = async <T>(
+  url: string,
+  init?: RequestInit
+): Promise<T> => {
+  const response = await fetch(url, init);
+  const responseData = await response.json().catch(() => ({
+    error: 'La risposta del server non è un JSON valido.',
+  }));
 
-  // Il backend restituisce { success: true, data: {...}, timestamp: "..." }
-  // Estraiamo solo il campo 'data' che contiene i dati dell'analisi
-  if (responseData.success && responseData.data) {
-    console.log('✅ Dati ricevuti dal backend:', responseData.data);
-    return responseData.data;
-  } else {
-    throw new Error(
-      responseData.error || 'Formato response non valido dal backend'
-    );
+  if (!response.ok || !responseData.success) {
+    throw ApiError.fromResponse(response.status, responseData);
   }
+  return responseData.data as T;
+};
+
+export const validateSymbol = (symbol: string): Promise<SymbolValidation> =>
+  fetchBackendData(
+    `${API_BASE_URL}/api/symbols/validate?symbol=${encodeURIComponent(symbol)}`
+  );
+
+export const searchSymbols = (
+  query: string,
+  limit = 10
+): Promise<SymbolInfo[]> =>
+  fetchBackendData(
+    `${API_BASE_URL}/api/symbols/search?q=${encodeURIComponent(query)}&limit=${limit}`
+  );
+
+// Il file viene inviato come testo (CSV) o in base64 (XLSX)
+export const importPriceFile = async (
+  file: File,
+  symbol?: string
+): Promise<PriceImportResult> => {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  const content = isXlsx
+    ? await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () =>
+          resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+        reader.onerror = () => reject(new Error('Lettura del file fallita'));
+        reader.readAsDataURL(file);
+      })
+    : await file.text();
+
+  return fetchBackendData(`${API_BASE_URL}/api/analysis/import`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      fileName: file.name,
+      content,
+      encoding: isXlsx ? 'base64' : 'text',
+      ...(symbol && { symbol }),
+    }),
+  });
 };
@@ -0,0 +1,29 @@
+/** Livelli della cache client: memoria, localStorage, IndexedDB */
+export type CacheLayer = 'L1' | 'L2' | 'L3';
+
+/**
+ * Operazioni dei tre livelli usate dalla pulizia automatica: permettono di
+ * iniettare cache finte nei test.
+ */
+export interface IMemoryCache {
+  keys(): string[];
+  remove(key: string): boolean;
+  clear(): void;
+  cleanup(): number;
+  getStats(): { memoryUsage: number };
+  getConfig?(): { maxMemoryUsage: number };
+}
+
+export interface ILocalStorageCache {
+  keys(): string[];
+  delete(key: string): boolean;
+  clear(): void;
+  cleanup(): number;
+}
+
+export interface IIndexedDBCache {
+  getAllKeys(): Promise<string[]>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  cleanup(): Promise<number>;
+}
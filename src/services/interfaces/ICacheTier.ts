@@ -0,0 +1,16 @@
+/** Statistiche comuni ai livelli della cache client (L1/L2/L3) */
+export interface CacheTierStats {
+  entries: number;
+  bytes: number; // stima dello spazio occupato
+  maxEntries: number;
+  maxBytes: number;
+  evictions: number; // voci rimosse per far posto (LRU)
+  expirations: number; // voci rimosse per TTL scaduto
+}
+
+/** Limiti e durata predefinita di un livello */
+export interface CacheTierConfig {
+  maxEntries: number;
+  maxBytes: number;
+  defaultTTL: number; // ms
+}
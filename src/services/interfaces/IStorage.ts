@@ -0,0 +1,11 @@
+/**
+ * Sottoinsieme di Storage (localStorage/sessionStorage) usato dalla cache L2:
+ * permette di iniettare uno storage finto nei test.
+ */
+export interface IStorage {
+  readonly length: number;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  key(index: number): string | null;
+}
@@ -0,0 +1,40 @@
+// Utility per la gestione dei pesi di portafoglio lato client
+
+export type AllocationMode = 'equal' | 'weights' | 'shares';
+
+/**
+ * Normalizza pesi grezzi in percentuali che sommano a 100.
+ * Valori mancanti, negativi o non numerici vengono trattati come 0;
+ * se la somma è nulla restituisce pesi uguali.
+ */
+export const normalizeWeights = (
+  tickers: string[],
+  rawWeights: Record<string, number>
+): Record<string, number> => {
+  if (tickers.length === 0) return {};
+
+  const values = tickers.map(ticker => {
+    const value = Number(rawWeights[ticker]);
+    return Number.isFinite(value) && value > 0 ? value : 0;
+  });
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  return Object.fromEntries(
+    tickers.map((ticker, index) => [
+      ticker,
+      total > 0 ? ((values[index] ?? 0) / total) * 100 : 100 / tickers.length,
+    ])
+  );
+};
+
+/**
+ * Somma dei pesi grezzi inseriti dall'utente (per il feedback live)
+ */
+export const sumWeights = (
+  tickers: string[],
+  rawWeights: Record<string, number>
+): number =>
+  tickers.reduce((sum, ticker) => {
+    const value = Number(rawWeights[ticker]);
+    return sum + (Number.isFinite(value) && value > 0 ? value : 0);
+  }, 0);
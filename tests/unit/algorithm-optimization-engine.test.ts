@@ -272,4 +272,109 @@ describe('AlgorithmOptimizationEngine', () => {
       expect(result[0].length).toBe(3);
     });
   });
+
+  describe('Mean-Variance Optimization', () => {
+    // Serie deterministiche con medie, volatilità e correlazioni diverse
+    const periods = 500;
+    const shockA = Array.from({ length: periods }, (_, t) => Math.sin(t * 1.7));
+    const shockB = Array.from({ length: periods }, (_, t) => Math.cos(t * 2.3));
+    const shockC = Array.from({ length: periods }, (_, t) => Math.sin(t * 0.9));
+    const input = {
+      symbols: ['AAA', 'BBB', 'CCC'],
+      returns: [
+        shockA.map(value => 0.0006 + 0.01 * value),
+        shockA.map((value, t) => 0.0003 + 0.004 * value + 0.006 * shockB[t]),
+        shockC.map((value, t) => 0.0002 + 0.008 * value + 0.002 * shockB[t]),
+      ],
+      periodsPerYear: 252,
+    };
+
+    const twoAssets = {
+      ...input,
+      symbols: ['AAA', 'BBB'],
+      returns: input.returns.slice(0, 2),
+    };
+
+    it('matches the closed-form minimum-variance and tangency weights', async () => {
+      const covariance = (
+        await engine.calculateOptimizedCovariance(twoAssets.returns)
+      ).map(row => row.map(value => value * 252));
+      const [[varA, covAB], [, varB]] = covariance;
+      const excess = twoAssets.returns.map(
+        series =>
+          (series.reduce((sum, value) => sum + value, 0) / series.length) *
+            252 -
+          0.02
+      );
+
+      const minVariance = await engine.minimumVariance(twoAssets);
+      expect(minVariance.weights.AAA).toBeCloseTo(
+        (varB - covAB) / (varA + varB - 2 * covAB),
+        4
+      );
+
+      const maxSharpe = await engine.maximumSharpe(twoAssets);
+      const tangency =
+        (excess[0] * varB - excess[1] * covAB) /
+        (excess[0] * varB + excess[1] * varA - (excess[0] + excess[1]) * covAB);
+      expect(maxSharpe.weights.AAA).toBeCloseTo(tangency, 3);
+      expect(maxSharpe.sharpeRatio).toBeGreaterThanOrEqual(
+        minVariance.sharpeRatio
+      );
+    });
+
+    it('respects long-only and box constraints', async () => {
+      const portfolio = await engine.maximumSharpe({
+        ...input,
+        constraints: { minWeight: 0.1, maxWeight: 0.4 },
+      });
+      const weights = Object.values(portfolio.weights);
+
+      expect(weights.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1, 8);
+      weights.forEach(value => {
+        expect(value).toBeGreaterThanOrEqual(0.1 - 1e-8);
+        expect(value).toBeLessThanOrEqual(0.4 + 1e-8);
+      });
+
+      await expect(
+        engine.minimumVariance({ ...input, constraints: { maxWeight: 0.3 } })
+      ).rejects.toThrow('Vincoli incompatibili');
+    });
+
+    it('hits a target return with minimum variance', async () => {
+      const frontier = await engine.efficientFrontier(input, 10);
+      const target = (frontier.returnRange.min + frontier.returnRange.max) / 2;
+      const portfolio = await engine.targetReturn(input, target);
+
+      expect(portfolio.expectedReturn).toBeCloseTo(target, 5);
+      expect(portfolio.volatility).toBeGreaterThanOrEqual(
+        frontier.minimumVariance.volatility
+      );
+      await expect(
+        engine.targetReturn(input, frontier.returnRange.max + 0.05)
+      ).rejects.toThrow('non raggiungibile');
+    });
+
+    it('samples an increasing efficient frontier', async () => {
+      const frontier = await engine.efficientFrontier(input, 12);
+
+      expect(frontier.points).toHaveLength(12);
+      expect(frontier.assets.map(asset => asset.symbol)).toEqual(input.symbols);
+      expect(frontier.points[0].volatility).toBeCloseTo(
+        frontier.minimumVariance.volatility,
+        5
+      );
+      frontier.points.slice(1).forEach((point, i) => {
+        expect(point.expectedReturn).toBeGreaterThan(
+          frontier.points[i].expectedReturn
+        );
+        expect(point.volatility).toBeGreaterThanOrEqual(
+          frontier.points[i].volatility - 1e-9
+        );
+        expect(point.sharpeRatio).toBeLessThanOrEqual(
+          frontier.maximumSharpe.sharpeRatio + 1e-6
+        );
+      });
+    });
+  });
 });
@@ -1,4 +1,6 @@
 /**
+ * @jest-environment node
+ *
  * STUDENT ANALYST - AutomaticCleanupService Unit Tests
  * Test completi per il servizio di pulizia automatica con copertura 80%+
  */
@@ -107,6 +107,13 @@ describe('AutomaticCleanupService - Comprehensive Tests', () => {
   beforeEach(() => {
     jest.clearAllMocks();
 
+    // afterEach restores the spies: recreate them for every test
+    consoleSpy.log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    consoleSpy.error = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    consoleSpy.warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
     // Reset singleton
     (
       AutomaticCleanupService as {
@@ -272,7 +279,7 @@ describe('AutomaticCleanupService - Comprehensive Tests', () => {
       }
 
       expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
-        'cleanup_lru_tracker',
+        'lru-tracker',
         expect.any(String)
       );
     });
@@ -457,7 +464,7 @@ describe('AutomaticCleanupService - Comprehensive Tests', () => {
 
       expect(global.clearTimeout).toHaveBeenCalled();
       expect(consoleSpy.log).toHaveBeenCalledWith(
-        '🧹 AutomaticCleanupService arrestato'
+        '🔥 AutomaticCleanupService shutdown completato'
       );
     });
 
@@ -480,7 +487,7 @@ describe('AutomaticCleanupService - Comprehensive Tests', () => {
         service.trackDataAccess(`key-${i}`, 'L1');
       }
 
-      expect(consoleSpy.error).toHaveBeenCalled();
+      expect(consoleSpy.warn).toHaveBeenCalled();
     });
 
     it('should handle invalid cleanup history data', async () => {
@@ -488,7 +495,7 @@ describe('AutomaticCleanupService - Comprehensive Tests', () => {
 
       await service.initialize();
 
-      expect(consoleSpy.error).toHaveBeenCalled();
+      expect(consoleSpy.warn).toHaveBeenCalled();
     });
 
     it('should handle cache operation failures during cleanup', async () => {
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ *
+ * STUDENT ANALYST - CacheService Unit Tests
+ */
+
+import { IDBFactory } from 'fake-indexeddb';
+import { CacheService } from '../../src/features/cache/services/CacheService';
+import IndexedDBCacheL3 from '../../src/services/IndexedDBCacheL3';
+import LocalStorageCacheL2 from '../../src/services/LocalStorageCacheL2';
+import MemoryCacheL1 from '../../src/services/MemoryCacheL1';
+import { IStorage } from '../../src/services/interfaces/IStorage';
+
+const createStorage = (): IStorage => {
+  const store = new Map<string, string>();
+  return {
+    get length() {
+      return store.size;
+    },
+    getItem: key => store.get(key) ?? null,
+    setItem: (key, value) => void store.set(key, value),
+    removeItem: key => void store.delete(key),
+    key: index => [...store.keys()][index] ?? null,
+  };
+};
+
+describe('CacheService', () => {
+  let service: CacheService;
+
+  beforeEach(() => {
+    service = new CacheService({
+      l1: new MemoryCacheL1(),
+      l2: new LocalStorageCacheL2(createStorage()),
+      // Database nuovo per ogni test
+      l3: new IndexedDBCacheL3(new IDBFactory()),
+    });
+  });
+
+  it('should fetch once and serve later reads from L1', async () => {
+    const fetcher = jest.fn(async () => ({ sharpe: 1.2 }));
+
+    await service.getOrFetch('analysis:1', fetcher);
+    const cached = await service.getOrFetch('analysis:1', fetcher);
+
+    expect(cached).toEqual({ sharpe: 1.2 });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    const { metrics } = await service.getStats();
+    expect(metrics.hitsByTier.l1).toBe(1);
+    expect(metrics.misses).toBe(1);
+  });
+
+  it('should share one fetch between concurrent requests', async () => {
+    const fetcher = jest.fn(async () => 42);
+
+    const results = await Promise.all([
+      service.getOrFetch('k', fetcher),
+      service.getOrFetch('k', fetcher),
+    ]);
+
+    expect(results).toEqual([42, 42]);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should promote L3 hits to the upper tiers', async () => {
+    await service.l3.set('deep', [1, 2, 3]);
+
+    expect(await service.get('deep')).toEqual([1, 2, 3]);
+    expect(service.l1.has('deep')).toBe(true);
+    expect(service.l2.has('deep')).toBe(true);
+    expect(service.analytics.getMetrics().hitsByTier.l3).toBe(1);
+  });
+
+  it('should not cache failed fetches', async () => {
+    const fetcher = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(new Error('network'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(service.getOrFetch('k', fetcher)).rejects.toThrow('network');
+    await expect(service.getOrFetch('k', fetcher)).resolves.toBe('ok');
+  });
+});
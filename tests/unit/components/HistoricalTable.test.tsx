@@ -1,12 +1,20 @@
 import HistoricalTable from '@/components/charts/HistoricalTable';
 import { useAnalysis } from '@/context/AnalysisContext';
 import { useToast } from '@/hooks/use-toast';
-import { render, screen, waitFor } from '@testing-library/react';
+import { downloadFile, toXlsx } from '@/utils/tableExport';
+import {
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+  within,
+} from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import React from 'react';
 
 // Mock dei hooks
-jest.mock('@/context/AnalysisContext');
+// Factory esplicita: l'automock caricherebbe analysisAPI (import.meta)
+jest.mock('@/context/AnalysisContext', () => ({ useAnalysis: jest.fn() }));
 jest.mock('@/hooks/use-toast');
 
 // Mock di react-csv
@@ -23,14 +31,34 @@ jest.mock('react-csv', () => ({
   ),
 }));
 
+// L'XLSX viene scaricato tramite Blob URL: si verificano file e righe
+jest.mock('@/utils/tableExport', () => {
+  const actual = jest.requireActual('@/utils/tableExport');
+  return {
+    ...actual,
+    downloadFile: jest.fn(),
+    toXlsx: jest.fn(actual.toXlsx),
+  };
+});
+
 const mockUseAnalysis = useAnalysis as jest.MockedFunction<typeof useAnalysis>;
 const mockUseToast = useToast as jest.MockedFunction<typeof useToast>;
+const mockDownloadFile = downloadFile as jest.MockedFunction<
+  typeof downloadFile
+>;
+const mockToXlsx = toXlsx as jest.MockedFunction<typeof toXlsx>;
 
 describe('HistoricalTable', () => {
   const mockToast = {
     title: jest.fn(),
     description: jest.fn(),
     variant: jest.fn(),
+    // useToast espone toast(): ogni campo finisce nel mock corrispondente
+    toast: jest.fn(({ title, description, variant }: any) => {
+      mockToast.title(title);
+      mockToast.description(description);
+      mockToast.variant(variant);
+    }),
   };
 
   const mockStartAnalysis = jest.fn();
@@ -158,7 +186,8 @@ describe('HistoricalTable', () => {
       expect(screen.getByText('$150.00')).toBeInTheDocument();
       expect(screen.getByText('$155.50')).toBeInTheDocument();
       expect(screen.getByText('$149.25')).toBeInTheDocument();
-      expect(screen.getByText('$153.75')).toBeInTheDocument();
+      // Chiusura del 2024-01-01 e apertura del 2024-01-02
+      expect(screen.getAllByText('$153.75')).toHaveLength(2);
       expect(screen.getByText('1,000,000')).toBeInTheDocument();
     });
   });
@@ -502,8 +531,8 @@ describe('HistoricalTable', () => {
       expect(mockToast.title).toHaveBeenCalledWith(
         'Informazioni sulla tabella'
       );
-      expect(mockToast.description).toContain(
-        'Questa tabella mostra i dati storici OHLCV'
+      expect(mockToast.description).toHaveBeenCalledWith(
+        expect.stringContaining('Questa tabella mostra i dati storici OHLCV')
       );
     });
 
@@ -538,7 +567,8 @@ describe('HistoricalTable', () => {
       expect(screen.getByText('$150.00')).toBeInTheDocument();
       expect(screen.getByText('$155.50')).toBeInTheDocument();
       expect(screen.getByText('$149.25')).toBeInTheDocument();
-      expect(screen.getByText('$153.75')).toBeInTheDocument();
+      // Chiusura del 2024-01-01 e apertura del 2024-01-02
+      expect(screen.getAllByText('$153.75')).toHaveLength(2);
     });
 
     it('should format volume values correctly', () => {
@@ -680,4 +710,234 @@ describe('HistoricalTable', () => {
       expect(screen.getByText('1-10 di 1,000')).toBeInTheDocument();
     });
   });
+
+  describe('Per-Ticker Series', () => {
+    const makeSeries = (symbol: string, count: number, start = 100) => {
+      const dates = Array.from({ length: count }, (_, i) =>
+        new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10)
+      );
+      const close = dates.map((_, i) => start + i);
+      return {
+        symbol,
+        dates,
+        open: close.map(value => value - 0.5),
+        high: close.map(value => value + 1),
+        low: close.map(value => value - 1),
+        close,
+        adjustedClose: close,
+        volume: close.map((_, i) => 1000000 + i * 1000),
+        returns: close.map((value, i) =>
+          i === 0 ? null : value / (value - 1) - 1
+        ),
+      };
+    };
+
+    const aaplSeries = {
+      symbol: 'AAPL',
+      dates: ['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-10'],
+      open: [150, 153.75, null, 157],
+      high: [155.5, 158, null, 160],
+      low: [149.25, 152.5, null, 156],
+      close: [153.75, 156.25, null, 157.5],
+      adjustedClose: [153.75, 156.25, null, 157.5],
+      volume: [1000000, 1200000, null, 1100000],
+      returns: [null, 0.01626, null, 0.008],
+    };
+
+    const renderSeries = (historicalTable: unknown[]) => {
+      mockUseAnalysis.mockReturnValue({
+        analysisState: {
+          ...defaultAnalysisState,
+          analysisResults: {
+            historicalTable,
+            metadata: {
+              dataQuality: [
+                {
+                  symbol: 'AAPL',
+                  gaps: [
+                    { from: '2024-01-04', to: '2024-01-10', calendarDays: 6 },
+                  ],
+                },
+              ],
+            },
+          },
+        },
+        startAnalysis: mockStartAnalysis,
+      });
+      return render(<HistoricalTable />);
+    };
+
+    // Righe dati, senza intestazione e spaziatori della virtualizzazione
+    const bodyRows = () =>
+      screen
+        .getAllByRole('row')
+        .slice(1)
+        .filter(row => within(row).queryAllByRole('cell').length > 0);
+
+    const rowDates = () => bodyRows().map(row => row.cells[0]?.textContent);
+
+    const dateInputs = (container: HTMLElement) =>
+      Array.from(
+        container.querySelectorAll('input[type="date"]')
+      ) as HTMLInputElement[];
+
+    it('should render OHLCV and returns, newest first', () => {
+      renderSeries([aaplSeries]);
+
+      const rows = bodyRows();
+      expect(rows).toHaveLength(4);
+      expect(rows[0]).toHaveTextContent('2024-01-10');
+      expect(rows[3]).toHaveTextContent('$150.00');
+      expect(rows[2]).toHaveTextContent('+1.63%');
+    });
+
+    it('should highlight missing values and gaps', () => {
+      renderSeries([aaplSeries]);
+
+      const missing = screen.getByTitle('Prezzi mancanti per questa data');
+      expect(missing).toHaveTextContent('2024-01-04');
+      expect(within(missing).getAllByText('—')).toHaveLength(7);
+
+      const gap = screen.getByTitle('Buco di 6 giorni dalla barra precedente');
+      expect(gap).toHaveTextContent('2024-01-10');
+    });
+
+    it('should show only rows with issues', async () => {
+      const user = userEvent.setup();
+      renderSeries([aaplSeries]);
+
+      await user.click(screen.getByLabelText(/solo dati mancanti/i));
+
+      expect(rowDates()).toEqual(['2024-01-10', '2024-01-04']);
+    });
+
+    it('should keep missing values last when sorting', async () => {
+      const user = userEvent.setup();
+      renderSeries([aaplSeries]);
+
+      const closeHeader = screen.getByRole('button', { name: 'Chiusura' });
+      await user.click(closeHeader);
+      expect(rowDates()).toEqual([
+        '2024-01-02',
+        '2024-01-03',
+        '2024-01-10',
+        '2024-01-04',
+      ]);
+
+      await user.click(closeHeader);
+      expect(rowDates()).toEqual([
+        '2024-01-10',
+        '2024-01-03',
+        '2024-01-02',
+        '2024-01-04',
+      ]);
+    });
+
+    it('should filter by date interval', async () => {
+      const user = userEvent.setup();
+      const { container } = renderSeries([aaplSeries]);
+      const [from, to] = dateInputs(container);
+
+      await user.type(from!, '2024-01-03');
+      await user.type(to!, '2024-01-04');
+      expect(rowDates()).toEqual(['2024-01-04', '2024-01-03']);
+
+      await user.click(screen.getByRole('button', { name: /pulisci filtri/i }));
+      expect(from).toHaveValue('');
+      expect(bodyRows()).toHaveLength(4);
+    });
+
+    it('should switch between tickers', async () => {
+      const user = userEvent.setup();
+      renderSeries([aaplSeries, makeSeries('MSFT', 3, 400)]);
+
+      await user.click(screen.getByRole('button', { name: 'MSFT' }));
+
+      expect(screen.getByRole('button', { name: 'MSFT' })).toHaveAttribute(
+        'aria-pressed',
+        'true'
+      );
+      expect(bodyRows()).toHaveLength(3);
+      expect(bodyRows()[0]).toHaveTextContent('$402.00');
+    });
+
+    it('should only render the visible rows of a large page', async () => {
+      const user = userEvent.setup();
+      renderSeries([makeSeries('AAPL', 1000)]);
+
+      await user.selectOptions(
+        screen.getByLabelText(/righe per pagina/i),
+        '1000'
+      );
+
+      expect(screen.getByText('1-1000 di 1,000')).toBeInTheDocument();
+      expect(bodyRows().length).toBeLessThan(50);
+      expect(rowDates()[0]).toBe('2026-09-26');
+    });
+
+    it('should render the rows scrolled into view', async () => {
+      const user = userEvent.setup();
+      renderSeries([makeSeries('AAPL', 1000)]);
+
+      await user.selectOptions(
+        screen.getByLabelText(/righe per pagina/i),
+        '1000'
+      );
+      // 36px per riga: la riga 500 (dall'ultima data) è in cima alla vista
+      fireEvent.scroll(screen.getByTestId('historical-table-viewport'), {
+        target: { scrollTop: 500 * 36 },
+      });
+
+      const dates = rowDates();
+      expect(dates.length).toBeLessThan(50);
+      expect(dates).toContain('2025-05-14');
+      expect(dates).not.toContain('2026-09-26');
+    });
+
+    it('should export the filtered view as CSV', async () => {
+      const user = userEvent.setup();
+      const { container } = renderSeries([aaplSeries]);
+      const [from] = dateInputs(container);
+
+      await user.type(from!, '2024-01-03');
+
+      const csvLink = screen.getByTestId('csv-download');
+      expect(csvLink).toHaveAttribute('data-rows', '3');
+      expect(csvLink).toHaveAttribute('data-filename', 'dati-storici.csv');
+    });
+
+    it('should export the filtered view as XLSX', async () => {
+      const user = userEvent.setup();
+      const { container } = renderSeries([aaplSeries]);
+      const [from] = dateInputs(container);
+
+      await user.type(from!, '2024-01-03');
+      await user.click(screen.getByRole('button', { name: 'XLSX' }));
+
+      const [header, rows, sheetName] = mockToXlsx.mock.calls[0]!;
+      expect(header).toEqual([
+        'Data',
+        'Apertura',
+        'Massimo',
+        'Minimo',
+        'Chiusura',
+        'Chiusura adj.',
+        'Volume',
+        'Rendimento',
+      ]);
+      expect(rows.map(row => row[0])).toEqual([
+        '2024-01-10',
+        '2024-01-04',
+        '2024-01-03',
+      ]);
+      expect(rows[1]).toEqual(['2024-01-04', ...Array(7).fill(null)]);
+      expect(sheetName).toBe('AAPL');
+
+      const [content, fileName, mimeType] = mockDownloadFile.mock.calls[0]!;
+      expect(content).toBeInstanceOf(Uint8Array);
+      expect(fileName).toBe('dati-storici.xlsx');
+      expect(mimeType).toContain('spreadsheetml');
+      expect(mockToast.title).toHaveBeenCalledWith('Esportazione completata');
+    });
+  });
 });
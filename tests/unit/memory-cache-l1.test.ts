@@ -115,10 +115,10 @@ describe('MemoryCacheL1', () => {
       const key = 'test-key';
       const value = 'test-value';
 
-      const setResult = cache.set(_key, value);
+      const setResult = cache.set(key, value);
       expect(setResult).toBe(true);
 
-      const getValue = cache.get(_key);
+      const getValue = cache.get(key);
       expect(getValue).toBe(value);
     });
 
@@ -276,9 +276,9 @@ describe('MemoryCacheL1', () => {
       const entries = cache.getEntriesByAccessPattern();
 
       // Should be ordered by recency: b (head), a, c (tail)
-      expect(entries[0]._key).toBe('b');
-      expect(entries[1]._key).toBe('a');
-      expect(entries[2]._key).toBe('c');
+      expect(entries[0].key).toBe('b');
+      expect(entries[1].key).toBe('a');
+      expect(entries[2].key).toBe('c');
     });
 
     it('should handle empty cache for LRU eviction', () => {
@@ -450,14 +450,18 @@ describe('MemoryCacheL1', () => {
     it('should update average access time', () => {
       cache.set('test', 'value');
 
-      // Reset mocks and setup sequence for access time calculation
-      mockPerformanceNow.mockClear();
-      mockPerformanceNow.mockReturnValueOnce(0).mockReturnValueOnce(50);
+      // Fake timers replace performance.now: spy on the faked clock
+      const nowSpy = jest
+        .spyOn(performance, 'now')
+        .mockReturnValueOnce(0)
+        .mockReturnValueOnce(50);
 
       cache.get('test');
 
       const stats = cache.getStats();
       expect(stats.averageAccessTime).toBeGreaterThan(0);
+
+      nowSpy.mockRestore();
     });
   });
 
@@ -506,16 +510,19 @@ describe('MemoryCacheL1', () => {
     });
 
     it('should restart cleanup timer when interval changes', () => {
-      // Clear previous calls
-      mockClearInterval.mockClear();
-      mockSetInterval.mockClear();
+      // Fake timers replace the global mocks: spy on the faked timers
+      const clearIntervalSpy = jest.spyOn(global, 'clearInterval');
+      const setIntervalSpy = jest.spyOn(global, 'setInterval');
 
       // Update config with different cleanup interval
       cache.updateConfig({ cleanupInterval: 1000 });
 
       // Verify timer was restarted
-      expect(mockClearInterval).toHaveBeenCalled();
-      expect(mockSetInterval).toHaveBeenCalled();
+      expect(clearIntervalSpy).toHaveBeenCalled();
+      expect(setIntervalSpy).toHaveBeenCalled();
+
+      clearIntervalSpy.mockRestore();
+      setIntervalSpy.mockRestore();
     });
 
     it('should not restart timer when interval unchanged', () => {
@@ -598,7 +605,7 @@ describe('MemoryCacheL1', () => {
 
       expect(evictionHandler).toHaveBeenCalled();
       const event = evictionHandler.mock.calls[0][0];
-      expect(event._type).toBe('eviction');
+      expect(event.type).toBe('eviction');
       expect(event.reason).toBe('LRU eviction');
       expect(event.entry).toBeDefined();
       expect(event.timestamp).toBeGreaterThan(0);
@@ -619,7 +626,7 @@ describe('MemoryCacheL1', () => {
 
       expect(evictionHandler).toHaveBeenCalled();
       const event = evictionHandler.mock.calls[0][0];
-      expect(event._type).toBe('expiration');
+      expect(event.type).toBe('expiration');
       expect(event.reason).toBe('TTL expired');
     });
 
@@ -642,7 +649,7 @@ describe('MemoryCacheL1', () => {
 
       expect(evictionHandler).toHaveBeenCalled();
       const event = evictionHandler.mock.calls[0][0];
-      expect(event._type).toBe('eviction');
+      expect(event.type).toBe('eviction');
       expect(event.reason).toContain('Memory limit exceeded');
 
       memCache.destroy();
@@ -694,13 +701,15 @@ describe('MemoryCacheL1', () => {
     it('should destroy cache and cleanup resources', () => {
       cache.set('test', 'value');
 
-      // Clear previous calls to test specifically this destroy call
-      mockClearInterval.mockClear();
+      // Fake timers replace the global mocks: spy on the faked timers
+      const clearIntervalSpy = jest.spyOn(global, 'clearInterval');
 
       cache.destroy();
 
       expect(cache.size()).toBe(0);
-      expect(mockClearInterval).toHaveBeenCalled();
+      expect(clearIntervalSpy).toHaveBeenCalled();
+
+      clearIntervalSpy.mockRestore();
     });
 
     it('should handle destroy when no timer exists', () => {
@@ -899,13 +908,17 @@ describe('MemoryCacheL1', () => {
     });
 
     it('should handle cleanup timer properly', () => {
+      // Fake timers replace the global mocks: spy on the faked timers
+      const setIntervalSpy = jest.spyOn(global, 'setInterval');
+
       // Create cache and verify cleanup timer setup
       const timerCache = new MemoryCacheL1({
         cleanupInterval: 1000,
       });
 
-      expect(mockSetInterval).toHaveBeenCalled();
+      expect(setIntervalSpy).toHaveBeenCalled();
 
+      setIntervalSpy.mockRestore();
       timerCache.destroy();
     });
 
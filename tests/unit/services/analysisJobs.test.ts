@@ -0,0 +1,209 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it, jest } from '@jest/globals';
+
+// Solo i tipi usati da ErrorCodeHandler: il servizio non viene chiamato
+jest.mock('../../../backend/src/services/alphaVantageService', () => ({
+  AlphaVantageError: class AlphaVantageError extends Error {},
+  AlphaVantageErrorType: {},
+}));
+
+// La pipeline reale viene sostituita da runAnalysis in ogni test
+jest.mock('../../../backend/src/services/analysisService', () => ({
+  performAnalysis: jest.fn(),
+}));
+
+import { AnalysisJobManager } from '../../../backend/src/services/analysisJobs';
+import type { AnalysisParams } from '../../../backend/src/services/analysisService';
+import type { ProgressEvent } from '../../../backend/src/services/apiRateLimiter';
+import {
+  SystemError,
+  SystemErrorType,
+} from '../../../backend/src/services/errorCodeHandler';
+import type { AnalysisRunOptions } from '../../../backend/src/services/historicalAnalysisService';
+
+const params = (tickers: string[]) =>
+  ({
+    tickers,
+    startDate: '2024-01-01',
+    endDate: '2024-01-31',
+    frequency: 'daily',
+  }) as AnalysisParams;
+
+// Analisi controllata dal test: i ticker vengono chiusi a mano
+const createRun = () => {
+  const calls: {
+    options: AnalysisRunOptions;
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  const runAnalysis = (_params: AnalysisParams, options: AnalysisRunOptions) =>
+    new Promise<any>((resolve, reject) => {
+      calls.push({ options, resolve, reject });
+    });
+  return { calls, runAnalysis };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('AnalysisJobManager', () => {
+  it('should stream ticker progress and keep the result of a completed job', async () => {
+    const { calls, runAnalysis } = createRun();
+    const manager = new AnalysisJobManager({ runAnalysis });
+    const events: ProgressEvent[] = [];
+    manager.on('progress', event => events.push(event));
+
+    const job = manager.createJob(params(['AAPL', 'ZZZZ', 'MSFT']));
+    expect(manager.getJob(job.id)?.status).toBe('running');
+
+    calls[0]!.options.onTickerSettled?.('AAPL');
+    calls[0]!.options.onTickerSettled?.('ZZZZ', new Error('Symbol not found'));
+
+    expect(manager.getJob(job.id)?.progress).toMatchObject({
+      completed: 1,
+      failed: 1,
+      queueSize: 1,
+      percentage: 67,
+      currentRequest: 'Download dei dati storici',
+      errors: [expect.objectContaining({ symbol: 'ZZZZ' })],
+    });
+
+    calls[0]!.resolve({ success: true });
+    await flush();
+
+    const finished = manager.getJob(job.id);
+    expect(finished?.status).toBe('completed');
+    expect(finished?.result).toEqual({ success: true });
+    expect(finished?.progress.percentage).toBe(100);
+    expect(events.map(event => event.type)).toEqual([
+      'started',
+      'progress',
+      'progress',
+      'completed',
+    ]);
+  });
+
+  it('should keep the classified error of a failed job', async () => {
+    const { calls, runAnalysis } = createRun();
+    const manager = new AnalysisJobManager({ runAnalysis });
+
+    const job = manager.createJob(params(['ZZZZ']));
+    calls[0]!.reject(
+      new SystemError(
+        SystemErrorType.NO_DATA_AVAILABLE,
+        'Nessun dato valido ottenuto per i ticker richiesti'
+      )
+    );
+    await flush();
+
+    const failed = manager.getJob(job.id)!;
+    expect(failed.status).toBe('failed');
+    expect(failed.error?.type).toBe(SystemErrorType.NO_DATA_AVAILABLE);
+    expect(manager.toProgressEvent(failed).type).toBe('error');
+  });
+
+  it('should queue jobs beyond the concurrency limit and run them in order', async () => {
+    const { calls, runAnalysis } = createRun();
+    const manager = new AnalysisJobManager({ runAnalysis, maxRunningJobs: 1 });
+
+    const first = manager.createJob(params(['AAPL']));
+    const second = manager.createJob(params(['MSFT']));
+
+    expect(manager.getJob(second.id)).toMatchObject({
+      status: 'queued',
+      queuePosition: 0,
+    });
+    expect(calls).toHaveLength(1);
+
+    calls[0]!.resolve({ success: true });
+    await flush();
+
+    expect(manager.getJob(first.id)?.status).toBe('completed');
+    expect(manager.getJob(second.id)?.status).toBe('running');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should abort a running job when it is cancelled', async () => {
+    const { calls, runAnalysis } = createRun();
+    const manager = new AnalysisJobManager({ runAnalysis });
+
+    const job = manager.createJob(params(['AAPL', 'MSFT']));
+    const cancelled = manager.cancelJob(job.id);
+
+    expect(cancelled?.status).toBe('cancelled');
+    expect(calls[0]!.options.signal?.aborted).toBe(true);
+
+    // Il risultato arrivato dopo l'annullamento viene ignorato
+    calls[0]!.resolve({ success: true });
+    await flush();
+    expect(manager.getJob(job.id)?.status).toBe('cancelled');
+    expect(manager.getJob(job.id)?.result).toBeUndefined();
+  });
+
+  it('should keep the slot of a cancelled job until its run settles', async () => {
+    const { calls, runAnalysis } = createRun();
+    const manager = new AnalysisJobManager({ runAnalysis, maxRunningJobs: 1 });
+
+    const first = manager.createJob(params(['AAPL']));
+    const second = manager.createJob(params(['MSFT']));
+    manager.cancelJob(first.id);
+
+    // L'analisi annullata sta ancora scaricando: il posto resta occupato
+    expect(manager.getJob(first.id)?.status).toBe('cancelled');
+    expect(manager.getJob(second.id)).toMatchObject({
+      status: 'queued',
+      queuePosition: 0,
+    });
+    expect(calls).toHaveLength(1);
+
+    calls[0]!.reject(new Error('This operation was aborted'));
+    await flush();
+
+    expect(manager.getJob(first.id)?.status).toBe('cancelled');
+    expect(manager.getJob(second.id)?.status).toBe('running');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should free the slot once when a cancelled job settles', async () => {
+    const { calls, runAnalysis } = createRun();
+    const manager = new AnalysisJobManager({ runAnalysis, maxRunningJobs: 1 });
+
+    const first = manager.createJob(params(['AAPL']));
+    manager.createJob(params(['MSFT']));
+    manager.cancelJob(first.id);
+    const third = manager.createJob(params(['GOOGL']));
+
+    calls[0]!.reject(new Error('This operation was aborted'));
+    await flush();
+
+    expect(manager.getJob(third.id)).toMatchObject({
+      status: 'queued',
+      queuePosition: 0,
+    });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should deliver events only to the subscribers of the job', async () => {
+    const { calls, runAnalysis } = createRun();
+    const manager = new AnalysisJobManager({ runAnalysis });
+
+    const first = manager.createJob(params(['AAPL']));
+    const second = manager.createJob(params(['MSFT']));
+    const events: ProgressEvent[] = [];
+    const unsubscribe = manager.subscribe(first.id, event =>
+      events.push(event)
+    );
+
+    calls[1]!.options.onTickerSettled?.('MSFT');
+    calls[0]!.options.onTickerSettled?.('AAPL');
+    expect(events.map(event => event.batchId)).toEqual([first.id]);
+
+    unsubscribe?.();
+    calls[0]!.resolve({ success: true });
+    await flush();
+    expect(events).toHaveLength(1);
+    expect(manager.getJob(second.id)?.status).toBe('running');
+    expect(manager.subscribe('job-missing', () => undefined)).toBeUndefined();
+  });
+});
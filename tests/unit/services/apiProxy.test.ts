@@ -0,0 +1,189 @@
+/**
+ * @jest-environment node
+ */
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import type { Request, Response } from 'express';
+
+// Solo i tipi usati da ErrorCodeHandler: il servizio non viene chiamato
+jest.mock('../../../backend/src/services/alphaVantageService', () => ({
+  AlphaVantageError: class AlphaVantageError extends Error {},
+  AlphaVantageErrorType: {},
+}));
+
+type ApiProxyModule = typeof import('../../../backend/src/services/apiProxy');
+
+let proxy: ApiProxyModule;
+const mockFetch = jest.fn<(url: string) => Promise<{ json: () => unknown }>>();
+
+beforeAll(async () => {
+  // La chiave viene letta alla creazione dell'ApiKeyManager
+  process.env.VITE_API_KEY_ALPHA_VANTAGE = 'test-key';
+  global.fetch = mockFetch as unknown as typeof fetch;
+  proxy = await import('../../../backend/src/services/apiProxy');
+});
+
+afterEach(() => {
+  mockFetch.mockReset();
+});
+
+const respondWith = (payload: unknown) =>
+  mockFetch.mockResolvedValueOnce({ json: async () => payload });
+
+const createRequest = (
+  symbol: string,
+  query: Record<string, string> = {}
+): Request =>
+  ({
+    params: { symbol },
+    query,
+    ip: '127.0.0.1',
+    get: () => 'jest',
+  }) as unknown as Request;
+
+const createResponse = () => {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    set(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+};
+
+const bar = (close: number) => ({
+  '1. open': String(close - 1),
+  '2. high': String(close + 1),
+  '3. low': String(close - 2),
+  '4. close': String(close),
+  '5. volume': '1000',
+});
+
+describe('parseHistoryQuery', () => {
+  it('should default to daily bars and keep the requested range', () => {
+    expect(proxy.parseHistoryQuery({})).toEqual({ interval: 'daily' });
+    expect(
+      proxy.parseHistoryQuery({
+        interval: 'weekly',
+        start: '2024-01-01',
+        end: '2024-03-31',
+      })
+    ).toEqual({ interval: 'weekly', start: '2024-01-01', end: '2024-03-31' });
+  });
+
+  it('should reject unsupported intervals, malformed dates and inverted ranges', () => {
+    expect(() => proxy.parseHistoryQuery({ interval: '2h' })).toThrow(
+      'Unsupported interval'
+    );
+    expect(() => proxy.parseHistoryQuery({ start: '01/02/2024' })).toThrow(
+      'Invalid start date'
+    );
+    expect(() =>
+      proxy.parseHistoryQuery({ start: '2024-05-01', end: '2024-04-01' })
+    ).toThrow('Invalid range');
+  });
+});
+
+describe('parseAlphaVantageSeries', () => {
+  it('should return bars in chronological order within the range', () => {
+    const bars = proxy.parseAlphaVantageSeries(
+      {
+        '2024-01-05': bar(103),
+        '2024-01-03': bar(101),
+        '2024-01-04': bar(102),
+        '2024-01-02': { ...bar(100), '4. close': 'n/a' },
+      },
+      { start: '2024-01-02', end: '2024-01-04' }
+    );
+
+    expect(bars.map(b => b.date)).toEqual(['2024-01-03', '2024-01-04']);
+    expect(bars[0]).toEqual({
+      date: '2024-01-03',
+      open: 100,
+      high: 102,
+      low: 99,
+      close: 101,
+      volume: 1000,
+    });
+  });
+});
+
+describe('ApiProxyService', () => {
+  it('should serve history in the standard success envelope', async () => {
+    respondWith({
+      'Meta Data': { '2. Symbol': 'MSFT' },
+      'Time Series (Daily)': {
+        '2024-02-02': bar(410),
+        '2024-02-01': bar(405),
+        '2024-01-31': bar(400),
+      },
+    });
+    const res = createResponse();
+
+    await proxy.ApiProxyService.getHistoricalData(
+      createRequest('msft', { start: '2024-02-01' }),
+      res as unknown as Response
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(res.body.data.symbol).toBe('MSFT');
+    expect(res.body.data.bars.map((b: { close: number }) => b.close)).toEqual([
+      405, 410,
+    ]);
+    expect(res.body.data.end).toBe('2024-02-02');
+    // Un inizio lontano richiede la serie completa
+    expect(mockFetch.mock.calls[0]?.[0]).toContain('outputsize=full');
+  });
+
+  it('should map an Alpha Vantage rate-limit note to a 429 error envelope', async () => {
+    respondWith({
+      Note: 'Our standard API call frequency is 5 calls per minute.',
+    });
+    const res = createResponse();
+
+    await proxy.ApiProxyService.getQuote(
+      createRequest('ibm'),
+      res as unknown as Response
+    );
+
+    expect(res.statusCode).toBe(429);
+    expect(res.body.success).toBe(false);
+    expect(res.body.error).toMatchObject({
+      type: 'RATE_LIMIT_EXCEEDED',
+      retryable: true,
+    });
+    expect(res.body.error.id).toMatch(/^err_/);
+    expect(res.headers['Retry-After']).toBe(String(res.body.error.retryAfter));
+  });
+
+  it('should answer 404 when the quote is empty', async () => {
+    respondWith({ 'Global Quote': {} });
+    const res = createResponse();
+
+    await proxy.ApiProxyService.getQuote(
+      createRequest('zzzz'),
+      res as unknown as Response
+    );
+
+    expect(res.statusCode).toBe(404);
+    expect(res.body.error.type).toBe('SYMBOL_NOT_FOUND');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  DEFAULT_BENCHMARK,
+  RISK_FREE_RATE,
+  calculateBenchmarkComparison,
+  sanitizeBenchmarkSymbol,
+} from '../../../backend/src/services/benchmarkComparison';
+
+describe('benchmarkComparison', () => {
+  const dates = Array.from(
+    { length: 41 },
+    (_, i) => `2024-01-${String(i + 1).padStart(2, '0')}`
+  );
+  // Rendimenti del benchmark alternati +1% / -0.5%
+  const benchmarkReturns = dates.map((_, i) => (i % 2 === 0 ? 0.01 : -0.005));
+  const toPrices = (returns: number[]) =>
+    returns.reduce<number[]>(
+      (prices, value, i) =>
+        i === 0 ? [100] : [...prices, prices[i - 1] * (1 + value)],
+      []
+    );
+
+  const benchmark = {
+    symbol: '^GSPC',
+    dates,
+    prices: toPrices(benchmarkReturns),
+  };
+
+  it('measures a leveraged copy of the benchmark', () => {
+    const leveraged = {
+      symbol: 'LEV',
+      dates,
+      prices: toPrices(benchmarkReturns.map(value => 2 * value)),
+    };
+    const report = calculateBenchmarkComparison(benchmark, [leveraged], 252);
+    const metrics = report.metrics[0];
+
+    expect(metrics.observations).toBe(40);
+    expect(metrics.beta).toBeCloseTo(2, 10);
+    expect(metrics.correlation).toBeCloseTo(1, 10);
+    expect(metrics.upCapture).toBeCloseTo(2, 10);
+    expect(metrics.downCapture).toBeCloseTo(2, 10);
+    expect(metrics.trackingError).toBeGreaterThan(0);
+    expect(metrics.alpha).toBeCloseTo(
+      metrics.annualizedReturn -
+        (RISK_FREE_RATE +
+          2 * (metrics.benchmarkAnnualizedReturn - RISK_FREE_RATE)),
+      10
+    );
+  });
+
+  it('has no active risk against itself', () => {
+    const report = calculateBenchmarkComparison(
+      benchmark,
+      [{ ...benchmark, symbol: 'COPY' }],
+      252
+    );
+    const metrics = report.metrics[0];
+
+    expect(metrics.trackingError).toBeCloseTo(0, 12);
+    expect(metrics.informationRatio).toBe(0);
+    expect(metrics.excessReturn).toBeCloseTo(0, 12);
+    expect(metrics.beta).toBeCloseTo(1, 10);
+  });
+
+  it('rebases growth of 100 on the first common date', () => {
+    const lateStart = {
+      symbol: 'LATE',
+      dates: dates.slice(5),
+      prices: benchmark.prices.slice(5).map(price => price * 3),
+    };
+    const report = calculateBenchmarkComparison(benchmark, [lateStart], 252);
+
+    expect(report.growth.benchmark[0]).toBe(100);
+    expect(report.growth.series.LATE.slice(0, 5)).toEqual([
+      null,
+      null,
+      null,
+      null,
+      null,
+    ]);
+    expect(report.growth.series.LATE[5]).toBe(100);
+    expect(report.metrics[0].observations).toBe(35);
+  });
+
+  it('skips series without enough common dates', () => {
+    const short = {
+      symbol: 'SHORT',
+      dates: dates.slice(0, 5),
+      prices: [10, null, 11, 12, 13],
+    };
+    const report = calculateBenchmarkComparison(benchmark, [short], 252);
+
+    expect(report.metrics).toEqual([]);
+    expect(report.growth.series.SHORT[1]).toBeNull();
+  });
+
+  it('sanitizes the benchmark symbol', () => {
+    expect(sanitizeBenchmarkSymbol(undefined)).toBe(DEFAULT_BENCHMARK);
+    expect(sanitizeBenchmarkSymbol(' ^ndx ')).toBe('^NDX');
+    expect(sanitizeBenchmarkSymbol('FTSEMIB.MI')).toBe('FTSEMIB.MI');
+    expect(sanitizeBenchmarkSymbol('S&P 500')).toBeNull();
+    expect(sanitizeBenchmarkSymbol(42)).toBeNull();
+  });
+});
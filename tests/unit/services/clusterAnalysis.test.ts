@@ -0,0 +1,125 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  agglomerate,
+  calculateClusterAnalysis,
+  cutTree,
+  parseClusterConfig,
+  silhouetteValues,
+} from '../../../backend/src/services/clusterAnalysis';
+
+// Tre titoli quasi duplicati, una coppia affine e un titolo isolato
+const symbols = ['AAA', 'BBB', 'CCC', 'DDD', 'EEE', 'FFF'];
+const correlation = [
+  [1, 0.9, 0.85, 0.2, 0.1, 0.15],
+  [0.9, 1, 0.88, 0.1, 0.2, 0.1],
+  [0.85, 0.88, 1, 0.15, 0.1, 0.2],
+  [0.2, 0.1, 0.15, 1, 0.7, 0.3],
+  [0.1, 0.2, 0.1, 0.7, 1, 0.25],
+  [0.15, 0.1, 0.2, 0.3, 0.25, 1],
+];
+
+describe('clusterAnalysis', () => {
+  it('validates the cluster configuration', () => {
+    expect(parseClusterConfig(undefined)).toEqual({
+      config: { linkage: 'ward' },
+    });
+    expect(parseClusterConfig({ linkage: 'average' })).toEqual({
+      config: { linkage: 'average' },
+    });
+    expect(parseClusterConfig({ linkage: 'centroid' })).toHaveProperty('error');
+  });
+
+  it('applies the Lance-Williams update for each linkage', () => {
+    // Punti su una retta: 0, 1, 3
+    const distance = [
+      [0, 1, 3],
+      [1, 0, 2],
+      [3, 2, 0],
+    ];
+
+    const heights = (linkage: Parameters<typeof agglomerate>[1]) =>
+      agglomerate(distance, linkage).map(merge => merge.height);
+
+    expect(heights('single')).toEqual([1, 2]);
+    expect(heights('complete')).toEqual([1, 3]);
+    expect(heights('average')).toEqual([1, 2.5]);
+    // Ward: √(((1 + 1)·9 + (1 + 1)·4 − 1·1) / 3) = √(25 / 3)
+    expect(heights('ward')[1]).toBeCloseTo(Math.sqrt(25 / 3), 12);
+    expect(agglomerate(distance, 'single')[1]).toMatchObject({
+      left: 2,
+      right: 3,
+      size: 3,
+    });
+  });
+
+  it('cuts the tree and scores the silhouette', () => {
+    const distance = [
+      [0, 1, 3],
+      [1, 0, 2],
+      [3, 2, 0],
+    ];
+    const labels = cutTree(3, agglomerate(distance, 'single'), 2);
+
+    expect(labels).toEqual([0, 0, 1]);
+    // a = 1, b = 3 per il primo; a = 1, b = 2 per il secondo; singleton 0
+    expect(silhouetteValues(distance, labels)).toEqual([2 / 3, 0.5, 0]);
+  });
+
+  it('selects the number of clusters and flags redundant holdings', () => {
+    const report = calculateClusterAnalysis(symbols, correlation, {
+      linkage: 'average',
+    })!;
+
+    expect(report.linkage).toBe('average');
+    expect(report.results.map(result => result.linkage)).toEqual([
+      'single',
+      'complete',
+      'average',
+      'ward',
+    ]);
+
+    report.results.forEach(result => {
+      expect(result.clusters).toBe(3);
+      expect(result.silhouetteScores.map(item => item.clusters)).toEqual([
+        2, 3, 4, 5,
+      ]);
+      expect(result.silhouette).toBe(
+        Math.max(...result.silhouetteScores.map(item => item.score))
+      );
+      expect([...result.order].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(
+        result.groups.map(group => [...group.symbols].sort().join(','))
+      ).toEqual(expect.arrayContaining(['AAA,BBB,CCC', 'DDD,EEE', 'FFF']));
+    });
+
+    const ward = report.results.find(result => result.linkage === 'ward')!;
+    const duplicates = ward.groups.find(group => group.symbols.length === 3)!;
+    expect(duplicates.redundant).toBe(true);
+    expect(duplicates.averageCorrelation).toBeCloseTo(0.8767, 4);
+    expect(
+      ward.groups.find(group => group.symbols.includes('FFF'))
+    ).toMatchObject({ averageCorrelation: null, redundant: false });
+    // Le fusioni di Ward hanno altezze crescenti e il taglio sta tra esse
+    const heights = ward.merges.map(merge => merge.height);
+    expect([...heights].sort((a, b) => a - b)).toEqual(heights);
+    expect(ward.cutHeight).toBeGreaterThan(heights[2]!);
+    expect(ward.cutHeight).toBeLessThan(heights[3]!);
+  });
+
+  it('needs three symbols and a complete correlation matrix', () => {
+    expect(
+      calculateClusterAnalysis(
+        ['AAA', 'BBB'],
+        [
+          [1, 0.5],
+          [0.5, 1],
+        ]
+      )
+    ).toBeNull();
+
+    const incomplete = correlation.map(row => [...row]) as (number | null)[][];
+    incomplete[0]![5] = null;
+    incomplete[5]![0] = null;
+    expect(calculateClusterAnalysis(symbols, incomplete)).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  calculateCorrelationAnalysis,
+  parseCorrelationConfig,
+} from '../../../backend/src/services/correlationAnalysis';
+import {
+  averageRanks,
+  createRandom,
+  kendallTau,
+  pearsonCorrelation,
+  randomNormal,
+  spearmanCorrelation,
+} from '../../../backend/src/services/statistics';
+
+describe('statistics - correlazioni', () => {
+  it('ranks ties with their average rank', () => {
+    expect(averageRanks([10, 30, 20, 30])).toEqual([1, 3.5, 2, 3.5]);
+  });
+
+  it('separates linear and rank correlation', () => {
+    const x = [1, 2, 3, 4, 5, 6];
+    const y = x.map(value => Math.exp(value));
+
+    expect(pearsonCorrelation(x, y)).toBeLessThan(0.95);
+    expect(spearmanCorrelation(x, y)).toBeCloseTo(1, 10);
+    expect(kendallTau(x, y)).toBeCloseTo(1, 10);
+    expect(kendallTau(x, [...y].reverse())).toBeCloseTo(-1, 10);
+    // Una coppia discorde su 15: (14 - 1) / 15
+    expect(kendallTau(x, [1, 2, 4, 3, 5, 6])).toBeCloseTo(13 / 15, 10);
+  });
+});
+
+describe('correlationAnalysis', () => {
+  // Mercato con una fase ad alta volatilità: i titoli sono guidati dal
+  // fattore comune soprattutto quando il mercato è stressato
+  const random = createRandom(3);
+  const n = 600;
+  const dates = Array.from({ length: n }, (_, i) =>
+    new Date(Date.UTC(2020, 0, 1 + i)).toISOString().slice(0, 10)
+  );
+  const market = dates.map(
+    (_, i) => (i >= 400 && i < 500 ? 0.04 : 0.01) * randomNormal(random)
+  );
+  const stock = (symbol: string) => ({
+    symbol,
+    dates,
+    returns: market.map(value => value + 0.01 * randomNormal(random)),
+  });
+
+  it('validates the correlation configuration', () => {
+    expect(parseCorrelationConfig(undefined)).toEqual({
+      config: {
+        method: 'pearson',
+        minOverlap: 20,
+        rollingWindowDays: 63,
+        stressQuantile: 0.8,
+      },
+    });
+    expect(
+      parseCorrelationConfig({ method: 'kendall', rollingWindowDays: 21 })
+    ).toEqual({
+      config: expect.objectContaining({
+        method: 'kendall',
+        rollingWindowDays: 21,
+      }),
+    });
+    expect(parseCorrelationConfig({ method: 'cosine' })).toHaveProperty(
+      'error'
+    );
+    expect(parseCorrelationConfig({ minOverlap: 1 })).toHaveProperty('error');
+    expect(parseCorrelationConfig({ rollingWindowDays: 500 })).toHaveProperty(
+      'error'
+    );
+    expect(parseCorrelationConfig({ stressQuantile: 0.3 })).toHaveProperty(
+      'error'
+    );
+  });
+
+  it('aligns pairs on common dates and enforces the minimum overlap', () => {
+    const a = stock('AAA');
+    const b = stock('BBB');
+    // CCC ha solo le ultime 15 date e un buco in mezzo per DDD
+    const c = {
+      symbol: 'CCC',
+      dates: dates.slice(-15),
+      returns: market.slice(-15),
+    };
+    const d = {
+      symbol: 'DDD',
+      dates: dates.filter((_, i) => i % 10 !== 0),
+      returns: b.returns.filter((_, i) => i % 10 !== 0),
+    };
+
+    const report = calculateCorrelationAnalysis([a, b, c, d], null, 252)!;
+    const { matrix, observations } = report.correlationMatrix;
+
+    expect(observations[0]![1]).toBe(n);
+    expect(observations[1]![3]).toBe(540);
+    expect(observations[0]![2]).toBe(15);
+    expect(matrix[0]![2]).toBeNull();
+    expect(report.covarianceMatrix[0]![2]).toBeNull();
+    // DDD coincide con BBB sulle date comuni
+    expect(matrix[1]![3]).toBeCloseTo(1, 10);
+    expect(matrix[0]![1]).toBeCloseTo(matrix[1]![0]!, 12);
+    expect(report.pairs).toHaveLength(6);
+  });
+
+  it('computes rolling correlations and market regimes', () => {
+    const report = calculateCorrelationAnalysis(
+      [stock('AAA'), stock('BBB')],
+      null,
+      252,
+      {
+        method: 'spearman',
+        minOverlap: 20,
+        rollingWindowDays: 21,
+        stressQuantile: 0.8,
+      }
+    )!;
+    const [pair] = report.pairs;
+
+    expect(report.method).toBe('spearman');
+    expect(pair!.rolling.slice(0, 20).every(value => value === null)).toBe(
+      true
+    );
+    expect(pair!.rolling[20]).not.toBeNull();
+
+    const regimes = report.regimes!;
+    expect(regimes.proxy).toBe('MEDIA EQUIPESATA');
+    expect(regimes.calmPeriods + regimes.stressedPeriods).toBe(n - 20);
+    // La fase volatile ricade nel regime stressato
+    expect(
+      regimes.stressedIntervals.some(({ start }) => start >= dates[400]!)
+    ).toBe(true);
+    expect(pair!.stressed!).toBeGreaterThan(pair!.calm!);
+    expect(regimes.stressed.matrix[0]![1]).toBe(pair!.stressed);
+  });
+
+  it('uses the portfolio as market and needs two tickers', () => {
+    const report = calculateCorrelationAnalysis(
+      [stock('AAA'), stock('BBB')],
+      { symbol: 'PORTAFOGLIO', dates, returns: market },
+      252
+    )!;
+    expect(report.regimes!.proxy).toBe('PORTAFOGLIO');
+
+    expect(calculateCorrelationAnalysis([stock('AAA')], null, 252)).toBeNull();
+  });
+});
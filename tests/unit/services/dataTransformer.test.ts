@@ -0,0 +1,80 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  DataTransformer,
+  SupportedDataSource,
+} from '../../../backend/src/services/dataTransformer';
+
+describe('DataTransformer - transformRecords', () => {
+  const bar = (date: string, close: number, volume = 1000) => ({
+    date,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume,
+  });
+
+  const transform = (records: unknown[]) =>
+    new DataTransformer({ enableDividendAdjustment: false }).transformRecords(
+      records,
+      SupportedDataSource.YAHOO_FINANCE,
+      'TEST',
+      'daily'
+    );
+
+  it('returns a clean report for regular data', async () => {
+    const result = await transform([
+      bar('2024-03-04', 100),
+      bar('2024-03-05', 101),
+      bar('2024-03-06', 102),
+      bar('2024-03-07', 101),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(4);
+    expect(result.qualityReport.qualityScore).toBe(100);
+    expect(result.qualityReport.gaps).toEqual([]);
+    expect(result.qualityReport.volumeAnomalies).toEqual([]);
+    expect(result.qualityReport.firstDate).toBe('2024-03-04');
+    expect(result.qualityReport.lastDate).toBe('2024-03-07');
+  });
+
+  it('flags gaps, volume anomalies and price jumps', async () => {
+    const result = await transform([
+      bar('2024-03-01', 100),
+      bar('2024-03-04', 101),
+      bar('2024-03-15', 100, 50000),
+      bar('2024-03-18', 140),
+    ]);
+    const { qualityReport } = result;
+
+    expect(qualityReport.gaps).toEqual([
+      { from: '2024-03-04', to: '2024-03-15', calendarDays: 11 },
+    ]);
+    expect(qualityReport.volumeAnomalies).toHaveLength(1);
+    expect(qualityReport.volumeAnomalies[0]).toMatchObject({
+      date: '2024-03-15',
+      type: 'EXTREME_HIGH',
+    });
+    expect(qualityReport.priceAnomalies).toEqual(['2024-03-18']);
+    expect(qualityReport.qualityScore).toBeLessThan(100);
+
+    const flagged = result.data.find(item => item.date === '2024-03-15');
+    expect(flagged?.dataQuality.hasGaps).toBe(true);
+    expect(flagged?.dataQuality.suspiciousVolume).toBe(true);
+  });
+
+  it('skips bars with inconsistent OHLC and keeps dividend amounts', async () => {
+    const result = await transform([
+      bar('2024-03-04', 100),
+      { ...bar('2024-03-05', 101), dividendAmount: 0.5 },
+      { ...bar('2024-03-06', 102), high: 90 },
+    ]);
+
+    expect(result.qualityReport.recordsSkipped).toBe(1);
+    expect(result.warnings).toHaveLength(1);
+    expect(
+      result.data.find(item => item.date === '2024-03-05')?.dividendAmount
+    ).toBe(0.5);
+  });
+});
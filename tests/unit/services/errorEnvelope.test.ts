@@ -0,0 +1,186 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it, jest } from '@jest/globals';
+import type { Request, Response } from 'express';
+
+// Solo i tipi usati da ErrorCodeHandler: il servizio non viene chiamato
+jest.mock('../../../backend/src/services/alphaVantageService', () => ({
+  AlphaVantageError: class AlphaVantageError extends Error {},
+  AlphaVantageErrorType: {},
+}));
+
+import {
+  errorEnvelopeHandler,
+  sendApiError,
+} from '../../../backend/src/middleware/errorEnvelope';
+import {
+  ErrorCodeHandler,
+  SystemError,
+  SystemErrorType,
+} from '../../../backend/src/services/errorCodeHandler';
+import { toErrorEnvelope } from '../../../backend/src/services/errorEnvelope';
+
+const context = { operation: 'test', apiService: 'backend' };
+
+const classify = (error: Error) =>
+  ErrorCodeHandler.getInstance().classifyError(error, context);
+
+const createResponse = () => {
+  const res = {
+    statusCode: 200,
+    headersSent: false,
+    headers: {} as Record<string, string>,
+    body: undefined as any,
+    set(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+};
+
+describe('toErrorEnvelope', () => {
+  it('should expose the specific reason and route code for request errors', () => {
+    const envelope = toErrorEnvelope(
+      classify(
+        new SystemError(
+          SystemErrorType.INVALID_REQUEST,
+          'Parametro tickers richiesto',
+          { code: 'MISSING_TICKERS' }
+        )
+      )
+    );
+
+    expect(envelope.success).toBe(false);
+    expect(envelope.error).toMatchObject({
+      type: SystemErrorType.INVALID_REQUEST,
+      code: 'MISSING_TICKERS',
+      detail: 'Parametro tickers richiesto',
+      retryable: false,
+    });
+    expect(envelope.error.id).toMatch(/^err_/);
+    expect(envelope.error.retryAfter).toBeUndefined();
+  });
+
+  it('should hide internal messages of server errors', () => {
+    const envelope = toErrorEnvelope(
+      classify(new Error('Cannot read properties of undefined'))
+    );
+
+    expect(envelope.error.detail).toBeUndefined();
+    expect(envelope.error.code).toBe(envelope.error.type);
+  });
+
+  it('should wait until UTC midnight when the daily limit is exhausted', () => {
+    const now = Date.UTC(2024, 0, 15, 23, 0, 0);
+    const envelope = toErrorEnvelope(
+      classify(
+        new SystemError(
+          SystemErrorType.DAILY_LIMIT_EXCEEDED,
+          'Daily API limit reached'
+        )
+      ),
+      now
+    );
+
+    expect(envelope.error.retryAfter).toBe(3600);
+  });
+
+  it('should classify each failed ticker on its own', () => {
+    const envelope = toErrorEnvelope(
+      classify(
+        new SystemError(
+          SystemErrorType.NO_DATA_AVAILABLE,
+          'Nessun dato valido ottenuto per i ticker richiesti',
+          {
+            tickers: [
+              {
+                symbol: 'ZZZZ',
+                error: new SystemError(
+                  SystemErrorType.SYMBOL_NOT_FOUND,
+                  'Symbol not found: ZZZZ'
+                ),
+              },
+              {
+                symbol: 'AAPL',
+                error: new SystemError(
+                  SystemErrorType.CONNECTION_TIMEOUT,
+                  'socket hang up'
+                ),
+              },
+            ],
+          }
+        )
+      )
+    );
+
+    expect(envelope.error.tickers).toEqual([
+      expect.objectContaining({
+        symbol: 'ZZZZ',
+        type: SystemErrorType.SYMBOL_NOT_FOUND,
+        detail: 'Symbol not found: ZZZZ',
+        retryable: false,
+      }),
+      expect.objectContaining({
+        symbol: 'AAPL',
+        type: SystemErrorType.CONNECTION_TIMEOUT,
+        retryable: true,
+      }),
+    ]);
+    expect(envelope.error.tickers?.[1]?.detail).toBeUndefined();
+  });
+});
+
+describe('sendApiError', () => {
+  it('should send the mapped status and a Retry-After header', () => {
+    const res = createResponse();
+
+    sendApiError(
+      res as unknown as Response,
+      new SystemError(SystemErrorType.RATE_LIMIT_EXCEEDED, 'Too many', {
+        code: 'TOO_MANY_REQUESTS',
+        retryAfter: 900,
+      }),
+      context
+    );
+
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('900');
+    expect(res.body.error).toMatchObject({
+      code: 'TOO_MANY_REQUESTS',
+      retryAfter: 900,
+    });
+  });
+});
+
+describe('errorEnvelopeHandler', () => {
+  it('should keep the 4xx status of body parser errors', () => {
+    const res = createResponse();
+    const parseError = Object.assign(new Error('Unexpected token } in JSON'), {
+      status: 400,
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    errorEnvelopeHandler(
+      parseError,
+      { method: 'POST', path: '/api/analysis' } as Request,
+      res as unknown as Response,
+      jest.fn()
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toMatchObject({
+      type: SystemErrorType.INVALID_REQUEST,
+      detail: 'Unexpected token } in JSON',
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it, jest } from '@jest/globals';
+
+// Solo i tipi usati da ErrorCodeHandler: il servizio non viene chiamato
+jest.mock('../../../backend/src/services/alphaVantageService', () => ({
+  AlphaVantageError: class AlphaVantageError extends Error {},
+  AlphaVantageErrorType: {},
+}));
+
+// Sorgenti remote simulate: MSFT arriva dal fallback, ZZZZ non esiste,
+// EMPTY non ha barre nel periodo; un'analisi annullata non scarica nulla
+jest.mock('../../../backend/src/services/dataSourceManager', () => {
+  const { SystemError, SystemErrorType } = jest.requireActual<
+    typeof import('../../../backend/src/services/errorCodeHandler')
+  >('../../../backend/src/services/errorCodeHandler');
+  const bars = ['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05'].map(
+    (date, i) => ({
+      date,
+      open: 100 + i,
+      high: 102 + i,
+      low: 99 + i,
+      close: 101 + i,
+      volume: 1000,
+    })
+  );
+
+  return {
+    DataSource: {
+      YAHOO_FINANCE: 'yahoo_finance',
+      ALPHA_VANTAGE: 'alpha_vantage',
+    },
+    DataSourceManager: class {
+      async getStockData(
+        symbol: string,
+        _timeframe: string,
+        options?: { signal?: AbortSignal }
+      ) {
+        options?.signal?.throwIfAborted();
+        if (symbol === 'ZZZZ') {
+          throw new SystemError(
+            SystemErrorType.SYMBOL_NOT_FOUND,
+            'Symbol not found: ZZZZ'
+          );
+        }
+        return {
+          data: symbol === 'EMPTY' ? [] : bars,
+          success: true,
+          source: 'alpha_vantage',
+          fallbackUsed: true,
+        };
+      }
+    },
+  };
+});
+
+import { SystemError } from '../../../backend/src/services/errorCodeHandler';
+import { HistoricalAnalysisService } from '../../../backend/src/services/historicalAnalysisService';
+
+const params = {
+  startDate: '2024-01-01',
+  endDate: '2024-01-05',
+  frequency: 'daily' as const,
+  returnType: 'price' as const,
+};
+
+describe('HistoricalAnalysisService ticker status', () => {
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  it('should report source, coverage and the classified error per ticker', async () => {
+    const response =
+      await new HistoricalAnalysisService().performHistoricalAnalysis({
+        ...params,
+        tickers: ['MSFT', 'ZZZZ', 'EMPTY'],
+      });
+
+    expect(response.success).toBe(true);
+    expect(response.data.historicalData.map(d => d.symbol)).toEqual(['MSFT']);
+    expect(response.metadata.tickerStatus).toEqual([
+      {
+        symbol: 'MSFT',
+        status: 'ok',
+        source: 'alpha_vantage',
+        fallbackUsed: true,
+        dataPoints: 4,
+        firstDate: '2024-01-02',
+        lastDate: '2024-01-05',
+      },
+      expect.objectContaining({
+        symbol: 'ZZZZ',
+        status: 'failed',
+        dataPoints: 0,
+        error: expect.objectContaining({
+          type: 'SYMBOL_NOT_FOUND',
+          detail: 'Symbol not found: ZZZZ',
+        }),
+      }),
+      expect.objectContaining({
+        symbol: 'EMPTY',
+        status: 'failed',
+        error: expect.objectContaining({ type: 'NO_DATA_AVAILABLE' }),
+      }),
+    ]);
+  });
+
+  it('should fail with every ticker reason when nothing could be fetched', async () => {
+    const response =
+      await new HistoricalAnalysisService().performHistoricalAnalysis({
+        ...params,
+        tickers: ['ZZZZ', 'EMPTY'],
+      });
+
+    expect(response.success).toBe(false);
+    expect(response.failure).toBeInstanceOf(SystemError);
+    expect(
+      (response.failure as SystemError).options.tickers?.map(t => t.symbol)
+    ).toEqual(['ZZZZ', 'EMPTY']);
+    expect(
+      response.metadata.tickerStatus.map(({ symbol, status }) => [
+        symbol,
+        status,
+      ])
+    ).toEqual([
+      ['ZZZZ', 'failed'],
+      ['EMPTY', 'failed'],
+    ]);
+  });
+
+  it('should keep the ticker statuses collected before a later failure', async () => {
+    const service = new HistoricalAnalysisService();
+    jest
+      .spyOn(service as any, 'processHistoricalData')
+      .mockRejectedValueOnce(new Error('Serie non valida'));
+
+    const response = await service.performHistoricalAnalysis({
+      ...params,
+      tickers: ['MSFT', 'ZZZZ'],
+    });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toBe('Serie non valida');
+    expect(
+      response.metadata.tickerStatus.map(({ symbol, status }) => [
+        symbol,
+        status,
+      ])
+    ).toEqual([
+      ['MSFT', 'ok'],
+      ['ZZZZ', 'failed'],
+    ]);
+  });
+
+  it('should pass the cancellation signal to every ticker download', async () => {
+    const controller = new AbortController();
+    const settled: Array<[string, Error | undefined]> = [];
+    controller.abort();
+
+    const response =
+      await new HistoricalAnalysisService().performHistoricalAnalysis(
+        { ...params, tickers: ['MSFT', 'AAPL'] },
+        {
+          signal: controller.signal,
+          onTickerSettled: (symbol, error) => settled.push([symbol, error]),
+        }
+      );
+
+    expect(response.success).toBe(false);
+    expect(settled).toEqual([
+      [
+        'MSFT',
+        expect.objectContaining({ message: expect.stringMatching(/aborted/) }),
+      ],
+      [
+        'AAPL',
+        expect.objectContaining({ message: expect.stringMatching(/aborted/) }),
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,411 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DataSourceManager } from '../../../backend/src/services/dataSourceManager';
+import {
+  FileMarketDataStore,
+  MemoryMarketDataStore,
+  StoredBar,
+  missingRanges,
+} from '../../../backend/src/services/marketDataStore';
+import type { YahooFinanceResponse } from '../../../backend/src/services/yahooFinanceService';
+
+// Sorgenti remote sostituite: il test verifica solo il gap-filling
+const mockYahooGetStockData =
+  jest.fn<
+    (
+      symbol: string,
+      timeframe: string,
+      options?: { startDate?: string; endDate?: string }
+    ) => Promise<YahooFinanceResponse>
+  >();
+jest.mock('../../../backend/src/services/yahooFinanceService', () => ({
+  YahooFinanceTimeframe: { max: 'max' },
+  YahooFinanceService: jest.fn(() => ({
+    getStockData: mockYahooGetStockData,
+  })),
+}));
+jest.mock('../../../backend/src/services/alphaVantageService', () => ({
+  AlphaVantageTimeframe: { DAILY: 'daily' },
+  AlphaVantageService: jest.fn(),
+}));
+
+const bar = (date: string, close: number): StoredBar => ({
+  date,
+  open: close,
+  high: close + 1,
+  low: close - 1,
+  close,
+  volume: 1000,
+  source: 'yahoo_finance',
+  fetchedAt: '2024-02-01T00:00:00.000Z',
+});
+
+// Barre feriali tra due date (estremi inclusi), come le restituirebbe Yahoo
+const yahooResponse = (
+  start: string,
+  end: string,
+  close = 100
+): YahooFinanceResponse => {
+  const data = [];
+  for (
+    let time = Date.parse(start);
+    time <= Date.parse(end);
+    time += 86400000
+  ) {
+    const day = new Date(time).getUTCDay();
+    if (day === 0 || day === 6) continue;
+    data.push({
+      date: new Date(time).toISOString().slice(0, 10),
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      adjustedClose: close,
+      volume: 1000,
+    });
+  }
+  return {
+    data,
+    metadata: {
+      symbol: 'AAPL',
+      lastRefreshed: '2024-02-01',
+      dataPoints: data.length,
+      source: 'yahoo_finance',
+      timeZone: 'UTC',
+    },
+    success: true,
+    source: 'yahoo_finance',
+    requestTimestamp: '2024-02-01T00:00:00.000Z',
+  };
+};
+
+describe('missingRanges', () => {
+  it('returns only the uncovered parts of the request', () => {
+    const coverage = [
+      { start: '2024-01-10', end: '2024-01-20' },
+      { start: '2024-01-01', end: '2024-01-05' },
+      { start: '2024-01-21', end: '2024-01-25' }, // contiguo: unito
+    ];
+
+    expect(
+      missingRanges(coverage, { start: '2023-12-28', end: '2024-01-31' })
+    ).toEqual([
+      { start: '2023-12-28', end: '2023-12-31' },
+      { start: '2024-01-06', end: '2024-01-09' },
+      { start: '2024-01-26', end: '2024-01-31' },
+    ]);
+    expect(
+      missingRanges(coverage, { start: '2024-01-02', end: '2024-01-04' })
+    ).toEqual([]);
+    expect(
+      missingRanges([], { start: '2024-01-02', end: '2024-01-04' })
+    ).toEqual([{ start: '2024-01-02', end: '2024-01-04' }]);
+  });
+});
+
+describe('FileMarketDataStore', () => {
+  it('persists bars and coverage across instances', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'market-data-'));
+    try {
+      const store = new FileMarketDataStore(directory);
+      await store.saveBars('aapl', '1d', [bar('2024-01-03', 101)], {
+        start: '2024-01-01',
+        end: '2024-01-03',
+      });
+      await store.saveBars(
+        'AAPL',
+        '1d',
+        [bar('2024-01-02', 100), bar('2024-01-03', 102)],
+        { start: '2024-01-04', end: '2024-01-05' }
+      );
+      await store.close();
+
+      const reopened = new FileMarketDataStore(directory);
+      const bars = await reopened.getBars('AAPL', '1d', {
+        start: '2024-01-01',
+        end: '2024-01-31',
+      });
+      expect(bars.map(item => [item.date, item.close])).toEqual([
+        ['2024-01-02', 100],
+        ['2024-01-03', 102],
+      ]);
+      expect(bars[0]?.source).toBe('yahoo_finance');
+      expect(await reopened.getCoverage('AAPL', '1d')).toEqual([
+        { start: '2024-01-01', end: '2024-01-05' },
+      ]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps only the most recently used series in memory', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'market-data-'));
+    const range = { start: '2024-01-01', end: '2024-01-31' };
+    try {
+      const store = new FileMarketDataStore(directory, 2);
+      for (const symbol of ['AAPL', 'MSFT', 'GOOG']) {
+        await store.saveBars(symbol, '1d', [bar('2024-01-03', 101)], null);
+      }
+      const readFile = jest.spyOn(fs.promises, 'readFile');
+
+      // GOOG e MSFT sono in memoria, AAPL (la meno recente) torna dal disco
+      await store.getBars('GOOG', '1d', range);
+      await store.getBars('MSFT', '1d', range);
+      expect(readFile).not.toHaveBeenCalled();
+
+      const reloaded = await store.getBars('AAPL', '1d', range);
+      expect(readFile).toHaveBeenCalledTimes(1);
+      expect(reloaded.map(item => item.close)).toEqual([101]);
+      await store.close();
+    } finally {
+      jest.restoreAllMocks();
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('deletes a series from memory and disk', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'market-data-'));
+    try {
+      const store = new FileMarketDataStore(directory);
+      await store.saveBars('AAPL', '1d', [bar('2024-01-03', 101)], {
+        start: '2024-01-01',
+        end: '2024-01-03',
+      });
+      await store.deleteSeries('aapl', '1d');
+      await store.close();
+
+      const reopened = new FileMarketDataStore(directory);
+      expect(
+        await reopened.getBars('AAPL', '1d', {
+          start: '2024-01-01',
+          end: '2024-01-31',
+        })
+      ).toEqual([]);
+      expect(await reopened.getCoverage('AAPL', '1d')).toEqual([]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('DataSourceManager with market data store', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockYahooGetStockData.mockReset();
+  });
+
+  const createManager = (store = new MemoryMarketDataStore()) =>
+    new DataSourceManager({
+      enableFallback: false,
+      logFallbacks: false,
+      marketDataStore: store,
+    });
+
+  it('fetches only the missing date ranges', async () => {
+    const fetch = mockYahooGetStockData.mockImplementation(
+      async (_symbol, _timeframe, options) =>
+        yahooResponse(options!.startDate!, options!.endDate!)
+    );
+    const manager = createManager();
+
+    const first = await manager.getStockData('AAPL', 'daily', {
+      startDate: '2024-01-08',
+      endDate: '2024-01-12',
+    });
+    expect(first.data).toHaveLength(5);
+    expect(first.cacheHit).toBe(false);
+    expect(first.data[0]).toMatchObject({ source: 'yahoo_finance' });
+
+    const second = await manager.getStockData('AAPL', 'weekly', {
+      startDate: '2024-01-01',
+      endDate: '2024-01-19',
+    });
+    expect(second.data).toHaveLength(15);
+    expect(fetch).toHaveBeenCalledTimes(4);
+    // Prima dei buchi, il controllo delle rettifiche sull'ultima barra salvata
+    expect(fetch.mock.calls[1]?.[2]).toMatchObject({
+      startDate: '2024-01-12',
+      endDate: '2024-01-13',
+      useCache: false,
+    });
+    // Fine esclusiva per la sorgente: un giorno oltre il buco
+    expect(fetch.mock.calls[2]?.[2]).toMatchObject({
+      startDate: '2024-01-01',
+      endDate: '2024-01-08',
+    });
+    expect(fetch.mock.calls[3]?.[2]).toMatchObject({
+      startDate: '2024-01-13',
+      endDate: '2024-01-20',
+    });
+
+    const cached = await manager.getStockData('AAPL', 'daily', {
+      startDate: '2024-01-02',
+      endDate: '2024-01-14',
+    });
+    expect(cached.cacheHit).toBe(true);
+    expect(cached.data).toHaveLength(9);
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('refetches the series when a split changes the stored prices', async () => {
+    let close = 100;
+    const fetch = mockYahooGetStockData.mockImplementation(
+      async (_symbol, _timeframe, options) =>
+        yahooResponse(options!.startDate!, options!.endDate!, close)
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const manager = createManager();
+
+    await manager.getStockData('AAPL', 'daily', {
+      startDate: '2024-01-08',
+      endDate: '2024-01-12',
+    });
+    close = 50; // split 2:1, la sorgente riporta lo storico rettificato
+    const afterSplit = await manager.getStockData('AAPL', 'daily', {
+      startDate: '2024-01-08',
+      endDate: '2024-01-19',
+    });
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch.mock.calls[2]?.[2]).toMatchObject({
+      startDate: '2024-01-08',
+      endDate: '2024-01-20',
+    });
+    expect(afterSplit.data).toHaveLength(10);
+    expect(afterSplit.data.every(item => item.close === 50)).toBe(true);
+  });
+
+  it('rechecks stored adjustments once a day without new downloads', async () => {
+    const fetch = mockYahooGetStockData.mockImplementation(
+      async (_symbol, _timeframe, options) =>
+        yahooResponse(options!.startDate!, options!.endDate!)
+    );
+    const store = new MemoryMarketDataStore();
+    await store.saveBars(
+      'AAPL',
+      '1d',
+      [bar('2024-01-11', 100), bar('2024-01-12', 100)],
+      { start: '2024-01-11', end: '2024-01-12' }
+    );
+    const manager = createManager(store);
+    const range = { startDate: '2024-01-11', endDate: '2024-01-12' };
+
+    const first = await manager.getStockData('AAPL', 'daily', range);
+    const second = await manager.getStockData('AAPL', 'daily', range);
+
+    // Un solo controllo: confermato, rimanda il successivo di un giorno
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0]?.[2]).toMatchObject({
+      startDate: '2024-01-12',
+      endDate: '2024-01-13',
+    });
+    expect(first.data.map(item => item.date)).toEqual([
+      '2024-01-11',
+      '2024-01-12',
+    ]);
+    expect(second.cacheHit).toBe(true);
+  });
+
+  it('reads stored bars without contacting the sources', async () => {
+    const store = new MemoryMarketDataStore();
+    await store.saveBars('AAPL', '1d', [bar('2024-01-08', 100)], {
+      start: '2024-01-08',
+      end: '2024-01-08',
+    });
+    const manager = createManager(store);
+
+    const stored = await manager.getStoredBars(
+      'aapl',
+      '2024-01-01',
+      '2024-01-31'
+    );
+    const unknown = await manager.getStoredBars(
+      'ZZZZ',
+      '2024-01-01',
+      '2024-01-31'
+    );
+
+    expect(stored.map(item => item.date)).toEqual(['2024-01-08']);
+    expect(unknown).toEqual([]);
+    expect(mockYahooGetStockData).not.toHaveBeenCalled();
+  });
+
+  it('stops downloading the missing ranges once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fetch = mockYahooGetStockData.mockImplementation(
+      async (_symbol, _timeframe, options) => {
+        // Analisi annullata durante il download del primo buco
+        if (options!.startDate === '2024-01-01') controller.abort();
+        return yahooResponse(options!.startDate!, options!.endDate!);
+      }
+    );
+    const manager = createManager();
+
+    await manager.getStockData('AAPL', 'daily', {
+      startDate: '2024-01-08',
+      endDate: '2024-01-12',
+    });
+    await expect(
+      manager.getStockData('AAPL', 'daily', {
+        startDate: '2024-01-01',
+        endDate: '2024-01-19',
+        signal: controller.signal,
+      })
+    ).rejects.toThrow('aborted');
+
+    // Download iniziale, controllo delle rettifiche e primo buco: il secondo
+    // buco non viene più richiesto
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await expect(
+      manager.getStockData('AAPL', 'daily', {
+        startDate: '2024-01-01',
+        endDate: '2024-01-05',
+        signal: controller.signal,
+      })
+    ).rejects.toThrow('aborted');
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('serves previously stored bars when the sources are offline', async () => {
+    const fetch = mockYahooGetStockData
+      .mockImplementationOnce(async (_symbol, _timeframe, options) =>
+        yahooResponse(options!.startDate!, options!.endDate!)
+      )
+      .mockRejectedValue(new Error('offline'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const manager = createManager();
+
+    await manager.getStockData('AAPL', 'daily', {
+      startDate: '2024-01-08',
+      endDate: '2024-01-12',
+    });
+    const offline = await manager.getStockData('AAPL', 'daily', {
+      startDate: '2024-01-08',
+      endDate: '2024-01-19',
+    });
+
+    // Controllo delle rettifiche e buco, entrambi falliti
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(offline.success).toBe(true);
+    expect(offline.data.map(item => item.date)).toEqual([
+      '2024-01-08',
+      '2024-01-09',
+      '2024-01-10',
+      '2024-01-11',
+      '2024-01-12',
+    ]);
+
+    await expect(
+      manager.getStockData('MSFT', 'daily', {
+        startDate: '2024-01-08',
+        endDate: '2024-01-12',
+      })
+    ).rejects.toThrow();
+  });
+});
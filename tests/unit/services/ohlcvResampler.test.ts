@@ -0,0 +1,89 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  getPeriodsPerYear,
+  resampleOHLCV,
+} from '../../../backend/src/services/ohlcvResampler';
+
+describe('OHLCV Resampler', () => {
+  // Da lunedì 2024-01-29 a martedì 2024-02-06
+  const daily = [
+    { date: '2024-01-29', open: 10, high: 12, low: 9, close: 11, volume: 100 },
+    { date: '2024-01-30', open: 11, high: 13, low: 10, close: 12, volume: 100 },
+    { date: '2024-01-31', open: 12, high: 15, low: 11, close: 14, volume: 100 },
+    { date: '2024-02-01', open: 14, high: 14, low: 8, close: 9, volume: 100 },
+    { date: '2024-02-02', open: 9, high: 10, low: 9, close: 10, volume: 100 },
+    { date: '2024-02-05', open: 10, high: 11, low: 10, close: 11, volume: 50 },
+    { date: '2024-02-06', open: 11, high: 12, low: 7, close: 8, volume: 50 },
+  ].map(bar => ({ ...bar, adjustedClose: bar.close / 2 }));
+
+  it('returns daily data unchanged', () => {
+    expect(resampleOHLCV(daily, 'daily')).toHaveLength(daily.length);
+  });
+
+  it('aggregates weekly bars anchored on friday', () => {
+    const weekly = resampleOHLCV(daily, 'weekly');
+
+    expect(weekly).toEqual([
+      {
+        date: '2024-02-02',
+        open: 10,
+        high: 15,
+        low: 8,
+        close: 10,
+        adjustedClose: 5,
+        volume: 500,
+      },
+      {
+        // Settimana non conclusa: etichetta dell'ultima barra, non il venerdì
+        date: '2024-02-06',
+        open: 10,
+        high: 12,
+        low: 7,
+        close: 8,
+        adjustedClose: 4,
+        volume: 100,
+      },
+    ]);
+  });
+
+  it('supports a custom week anchor', () => {
+    const weekly = resampleOHLCV(daily, 'weekly', { weekAnchor: 'tuesday' });
+
+    expect(weekly.map(bar => bar.date)).toEqual(['2024-01-30', '2024-02-06']);
+    expect(weekly[1]?.open).toBe(12);
+    expect(weekly[1]?.volume).toBe(400);
+  });
+
+  it('aggregates monthly bars labelled with the month end', () => {
+    const monthly = resampleOHLCV(daily, 'monthly');
+
+    // Febbraio si ferma all'ultima barra disponibile
+    expect(monthly.map(bar => bar.date)).toEqual(['2024-01-31', '2024-02-06']);
+    expect(monthly[0]).toMatchObject({ open: 10, high: 15, low: 9, close: 14 });
+    expect(monthly[1]).toMatchObject({ open: 14, high: 14, low: 7, close: 8 });
+  });
+
+  it('keeps the period end of complete buckets without a bar on that day', () => {
+    // Venerdì 2024-03-29 festivo: la settimana si chiude giovedì
+    const holiday = [
+      { date: '2024-03-28', open: 1, high: 1, low: 1, close: 1, volume: 1 },
+      { date: '2024-04-01', open: 2, high: 2, low: 2, close: 2, volume: 1 },
+    ];
+
+    expect(resampleOHLCV(holiday, 'weekly').map(bar => bar.date)).toEqual([
+      '2024-03-29',
+      '2024-04-01',
+    ]);
+    expect(
+      resampleOHLCV(holiday, 'weekly', { weekAnchor: 'sunday' }).map(
+        bar => bar.date
+      )
+    ).toEqual(['2024-03-31', '2024-04-01']);
+  });
+
+  it('maps frequencies to annualisation factors', () => {
+    expect(getPeriodsPerYear('daily')).toBe(252);
+    expect(getPeriodsPerYear('weekly')).toBe(52);
+    expect(getPeriodsPerYear('monthly')).toBe(12);
+  });
+});
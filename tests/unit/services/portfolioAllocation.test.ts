@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  DEFAULT_INITIAL_CAPITAL,
+  resolvePortfolioAllocation,
+  validatePortfolioAllocation,
+} from '../../../backend/src/services/portfolioAllocation';
+
+describe('Portfolio Allocation', () => {
+  const tickers = ['AAPL', 'MSFT'];
+
+  describe('validatePortfolioAllocation', () => {
+    it('accepts an empty allocation (equal weights)', () => {
+      expect(validatePortfolioAllocation(tickers, {})).toBeNull();
+    });
+
+    it('accepts weights summing to 100%', () => {
+      expect(
+        validatePortfolioAllocation(tickers, {
+          weights: { AAPL: 40, MSFT: 60 },
+        })
+      ).toBeNull();
+    });
+
+    it('rejects weights not summing to 100%', () => {
+      expect(
+        validatePortfolioAllocation(tickers, {
+          weights: { AAPL: 40, MSFT: 50 },
+        })
+      ).toContain('100%');
+    });
+
+    it('rejects weights for tickers outside the analysis', () => {
+      expect(
+        validatePortfolioAllocation(tickers, {
+          weights: { AAPL: 40, MSFT: 50, TSLA: 10 },
+        })
+      ).toContain('TSLA');
+    });
+
+    it('rejects weights and shares together', () => {
+      expect(
+        validatePortfolioAllocation(tickers, {
+          weights: { AAPL: 50, MSFT: 50 },
+          shares: { AAPL: 1, MSFT: 1 },
+        })
+      ).not.toBeNull();
+    });
+
+    it('rejects a non positive initial capital', () => {
+      expect(
+        validatePortfolioAllocation(tickers, { initialCapital: -10 })
+      ).not.toBeNull();
+    });
+  });
+
+  describe('resolvePortfolioAllocation', () => {
+    it('falls back to equal weights', () => {
+      const resolved = resolvePortfolioAllocation(tickers, [100, 200]);
+
+      expect(resolved.method).toBe('equal');
+      expect(resolved.weights).toEqual({ AAPL: 0.5, MSFT: 0.5 });
+      expect(resolved.initialCapital).toBe(DEFAULT_INITIAL_CAPITAL);
+    });
+
+    it('renormalizes weights of the available tickers', () => {
+      const resolved = resolvePortfolioAllocation(['AAPL'], [100], {
+        weights: { AAPL: 40, MSFT: 60 },
+      });
+
+      expect(resolved.weights.AAPL).toBeCloseTo(1);
+    });
+
+    it('derives weights and capital from share counts', () => {
+      const resolved = resolvePortfolioAllocation(tickers, [100, 200], {
+        shares: { AAPL: 10, MSFT: 5 },
+      });
+
+      expect(resolved.method).toBe('shares');
+      expect(resolved.weights.AAPL).toBeCloseTo(0.5);
+      expect(resolved.weights.MSFT).toBeCloseTo(0.5);
+      expect(resolved.initialCapital).toBe(2000);
+    });
+  });
+});
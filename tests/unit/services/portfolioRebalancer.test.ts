@@ -0,0 +1,79 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  parseRebalancingPolicy,
+  simulatePortfolio,
+} from '../../../backend/src/services/portfolioRebalancer';
+
+describe('Portfolio Rebalancer', () => {
+  const dates = ['2024-01-30', '2024-01-31', '2024-02-01', '2024-02-02'];
+  const symbols = ['AAA', 'BBB'];
+  // AAA raddoppia, BBB resta fermo
+  const prices = [
+    [100, 150, 200, 200],
+    [100, 100, 100, 100],
+  ];
+  const targetWeights = { AAA: 0.5, BBB: 0.5 };
+
+  it('keeps units constant with buy-and-hold', () => {
+    const result = simulatePortfolio({
+      dates,
+      symbols,
+      prices,
+      targetWeights,
+      initialCapital: 100,
+      policy: { type: 'buy-and-hold' },
+    });
+
+    expect(result.values).toEqual([100, 125, 150, 150]);
+    expect(result.rebalanceEvents).toHaveLength(0);
+    expect(result.totalTurnover).toBe(0);
+    expect(result.weightsOverTime.AAA[3]).toBeCloseTo(2 / 3);
+    expect(result.drift[3]).toBeCloseTo(2 / 3 - 0.5);
+  });
+
+  it('rebalances on the first trading day of a new month', () => {
+    const result = simulatePortfolio({
+      dates,
+      symbols,
+      prices,
+      targetWeights,
+      initialCapital: 100,
+      policy: { type: 'calendar', frequency: 'monthly' },
+    });
+
+    expect(result.rebalanceEvents.map(event => event.date)).toEqual([
+      '2024-02-01',
+    ]);
+    expect(result.weightsOverTime.AAA[2]).toBeCloseTo(0.5);
+    expect(result.totalTurnover).toBeCloseTo(2 / 3 - 0.5);
+  });
+
+  it('rebalances when drift exceeds the threshold band', () => {
+    const result = simulatePortfolio({
+      dates,
+      symbols,
+      prices,
+      targetWeights,
+      initialCapital: 100,
+      policy: { type: 'threshold', threshold: 0.05 },
+    });
+
+    expect(result.rebalanceEvents.map(event => event.date)).toEqual([
+      '2024-01-31',
+      '2024-02-01',
+    ]);
+    expect(result.values[3]).toBeCloseTo(result.values[2]);
+  });
+
+  it('validates the requested policy', () => {
+    expect(parseRebalancingPolicy(undefined)).toEqual({
+      policy: { type: 'buy-and-hold' },
+    });
+    expect(
+      parseRebalancingPolicy({ type: 'calendar', frequency: 'weekly' })
+    ).toHaveProperty('error');
+    expect(
+      parseRebalancingPolicy({ type: 'threshold', threshold: 0.1 })
+    ).toEqual({ policy: { type: 'threshold', threshold: 0.1 } });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  DividendEvent,
+  PriceAdjuster,
+} from '../../../backend/src/services/priceAdjuster';
+
+describe('PriceAdjuster - dividendi', () => {
+  const bars = [
+    { date: '2024-03-01', open: 100, high: 101, low: 99, close: 100 },
+    { date: '2024-03-04', open: 100, high: 103, low: 99, close: 102 },
+    { date: '2024-03-05', open: 100, high: 101, low: 98, close: 100 },
+    { date: '2024-03-06', open: 100, high: 102, low: 99, close: 101 },
+    { date: '2024-03-07', open: 101, high: 104, low: 100, close: 103 },
+  ].map(bar => ({ ...bar, volume: 1000 }));
+
+  const dividend = (exDate: string, amount: number): DividendEvent => ({
+    date: exDate,
+    symbol: 'TEST',
+    amount,
+    currency: 'USD',
+    type: 'CASH',
+    exDate,
+    payDate: exDate,
+    source: 'TEST',
+  });
+
+  const createAdjuster = () =>
+    new PriceAdjuster({
+      enableSplitAdjustment: false,
+      enableDividendAdjustment: true,
+    });
+
+  it('applies backward factors before the ex-date', async () => {
+    const adjuster = createAdjuster();
+    const adjusted = await adjuster.adjustForDividends(bars, 'TEST', [
+      dividend('2024-03-05', 2.04),
+    ]);
+
+    // Fattore = 1 - 2.04 / 102 = 0.98 per le barre precedenti all'ex-date
+    expect(adjusted[0].dividendAdjustmentFactor).toBeCloseTo(0.98, 10);
+    expect(adjusted[1].adjustedClose).toBeCloseTo(102 * 0.98, 6);
+    expect(adjusted[2].dividendAdjustmentFactor).toBe(1);
+    expect(adjusted[4].adjustedClose).toBe(103);
+    // Il close originale resta invariato
+    expect(adjusted[1].close).toBe(102);
+  });
+
+  it('compounds multiple dividends', async () => {
+    const adjuster = createAdjuster();
+    const adjusted = await adjuster.adjustForDividends(bars, 'TEST', [
+      dividend('2024-03-04', 1),
+      dividend('2024-03-07', 1.01),
+    ]);
+
+    expect(adjusted[0].dividendAdjustmentFactor).toBeCloseTo(0.99 * 0.99, 10);
+    expect(adjusted[1].dividendAdjustmentFactor).toBeCloseTo(0.99, 10);
+    expect(adjusted[3].dividendAdjustmentFactor).toBeCloseTo(0.99, 10);
+    expect(adjusted[4].dividendAdjustmentFactor).toBe(1);
+  });
+
+  it('reads dividends from dividendAmount fields', async () => {
+    const adjuster = createAdjuster();
+    const withDividend = bars.map(bar =>
+      bar.date === '2024-03-06' ? { ...bar, dividendAmount: 1 } : bar
+    );
+
+    expect(adjuster.extractDividendEvents(withDividend, 'TEST')).toHaveLength(
+      1
+    );
+
+    const adjusted = await adjuster.adjustForDividends(withDividend, 'TEST');
+    expect(adjusted[2].dividendAdjustmentFactor).toBeCloseTo(0.99, 10);
+  });
+
+  it('ignores dividends outside the data range', async () => {
+    const adjuster = createAdjuster();
+    const adjusted = await adjuster.adjustForDividends(bars, 'TEST', [
+      dividend('2024-02-01', 1),
+      dividend('2024-04-01', 1),
+    ]);
+
+    expect(adjusted.every(bar => bar.dividendAdjustmentFactor === 1)).toBe(
+      true
+    );
+  });
+
+  it('returns data unchanged when dividend adjustment is disabled', async () => {
+    const adjuster = new PriceAdjuster();
+    const adjusted = await adjuster.adjustForDividends(bars, 'TEST', [
+      dividend('2024-03-05', 2),
+    ]);
+
+    expect(adjusted).toBe(bars);
+  });
+
+  it('validates dividend adjustments', async () => {
+    const adjuster = createAdjuster();
+    const dividends = [dividend('2024-03-05', 2.04)];
+    const adjusted = await adjuster.adjustForDividends(bars, 'TEST', dividends);
+
+    expect(
+      adjuster.validateAdjustments(bars, adjusted, dividends).issues
+    ).toEqual([]);
+
+    const broken = adjusted.map((bar, i) =>
+      i === 0 ? { ...bar, dividendAdjustmentFactor: 1.2 } : bar
+    );
+    const result = adjuster.validateAdjustments(bars, broken, [
+      dividend('2024-03-05', 150),
+    ]);
+
+    expect(result.isValid).toBe(false);
+    expect(result.issues.some(issue => issue.includes('fuori range'))).toBe(
+      true
+    );
+    expect(result.issues.some(issue => issue.includes('non monotono'))).toBe(
+      true
+    );
+    expect(
+      result.issues.some(issue => issue.includes('non inferiore al close'))
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  parseImportedSeries,
+  parsePriceFile,
+  sanitizeImportedSymbol,
+} from '../../../backend/src/services/priceImport';
+import { buildZip } from '../../utils/zip';
+
+describe('priceImport', () => {
+  it('reads semicolon CSV with decimal commas, DD/MM dates and abbreviated volumes', () => {
+    const csv = [
+      'Data;Apertura;Massimo;Minimo;Chiusura;Volume',
+      '02/01/2024;10,5;11,2;10,1;11,0;1.2M',
+      '03/01/2024;11,0;11,5;10,8;11,3;850K',
+      '15/01/2024;11,3;11,9;11,1;11,8;1.234.567',
+    ].join('\n');
+
+    const parsed = parsePriceFile({
+      fileName: 'enel export.csv',
+      content: csv,
+    });
+    if ('error' in parsed) throw new Error(parsed.error);
+    const { result } = parsed;
+
+    expect(result.layout).toBe('ohlcv');
+    expect(result.decimalSeparator).toBe(',');
+    expect(result.dateFormat).toBe('DD/MM/YYYY');
+    expect(result.mapping).toMatchObject({ date: 'Data', close: 'Chiusura' });
+    expect(result.series).toHaveLength(1);
+
+    const [series] = result.series;
+    expect(series?.symbol).toBe('ENEL_EXPORT');
+    expect(series?.data.map(bar => bar.date)).toEqual([
+      '2024-01-02',
+      '2024-01-03',
+      '2024-01-15',
+    ]);
+    expect(series?.data[0]).toMatchObject({
+      open: 10.5,
+      close: 11,
+      volume: 1200000,
+    });
+    expect(series?.data[1]?.volume).toBe(850000);
+    expect(series?.data[2]?.volume).toBe(1234567);
+  });
+
+  it('detects month-first dates and keeps the adjusted close', () => {
+    const csv = [
+      'Date,Open,High,Low,Close,Adj Close,Volume',
+      '"01/30/2024",100,101,99,100.5,99.8,"1,000"',
+      '01/31/2024,100.5,102,100,101.5,100.7,2000',
+    ].join('\r\n');
+
+    const parsed = parsePriceFile({
+      fileName: 'x.csv',
+      content: csv,
+      symbol: 'msft',
+    });
+    if ('error' in parsed) throw new Error(parsed.error);
+
+    expect(parsed.result.dateFormat).toBe('MM/DD/YYYY');
+    expect(parsed.result.series[0]?.symbol).toBe('MSFT');
+    expect(parsed.result.series[0]?.data[0]).toMatchObject({
+      date: '2024-01-30',
+      close: 100.5,
+      adjustedClose: 99.8,
+      volume: 1000,
+    });
+  });
+
+  it('reads one close series per column in the wide layout', () => {
+    const csv = [
+      'Date,AAPL,MSFT',
+      '2024-01-02,185.6,370.9',
+      '2024-01-03,184.2,',
+      '2024-01-04,181.9,367.8',
+    ].join('\n');
+
+    const parsed = parsePriceFile({ fileName: 'prices.csv', content: csv });
+    if ('error' in parsed) throw new Error(parsed.error);
+
+    expect(parsed.result.layout).toBe('wide');
+    expect(parsed.result.series.map(series => series.symbol)).toEqual([
+      'AAPL',
+      'MSFT',
+    ]);
+    expect(parsed.result.series[0]?.data).toHaveLength(3);
+    expect(parsed.result.series[1]?.data.map(bar => bar.date)).toEqual([
+      '2024-01-02',
+      '2024-01-04',
+    ]);
+  });
+
+  it('reports invalid rows and duplicate dates without failing the import', () => {
+    const csv = [
+      'Date,Close',
+      '2024-01-02,10',
+      'not a date,11',
+      '2024-01-03,abc',
+      '2024-01-04,12',
+      '2024-01-04,12.5',
+    ].join('\n');
+
+    const parsed = parsePriceFile({ fileName: 'abc.csv', content: csv });
+    if ('error' in parsed) throw new Error(parsed.error);
+    const { result } = parsed;
+
+    expect(result.rowsRead).toBe(5);
+    expect(result.rowsSkipped).toBe(1);
+    expect(result.series[0]?.data.map(bar => bar.close)).toEqual([10, 12.5]);
+    expect(
+      result.issues
+        .filter(issue => issue.severity === 'error')
+        .map(issue => issue.row)
+    ).toEqual([3, 4]);
+    expect(
+      result.issues.some(issue => issue.message.includes('duplicata'))
+    ).toBe(true);
+  });
+
+  it('rejects files without a date column or usable rows', () => {
+    expect(
+      parsePriceFile({ fileName: 'a.csv', content: 'Foo,Bar\n1,2' })
+    ).toHaveProperty('error');
+    expect(
+      parsePriceFile({ fileName: 'a.csv', content: 'Date,Close\n2024-01-02,1' })
+    ).toHaveProperty('error');
+    expect(parsePriceFile({ fileName: 'a.xls', content: 'x' })).toHaveProperty(
+      'error'
+    );
+  });
+
+  it('reads the first sheet of an XLSX file with Excel serial dates', () => {
+    const xlsx = buildZip({
+      'xl/workbook.xml':
+        '<workbook><sheets><sheet name="Prezzi" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml':
+        '<sst><si><t>Date</t></si><si><t>Close</t></si></sst>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2"><v>45293</v></c><c r="B2"><v>101.25</v></c></row>' +
+        '<row r="3"><c r="A3"><v>45294</v></c><c r="B3"><v>102.5</v></c></row>' +
+        '</sheetData></worksheet>',
+    });
+
+    const parsed = parsePriceFile({
+      fileName: 'Fondo.xlsx',
+      content: xlsx.toString('base64'),
+      encoding: 'base64',
+    });
+    if ('error' in parsed) throw new Error(parsed.error);
+
+    expect(parsed.result.format).toBe('xlsx');
+    expect(parsed.result.dateFormat).toBe('EXCEL_SERIAL');
+    expect(parsed.result.series[0]?.symbol).toBe('FONDO');
+    expect(
+      parsed.result.series[0]?.data.map(bar => [bar.date, bar.close])
+    ).toEqual([
+      ['2024-01-02', 101.25],
+      ['2024-01-03', 102.5],
+    ]);
+  });
+
+  it('validates imported series sent with the analysis request', () => {
+    const parsed = parseImportedSeries([
+      {
+        symbol: 'fondo',
+        source: 'fondo.csv',
+        data: [
+          { date: '2024-01-03', close: 11 },
+          { date: '2024-01-02', close: 10, volume: 5 },
+        ],
+      },
+    ]);
+    if ('error' in parsed) throw new Error(parsed.error);
+
+    expect(parsed.series[0]?.symbol).toBe('FONDO');
+    expect(parsed.series[0]?.data[0]).toEqual({
+      date: '2024-01-02',
+      open: 10,
+      high: 10,
+      low: 10,
+      close: 10,
+      volume: 5,
+    });
+
+    expect(parseImportedSeries(undefined)).toEqual({ series: [] });
+    expect(parseImportedSeries('x')).toHaveProperty('error');
+    expect(
+      parseImportedSeries([
+        {
+          symbol: 'A',
+          data: [
+            { date: '2024-01-02', close: -1 },
+            { date: '2024-01-03', close: 1 },
+          ],
+        },
+      ])
+    ).toHaveProperty('error');
+    expect(sanitizeImportedSymbol('  my fund ')).toBe('MY_FUND');
+    expect(sanitizeImportedSymbol('')).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  alignFactorsToIntervals,
+  parseFactorCsv,
+} from '../../../backend/src/services/factorData';
+import {
+  calculateRegressionReport,
+  olsRegression,
+} from '../../../backend/src/services/regressionAnalysis';
+import {
+  createRandom,
+  randomNormal,
+  twoSidedPValue,
+} from '../../../backend/src/services/statistics';
+
+const random = createRandom(11);
+
+// Giorni feriali consecutivi a partire dal 2 gennaio 2023
+const tradingDays = (count: number) => {
+  const days: string[] = [];
+  const date = new Date('2023-01-02T00:00:00Z');
+  while (days.length < count) {
+    if (date.getUTCDay() % 6 !== 0) days.push(date.toISOString().slice(0, 10));
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return days;
+};
+
+const toPrices = (returns: number[]) =>
+  returns.reduce<number[]>(
+    (prices, value, i) =>
+      i === 0 ? [100] : [...prices, prices[i - 1] * (1 + value)],
+    []
+  );
+
+describe('statistics - t di Student', () => {
+  it('matches tabulated critical values', () => {
+    expect(twoSidedPValue(2.228, 10)).toBeCloseTo(0.05, 3);
+    expect(twoSidedPValue(2.576, 1e6)).toBeCloseTo(0.01, 3);
+    expect(twoSidedPValue(0, 5)).toBeCloseTo(1, 10);
+  });
+});
+
+describe('olsRegression', () => {
+  it('recovers intercept and slopes', () => {
+    const x1 = Array.from({ length: 400 }, () => randomNormal(random));
+    const x2 = Array.from({ length: 400 }, () => randomNormal(random));
+    const y = x1.map(
+      (value, i) => 0.5 + 2 * value - x2[i] + 0.1 * randomNormal(random)
+    );
+
+    const result = olsRegression(y, [x1, x2], ['SMB', 'HML'])!;
+
+    expect(result.coefficients.map(c => c.name)).toEqual([
+      'ALPHA',
+      'SMB',
+      'HML',
+    ]);
+    expect(result.coefficients[0].estimate).toBeCloseTo(0.5, 1);
+    expect(result.coefficients[1].estimate).toBeCloseTo(2, 1);
+    expect(result.coefficients[2].estimate).toBeCloseTo(-1, 1);
+    expect(result.coefficients[1].pValue).toBeLessThan(0.001);
+    expect(result.rSquared).toBeGreaterThan(0.99);
+    expect(result.degreesOfFreedom).toBe(397);
+    expect(result.residualStandardError).toBeCloseTo(0.1, 1);
+  });
+
+  it('returns null for collinear regressors or too few observations', () => {
+    const x = Array.from({ length: 50 }, (_, i) => i);
+    expect(olsRegression(x, [x, x.map(v => 2 * v)], ['SMB', 'HML'])).toBe(null);
+    expect(olsRegression([1, 2, 3], [[1, 2, 4]], ['MKT'])).toBeNull();
+  });
+});
+
+describe('factorData', () => {
+  it('parses Kenneth French files in percent', () => {
+    const csv = [
+      'This file was created by CMPT_ME_BEME_RETS using the 202401 CRSP database.',
+      '',
+      ',Mkt-RF,SMB,HML,RF',
+      ...Array.from(
+        { length: 12 },
+        (_, i) => `2023${String(i + 1).padStart(2, '0')},1.50,-0.20,0.30,0.40`
+      ),
+      '',
+      ' Annual Factors: January-December ',
+      ',Mkt-RF,SMB,HML,RF',
+      '2023,24.0,-3.0,-10.0,5.0',
+    ].join('\n');
+
+    const parsed = parseFactorCsv(csv);
+    expect('dataset' in parsed).toBe(true);
+    if (!('dataset' in parsed)) return;
+
+    const { dataset } = parsed;
+    expect(dataset.frequency).toBe('monthly');
+    expect(dataset.unit).toBe('percent');
+    expect(dataset.factors).toEqual(['MKT_RF', 'SMB', 'HML']);
+    expect(dataset.hasRiskFree).toBe(true);
+    expect(dataset.dates).toHaveLength(12);
+    expect(dataset.values.MKT_RF![0]).toBeCloseTo(0.015, 10);
+  });
+
+  it('rejects files without factor columns', () => {
+    expect(parseFactorCsv('Date,Close\n2024-01-02,100')).toHaveProperty(
+      'error'
+    );
+    expect(parseFactorCsv('')).toHaveProperty('error');
+  });
+
+  it('compounds daily factors over each bar interval', () => {
+    const days = tradingDays(15);
+    const csv = [
+      'Date,Mkt-RF,RF',
+      ...days.map(day => `${day},0.01,0.0001`),
+    ].join('\n');
+    const parsed = parseFactorCsv(csv);
+    if (!('dataset' in parsed)) throw new Error(parsed.error);
+
+    // Intervallo settimanale: 5 giorni composti
+    const observations = alignFactorsToIntervals(parsed.dataset, [
+      days[0],
+      days[5],
+      '2030-01-01',
+    ]);
+
+    expect(parsed.dataset.unit).toBe('decimal');
+    expect(observations[0]!.MKT_RF).toBeCloseTo(Math.pow(1.01, 5) - 1, 10);
+    expect(observations[1]!.MKT_RF).toBeCloseTo(Math.pow(1.01, 9) - 1, 10);
+  });
+});
+
+describe('calculateRegressionReport', () => {
+  const days = tradingDays(260);
+  const market = days.map(() => 0.01 * randomNormal(random));
+  const smb = days.map(() => 0.005 * randomNormal(random));
+  const hml = days.map(() => 0.005 * randomNormal(random));
+  const riskFree = 0.0001;
+  const asset = days.map(
+    (_, i) =>
+      riskFree +
+      1.2 * market[i] +
+      0.6 * smb[i] -
+      0.3 * hml[i] +
+      0.002 * randomNormal(random)
+  );
+
+  const factorCsv = [
+    ',Mkt-RF,SMB,HML,RF',
+    ...days.map(
+      (day, i) =>
+        `${day.replace(/-/g, '')},${(market[i] * 100).toFixed(6)},${(smb[i] * 100).toFixed(6)},${(hml[i] * 100).toFixed(6)},0.01`
+    ),
+  ].join('\n');
+
+  const series = [{ symbol: 'TEST', dates: days, prices: toPrices(asset) }];
+  const marketSeries = {
+    symbol: '^GSPC',
+    dates: days,
+    prices: toPrices(market.map(value => value + riskFree)),
+  };
+
+  it('estimates CAPM with rolling beta', () => {
+    const report = calculateRegressionReport(series, marketSeries, null, 252);
+    const capm = report.capm[0];
+
+    expect(report.riskFreeSource).toBe('constant');
+    expect(capm.beta).toBeGreaterThan(1);
+    expect(capm.beta).toBeLessThan(1.5);
+    expect(capm.rollingBeta.window).toBe(63);
+    expect(capm.rollingBeta.values[61]).toBeNull();
+    expect(capm.rollingBeta.values[62]).not.toBeNull();
+    expect(report.factorModels).toEqual([]);
+  });
+
+  it('estimates Fama-French exposures from the factor file', () => {
+    const parsed = parseFactorCsv(factorCsv);
+    if (!('dataset' in parsed)) throw new Error(parsed.error);
+
+    const report = calculateRegressionReport(
+      series,
+      marketSeries,
+      parsed.dataset,
+      252
+    );
+    const ff3 = report.factorModels.find(result => result.model === 'ff3')!;
+
+    expect(report.riskFreeSource).toBe('factor-file');
+    expect(report.factorModels.map(result => result.model)).toEqual(['ff3']);
+    expect(ff3.coefficients[1].estimate).toBeCloseTo(1.2, 1);
+    expect(ff3.coefficients[2].estimate).toBeCloseTo(0.6, 1);
+    expect(ff3.coefficients[3].estimate).toBeCloseTo(-0.3, 1);
+    expect(Math.abs(ff3.coefficients[0].tStat)).toBeLessThan(3);
+    expect(ff3.rSquared).toBeGreaterThan(0.9);
+  });
+
+  it('warns when the benchmark is missing', () => {
+    const report = calculateRegressionReport(series, null, null, 252);
+    expect(report.capm).toEqual([]);
+    expect(report.warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  calculateReturnDistribution,
+  describeDistribution,
+  jarqueBeraTest,
+  shapiroWilkTest,
+} from '../../../backend/src/services/returnDistribution';
+import {
+  createRandom,
+  randomNormal,
+  randomStudentT,
+} from '../../../backend/src/services/statistics';
+
+const random = createRandom(3);
+const normalReturns = Array.from(
+  { length: 1000 },
+  () => 0.0005 + 0.01 * randomNormal(random)
+);
+const fatTailedReturns = Array.from(
+  { length: 1000 },
+  () => 0.006 * randomStudentT(random, 3)
+);
+
+describe('returnDistribution', () => {
+  it('reproduces the Shapiro-Wilk reference example', () => {
+    // Shapiro & Wilk (1965): pesi di 11 uomini; R restituisce W = 0.78881
+    const weights = [148, 154, 158, 160, 161, 162, 166, 170, 182, 195, 236];
+    const result = shapiroWilkTest(weights)!;
+
+    expect(result.statistic).toBeCloseTo(0.78881, 4);
+    expect(result.pValue).toBeCloseTo(0.0067, 3);
+    expect(result.rejectNormality).toBe(true);
+
+    expect(shapiroWilkTest([1, 2, 3])).toEqual({
+      statistic: 1,
+      pValue: 1,
+      rejectNormality: false,
+    });
+    expect(shapiroWilkTest([1, 1, 1, 1])).toBeNull();
+  });
+
+  it('computes the Jarque-Bera statistic from skewness and kurtosis', () => {
+    const values = [-3, -1, -1, 0, 0, 0, 1, 1, 7];
+    const result = jarqueBeraTest(values);
+    const n = values.length;
+    const average = values.reduce((a, b) => a + b, 0) / n;
+    const moment = (order: number) =>
+      values.reduce((sum, value) => sum + (value - average) ** order, 0) / n;
+    const s = moment(3) / moment(2) ** 1.5;
+    const k = moment(4) / moment(2) ** 2 - 3;
+
+    expect(result.statistic).toBeCloseTo((n / 6) * (s * s + (k * k) / 4), 10);
+    expect(result.pValue).toBeCloseTo(Math.exp(-result.statistic / 2), 12);
+  });
+
+  it('describes normal returns as compatible with normality', () => {
+    const report = describeDistribution({
+      symbol: 'NORM',
+      returns: normalReturns,
+    })!;
+
+    expect(report.observations).toBe(1000);
+    expect(report.jarqueBera.rejectNormality).toBe(false);
+    expect(report.shapiroWilk!.rejectNormality).toBe(false);
+    expect(report.percentiles.find(item => item.level === 0.5)!.value).toBe(
+      report.median
+    );
+    expect(report.interquartileRange).toBeCloseTo(
+      report.percentiles.find(item => item.level === 0.75)!.value -
+        report.percentiles.find(item => item.level === 0.25)!.value,
+      12
+    );
+    expect(report.coefficientOfVariation).toBeCloseTo(
+      report.standardDeviation / Math.abs(report.mean),
+      10
+    );
+    // ±2σ: circa il 4.55% delle osservazioni
+    expect(report.tails[0]!.normalFrequency).toBeCloseTo(0.0455, 4);
+    expect(report.tails[0]!.ratio).toBeGreaterThan(0.6);
+    expect(report.tails[0]!.ratio).toBeLessThan(1.5);
+  });
+
+  it('detects fat tails', () => {
+    const report = describeDistribution({
+      symbol: 'FAT',
+      returns: fatTailedReturns,
+    })!;
+
+    expect(report.excessKurtosis).toBeGreaterThan(1);
+    expect(report.jarqueBera.rejectNormality).toBe(true);
+    expect(report.shapiroWilk!.rejectNormality).toBe(true);
+    const threeSigma = report.tails.find(tail => tail.sigmas === 3)!;
+    expect(threeSigma.ratio).toBeGreaterThan(2);
+    expect(threeSigma.below + threeSigma.above).toBe(
+      fatTailedReturns.filter(
+        value => Math.abs(value - report.mean) > 3 * report.standardDeviation
+      ).length
+    );
+  });
+
+  it('builds the histogram, the fitted normal and the Q-Q points', () => {
+    const report = describeDistribution({
+      symbol: 'NORM',
+      returns: normalReturns,
+    })!;
+    const { histogram, qqPlot } = report;
+    const total = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+    expect(histogram.binEdges).toHaveLength(histogram.counts.length + 1);
+    expect(total(histogram.counts)).toBe(1000);
+    expect(total(histogram.normalCounts)).toBeGreaterThan(990);
+    expect(total(histogram.normalCounts)).toBeLessThanOrEqual(1000);
+
+    expect(qqPlot).toHaveLength(200);
+    expect(qqPlot[0]!.sample).toBeCloseTo(
+      (Math.min(...normalReturns) - report.mean) / report.standardDeviation,
+      10
+    );
+    const theoretical = qqPlot.map(point => point.theoretical);
+    expect([...theoretical].sort((a, b) => a - b)).toEqual(theoretical);
+  });
+
+  it('includes the portfolio and skips short series', () => {
+    const report = calculateReturnDistribution(
+      [
+        { symbol: 'NORM', returns: normalReturns },
+        { symbol: 'SHORT', returns: normalReturns.slice(0, 10) },
+      ],
+      { symbol: 'PORTAFOGLIO', returns: [...normalReturns, NaN] }
+    );
+
+    expect(report.tickers.map(item => item.symbol)).toEqual(['NORM']);
+    expect(report.portfolio?.observations).toBe(1000);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  calculateRiskAllocations,
+  equalRiskContribution,
+  hierarchicalRiskParity,
+  maximumDiversification,
+  minimumCorrelation,
+  riskContributions,
+} from '../../../backend/src/services/riskAllocation';
+
+const toCovariance = (volatilities: number[], correlation: number[][]) =>
+  correlation.map((row, i) =>
+    row.map((value, j) => value * volatilities[i] * volatilities[j])
+  );
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+// Due blocchi di titoli molto correlati tra loro e poco con l'altro blocco
+const correlation = [
+  [1, 0.9, 0.2, 0.1],
+  [0.9, 1, 0.15, 0.2],
+  [0.2, 0.15, 1, 0.85],
+  [0.1, 0.2, 0.85, 1],
+];
+const volatilities = [0.01, 0.015, 0.02, 0.012];
+const covariance = toCovariance(volatilities, correlation);
+
+describe('riskAllocation', () => {
+  it('equalizes risk contributions', () => {
+    const weights = equalRiskContribution(covariance);
+
+    expect(sum(weights)).toBeCloseTo(1, 10);
+    riskContributions(weights, covariance).forEach(contribution =>
+      expect(contribution).toBeCloseTo(0.25, 6)
+    );
+  });
+
+  it('reduces to inverse volatility for uncorrelated assets', () => {
+    const identity = [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1],
+    ];
+    const diagonal = toCovariance([0.1, 0.2, 0.4], identity);
+    const expected = [4, 2, 1].map(value => value / 7);
+
+    equalRiskContribution(diagonal).forEach((w, i) =>
+      expect(w).toBeCloseTo(expected[i], 6)
+    );
+    maximumDiversification(diagonal).forEach((w, i) =>
+      expect(w).toBeCloseTo(expected[i], 6)
+    );
+  });
+
+  it('maximizes the diversification ratio', () => {
+    const report = calculateRiskAllocations(
+      ['A', 'B', 'C', 'D'],
+      covariance,
+      correlation,
+      252
+    )!;
+    const byMethod = Object.fromEntries(
+      report.allocations.map(allocation => [allocation.method, allocation])
+    );
+
+    const maxDiversification =
+      byMethod['maximum-diversification'].diversificationRatio;
+    report.allocations.forEach(allocation =>
+      expect(allocation.diversificationRatio).toBeLessThanOrEqual(
+        maxDiversification + 1e-9
+      )
+    );
+    Object.values(byMethod['maximum-diversification'].weights).forEach(w =>
+      expect(w).toBeGreaterThanOrEqual(0)
+    );
+  });
+
+  it('favours the least correlated asset in minimum correlation', () => {
+    const flat = [0.01, 0.01, 0.01];
+    const corr = [
+      [1, 0.8, 0.1],
+      [0.8, 1, 0.2],
+      [0.1, 0.2, 1],
+    ];
+    const weights = minimumCorrelation(toCovariance(flat, corr), corr);
+
+    expect(sum(weights)).toBeCloseTo(1, 10);
+    expect(weights[2]).toBeGreaterThan(weights[0]);
+    expect(weights[2]).toBeGreaterThan(weights[1]);
+  });
+
+  it('orders correlated assets together in HRP', () => {
+    const { weights, order } = hierarchicalRiskParity(covariance, correlation);
+    const position = (i: number) => order.indexOf(i);
+
+    expect(sum(weights)).toBeCloseTo(1, 10);
+    expect(Math.abs(position(0) - position(1))).toBe(1);
+    expect(Math.abs(position(2) - position(3))).toBe(1);
+    // Nel blocco A-B il titolo meno volatile pesa di più
+    expect(weights[0]).toBeGreaterThan(weights[1]);
+  });
+
+  it('builds the report with annualized volatility', () => {
+    const report = calculateRiskAllocations(
+      ['A', 'B', 'C', 'D'],
+      covariance,
+      correlation,
+      252
+    )!;
+
+    expect(report.allocations.map(allocation => allocation.method)).toEqual([
+      'equal-risk-contribution',
+      'maximum-diversification',
+      'minimum-correlation',
+      'hierarchical-risk-parity',
+    ]);
+    expect(report.hierarchicalOrder).toHaveLength(4);
+    report.allocations.forEach(allocation => {
+      expect(sum(Object.values(allocation.riskContributions))).toBeCloseTo(
+        1,
+        10
+      );
+      expect(allocation.volatility).toBeGreaterThan(0.1);
+      expect(allocation.volatility).toBeLessThan(0.3);
+    });
+  });
+
+  it('returns null without enough assets or with zero variance', () => {
+    expect(calculateRiskAllocations(['A'], [[0.01]], [[1]], 252)).toBeNull();
+    expect(
+      calculateRiskAllocations(
+        ['A', 'B'],
+        [
+          [0, 0],
+          [0, 0.01],
+        ],
+        [
+          [1, 0],
+          [0, 1],
+        ],
+        252
+      )
+    ).toBeNull();
+  });
+});
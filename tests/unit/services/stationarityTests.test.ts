@@ -0,0 +1,119 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  adfCriticalValues,
+  adfPValue,
+  adfTest,
+  analyzeTicker,
+  calculateStationarityAnalysis,
+  kpssPValue,
+  kpssTest,
+  validateHalves,
+} from '../../../backend/src/services/stationarityTests';
+import {
+  createRandom,
+  randomNormal,
+} from '../../../backend/src/services/statistics';
+
+const random = createRandom(7);
+const noise = Array.from({ length: 500 }, () => randomNormal(random));
+const walk = noise.reduce<number[]>(
+  (path, shock) => [...path, (path[path.length - 1] ?? 0) + shock],
+  []
+);
+
+describe('stationarityTests', () => {
+  it('matches the MacKinnon critical values and p-values', () => {
+    const [one, five, ten] = adfCriticalValues(500);
+    expect(one!.value).toBeCloseTo(-3.4435, 3);
+    expect(five!.value).toBeCloseTo(-2.8673, 3);
+    expect(ten!.value).toBeCloseTo(-2.5699, 3);
+
+    // I valori critici asintotici corrispondono ai livelli di significatività
+    expect(adfPValue(-3.43035)).toBeCloseTo(0.01, 3);
+    expect(adfPValue(-2.86154)).toBeCloseTo(0.05, 3);
+    expect(adfPValue(-2.56677)).toBeCloseTo(0.1, 2);
+    expect(adfPValue(3)).toBe(1);
+    expect(adfPValue(-20)).toBe(0);
+  });
+
+  it('interpolates the KPSS table and flags values outside it', () => {
+    expect(kpssPValue(0.463)).toEqual({ pValue: 0.05, bound: null });
+    expect(kpssPValue(0.405).pValue).toBeCloseTo(0.075, 3);
+    expect(kpssPValue(0.1)).toEqual({ pValue: 0.1, bound: 'lower' });
+    expect(kpssPValue(2)).toEqual({ pValue: 0.01, bound: 'upper' });
+  });
+
+  it('accepts white noise as stationary', () => {
+    const adf = adfTest(noise)!;
+    const kpss = kpssTest(noise)!;
+
+    expect(adf.rejectNull).toBe(true);
+    expect(adf.lags).toBeLessThanOrEqual(2);
+    expect(adf.maxLag).toBe(Math.floor(12 * Math.pow(5, 1 / 4)));
+    expect(kpss.rejectNull).toBe(false);
+    expect(kpss.lags).toBe(Math.ceil(12 * Math.pow(5, 1 / 4)));
+  });
+
+  it('selects the autoregressive lags by AIC', () => {
+    // Δyₜ = 0.6·Δyₜ₋₁ + εₜ con radice unitaria
+    const local = createRandom(11);
+    const levels = [0, 0];
+    for (let t = 2; t < 600; t++) {
+      const change = 0.6 * (levels[t - 1]! - levels[t - 2]!);
+      levels.push(levels[t - 1]! + change + randomNormal(local));
+    }
+
+    const adf = adfTest(levels)!;
+    expect(adf.lags).toBeGreaterThanOrEqual(1);
+    expect(adf.rejectNull).toBe(false);
+    expect(adfTest(levels, 0)!.lags).toBe(0);
+  });
+
+  it('differences a random walk until it becomes stationary', () => {
+    const ticker = analyzeTicker({
+      symbol: 'WALK',
+      prices: walk.map(value => 100 + value),
+      returns: noise.slice(1),
+    })!;
+
+    expect(ticker.logPreferred).toBe(false);
+    expect(ticker.steps.map(step => step.transformation)).toEqual([
+      'level',
+      'difference',
+    ]);
+    expect(ticker.steps[0]!.verdict).toBe('non-stationary');
+    expect(ticker.steps[1]!.verdict).toBe('stationary');
+    expect(ticker.recommended).toBe('difference');
+    expect(ticker.returns?.verdict).toBe('stationary');
+  });
+
+  it('takes logarithms of exponentially growing prices', () => {
+    const prices = walk.map(
+      (value, t) => 100 * Math.exp(0.004 * t + 0.01 * value)
+    );
+    const ticker = analyzeTicker({ symbol: 'GROW', prices, returns: [] })!;
+
+    expect(ticker.logPreferred).toBe(true);
+    expect(ticker.recommended).toBe('log-difference');
+    expect(ticker.returns).toBeNull();
+    expect(ticker.steps.at(-1)!.validation.stable).toBe(true);
+  });
+
+  it('validates mean and variance on the two halves', () => {
+    const shifted = noise.map((value, t) => (t < 250 ? value : value * 3 + 5));
+    const validation = validateHalves(shifted);
+
+    expect(validation.varianceRatio).toBeGreaterThan(4);
+    expect(validation.meanTStat).toBeGreaterThan(10);
+    expect(validation.stable).toBe(false);
+    expect(validateHalves(noise).stable).toBe(true);
+  });
+
+  it('needs enough observations', () => {
+    expect(
+      calculateStationarityAnalysis([
+        { symbol: 'SHORT', prices: walk.slice(0, 20), returns: [] },
+      ])
+    ).toBeNull();
+  });
+});
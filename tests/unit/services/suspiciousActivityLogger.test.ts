@@ -0,0 +1,204 @@
+/**
+ * @jest-environment node
+ */
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SuspiciousActivityLogger } from '../../../backend/src/services/suspiciousActivityLogger';
+
+const MINUTE = 60 * 1000;
+
+const outcome = (statusCode: number, ip = '203.0.113.7') => ({
+  ip,
+  userAgent: 'jest',
+  method: 'GET',
+  endpoint: '/api/v1/quote/AAPL',
+  statusCode,
+});
+
+// Richieste non autorizzate fino al blocco dell'IP
+const abuseUntilBlocked = (logger: SuspiciousActivityLogger, ip: string) => {
+  for (let i = 0; i < 20 && !logger.isIPBlocked(ip); i++) {
+    logger.recordRequest(outcome(401, ip));
+  }
+};
+
+describe('SuspiciousActivityLogger', () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should block abusive IPs for longer at every offence', () => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 0, 15, 12, 0, 0) });
+    const logger = new SuspiciousActivityLogger({ stateFile: null });
+    const ip = '203.0.113.7';
+
+    abuseUntilBlocked(logger, ip);
+    const first = logger.getBlock(ip)!;
+    expect(first.offence).toBe(1);
+    expect(first.expiresAt.getTime() - first.blockedAt.getTime()).toBe(
+      15 * MINUTE
+    );
+
+    jest.advanceTimersByTime(15 * MINUTE);
+    expect(logger.isIPBlocked(ip)).toBe(false);
+
+    abuseUntilBlocked(logger, ip);
+    const second = logger.getBlock(ip)!;
+    expect(second.offence).toBe(2);
+    expect(second.expiresAt.getTime() - second.blockedAt.getTime()).toBe(
+      60 * MINUTE
+    );
+    expect(logger.getSecurityStats().blockedIPs).toEqual([ip]);
+  });
+
+  it('should report repeated client errors only past the threshold', () => {
+    const logger = new SuspiciousActivityLogger({
+      stateFile: null,
+      failureThreshold: 3,
+    });
+
+    logger.recordRequest(outcome(405));
+    logger.recordRequest(outcome(422));
+    logger.recordRequest(outcome(500)); // errore del server, non del client
+    expect(logger.getEventsForIP('203.0.113.7')).toHaveLength(0);
+
+    logger.recordRequest(outcome(405));
+    expect(logger.getEventsForIP('203.0.113.7')).toEqual([
+      expect.objectContaining({ type: 'repeated_failures', severity: 'high' }),
+    ]);
+  });
+
+  it('should score 400 and 404 only past the higher threshold', () => {
+    const logger = new SuspiciousActivityLogger({
+      stateFile: null,
+      failureThreshold: 3,
+      expectedFailureThreshold: 20,
+    });
+    const ip = '203.0.113.7';
+
+    for (let i = 0; i < 19; i++) {
+      logger.recordRequest(outcome(i % 2 === 0 ? 400 : 404, ip));
+    }
+    expect(logger.getEventsForIP(ip)).toHaveLength(0);
+
+    logger.recordRequest(outcome(404, ip));
+    expect(logger.getEventsForIP(ip)).toEqual([
+      expect.objectContaining({ type: 'repeated_failures', severity: 'high' }),
+    ]);
+  });
+
+  it('should block a burst of 404s scanning for endpoints', () => {
+    const logger = new SuspiciousActivityLogger({ stateFile: null });
+    const ip = '203.0.113.7';
+
+    for (let i = 0; i < 200 && !logger.isIPBlocked(ip); i++) {
+      logger.recordRequest({ ...outcome(404, ip), endpoint: `/api/v${i}` });
+    }
+
+    expect(logger.isIPBlocked(ip)).toBe(true);
+    expect(
+      logger
+        .getEventsForIP(ip)
+        .filter(event => event.type === 'repeated_failures')
+    ).toHaveLength(3);
+  });
+
+  it('should score every 429 and block clients that ignore the limit', () => {
+    const logger = new SuspiciousActivityLogger({ stateFile: null });
+    const ip = '203.0.113.7';
+
+    logger.recordRequest(outcome(429, ip));
+    expect(logger.getEventsForIP(ip)).toEqual([
+      expect.objectContaining({ type: 'rate_limit_abuse', severity: 'low' }),
+    ]);
+    expect(logger.isIPBlocked(ip)).toBe(false);
+
+    for (let i = 0; i < 50 && !logger.isIPBlocked(ip); i++) {
+      logger.recordRequest(outcome(429, ip));
+    }
+    expect(logger.isIPBlocked(ip)).toBe(true);
+  });
+
+  it('should halve the threat level at every half-life without events', () => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 0, 15, 12, 0, 0) });
+    const logger = new SuspiciousActivityLogger({
+      stateFile: null,
+      threatHalfLifeMs: 60 * MINUTE,
+    });
+    const ip = '203.0.113.7';
+
+    logger.recordRequest(outcome(401, ip));
+    logger.recordRequest(outcome(401, ip));
+    logger.recordRequest(outcome(401, ip));
+    logger.recordRequest(outcome(401, ip));
+    expect(logger.getThreatLevel(ip)?.level).toBe(60);
+    expect(logger.isIPSuspicious(ip)).toBe(true);
+
+    jest.advanceTimersByTime(60 * MINUTE);
+    expect(logger.getThreatLevel(ip)?.level).toBeCloseTo(30);
+    expect(logger.isIPSuspicious(ip)).toBe(false);
+
+    // Il nuovo evento si somma al livello già decaduto
+    logger.recordRequest(outcome(401, ip));
+    expect(logger.getThreatLevel(ip)?.level).toBeCloseTo(45);
+    expect(logger.isIPBlocked(ip)).toBe(false);
+  });
+
+  it('should reset the threat level when an IP is unblocked', () => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 0, 15, 12, 0, 0) });
+    const logger = new SuspiciousActivityLogger({ stateFile: null });
+    const ip = '203.0.113.7';
+
+    abuseUntilBlocked(logger, ip);
+    jest.advanceTimersByTime(15 * MINUTE);
+
+    expect(logger.isIPBlocked(ip)).toBe(false);
+    expect(logger.getThreatLevel(ip)?.level).toBe(0);
+
+    // Un singolo errore dopo lo sblocco non basta a bloccare di nuovo
+    logger.recordRequest(outcome(401, ip));
+    expect(logger.isIPBlocked(ip)).toBe(false);
+  });
+
+  it('should ignore whitelisted IPs', () => {
+    const logger = new SuspiciousActivityLogger({ stateFile: null });
+
+    abuseUntilBlocked(logger, '127.0.0.1');
+
+    expect(logger.isIPBlocked('127.0.0.1')).toBe(false);
+    expect(logger.getSecurityStats().totalEvents).toBe(0);
+  });
+
+  it('should restore events, blocks and offences from the state file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'security-state-'));
+    const stateFile = path.join(dir, 'state.json');
+    const ip = '198.51.100.23';
+
+    try {
+      const logger = new SuspiciousActivityLogger({ stateFile });
+      abuseUntilBlocked(logger, ip);
+      await logger.saveState();
+
+      const restored = new SuspiciousActivityLogger({ stateFile });
+      const block = restored.getBlock(ip);
+      expect(block?.offence).toBe(1);
+      expect(block?.expiresAt).toEqual(logger.getBlock(ip)?.expiresAt);
+      expect(restored.getEventsForIP(ip)).toHaveLength(
+        logger.getEventsForIP(ip).length
+      );
+      expect(restored.getThreatLevel(ip)?.blocked).toBe(true);
+
+      // Dopo la scadenza il nuovo blocco tiene conto della recidiva
+      restored.unblockIP(ip, 'test');
+      abuseUntilBlocked(restored, ip);
+      expect(restored.getBlock(ip)?.offence).toBe(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import {
+  loadSymbolMaster,
+  parseSymbolMaster,
+  searchSymbols,
+  suggestSymbols,
+  validateSymbol,
+} from '../../../backend/src/services/symbolMaster';
+
+const master = parseSymbolMaster(
+  JSON.stringify({
+    version: 1,
+    updatedAt: '2026-01-01',
+    symbols: [
+      {
+        symbol: 'AAPL',
+        name: 'Apple Inc.',
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        assetType: 'equity',
+      },
+      {
+        symbol: 'AMZN',
+        name: 'Amazon.com Inc.',
+        exchange: 'NASDAQ',
+        currency: 'USD',
+        assetType: 'equity',
+      },
+      {
+        symbol: 'eni.mi',
+        name: 'Eni S.p.A.',
+        exchange: 'Borsa Italiana',
+        currency: 'eur',
+        assetType: 'equity',
+      },
+      {
+        symbol: 'SPY',
+        name: 'SPDR S&P 500 ETF Trust',
+        exchange: 'NYSE Arca',
+        currency: 'USD',
+        assetType: 'etf',
+      },
+      // Scartati: duplicato, tipo sconosciuto, nome mancante
+      {
+        symbol: 'AAPL',
+        name: 'Duplicato',
+        exchange: 'X',
+        currency: 'USD',
+        assetType: 'equity',
+      },
+      { symbol: 'XYZ', name: 'Bond', currency: 'USD', assetType: 'bond' },
+      { symbol: 'NONAME', currency: 'USD', assetType: 'equity' },
+    ],
+  })
+);
+
+const close = {
+  date: '2026-01-02',
+  close: 100,
+  previousClose: 98,
+  changePercent: 2.0408,
+};
+
+describe('symbolMaster', () => {
+  it('normalizes entries and drops invalid ones', () => {
+    expect(master.symbols.map(item => item.symbol)).toEqual([
+      'AAPL',
+      'AMZN',
+      'ENI.MI',
+      'SPY',
+    ]);
+    expect(master.symbols[2]?.currency).toBe('EUR');
+    expect(master.symbols[0]?.name).toBe('Apple Inc.');
+  });
+
+  it('ranks search results by symbol, then by name', () => {
+    expect(searchSymbols('a', 10, master).map(item => item.symbol)).toEqual([
+      'AAPL',
+      'AMZN',
+      'ENI.MI', // "S.p.A.": parola del nome che inizia con A
+    ]);
+    expect(searchSymbols('amazon', 10, master)[0]?.symbol).toBe('AMZN');
+    expect(searchSymbols('500', 10, master)[0]?.symbol).toBe('SPY');
+    expect(searchSymbols('zzz', 10, master)).toEqual([]);
+  });
+
+  it('suggests close symbols and the same ticker on other exchanges', () => {
+    expect(suggestSymbols('APPL', 3, master)[0]).toBe('AAPL');
+    expect(suggestSymbols('ENI', 3, master)[0]).toBe('ENI.MI');
+    expect(suggestSymbols('QWERTYUI', 3, master)).toEqual([]);
+  });
+
+  it('validates master symbols with the last close', async () => {
+    const lookup = jest.fn(async () => close);
+    const result = await validateSymbol(' aapl ', lookup, master);
+
+    expect(lookup).toHaveBeenCalledWith('AAPL', { storeOnly: false });
+    expect(result.status).toBe('valid');
+    expect(result.inMaster).toBe(true);
+    expect(result.info?.exchange).toBe('NASDAQ');
+    expect(result.lastClose).toEqual(close);
+  });
+
+  it('keeps master symbols valid when the data layer fails', async () => {
+    const result = await validateSymbol(
+      'SPY',
+      async () => {
+        throw new Error('network down');
+      },
+      master
+    );
+
+    expect(result.status).toBe('valid');
+    expect(result.lastClose).toBeNull();
+    expect(result.message).toBeDefined();
+  });
+
+  it('accepts unknown symbols only when the store already has prices', async () => {
+    const lookup = jest.fn(async () => close);
+    const known = await validateSymbol('MSFT', lookup, master);
+    expect(lookup).toHaveBeenCalledWith('MSFT', { storeOnly: true });
+    expect(known.status).toBe('valid');
+    expect(known.inMaster).toBe(false);
+    expect(known.info).toBeNull();
+
+    const unknown = await validateSymbol('APPL', async () => null, master);
+    expect(unknown.status).toBe('invalid');
+    expect(unknown.suggestions).toContain('AAPL');
+  });
+
+  it('rejects malformed symbols without calling the data layer', async () => {
+    const lookup = jest.fn(async () => close);
+    const result = await validateSymbol('AA PL!', lookup, master);
+
+    expect(result.status).toBe('invalid');
+    expect(lookup).not.toHaveBeenCalled();
+  });
+
+  it('loads the bundled symbol master file', () => {
+    const bundled = loadSymbolMaster();
+
+    expect(bundled.symbols.length).toBeGreaterThan(50);
+    expect(loadSymbolMaster()).toBe(bundled);
+    bundled.symbols.forEach(item => {
+      expect(item.name).not.toBe('');
+      expect(item.currency).toMatch(/^[A-Z]{3}$/);
+    });
+  });
+});
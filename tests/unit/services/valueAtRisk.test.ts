@@ -0,0 +1,163 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  createRandom,
+  inverseNormalCdf,
+  normalCdf,
+  randomNormal,
+} from '../../../backend/src/services/statistics';
+import {
+  calculateSeriesRisk,
+  calculateValueAtRisk,
+  parseVaRConfig,
+} from '../../../backend/src/services/valueAtRisk';
+
+describe('statistics - distribuzione normale', () => {
+  it('inverts the normal CDF', () => {
+    expect(inverseNormalCdf(0.05)).toBeCloseTo(-1.644854, 5);
+    expect(inverseNormalCdf(0.01)).toBeCloseTo(-2.326348, 5);
+    expect(normalCdf(inverseNormalCdf(0.9))).toBeCloseTo(0.9, 6);
+  });
+});
+
+describe('valueAtRisk', () => {
+  const random = createRandom(1);
+  const normalReturns = Array.from(
+    { length: 2000 },
+    () => 0.0005 + 0.01 * randomNormal(random)
+  );
+
+  const estimateOf = (
+    report: ReturnType<typeof calculateSeriesRisk>,
+    method: string,
+    confidence: number,
+    horizon: string
+  ) =>
+    report?.estimates.find(
+      estimate =>
+        estimate.method === method &&
+        estimate.confidence === confidence &&
+        estimate.horizon === horizon
+    );
+
+  it('computes the parametric normal VaR and CVaR in closed form', () => {
+    const report = calculateSeriesRisk('TEST', normalReturns, 252);
+    const { mean, standardDeviation } = report!.moments;
+
+    const oneDay = estimateOf(report, 'parametric-normal', 0.95, '1d');
+    expect(oneDay!.var).toBeCloseTo(-(mean - 1.644854 * standardDeviation), 6);
+    // CVaR normale: φ(z) / α = 0.103136 / 0.05
+    expect(oneDay!.cvar).toBeCloseTo(-(mean - 2.062713 * standardDeviation), 5);
+
+    const tenDays = estimateOf(report, 'parametric-normal', 0.95, '10d');
+    expect(tenDays!.var).toBeCloseTo(
+      -(10 * mean - 1.644854 * standardDeviation * Math.sqrt(10)),
+      6
+    );
+  });
+
+  it('keeps all methods close on normal data with CVaR above VaR', () => {
+    const report = calculateSeriesRisk('TEST', normalReturns, 252);
+    const parametric = estimateOf(report, 'parametric-normal', 0.99, '1d')!;
+
+    for (const method of ['historical', 'cornish-fisher', 'monte-carlo']) {
+      const estimate = estimateOf(report, method, 0.99, '1d')!;
+      expect(Math.abs(estimate.var - parametric.var)).toBeLessThan(0.002);
+    }
+
+    for (const estimate of report!.estimates) {
+      expect(estimate.cvar).toBeGreaterThanOrEqual(estimate.var - 1e-12);
+    }
+  });
+
+  it('reads historical VaR as the empirical quantile', () => {
+    // Rendimenti da -5% a +4.9% a passi di 0.1%
+    const returns = Array.from({ length: 100 }, (_, i) => (i - 50) / 1000);
+    const report = calculateSeriesRisk('TEST', returns, 252, {
+      confidenceLevels: [0.9],
+      horizons: ['1d'],
+      simulations: 100,
+      seed: 1,
+    });
+    const historical = estimateOf(report, 'historical', 0.9, '1d')!;
+
+    expect(historical.var).toBeCloseTo(0.0401, 10);
+    expect(historical.cvar).toBeCloseTo(0.0455, 10);
+    expect(historical.scaled).toBe(false);
+    expect(report!.histograms['1d']!.counts.reduce((a, b) => a + b)).toBe(100);
+  });
+
+  it('scales sub-period horizons by the square root of time', () => {
+    const weekly = normalReturns.slice(0, 200);
+    const report = calculateSeriesRisk('TEST', weekly, 52);
+
+    expect(estimateOf(report, 'historical', 0.95, '1d')!.scaled).toBe(true);
+    expect(estimateOf(report, 'monte-carlo', 0.95, '1d')!.scaled).toBe(true);
+  });
+
+  it('simulates the fraction of a period left over by the horizon', () => {
+    // Un mese su dati settimanali: 21 · 52 / 252 ≈ 4.33 periodi
+    const report = calculateSeriesRisk('TEST', normalReturns, 52, {
+      confidenceLevels: [0.95],
+      horizons: ['1m'],
+      simulations: 50000,
+      seed: 7,
+    });
+    const parametric = estimateOf(report, 'parametric-normal', 0.95, '1m')!;
+    const monteCarlo = estimateOf(report, 'monte-carlo', 0.95, '1m')!;
+
+    // Con 4 periodi interi lo scarto sarebbe di circa 0.0013
+    expect(Math.abs(monteCarlo.var - parametric.var)).toBeLessThan(0.0006);
+    expect(monteCarlo.scaled).toBe(false);
+  });
+
+  it('is reproducible and skips short series', () => {
+    const first = calculateValueAtRisk(
+      [
+        { symbol: 'A', returns: normalReturns },
+        { symbol: 'B', returns: normalReturns.slice(0, 10) },
+      ],
+      normalReturns,
+      252
+    );
+    const second = calculateValueAtRisk(
+      [{ symbol: 'A', returns: normalReturns }],
+      normalReturns,
+      252
+    );
+
+    expect(first.tickers.map(ticker => ticker.symbol)).toEqual(['A']);
+    expect(first.portfolio?.symbol).toBe('PORTAFOGLIO');
+    expect(first.tickers[0]!.estimates).toEqual(second.tickers[0]!.estimates);
+  });
+
+  it('draws different Monte Carlo scenarios for each ticker', () => {
+    const result = calculateValueAtRisk(
+      [
+        { symbol: 'A', returns: normalReturns },
+        { symbol: 'B', returns: normalReturns },
+      ],
+      normalReturns,
+      252
+    );
+    const [first, second] = result.tickers;
+
+    expect(estimateOf(first!, 'historical', 0.95, '1d')).toEqual(
+      estimateOf(second!, 'historical', 0.95, '1d')
+    );
+    expect(estimateOf(first!, 'monte-carlo', 0.95, '1d')!.var).not.toBe(
+      estimateOf(second!, 'monte-carlo', 0.95, '1d')!.var
+    );
+  });
+
+  it('validates the request configuration', () => {
+    expect(parseVaRConfig(undefined)).toHaveProperty('config');
+    expect(parseVaRConfig({ horizons: ['1m', '1d'] })).toMatchObject({
+      config: { horizons: ['1d', '1m'] },
+    });
+    expect(
+      parseVaRConfig({ confidenceLevels: [0.99, 0.9, 0.95] })
+    ).toMatchObject({ config: { confidenceLevels: [0.9, 0.95, 0.99] } });
+    expect(parseVaRConfig({ confidenceLevels: [0.5] })).toHaveProperty('error');
+    expect(parseVaRConfig('95%')).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  chiSquareQuantile,
+  createRandom,
+  nelderMead,
+  randomNormal,
+} from '../../../backend/src/services/statistics';
+import {
+  calculateSeriesVolatility,
+  calculateVolatilityModels,
+  ewmaVolatility,
+  parseVolatilityConfig,
+  rollingVolatility,
+} from '../../../backend/src/services/volatilityModels';
+
+describe('statistics - ottimizzazione e chi-quadro', () => {
+  it('minimises a quadratic with Nelder-Mead', () => {
+    const result = nelderMead(
+      ([x, y]) => (x - 1) ** 2 + 10 * (y + 2) ** 2,
+      [0, 0]
+    );
+    expect(result.converged).toBe(true);
+    expect(result.point[0]).toBeCloseTo(1, 3);
+    expect(result.point[1]).toBeCloseTo(-2, 3);
+  });
+
+  it('approximates chi-square quantiles', () => {
+    expect(chiSquareQuantile(0.95, 10)).toBeCloseTo(18.307, 1);
+    expect(chiSquareQuantile(0.05, 10)).toBeCloseTo(3.94, 1);
+  });
+});
+
+describe('volatilityModels', () => {
+  // GARCH(1,1) simulato con ω = 2e-6, α = 0.08, β = 0.90
+  const random = createRandom(7);
+  const garchReturns: number[] = [];
+  let variance = 2e-6 / (1 - 0.98);
+  for (let i = 0; i < 2000; i++) {
+    const value = Math.sqrt(variance) * randomNormal(random);
+    garchReturns.push(value);
+    variance = 2e-6 + 0.08 * value * value + 0.9 * variance;
+  }
+  const dates = garchReturns.map((_, i) =>
+    new Date(Date.UTC(2015, 0, 1 + i)).toISOString().slice(0, 10)
+  );
+
+  it('validates the volatility configuration', () => {
+    expect(parseVolatilityConfig(undefined)).toEqual({
+      config: { forecastDays: 21, ewmaLambda: 0.94 },
+    });
+    expect(parseVolatilityConfig({ forecastDays: 63 })).toEqual({
+      config: { forecastDays: 63, ewmaLambda: 0.94 },
+    });
+    expect(parseVolatilityConfig({ forecastDays: 0 })).toHaveProperty('error');
+    expect(parseVolatilityConfig({ forecastDays: 300 })).toHaveProperty(
+      'error'
+    );
+    expect(parseVolatilityConfig({ ewmaLambda: 1 })).toHaveProperty('error');
+    expect(parseVolatilityConfig('21')).toHaveProperty('error');
+  });
+
+  it('computes rolling and EWMA volatility', () => {
+    const returns = [0.01, -0.01, 0.02, -0.02];
+
+    const rolling = rollingVolatility(returns, 3);
+    expect(rolling.slice(0, 2)).toEqual([null, null]);
+    expect(rolling[2]).toBeCloseTo(0.015275, 5);
+
+    // Seme = media dei quadrati (2.5e-4), poi aggiornamento RiskMetrics
+    const ewma = ewmaVolatility(returns, 0.5);
+    expect(ewma.values[0]).toBeCloseTo(Math.sqrt(1.75e-4), 8);
+    expect(ewma.current).toBe(ewma.values[3]);
+  });
+
+  it('recovers simulated GARCH(1,1) parameters', () => {
+    const report = calculateSeriesVolatility(
+      { symbol: 'SIM', dates, returns: garchReturns },
+      252
+    );
+    const garch = report?.garch;
+
+    expect(garch).toBeTruthy();
+    expect(garch!.parameters.alpha).toBeGreaterThan(0.04);
+    expect(garch!.parameters.alpha).toBeLessThan(0.12);
+    expect(garch!.parameters.beta).toBeGreaterThan(0.85);
+    expect(garch!.parameters.beta).toBeLessThan(0.95);
+    expect(garch!.persistence).toBeLessThan(1);
+    expect(garch!.standardErrors).not.toBeNull();
+    expect(garch!.conditionalVolatility).toHaveLength(2000);
+    expect(report!.rolling.map(item => item.window)).toEqual([21, 63, 252]);
+  });
+
+  it('forecasts a term structure converging to the long-run volatility', () => {
+    const report = calculateSeriesVolatility(
+      { symbol: 'SIM', dates, returns: garchReturns },
+      252,
+      { forecastDays: 252, ewmaLambda: 0.94 }
+    );
+    const { forecast, longRunVolatility } = report!.garch!;
+    const first = forecast[0]!;
+    const last = forecast[forecast.length - 1]!;
+
+    expect(forecast).toHaveLength(252);
+    expect(Math.abs(last.volatility - longRunVolatility)).toBeLessThan(
+      Math.abs(first.volatility - longRunVolatility)
+    );
+    forecast.forEach(step => {
+      expect(step.lower).toBeLessThanOrEqual(step.termVolatility);
+      expect(step.upper).toBeGreaterThanOrEqual(step.termVolatility);
+    });
+    // Il cono si restringe con l'orizzonte
+    expect(last.upper - last.lower).toBeLessThan(first.upper - first.lower);
+  });
+
+  it('skips models without enough observations', () => {
+    const short = garchReturns.slice(0, 50);
+    const report = calculateVolatilityModels(
+      [
+        { symbol: 'SHORT', dates: dates.slice(0, 50), returns: short },
+        {
+          symbol: 'TINY',
+          dates: dates.slice(0, 10),
+          returns: short.slice(0, 10),
+        },
+      ],
+      null,
+      252
+    );
+
+    expect(report.tickers.map(ticker => ticker.symbol)).toEqual(['SHORT']);
+    expect(report.tickers[0]!.garch).toBeNull();
+    expect(report.tickers[0]!.rolling.map(item => item.window)).toEqual([21]);
+    expect(report.portfolio).toBeNull();
+  });
+});
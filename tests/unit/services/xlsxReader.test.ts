@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { readXlsxSheet } from '../../../backend/src/services/xlsxReader';
+import { buildZip } from '../../utils/zip';
+
+// Foglio senza workbook.xml: viene letto il percorso predefinito
+const sheet = (rows: string) =>
+  buildZip({
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${rows}</sheetData></worksheet>`,
+  });
+
+describe('readXlsxSheet', () => {
+  it('reads inline values and fills skipped cells and rows', () => {
+    const rows = readXlsxSheet(
+      sheet(
+        '<row r="1"><c r="A1" t="inlineStr"><is><t>Date</t></is></c><c r="C1"><v>1</v></c></row>' +
+          '<row r="3"><c r="B3"><v>2</v></c></row>'
+      )
+    );
+
+    expect(rows).toEqual([['Date', '', '1'], [], ['', '2']]);
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    expect(() => readXlsxSheet(Buffer.from('Date,Close\n'))).toThrow(
+      'archivio ZIP non riconosciuto'
+    );
+  });
+
+  it('rejects a corrupted central directory', () => {
+    const zip = sheet('<row r="1"><c r="A1"><v>1</v></c></row>');
+    // Offset della directory (record di fine archivio) spostato di un byte
+    zip.writeUInt32LE(zip.readUInt32LE(zip.length - 6) + 1, zip.length - 6);
+
+    expect(() => readXlsxSheet(zip)).toThrow('directory ZIP corrotta');
+  });
+
+  it('rejects cell references beyond column XFD without allocating them', () => {
+    const zip = sheet('<row r="1"><c r="AAAAAAA1"><v>1</v></c></row>');
+
+    expect(() => readXlsxSheet(zip)).toThrow('limite di Excel (XFD)');
+    expect(
+      readXlsxSheet(sheet('<row r="1"><c r="XFD1"><v>1</v></c></row>'))[0]
+    ).toHaveLength(16384);
+  });
+
+  it('rejects row numbers beyond the limit while parsing', () => {
+    const zip = sheet(
+      '<row r="999999999"><c r="A999999999"><v>1</v></c></row>'
+    );
+
+    expect(() => readXlsxSheet(zip)).toThrow('Troppe righe nel foglio');
+    expect(() =>
+      readXlsxSheet(sheet('<row r="11"><c r="A11"><v>1</v></c></row>'), {
+        maxRows: 10,
+      })
+    ).toThrow('il massimo è 10');
+  });
+
+  it('stops inflating entries beyond the uncompressed size limit', () => {
+    // 1 MB di spazi: pochi KB compressi
+    const zip = sheet(
+      `<row r="1"><c r="A1"><v>1</v></c></row>${' '.repeat(1024 * 1024)}`
+    );
+
+    expect(zip.length).toBeLessThan(16 * 1024);
+    expect(() =>
+      readXlsxSheet(zip, { maxUncompressedBytes: 64 * 1024 })
+    ).toThrow('troppo grande');
+    expect(readXlsxSheet(zip)).toEqual([['1']]);
+  });
+});
@@ -982,6 +982,12 @@ describe('StorageMonitoringService', () => {
       expect(mockIndexedDB.databases).toBeDefined();
 
       // Test that open returns a mock request
+      // jest-mock-extended 4 deep mocks return undefined unless stubbed
+      mockIndexedDB.open.mockReturnValue({
+        onsuccess: null,
+        onerror: null,
+        result: null,
+      } as unknown as IDBOpenDBRequest);
       const request = mockIndexedDB.open('test', 1);
       expect(request).toHaveProperty('onsuccess');
       expect(request).toHaveProperty('onerror');
@@ -1547,7 +1553,7 @@ describe('StorageMonitoringService', () => {
           ['very_long_key_name_here', 'very_long_value_content_here'], // Long strings
         ];
 
-        scenarios.forEach(([_key, value]) => {
+        scenarios.forEach(([key, value]) => {
           const blob = new Blob([key + value]);
           expect(blob.size).toBeGreaterThanOrEqual(0);
         });
@@ -0,0 +1,25 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from '@jest/globals';
+import { readXlsxSheet } from '../../backend/src/services/xlsxReader';
+import { toXlsx } from '../../src/utils/tableExport';
+
+describe('tableExport', () => {
+  it('writes an XLSX workbook readable by the import reader', () => {
+    const bytes = toXlsx(
+      ['Data', 'Chiusura', 'Nota'],
+      [
+        ['2024-01-02', 101.25, 'però <ok> & più'],
+        ['2024-01-03', null, 'x'],
+      ],
+      'AAPL'
+    );
+
+    expect(readXlsxSheet(Buffer.from(bytes))).toEqual([
+      ['Data', 'Chiusura', 'Nota'],
+      ['2024-01-02', '101.25', 'però <ok> & più'],
+      ['2024-01-03', '', 'x'],
+    ]);
+  });
+});